@@ -32,6 +32,7 @@ import {
   Logout as LogoutIcon,
   AdminPanelSettings as AdminPanelSettingsIcon,
   RateReview as ReviewIcon,
+  Category as CategoryIcon,
 } from '@mui/icons-material';
 import { useAuth } from '../contexts/AuthContext';
 import { pendingTransactionsService } from '../services/api/pendingTransactions.service';
@@ -56,6 +57,7 @@ const navigationItems: NavItem[] = [
   { text: 'Events', icon: <EventIcon />, path: '/events' },
   { text: 'Documents', icon: <FolderIcon />, path: '/documents' },
   { text: 'Pending Review', icon: <ReviewIcon />, path: '/admin/pending-transactions', adminOnly: true, showBadge: true },
+  { text: 'Categories', icon: <CategoryIcon />, path: '/admin/transaction-categories', adminOnly: true },
   { text: 'Users', icon: <AdminPanelSettingsIcon />, path: '/users', adminOnly: true },
   { text: 'Settings', icon: <SettingsIcon />, path: '/settings' },
 ];
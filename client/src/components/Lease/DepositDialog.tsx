@@ -0,0 +1,283 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Chip,
+  CircularProgress,
+  Alert,
+  TextField,
+  IconButton,
+  Divider,
+  InputAdornment,
+} from '@mui/material';
+import { Add as AddIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { leasesService } from '../../services/api/leases.service';
+import type { LeaseDeposit, DepositProtectionStatus } from '../../types/api.types';
+import { ApiError } from '../../types/api.types';
+import { useToast } from '../../contexts/ToastContext';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface DepositDialogProps {
+  open: boolean;
+  leaseId: string | null;
+  title?: string;
+  onClose: () => void;
+  onReturned?: () => void;
+}
+
+interface DeductionRow {
+  description: string;
+  amount: string;
+}
+
+const getComplianceColor = (
+  status: DepositProtectionStatus
+): 'default' | 'success' | 'warning' | 'error' => {
+  switch (status) {
+    case 'Compliant':
+      return 'success';
+    case 'Pending':
+      return 'warning';
+    case 'Breach':
+      return 'error';
+    default:
+      return 'default';
+  }
+};
+
+const formatCurrency = (amount: number) =>
+  `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (dateString: string) => format(new Date(dateString), 'dd MMM yyyy');
+
+export const DepositDialog: React.FC<DepositDialogProps> = ({ open, leaseId, title, onClose, onReturned }) => {
+  const toast = useToast();
+  const { canWrite } = useAuth();
+
+  const [deposit, setDeposit] = useState<LeaseDeposit | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [returnDate, setReturnDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [deductions, setDeductions] = useState<DeductionRow[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadDeposit = useCallback(async () => {
+    if (!leaseId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setDeposit(await leasesService.getLeaseDeposit(leaseId));
+    } catch (err) {
+      console.error('Error fetching deposit:', err);
+      setError(err instanceof ApiError ? err.message : 'Failed to load deposit');
+    } finally {
+      setLoading(false);
+    }
+  }, [leaseId]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setReturnDate(format(new Date(), 'yyyy-MM-dd'));
+    setDeductions([]);
+    loadDeposit();
+  }, [open, loadDeposit]);
+
+  const totalDeductions = deductions.reduce((sum, d) => sum + (parseFloat(d.amount) || 0), 0);
+  const refund = deposit ? deposit.amount - totalDeductions : 0;
+
+  const updateDeduction = (index: number, field: keyof DeductionRow, value: string) => {
+    setDeductions((prev) => prev.map((d, i) => (i === index ? { ...d, [field]: value } : d)));
+  };
+
+  const handleReturn = async () => {
+    if (!leaseId || !deposit) return;
+
+    if (deductions.some((d) => !d.description.trim() || !(parseFloat(d.amount) > 0))) {
+      toast.error('Each deduction needs a description and a positive amount');
+      return;
+    }
+    if (refund < 0) {
+      toast.error('Deductions cannot exceed the deposit amount');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await leasesService.returnDeposit(leaseId, {
+        returnDate,
+        deductions: deductions.map((d) => ({ description: d.description.trim(), amount: parseFloat(d.amount) })),
+      });
+      toast.success('Deposit returned successfully');
+      await loadDeposit();
+      onReturned?.();
+    } catch (err) {
+      console.error('Error returning deposit:', err);
+      toast.error(err instanceof ApiError ? err.message : 'Failed to return deposit');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const canReturn = canWrite() && !!deposit && !!deposit.paidDate && !deposit.returnedDate;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{title || 'Deposit'}</DialogTitle>
+      <DialogContent>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : deposit ? (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <Typography variant="h6">{formatCurrency(deposit.amount)}</Typography>
+              <Chip
+                label={deposit.compliance.status}
+                color={getComplianceColor(deposit.compliance.status)}
+                size="small"
+              />
+            </Box>
+
+            {deposit.compliance.breaches.map((breach) => (
+              <Alert key={breach} severity="error">
+                {breach}
+              </Alert>
+            ))}
+            {deposit.compliance.status === 'Pending' && deposit.compliance.deadline && (
+              <Alert severity="warning">
+                Protect the deposit and serve prescribed information by {formatDate(deposit.compliance.deadline)} (
+                {deposit.compliance.daysUntilDeadline} days left)
+              </Alert>
+            )}
+
+            <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  Received
+                </Typography>
+                <Typography>{deposit.paidDate ? formatDate(deposit.paidDate) : 'Not received'}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  Scheme
+                </Typography>
+                <Typography>
+                  {deposit.scheme
+                    ? `${deposit.scheme}${deposit.certificateRef ? ` (${deposit.certificateRef})` : ''}`
+                    : '-'}
+                </Typography>
+              </Box>
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  Protected
+                </Typography>
+                <Typography>{deposit.protectedDate ? formatDate(deposit.protectedDate) : '-'}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  Prescribed Information Served
+                </Typography>
+                <Typography>
+                  {deposit.prescribedInfoServedAt ? formatDate(deposit.prescribedInfoServedAt) : '-'}
+                </Typography>
+              </Box>
+            </Box>
+
+            {deposit.returnedDate && (
+              <>
+                <Divider />
+                <Typography variant="subtitle1">
+                  Returned {formatDate(deposit.returnedDate)}: {formatCurrency(deposit.returnedAmount ?? 0)} to tenant
+                </Typography>
+                {deposit.deductions.map((d) => (
+                  <Box key={d.id} sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <Typography variant="body2">{d.description}</Typography>
+                    <Typography variant="body2">{formatCurrency(d.amount)}</Typography>
+                  </Box>
+                ))}
+              </>
+            )}
+
+            {canReturn && (
+              <>
+                <Divider />
+                <Typography variant="subtitle1">Return Deposit</Typography>
+                <TextField
+                  label="Return Date"
+                  type="date"
+                  value={returnDate}
+                  onChange={(e) => setReturnDate(e.target.value)}
+                  InputLabelProps={{ shrink: true }}
+                  required
+                />
+                {deductions.map((deduction, index) => (
+                  <Box key={index} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                    <TextField
+                      label="Deduction"
+                      value={deduction.description}
+                      onChange={(e) => updateDeduction(index, 'description', e.target.value)}
+                      size="small"
+                      sx={{ flex: 2 }}
+                    />
+                    <TextField
+                      label="Amount"
+                      type="number"
+                      value={deduction.amount}
+                      onChange={(e) => updateDeduction(index, 'amount', e.target.value)}
+                      size="small"
+                      sx={{ flex: 1 }}
+                      InputProps={{
+                        startAdornment: <InputAdornment position="start">£</InputAdornment>,
+                      }}
+                    />
+                    <IconButton
+                      size="small"
+                      onClick={() => setDeductions((prev) => prev.filter((_, i) => i !== index))}
+                      aria-label="Remove deduction"
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Box>
+                ))}
+                <Box>
+                  <Button
+                    size="small"
+                    startIcon={<AddIcon />}
+                    onClick={() => setDeductions((prev) => [...prev, { description: '', amount: '' }])}
+                  >
+                    Add Deduction
+                  </Button>
+                </Box>
+                <Typography variant="body2" color={refund < 0 ? 'error' : 'text.secondary'}>
+                  Deductions {formatCurrency(totalDeductions)} - refund to tenant {formatCurrency(refund)}
+                </Typography>
+              </>
+            )}
+          </Box>
+        ) : null}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} color="inherit">
+          Close
+        </Button>
+        {canReturn && (
+          <Button onClick={handleReturn} variant="contained" disabled={submitting}>
+            Return Deposit
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  TextField,
+  Typography,
+  InputAdornment,
+  MenuItem,
+} from '@mui/material';
+import { addDays, addYears, format } from 'date-fns';
+import { leasesService } from '../../services/api/leases.service';
+import type { Lease, RentFrequency } from '../../types/api.types';
+import { ApiError } from '../../types/api.types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface RenewLeaseDialogProps {
+  open: boolean;
+  lease: Lease | null;
+  onClose: () => void;
+  onRenewed: (lease: Lease) => void;
+}
+
+interface RenewFormData {
+  startDate: string;
+  endDate: string;
+  rentAmount: string;
+  rentFrequency: RentFrequency;
+}
+
+const RENT_FREQUENCIES: RentFrequency[] = ['Weekly', 'Fortnightly', 'Four-weekly', 'Monthly', 'Quarterly', 'Annually'];
+
+// Weekly cycles fall due on a weekday (1 = Monday) rather than a day of the month
+const isWeekdayFrequency = (frequency: RentFrequency): boolean =>
+  frequency === 'Weekly' || frequency === 'Fortnightly' || frequency === 'Four-weekly';
+
+const toDateInput = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const formatCurrency = (amount: number) =>
+  `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Latest rent change already in effect, falling back to the rent the lease started on
+const getCurrentRent = (lease: Lease): number => {
+  const today = new Date().toISOString();
+  const inForce = (lease.rentChanges ?? []).filter((change) => change.effectiveDate <= today);
+  return inForce.length > 0 ? inForce[inForce.length - 1].rentAmount : lease.rentAmount;
+};
+
+// Default to a same-length term starting the day after the current lease ends
+const getInitialFormData = (lease: Lease): RenewFormData => {
+  if (!lease.endDate) {
+    return {
+      startDate: '',
+      endDate: '',
+      rentAmount: getCurrentRent(lease).toString(),
+      rentFrequency: lease.rentFrequency,
+    };
+  }
+
+  const startDate = addDays(new Date(lease.endDate), 1);
+  return {
+    startDate: toDateInput(startDate),
+    endDate: toDateInput(addDays(addYears(startDate, 1), -1)),
+    rentAmount: getCurrentRent(lease).toString(),
+    rentFrequency: lease.rentFrequency,
+  };
+};
+
+export const RenewLeaseDialog: React.FC<RenewLeaseDialogProps> = ({ open, lease, onClose, onRenewed }) => {
+  const toast = useToast();
+  const [formData, setFormData] = useState<RenewFormData>({
+    startDate: '',
+    endDate: '',
+    rentAmount: '',
+    rentFrequency: 'Monthly',
+  });
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open && lease) {
+      setFormData(getInitialFormData(lease));
+      setFormErrors({});
+    }
+  }, [open, lease]);
+
+  const currentRent = lease ? getCurrentRent(lease) : 0;
+  const newRent = parseFloat(formData.rentAmount);
+  // Rent on a different cycle isn't directly comparable with the current rent
+  const sameFrequency = !!lease && formData.rentFrequency === lease.rentFrequency;
+  const rentChange = lease && sameFrequency && !isNaN(newRent) ? newRent - currentRent : 0;
+
+  const validate = (): boolean => {
+    const errors: Record<string, string> = {};
+
+    if (!formData.startDate) {
+      errors.startDate = 'Start date is required';
+    }
+    if (formData.startDate && formData.endDate && formData.endDate < formData.startDate) {
+      errors.endDate = 'End date must be after or equal to start date';
+    }
+    if (isNaN(newRent) || newRent <= 0) {
+      errors.rentAmount = 'Rent amount must be positive';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!lease || !validate()) return;
+
+    try {
+      setSubmitting(true);
+      const renewed = await leasesService.renewLease(lease.id, {
+        startDate: formData.startDate,
+        endDate: formData.endDate || null,
+        rentAmount: newRent,
+        rentFrequency: formData.rentFrequency,
+        // A weekday due day can't carry over to a monthly cycle (or vice versa) - fall back to the start date
+        ...(isWeekdayFrequency(formData.rentFrequency) !== isWeekdayFrequency(lease.rentFrequency)
+          ? { rentDueDay: null }
+          : {}),
+      });
+      toast.success('Lease renewed successfully');
+      onRenewed(renewed);
+    } catch (err) {
+      console.error('Error renewing lease:', err);
+      toast.error(err instanceof ApiError ? err.message : 'Failed to renew lease');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Renew Lease</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          {lease && (
+            <Typography variant="body2" color="text.secondary">
+              The current lease will be marked Expired and linked to the new one. Tenants, unit and deposit
+              carry over.
+            </Typography>
+          )}
+          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+            <TextField
+              label="Start Date"
+              type="date"
+              value={formData.startDate}
+              onChange={(e) => setFormData((prev) => ({ ...prev, startDate: e.target.value }))}
+              error={!!formErrors.startDate}
+              helperText={formErrors.startDate}
+              InputLabelProps={{ shrink: true }}
+              required
+            />
+            <TextField
+              label="End Date"
+              type="date"
+              value={formData.endDate}
+              onChange={(e) => setFormData((prev) => ({ ...prev, endDate: e.target.value }))}
+              error={!!formErrors.endDate}
+              helperText={formErrors.endDate || 'Leave empty for ongoing lease'}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Box>
+          <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+            <TextField
+              label="Rent Amount"
+              type="number"
+              value={formData.rentAmount}
+              onChange={(e) => setFormData((prev) => ({ ...prev, rentAmount: e.target.value }))}
+              error={!!formErrors.rentAmount}
+              helperText={
+                formErrors.rentAmount ||
+                (lease && !sameFrequency
+                  ? `Currently ${formatCurrency(currentRent)} ${lease.rentFrequency.toLowerCase()}`
+                  : lease && rentChange !== 0
+                    ? `${rentChange > 0 ? 'Up' : 'Down'} ${formatCurrency(Math.abs(rentChange))} from ${formatCurrency(currentRent)}`
+                    : 'Unchanged from current rent')
+              }
+              InputProps={{
+                startAdornment: <InputAdornment position="start">£</InputAdornment>,
+              }}
+              required
+            />
+            <TextField
+              label="Rent Frequency"
+              select
+              value={formData.rentFrequency}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, rentFrequency: e.target.value as RentFrequency }))
+              }
+            >
+              {RENT_FREQUENCIES.map((frequency) => (
+                <MenuItem key={frequency} value={frequency}>
+                  {frequency}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} color="inherit" disabled={submitting}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} variant="contained" disabled={submitting}>
+          Renew
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
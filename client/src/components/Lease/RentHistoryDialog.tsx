@@ -0,0 +1,279 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  CircularProgress,
+  Alert,
+  TextField,
+  IconButton,
+  Divider,
+  InputAdornment,
+} from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+import { addMonths, format } from 'date-fns';
+import { leasesService } from '../../services/api/leases.service';
+import type { RentHistory, RentChangeStatus, RentFrequency } from '../../types/api.types';
+import { ApiError } from '../../types/api.types';
+import { useToast } from '../../contexts/ToastContext';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface RentHistoryDialogProps {
+  open: boolean;
+  leaseId: string | null;
+  title?: string;
+  onClose: () => void;
+  onChanged?: () => void;
+}
+
+interface RentChangeFormData {
+  effectiveDate: string;
+  rentAmount: string;
+  noticeServedAt: string;
+  notes: string;
+}
+
+const RENT_FREQUENCY_SUFFIX: Record<RentFrequency, string> = {
+  Weekly: '/week',
+  Fortnightly: '/fortnight',
+  'Four-weekly': '/4 weeks',
+  Monthly: '/month',
+  Quarterly: '/quarter',
+  Annually: '/year',
+};
+
+const getStatusColor = (status: RentChangeStatus): 'default' | 'success' | 'info' => {
+  switch (status) {
+    case 'In Effect':
+      return 'success';
+    case 'Scheduled':
+      return 'info';
+    default:
+      return 'default';
+  }
+};
+
+const formatCurrency = (amount: number) =>
+  `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (dateString: string) => format(new Date(dateString), 'dd MMM yyyy');
+
+// Default to an increase two months out, leaving time to serve a month's notice
+const getInitialFormData = (): RentChangeFormData => ({
+  effectiveDate: format(addMonths(new Date(), 2), 'yyyy-MM-dd'),
+  rentAmount: '',
+  noticeServedAt: '',
+  notes: '',
+});
+
+export const RentHistoryDialog: React.FC<RentHistoryDialogProps> = ({ open, leaseId, title, onClose, onChanged }) => {
+  const toast = useToast();
+  const { canWrite } = useAuth();
+
+  const [history, setHistory] = useState<RentHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [formData, setFormData] = useState<RentChangeFormData>(getInitialFormData);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadHistory = useCallback(async () => {
+    if (!leaseId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setHistory(await leasesService.getRentHistory(leaseId));
+    } catch (err) {
+      console.error('Error fetching rent history:', err);
+      setError(err instanceof ApiError ? err.message : 'Failed to load rent history');
+    } finally {
+      setLoading(false);
+    }
+  }, [leaseId]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setFormData(getInitialFormData());
+    loadHistory();
+  }, [open, loadHistory]);
+
+  const handleSchedule = async () => {
+    if (!leaseId) return;
+
+    const rentAmount = parseFloat(formData.rentAmount);
+    if (!formData.effectiveDate || isNaN(rentAmount) || rentAmount <= 0) {
+      toast.error('Enter an effective date and a positive rent amount');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const rentChange = await leasesService.scheduleRentChange(leaseId, {
+        effectiveDate: formData.effectiveDate,
+        rentAmount,
+        noticeServedAt: formData.noticeServedAt || null,
+        notes: formData.notes.trim() || null,
+      });
+      toast.success(`Rent change scheduled - serve notice by ${formatDate(rentChange.noticeDate)}`);
+      setFormData(getInitialFormData());
+      await loadHistory();
+      onChanged?.();
+    } catch (err) {
+      console.error('Error scheduling rent change:', err);
+      toast.error(err instanceof ApiError ? err.message : 'Failed to schedule rent change');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancelChange = async (rentChangeId: string) => {
+    if (!leaseId) return;
+
+    try {
+      await leasesService.cancelRentChange(leaseId, rentChangeId);
+      toast.success('Rent change cancelled');
+      await loadHistory();
+      onChanged?.();
+    } catch (err) {
+      console.error('Error cancelling rent change:', err);
+      toast.error(err instanceof ApiError ? err.message : 'Failed to cancel rent change');
+    }
+  };
+
+  const suffix = history ? RENT_FREQUENCY_SUFFIX[history.rentFrequency] : '';
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{title || 'Rent History'}</DialogTitle>
+      <DialogContent>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : history ? (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <Typography variant="h6">
+              {formatCurrency(history.currentRent)}
+              {suffix} in force
+            </Typography>
+
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Effective</TableCell>
+                    <TableCell align="right">Rent</TableCell>
+                    <TableCell>Notice By</TableCell>
+                    <TableCell>Notice Served</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {history.entries.map((entry) => (
+                    <TableRow key={entry.rentChangeId ?? 'start'}>
+                      <TableCell>
+                        {formatDate(entry.effectiveDate)}
+                        {!entry.rentChangeId && ' (start)'}
+                        {entry.notes && (
+                          <Typography variant="caption" color="text.secondary" display="block">
+                            {entry.notes}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="right">
+                        {formatCurrency(entry.rentAmount)}
+                        {suffix}
+                      </TableCell>
+                      <TableCell>{entry.noticeDate ? formatDate(entry.noticeDate) : '-'}</TableCell>
+                      <TableCell>{entry.noticeServedAt ? formatDate(entry.noticeServedAt) : '-'}</TableCell>
+                      <TableCell>
+                        <Chip label={entry.status} color={getStatusColor(entry.status)} size="small" />
+                      </TableCell>
+                      <TableCell align="right">
+                        {canWrite() && entry.rentChangeId && entry.status === 'Scheduled' && (
+                          <IconButton
+                            size="small"
+                            onClick={() => handleCancelChange(entry.rentChangeId!)}
+                            aria-label="Cancel rent change"
+                          >
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+
+            {canWrite() && (
+              <>
+                <Divider />
+                <Typography variant="subtitle1">Schedule Rent Change</Typography>
+                <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 2 }}>
+                  <TextField
+                    label="Effective Date"
+                    type="date"
+                    value={formData.effectiveDate}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, effectiveDate: e.target.value }))}
+                    InputLabelProps={{ shrink: true }}
+                    required
+                  />
+                  <TextField
+                    label="New Rent"
+                    type="number"
+                    value={formData.rentAmount}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, rentAmount: e.target.value }))}
+                    InputProps={{
+                      startAdornment: <InputAdornment position="start">£</InputAdornment>,
+                    }}
+                    required
+                  />
+                  <TextField
+                    label="Notice Served"
+                    type="date"
+                    value={formData.noticeServedAt}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, noticeServedAt: e.target.value }))}
+                    helperText="Leave empty if not yet served"
+                    InputLabelProps={{ shrink: true }}
+                  />
+                </Box>
+                <TextField
+                  label="Notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
+                />
+              </>
+            )}
+          </Box>
+        ) : null}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} color="inherit">
+          Close
+        </Button>
+        {canWrite() && history && (
+          <Button onClick={handleSchedule} variant="contained" disabled={submitting}>
+            Schedule
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+import { format } from 'date-fns';
+import { leasesService } from '../../services/api/leases.service';
+import type { LeaseLedger, RentPeriodStatus } from '../../types/api.types';
+import { ApiError } from '../../types/api.types';
+
+interface RentLedgerDialogProps {
+  open: boolean;
+  leaseId: string | null;
+  title?: string;
+  onClose: () => void;
+}
+
+const getRentPeriodStatusColor = (
+  status: RentPeriodStatus
+): 'default' | 'success' | 'warning' | 'error' => {
+  switch (status) {
+    case 'Paid':
+      return 'success';
+    case 'Part Paid':
+      return 'warning';
+    case 'Overdue':
+      return 'error';
+    default:
+      return 'default';
+  }
+};
+
+const formatCurrency = (amount: number) =>
+  `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (dateString: string) => format(new Date(dateString), 'dd MMM yyyy');
+
+export const RentLedgerDialog: React.FC<RentLedgerDialogProps> = ({ open, leaseId, title, onClose }) => {
+  const [ledger, setLedger] = useState<LeaseLedger | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !leaseId) return;
+
+    const loadLedger = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setLedger(await leasesService.getLeaseLedger(leaseId));
+      } catch (err) {
+        console.error('Error fetching rent ledger:', err);
+        setError(err instanceof ApiError ? err.message : 'Failed to load rent ledger');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLedger();
+  }, [open, leaseId]);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{title || 'Rent Ledger'}</DialogTitle>
+      <DialogContent>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : ledger ? (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 2 }}>
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  Rent Due to Date
+                </Typography>
+                <Typography variant="h6">{formatCurrency(ledger.totalDue)}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  Rent Received
+                </Typography>
+                <Typography variant="h6">{formatCurrency(ledger.totalPaid)}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  {ledger.arrears < 0 ? 'In Credit' : 'Arrears'}
+                </Typography>
+                <Typography variant="h6" color={ledger.arrears > 0 ? 'error' : 'success.main'}>
+                  {formatCurrency(Math.abs(ledger.arrears))}
+                </Typography>
+              </Box>
+            </Box>
+
+            {ledger.periods.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No rent periods scheduled for this lease.
+              </Typography>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Due Date</TableCell>
+                      <TableCell>Period</TableCell>
+                      <TableCell align="right">Due</TableCell>
+                      <TableCell align="right">Paid</TableCell>
+                      <TableCell align="right">Balance</TableCell>
+                      <TableCell>Status</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {ledger.periods.map((period) => (
+                      <TableRow key={period.dueDate}>
+                        <TableCell>{formatDate(period.dueDate)}</TableCell>
+                        <TableCell>
+                          {formatDate(period.periodStart)} - {formatDate(period.periodEnd)}
+                          {period.isProRata && (
+                            <Typography variant="caption" color="text.secondary" display="block">
+                              Pro-rata
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell align="right">{formatCurrency(period.amountDue)}</TableCell>
+                        <TableCell align="right">{formatCurrency(period.amountPaid)}</TableCell>
+                        <TableCell align="right">{formatCurrency(period.balance)}</TableCell>
+                        <TableCell>
+                          <Chip
+                            label={period.status}
+                            color={getRentPeriodStatusColor(period.status)}
+                            size="small"
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </Box>
+        ) : null}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} color="inherit">
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
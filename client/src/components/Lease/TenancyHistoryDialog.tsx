@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+import { format } from 'date-fns';
+import { tenantsService } from '../../services/api/tenants.service';
+import type { Lease, RentFrequency } from '../../types/api.types';
+import { ApiError } from '../../types/api.types';
+
+interface TenancyHistoryDialogProps {
+  open: boolean;
+  tenantId: string | null;
+  title?: string;
+  onClose: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const RENT_FREQUENCY_SUFFIX: Record<RentFrequency, string> = {
+  Weekly: '/week',
+  Fortnightly: '/fortnight',
+  'Four-weekly': '/4 weeks',
+  Monthly: '/month',
+  Quarterly: '/quarter',
+  Annually: '/year',
+};
+
+const formatDate = (dateString: string) => format(new Date(dateString), 'dd MMM yyyy');
+
+const getStatusColor = (status: Lease['status']): 'default' | 'success' | 'warning' | 'error' => {
+  switch (status) {
+    case 'Active':
+      return 'success';
+    case 'Draft':
+      return 'warning';
+    case 'Terminated':
+      return 'error';
+    default:
+      return 'default';
+  }
+};
+
+/**
+ * Group leases into renewal chains, oldest lease first within each chain
+ * and the most recent tenancy first overall.
+ */
+const buildTenancyChains = (leases: Lease[]): Lease[][] => {
+  const byId = new Map(leases.map((lease) => [lease.id, lease]));
+
+  const chains = leases
+    .filter((lease) => !lease.previousLease || !byId.has(lease.previousLease.id))
+    .map((first) => {
+      const chain = [first];
+      let next = first.renewal ? byId.get(first.renewal.id) : undefined;
+      while (next) {
+        chain.push(next);
+        next = next.renewal ? byId.get(next.renewal.id) : undefined;
+      }
+      return chain;
+    });
+
+  return chains.sort(
+    (a, b) =>
+      new Date(b[b.length - 1].startDate).getTime() - new Date(a[a.length - 1].startDate).getTime()
+  );
+};
+
+export const TenancyHistoryDialog: React.FC<TenancyHistoryDialogProps> = ({ open, tenantId, title, onClose }) => {
+  const [chains, setChains] = useState<Lease[][]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !tenantId) return;
+
+    const loadHistory = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setChains(buildTenancyChains(await tenantsService.getTenantLeaseHistory(tenantId)));
+      } catch (err) {
+        console.error('Error fetching tenancy history:', err);
+        setError(err instanceof ApiError ? err.message : 'Failed to load tenancy history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [open, tenantId]);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{title || 'Tenancy History'}</DialogTitle>
+      <DialogContent>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : chains.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            No leases found for this tenant.
+          </Typography>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 3, mt: 1 }}>
+            {chains.map((chain) => (
+              <Box key={chain[0].id}>
+                <Typography variant="subtitle1" gutterBottom>
+                  {chain[0].property?.name || 'Property'}
+                  {chain.length > 1 && ` - ${chain.length} terms`}
+                </Typography>
+                <TableContainer>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Term</TableCell>
+                        <TableCell>Status</TableCell>
+                        <TableCell align="right">Rent</TableCell>
+                        <TableCell align="right">Change</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {chain.map((lease, index) => {
+                        // Only compare rents charged on the same cycle
+                        const previous = index > 0 ? chain[index - 1] : null;
+                        let changeLabel = '-';
+                        if (previous && previous.rentFrequency !== lease.rentFrequency) {
+                          changeLabel = `Now ${lease.rentFrequency.toLowerCase()}`;
+                        } else if (previous) {
+                          const change = lease.rentAmount - previous.rentAmount;
+                          const sign = change > 0 ? '+' : '-';
+                          changeLabel =
+                            change === 0
+                              ? 'No change'
+                              : `${sign}${formatCurrency(Math.abs(change))} (${sign}${Math.abs(
+                                  Math.round((change / previous.rentAmount) * 1000) / 10
+                                )}%)`;
+                        }
+
+                        return (
+                          <TableRow key={lease.id}>
+                            <TableCell>
+                              {formatDate(lease.startDate)} - {lease.endDate ? formatDate(lease.endDate) : 'Ongoing'}
+                            </TableCell>
+                            <TableCell>
+                              <Chip label={lease.status} color={getStatusColor(lease.status)} size="small" />
+                            </TableCell>
+                            <TableCell align="right">
+                              {formatCurrency(lease.rentAmount)}
+                              {RENT_FREQUENCY_SUFFIX[lease.rentFrequency]}
+                            </TableCell>
+                            <TableCell align="right">{changeLabel}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Box>
+            ))}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} color="inherit">
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,353 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  IconButton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  MenuItem,
+  Stack,
+  CircularProgress,
+  Alert,
+} from '@mui/material';
+import { Add as AddIcon, Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { propertiesService } from '../../services/api/properties.service';
+import type {
+  PropertyOccupancy,
+  UnitOccupancy,
+  UnitStatus,
+  CreateUnitRequest,
+  RentFrequency,
+} from '../../types/api.types';
+import { ApiError } from '../../types/api.types';
+import ConfirmDialog from '../shared/ConfirmDialog';
+import { useToast } from '../../contexts/ToastContext';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface UnitsSectionProps {
+  propertyId: string;
+}
+
+const UNIT_STATUSES: UnitStatus[] = ['Available', 'Occupied', 'Under Maintenance'];
+
+const initialFormData: CreateUnitRequest = {
+  name: '',
+  status: 'Available',
+  notes: '',
+};
+
+const RENT_FREQUENCY_SUFFIX: Record<RentFrequency, string> = {
+  Weekly: '/week',
+  Fortnightly: '/fortnight',
+  'Four-weekly': '/4 weeks',
+  Monthly: '/month',
+  Quarterly: '/quarter',
+  Annually: '/year',
+};
+
+const formatCurrency = (amount: number) =>
+  `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (dateString: string) => format(new Date(dateString), 'dd MMM yyyy');
+
+export const UnitsSection: React.FC<UnitsSectionProps> = ({ propertyId }) => {
+  const toast = useToast();
+  const { canWrite } = useAuth();
+
+  const [occupancy, setOccupancy] = useState<PropertyOccupancy | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingUnitId, setEditingUnitId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CreateUnitRequest>(initialFormData);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const [unitToDelete, setUnitToDelete] = useState<UnitOccupancy | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+
+  const fetchOccupancy = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setOccupancy(await propertiesService.getOccupancy(propertyId));
+    } catch (err) {
+      console.error('Error fetching occupancy:', err);
+      setError(err instanceof ApiError ? err.message : 'Failed to load occupancy');
+    } finally {
+      setLoading(false);
+    }
+  }, [propertyId]);
+
+  useEffect(() => {
+    fetchOccupancy();
+  }, [fetchOccupancy]);
+
+  const handleOpenDialog = (entry?: UnitOccupancy) => {
+    if (entry) {
+      setEditingUnitId(entry.unit.id);
+      setFormData({ name: entry.unit.name, status: entry.unit.status, notes: '' });
+    } else {
+      setEditingUnitId(null);
+      setFormData(initialFormData);
+    }
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const handleCloseDialog = () => {
+    setDialogOpen(false);
+    setEditingUnitId(null);
+    setFormData(initialFormData);
+    setFormError(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.name.trim()) {
+      setFormError('Unit name is required');
+      return;
+    }
+
+    try {
+      if (editingUnitId) {
+        await propertiesService.updateUnit(propertyId, editingUnitId, {
+          name: formData.name.trim(),
+          status: formData.status,
+        });
+        toast.success('Unit updated successfully');
+      } else {
+        await propertiesService.createUnit(propertyId, {
+          name: formData.name.trim(),
+          status: formData.status,
+          notes: formData.notes || null,
+        });
+        toast.success('Unit created successfully');
+      }
+
+      handleCloseDialog();
+      await fetchOccupancy();
+    } catch (err) {
+      console.error('Error saving unit:', err);
+      toast.error(err instanceof ApiError ? err.message : 'Failed to save unit');
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!unitToDelete) return;
+
+    try {
+      setDeleteLoading(true);
+      await propertiesService.deleteUnit(propertyId, unitToDelete.unit.id);
+      toast.success('Unit deleted successfully');
+      setUnitToDelete(null);
+      await fetchOccupancy();
+    } catch (err) {
+      console.error('Error deleting unit:', err);
+      toast.error(err instanceof ApiError ? err.message : 'Failed to delete unit');
+    } finally {
+      setDeleteLoading(false);
+    }
+  };
+
+  const summary = occupancy?.summary;
+
+  return (
+    <Paper sx={{ p: 3, mt: 3 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Typography variant="h6">Units & Occupancy</Typography>
+        {canWrite() && (
+          <Button variant="outlined" size="small" startIcon={<AddIcon />} onClick={() => handleOpenDialog()}>
+            Add Unit
+          </Button>
+        )}
+      </Box>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+          <CircularProgress size={32} />
+        </Box>
+      ) : error ? (
+        <Alert severity="error">{error}</Alert>
+      ) : occupancy && summary ? (
+        <>
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr 1fr', md: 'repeat(4, 1fr)' }, gap: 2, mb: 2 }}>
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                Occupancy
+              </Typography>
+              <Typography variant="h6">{summary.occupancyRate}%</Typography>
+            </Box>
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                Units Let
+              </Typography>
+              <Typography variant="h6">
+                {summary.totalUnits > 0 ? `${summary.occupiedUnits} / ${summary.totalUnits}` : 'N/A'}
+              </Typography>
+            </Box>
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                Vacant Units
+              </Typography>
+              <Typography variant="h6">{summary.totalUnits > 0 ? summary.vacantUnits : 'N/A'}</Typography>
+            </Box>
+            <Box>
+              <Typography variant="body2" color="text.secondary">
+                Monthly Rent Roll
+              </Typography>
+              <Typography variant="h6">{formatCurrency(summary.monthlyRentRoll)}</Typography>
+              <Typography variant="caption" color="text.secondary">
+                {formatCurrency(summary.annualRentRoll)}/year
+              </Typography>
+            </Box>
+          </Box>
+
+          {occupancy.wholePropertyLease && (
+            <Alert severity="info" sx={{ mb: 2 }}>
+              Whole property let to {occupancy.wholePropertyLease.tenants.map((t) => t.name).join(' & ')} at{' '}
+              {formatCurrency(occupancy.wholePropertyLease.rentAmount)}
+              {RENT_FREQUENCY_SUFFIX[occupancy.wholePropertyLease.rentFrequency]}
+            </Alert>
+          )}
+
+          {occupancy.units.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              This property is let as a single unit. Add units to let rooms individually.
+            </Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Unit</TableCell>
+                    <TableCell>Occupancy</TableCell>
+                    <TableCell>Tenants</TableCell>
+                    <TableCell align="right">Rent</TableCell>
+                    <TableCell>Vacant Since</TableCell>
+                    {canWrite() && <TableCell align="right">Actions</TableCell>}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {occupancy.units.map((entry) => (
+                    <TableRow key={entry.unit.id}>
+                      <TableCell>
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <span>{entry.unit.name}</span>
+                          {entry.unit.status === 'Under Maintenance' && (
+                            <Chip label="Under Maintenance" color="error" size="small" variant="outlined" />
+                          )}
+                        </Stack>
+                      </TableCell>
+                      <TableCell>
+                        <Chip
+                          label={entry.occupied ? (entry.lease ? 'Let' : 'Whole property let') : 'Vacant'}
+                          color={entry.occupied ? 'success' : 'warning'}
+                          size="small"
+                        />
+                      </TableCell>
+                      <TableCell>{entry.lease ? entry.lease.tenants.map((t) => t.name).join(' & ') : '-'}</TableCell>
+                      <TableCell align="right">
+                        {entry.lease
+                          ? `${formatCurrency(entry.lease.rentAmount)}${RENT_FREQUENCY_SUFFIX[entry.lease.rentFrequency]}`
+                          : '-'}
+                      </TableCell>
+                      <TableCell>{entry.vacantSince ? formatDate(entry.vacantSince) : '-'}</TableCell>
+                      {canWrite() && (
+                        <TableCell align="right">
+                          <IconButton size="small" onClick={() => handleOpenDialog(entry)} aria-label="edit unit">
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                          <IconButton
+                            size="small"
+                            color="error"
+                            onClick={() => setUnitToDelete(entry)}
+                            aria-label="delete unit"
+                          >
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </>
+      ) : null}
+
+      <Dialog open={dialogOpen} onClose={handleCloseDialog} maxWidth="xs" fullWidth>
+        <DialogTitle>{editingUnitId ? 'Edit Unit' : 'Add Unit'}</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <TextField
+              label="Unit Name"
+              value={formData.name}
+              onChange={(e) => {
+                setFormData((prev) => ({ ...prev, name: e.target.value }));
+                setFormError(null);
+              }}
+              error={!!formError}
+              helperText={formError || 'e.g. Room 1, Flat A'}
+              required
+              fullWidth
+            />
+            <TextField
+              label="Status"
+              select
+              value={formData.status}
+              onChange={(e) => setFormData((prev) => ({ ...prev, status: e.target.value as UnitStatus }))}
+              fullWidth
+            >
+              {UNIT_STATUSES.map((status) => (
+                <MenuItem key={status} value={status}>
+                  {status}
+                </MenuItem>
+              ))}
+            </TextField>
+            {!editingUnitId && (
+              <TextField
+                label="Notes"
+                value={formData.notes ?? ''}
+                onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
+                multiline
+                rows={2}
+                fullWidth
+              />
+            )}
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog} color="inherit">
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} variant="contained">
+            {editingUnitId ? 'Save' : 'Add'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!unitToDelete}
+        title="Delete Unit"
+        message={`Delete ${unitToDelete?.unit.name ?? 'this unit'}? Past leases, transactions and events will stay on the property.`}
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setUnitToDelete(null)}
+        loading={deleteLoading}
+      />
+    </Paper>
+  );
+};
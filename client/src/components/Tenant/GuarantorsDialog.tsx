@@ -0,0 +1,468 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Chip,
+  CircularProgress,
+  Alert,
+  TextField,
+  IconButton,
+  Divider,
+  InputAdornment,
+  MenuItem,
+  Checkbox,
+  ListItemText,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Description as DescriptionIcon,
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import { guarantorsService } from '../../services/api/guarantors.service';
+import { leasesService } from '../../services/api/leases.service';
+import { documentsService } from '../../services/api/documents.service';
+import type { Guarantor, GuarantorRelationship, Lease, Document } from '../../types/api.types';
+import { ApiError } from '../../types/api.types';
+import { useToast } from '../../contexts/ToastContext';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface GuarantorsDialogProps {
+  open: boolean;
+  tenantId: string | null;
+  title?: string;
+  onClose: () => void;
+  onChanged?: () => void;
+}
+
+interface GuarantorFormData {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  address: string;
+  relationship: GuarantorRelationship;
+  liabilityCap: string;
+  notes: string;
+  leaseIds: string[];
+}
+
+const RELATIONSHIPS: GuarantorRelationship[] = ['Parent', 'Relative', 'Employer', 'Friend', 'Other'];
+
+const initialFormData: GuarantorFormData = {
+  firstName: '',
+  lastName: '',
+  email: '',
+  phone: '',
+  address: '',
+  relationship: 'Parent',
+  liabilityCap: '',
+  notes: '',
+  leaseIds: [],
+};
+
+const formatCurrency = (amount: number) =>
+  `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (dateString: string) => format(new Date(dateString), 'dd MMM yyyy');
+
+const getLeaseLabel = (lease: Lease) =>
+  `${lease.property?.name || 'Property'}${lease.unit ? ` - ${lease.unit.name}` : ''} (${formatDate(lease.startDate)} - ${
+    lease.endDate ? formatDate(lease.endDate) : 'Ongoing'
+  })`;
+
+export const GuarantorsDialog: React.FC<GuarantorsDialogProps> = ({ open, tenantId, title, onClose, onChanged }) => {
+  const toast = useToast();
+  const { canWrite } = useAuth();
+
+  const [guarantors, setGuarantors] = useState<Guarantor[]>([]);
+  const [leases, setLeases] = useState<Lease[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Guarantor being added ('new') or edited, or null when the form is closed
+  const [editing, setEditing] = useState<Guarantor | 'new' | null>(null);
+  const [formData, setFormData] = useState<GuarantorFormData>(initialFormData);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [deedFile, setDeedFile] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadGuarantors = useCallback(async () => {
+    if (!tenantId) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const [fetchedGuarantors, fetchedLeases] = await Promise.all([
+        guarantorsService.getGuarantors({ tenant_id: tenantId }),
+        leasesService.getLeases({ tenantId }),
+      ]);
+      setGuarantors(fetchedGuarantors);
+      setLeases(fetchedLeases);
+    } catch (err) {
+      console.error('Error fetching guarantors:', err);
+      setError(err instanceof ApiError ? err.message : 'Failed to load guarantors');
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setEditing(null);
+    loadGuarantors();
+  }, [open, loadGuarantors]);
+
+  const handleAdd = () => {
+    // Default to the tenant's current lease
+    const activeLease = leases.find((lease) => lease.status === 'Active');
+    setFormData({ ...initialFormData, leaseIds: activeLease ? [activeLease.id] : [] });
+    setFormErrors({});
+    setDeedFile(null);
+    setEditing('new');
+  };
+
+  const handleEdit = (guarantor: Guarantor) => {
+    setFormData({
+      firstName: guarantor.firstName,
+      lastName: guarantor.lastName,
+      email: guarantor.email,
+      phone: guarantor.phone,
+      address: guarantor.address || '',
+      relationship: guarantor.relationship,
+      liabilityCap: guarantor.liabilityCap != null ? guarantor.liabilityCap.toString() : '',
+      notes: guarantor.notes || '',
+      leaseIds: (guarantor.leases ?? []).map((l) => l.leaseId),
+    });
+    setFormErrors({});
+    setDeedFile(null);
+    setEditing(guarantor);
+  };
+
+  const validate = (): boolean => {
+    const errors: Record<string, string> = {};
+
+    if (!formData.firstName.trim()) errors.firstName = 'First name is required';
+    if (!formData.lastName.trim()) errors.lastName = 'Last name is required';
+    if (!formData.email.trim()) errors.email = 'Email is required';
+    if (!formData.phone.trim()) errors.phone = 'Phone is required';
+    if (formData.liabilityCap && !(parseFloat(formData.liabilityCap) > 0)) {
+      errors.liabilityCap = 'Liability cap must be positive';
+    }
+    if (formData.leaseIds.length === 0) errors.leaseIds = 'Select at least one lease';
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSave = async () => {
+    if (!tenantId || !editing || !validate()) return;
+
+    const data = {
+      firstName: formData.firstName.trim(),
+      lastName: formData.lastName.trim(),
+      email: formData.email.trim(),
+      phone: formData.phone.trim(),
+      address: formData.address.trim() || null,
+      relationship: formData.relationship,
+      liabilityCap: formData.liabilityCap ? parseFloat(formData.liabilityCap) : null,
+      notes: formData.notes.trim() || null,
+      leaseIds: formData.leaseIds,
+    };
+
+    try {
+      setSubmitting(true);
+      const guarantor =
+        editing === 'new'
+          ? await guarantorsService.createGuarantor({ tenantId, ...data })
+          : await guarantorsService.updateGuarantor(editing.id, data);
+
+      // The deed is uploaded against the guarantor, so it can only be attached once they exist
+      if (deedFile) {
+        const deed = await documentsService.uploadDocument(deedFile, 'Guarantor', guarantor.id);
+        await guarantorsService.updateGuarantor(guarantor.id, { deedDocumentId: deed.id });
+      }
+
+      toast.success(editing === 'new' ? 'Guarantor added successfully' : 'Guarantor updated successfully');
+      setEditing(null);
+      await loadGuarantors();
+      onChanged?.();
+    } catch (err) {
+      console.error('Error saving guarantor:', err);
+      toast.error(err instanceof ApiError ? err.message : 'Failed to save guarantor');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (guarantor: Guarantor) => {
+    try {
+      await guarantorsService.deleteGuarantor(guarantor.id);
+      toast.success('Guarantor removed');
+      await loadGuarantors();
+      onChanged?.();
+    } catch (err) {
+      console.error('Error deleting guarantor:', err);
+      toast.error(err instanceof ApiError ? err.message : 'Failed to remove guarantor');
+    }
+  };
+
+  const handleDownloadDeed = async (deed: Document) => {
+    try {
+      const blob = await documentsService.downloadDocument(deed.id);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = deed.fileName;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error downloading deed:', err);
+      toast.error(err instanceof ApiError ? err.message : 'Failed to download deed');
+    }
+  };
+
+  const setField = (field: keyof GuarantorFormData, value: string | string[]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    if (formErrors[field]) {
+      setFormErrors((prev) => {
+        const next = { ...prev };
+        delete next[field];
+        return next;
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{title || 'Guarantors'}</DialogTitle>
+      <DialogContent>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : (
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            {guarantors.length === 0 && !editing && (
+              <Typography variant="body2" color="text.secondary">
+                No guarantors recorded for this tenant.
+              </Typography>
+            )}
+
+            {guarantors.map((guarantor) => (
+              <Box key={guarantor.id} sx={{ border: 1, borderColor: 'divider', borderRadius: 1, p: 2 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+                  <Box>
+                    <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+                      {guarantor.firstName} {guarantor.lastName}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {guarantor.email} - {guarantor.phone}
+                    </Typography>
+                    {guarantor.address && (
+                      <Typography variant="body2" color="text.secondary">
+                        {guarantor.address}
+                      </Typography>
+                    )}
+                  </Box>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                    <Chip label={guarantor.relationship} size="small" />
+                    {canWrite() && (
+                      <>
+                        <IconButton size="small" onClick={() => handleEdit(guarantor)} aria-label="Edit guarantor">
+                          <EditIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          color="error"
+                          onClick={() => handleDelete(guarantor)}
+                          aria-label="Remove guarantor"
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </>
+                    )}
+                  </Box>
+                </Box>
+                <Typography variant="body2" sx={{ mt: 1 }}>
+                  Liability:{' '}
+                  {guarantor.liabilityCap != null ? `capped at ${formatCurrency(guarantor.liabilityCap)}` : 'unlimited'}
+                </Typography>
+                {(guarantor.leases ?? []).map((link) => (
+                  <Typography key={link.leaseId} variant="body2" color="text.secondary">
+                    {link.lease ? getLeaseLabel(link.lease) : 'Lease'}
+                  </Typography>
+                ))}
+                <Box sx={{ mt: 1 }}>
+                  {guarantor.deedDocument ? (
+                    <Chip
+                      icon={<DescriptionIcon />}
+                      label={`Deed: ${guarantor.deedDocument.fileName}`}
+                      size="small"
+                      color="success"
+                      variant="outlined"
+                      onClick={() => handleDownloadDeed(guarantor.deedDocument!)}
+                    />
+                  ) : (
+                    <Chip label="No signed deed" size="small" color="warning" variant="outlined" />
+                  )}
+                </Box>
+              </Box>
+            ))}
+
+            {editing && (
+              <>
+                <Divider />
+                <Typography variant="subtitle1">{editing === 'new' ? 'Add Guarantor' : 'Edit Guarantor'}</Typography>
+                <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+                  <TextField
+                    label="First Name"
+                    value={formData.firstName}
+                    onChange={(e) => setField('firstName', e.target.value)}
+                    error={!!formErrors.firstName}
+                    helperText={formErrors.firstName}
+                    required
+                  />
+                  <TextField
+                    label="Last Name"
+                    value={formData.lastName}
+                    onChange={(e) => setField('lastName', e.target.value)}
+                    error={!!formErrors.lastName}
+                    helperText={formErrors.lastName}
+                    required
+                  />
+                  <TextField
+                    label="Email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setField('email', e.target.value)}
+                    error={!!formErrors.email}
+                    helperText={formErrors.email}
+                    required
+                  />
+                  <TextField
+                    label="Phone"
+                    value={formData.phone}
+                    onChange={(e) => setField('phone', e.target.value)}
+                    error={!!formErrors.phone}
+                    helperText={formErrors.phone}
+                    required
+                  />
+                  <TextField
+                    label="Relationship"
+                    select
+                    value={formData.relationship}
+                    onChange={(e) => setField('relationship', e.target.value)}
+                  >
+                    {RELATIONSHIPS.map((relationship) => (
+                      <MenuItem key={relationship} value={relationship}>
+                        {relationship}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                  <TextField
+                    label="Liability Cap"
+                    type="number"
+                    value={formData.liabilityCap}
+                    onChange={(e) => setField('liabilityCap', e.target.value)}
+                    error={!!formErrors.liabilityCap}
+                    helperText={formErrors.liabilityCap || 'Leave empty for unlimited liability'}
+                    InputProps={{
+                      startAdornment: <InputAdornment position="start">£</InputAdornment>,
+                    }}
+                  />
+                </Box>
+                <TextField
+                  label="Address"
+                  value={formData.address}
+                  onChange={(e) => setField('address', e.target.value)}
+                />
+                <TextField
+                  label="Leases Guaranteed"
+                  select
+                  value={formData.leaseIds}
+                  onChange={(e) => {
+                    const { value } = e.target as { value: string | string[] };
+                    setField('leaseIds', typeof value === 'string' ? value.split(',') : value);
+                  }}
+                  SelectProps={{
+                    multiple: true,
+                    renderValue: (selected) =>
+                      (selected as string[])
+                        .map((id) => {
+                          const lease = leases.find((l) => l.id === id);
+                          return lease ? getLeaseLabel(lease) : id;
+                        })
+                        .join(', '),
+                  }}
+                  error={!!formErrors.leaseIds}
+                  helperText={formErrors.leaseIds}
+                  required
+                >
+                  {leases.map((lease) => (
+                    <MenuItem key={lease.id} value={lease.id}>
+                      <Checkbox checked={formData.leaseIds.includes(lease.id)} />
+                      <ListItemText primary={getLeaseLabel(lease)} secondary={lease.status} />
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  label="Notes"
+                  value={formData.notes}
+                  onChange={(e) => setField('notes', e.target.value)}
+                  multiline
+                  rows={2}
+                />
+                <Box>
+                  <Button variant="outlined" component="label" size="small" startIcon={<DescriptionIcon />}>
+                    {deedFile ? deedFile.name : 'Attach Signed Deed'}
+                    <input
+                      type="file"
+                      hidden
+                      accept="image/jpeg,image/png,application/pdf"
+                      onChange={(e) => setDeedFile(e.target.files?.[0] ?? null)}
+                    />
+                  </Button>
+                </Box>
+              </>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {editing ? (
+          <>
+            <Button onClick={() => setEditing(null)} color="inherit" disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} variant="contained" disabled={submitting}>
+              {editing === 'new' ? 'Add' : 'Save'}
+            </Button>
+          </>
+        ) : (
+          <>
+            {canWrite() && !loading && !error && (
+              <Button onClick={handleAdd} startIcon={<AddIcon />} disabled={leases.length === 0}>
+                Add Guarantor
+              </Button>
+            )}
+            <Button onClick={onClose} color="inherit">
+              Close
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,646 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Chip,
+  CircularProgress,
+  Alert,
+  TextField,
+  IconButton,
+  Divider,
+  InputAdornment,
+  MenuItem,
+  Tooltip,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Pause as PauseIcon,
+  PlayArrow as PlayArrowIcon,
+  SkipNext as SkipNextIcon,
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import { recurringTransactionsService } from '../../services/api/recurringTransactions.service';
+import { propertyOwnershipService, PropertyOwnership } from '../../services/api/propertyOwnership.service';
+import type {
+  RecurringTransaction,
+  RentFrequency,
+  TransactionCategory,
+  TransactionSplit,
+} from '../../types/api.types';
+import { ApiError } from '../../types/api.types';
+import PropertySelector from '../shared/PropertySelector';
+import ConfirmDialog from '../shared/ConfirmDialog';
+import { SplitSection } from './SplitSection';
+import { useToast } from '../../contexts/ToastContext';
+import { useAuth } from '../../contexts/AuthContext';
+
+interface RecurringTransactionsDialogProps {
+  open: boolean;
+  // Categories in display order, including archived ones
+  categories: TransactionCategory[];
+  onClose: () => void;
+}
+
+interface RecurringFormData {
+  propertyId: string;
+  type: 'Income' | 'Expense';
+  category: string;
+  amount: string;
+  description: string;
+  frequency: RentFrequency;
+  startDate: string;
+  endDate: string;
+  nextRunDate: string;
+  paidByUserId: string;
+}
+
+const TRANSACTION_TYPES = ['Income', 'Expense'] as const;
+
+const FREQUENCIES: RentFrequency[] = ['Weekly', 'Fortnightly', 'Four-weekly', 'Monthly', 'Quarterly', 'Annually'];
+
+const initialFormData: RecurringFormData = {
+  propertyId: '',
+  type: 'Expense',
+  category: '',
+  amount: '',
+  description: '',
+  frequency: 'Monthly',
+  startDate: format(new Date(), 'yyyy-MM-dd'),
+  endDate: '',
+  nextRunDate: '',
+  paidByUserId: '',
+};
+
+const formatCurrency = (amount: number) =>
+  `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (dateString: string) => format(new Date(dateString), 'dd MMM yyyy');
+
+// A template has finished once its next run falls after its end date
+const hasEnded = (template: RecurringTransaction) =>
+  !!template.endDate && new Date(template.nextRunDate) > new Date(template.endDate);
+
+// Splits only need saving when they differ from property ownership
+const splitsMatchOwnership = (splits: TransactionSplit[], ownership: PropertyOwnership[]) =>
+  splits.length === ownership.length &&
+  splits.every((split) => {
+    const owner = ownership.find((o) => o.userId === split.userId);
+    return !!owner && Math.abs(split.percentage - owner.ownershipPercentage) <= 0.01;
+  });
+
+export const RecurringTransactionsDialog: React.FC<RecurringTransactionsDialogProps> = ({
+  open,
+  categories,
+  onClose,
+}) => {
+  const toast = useToast();
+  const { canWrite } = useAuth();
+
+  const [templates, setTemplates] = useState<RecurringTransaction[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Template being added ('new') or edited, or null when the form is closed
+  const [editing, setEditing] = useState<RecurringTransaction | 'new' | null>(null);
+  const [formData, setFormData] = useState<RecurringFormData>(initialFormData);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  // Property ownership and splits for the form
+  const [propertyOwnership, setPropertyOwnership] = useState<PropertyOwnership[]>([]);
+  const [splits, setSplits] = useState<TransactionSplit[]>([]);
+
+  const [deleting, setDeleting] = useState<RecurringTransaction | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+
+  const loadTemplates = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setTemplates(await recurringTransactionsService.getRecurringTransactions());
+    } catch (err) {
+      console.error('Error fetching recurring transactions:', err);
+      setError(err instanceof ApiError ? err.message : 'Failed to load recurring transactions');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setEditing(null);
+    loadTemplates();
+  }, [open, loadTemplates]);
+
+  // Load ownership for the selected property; an edited template keeps its own splits
+  useEffect(() => {
+    const loadPropertyOwnership = async () => {
+      if (!editing || !formData.propertyId) {
+        setPropertyOwnership([]);
+        setSplits([]);
+        return;
+      }
+
+      try {
+        const ownerships = await propertyOwnershipService.listOwners(formData.propertyId);
+        setPropertyOwnership(ownerships);
+
+        const amount = parseFloat(formData.amount) || 0;
+        const templateSplits = editing !== 'new' ? editing.splits ?? [] : [];
+        const baseSplits =
+          templateSplits.length > 0
+            ? templateSplits.map((split) => ({ userId: split.userId, percentage: split.percentage }))
+            : ownerships.map((o) => ({ userId: o.userId, percentage: o.ownershipPercentage }));
+        setSplits(baseSplits.map((split) => ({ ...split, amount: (amount * split.percentage) / 100 })));
+      } catch (err) {
+        console.error('Error loading property ownership:', err);
+        setPropertyOwnership([]);
+        setSplits([]);
+      }
+    };
+
+    loadPropertyOwnership();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editing, formData.propertyId]);
+
+  // Archived categories can't be chosen, but an edited template keeps the one it has
+  const availableCategories = useMemo(
+    () =>
+      categories.filter(
+        (category) =>
+          category.type === formData.type &&
+          (!category.isArchived || (editing !== 'new' && category.name === editing?.category))
+      ),
+    [categories, formData.type, editing]
+  );
+
+  const handleAdd = () => {
+    setFormData(initialFormData);
+    setFormErrors({});
+    setEditing('new');
+  };
+
+  const handleEdit = (template: RecurringTransaction) => {
+    setFormData({
+      propertyId: template.propertyId,
+      type: template.type,
+      category: template.category,
+      amount: template.amount.toString(),
+      description: template.description,
+      frequency: template.frequency,
+      startDate: template.startDate.split('T')[0],
+      endDate: template.endDate ? template.endDate.split('T')[0] : '',
+      nextRunDate: template.nextRunDate.split('T')[0],
+      paidByUserId: template.paidByUserId || '',
+    });
+    setFormErrors({});
+    setEditing(template);
+  };
+
+  const validate = (): boolean => {
+    const errors: Record<string, string> = {};
+
+    if (!formData.propertyId) errors.propertyId = 'Property is required';
+    if (!formData.category) errors.category = 'Category is required';
+    if (!formData.amount || parseFloat(formData.amount) <= 0) errors.amount = 'Amount must be greater than 0';
+    if (!formData.description.trim()) errors.description = 'Description is required';
+    if (!formData.startDate) errors.startDate = 'Start date is required';
+    if (formData.endDate && formData.endDate < formData.startDate) {
+      errors.endDate = 'End date must be on or after the start date';
+    }
+
+    if (splits.length > 0) {
+      const totalPercentage = splits.reduce((sum, split) => sum + split.percentage, 0);
+      if (Math.abs(totalPercentage - 100) > 0.01) {
+        errors.splits = 'Split percentages must sum to 100%';
+        toast.error(errors.splits);
+      }
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSave = async () => {
+    if (!editing || !validate()) return;
+
+    const customSplits =
+      splits.length > 0 && !splitsMatchOwnership(splits, propertyOwnership)
+        ? splits.map((split) => ({ userId: split.userId, percentage: split.percentage }))
+        : null;
+
+    const data = {
+      type: formData.type,
+      category: formData.category,
+      amount: parseFloat(formData.amount),
+      description: formData.description.trim(),
+      frequency: formData.frequency,
+      startDate: formData.startDate,
+      endDate: formData.endDate || null,
+      paidByUserId: formData.type === 'Expense' && formData.paidByUserId ? formData.paidByUserId : null,
+    };
+
+    try {
+      setSubmitting(true);
+      if (editing === 'new') {
+        await recurringTransactionsService.createRecurringTransaction({
+          ...data,
+          propertyId: formData.propertyId,
+          splits: customSplits ?? undefined,
+        });
+        toast.success('Recurring transaction created successfully');
+      } else {
+        // Only send the next run date when it was changed by hand, so schedule changes can move it
+        const nextRunDateChanged = formData.nextRunDate !== editing.nextRunDate.split('T')[0];
+        await recurringTransactionsService.updateRecurringTransaction(editing.id, {
+          ...data,
+          nextRunDate: nextRunDateChanged && formData.nextRunDate ? formData.nextRunDate : undefined,
+          splits: customSplits,
+        });
+        toast.success('Recurring transaction updated successfully');
+      }
+
+      setEditing(null);
+      await loadTemplates();
+    } catch (err) {
+      console.error('Error saving recurring transaction:', err);
+      toast.error(err instanceof ApiError ? err.message : 'Failed to save recurring transaction');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleTogglePaused = async (template: RecurringTransaction) => {
+    try {
+      await recurringTransactionsService.updateRecurringTransaction(template.id, { isPaused: !template.isPaused });
+      toast.success(template.isPaused ? 'Recurring transaction resumed' : 'Recurring transaction paused');
+      await loadTemplates();
+    } catch (err) {
+      console.error('Error pausing recurring transaction:', err);
+      toast.error(err instanceof ApiError ? err.message : 'Failed to update recurring transaction');
+    }
+  };
+
+  const handleSkipNext = async (template: RecurringTransaction) => {
+    try {
+      const updated = await recurringTransactionsService.skipNext(template.id);
+      toast.success(`Skipped ${formatDate(template.nextRunDate)}. Next run ${formatDate(updated.nextRunDate)}`);
+      await loadTemplates();
+    } catch (err) {
+      console.error('Error skipping recurring transaction:', err);
+      toast.error(err instanceof ApiError ? err.message : 'Failed to skip recurring transaction');
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!deleting) return;
+
+    try {
+      setDeleteLoading(true);
+      await recurringTransactionsService.deleteRecurringTransaction(deleting.id);
+      toast.success('Recurring transaction deleted');
+      setDeleting(null);
+      await loadTemplates();
+    } catch (err) {
+      console.error('Error deleting recurring transaction:', err);
+      toast.error(err instanceof ApiError ? err.message : 'Failed to delete recurring transaction');
+    } finally {
+      setDeleteLoading(false);
+    }
+  };
+
+  const setField = (field: keyof RecurringFormData, value: string) => {
+    setFormData((prev) => {
+      const next = { ...prev, [field]: value };
+
+      // Reset category when type changes
+      if (field === 'type') {
+        next.category = '';
+      }
+
+      return next;
+    });
+
+    if (formErrors[field]) {
+      setFormErrors((prev) => {
+        const next = { ...prev };
+        delete next[field];
+        return next;
+      });
+    }
+
+    // Recalculate split amounts when amount changes
+    if (field === 'amount' && splits.length > 0) {
+      const amount = parseFloat(value) || 0;
+      setSplits(splits.map((split) => ({ ...split, amount: (amount * split.percentage) / 100 })));
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+        <DialogTitle>Recurring Transactions</DialogTitle>
+        <DialogContent>
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : error ? (
+            <Alert severity="error">{error}</Alert>
+          ) : (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+              <Typography variant="body2" color="text.secondary">
+                Transactions are created automatically on each run date, split as set on the template or by property
+                ownership.
+              </Typography>
+
+              {templates.length === 0 && !editing && (
+                <Typography variant="body2" color="text.secondary">
+                  No recurring transactions set up yet.
+                </Typography>
+              )}
+
+              {templates.length > 0 && !editing && (
+                <TableContainer>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Description</TableCell>
+                        <TableCell>Category</TableCell>
+                        <TableCell align="right">Amount</TableCell>
+                        <TableCell>Frequency</TableCell>
+                        <TableCell>Next Run</TableCell>
+                        <TableCell>Status</TableCell>
+                        {canWrite() && <TableCell align="right">Actions</TableCell>}
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {templates.map((template) => {
+                        const ended = hasEnded(template);
+
+                        return (
+                          <TableRow key={template.id}>
+                            <TableCell>
+                              <Typography variant="body2">{template.description}</Typography>
+                              <Typography variant="caption" color="text.secondary">
+                                {template.property?.name}
+                              </Typography>
+                            </TableCell>
+                            <TableCell>{template.category}</TableCell>
+                            <TableCell align="right">
+                              <Typography
+                                variant="body2"
+                                color={template.type === 'Income' ? 'success.main' : 'error.main'}
+                              >
+                                {template.type === 'Expense' ? '-' : ''}
+                                {formatCurrency(template.amount)}
+                              </Typography>
+                            </TableCell>
+                            <TableCell>{template.frequency}</TableCell>
+                            <TableCell>{ended ? '-' : formatDate(template.nextRunDate)}</TableCell>
+                            <TableCell>
+                              {ended ? (
+                                <Chip label="Ended" size="small" />
+                              ) : template.isPaused ? (
+                                <Chip label="Paused" size="small" color="warning" variant="outlined" />
+                              ) : (
+                                <Chip label="Active" size="small" color="success" variant="outlined" />
+                              )}
+                            </TableCell>
+                            {canWrite() && (
+                              <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                                <Tooltip title={template.isPaused ? 'Resume' : 'Pause'}>
+                                  <span>
+                                    <IconButton
+                                      size="small"
+                                      onClick={() => handleTogglePaused(template)}
+                                      disabled={ended}
+                                    >
+                                      {template.isPaused ? (
+                                        <PlayArrowIcon fontSize="small" />
+                                      ) : (
+                                        <PauseIcon fontSize="small" />
+                                      )}
+                                    </IconButton>
+                                  </span>
+                                </Tooltip>
+                                <Tooltip title="Skip next run">
+                                  <span>
+                                    <IconButton
+                                      size="small"
+                                      onClick={() => handleSkipNext(template)}
+                                      disabled={ended || template.isPaused}
+                                    >
+                                      <SkipNextIcon fontSize="small" />
+                                    </IconButton>
+                                  </span>
+                                </Tooltip>
+                                <Tooltip title="Edit">
+                                  <IconButton size="small" onClick={() => handleEdit(template)}>
+                                    <EditIcon fontSize="small" />
+                                  </IconButton>
+                                </Tooltip>
+                                <Tooltip title="Delete">
+                                  <IconButton size="small" color="error" onClick={() => setDeleting(template)}>
+                                    <DeleteIcon fontSize="small" />
+                                  </IconButton>
+                                </Tooltip>
+                              </TableCell>
+                            )}
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+
+              {editing && (
+                <>
+                  <Divider />
+                  <Typography variant="subtitle1">
+                    {editing === 'new' ? 'Add Recurring Transaction' : 'Edit Recurring Transaction'}
+                  </Typography>
+                  {editing === 'new' ? (
+                    <PropertySelector
+                      value={formData.propertyId}
+                      onChange={(value) => setField('propertyId', value)}
+                      includeAllOption={false}
+                    />
+                  ) : (
+                    <TextField label="Property" value={editing.property?.name || ''} disabled size="small" />
+                  )}
+                  {formErrors.propertyId && (
+                    <Typography variant="caption" color="error">
+                      {formErrors.propertyId}
+                    </Typography>
+                  )}
+                  <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr' }, gap: 2 }}>
+                    <TextField
+                      label="Type"
+                      select
+                      value={formData.type}
+                      onChange={(e) => setField('type', e.target.value)}
+                    >
+                      {TRANSACTION_TYPES.map((type) => (
+                        <MenuItem key={type} value={type}>
+                          {type}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    <TextField
+                      label="Category"
+                      select
+                      value={formData.category}
+                      onChange={(e) => setField('category', e.target.value)}
+                      error={!!formErrors.category}
+                      helperText={formErrors.category}
+                      required
+                    >
+                      {availableCategories.map((category) => (
+                        <MenuItem key={category.id} value={category.name} sx={{ pl: category.parentId ? 4 : 2 }}>
+                          {category.name}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    <TextField
+                      label="Amount"
+                      type="number"
+                      value={formData.amount}
+                      onChange={(e) => setField('amount', e.target.value)}
+                      error={!!formErrors.amount}
+                      helperText={formErrors.amount}
+                      InputProps={{
+                        startAdornment: <InputAdornment position="start">£</InputAdornment>,
+                      }}
+                      required
+                    />
+                    <TextField
+                      label="Frequency"
+                      select
+                      value={formData.frequency}
+                      onChange={(e) => setField('frequency', e.target.value)}
+                    >
+                      {FREQUENCIES.map((frequency) => (
+                        <MenuItem key={frequency} value={frequency}>
+                          {frequency}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    <TextField
+                      label="Start Date"
+                      type="date"
+                      value={formData.startDate}
+                      onChange={(e) => setField('startDate', e.target.value)}
+                      error={!!formErrors.startDate}
+                      helperText={formErrors.startDate}
+                      InputLabelProps={{ shrink: true }}
+                      required
+                    />
+                    <TextField
+                      label="End Date"
+                      type="date"
+                      value={formData.endDate}
+                      onChange={(e) => setField('endDate', e.target.value)}
+                      error={!!formErrors.endDate}
+                      helperText={formErrors.endDate || 'Leave empty to repeat indefinitely'}
+                      InputLabelProps={{ shrink: true }}
+                    />
+                    {editing !== 'new' && (
+                      <TextField
+                        label="Next Run"
+                        type="date"
+                        value={formData.nextRunDate}
+                        onChange={(e) => setField('nextRunDate', e.target.value)}
+                        InputLabelProps={{ shrink: true }}
+                      />
+                    )}
+                    {formData.type === 'Expense' && propertyOwnership.length > 0 && (
+                      <TextField
+                        label="Paid By"
+                        select
+                        value={formData.paidByUserId}
+                        onChange={(e) => setField('paidByUserId', e.target.value)}
+                      >
+                        <MenuItem value="">
+                          <em>Not set</em>
+                        </MenuItem>
+                        {propertyOwnership.map((ownership) => (
+                          <MenuItem key={ownership.userId} value={ownership.userId}>
+                            {ownership.user.email}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
+                  </Box>
+                  <TextField
+                    label="Description"
+                    value={formData.description}
+                    onChange={(e) => setField('description', e.target.value)}
+                    error={!!formErrors.description}
+                    helperText={formErrors.description}
+                    required
+                  />
+                  {propertyOwnership.length > 0 && (
+                    <SplitSection
+                      propertyOwnership={propertyOwnership}
+                      amount={parseFloat(formData.amount) || 0}
+                      splits={splits}
+                      onSplitsChange={setSplits}
+                    />
+                  )}
+                </>
+              )}
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {editing ? (
+            <>
+              <Button onClick={() => setEditing(null)} color="inherit" disabled={submitting}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} variant="contained" disabled={submitting}>
+                {submitting ? <CircularProgress size={24} /> : editing === 'new' ? 'Add' : 'Save'}
+              </Button>
+            </>
+          ) : (
+            <>
+              {canWrite() && !loading && !error && (
+                <Button onClick={handleAdd} startIcon={<AddIcon />}>
+                  Add Recurring Transaction
+                </Button>
+              )}
+              <Button onClick={onClose} color="inherit">
+                Close
+              </Button>
+            </>
+          )}
+        </DialogActions>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!deleting}
+        title="Delete Recurring Transaction"
+        message="Are you sure you want to delete this recurring transaction? Transactions it has already created are kept."
+        onConfirm={handleDeleteConfirm}
+        onCancel={() => setDeleting(null)}
+        loading={deleteLoading}
+      />
+    </>
+  );
+};
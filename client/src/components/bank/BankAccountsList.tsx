@@ -19,14 +19,18 @@ import {
   Warning as WarningIcon,
   Schedule as ScheduleIcon,
   Rule as RuleIcon,
+  UploadFile as UploadFileIcon,
+  AccountBalance as AccountBalanceIcon,
 } from '@mui/icons-material';
 import type { BankAccount } from '../../services/api/bank.service';
 
 interface BankAccountsListProps {
   accounts: BankAccount[];
+  onImportStatement: (account: BankAccount) => void;
+  onReconcile: (account: BankAccount) => void;
 }
 
-const BankAccountsList: React.FC<BankAccountsListProps> = ({ accounts }) => {
+const BankAccountsList: React.FC<BankAccountsListProps> = ({ accounts, onImportStatement, onReconcile }) => {
   const navigate = useNavigate();
 
   const getStatusColor = (status: string): 'success' | 'error' | 'warning' | 'default' => {
@@ -124,6 +128,7 @@ const BankAccountsList: React.FC<BankAccountsListProps> = ({ accounts }) => {
         const statusColor = getStatusColor(account.lastSyncStatus);
         const statusIcon = getStatusIcon(account.lastSyncStatus);
         const webhookStatus = getWebhookStatus(account.webhookId);
+        const isFileImport = account.provider === 'file_import';
 
         return (
           <Card
@@ -163,17 +168,28 @@ const BankAccountsList: React.FC<BankAccountsListProps> = ({ accounts }) => {
                   </Typography>
                 </Box>
 
-                <Box>
-                  <Typography variant="caption" color="text.secondary" display="block">
-                    Webhook Status
-                  </Typography>
-                  <Chip
-                    label={webhookStatus.label}
-                    color={webhookStatus.color}
-                    size="small"
-                    sx={{ mt: 0.5 }}
-                  />
-                </Box>
+                {isFileImport ? (
+                  <Box>
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      Source
+                    </Typography>
+                    <Typography variant="body2">
+                      Statement uploads{account.csvMapping ? ' (CSV mapping saved)' : ''}
+                    </Typography>
+                  </Box>
+                ) : (
+                  <Box>
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      Webhook Status
+                    </Typography>
+                    <Chip
+                      label={webhookStatus.label}
+                      color={webhookStatus.color}
+                      size="small"
+                      sx={{ mt: 0.5 }}
+                    />
+                  </Box>
+                )}
 
                 <Box>
                   <Typography variant="caption" color="text.secondary" display="block">
@@ -187,25 +203,45 @@ const BankAccountsList: React.FC<BankAccountsListProps> = ({ accounts }) => {
                   />
                 </Box>
 
-                <Box>
-                  <Typography variant="caption" color="text.secondary" display="block">
-                    Sync Enabled
-                  </Typography>
-                  <Typography variant="body2">
-                    {account.syncEnabled ? 'Yes' : 'No'}
-                  </Typography>
-                </Box>
+                {!isFileImport && (
+                  <Box>
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      Sync Enabled
+                    </Typography>
+                    <Typography variant="body2">
+                      {account.syncEnabled ? 'Yes' : 'No'}
+                    </Typography>
+                  </Box>
+                )}
               </Box>
             </CardContent>
 
             <CardActions sx={{ justifyContent: 'space-between', pt: 0, px: 2, pb: 2 }}>
-              <Button
-                size="small"
-                startIcon={<RuleIcon />}
-                onClick={() => navigate(`/admin/bank-accounts/${account.id}/rules`)}
-              >
-                Rules
-              </Button>
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <Button
+                  size="small"
+                  startIcon={<RuleIcon />}
+                  onClick={() => navigate(`/admin/bank-accounts/${account.id}/rules`)}
+                >
+                  Rules
+                </Button>
+                {isFileImport && (
+                  <Button
+                    size="small"
+                    startIcon={<UploadFileIcon />}
+                    onClick={() => onImportStatement(account)}
+                  >
+                    Import
+                  </Button>
+                )}
+                <Button
+                  size="small"
+                  startIcon={<AccountBalanceIcon />}
+                  onClick={() => onReconcile(account)}
+                >
+                  Reconcile
+                </Button>
+              </Box>
               <Tooltip title="Settings (Coming soon)">
                 <span>
                   <IconButton
@@ -162,6 +162,14 @@ export const ImportProgressDialog: React.FC<ImportProgressDialogProps> = ({
                     <Typography variant="h6">{progress.duplicatesSkipped}</Typography>
                   </Box>
                 )}
+                {!!progress.possibleDuplicates && (
+                  <Box>
+                    <Typography variant="caption" color="text.secondary">
+                      Possible Duplicates
+                    </Typography>
+                    <Typography variant="h6">{progress.possibleDuplicates}</Typography>
+                  </Box>
+                )}
                 {progress.currentBatch !== undefined && (
                   <Box>
                     <Typography variant="caption" color="text.secondary">
@@ -0,0 +1,385 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Chip,
+  CircularProgress,
+  Alert,
+  TextField,
+  MenuItem,
+  FormControlLabel,
+  Checkbox,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material';
+import { UploadFile as UploadFileIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import {
+  bankService,
+  BankAccount,
+  CsvColumnMapping,
+  StatementDateFormat,
+  StatementImportOptions,
+  StatementPreview,
+} from '../../services/api/bank.service';
+import { ApiError } from '../../types/api.types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface ImportStatementDialogProps {
+  open: boolean;
+  account: BankAccount | null;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const DATE_FORMATS: StatementDateFormat[] = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD', 'DD MMM YYYY'];
+
+// Statements either have one signed amount column or separate money in/out columns
+type AmountMode = 'single' | 'split';
+
+const emptyMapping: CsvColumnMapping = {
+  dateColumn: '',
+  dateFormat: 'DD/MM/YYYY',
+  descriptionColumn: '',
+  skipRows: 0,
+};
+
+const formatAmount = (amount: number, currency: string) => {
+  const absAmount = Math.abs(amount / 100); // Convert from pence to pounds
+  const formatted = new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency: currency || 'GBP',
+  }).format(absAmount);
+  return amount < 0 ? `-${formatted}` : formatted;
+};
+
+export const ImportStatementDialog: React.FC<ImportStatementDialogProps> = ({
+  open,
+  account,
+  onClose,
+  onImported,
+}) => {
+  const toast = useToast();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<StatementPreview | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(emptyMapping);
+  const [amountMode, setAmountMode] = useState<AmountMode>('single');
+  const [qifDateFormat, setQifDateFormat] = useState<StatementDateFormat>('DD/MM/YYYY');
+  const [saveMapping, setSaveMapping] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start afresh each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFile(null);
+      setPreview(null);
+      setMapping(account?.csvMapping ?? emptyMapping);
+      setAmountMode(account?.csvMapping && !account.csvMapping.amountColumn ? 'split' : 'single');
+      setSaveMapping(true);
+      setError(null);
+    }
+  }, [open, account]);
+
+  const isMappingComplete =
+    !!mapping.dateColumn &&
+    !!mapping.descriptionColumn &&
+    (amountMode === 'single' ? !!mapping.amountColumn : !!mapping.creditColumn && !!mapping.debitColumn);
+
+  // Only send the amount columns for the chosen mode
+  const buildOptions = (): StatementImportOptions => {
+    if (preview?.format === 'qif') {
+      return { dateFormat: qifDateFormat };
+    }
+
+    if (preview?.format === 'csv' && isMappingComplete) {
+      const { amountColumn, creditColumn, debitColumn, ...rest } = mapping;
+      return {
+        mapping: amountMode === 'single' ? { ...rest, amountColumn } : { ...rest, creditColumn, debitColumn },
+        saveMapping,
+      };
+    }
+
+    return {};
+  };
+
+  const runPreview = async (selectedFile: File, options: StatementImportOptions) => {
+    if (!account) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await bankService.previewStatement(account.id, selectedFile, options);
+      setPreview(result);
+      if (result.mapping) {
+        setMapping(result.mapping);
+        setAmountMode(result.mapping.amountColumn ? 'single' : 'split');
+      }
+    } catch (err) {
+      console.error('Error previewing statement:', err);
+      setPreview(null);
+      setError(err instanceof ApiError ? err.message : 'Failed to read statement file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = event.target.files?.[0];
+    event.target.value = '';
+    if (!selectedFile) return;
+
+    setFile(selectedFile);
+    setPreview(null);
+    // The server falls back to the saved mapping for CSV files
+    void runPreview(selectedFile, {});
+  };
+
+  const handleImport = async () => {
+    if (!account || !file) return;
+
+    try {
+      setImporting(true);
+      const result = await bankService.importStatement(account.id, file, buildOptions());
+      toast.success(
+        `Imported ${result.processed} transaction${result.processed !== 1 ? 's' : ''}` +
+          (result.duplicatesSkipped > 0 ? `, skipped ${result.duplicatesSkipped} duplicate${result.duplicatesSkipped !== 1 ? 's' : ''}` : '') +
+          (result.possibleDuplicates > 0 ? `, ${result.possibleDuplicates} held for review as possible duplicates` : '')
+      );
+      onImported();
+      onClose();
+    } catch (err) {
+      console.error('Error importing statement:', err);
+      toast.error(err instanceof ApiError ? err.message : 'Failed to import statement');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const updateMapping = (field: keyof CsvColumnMapping, value: string | number) => {
+    setMapping((prev) => ({ ...prev, [field]: value === '' ? undefined : value }));
+  };
+
+  const columnSelect = (label: string, field: keyof CsvColumnMapping, required = false) => (
+    <TextField
+      select
+      label={label}
+      value={(mapping[field] as string | undefined) ?? ''}
+      onChange={(e) => updateMapping(field, e.target.value)}
+      required={required}
+      size="small"
+      sx={{ minWidth: 180 }}
+    >
+      {!required && (
+        <MenuItem value="">
+          <em>None</em>
+        </MenuItem>
+      )}
+      {(preview?.headers ?? []).map((header) => (
+        <MenuItem key={header} value={header}>
+          {header}
+        </MenuItem>
+      ))}
+    </TextField>
+  );
+
+  const newCount = preview ? preview.transactions.filter((t) => !t.isDuplicate).length : 0;
+  const canImport = !!preview && preview.transactions.length > 0 && !loading && !importing;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import Statement{account ? ` – ${account.accountName}` : ''}</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <Button variant="outlined" component="label" startIcon={<UploadFileIcon />} disabled={loading || importing}>
+              Choose File
+              <input type="file" hidden accept=".csv,.ofx,.qfx,.qif" onChange={handleFileChange} />
+            </Button>
+            <Typography variant="body2" color="text.secondary">
+              {file ? file.name : 'CSV, OFX or QIF statement exported from your bank'}
+            </Typography>
+          </Box>
+
+          {error && <Alert severity="error">{error}</Alert>}
+
+          {file && preview?.format === 'csv' && (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+              <Typography variant="subtitle2">Column Mapping</Typography>
+              <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+                {columnSelect('Date', 'dateColumn', true)}
+                <TextField
+                  select
+                  label="Date Format"
+                  value={mapping.dateFormat}
+                  onChange={(e) => updateMapping('dateFormat', e.target.value)}
+                  size="small"
+                  sx={{ minWidth: 160 }}
+                >
+                  {DATE_FORMATS.map((dateFormat) => (
+                    <MenuItem key={dateFormat} value={dateFormat}>
+                      {dateFormat}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                {columnSelect('Description', 'descriptionColumn', true)}
+                <TextField
+                  select
+                  label="Amounts"
+                  value={amountMode}
+                  onChange={(e) => setAmountMode(e.target.value as AmountMode)}
+                  size="small"
+                  sx={{ minWidth: 200 }}
+                >
+                  <MenuItem value="single">One signed amount column</MenuItem>
+                  <MenuItem value="split">Money in / money out columns</MenuItem>
+                </TextField>
+                {amountMode === 'single' ? (
+                  columnSelect('Amount', 'amountColumn', true)
+                ) : (
+                  <>
+                    {columnSelect('Money In', 'creditColumn', true)}
+                    {columnSelect('Money Out', 'debitColumn', true)}
+                  </>
+                )}
+                {columnSelect('Reference', 'referenceColumn')}
+                {columnSelect('Counterparty', 'counterpartyColumn')}
+                <TextField
+                  label="Rows Before Header"
+                  type="number"
+                  value={mapping.skipRows ?? 0}
+                  onChange={(e) => updateMapping('skipRows', Math.max(0, Number(e.target.value)))}
+                  size="small"
+                  sx={{ width: 160 }}
+                  inputProps={{ min: 0 }}
+                />
+              </Box>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                <Button
+                  variant="outlined"
+                  onClick={() => runPreview(file, buildOptions())}
+                  disabled={!isMappingComplete || loading}
+                >
+                  Preview
+                </Button>
+                <FormControlLabel
+                  control={<Checkbox checked={saveMapping} onChange={(e) => setSaveMapping(e.target.checked)} />}
+                  label="Save this mapping for future imports"
+                />
+              </Box>
+            </Box>
+          )}
+
+          {file && preview?.format === 'qif' && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <TextField
+                select
+                label="Date Format"
+                value={qifDateFormat}
+                onChange={(e) => setQifDateFormat(e.target.value as StatementDateFormat)}
+                size="small"
+                sx={{ minWidth: 160 }}
+              >
+                {DATE_FORMATS.map((dateFormat) => (
+                  <MenuItem key={dateFormat} value={dateFormat}>
+                    {dateFormat}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <Button variant="outlined" onClick={() => runPreview(file, { dateFormat: qifDateFormat })} disabled={loading}>
+                Preview
+              </Button>
+            </Box>
+          )}
+
+          {loading && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+              <CircularProgress />
+            </Box>
+          )}
+
+          {!loading && preview && preview.errors.length > 0 && (
+            <Alert severity="warning">
+              {preview.errors.length} row{preview.errors.length !== 1 ? 's' : ''} could not be read and will be skipped:
+              <Box component="ul" sx={{ m: 0, pl: 2 }}>
+                {preview.errors.slice(0, 5).map((rowError) => (
+                  <li key={rowError.row}>
+                    Row {rowError.row}: {rowError.error}
+                  </li>
+                ))}
+              </Box>
+            </Alert>
+          )}
+
+          {!loading && preview && preview.transactions.length > 0 && (
+            <>
+              <Typography variant="body2" color="text.secondary">
+                {newCount} new, {preview.transactions.length - newCount} already imported
+              </Typography>
+              <TableContainer sx={{ maxHeight: 360 }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Date</TableCell>
+                      <TableCell>Description</TableCell>
+                      <TableCell align="right">Amount</TableCell>
+                      <TableCell>Status</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {preview.transactions.map((transaction) => (
+                      <TableRow key={transaction.externalId} sx={{ opacity: transaction.isDuplicate ? 0.6 : 1 }}>
+                        <TableCell>{format(new Date(transaction.transactionDate), 'dd MMM yyyy')}</TableCell>
+                        <TableCell>
+                          {transaction.description}
+                          {transaction.reference && (
+                            <Typography variant="caption" color="text.secondary" display="block">
+                              {transaction.reference}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell align="right">{formatAmount(transaction.amount, transaction.currency)}</TableCell>
+                        <TableCell>
+                          {transaction.isDuplicate ? (
+                            <Chip label="Duplicate" size="small" />
+                          ) : transaction.duplicateMatchType === 'fuzzy' ? (
+                            <Chip label="Possible duplicate" size="small" color="warning" />
+                          ) : (
+                            <Chip label="New" size="small" color="success" />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </>
+          )}
+
+          {!loading && preview && preview.format === 'csv' && !preview.mapping && (
+            <Alert severity="info">Choose which columns hold each field, then preview the statement.</Alert>
+          )}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} color="inherit" disabled={importing}>
+          Cancel
+        </Button>
+        <Button onClick={handleImport} variant="contained" disabled={!canImport || newCount === 0}>
+          {importing ? <CircularProgress size={24} /> : `Import ${newCount} Transaction${newCount !== 1 ? 's' : ''}`}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,372 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Typography,
+  Chip,
+  CircularProgress,
+  Alert,
+  TextField,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material';
+import { Lock as LockIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import {
+  bankService,
+  BankAccount,
+  BankReconciliation,
+  ReconciliationItem,
+  ReconciliationReport,
+} from '../../services/api/bank.service';
+import { ApiError } from '../../types/api.types';
+import { useToast } from '../../contexts/ToastContext';
+
+interface ReconciliationDialogProps {
+  open: boolean;
+  account: BankAccount | null;
+  onClose: () => void;
+}
+
+const formatAmount = (amount: number, currency: string = 'GBP') => {
+  const absAmount = Math.abs(amount / 100); // Convert from pence to pounds
+  const formatted = new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency: currency || 'GBP',
+  }).format(absAmount);
+  return amount < 0 ? `-${formatted}` : formatted;
+};
+
+const formatDate = (date: string) => format(new Date(date), 'dd/MM/yyyy');
+
+const ItemsTable: React.FC<{ title: string; items: ReconciliationItem[]; total: number }> = ({
+  title,
+  items,
+  total,
+}) => (
+  <Box sx={{ mb: 2 }}>
+    <Typography variant="subtitle2" gutterBottom>
+      {title} ({items.length}) · {formatAmount(total)}
+    </Typography>
+    {items.length > 0 && (
+      <TableContainer sx={{ maxHeight: 200 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell>Date</TableCell>
+              <TableCell>Description</TableCell>
+              <TableCell align="right">Amount</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {items.map((item) => (
+              <TableRow key={item.id}>
+                <TableCell>{formatDate(item.transactionDate)}</TableCell>
+                <TableCell>{item.description}</TableCell>
+                <TableCell align="right">{formatAmount(item.amount, item.currency)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    )}
+  </Box>
+);
+
+export const ReconciliationDialog: React.FC<ReconciliationDialogProps> = ({ open, account, onClose }) => {
+  const toast = useToast();
+
+  const [history, setHistory] = useState<BankReconciliation[]>([]);
+  const [statementDate, setStatementDate] = useState('');
+  const [statementBalance, setStatementBalance] = useState('');
+  const [notes, setNotes] = useState('');
+  const [current, setCurrent] = useState<{ reconciliation: BankReconciliation; report: ReconciliationReport } | null>(
+    null
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canFetchBalance = !!account && account.provider !== 'file_import';
+
+  const fetchHistory = async () => {
+    if (!account) return;
+
+    try {
+      setHistory(await bankService.getReconciliations(account.id));
+    } catch (err) {
+      console.error('Error fetching reconciliations:', err);
+      setError(err instanceof ApiError ? err.message : 'Failed to load reconciliations');
+    }
+  };
+
+  // Start afresh each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setStatementDate(format(new Date(), 'yyyy-MM-dd'));
+      setStatementBalance('');
+      setNotes('');
+      setCurrent(null);
+      setError(null);
+      fetchHistory();
+    }
+  }, [open, account]);
+
+  const handleFetchBalance = async () => {
+    if (!account) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const { balance } = await bankService.getBalance(account.id);
+      setStatementBalance((balance / 100).toFixed(2));
+      setStatementDate(format(new Date(), 'yyyy-MM-dd'));
+    } catch (err) {
+      console.error('Error fetching balance:', err);
+      setError(err instanceof ApiError ? err.message : 'Failed to fetch balance');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReconcile = async () => {
+    if (!account) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      const result = await bankService.createReconciliation(account.id, {
+        statementDate,
+        statementBalance: Math.round(parseFloat(statementBalance) * 100),
+        notes: notes || undefined,
+      });
+      setCurrent(result);
+      await fetchHistory();
+    } catch (err) {
+      console.error('Error reconciling account:', err);
+      setError(err instanceof ApiError ? err.message : 'Failed to reconcile account');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleView = async (reconciliation: BankReconciliation) => {
+    if (!account) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setCurrent(await bankService.getReconciliation(account.id, reconciliation.id));
+    } catch (err) {
+      console.error('Error fetching reconciliation:', err);
+      setError(err instanceof ApiError ? err.message : 'Failed to load reconciliation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLock = async () => {
+    if (!account || !current) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setCurrent(await bankService.lockReconciliation(account.id, current.reconciliation.id));
+      toast.success('Period locked');
+      await fetchHistory();
+    } catch (err) {
+      console.error('Error locking reconciliation:', err);
+      setError(err instanceof ApiError ? err.message : 'Failed to lock reconciliation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const report = current?.report;
+  const canLock = !!report && !current.reconciliation.lockedAt && report.difference === 0 && report.pending.length === 0;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Reconcile {account?.accountName}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {!current ? (
+          <>
+            <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start', mt: 1, mb: 3 }}>
+              <TextField
+                label="Statement Date"
+                type="date"
+                size="small"
+                value={statementDate}
+                onChange={(e) => setStatementDate(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField
+                label="Closing Balance (£)"
+                type="number"
+                size="small"
+                value={statementBalance}
+                onChange={(e) => setStatementBalance(e.target.value)}
+              />
+              {canFetchBalance && (
+                <Button onClick={handleFetchBalance} disabled={loading}>
+                  Fetch from Bank
+                </Button>
+              )}
+            </Box>
+            <TextField
+              label="Notes"
+              size="small"
+              fullWidth
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              sx={{ mb: 3 }}
+            />
+
+            <Typography variant="subtitle2" gutterBottom>
+              History
+            </Typography>
+            {history.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                This account has not been reconciled yet.
+              </Typography>
+            ) : (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Statement Date</TableCell>
+                    <TableCell align="right">Closing Balance</TableCell>
+                    <TableCell align="right">Difference</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {history.map((reconciliation) => (
+                    <TableRow key={reconciliation.id}>
+                      <TableCell>{formatDate(reconciliation.statementDate)}</TableCell>
+                      <TableCell align="right">{formatAmount(reconciliation.statementBalance)}</TableCell>
+                      <TableCell align="right">{formatAmount(reconciliation.difference)}</TableCell>
+                      <TableCell>
+                        {reconciliation.lockedAt ? (
+                          <Chip label="Locked" size="small" color="success" icon={<LockIcon />} />
+                        ) : (
+                          <Chip label="Open" size="small" />
+                        )}
+                      </TableCell>
+                      <TableCell align="right">
+                        <Button size="small" onClick={() => handleView(reconciliation)} disabled={loading}>
+                          View
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        ) : (
+          report && (
+            <>
+              <Box sx={{ display: 'flex', gap: 4, mb: 3, flexWrap: 'wrap' }}>
+                <Box>
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    Period
+                  </Typography>
+                  <Typography variant="body2">
+                    {report.periodStart ? formatDate(report.periodStart) : 'Start'} –{' '}
+                    {formatDate(current.reconciliation.statementDate)}
+                  </Typography>
+                </Box>
+                <Box>
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    Opening Balance
+                  </Typography>
+                  <Typography variant="body2">{formatAmount(report.openingBalance)}</Typography>
+                </Box>
+                <Box>
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    Ledger Balance
+                  </Typography>
+                  <Typography variant="body2">{formatAmount(report.ledgerBalance)}</Typography>
+                </Box>
+                <Box>
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    Statement Balance
+                  </Typography>
+                  <Typography variant="body2">{formatAmount(report.statementBalance)}</Typography>
+                </Box>
+                <Box>
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    Difference
+                  </Typography>
+                  <Typography
+                    variant="body2"
+                    sx={{ fontWeight: 'medium', color: report.difference === 0 ? 'success.main' : 'error.main' }}
+                  >
+                    {formatAmount(report.difference)}
+                  </Typography>
+                </Box>
+              </Box>
+
+              {current.reconciliation.lockedAt && (
+                <Alert severity="success" sx={{ mb: 2 }}>
+                  Locked on {formatDate(current.reconciliation.lockedAt)}. Transactions in this period can no longer be
+                  edited.
+                </Alert>
+              )}
+
+              <ItemsTable title="Matched" items={report.matched} total={report.totals.matched} />
+              <ItemsTable title="Pending Review" items={report.pending} total={report.totals.pending} />
+              <ItemsTable title="Unmatched" items={report.unmatched} total={report.totals.unmatched} />
+            </>
+          )
+        )}
+      </DialogContent>
+      <DialogActions>
+        {current ? (
+          <>
+            <Button onClick={() => setCurrent(null)} color="inherit" disabled={loading}>
+              Back
+            </Button>
+            {!current.reconciliation.lockedAt && (
+              <Button
+                variant="contained"
+                startIcon={<LockIcon />}
+                onClick={handleLock}
+                disabled={!canLock || loading}
+              >
+                Lock Period
+              </Button>
+            )}
+          </>
+        ) : (
+          <>
+            <Button onClick={onClose} color="inherit" disabled={loading}>
+              Close
+            </Button>
+            <Button
+              variant="contained"
+              onClick={handleReconcile}
+              disabled={!statementDate || statementBalance === '' || loading}
+            >
+              {loading ? <CircularProgress size={24} /> : 'Reconcile'}
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Box,
   Paper,
@@ -20,18 +20,38 @@ import {
   Add as AddIcon,
   Delete as DeleteIcon,
   PlayArrow as TestIcon,
+  Preview as PreviewIcon,
 } from '@mui/icons-material';
+import { propertyOwnershipService, PropertyOwnership } from '../../services/api/propertyOwnership.service';
+import { leasesService } from '../../services/api/leases.service';
+import type { Lease } from '../../types/api.types';
 
 export interface RuleCondition {
-  field: 'description' | 'counterpartyName' | 'reference' | 'merchant' | 'amount';
-  matchType: 'contains' | 'equals' | 'startsWith' | 'endsWith' | 'greaterThan' | 'lessThan';
+  field:
+    | 'description'
+    | 'counterpartyName'
+    | 'reference'
+    | 'merchant'
+    | 'category'
+    | 'amount'
+    | 'dayOfMonth'
+    | 'weekday'
+    | 'date';
+  matchType: 'contains' | 'equals' | 'startsWith' | 'endsWith' | 'regex' | 'greaterThan' | 'lessThan' | 'between';
   value: string | number;
+  /** Upper bound for between, inclusive */
+  valueTo?: string | number;
   caseSensitive?: boolean;
 }
 
 export interface RuleConditions {
   operator: 'AND' | 'OR';
-  rules: RuleCondition[];
+  rules: Array<RuleCondition | RuleConditions>;
+}
+
+export interface RuleSplit {
+  userId: string;
+  percentage: number;
 }
 
 export interface RuleData {
@@ -41,6 +61,10 @@ export interface RuleData {
   propertyId: string | null;
   type: 'INCOME' | 'EXPENSE' | null;
   category: string | null;
+  leaseId: string | null;
+  paidByUserId: string | null;
+  /** Null follows the property's ownership at the time of the transaction */
+  splits: RuleSplit[] | null;
 }
 
 interface RuleEditorProps {
@@ -48,8 +72,11 @@ interface RuleEditorProps {
   onSave: (data: RuleData) => void;
   onCancel: () => void;
   onTest?: (data: RuleData) => void;
+  /** Dry run the rule set with this rule against past transactions */
+  onPreview?: (data: RuleData) => void;
   loading?: boolean;
   properties?: Array<{ id: string; name: string }>;
+  categories?: Array<{ name: string; type: 'Income' | 'Expense' }>;
 }
 
 const FIELD_OPTIONS = [
@@ -57,109 +84,493 @@ const FIELD_OPTIONS = [
   { value: 'counterpartyName', label: 'Counterparty Name' },
   { value: 'reference', label: 'Reference' },
   { value: 'merchant', label: 'Merchant' },
+  { value: 'category', label: 'Bank Category' },
   { value: 'amount', label: 'Amount' },
+  { value: 'dayOfMonth', label: 'Day of Month' },
+  { value: 'weekday', label: 'Weekday' },
+  { value: 'date', label: 'Date' },
 ] as const;
 
-const MATCH_TYPE_OPTIONS: Record<
-  string,
-  Array<{ value: string; label: string }>
-> = {
+type FieldKind = 'text' | 'number' | 'date';
+
+const MATCH_TYPE_OPTIONS: Record<FieldKind, Array<{ value: RuleCondition['matchType']; label: string }>> = {
   text: [
     { value: 'contains', label: 'Contains' },
     { value: 'equals', label: 'Equals' },
     { value: 'startsWith', label: 'Starts with' },
     { value: 'endsWith', label: 'Ends with' },
+    { value: 'regex', label: 'Matches regex' },
   ],
   number: [
     { value: 'equals', label: 'Equals' },
     { value: 'greaterThan', label: 'Greater than' },
     { value: 'lessThan', label: 'Less than' },
+    { value: 'between', label: 'Between' },
   ],
+  date: [
+    { value: 'equals', label: 'On' },
+    { value: 'greaterThan', label: 'After' },
+    { value: 'lessThan', label: 'Before' },
+    { value: 'between', label: 'Between' },
+  ],
+};
+
+const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Matches the server's limit on nested groups
+const MAX_GROUP_DEPTH = 5;
+
+const getFieldKind = (field: RuleCondition['field']): FieldKind => {
+  if (field === 'date') return 'date';
+  return field === 'amount' || field === 'dayOfMonth' || field === 'weekday' ? 'number' : 'text';
+};
+
+const isGroup = (rule: RuleCondition | RuleConditions): rule is RuleConditions => 'operator' in rule;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const defaultValue = (field: RuleCondition['field']): string | number => {
+  switch (field) {
+    case 'amount':
+      return 0;
+    case 'dayOfMonth':
+    case 'weekday':
+      return 1;
+    case 'date':
+      return today();
+    default:
+      return '';
+  }
+};
+
+const newCondition = (): RuleCondition => ({
+  field: 'description',
+  matchType: 'contains',
+  value: '',
+  caseSensitive: false,
+});
+
+const isBlank = (value: string | number | undefined) =>
+  value === undefined || value === '' || (typeof value === 'string' && !value.trim());
+
+/**
+ * Collect validation errors for a group, keyed by the path of each condition
+ */
+const validateGroup = (group: RuleConditions, path: string, errors: Record<string, string>) => {
+  if (group.rules.length === 0) {
+    errors[`group_${path}`] = 'Add at least one condition';
+  }
+
+  group.rules.forEach((rule, index) => {
+    const rulePath = path ? `${path}.${index}` : String(index);
+
+    if (isGroup(rule)) {
+      validateGroup(rule, rulePath, errors);
+      return;
+    }
+
+    if (isBlank(rule.value) || (rule.matchType === 'between' && isBlank(rule.valueTo))) {
+      errors[`condition_${rulePath}`] = 'Value is required';
+    } else if (rule.matchType === 'regex') {
+      try {
+        new RegExp(String(rule.value));
+      } catch {
+        errors[`condition_${rulePath}`] = 'Invalid regular expression';
+      }
+    }
+  });
+};
+
+const formatLease = (lease: Lease) => {
+  const tenant = lease.tenant ? `${lease.tenant.firstName} ${lease.tenant.lastName}` : 'Lease';
+  return `${tenant} (from ${new Date(lease.startDate).toLocaleDateString('en-GB')}, ${lease.status})`;
 };
 
-const getMatchTypeOptions = (field: string) => {
-  return field === 'amount' ? MATCH_TYPE_OPTIONS.number : MATCH_TYPE_OPTIONS.text;
+interface ConditionValueInputProps {
+  condition: RuleCondition;
+  bound: 'value' | 'valueTo';
+  label: string;
+  error?: string;
+  disabled: boolean;
+  onChange: (value: string | number) => void;
+}
+
+const ConditionValueInput: React.FC<ConditionValueInputProps> = ({
+  condition,
+  bound,
+  label,
+  error,
+  disabled,
+  onChange,
+}) => {
+  const value = condition[bound] ?? '';
+  const kind = getFieldKind(condition.field);
+
+  if (condition.field === 'weekday') {
+    return (
+      <FormControl sx={{ minWidth: 140 }} size="small">
+        <InputLabel>{label}</InputLabel>
+        <Select
+          value={String(value)}
+          label={label}
+          onChange={(e: SelectChangeEvent) => onChange(Number(e.target.value))}
+          disabled={disabled}
+        >
+          {WEEKDAYS.map((day, index) => (
+            <MenuItem key={day} value={String(index + 1)}>
+              {day}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+    );
+  }
+
+  return (
+    <TextField
+      label={label}
+      value={value}
+      onChange={(e) => onChange(kind === 'number' ? Number(e.target.value) || 0 : e.target.value)}
+      type={kind === 'text' ? 'text' : kind}
+      InputLabelProps={kind === 'date' ? { shrink: true } : undefined}
+      error={!!error}
+      helperText={error}
+      fullWidth
+      size="small"
+      required
+      disabled={disabled}
+    />
+  );
 };
 
-const isNumericField = (field: string) => field === 'amount';
+interface ConditionGroupEditorProps {
+  group: RuleConditions;
+  onChange: (group: RuleConditions) => void;
+  onRemove?: () => void;
+  path: string;
+  depth: number;
+  errors: Record<string, string>;
+  disabled: boolean;
+}
+
+/**
+ * Edits an AND/OR group of conditions, with nested groups edited recursively
+ */
+const ConditionGroupEditor: React.FC<ConditionGroupEditorProps> = ({
+  group,
+  onChange,
+  onRemove,
+  path,
+  depth,
+  errors,
+  disabled,
+}) => {
+  const setRule = (index: number, rule: RuleCondition | RuleConditions) => {
+    onChange({ ...group, rules: group.rules.map((current, i) => (i === index ? rule : current)) });
+  };
+
+  const removeRule = (index: number) => {
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+  };
+
+  const updateCondition = (index: number, condition: RuleCondition, updates: Partial<RuleCondition>) => {
+    const updated = { ...condition, ...updates };
+
+    // A new field may need a different kind of match and value
+    if (updates.field !== undefined && getFieldKind(updates.field) !== getFieldKind(condition.field)) {
+      updated.matchType = MATCH_TYPE_OPTIONS[getFieldKind(updates.field)][0].value;
+      updated.value = defaultValue(updates.field);
+      updated.valueTo = undefined;
+    } else if (updates.field !== undefined && updates.field !== condition.field) {
+      updated.value = defaultValue(updates.field);
+      updated.valueTo = undefined;
+    }
+
+    if (updated.matchType === 'between' && updated.valueTo === undefined) {
+      updated.valueTo = updated.value;
+    } else if (updated.matchType !== 'between') {
+      delete updated.valueTo;
+    }
+
+    setRule(index, updated);
+  };
+
+  // Only the outermost group must keep a condition
+  const canRemove = (index: number) => !!onRemove || group.rules.length > 1 || isGroup(group.rules[index]);
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 2,
+        ...(depth > 1 && {
+          p: 2,
+          borderLeft: '3px solid',
+          borderColor: 'primary.light',
+          bgcolor: 'action.hover',
+          borderRadius: 1,
+        }),
+      }}
+    >
+      {depth > 1 && (
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <ToggleButtonGroup
+            value={group.operator}
+            exclusive
+            onChange={(_, value) => value && onChange({ ...group, operator: value })}
+            size="small"
+            disabled={disabled}
+          >
+            <ToggleButton value="AND">Match ALL</ToggleButton>
+            <ToggleButton value="OR">Match ANY</ToggleButton>
+          </ToggleButtonGroup>
+          <IconButton onClick={onRemove} color="error" size="small" disabled={disabled}>
+            <DeleteIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      )}
+
+      {group.rules.map((rule, index) => {
+        const rulePath = path ? `${path}.${index}` : String(index);
+        const error = errors[`condition_${rulePath}`];
+
+        return (
+          <Box key={index}>
+            {index > 0 && (
+              <Typography
+                variant="caption"
+                color="text.secondary"
+                sx={{ display: 'block', mb: 1, fontWeight: 600 }}
+              >
+                {group.operator}
+              </Typography>
+            )}
+            {isGroup(rule) ? (
+              <ConditionGroupEditor
+                group={rule}
+                onChange={(updated) => setRule(index, updated)}
+                onRemove={() => removeRule(index)}
+                path={rulePath}
+                depth={depth + 1}
+                errors={errors}
+                disabled={disabled}
+              />
+            ) : (
+              <Box
+                sx={{
+                  display: 'flex',
+                  gap: 1,
+                  alignItems: 'flex-start',
+                  p: 2,
+                  border: '1px solid',
+                  borderColor: 'divider',
+                  borderRadius: 1,
+                  bgcolor: 'background.default',
+                }}
+              >
+                <FormControl sx={{ minWidth: 150 }} size="small">
+                  <InputLabel>Field</InputLabel>
+                  <Select
+                    value={rule.field}
+                    label="Field"
+                    onChange={(e: SelectChangeEvent) =>
+                      updateCondition(index, rule, { field: e.target.value as RuleCondition['field'] })
+                    }
+                    disabled={disabled}
+                  >
+                    {FIELD_OPTIONS.map((option) => (
+                      <MenuItem key={option.value} value={option.value}>
+                        {option.label}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+
+                <FormControl sx={{ minWidth: 140 }} size="small">
+                  <InputLabel>Match Type</InputLabel>
+                  <Select
+                    value={rule.matchType}
+                    label="Match Type"
+                    onChange={(e: SelectChangeEvent) =>
+                      updateCondition(index, rule, { matchType: e.target.value as RuleCondition['matchType'] })
+                    }
+                    disabled={disabled}
+                  >
+                    {MATCH_TYPE_OPTIONS[getFieldKind(rule.field)].map((option) => (
+                      <MenuItem key={option.value} value={option.value}>
+                        {option.label}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+
+                <ConditionValueInput
+                  condition={rule}
+                  bound="value"
+                  label={rule.matchType === 'between' ? 'From' : 'Value'}
+                  error={error}
+                  disabled={disabled}
+                  onChange={(value) => updateCondition(index, rule, { value })}
+                />
+
+                {rule.matchType === 'between' && (
+                  <ConditionValueInput
+                    condition={rule}
+                    bound="valueTo"
+                    label="To"
+                    disabled={disabled}
+                    onChange={(valueTo) => updateCondition(index, rule, { valueTo })}
+                  />
+                )}
+
+                {getFieldKind(rule.field) === 'text' && (
+                  <FormControlLabel
+                    control={
+                      <Switch
+                        checked={rule.caseSensitive || false}
+                        onChange={(e) => updateCondition(index, rule, { caseSensitive: e.target.checked })}
+                        size="small"
+                        disabled={disabled}
+                      />
+                    }
+                    label="Case sensitive"
+                    sx={{ ml: 1, whiteSpace: 'nowrap' }}
+                  />
+                )}
+
+                <IconButton
+                  onClick={() => removeRule(index)}
+                  color="error"
+                  size="small"
+                  disabled={!canRemove(index) || disabled}
+                  sx={{ mt: 0.5 }}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            )}
+          </Box>
+        );
+      })}
+
+      {errors[`group_${path}`] && (
+        <Typography variant="caption" color="error">
+          {errors[`group_${path}`]}
+        </Typography>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button
+          startIcon={<AddIcon />}
+          onClick={() => onChange({ ...group, rules: [...group.rules, newCondition()] })}
+          variant="outlined"
+          size="small"
+          disabled={disabled}
+        >
+          Add Condition
+        </Button>
+        <Button
+          startIcon={<AddIcon />}
+          onClick={() =>
+            onChange({
+              ...group,
+              rules: [...group.rules, { operator: group.operator === 'AND' ? 'OR' : 'AND', rules: [newCondition()] }],
+            })
+          }
+          variant="outlined"
+          size="small"
+          disabled={depth >= MAX_GROUP_DEPTH || disabled}
+        >
+          Add Group
+        </Button>
+      </Box>
+    </Box>
+  );
+};
 
 export const RuleEditor: React.FC<RuleEditorProps> = ({
   initialData,
   onSave,
   onCancel,
   onTest,
+  onPreview,
   loading = false,
   properties = [],
+  categories = [],
 }) => {
   const [name, setName] = useState(initialData?.name || '');
   const [enabled, setEnabled] = useState(initialData?.enabled ?? true);
-  const [operator, setOperator] = useState<'AND' | 'OR'>(
-    initialData?.conditions?.operator || 'AND'
-  );
-  const [conditions, setConditions] = useState<RuleCondition[]>(
-    initialData?.conditions?.rules || [
-      {
-        field: 'description',
-        matchType: 'contains',
-        value: '',
-        caseSensitive: false,
-      },
-    ]
+  const [conditions, setConditions] = useState<RuleConditions>(
+    initialData?.conditions || { operator: 'AND', rules: [newCondition()] }
   );
   const [propertyId, setPropertyId] = useState<string>(initialData?.propertyId || '');
   const [type, setType] = useState<'INCOME' | 'EXPENSE' | ''>(initialData?.type || '');
   const [category, setCategory] = useState(initialData?.category || '');
+  const [leaseId, setLeaseId] = useState(initialData?.leaseId || '');
+  const [paidByUserId, setPaidByUserId] = useState(initialData?.paidByUserId || '');
+  const [splits, setSplits] = useState<RuleSplit[] | null>(
+    initialData?.splits && initialData.splits.length > 0 ? initialData.splits : null
+  );
 
-  const [errors, setErrors] = useState<Record<string, string>>({});
-
-  const addCondition = () => {
-    setConditions([
-      ...conditions,
-      {
-        field: 'description',
-        matchType: 'contains',
-        value: '',
-        caseSensitive: false,
-      },
-    ]);
-  };
+  const [owners, setOwners] = useState<PropertyOwnership[]>([]);
+  const [leases, setLeases] = useState<Lease[]>([]);
 
-  const removeCondition = (index: number) => {
-    if (conditions.length > 1) {
-      setConditions(conditions.filter((_, i) => i !== index));
-    }
-  };
+  const [errors, setErrors] = useState<Record<string, string>>({});
 
-  const updateCondition = (index: number, updates: Partial<RuleCondition>) => {
-    const newConditions = [...conditions];
-    newConditions[index] = { ...newConditions[index], ...updates };
-
-    // If field changed to/from amount, reset matchType to valid option
-    if (updates.field !== undefined) {
-      const newField = updates.field;
-      const currentMatchType = newConditions[index].matchType;
-      const validMatchTypes = getMatchTypeOptions(newField);
-      const isValid = validMatchTypes.some(
-        (opt) => opt.value === currentMatchType
-      );
-
-      if (!isValid) {
-        newConditions[index].matchType = validMatchTypes[0]
-          .value as RuleCondition['matchType'];
+  // Only offer categories of the chosen type, keeping the rule's current category selectable
+  const categoryOptions = categories.filter(
+    (option) => !type || option.type === (type === 'INCOME' ? 'Income' : 'Expense')
+  );
+  if (category && !categoryOptions.some((option) => option.name === category)) {
+    categoryOptions.push({ name: category, type: type === 'INCOME' ? 'Income' : 'Expense' });
+  }
+
+  // Leases and owners can only be assigned from the rule's property
+  useEffect(() => {
+    const loadPropertyDetails = async () => {
+      if (!propertyId) {
+        setOwners([]);
+        setLeases([]);
+        return;
       }
 
-      // Convert value type based on field
-      if (isNumericField(newField)) {
-        newConditions[index].value =
-          typeof newConditions[index].value === 'number'
-            ? newConditions[index].value
-            : 0;
-      } else {
-        newConditions[index].value = String(newConditions[index].value || '');
+      try {
+        const [ownerships, propertyLeases] = await Promise.all([
+          propertyOwnershipService.listOwners(propertyId),
+          leasesService.getLeases({ propertyId }),
+        ]);
+        setOwners(ownerships);
+        setLeases(propertyLeases);
+      } catch (err) {
+        console.error('Error loading property details:', err);
+        setOwners([]);
+        setLeases([]);
       }
-    }
+    };
+
+    loadPropertyDetails();
+  }, [propertyId]);
+
+  const handlePropertyChange = (value: string) => {
+    setPropertyId(value);
+    setLeaseId('');
+    setPaidByUserId('');
+    setSplits(null);
+  };
+
+  const handleCustomSplitChange = (checked: boolean) => {
+    setSplits(
+      checked
+        ? owners.map((ownership) => ({ userId: ownership.userId, percentage: ownership.ownershipPercentage }))
+        : null
+    );
+  };
 
-    setConditions(newConditions);
+  const updateSplit = (userId: string, percentage: number) => {
+    setSplits((current) =>
+      (current ?? []).map((split) => (split.userId === userId ? { ...split, percentage } : split))
+    );
   };
 
   const validate = (): boolean => {
@@ -169,37 +580,37 @@ export const RuleEditor: React.FC<RuleEditorProps> = ({
       newErrors.name = 'Rule name is required';
     }
 
-    conditions.forEach((condition, index) => {
-      if (
-        condition.value === '' ||
-        (typeof condition.value === 'string' && !condition.value.trim())
-      ) {
-        newErrors[`condition_${index}`] = 'Value is required';
+    validateGroup(conditions, '', newErrors);
+
+    if (splits) {
+      const total = splits.reduce((sum, split) => sum + split.percentage, 0);
+      if (Math.abs(total - 100) > 0.01) {
+        newErrors.splits = `Split percentages must sum to 100% (currently ${total.toFixed(2)}%)`;
       }
-    });
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  const buildData = (): RuleData => ({
+    name,
+    enabled,
+    conditions,
+    propertyId: propertyId || null,
+    type: type || null,
+    category: category || null,
+    leaseId: leaseId || null,
+    paidByUserId: paidByUserId || null,
+    splits,
+  });
+
   const handleSave = () => {
     if (!validate()) {
       return;
     }
 
-    const data: RuleData = {
-      name,
-      enabled,
-      conditions: {
-        operator,
-        rules: conditions,
-      },
-      propertyId: propertyId || null,
-      type: type || null,
-      category: category || null,
-    };
-
-    onSave(data);
+    onSave(buildData());
   };
 
   const handleTest = () => {
@@ -207,19 +618,15 @@ export const RuleEditor: React.FC<RuleEditorProps> = ({
       return;
     }
 
-    const data: RuleData = {
-      name,
-      enabled,
-      conditions: {
-        operator,
-        rules: conditions,
-      },
-      propertyId: propertyId || null,
-      type: type || null,
-      category: category || null,
-    };
+    onTest?.(buildData());
+  };
 
-    onTest?.(data);
+  const handlePreview = () => {
+    if (!validate()) {
+      return;
+    }
+
+    onPreview?.(buildData());
   };
 
   return (
@@ -259,9 +666,9 @@ export const RuleEditor: React.FC<RuleEditorProps> = ({
         <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
           <Typography variant="h6">Conditions</Typography>
           <ToggleButtonGroup
-            value={operator}
+            value={conditions.operator}
             exclusive
-            onChange={(_, value) => value && setOperator(value)}
+            onChange={(_, value) => value && setConditions({ ...conditions, operator: value })}
             size="small"
             disabled={loading}
           >
@@ -270,132 +677,14 @@ export const RuleEditor: React.FC<RuleEditorProps> = ({
           </ToggleButtonGroup>
         </Box>
 
-        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
-          {conditions.map((condition, index) => (
-            <Box key={index}>
-              {index > 0 && (
-                <Typography
-                  variant="caption"
-                  color="text.secondary"
-                  sx={{ display: 'block', mb: 1, fontWeight: 600 }}
-                >
-                  {operator}
-                </Typography>
-              )}
-              <Box
-                sx={{
-                  display: 'flex',
-                  gap: 1,
-                  alignItems: 'flex-start',
-                  p: 2,
-                  border: '1px solid',
-                  borderColor: 'divider',
-                  borderRadius: 1,
-                  bgcolor: 'background.default',
-                }}
-              >
-                <FormControl sx={{ minWidth: 150 }} size="small">
-                  <InputLabel>Field</InputLabel>
-                  <Select
-                    value={condition.field}
-                    label="Field"
-                    onChange={(e: SelectChangeEvent) =>
-                      updateCondition(index, {
-                        field: e.target.value as RuleCondition['field'],
-                      })
-                    }
-                    disabled={loading}
-                  >
-                    {FIELD_OPTIONS.map((option) => (
-                      <MenuItem key={option.value} value={option.value}>
-                        {option.label}
-                      </MenuItem>
-                    ))}
-                  </Select>
-                </FormControl>
-
-                <FormControl sx={{ minWidth: 130 }} size="small">
-                  <InputLabel>Match Type</InputLabel>
-                  <Select
-                    value={condition.matchType}
-                    label="Match Type"
-                    onChange={(e: SelectChangeEvent) =>
-                      updateCondition(index, {
-                        matchType: e.target.value as RuleCondition['matchType'],
-                      })
-                    }
-                    disabled={loading}
-                  >
-                    {getMatchTypeOptions(condition.field).map((option) => (
-                      <MenuItem key={option.value} value={option.value}>
-                        {option.label}
-                      </MenuItem>
-                    ))}
-                  </Select>
-                </FormControl>
-
-                <TextField
-                  label="Value"
-                  value={condition.value}
-                  onChange={(e) =>
-                    updateCondition(index, {
-                      value: isNumericField(condition.field)
-                        ? Number(e.target.value) || 0
-                        : e.target.value,
-                    })
-                  }
-                  type={isNumericField(condition.field) ? 'number' : 'text'}
-                  error={!!errors[`condition_${index}`]}
-                  helperText={errors[`condition_${index}`]}
-                  fullWidth
-                  size="small"
-                  required
-                  disabled={loading}
-                />
-
-                {!isNumericField(condition.field) && (
-                  <FormControlLabel
-                    control={
-                      <Switch
-                        checked={condition.caseSensitive || false}
-                        onChange={(e) =>
-                          updateCondition(index, {
-                            caseSensitive: e.target.checked,
-                          })
-                        }
-                        size="small"
-                        disabled={loading}
-                      />
-                    }
-                    label="Case sensitive"
-                    sx={{ ml: 1, whiteSpace: 'nowrap' }}
-                  />
-                )}
-
-                <IconButton
-                  onClick={() => removeCondition(index)}
-                  color="error"
-                  size="small"
-                  disabled={conditions.length === 1 || loading}
-                  sx={{ mt: 0.5 }}
-                >
-                  <DeleteIcon fontSize="small" />
-                </IconButton>
-              </Box>
-            </Box>
-          ))}
-        </Box>
-
-        <Button
-          startIcon={<AddIcon />}
-          onClick={addCondition}
-          variant="outlined"
-          size="small"
-          sx={{ mt: 2 }}
+        <ConditionGroupEditor
+          group={conditions}
+          onChange={setConditions}
+          path=""
+          depth={1}
+          errors={errors}
           disabled={loading}
-        >
-          Add Condition
-        </Button>
+        />
       </Paper>
 
       {/* Actions (Property, Type, Category) */}
@@ -413,7 +702,7 @@ export const RuleEditor: React.FC<RuleEditorProps> = ({
             <Select
               value={propertyId}
               label="Property"
-              onChange={(e: SelectChangeEvent) => setPropertyId(e.target.value)}
+              onChange={(e: SelectChangeEvent) => handlePropertyChange(e.target.value)}
               disabled={loading}
             >
               <MenuItem value="">
@@ -445,14 +734,107 @@ export const RuleEditor: React.FC<RuleEditorProps> = ({
             </Select>
           </FormControl>
 
-          <TextField
-            label="Category"
-            value={category}
-            onChange={(e) => setCategory(e.target.value)}
-            fullWidth
-            disabled={loading}
-            placeholder="e.g., Rent, Utilities, Maintenance"
-          />
+          <FormControl fullWidth>
+            <InputLabel>Category</InputLabel>
+            <Select
+              value={category}
+              label="Category"
+              onChange={(e: SelectChangeEvent) => setCategory(e.target.value)}
+              disabled={loading}
+            >
+              <MenuItem value="">
+                <em>None</em>
+              </MenuItem>
+              {categoryOptions.map((option) => (
+                <MenuItem key={option.name} value={option.name}>
+                  {option.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {propertyId && (
+            <FormControl fullWidth>
+              <InputLabel>Lease</InputLabel>
+              <Select
+                value={leaseId}
+                label="Lease"
+                onChange={(e: SelectChangeEvent) => setLeaseId(e.target.value)}
+                disabled={loading}
+              >
+                <MenuItem value="">
+                  <em>None</em>
+                </MenuItem>
+                {leases.map((lease) => (
+                  <MenuItem key={lease.id} value={lease.id}>
+                    {formatLease(lease)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+
+          {owners.length > 0 && (
+            <>
+              <FormControl fullWidth>
+                <InputLabel>Paid By</InputLabel>
+                <Select
+                  value={paidByUserId}
+                  label="Paid By"
+                  onChange={(e: SelectChangeEvent) => setPaidByUserId(e.target.value)}
+                  disabled={loading}
+                >
+                  <MenuItem value="">
+                    <em>Not set</em>
+                  </MenuItem>
+                  {owners.map((ownership) => (
+                    <MenuItem key={ownership.userId} value={ownership.userId}>
+                      {ownership.user.email}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+
+              <Box>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={!!splits}
+                      onChange={(e) => handleCustomSplitChange(e.target.checked)}
+                      disabled={loading}
+                    />
+                  }
+                  label="Custom owner split"
+                />
+                <Typography variant="body2" color="text.secondary">
+                  {splits
+                    ? 'Matched transactions are split between owners by these percentages.'
+                    : 'Matched transactions are split by property ownership.'}
+                </Typography>
+                {splits && (
+                  <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mt: 2 }}>
+                    {splits.map((split) => (
+                      <TextField
+                        key={split.userId}
+                        label={owners.find((o) => o.userId === split.userId)?.user.email ?? split.userId}
+                        type="number"
+                        size="small"
+                        value={split.percentage}
+                        onChange={(e) => updateSplit(split.userId, Number(e.target.value) || 0)}
+                        InputProps={{ endAdornment: '%' }}
+                        disabled={loading}
+                      />
+                    ))}
+                    {errors.splits && (
+                      <Typography variant="caption" color="error">
+                        {errors.splits}
+                      </Typography>
+                    )}
+                  </Box>
+                )}
+              </Box>
+            </>
+          )}
         </Box>
       </Paper>
 
@@ -475,16 +857,28 @@ export const RuleEditor: React.FC<RuleEditorProps> = ({
           </Button>
         </Box>
 
-        {onTest && (
-          <Button
-            variant="outlined"
-            startIcon={<TestIcon />}
-            onClick={handleTest}
-            disabled={loading}
-          >
-            Test Rule
-          </Button>
-        )}
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          {onPreview && (
+            <Button
+              variant="outlined"
+              startIcon={<PreviewIcon />}
+              onClick={handlePreview}
+              disabled={loading}
+            >
+              Preview Impact
+            </Button>
+          )}
+          {onTest && (
+            <Button
+              variant="outlined"
+              startIcon={<TestIcon />}
+              onClick={handleTest}
+              disabled={loading}
+            >
+              Test Rule
+            </Button>
+          )}
+        </Box>
       </Box>
     </Box>
   );
@@ -2,6 +2,16 @@ import React from 'react';
 import { Card, CardContent, Typography, Chip, Box, CardActions, IconButton } from '@mui/material';
 import { Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
 import { PropertyCardProps } from '../../types/component.types';
+import type { RentFrequency } from '../../types/api.types';
+
+const RENT_FREQUENCY_SUFFIX: Record<RentFrequency, string> = {
+  Weekly: '/week',
+  Fortnightly: '/fortnight',
+  'Four-weekly': '/4 weeks',
+  Monthly: '/month',
+  Quarterly: '/quarter',
+  Annually: '/year',
+};
 
 const PropertyCard: React.FC<PropertyCardProps> = ({ property, onClick, onEdit, onDelete }) => {
   const getStatusColor = (status: string) => {
@@ -19,8 +29,8 @@ const PropertyCard: React.FC<PropertyCardProps> = ({ property, onClick, onEdit,
     }
   };
 
-  const formatRent = (amount: number) => {
-    return `£${amount.toLocaleString('en-GB')}/month`;
+  const formatRent = (amount: number, frequency: RentFrequency) => {
+    return `£${amount.toLocaleString('en-GB')}${RENT_FREQUENCY_SUFFIX[frequency]}`;
   };
 
   const address = `${property.street}, ${property.city}, ${property.county} ${property.postcode}`;
@@ -62,7 +72,7 @@ const PropertyCard: React.FC<PropertyCardProps> = ({ property, onClick, onEdit,
         <Box sx={{ mt: 2, pt: 2, borderTop: '1px solid', borderColor: 'divider' }}>
           {property.activeLease ? (
             <Typography variant="body2" sx={{ fontWeight: 500, color: 'success.main' }}>
-              {formatRent(property.activeLease.monthlyRent)}
+              {formatRent(property.activeLease.rentAmount, property.activeLease.rentFrequency)}
             </Typography>
           ) : (
             <Typography variant="body2" color="text.secondary">
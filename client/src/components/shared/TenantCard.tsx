@@ -1,9 +1,9 @@
 import React from 'react';
-import { Card, CardContent, Typography, Chip, Box } from '@mui/material';
-import { ContactEmergency as EmergencyIcon } from '@mui/icons-material';
+import { Card, CardContent, Typography, Chip, Box, Button } from '@mui/material';
+import { ContactEmergency as EmergencyIcon, VerifiedUser as GuarantorIcon } from '@mui/icons-material';
 import { TenantCardProps } from '../../types/component.types';
 
-const TenantCard: React.FC<TenantCardProps> = ({ tenant, currentProperty, onClick }) => {
+const TenantCard: React.FC<TenantCardProps> = ({ tenant, currentProperty, onClick, onGuarantorsClick }) => {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'Prospective':
@@ -18,6 +18,7 @@ const TenantCard: React.FC<TenantCardProps> = ({ tenant, currentProperty, onClic
   };
 
   const fullName = `${tenant.firstName} ${tenant.lastName}`;
+  const guarantors = tenant.guarantors ?? [];
 
   return (
     <Card
@@ -67,6 +68,29 @@ const TenantCard: React.FC<TenantCardProps> = ({ tenant, currentProperty, onClic
             </Typography>
           </Box>
         )}
+
+        {(guarantors.length > 0 || onGuarantorsClick) && (
+          <Box sx={{ mt: 2, pt: 2, borderTop: '1px solid', borderColor: 'divider' }}>
+            {guarantors.map((guarantor) => (
+              <Typography key={guarantor.id} variant="body2" color="text.secondary">
+                <strong>Guarantor:</strong> {guarantor.firstName} {guarantor.lastName} ({guarantor.relationship})
+              </Typography>
+            ))}
+            {onGuarantorsClick && (
+              <Button
+                size="small"
+                startIcon={<GuarantorIcon />}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onGuarantorsClick();
+                }}
+                sx={{ mt: 0.5, px: 0 }}
+              >
+                {guarantors.length > 0 ? 'Manage Guarantors' : 'Add Guarantor'}
+              </Button>
+            )}
+          </Box>
+        )}
       </CardContent>
     </Card>
   );
@@ -26,6 +26,7 @@ import {
   PersonAdd as PersonAddIcon,
   AddBusiness as AddBusinessIcon,
   Event as EventIcon,
+  Autorenew as AutorenewIcon,
 } from '@mui/icons-material';
 import { api } from '../services/api';
 import {
@@ -35,6 +36,7 @@ import {
   TransactionsResponse,
   TransactionSummaryResponse,
   EventsResponse,
+  RentRollReportResponse,
 } from '../types/api.types';
 import { ApiError } from '../types/api.types';
 
@@ -43,6 +45,8 @@ interface DashboardData {
   income: number;
   expenses: number;
   net: number;
+  annualRentRoll: number;
+  monthlyRentRoll: number;
   recentTransactions: Transaction[];
   upcomingEvents: EventType[];
 }
@@ -56,6 +60,8 @@ export const Dashboard: React.FC = () => {
     income: 0,
     expenses: 0,
     net: 0,
+    annualRentRoll: 0,
+    monthlyRentRoll: 0,
     recentTransactions: [],
     upcomingEvents: [],
   });
@@ -77,7 +83,7 @@ export const Dashboard: React.FC = () => {
         const toDate = endOfMonth.toISOString().split('T')[0];
 
         // Fetch all data in parallel
-        const [propertiesRes, summaryRes, transactionsRes, eventsRes] = await Promise.all([
+        const [propertiesRes, summaryRes, transactionsRes, eventsRes, rentRollRes] = await Promise.all([
           api.get<PropertiesResponse>('/properties'),
           api.get<TransactionSummaryResponse>('/transactions/summary', {
             params: { from_date: fromDate, to_date: toDate },
@@ -89,6 +95,7 @@ export const Dashboard: React.FC = () => {
               fromDate: now.toISOString().split('T')[0],
             },
           }),
+          api.get<RentRollReportResponse>('/reports/rent-roll'),
         ]);
 
         // Filter upcoming events and sort by date (earliest first), take first 5
@@ -105,6 +112,9 @@ export const Dashboard: React.FC = () => {
           income: summaryRes.data.summary.total_income,
           expenses: summaryRes.data.summary.total_expense,
           net: summaryRes.data.summary.net,
+          // Annualised so weekly and quarterly lets are counted correctly
+          annualRentRoll: rentRollRes.data.report.summary.totalAnnualRent,
+          monthlyRentRoll: rentRollRes.data.report.summary.totalMonthlyEquivalent,
           recentTransactions,
           upcomingEvents,
         });
@@ -184,7 +194,7 @@ export const Dashboard: React.FC = () => {
             gridTemplateColumns: {
               xs: '1fr',
               sm: 'repeat(2, 1fr)',
-              md: 'repeat(4, 1fr)',
+              md: 'repeat(5, 1fr)',
             },
             gap: 3,
             mb: 4,
@@ -256,6 +266,24 @@ export const Dashboard: React.FC = () => {
               </Box>
             </CardContent>
           </Card>
+
+          {/* Rent Roll Card */}
+          <Card>
+            <CardContent>
+              <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+                <AutorenewIcon sx={{ fontSize: 40, color: 'primary.main', mr: 2 }} />
+                <Box>
+                  <Typography color="text.secondary" variant="body2">
+                    Rent Roll (Annual)
+                  </Typography>
+                  <Typography variant="h5">{formatCurrency(data.annualRentRoll)}</Typography>
+                  <Typography color="text.secondary" variant="caption">
+                    {formatCurrency(data.monthlyRentRoll)}/month
+                  </Typography>
+                </Box>
+              </Box>
+            </CardContent>
+          </Card>
         </Box>
 
         {/* Quick Actions */}
@@ -35,21 +35,23 @@ import { propertiesService } from '../services/api/properties.service';
 import { tenantsService } from '../services/api/tenants.service';
 import { leasesService } from '../services/api/leases.service';
 import { transactionsService } from '../services/api/transactions.service';
+import { guarantorsService } from '../services/api/guarantors.service';
 import type {
   Document,
   Property,
   Tenant,
   Lease,
   Transaction,
+  Guarantor,
 } from '../types/api.types';
 import { ApiError } from '../types/api.types';
 import ConfirmDialog from '../components/shared/ConfirmDialog';
 import { useToast } from '../contexts/ToastContext';
 import { useAuth } from '../contexts/AuthContext';
 
-type EntityType = 'Property' | 'Tenant' | 'Lease' | 'Transaction';
+type EntityType = 'Property' | 'Tenant' | 'Lease' | 'Transaction' | 'Guarantor';
 
-const ENTITY_TYPES: EntityType[] = ['Property', 'Tenant', 'Lease', 'Transaction'];
+const ENTITY_TYPES: EntityType[] = ['Property', 'Tenant', 'Lease', 'Transaction', 'Guarantor'];
 
 const ALLOWED_FILE_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
 const ALLOWED_EXTENSIONS = ['.pdf', '.jpg', '.jpeg', '.png'];
@@ -57,7 +59,7 @@ const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
 const getEntityTypeColor = (
   entityType: EntityType
-): 'primary' | 'secondary' | 'success' | 'warning' => {
+): 'primary' | 'secondary' | 'success' | 'warning' | 'info' => {
   switch (entityType) {
     case 'Property':
       return 'primary';
@@ -67,6 +69,8 @@ const getEntityTypeColor = (
       return 'success';
     case 'Transaction':
       return 'warning';
+    case 'Guarantor':
+      return 'info';
     default:
       return 'primary';
   }
@@ -115,6 +119,7 @@ export const Documents: React.FC = () => {
   const [tenants, setTenants] = useState<Tenant[]>([]);
   const [leases, setLeases] = useState<Lease[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [guarantors, setGuarantors] = useState<Guarantor[]>([]);
 
   // Filter states
   const [entityTypeFilter, setEntityTypeFilter] = useState<string>('all');
@@ -136,16 +141,18 @@ export const Documents: React.FC = () => {
   // Fetch entities for dropdowns
   const fetchEntities = useCallback(async () => {
     try {
-      const [props, tens, leas, trans] = await Promise.all([
+      const [props, tens, leas, trans, guars] = await Promise.all([
         propertiesService.getProperties(),
         tenantsService.getTenants(),
         leasesService.getLeases(),
         transactionsService.getTransactions(),
+        guarantorsService.getGuarantors(),
       ]);
       setProperties(props);
       setTenants(tens);
       setLeases(leas);
       setTransactions(trans);
+      setGuarantors(guars);
     } catch (err) {
       console.error('Error fetching entities:', err);
       const errorMessage = err instanceof ApiError ? err.message : 'Failed to load entities';
@@ -211,11 +218,17 @@ export const Documents: React.FC = () => {
               label: `${propertyName} - ${t.type} - £${t.amount.toFixed(2)}`,
             };
           });
+        case 'Guarantor':
+          return guarantors.map((g) => {
+            const tenant = tenants.find((t) => t.id === g.tenantId);
+            const tenantName = tenant ? `${tenant.firstName} ${tenant.lastName}` : 'Unknown Tenant';
+            return { id: g.id, label: `${g.firstName} ${g.lastName} (for ${tenantName})` };
+          });
         default:
           return [];
       }
     },
-    [properties, tenants, leases, transactions]
+    [properties, tenants, leases, transactions, guarantors]
   );
 
   // Get entity name for display
@@ -248,11 +261,15 @@ export const Documents: React.FC = () => {
           const propertyName = property?.name || 'Unknown Property';
           return `${propertyName} - ${transaction.type}`;
         }
+        case 'Guarantor': {
+          const guarantor = guarantors.find((g) => g.id === entityId);
+          return guarantor ? `${guarantor.firstName} ${guarantor.lastName}` : 'Unknown Guarantor';
+        }
         default:
           return 'Unknown';
       }
     },
-    [properties, tenants, leases, transactions]
+    [properties, tenants, leases, transactions, guarantors]
   );
 
   // Upload dialog handlers
@@ -21,26 +21,47 @@ import {
   CardActions,
   Chip,
   IconButton,
+  FormControl,
+  InputLabel,
+  Select,
+  SelectChangeEvent,
 } from '@mui/material';
 import {
   Add as AddIcon,
   Search as SearchIcon,
   Edit as EditIcon,
   Delete as DeleteIcon,
+  ReceiptLong as ReceiptLongIcon,
+  Autorenew as AutorenewIcon,
+  History as HistoryIcon,
+  Savings as SavingsIcon,
+  TrendingUp as TrendingUpIcon,
 } from '@mui/icons-material';
 import { leasesService } from '../services/api/leases.service';
 import { propertiesService } from '../services/api/properties.service';
 import { tenantsService } from '../services/api/tenants.service';
+import { reportsService } from '../services/api/reports.service';
 import type {
   Lease,
   Property,
+  Unit,
   Tenant,
   CreateLeaseRequest,
   UpdateLeaseRequest,
   LeaseFilters,
+  ArrearsReportLease,
+  DepositComplianceReportLease,
+  DepositScheme,
+  RentFrequency,
+  Guarantor,
 } from '../types/api.types';
 import { ApiError } from '../types/api.types';
 import ConfirmDialog from '../components/shared/ConfirmDialog';
+import { RentLedgerDialog } from '../components/Lease/RentLedgerDialog';
+import { RenewLeaseDialog } from '../components/Lease/RenewLeaseDialog';
+import { TenancyHistoryDialog } from '../components/Lease/TenancyHistoryDialog';
+import { DepositDialog } from '../components/Lease/DepositDialog';
+import { RentHistoryDialog } from '../components/Lease/RentHistoryDialog';
 import { useToast } from '../contexts/ToastContext';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -48,25 +69,58 @@ type LeaseStatus = 'Draft' | 'Active' | 'Expired' | 'Terminated';
 
 const LEASE_STATUSES: LeaseStatus[] = ['Draft', 'Active', 'Expired', 'Terminated'];
 
+const DEPOSIT_SCHEMES: DepositScheme[] = ['DPS', 'mydeposits', 'TDS'];
+
+const RENT_FREQUENCIES: RentFrequency[] = ['Weekly', 'Fortnightly', 'Four-weekly', 'Monthly', 'Quarterly', 'Annually'];
+
+const RENT_FREQUENCY_SUFFIX: Record<RentFrequency, string> = {
+  Weekly: '/week',
+  Fortnightly: '/fortnight',
+  'Four-weekly': '/4 weeks',
+  Monthly: '/month',
+  Quarterly: '/quarter',
+  Annually: '/year',
+};
+
+// Weekly cycles fall due on a weekday (1 = Monday) rather than a day of the month
+const isWeekdayFrequency = (frequency: RentFrequency): boolean =>
+  frequency === 'Weekly' || frequency === 'Fortnightly' || frequency === 'Four-weekly';
+
 interface LeaseFormData {
   propertyId: string;
+  unitId: string;
   tenantId: string;
+  jointTenantIds: string[];
   startDate: string;
   endDate: string;
-  monthlyRent: string;
+  rentAmount: string;
+  rentFrequency: RentFrequency;
+  rentDueDay: string;
   securityDepositAmount: string;
   securityDepositPaidDate: string;
+  depositScheme: DepositScheme | '';
+  depositCertificateRef: string;
+  depositProtectedDate: string;
+  prescribedInfoServedAt: string;
   status: LeaseStatus;
 }
 
 const initialFormData: LeaseFormData = {
   propertyId: '',
+  unitId: '',
   tenantId: '',
+  jointTenantIds: [],
   startDate: '',
   endDate: '',
-  monthlyRent: '',
+  rentAmount: '',
+  rentFrequency: 'Monthly',
+  rentDueDay: '',
   securityDepositAmount: '',
   securityDepositPaidDate: '',
+  depositScheme: '',
+  depositCertificateRef: '',
+  depositProtectedDate: '',
+  prescribedInfoServedAt: '',
   status: 'Draft',
 };
 
@@ -85,6 +139,17 @@ const getStatusColor = (status: LeaseStatus): 'default' | 'success' | 'warning'
   }
 };
 
+// Names of everyone on the lease, lead tenant first
+const getLeaseTenantNames = (lease: Lease): string => {
+  const leaseTenants = lease.tenants && lease.tenants.length > 0
+    ? lease.tenants.map((t) => t.tenant)
+    : [lease.tenant];
+  return leaseTenants
+    .filter((tenant): tenant is Tenant => !!tenant)
+    .map((tenant) => `${tenant.firstName} ${tenant.lastName}`)
+    .join(' & ');
+};
+
 const formatCurrency = (amount: number): string => {
   return new Intl.NumberFormat('en-GB', {
     style: 'currency',
@@ -94,6 +159,26 @@ const formatCurrency = (amount: number): string => {
   }).format(amount);
 };
 
+// Guarantors with their liability cap, e.g. "Jane Doe (capped at £7,200)"
+const getLeaseGuarantorNames = (lease: Lease): string =>
+  (lease.guarantors ?? [])
+    .map((link) => link.guarantor)
+    .filter((guarantor): guarantor is Guarantor => !!guarantor)
+    .map(
+      (guarantor) =>
+        `${guarantor.firstName} ${guarantor.lastName}${
+          guarantor.liabilityCap != null ? ` (capped at ${formatCurrency(guarantor.liabilityCap)})` : ''
+        }`
+    )
+    .join(' & ');
+
+// Latest rent change already in effect, falling back to the rent the lease started on
+const getCurrentRent = (lease: Lease): number => {
+  const today = new Date().toISOString();
+  const inForce = (lease.rentChanges ?? []).filter((change) => change.effectiveDate <= today);
+  return inForce.length > 0 ? inForce[inForce.length - 1].rentAmount : lease.rentAmount;
+};
+
 const formatDate = (dateString: string): string => {
   return new Date(dateString).toLocaleDateString('en-GB', {
     day: 'numeric',
@@ -113,6 +198,8 @@ export const Leases: React.FC = () => {
   const [leases, setLeases] = useState<Lease[]>([]);
   const [properties, setProperties] = useState<Property[]>([]);
   const [tenants, setTenants] = useState<Tenant[]>([]);
+  const [arrearsByLease, setArrearsByLease] = useState<Record<string, ArrearsReportLease>>({});
+  const [depositByLease, setDepositByLease] = useState<Record<string, DepositComplianceReportLease>>({});
 
   // Filter states
   const [searchQuery, setSearchQuery] = useState('');
@@ -125,12 +212,22 @@ export const Leases: React.FC = () => {
   const [selectedLease, setSelectedLease] = useState<Lease | null>(null);
   const [formData, setFormData] = useState<LeaseFormData>(initialFormData);
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [propertyUnits, setPropertyUnits] = useState<Unit[]>([]);
 
   // Delete dialog states
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [leaseToDelete, setLeaseToDelete] = useState<Lease | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
 
+  // Rent ledger dialog state
+  const [ledgerLease, setLedgerLease] = useState<Lease | null>(null);
+
+  // Renewal and tenancy history dialog state
+  const [leaseToRenew, setLeaseToRenew] = useState<Lease | null>(null);
+  const [historyLease, setHistoryLease] = useState<Lease | null>(null);
+  const [depositLease, setDepositLease] = useState<Lease | null>(null);
+  const [rentHistoryLease, setRentHistoryLease] = useState<Lease | null>(null);
+
   const fetchData = useCallback(async () => {
     try {
       setLoading(true);
@@ -141,15 +238,23 @@ export const Leases: React.FC = () => {
       if (propertyFilter !== 'all') filters.propertyId = propertyFilter;
       if (statusFilter !== 'all') filters.status = statusFilter as LeaseStatus;
 
-      const [fetchedLeases, fetchedProperties, fetchedTenants] = await Promise.all([
+      const [fetchedLeases, fetchedProperties, fetchedTenants, arrearsReport, depositReport] = await Promise.all([
         leasesService.getLeases(filters),
         propertiesService.getProperties(),
         tenantsService.getTenants(),
+        reportsService.getArrearsReport(),
+        reportsService.getDepositComplianceReport(),
       ]);
 
       setLeases(fetchedLeases);
       setProperties(fetchedProperties);
       setTenants(fetchedTenants);
+      setArrearsByLease(
+        Object.fromEntries(arrearsReport.leases.map((entry) => [entry.leaseId, entry]))
+      );
+      setDepositByLease(
+        Object.fromEntries(depositReport.leases.map((entry) => [entry.leaseId, entry]))
+      );
     } catch (err) {
       console.error('Error fetching data:', err);
       const errorMessage = err instanceof ApiError ? err.message : 'Failed to load leases';
@@ -164,18 +269,49 @@ export const Leases: React.FC = () => {
     fetchData();
   }, [fetchData]);
 
+  // Load lettable units (e.g. HMO rooms) for the property selected in the form
+  useEffect(() => {
+    if (!dialogOpen || !formData.propertyId) {
+      setPropertyUnits([]);
+      return;
+    }
+
+    let cancelled = false;
+    propertiesService
+      .getUnits(formData.propertyId)
+      .then((units) => {
+        if (!cancelled) setPropertyUnits(units);
+      })
+      .catch((err) => {
+        console.error('Error fetching units:', err);
+        if (!cancelled) setPropertyUnits([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dialogOpen, formData.propertyId]);
+
   const handleOpenDialog = (mode: 'create' | 'edit', lease?: Lease) => {
     setDialogMode(mode);
     if (mode === 'edit' && lease) {
       setSelectedLease(lease);
       setFormData({
         propertyId: lease.propertyId,
+        unitId: lease.unitId || '',
         tenantId: lease.tenantId,
+        jointTenantIds: lease.tenants?.filter((t) => !t.isLead).map((t) => t.tenantId) ?? [],
         startDate: lease.startDate,
         endDate: lease.endDate || '',
-        monthlyRent: lease.monthlyRent.toString(),
+        rentAmount: lease.rentAmount.toString(),
+        rentFrequency: lease.rentFrequency,
+        rentDueDay: lease.rentDueDay?.toString() || '',
         securityDepositAmount: lease.securityDepositAmount.toString(),
         securityDepositPaidDate: lease.securityDepositPaidDate || '',
+        depositScheme: lease.depositScheme || '',
+        depositCertificateRef: lease.depositCertificateRef || '',
+        depositProtectedDate: lease.depositProtectedDate || '',
+        prescribedInfoServedAt: lease.prescribedInfoServedAt || '',
         status: lease.status,
       });
     } else {
@@ -201,17 +337,25 @@ export const Leases: React.FC = () => {
     }
 
     if (!formData.tenantId) {
-      errors.tenantId = 'Tenant is required';
+      errors.tenantId = 'Lead tenant is required';
     }
 
     if (!formData.startDate) {
       errors.startDate = 'Start date is required';
     }
 
-    if (!formData.monthlyRent) {
-      errors.monthlyRent = 'Monthly rent is required';
-    } else if (parseFloat(formData.monthlyRent) <= 0) {
-      errors.monthlyRent = 'Monthly rent must be greater than 0';
+    if (!formData.rentAmount) {
+      errors.rentAmount = 'Rent amount is required';
+    } else if (parseFloat(formData.rentAmount) <= 0) {
+      errors.rentAmount = 'Rent amount must be greater than 0';
+    }
+
+    if (formData.rentDueDay) {
+      const dueDay = parseInt(formData.rentDueDay, 10);
+      const maxDueDay = isWeekdayFrequency(formData.rentFrequency) ? 7 : 31;
+      if (isNaN(dueDay) || dueDay < 1 || dueDay > maxDueDay) {
+        errors.rentDueDay = `Due day must be between 1 and ${maxDueDay}`;
+      }
     }
 
     if (!formData.securityDepositAmount) {
@@ -236,12 +380,20 @@ export const Leases: React.FC = () => {
     try {
       const dataToSubmit: CreateLeaseRequest = {
         propertyId: formData.propertyId,
+        unitId: formData.unitId || null,
         tenantId: formData.tenantId,
+        jointTenantIds: formData.jointTenantIds.filter((id) => id !== formData.tenantId),
         startDate: formData.startDate,
         endDate: formData.endDate || null,
-        monthlyRent: parseFloat(formData.monthlyRent),
+        rentAmount: parseFloat(formData.rentAmount),
+        rentFrequency: formData.rentFrequency,
+        rentDueDay: formData.rentDueDay ? parseInt(formData.rentDueDay, 10) : null,
         securityDepositAmount: parseFloat(formData.securityDepositAmount),
         securityDepositPaidDate: formData.securityDepositPaidDate || null,
+        depositScheme: formData.depositScheme || null,
+        depositCertificateRef: formData.depositCertificateRef || null,
+        depositProtectedDate: formData.depositProtectedDate || null,
+        prescribedInfoServedAt: formData.prescribedInfoServedAt || null,
         status: formData.status,
       };
 
@@ -292,10 +444,12 @@ export const Leases: React.FC = () => {
     }
   };
 
-  const handleFormChange = (field: keyof LeaseFormData, value: string) => {
+  const handleFormChange = (field: keyof LeaseFormData, value: string | string[]) => {
     setFormData((prev) => ({
       ...prev,
       [field]: value,
+      // Units belong to a property, so changing property clears the unit
+      ...(field === 'propertyId' && value !== prev.propertyId ? { unitId: '' } : {}),
     }));
     if (formErrors[field]) {
       setFormErrors((prev) => {
@@ -306,11 +460,46 @@ export const Leases: React.FC = () => {
     }
   };
 
+  const handleJointTenantsChange = (event: SelectChangeEvent<string[]>) => {
+    const { value } = event.target;
+    handleFormChange('jointTenantIds', typeof value === 'string' ? value.split(',') : value);
+  };
+
   const handleEditClick = (lease: Lease, event: React.MouseEvent) => {
     event.stopPropagation();
     handleOpenDialog('edit', lease);
   };
 
+  const handleLedgerClick = (lease: Lease, event: React.MouseEvent) => {
+    event.stopPropagation();
+    setLedgerLease(lease);
+  };
+
+  const handleRenewClick = (lease: Lease, event: React.MouseEvent) => {
+    event.stopPropagation();
+    setLeaseToRenew(lease);
+  };
+
+  const handleDepositClick = (lease: Lease, event: React.MouseEvent) => {
+    event.stopPropagation();
+    setDepositLease(lease);
+  };
+
+  const handleRentHistoryClick = (lease: Lease, event: React.MouseEvent) => {
+    event.stopPropagation();
+    setRentHistoryLease(lease);
+  };
+
+  const handleHistoryClick = (lease: Lease, event: React.MouseEvent) => {
+    event.stopPropagation();
+    setHistoryLease(lease);
+  };
+
+  const handleRenewed = async () => {
+    setLeaseToRenew(null);
+    await fetchData();
+  };
+
   const filteredLeases = useMemo(() => {
     let filtered = leases;
 
@@ -318,9 +507,7 @@ export const Leases: React.FC = () => {
     if (searchQuery) {
       const query = searchQuery.toLowerCase();
       filtered = filtered.filter((lease) => {
-        const tenantName = lease.tenant
-          ? `${lease.tenant.firstName} ${lease.tenant.lastName}`.toLowerCase()
-          : '';
+        const tenantName = getLeaseTenantNames(lease).toLowerCase();
         const propertyName = lease.property?.name.toLowerCase() || '';
         return tenantName.includes(query) || propertyName.includes(query);
       });
@@ -342,9 +529,7 @@ export const Leases: React.FC = () => {
   const getDeleteLeaseDescription = (): string => {
     if (!leaseToDelete) return '';
     const propertyName = leaseToDelete.property?.name || getPropertyName(leaseToDelete.propertyId);
-    const tenantName = leaseToDelete.tenant
-      ? `${leaseToDelete.tenant.firstName} ${leaseToDelete.tenant.lastName}`
-      : getTenantName(leaseToDelete.tenantId);
+    const tenantName = getLeaseTenantNames(leaseToDelete) || getTenantName(leaseToDelete.tenantId);
     return `${propertyName} - ${tenantName}`;
   };
 
@@ -486,6 +671,7 @@ export const Leases: React.FC = () => {
                   <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 2 }}>
                     <Typography variant="h6" component="div" noWrap sx={{ flex: 1, mr: 1 }}>
                       {lease.property?.name || getPropertyName(lease.propertyId)}
+                      {lease.unit && ` - ${lease.unit.name}`}
                     </Typography>
                     <Chip
                       label={lease.status}
@@ -494,37 +680,100 @@ export const Leases: React.FC = () => {
                     />
                   </Box>
                   <Typography variant="body2" color="text.secondary" gutterBottom>
-                    Tenant: {lease.tenant
-                      ? `${lease.tenant.firstName} ${lease.tenant.lastName}`
-                      : getTenantName(lease.tenantId)}
+                    {lease.tenants && lease.tenants.length > 1 ? 'Tenants' : 'Tenant'}: {getLeaseTenantNames(lease) || getTenantName(lease.tenantId)}
                   </Typography>
+                  {lease.guarantors && lease.guarantors.length > 0 && (
+                    <Typography variant="body2" color="text.secondary" gutterBottom>
+                      {lease.guarantors.length > 1 ? 'Guarantors' : 'Guarantor'}: {getLeaseGuarantorNames(lease)}
+                    </Typography>
+                  )}
                   <Typography variant="h6" color="primary" gutterBottom>
-                    {formatCurrency(lease.monthlyRent)}/month
+                    {formatCurrency(getCurrentRent(lease))}
+                    {RENT_FREQUENCY_SUFFIX[lease.rentFrequency]}
                   </Typography>
                   <Typography variant="body2" color="text.secondary">
                     {formatDate(lease.startDate)} - {lease.endDate ? formatDate(lease.endDate) : 'Ongoing'}
                   </Typography>
+                  {arrearsByLease[lease.id] && (
+                    <Box sx={{ mt: 1 }}>
+                      {arrearsByLease[lease.id].arrears > 0 ? (
+                        <Chip
+                          label={`Arrears ${formatCurrency(arrearsByLease[lease.id].arrears)}`}
+                          color="error"
+                          size="small"
+                          variant="outlined"
+                        />
+                      ) : (
+                        <Chip label="Rent up to date" color="success" size="small" variant="outlined" />
+                      )}
+                    </Box>
+                  )}
+                  {depositByLease[lease.id]?.compliance.status === 'Breach' && (
+                    <Box sx={{ mt: 1 }}>
+                      <Chip label="Deposit protection breach" color="error" size="small" />
+                    </Box>
+                  )}
                 </CardContent>
-                {canWrite() && (
-                  <CardActions sx={{ justifyContent: 'flex-end', pt: 0 }}>
-                    <IconButton
-                      size="small"
-                      color="primary"
-                      onClick={(e) => handleEditClick(lease, e)}
-                      aria-label="Edit lease"
-                    >
-                      <EditIcon fontSize="small" />
-                    </IconButton>
-                    <IconButton
-                      size="small"
-                      color="error"
-                      onClick={(e) => handleDeleteClick(lease, e)}
-                      aria-label="Delete lease"
-                    >
-                      <DeleteIcon fontSize="small" />
-                    </IconButton>
-                  </CardActions>
-                )}
+                <CardActions sx={{ justifyContent: 'flex-end', pt: 0 }}>
+                  <IconButton
+                    size="small"
+                    onClick={(e) => handleLedgerClick(lease, e)}
+                    aria-label="View rent ledger"
+                  >
+                    <ReceiptLongIcon fontSize="small" />
+                  </IconButton>
+                  <IconButton
+                    size="small"
+                    onClick={(e) => handleRentHistoryClick(lease, e)}
+                    aria-label="View rent history"
+                  >
+                    <TrendingUpIcon fontSize="small" />
+                  </IconButton>
+                  <IconButton
+                    size="small"
+                    onClick={(e) => handleHistoryClick(lease, e)}
+                    aria-label="View tenancy history"
+                  >
+                    <HistoryIcon fontSize="small" />
+                  </IconButton>
+                  <IconButton
+                    size="small"
+                    onClick={(e) => handleDepositClick(lease, e)}
+                    aria-label="View deposit"
+                  >
+                    <SavingsIcon fontSize="small" />
+                  </IconButton>
+                  {canWrite() && (
+                    <>
+                      {(lease.status === 'Active' || lease.status === 'Expired') && !lease.renewal && (
+                        <IconButton
+                          size="small"
+                          color="primary"
+                          onClick={(e) => handleRenewClick(lease, e)}
+                          aria-label="Renew lease"
+                        >
+                          <AutorenewIcon fontSize="small" />
+                        </IconButton>
+                      )}
+                      <IconButton
+                        size="small"
+                        color="primary"
+                        onClick={(e) => handleEditClick(lease, e)}
+                        aria-label="Edit lease"
+                      >
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        color="error"
+                        onClick={(e) => handleDeleteClick(lease, e)}
+                        aria-label="Delete lease"
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </>
+                  )}
+                </CardActions>
               </Card>
             ))}
           </Box>
@@ -554,8 +803,25 @@ export const Leases: React.FC = () => {
                 </MenuItem>
               ))}
             </TextField>
+            {propertyUnits.length > 0 && (
+              <TextField
+                label="Unit"
+                select
+                value={formData.unitId}
+                onChange={(e) => handleFormChange('unitId', e.target.value)}
+                helperText="Let the whole property, or a single unit such as an HMO room"
+                fullWidth
+              >
+                <MenuItem value="">Whole property</MenuItem>
+                {propertyUnits.map((unit) => (
+                  <MenuItem key={unit.id} value={unit.id}>
+                    {unit.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
             <TextField
-              label="Tenant"
+              label="Lead Tenant"
               select
               value={formData.tenantId}
               onChange={(e) => handleFormChange('tenantId', e.target.value)}
@@ -570,6 +836,25 @@ export const Leases: React.FC = () => {
                 </MenuItem>
               ))}
             </TextField>
+            <FormControl fullWidth>
+              <InputLabel id="joint-tenants-label">Joint Tenants</InputLabel>
+              <Select
+                labelId="joint-tenants-label"
+                multiple
+                value={formData.jointTenantIds}
+                onChange={handleJointTenantsChange}
+                label="Joint Tenants"
+                renderValue={(selected) => selected.map(getTenantName).join(', ')}
+              >
+                {tenants
+                  .filter((tenant) => tenant.id !== formData.tenantId)
+                  .map((tenant) => (
+                    <MenuItem key={tenant.id} value={tenant.id}>
+                      {tenant.firstName} {tenant.lastName} - {tenant.email}
+                    </MenuItem>
+                  ))}
+              </Select>
+            </FormControl>
             <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
               <TextField
                 label="Start Date"
@@ -593,12 +878,12 @@ export const Leases: React.FC = () => {
             </Box>
             <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
               <TextField
-                label="Monthly Rent"
+                label="Rent Amount"
                 type="number"
-                value={formData.monthlyRent}
-                onChange={(e) => handleFormChange('monthlyRent', e.target.value)}
-                error={!!formErrors.monthlyRent}
-                helperText={formErrors.monthlyRent}
+                value={formData.rentAmount}
+                onChange={(e) => handleFormChange('rentAmount', e.target.value)}
+                error={!!formErrors.rentAmount}
+                helperText={formErrors.rentAmount}
                 inputProps={{ min: 0, step: 0.01 }}
                 InputProps={{
                   startAdornment: <InputAdornment position="start">£</InputAdornment>,
@@ -619,6 +904,34 @@ export const Leases: React.FC = () => {
                 required
               />
             </Box>
+            <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+              <TextField
+                label="Rent Frequency"
+                select
+                value={formData.rentFrequency}
+                onChange={(e) => handleFormChange('rentFrequency', e.target.value)}
+              >
+                {RENT_FREQUENCIES.map((frequency) => (
+                  <MenuItem key={frequency} value={frequency}>
+                    {frequency}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                label="Rent Due Day"
+                type="number"
+                value={formData.rentDueDay}
+                onChange={(e) => handleFormChange('rentDueDay', e.target.value)}
+                error={!!formErrors.rentDueDay}
+                helperText={
+                  formErrors.rentDueDay ||
+                  (isWeekdayFrequency(formData.rentFrequency)
+                    ? '1 = Monday to 7 = Sunday; empty for start date weekday'
+                    : 'Day of month; empty for start date anniversary')
+                }
+                inputProps={{ min: 1, max: isWeekdayFrequency(formData.rentFrequency) ? 7 : 31, step: 1 }}
+              />
+            </Box>
             <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
               <TextField
                 label="Security Deposit Paid Date"
@@ -627,6 +940,45 @@ export const Leases: React.FC = () => {
                 onChange={(e) => handleFormChange('securityDepositPaidDate', e.target.value)}
                 InputLabelProps={{ shrink: true }}
               />
+              <TextField
+                label="Deposit Scheme"
+                select
+                value={formData.depositScheme}
+                onChange={(e) => handleFormChange('depositScheme', e.target.value)}
+              >
+                <MenuItem value="">
+                  <em>Not protected</em>
+                </MenuItem>
+                {DEPOSIT_SCHEMES.map((scheme) => (
+                  <MenuItem key={scheme} value={scheme}>
+                    {scheme}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Box>
+            <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+              <TextField
+                label="Deposit Certificate Reference"
+                value={formData.depositCertificateRef}
+                onChange={(e) => handleFormChange('depositCertificateRef', e.target.value)}
+              />
+              <TextField
+                label="Deposit Protected Date"
+                type="date"
+                value={formData.depositProtectedDate}
+                onChange={(e) => handleFormChange('depositProtectedDate', e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Box>
+            <Box sx={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 2 }}>
+              <TextField
+                label="Prescribed Information Served"
+                type="date"
+                value={formData.prescribedInfoServedAt}
+                onChange={(e) => handleFormChange('prescribedInfoServedAt', e.target.value)}
+                helperText="Due within 30 days of receiving the deposit"
+                InputLabelProps={{ shrink: true }}
+              />
               <TextField
                 label="Status"
                 select
@@ -662,6 +1014,64 @@ export const Leases: React.FC = () => {
         onCancel={handleDeleteCancel}
         loading={deleteLoading}
       />
+
+      {/* Rent Ledger Dialog */}
+      <RentLedgerDialog
+        open={!!ledgerLease}
+        leaseId={ledgerLease?.id ?? null}
+        title={
+          ledgerLease
+            ? `Rent Ledger - ${ledgerLease.property?.name || getPropertyName(ledgerLease.propertyId)}`
+            : undefined
+        }
+        onClose={() => setLedgerLease(null)}
+      />
+
+      {/* Renew Lease Dialog */}
+      <RenewLeaseDialog
+        open={!!leaseToRenew}
+        lease={leaseToRenew}
+        onClose={() => setLeaseToRenew(null)}
+        onRenewed={handleRenewed}
+      />
+
+      {/* Deposit Dialog */}
+      <DepositDialog
+        open={!!depositLease}
+        leaseId={depositLease?.id ?? null}
+        title={
+          depositLease
+            ? `Deposit - ${depositLease.property?.name || getPropertyName(depositLease.propertyId)}`
+            : undefined
+        }
+        onClose={() => setDepositLease(null)}
+        onReturned={fetchData}
+      />
+
+      {/* Rent History Dialog */}
+      <RentHistoryDialog
+        open={!!rentHistoryLease}
+        leaseId={rentHistoryLease?.id ?? null}
+        title={
+          rentHistoryLease
+            ? `Rent History - ${rentHistoryLease.property?.name || getPropertyName(rentHistoryLease.propertyId)}`
+            : undefined
+        }
+        onClose={() => setRentHistoryLease(null)}
+        onChanged={fetchData}
+      />
+
+      {/* Tenancy History Dialog */}
+      <TenancyHistoryDialog
+        open={!!historyLease}
+        tenantId={historyLease?.tenantId ?? null}
+        title={
+          historyLease
+            ? `Tenancy History - ${getLeaseTenantNames(historyLease) || getTenantName(historyLease.tenantId)}`
+            : undefined
+        }
+        onClose={() => setHistoryLease(null)}
+      />
     </Container>
   );
 };
@@ -24,6 +24,7 @@ import {
   TextField,
   MenuItem,
   InputAdornment,
+  IconButton,
 } from '@mui/material';
 import {
   ArrowBack as ArrowBackIcon,
@@ -33,6 +34,7 @@ import {
   Description as DescriptionIcon,
   Add as AddIcon,
   MonetizationOn as MonetizationOnIcon,
+  ReceiptLong as ReceiptLongIcon,
 } from '@mui/icons-material';
 import { useNavigate, useParams } from 'react-router-dom';
 import { format } from 'date-fns';
@@ -42,14 +44,18 @@ import { transactionsService } from '../services/api/transactions.service';
 import { eventsService } from '../services/api/events.service';
 import { propertyOwnershipService } from '../services/api/propertyOwnership.service';
 import { settlementService } from '../services/api/settlement.service';
+import { reportsService } from '../services/api/reports.service';
 import type { PropertyOwnership } from '../services/api/propertyOwnership.service';
 import type { Balance, Settlement } from '../services/api/settlement.service';
 import type {
   Property,
   Lease,
+  Tenant,
   Transaction,
   Event,
   UpdatePropertyRequest,
+  ArrearsReportLease,
+  RentFrequency,
 } from '../types/api.types';
 import { ApiError } from '../types/api.types';
 import EventBadge from '../components/shared/EventBadge';
@@ -58,6 +64,19 @@ import { useAuth } from '../contexts/AuthContext';
 import { BalanceCard } from '../components/Settlement/BalanceCard';
 import { SettlementForm } from '../components/Settlement/SettlementForm';
 import { SettlementHistory } from '../components/Settlement/SettlementHistory';
+import { RentLedgerDialog } from '../components/Lease/RentLedgerDialog';
+import { UnitsSection } from '../components/Property/UnitsSection';
+
+// Names of everyone on the lease, lead tenant first
+const getLeaseTenantNames = (lease: Lease): string => {
+  const leaseTenants = lease.tenants && lease.tenants.length > 0
+    ? lease.tenants.map((t) => t.tenant)
+    : [lease.tenant];
+  return leaseTenants
+    .filter((tenant): tenant is Tenant => !!tenant)
+    .map((tenant) => `${tenant.firstName} ${tenant.lastName}`)
+    .join(' & ');
+};
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -94,6 +113,15 @@ type PropertyType = 'House' | 'Flat' | 'Studio' | 'Bungalow' | 'Terraced' | 'Sem
 const PROPERTY_STATUSES: PropertyStatus[] = ['Available', 'Occupied', 'Under Maintenance', 'For Sale'];
 const PROPERTY_TYPES: PropertyType[] = ['House', 'Flat', 'Studio', 'Bungalow', 'Terraced', 'Semi-Detached', 'Detached', 'Maisonette', 'Commercial'];
 
+const RENT_FREQUENCY_SUFFIX: Record<RentFrequency, string> = {
+  Weekly: '/week',
+  Fortnightly: '/fortnight',
+  'Four-weekly': '/4 weeks',
+  Monthly: '/month',
+  Quarterly: '/quarter',
+  Annually: '/year',
+};
+
 export const PropertyDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -107,6 +135,8 @@ export const PropertyDetail: React.FC = () => {
   const [leases, setLeases] = useState<Lease[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [events, setEvents] = useState<Event[]>([]);
+  const [arrearsByLease, setArrearsByLease] = useState<Record<string, ArrearsReportLease>>({});
+  const [ledgerLease, setLedgerLease] = useState<Lease | null>(null);
   const [tabValue, setTabValue] = useState(0);
 
   // Settlement-related state
@@ -134,17 +164,21 @@ export const PropertyDetail: React.FC = () => {
       setLoading(true);
       setError(null);
 
-      const [propertyData, leasesData, transactionsData, eventsData] = await Promise.all([
+      const [propertyData, leasesData, transactionsData, eventsData, arrearsReport] = await Promise.all([
         propertiesService.getProperty(id),
         leasesService.getLeases({ propertyId: id }),
         transactionsService.getTransactions({ propertyId: id }),
         eventsService.getEvents({ propertyId: id }),
+        reportsService.getArrearsReport(id),
       ]);
 
       setProperty(propertyData);
       setLeases(leasesData);
       setTransactions(transactionsData);
       setEvents(eventsData);
+      setArrearsByLease(
+        Object.fromEntries(arrearsReport.leases.map((entry) => [entry.leaseId, entry]))
+      );
     } catch (err) {
       console.error('Error fetching property data:', err);
       const errorMessage = err instanceof ApiError ? err.message : 'Failed to load property details';
@@ -383,6 +417,8 @@ export const PropertyDetail: React.FC = () => {
               </Box>
             )}
           </Paper>
+
+          <UnitsSection propertyId={property.id} />
         </TabPanel>
 
         <TabPanel value={tabValue} index={1}>
@@ -398,26 +434,52 @@ export const PropertyDetail: React.FC = () => {
                 <TableHead>
                   <TableRow>
                     <TableCell>Tenant</TableCell>
+                    <TableCell>Unit</TableCell>
                     <TableCell>Start Date</TableCell>
                     <TableCell>End Date</TableCell>
                     <TableCell>Rent Amount</TableCell>
                     <TableCell>Security Deposit</TableCell>
+                    <TableCell>Arrears</TableCell>
                     <TableCell>Status</TableCell>
+                    <TableCell align="right">Ledger</TableCell>
                   </TableRow>
                 </TableHead>
                 <TableBody>
                   {leases.map((lease) => (
                     <TableRow key={lease.id}>
                       <TableCell>
-                        {lease.tenant ? `${lease.tenant.firstName} ${lease.tenant.lastName}` : 'N/A'}
+                        {getLeaseTenantNames(lease) || 'N/A'}
                       </TableCell>
+                      <TableCell>{lease.unit?.name ?? 'Whole property'}</TableCell>
                       <TableCell>{formatDate(lease.startDate)}</TableCell>
                       <TableCell>{lease.endDate ? formatDate(lease.endDate) : 'N/A'}</TableCell>
-                      <TableCell>{formatCurrency(lease.monthlyRent)}</TableCell>
+                      <TableCell>
+                        {formatCurrency(lease.rentAmount)}
+                        {RENT_FREQUENCY_SUFFIX[lease.rentFrequency]}
+                      </TableCell>
                       <TableCell>{formatCurrency(lease.securityDepositAmount)}</TableCell>
+                      <TableCell
+                        sx={{
+                          color:
+                            (arrearsByLease[lease.id]?.arrears ?? 0) > 0
+                              ? theme.palette.error.main
+                              : undefined,
+                        }}
+                      >
+                        {arrearsByLease[lease.id] ? formatCurrency(arrearsByLease[lease.id].arrears) : 'N/A'}
+                      </TableCell>
                       <TableCell>
                         <Chip label={lease.status} color={getStatusColor(lease.status) as any} size="small" />
                       </TableCell>
+                      <TableCell align="right">
+                        <IconButton
+                          size="small"
+                          onClick={() => setLedgerLease(lease)}
+                          aria-label="View rent ledger"
+                        >
+                          <ReceiptLongIcon fontSize="small" />
+                        </IconButton>
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -569,6 +631,18 @@ export const PropertyDetail: React.FC = () => {
         </TabPanel>
       </Box>
 
+      {/* Rent Ledger Dialog */}
+      <RentLedgerDialog
+        open={!!ledgerLease}
+        leaseId={ledgerLease?.id ?? null}
+        title={
+          ledgerLease?.tenant
+            ? `Rent Ledger - ${getLeaseTenantNames(ledgerLease)}`
+            : undefined
+        }
+        onClose={() => setLedgerLease(null)}
+      />
+
       {/* Edit Dialog */}
       <Dialog open={editDialogOpen} onClose={handleCloseEditDialog} maxWidth="md" fullWidth>
         <DialogTitle>Edit Property</DialogTitle>
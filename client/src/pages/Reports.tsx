@@ -34,11 +34,13 @@ import {
   BarChart as BarChartIcon,
   Assessment as AssessmentIcon,
   Person as PersonIcon,
+  Warning as WarningIcon,
 } from '@mui/icons-material';
 import { format, startOfYear, endOfYear, subDays, startOfQuarter, subYears } from 'date-fns';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
 import { reportsService } from '../services/api/reports.service';
 import { transactionsService } from '../services/api/transactions.service';
+import { transactionCategoriesService } from '../services/api/transactionCategories.service';
 import {
   MonthlyPLData,
   CategoryBreakdown,
@@ -47,6 +49,9 @@ import {
   Transaction,
   OwnerPLReport,
   ReportOwner,
+  ArrearsAgingReport,
+  ArrearsAgingBuckets,
+  TransactionCategory,
 } from '../types/api.types';
 import StatsCard from '../components/shared/StatsCard';
 import DateRangePicker from '../components/shared/DateRangePicker';
@@ -58,20 +63,23 @@ type ChartType = 'pie' | 'bar';
 type SortField = 'propertyName' | 'totalRevenue' | 'totalExpenses' | 'netIncome';
 type SortOrder = 'asc' | 'desc';
 
+const AGING_BUCKETS: { key: keyof ArrearsAgingBuckets; label: string }[] = [
+  { key: 'days0to30', label: '0-30 Days' },
+  { key: 'days31to60', label: '31-60 Days' },
+  { key: 'days61to90', label: '61-90 Days' },
+  { key: 'days90Plus', label: '90+ Days' },
+  { key: 'total', label: 'Total' },
+];
+
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d', '#ffc658', '#ff7300'];
 
-const INCOME_CATEGORIES = ['Rent', 'Security Deposit', 'Late Fee', 'Lease Fee'];
-const EXPENSE_CATEGORIES = [
-  'Maintenance',
-  'Repair',
-  'Utilities',
-  'Insurance',
-  'Property Tax',
-  'Management Fee',
-  'Legal Fee',
-  'Transport',
-  'Other',
-];
+// Order report categories as they are ordered in category settings, with any
+// category missing from the list last alphabetically
+const orderReportCategories = (used: Set<string>, categoryOrder: string[]): string[] => {
+  const known = categoryOrder.filter(name => used.has(name));
+  const unknown = [...used].filter(name => !categoryOrder.includes(name)).sort();
+  return [...known, ...unknown];
+};
 
 export const Reports: React.FC = () => {
   const theme = useTheme();
@@ -87,6 +95,8 @@ export const Reports: React.FC = () => {
   const [categoryData, setCategoryData] = useState<CategoryBreakdown>({ income: {}, expense: {} });
   const [propertyData, setPropertyData] = useState<PropertyPerformance[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [arrearsAging, setArrearsAging] = useState<ArrearsAgingReport | null>(null);
+  const [categories, setCategories] = useState<TransactionCategory[]>([]);
 
   // Owner P&L states
   const [owners, setOwners] = useState<ReportOwner[]>([]);
@@ -104,6 +114,18 @@ export const Reports: React.FC = () => {
   const [sortField, setSortField] = useState<SortField>('propertyName');
   const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
 
+  // Fetch categories (including archived) for ordering the P&L table
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        setCategories(await transactionCategoriesService.getCategories({ include_archived: true }));
+      } catch (err) {
+        console.error('Error fetching categories:', err);
+      }
+    };
+    fetchCategories();
+  }, []);
+
   // Fetch available owners for the selector
   useEffect(() => {
     const fetchOwners = async () => {
@@ -142,17 +164,19 @@ export const Reports: React.FC = () => {
         filters.endDate = dateRangeEnd.toISOString().split('T')[0];
       }
 
-      const [pl, category, property, transactionList] = await Promise.all([
+      const [pl, category, property, transactionList, aging] = await Promise.all([
         reportsService.getProfitLossReport(filters),
         reportsService.getCategoryBreakdown(filters),
         reportsService.getPropertyPerformance(filters),
         transactionsService.getTransactions(filters),
+        reportsService.getArrearsAgingReport(filters.propertyId),
       ]);
 
       setPlData(pl);
       setCategoryData(category);
       setPropertyData(property);
       setTransactions(transactionList);
+      setArrearsAging(aging);
     } catch (err) {
       console.error('Error fetching reports:', err);
       setError('Failed to load reports. Please try again.');
@@ -298,23 +322,25 @@ export const Reports: React.FC = () => {
   // Prepare P&L table data
   const plTableData = useMemo(() => {
     const months = Object.keys(plData).sort();
-    const allCategories = new Set<string>();
+    const usedIncome = new Set<string>();
+    const usedExpense = new Set<string>();
 
     // Collect all categories
     Object.values(plData).forEach(monthData => {
-      Object.keys(monthData.income).forEach(cat => allCategories.add(cat));
-      Object.keys(monthData.expense).forEach(cat => allCategories.add(cat));
+      Object.keys(monthData.income).forEach(cat => usedIncome.add(cat));
+      Object.keys(monthData.expense).forEach(cat => usedExpense.add(cat));
     });
 
-    const incomeCategories = INCOME_CATEGORIES.filter(cat => allCategories.has(cat));
-    const expenseCategories = EXPENSE_CATEGORIES.filter(cat => allCategories.has(cat));
+    const categoryOrder = categories.map(c => c.name);
+    const incomeCategories = orderReportCategories(usedIncome, categoryOrder);
+    const expenseCategories = orderReportCategories(usedExpense, categoryOrder);
 
     return {
       months,
       incomeCategories,
       expenseCategories,
     };
-  }, [plData]);
+  }, [plData, categories]);
 
   // CSV Export functions
   const exportPLReport = () => {
@@ -409,6 +435,37 @@ export const Reports: React.FC = () => {
     downloadCSV(rows, 'transactions');
   };
 
+  const exportArrearsAging = () => {
+    if (!arrearsAging) return;
+
+    const headers = ['Property', 'Tenant', 'Oldest Unpaid', ...AGING_BUCKETS.map(b => b.label)];
+    const rows: string[][] = [headers];
+
+    arrearsAging.properties.forEach(propertyEntry => {
+      propertyEntry.tenants.forEach(tenantEntry => {
+        rows.push([
+          propertyEntry.property.name,
+          tenantEntry.tenant.name,
+          tenantEntry.oldestUnpaidDueDate
+            ? format(new Date(tenantEntry.oldestUnpaidDueDate), 'dd/MM/yyyy')
+            : '',
+          ...AGING_BUCKETS.map(b => tenantEntry.buckets[b.key].toFixed(2)),
+        ]);
+      });
+      rows.push([
+        `${propertyEntry.property.name} Total`,
+        '',
+        '',
+        ...AGING_BUCKETS.map(b => propertyEntry.buckets[b.key].toFixed(2)),
+      ]);
+    });
+
+    rows.push(['']);
+    rows.push(['Portfolio Total', '', '', ...AGING_BUCKETS.map(b => arrearsAging.totals[b.key].toFixed(2))]);
+
+    downloadCSV(rows, 'arrears-aging');
+  };
+
   const downloadCSV = (rows: string[][], filename: string) => {
     const csvContent = rows.map(row => row.map(cell => `"${cell}"`).join(',')).join('\n');
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
@@ -447,6 +504,7 @@ export const Reports: React.FC = () => {
             <MenuItem onClick={exportPLReport}>Export P&L Report</MenuItem>
             <MenuItem onClick={exportPropertyPerformance}>Export Property Performance</MenuItem>
             <MenuItem onClick={exportTransactions}>Export Transactions</MenuItem>
+            <MenuItem onClick={exportArrearsAging}>Export Arrears Aging</MenuItem>
           </TextField>
         </Box>
 
@@ -903,6 +961,78 @@ export const Reports: React.FC = () => {
               )}
             </Paper>
 
+            {/* Arrears Aging */}
+            <Paper sx={{ p: 3, mb: 3 }}>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+                <WarningIcon color={arrearsAging && arrearsAging.totals.total > 0 ? 'error' : 'disabled'} />
+                <Typography variant="h6">
+                  Arrears Aging
+                </Typography>
+              </Box>
+
+              {!arrearsAging || arrearsAging.properties.length === 0 ? (
+                <Typography variant="body2" color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+                  No rent arrears outstanding
+                </Typography>
+              ) : (
+                <TableContainer>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell sx={{ fontWeight: 'bold' }}>Property / Tenant</TableCell>
+                        {AGING_BUCKETS.map(bucket => (
+                          <TableCell key={bucket.key} align="right" sx={{ fontWeight: 'bold' }}>
+                            {bucket.label}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {arrearsAging.properties.map(propertyEntry => (
+                        <React.Fragment key={propertyEntry.property.id}>
+                          <TableRow sx={{ bgcolor: 'grey.100' }}>
+                            <TableCell sx={{ fontWeight: 'bold' }}>{propertyEntry.property.name}</TableCell>
+                            {AGING_BUCKETS.map(bucket => (
+                              <TableCell key={bucket.key} align="right" sx={{ fontWeight: 'bold' }}>
+                                {formatCurrency(propertyEntry.buckets[bucket.key])}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                          {propertyEntry.tenants.map(tenantEntry => (
+                            <TableRow key={tenantEntry.leaseId}>
+                              <TableCell sx={{ pl: 4 }}>{tenantEntry.tenant.name}</TableCell>
+                              {AGING_BUCKETS.map(bucket => (
+                                <TableCell
+                                  key={bucket.key}
+                                  align="right"
+                                  sx={{
+                                    color:
+                                      bucket.key === 'days90Plus' && tenantEntry.buckets.days90Plus > 0
+                                        ? 'error.main'
+                                        : 'inherit',
+                                  }}
+                                >
+                                  {formatCurrency(tenantEntry.buckets[bucket.key])}
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          ))}
+                        </React.Fragment>
+                      ))}
+                      <TableRow sx={{ bgcolor: 'error.light' }}>
+                        <TableCell sx={{ fontWeight: 'bold' }}>Total Arrears</TableCell>
+                        {AGING_BUCKETS.map(bucket => (
+                          <TableCell key={bucket.key} align="right" sx={{ fontWeight: 'bold' }}>
+                            {formatCurrency(arrearsAging.totals[bucket.key])}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+            </Paper>
+
             {/* Category Breakdown Charts */}
             <Paper sx={{ p: 3, mb: 3 }}>
               <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
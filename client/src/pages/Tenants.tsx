@@ -21,6 +21,7 @@ import { leasesService } from '../services/api/leases.service';
 import type { Tenant, CreateTenantRequest, UpdateTenantRequest, Property } from '../types/api.types';
 import { ApiError } from '../types/api.types';
 import TenantCard from '../components/shared/TenantCard';
+import { GuarantorsDialog } from '../components/Tenant/GuarantorsDialog';
 import { useToast } from '../contexts/ToastContext';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -72,6 +73,7 @@ export const Tenants: React.FC = () => {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [tenantToDelete, setTenantToDelete] = useState<Tenant | null>(null);
   const [deleteLoading, setDeleteLoading] = useState(false);
+  const [guarantorsTenant, setGuarantorsTenant] = useState<Tenant | null>(null);
   const [formData, setFormData] = useState<CreateTenantRequest>({
     firstName: '',
     lastName: '',
@@ -324,6 +326,7 @@ export const Tenants: React.FC = () => {
             tenant={tenant}
             currentProperty={tenant.currentProperty}
             onClick={canWrite() ? () => handleOpenDialog('edit', tenant) : undefined}
+            onGuarantorsClick={() => setGuarantorsTenant(tenant)}
           />
         ))}
       </Box>
@@ -534,6 +537,19 @@ export const Tenants: React.FC = () => {
           </Button>
         </DialogActions>
       </Dialog>
+
+      {/* Guarantors Dialog */}
+      <GuarantorsDialog
+        open={!!guarantorsTenant}
+        tenantId={guarantorsTenant?.id ?? null}
+        title={
+          guarantorsTenant
+            ? `Guarantors - ${guarantorsTenant.firstName} ${guarantorsTenant.lastName}`
+            : undefined
+        }
+        onClose={() => setGuarantorsTenant(null)}
+        onChanged={fetchTenants}
+      />
     </Container>
   );
 };
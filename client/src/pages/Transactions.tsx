@@ -33,9 +33,11 @@ import {
   TrendingDown as TrendingDownIcon,
   AccountBalance as AccountBalanceIcon,
   AttachFile as AttachFileIcon,
+  Repeat as RepeatIcon,
 } from '@mui/icons-material';
 import { format } from 'date-fns';
 import { transactionsService } from '../services/api/transactions.service';
+import { transactionCategoriesService } from '../services/api/transactionCategories.service';
 import { documentsService } from '../services/api/documents.service';
 import {
   Transaction,
@@ -44,6 +46,7 @@ import {
   TransactionFilters,
   TransactionSummary,
   TransactionSplit,
+  TransactionCategory,
 } from '../types/api.types';
 import TransactionRow from '../components/shared/TransactionRow';
 import StatsCard from '../components/shared/StatsCard';
@@ -54,23 +57,18 @@ import ConfirmDialog from '../components/shared/ConfirmDialog';
 import { useToast } from '../contexts/ToastContext';
 import { useAuth } from '../contexts/AuthContext';
 import { SplitSection } from '../components/Transaction/SplitSection';
+import { RecurringTransactionsDialog } from '../components/Transaction/RecurringTransactionsDialog';
 import { propertyOwnershipService, PropertyOwnership } from '../services/api/propertyOwnership.service';
 
 const TRANSACTION_TYPES = ['Income', 'Expense'] as const;
 
-const INCOME_CATEGORIES = ['Rent', 'Security Deposit', 'Late Fee', 'Lease Fee'] as const;
-
-const EXPENSE_CATEGORIES = [
-  'Maintenance',
-  'Repair',
-  'Utilities',
-  'Insurance',
-  'Property Tax',
-  'Management Fee',
-  'Legal Fee',
-  'Transport',
-  'Other',
-] as const;
+// Top-level categories of a type in display order, each followed by its subcategories
+const orderCategories = (categories: TransactionCategory[], type: 'Income' | 'Expense'): TransactionCategory[] => {
+  const ofType = categories.filter((c) => c.type === type);
+  return ofType
+    .filter((c) => !c.parentId || !ofType.some((parent) => parent.id === c.parentId))
+    .flatMap((parent) => [parent, ...ofType.filter((c) => c.parentId === parent.id)]);
+};
 
 interface TransactionFormData {
   propertyId: string;
@@ -118,6 +116,12 @@ export const Transactions: React.FC = () => {
   const [confirmOpen, setConfirmOpen] = useState(false);
   const [deleteLoading, setDeleteLoading] = useState(false);
 
+  // Categories, including archived ones so existing transactions can still be filtered
+  const [categories, setCategories] = useState<TransactionCategory[]>([]);
+
+  // Recurring transaction templates
+  const [recurringOpen, setRecurringOpen] = useState(false);
+
   // Property ownership and splits
   const [propertyOwnership, setPropertyOwnership] = useState<PropertyOwnership[]>([]);
   const [splits, setSplits] = useState<TransactionSplit[]>([]);
@@ -175,6 +179,17 @@ export const Transactions: React.FC = () => {
     fetchTransactions();
   }, [fetchTransactions]);
 
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        setCategories(await transactionCategoriesService.getCategories({ include_archived: true }));
+      } catch (err) {
+        console.error('Error fetching categories:', err);
+      }
+    };
+    fetchCategories();
+  }, []);
+
   // Load property ownership when property is selected
   useEffect(() => {
     const loadPropertyOwnership = async () => {
@@ -227,13 +242,16 @@ export const Transactions: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [formData.propertyId]);
 
+  const incomeCategories = useMemo(() => orderCategories(categories, 'Income'), [categories]);
+  const expenseCategories = useMemo(() => orderCategories(categories, 'Expense'), [categories]);
+
+  // Archived categories can't be chosen, but an edited transaction keeps the one it has
   const availableCategories = useMemo(() => {
-    if (formData.type === 'Income') {
-      return INCOME_CATEGORIES;
-    } else {
-      return EXPENSE_CATEGORIES;
-    }
-  }, [formData.type]);
+    const ofType = formData.type === 'Income' ? incomeCategories : expenseCategories;
+    return ofType.filter(
+      (category) => !category.isArchived || (dialogMode === 'edit' && category.name === selectedTransaction?.category)
+    );
+  }, [formData.type, incomeCategories, expenseCategories, dialogMode, selectedTransaction]);
 
   const handleCreateTransaction = () => {
     setSelectedTransaction(null);
@@ -452,16 +470,26 @@ export const Transactions: React.FC = () => {
           <Typography variant="h4" component="h1">
             Finances & Transactions
           </Typography>
-          {canWrite() && (
+          <Stack direction="row" spacing={1}>
             <Button
-              variant="contained"
-              startIcon={<AddIcon />}
-              onClick={handleCreateTransaction}
+              variant="outlined"
+              startIcon={<RepeatIcon />}
+              onClick={() => setRecurringOpen(true)}
               size={isMobile ? 'small' : 'medium'}
             >
-              New Transaction
+              Recurring
             </Button>
-          )}
+            {canWrite() && (
+              <Button
+                variant="contained"
+                startIcon={<AddIcon />}
+                onClick={handleCreateTransaction}
+                size={isMobile ? 'small' : 'medium'}
+              >
+                New Transaction
+              </Button>
+            )}
+          </Stack>
         </Box>
 
         {error && (
@@ -546,15 +574,17 @@ export const Transactions: React.FC = () => {
               >
                 <MenuItem value="all">All Categories</MenuItem>
                 <MenuItem disabled>--- Income ---</MenuItem>
-                {INCOME_CATEGORIES.map((category) => (
-                  <MenuItem key={category} value={category}>
-                    {category}
+                {incomeCategories.map((category) => (
+                  <MenuItem key={category.id} value={category.name} sx={{ pl: category.parentId ? 4 : undefined }}>
+                    {category.name}
+                    {category.isArchived && ' (archived)'}
                   </MenuItem>
                 ))}
                 <MenuItem disabled>--- Expense ---</MenuItem>
-                {EXPENSE_CATEGORIES.map((category) => (
-                  <MenuItem key={category} value={category}>
-                    {category}
+                {expenseCategories.map((category) => (
+                  <MenuItem key={category.id} value={category.name} sx={{ pl: category.parentId ? 4 : undefined }}>
+                    {category.name}
+                    {category.isArchived && ' (archived)'}
                   </MenuItem>
                 ))}
               </TextField>
@@ -689,8 +719,8 @@ export const Transactions: React.FC = () => {
                   onChange={(e: SelectChangeEvent) => handleFormChange('category', e.target.value)}
                 >
                   {availableCategories.map((category) => (
-                    <MenuItem key={category} value={category}>
-                      {category}
+                    <MenuItem key={category.id} value={category.name} sx={{ pl: category.parentId ? 4 : undefined }}>
+                      {category.name}
                     </MenuItem>
                   ))}
                 </Select>
@@ -805,6 +835,15 @@ export const Transactions: React.FC = () => {
           onCancel={() => setConfirmOpen(false)}
           loading={deleteLoading}
         />
+
+        <RecurringTransactionsDialog
+          open={recurringOpen}
+          categories={[...incomeCategories, ...expenseCategories]}
+          onClose={() => {
+            setRecurringOpen(false);
+            fetchTransactions();
+          }}
+        />
       </Box>
     </Container>
   );
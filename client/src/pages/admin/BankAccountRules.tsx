@@ -20,6 +20,13 @@ import {
   TextField,
   Tooltip,
   Divider,
+  Checkbox,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -29,6 +36,10 @@ import {
   ArrowBack as BackIcon,
   Check as CheckIcon,
   Close as CloseIcon,
+  AutoAwesome as SuggestionIcon,
+  Preview as PreviewIcon,
+  Lock as LockIcon,
+  Warning as WarningIcon,
 } from '@mui/icons-material';
 import {
   DndContext,
@@ -48,21 +59,37 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { useToast } from '../../contexts/ToastContext';
-import { ApiError, Property } from '../../types/api.types';
+import { ApiError, Property, TransactionCategory } from '../../types/api.types';
 import {
   matchingRulesService,
   MatchingRule,
+  RuleSuggestion,
+  CreateMatchingRuleRequest,
+  ProposedMatchingRule,
+  RuleImpactPreview,
+  RuleOutcome,
+  RuleHitStats,
 } from '../../services/api/matchingRules.service';
 import { propertiesService } from '../../services/api/properties.service';
+import { transactionCategoriesService } from '../../services/api/transactionCategories.service';
 import { RuleEditor, RuleData } from '../../components/bank/RuleEditor';
 
 interface SortableRuleItemProps {
   rule: MatchingRule;
   onEdit: (rule: MatchingRule) => void;
   onDelete: (rule: MatchingRule) => void;
+  stats?: RuleHitStats;
+  /** Rule names by ID, for naming the rules that shadow this one */
+  ruleNames: Map<string, string>;
 }
 
-const SortableRuleItem: React.FC<SortableRuleItemProps> = ({ rule, onEdit, onDelete }) => {
+const SortableRuleItem: React.FC<SortableRuleItemProps> = ({
+  rule,
+  onEdit,
+  onDelete,
+  stats,
+  ruleNames,
+}) => {
   const {
     attributes,
     listeners,
@@ -89,6 +116,8 @@ const SortableRuleItem: React.FC<SortableRuleItemProps> = ({ rule, onEdit, onDel
     }
   };
 
+  const shadowedBy = (stats?.shadowedBy ?? []).map((id) => ruleNames.get(id) ?? 'a deleted rule');
+
   return (
     <ListItem
       ref={setNodeRef}
@@ -149,6 +178,42 @@ const SortableRuleItem: React.FC<SortableRuleItemProps> = ({ rule, onEdit, onDel
             {rule.bankAccountId === null && (
               <Chip label="Global" size="small" color="primary" />
             )}
+            {stats && stats.hitCount > 0 && (
+              <Chip
+                label={`${stats.hitCount} hit${stats.hitCount !== 1 ? 's' : ''}${
+                  stats.lastHitAt
+                    ? ` · last ${new Date(stats.lastHitAt).toLocaleDateString('en-GB')}`
+                    : ''
+                }`}
+                size="small"
+                variant="outlined"
+                color="success"
+              />
+            )}
+            {stats?.status === 'unused' && rule.enabled && (
+              <Tooltip title="This rule has not matched any of this account's transactions">
+                <Chip label="No hits" size="small" variant="outlined" />
+              </Tooltip>
+            )}
+            {stats && stats.shadowedCount > 0 && (
+              <Tooltip
+                title={`Matched ${stats.shadowedCount} transaction${
+                  stats.shadowedCount !== 1 ? 's' : ''
+                } after higher priority rules had already set its fields`}
+              >
+                <Chip
+                  icon={<WarningIcon />}
+                  label={
+                    shadowedBy.length > 0
+                      ? `Shadowed by ${shadowedBy.join(', ')}`
+                      : 'Shadowed'
+                  }
+                  size="small"
+                  color="warning"
+                  variant={stats.status === 'shadowed' ? 'filled' : 'outlined'}
+                />
+              </Tooltip>
+            )}
           </Box>
         }
         secondary={
@@ -186,11 +251,26 @@ export const BankAccountRules: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [rules, setRules] = useState<MatchingRule[]>([]);
   const [properties, setProperties] = useState<Property[]>([]);
+  const [categories, setCategories] = useState<TransactionCategory[]>([]);
+  const [ruleStats, setRuleStats] = useState<RuleHitStats[]>([]);
 
   // Editor state
   const [editorOpen, setEditorOpen] = useState(false);
   const [editingRule, setEditingRule] = useState<MatchingRule | null>(null);
   const [editorLoading, setEditorLoading] = useState(false);
+  // A new rule started from a suggestion
+  const [draftRule, setDraftRule] = useState<Partial<RuleData> | null>(null);
+
+  // Suggestions learned from manual approvals
+  const [suggestions, setSuggestions] = useState<RuleSuggestion[]>([]);
+  const [suggestionLoading, setSuggestionLoading] = useState<string | null>(null);
+
+  // Rule impact preview state
+  const [impactDialogOpen, setImpactDialogOpen] = useState(false);
+  const [impactRules, setImpactRules] = useState<ProposedMatchingRule[]>([]);
+  const [impact, setImpact] = useState<RuleImpactPreview | null>(null);
+  const [impactLoading, setImpactLoading] = useState(false);
+  const [selectedChanges, setSelectedChanges] = useState<Set<string>>(new Set());
 
   // Delete confirmation state
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -205,10 +285,14 @@ export const BankAccountRules: React.FC = () => {
     counterpartyName: '',
     merchant: '',
     reference: '',
+    category: '',
+    transactionDate: new Date().toISOString().slice(0, 10),
   });
   const [testResult, setTestResult] = useState<any>(null);
   const [testLoading, setTestLoading] = useState(false);
 
+  const ruleNames = new Map(rules.map((rule) => [rule.id, rule.name]));
+
   const sensors = useSensors(
     useSensor(PointerSensor),
     useSensor(KeyboardSensor, {
@@ -219,7 +303,9 @@ export const BankAccountRules: React.FC = () => {
   useEffect(() => {
     if (accountId) {
       fetchRules();
+      fetchSuggestions();
       fetchProperties();
+      fetchCategories();
     }
   }, [accountId]);
 
@@ -231,6 +317,7 @@ export const BankAccountRules: React.FC = () => {
       setError(null);
       const fetchedRules = await matchingRulesService.getRules(accountId);
       setRules(fetchedRules);
+      fetchStats();
     } catch (err) {
       console.error('Error fetching rules:', err);
       const errorMessage =
@@ -242,6 +329,28 @@ export const BankAccountRules: React.FC = () => {
     }
   };
 
+  const fetchStats = async () => {
+    if (!accountId) return;
+
+    try {
+      setRuleStats(await matchingRulesService.getRuleStats(accountId));
+    } catch (err) {
+      console.error('Error fetching rule stats:', err);
+      // Stats are optional, just log it
+    }
+  };
+
+  const fetchSuggestions = async () => {
+    if (!accountId) return;
+
+    try {
+      setSuggestions(await matchingRulesService.getSuggestions(accountId));
+    } catch (err) {
+      console.error('Error fetching rule suggestions:', err);
+      // Suggestions are optional, just log it
+    }
+  };
+
   const fetchProperties = async () => {
     try {
       const fetchedProperties = await propertiesService.getProperties();
@@ -252,6 +361,16 @@ export const BankAccountRules: React.FC = () => {
     }
   };
 
+  const fetchCategories = async () => {
+    try {
+      const fetchedCategories = await transactionCategoriesService.getCategories();
+      setCategories(fetchedCategories);
+    } catch (err) {
+      console.error('Error fetching categories:', err);
+      // Don't show error to user, just log it
+    }
+  };
+
   const handleDragEnd = async (event: DragEndEvent) => {
     const { active, over } = event;
 
@@ -281,9 +400,67 @@ export const BankAccountRules: React.FC = () => {
 
   const handleCreateRule = () => {
     setEditingRule(null);
+    setDraftRule(null);
+    setEditorOpen(true);
+  };
+
+  const suggestionToRule = (suggestion: RuleSuggestion) => ({
+    name: suggestion.name,
+    enabled: true,
+    conditions: suggestion.conditions,
+    propertyId: suggestion.propertyId,
+    type: suggestion.type,
+    category: suggestion.category,
+  });
+
+  const handleAcceptSuggestion = async (suggestion: RuleSuggestion) => {
+    if (!accountId) return;
+
+    try {
+      setSuggestionLoading(suggestion.key);
+      const rule = suggestionToRule(suggestion);
+      const response = await matchingRulesService.createRule(accountId, {
+        ...rule,
+        conditions: JSON.stringify(rule.conditions),
+      });
+      toast.success(
+        `Rule created from suggestion. ${response.reprocessing.approved} pending transactions auto-approved.`
+      );
+      fetchRules();
+      fetchSuggestions();
+    } catch (err) {
+      console.error('Error accepting rule suggestion:', err);
+      const errorMessage =
+        err instanceof ApiError ? err.message : 'Failed to create rule';
+      toast.error(errorMessage);
+    } finally {
+      setSuggestionLoading(null);
+    }
+  };
+
+  const handleEditSuggestion = (suggestion: RuleSuggestion) => {
+    setEditingRule(null);
+    setDraftRule(suggestionToRule(suggestion));
     setEditorOpen(true);
   };
 
+  const handleDismissSuggestion = async (suggestion: RuleSuggestion) => {
+    if (!accountId) return;
+
+    try {
+      setSuggestionLoading(suggestion.key);
+      await matchingRulesService.dismissSuggestion(accountId, suggestion.key);
+      setSuggestions((current) => current.filter((s) => s.key !== suggestion.key));
+    } catch (err) {
+      console.error('Error dismissing rule suggestion:', err);
+      const errorMessage =
+        err instanceof ApiError ? err.message : 'Failed to dismiss suggestion';
+      toast.error(errorMessage);
+    } finally {
+      setSuggestionLoading(null);
+    }
+  };
+
   const handleEditRule = (rule: MatchingRule) => {
     setEditingRule(rule);
     setEditorOpen(true);
@@ -314,20 +491,148 @@ export const BankAccountRules: React.FC = () => {
     }
   };
 
+  const toRuleRequest = (data: RuleData): CreateMatchingRuleRequest => ({
+    name: data.name,
+    enabled: data.enabled,
+    conditions: JSON.stringify(data.conditions),
+    propertyId: data.propertyId,
+    type: data.type,
+    category: data.category,
+    leaseId: data.leaseId,
+    paidByUserId: data.paidByUserId,
+    splits: data.splits,
+  });
+
+  // The account's saved rules, in priority order; global rules are added by the server
+  const savedRuleSet = (): ProposedMatchingRule[] =>
+    rules
+      .filter((rule) => rule.bankAccountId !== null)
+      .map((rule) => ({
+        id: rule.id,
+        name: rule.name,
+        enabled: rule.enabled,
+        conditions: rule.conditions,
+        propertyId: rule.propertyId,
+        type: rule.type,
+        category: rule.category,
+        leaseId: rule.leaseId,
+        paidByUserId: rule.paidByUserId,
+        splits: rule.splits.length > 0 ? rule.splits : null,
+      }));
+
+  const runPreview = async (proposedRules: ProposedMatchingRule[]) => {
+    if (!accountId) return;
+
+    try {
+      setImpactLoading(true);
+      const preview = await matchingRulesService.previewRules(accountId, proposedRules);
+      setImpactRules(proposedRules);
+      setImpact(preview);
+      setSelectedChanges(new Set());
+      setImpactDialogOpen(true);
+    } catch (err) {
+      console.error('Error previewing rules:', err);
+      const errorMessage =
+        err instanceof ApiError ? err.message : 'Failed to preview rules';
+      toast.error(errorMessage);
+    } finally {
+      setImpactLoading(false);
+    }
+  };
+
+  const handlePreviewRules = () => runPreview(savedRuleSet());
+
+  // Preview the rule set as it would be with the editor's rule saved
+  const handlePreviewRule = (data: RuleData) => {
+    const proposedRules = savedRuleSet();
+
+    if (editingRule) {
+      runPreview(
+        proposedRules.map((rule) =>
+          rule.id === editingRule.id ? { id: rule.id, ...toRuleRequest(data) } : rule
+        )
+      );
+    } else {
+      runPreview([...proposedRules, toRuleRequest(data)]);
+    }
+  };
+
+  const handleToggleChange = (bankTransactionId: string) => {
+    setSelectedChanges((current) => {
+      const next = new Set(current);
+      if (next.has(bankTransactionId)) {
+        next.delete(bankTransactionId);
+      } else {
+        next.add(bankTransactionId);
+      }
+      return next;
+    });
+  };
+
+  const handleSelectAllChanges = (event: React.ChangeEvent<HTMLInputElement>) => {
+    if (event.target.checked && impact) {
+      setSelectedChanges(
+        new Set(
+          impact.changes
+            .filter((change) => !change.locked)
+            .map((change) => change.bankTransactionId)
+        )
+      );
+    } else {
+      setSelectedChanges(new Set());
+    }
+  };
+
+  const handleApplyChanges = async () => {
+    if (!accountId || selectedChanges.size === 0) return;
+
+    try {
+      setImpactLoading(true);
+      const result = await matchingRulesService.applyRuleChanges(
+        accountId,
+        impactRules,
+        [...selectedChanges]
+      );
+      toast.success(`${result.applied} changes applied`);
+      if (result.skipped.length > 0) {
+        toast.warning(`${result.skipped.length} skipped: ${result.skipped[0].error}`);
+      }
+
+      const preview = await matchingRulesService.previewRules(accountId, impactRules);
+      setImpact(preview);
+      setSelectedChanges(new Set());
+    } catch (err) {
+      console.error('Error applying rule changes:', err);
+      const errorMessage =
+        err instanceof ApiError ? err.message : 'Failed to apply changes';
+      toast.error(errorMessage);
+    } finally {
+      setImpactLoading(false);
+    }
+  };
+
+  const formatAmount = (amount: number) => {
+    const formatted = new Intl.NumberFormat('en-GB', {
+      style: 'currency',
+      currency: 'GBP',
+    }).format(Math.abs(amount / 100)); // Convert from pence to pounds
+    return amount < 0 ? `-${formatted}` : formatted;
+  };
+
+  const formatOutcome = (outcome: RuleOutcome) =>
+    [
+      outcome.propertyName ?? (outcome.propertyId ? 'Unknown property' : 'No property'),
+      outcome.type === 'INCOME' ? 'Income' : outcome.type === 'EXPENSE' ? 'Expense' : 'No type',
+      outcome.category ?? 'No category',
+    ].join(' / ');
+
   const handleSaveRule = async (data: RuleData) => {
     if (!accountId) return;
 
     try {
       setEditorLoading(true);
 
-      const requestData = {
-        name: data.name,
-        enabled: data.enabled,
-        conditions: JSON.stringify(data.conditions),
-        propertyId: data.propertyId,
-        type: data.type,
-        category: data.category,
-      };
+      const requestData = toRuleRequest(data);
 
       if (editingRule) {
         // Update existing rule
@@ -351,7 +656,9 @@ export const BankAccountRules: React.FC = () => {
 
       setEditorOpen(false);
       setEditingRule(null);
+      setDraftRule(null);
       fetchRules();
+      fetchSuggestions();
     } catch (err) {
       console.error('Error saving rule:', err);
       const errorMessage =
@@ -377,7 +684,10 @@ export const BankAccountRules: React.FC = () => {
 
     try {
       setTestLoading(true);
-      const result = await matchingRulesService.testRule(editingRule.id, testData);
+      const result = await matchingRulesService.testRule(editingRule.id, {
+        ...testData,
+        transactionDate: testData.transactionDate || undefined,
+      });
       setTestResult(result);
     } catch (err) {
       console.error('Error testing rule:', err);
@@ -392,6 +702,7 @@ export const BankAccountRules: React.FC = () => {
   const handleEditorCancel = () => {
     setEditorOpen(false);
     setEditingRule(null);
+    setDraftRule(null);
   };
 
   if (loading) {
@@ -450,14 +761,24 @@ export const BankAccountRules: React.FC = () => {
                 Create rules to automatically categorize and assign transactions.
                 Rules are evaluated in priority order (drag to reorder).
               </Typography>
-              <Button
-                variant="contained"
-                color="primary"
-                startIcon={<AddIcon />}
-                onClick={handleCreateRule}
-              >
-                Create Rule
-              </Button>
+              <Box sx={{ display: 'flex', gap: 2 }}>
+                <Button
+                  variant="outlined"
+                  startIcon={<PreviewIcon />}
+                  onClick={handlePreviewRules}
+                  disabled={impactLoading}
+                >
+                  Preview Impact
+                </Button>
+                <Button
+                  variant="contained"
+                  color="primary"
+                  startIcon={<AddIcon />}
+                  onClick={handleCreateRule}
+                >
+                  Create Rule
+                </Button>
+              </Box>
             </Box>
 
             {rules.length === 0 ? (
@@ -494,6 +815,8 @@ export const BankAccountRules: React.FC = () => {
                           rule={rule}
                           onEdit={handleEditRule}
                           onDelete={handleDeleteClick}
+                          stats={ruleStats.find((s) => s.ruleId === rule.id)}
+                          ruleNames={ruleNames}
                         />
                       ))}
                     </List>
@@ -501,6 +824,88 @@ export const BankAccountRules: React.FC = () => {
                 </DndContext>
               </Paper>
             )}
+
+            {suggestions.length > 0 && (
+              <Paper sx={{ p: 2, mt: 3 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                  <SuggestionIcon color="primary" />
+                  <Typography variant="h6">Suggested Rules</Typography>
+                </Box>
+                <Typography variant="body2" color="text.secondary">
+                  Learned from transactions you approved by hand.
+                </Typography>
+                <List>
+                  {suggestions.map((suggestion) => (
+                    <ListItem
+                      key={suggestion.key}
+                      divider
+                      secondaryAction={
+                        <Box sx={{ display: 'flex', gap: 1 }}>
+                          <Tooltip title="Create this rule">
+                            <span>
+                              <IconButton
+                                color="success"
+                                onClick={() => handleAcceptSuggestion(suggestion)}
+                                disabled={suggestionLoading !== null}
+                              >
+                                <CheckIcon />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                          <Tooltip title="Edit before creating">
+                            <span>
+                              <IconButton
+                                onClick={() => handleEditSuggestion(suggestion)}
+                                disabled={suggestionLoading !== null}
+                              >
+                                <EditIcon />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                          <Tooltip title="Dismiss">
+                            <span>
+                              <IconButton
+                                onClick={() => handleDismissSuggestion(suggestion)}
+                                disabled={suggestionLoading !== null}
+                              >
+                                <CloseIcon />
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                        </Box>
+                      }
+                    >
+                      <ListItemText
+                        primary={suggestion.name}
+                        secondary={
+                          <Box component="span" sx={{ display: 'flex', flexDirection: 'column', gap: 0.5, mt: 0.5 }}>
+                            <Box component="span" sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                              <Chip label={suggestion.propertyName} size="small" />
+                              <Chip
+                                label={suggestion.type === 'INCOME' ? 'Income' : 'Expense'}
+                                size="small"
+                                color={suggestion.type === 'INCOME' ? 'success' : 'warning'}
+                              />
+                              <Chip label={suggestion.category} size="small" variant="outlined" />
+                              <Chip
+                                label={`${suggestion.hitCount} approvals · ${Math.round(suggestion.accuracy * 100)}% accurate`}
+                                size="small"
+                                variant="outlined"
+                              />
+                            </Box>
+                            {suggestion.examples.length > 0 && (
+                              <Typography component="span" variant="caption" color="text.secondary">
+                                e.g. {suggestion.examples.join(', ')}
+                              </Typography>
+                            )}
+                          </Box>
+                        }
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              </Paper>
+            )}
           </>
         ) : (
           <RuleEditor
@@ -513,18 +918,122 @@ export const BankAccountRules: React.FC = () => {
                     propertyId: editingRule.propertyId,
                     type: editingRule.type,
                     category: editingRule.category,
+                    leaseId: editingRule.leaseId,
+                    paidByUserId: editingRule.paidByUserId,
+                    splits: editingRule.splits,
                   }
-                : undefined
+                : draftRule ?? undefined
             }
             onSave={handleSaveRule}
             onCancel={handleEditorCancel}
             onTest={editingRule ? handleTestRule : undefined}
-            loading={editorLoading}
+            onPreview={handlePreviewRule}
+            loading={editorLoading || impactLoading}
             properties={properties.map((p) => ({ id: p.id, name: p.name }))}
+            categories={categories.map((c) => ({ name: c.name, type: c.type }))}
           />
         )}
       </Box>
 
+      {/* Rule Impact Dialog */}
+      <Dialog
+        open={impactDialogOpen}
+        onClose={() => !impactLoading && setImpactDialogOpen(false)}
+        maxWidth="lg"
+        fullWidth
+      >
+        <DialogTitle>Rule Impact</DialogTitle>
+        <DialogContent>
+          {impact && (
+            <>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {impact.evaluated} transactions checked; {impact.changes.length} would be
+                posted differently. Nothing changes until you apply the selected changes.
+              </Typography>
+              {impact.changes.length > 0 && (
+                <TableContainer>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell padding="checkbox">
+                          <Checkbox
+                            indeterminate={
+                              selectedChanges.size > 0 &&
+                              selectedChanges.size < impact.changes.filter((change) => !change.locked).length
+                            }
+                            checked={
+                              selectedChanges.size > 0 &&
+                              selectedChanges.size === impact.changes.filter((change) => !change.locked).length
+                            }
+                            onChange={handleSelectAllChanges}
+                          />
+                        </TableCell>
+                        <TableCell>Date</TableCell>
+                        <TableCell>Description</TableCell>
+                        <TableCell align="right">Amount</TableCell>
+                        <TableCell>Status</TableCell>
+                        <TableCell>Currently</TableCell>
+                        <TableCell>Would Become</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {impact.changes.map((change) => (
+                        <TableRow key={change.bankTransactionId} hover>
+                          <TableCell padding="checkbox">
+                            {change.locked ? (
+                              <Tooltip title="In a locked reconciliation period">
+                                <LockIcon fontSize="small" color="disabled" />
+                              </Tooltip>
+                            ) : (
+                              <Checkbox
+                                checked={selectedChanges.has(change.bankTransactionId)}
+                                onChange={() => handleToggleChange(change.bankTransactionId)}
+                              />
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {new Date(change.transactionDate).toLocaleDateString('en-GB')}
+                          </TableCell>
+                          <TableCell>{change.description}</TableCell>
+                          <TableCell align="right">{formatAmount(change.amount)}</TableCell>
+                          <TableCell>
+                            <Chip
+                              label={change.source === 'transaction' ? 'Ledger' : 'Pending'}
+                              size="small"
+                              variant="outlined"
+                            />
+                          </TableCell>
+                          <TableCell>{formatOutcome(change.current)}</TableCell>
+                          <TableCell sx={{ fontWeight: 'bold' }}>
+                            {formatOutcome(change.proposed)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              )}
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setImpactDialogOpen(false)} disabled={impactLoading}>
+            Close
+          </Button>
+          <Button
+            onClick={handleApplyChanges}
+            variant="contained"
+            disabled={impactLoading || selectedChanges.size === 0}
+          >
+            {impactLoading ? (
+              <CircularProgress size={24} />
+            ) : (
+              `Apply Selected (${selectedChanges.size})`
+            )}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog
         open={deleteDialogOpen}
@@ -601,6 +1110,20 @@ export const BankAccountRules: React.FC = () => {
               onChange={(e) => setTestData({ ...testData, reference: e.target.value })}
               fullWidth
             />
+            <TextField
+              label="Bank Category"
+              value={testData.category}
+              onChange={(e) => setTestData({ ...testData, category: e.target.value })}
+              fullWidth
+            />
+            <TextField
+              label="Transaction Date"
+              type="date"
+              value={testData.transactionDate}
+              onChange={(e) => setTestData({ ...testData, transactionDate: e.target.value })}
+              InputLabelProps={{ shrink: true }}
+              fullWidth
+            />
 
             {testResult && (
               <>
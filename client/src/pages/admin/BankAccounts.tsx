@@ -15,10 +15,13 @@ import {
   FormControl,
   InputLabel,
   FormHelperText,
+  TextField,
+  Stack,
 } from '@mui/material';
 import {
   Add as AddIcon,
   AccountBalance as BankIcon,
+  UploadFile as UploadFileIcon,
 } from '@mui/icons-material';
 import { bankService, BankAccount } from '../../services/api/bank.service';
 import { ApiError } from '../../types/api.types';
@@ -26,6 +29,8 @@ import { useToast } from '../../contexts/ToastContext';
 import BankAccountsList from '../../components/bank/BankAccountsList';
 import { ImportProgressDialog } from '../../components/bank/ImportProgressDialog';
 import { WebhookStatusWidget } from '../../components/bank/WebhookStatusWidget';
+import { ImportStatementDialog } from '../../components/bank/ImportStatementDialog';
+import { ReconciliationDialog } from '../../components/bank/ReconciliationDialog';
 
 export const BankAccounts: React.FC = () => {
   const toast = useToast();
@@ -43,6 +48,17 @@ export const BankAccounts: React.FC = () => {
   const [importProgressOpen, setImportProgressOpen] = useState(false);
   const [importSyncLogId, setImportSyncLogId] = useState<string>('');
 
+  // Statement account dialog state
+  const [statementAccountDialogOpen, setStatementAccountDialogOpen] = useState(false);
+  const [statementAccountName, setStatementAccountName] = useState('');
+  const [statementAccountLoading, setStatementAccountLoading] = useState(false);
+
+  // Statement import dialog state
+  const [importStatementAccount, setImportStatementAccount] = useState<BankAccount | null>(null);
+
+  // Reconciliation dialog state
+  const [reconcileAccount, setReconcileAccount] = useState<BankAccount | null>(null);
+
   useEffect(() => {
     fetchAccounts();
 
@@ -125,6 +141,34 @@ export const BankAccounts: React.FC = () => {
     }
   };
 
+  const handleOpenStatementAccountDialog = () => {
+    setStatementAccountName('');
+    setStatementAccountDialogOpen(true);
+  };
+
+  const handleCreateStatementAccount = async () => {
+    if (!statementAccountName.trim()) {
+      toast.error('Account name is required');
+      return;
+    }
+
+    try {
+      setStatementAccountLoading(true);
+      const account = await bankService.createImportAccount(statementAccountName.trim());
+      toast.success('Statement account added');
+      setStatementAccountDialogOpen(false);
+      await fetchAccounts();
+      // Go straight to importing the first statement
+      setImportStatementAccount(account);
+    } catch (err) {
+      console.error('Error creating statement account:', err);
+      const errorMessage = err instanceof ApiError ? err.message : 'Failed to add statement account';
+      toast.error(errorMessage);
+    } finally {
+      setStatementAccountLoading(false);
+    }
+  };
+
   if (loading) {
     return (
       <Container maxWidth="lg">
@@ -155,14 +199,23 @@ export const BankAccounts: React.FC = () => {
           <Typography variant="h4" component="h1">
             Bank Accounts
           </Typography>
-          <Button
-            variant="contained"
-            color="primary"
-            startIcon={<AddIcon />}
-            onClick={handleOpenConnectDialog}
-          >
-            Connect New Account
-          </Button>
+          <Stack direction="row" spacing={2}>
+            <Button
+              variant="outlined"
+              startIcon={<UploadFileIcon />}
+              onClick={handleOpenStatementAccountDialog}
+            >
+              Add Statement Account
+            </Button>
+            <Button
+              variant="contained"
+              color="primary"
+              startIcon={<AddIcon />}
+              onClick={handleOpenConnectDialog}
+            >
+              Connect New Account
+            </Button>
+          </Stack>
         </Box>
 
         {/* Webhook Status Widget - Only show if there are accounts */}
@@ -175,7 +228,8 @@ export const BankAccounts: React.FC = () => {
               No bank accounts connected
             </Typography>
             <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
-              Connect your Monzo account to automatically import and categorize transactions.
+              Connect your Monzo account to automatically import and categorize transactions,
+              or add an account for other banks and upload CSV, OFX or QIF statements.
             </Typography>
             <Button
               variant="contained"
@@ -186,7 +240,11 @@ export const BankAccounts: React.FC = () => {
             </Button>
           </Box>
         ) : (
-          <BankAccountsList accounts={accounts} />
+          <BankAccountsList
+            accounts={accounts}
+            onImportStatement={setImportStatementAccount}
+            onReconcile={setReconcileAccount}
+          />
         )}
       </Box>
 
@@ -240,6 +298,55 @@ export const BankAccounts: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      {/* Add Statement Account Dialog */}
+      <Dialog
+        open={statementAccountDialogOpen}
+        onClose={() => setStatementAccountDialogOpen(false)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Add Statement Account</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <Typography variant="body2" color="text.secondary">
+              For banks without a direct connection. Transactions are added by uploading statements exported from online banking.
+            </Typography>
+            <TextField
+              label="Account Name"
+              placeholder="e.g. Barclays Current"
+              value={statementAccountName}
+              onChange={(e) => setStatementAccountName(e.target.value)}
+              required
+              fullWidth
+              autoFocus
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setStatementAccountDialogOpen(false)} color="inherit" disabled={statementAccountLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreateStatementAccount} variant="contained" disabled={statementAccountLoading}>
+            {statementAccountLoading ? <CircularProgress size={24} /> : 'Add Account'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Import Statement Dialog */}
+      <ImportStatementDialog
+        open={!!importStatementAccount}
+        account={importStatementAccount}
+        onClose={() => setImportStatementAccount(null)}
+        onImported={fetchAccounts}
+      />
+
+      {/* Reconciliation Dialog */}
+      <ReconciliationDialog
+        open={!!reconcileAccount}
+        account={reconcileAccount}
+        onClose={() => setReconcileAccount(null)}
+      />
+
       {/* Import Progress Dialog */}
       {importSyncLogId && (
         <ImportProgressDialog
@@ -28,6 +28,7 @@ import {
   DialogContent,
   DialogActions,
   DialogContentText,
+  IconButton,
 } from '@mui/material';
 import {
   CheckCircle as ApproveIcon,
@@ -35,31 +36,28 @@ import {
   AccountBalance as BankIcon,
   Delete as DeleteIcon,
   Edit as EditIcon,
+  Link as LinkIcon,
+  CallSplit as SplitIcon,
+  Add as AddIcon,
+  Close as RemoveIcon,
+  ContentCopy as DuplicateIcon,
 } from '@mui/icons-material';
 import { format } from 'date-fns';
 import {
   pendingTransactionsService,
   PendingTransaction,
+  MatchCandidate,
+  PossibleDuplicate,
+  ComparedBankTransaction,
 } from '../../services/api/pendingTransactions.service';
 import { bankService } from '../../services/api/bank.service';
-import { ApiError } from '../../types/api.types';
+import { transactionCategoriesService } from '../../services/api/transactionCategories.service';
+import { ApiError, TransactionCategory } from '../../types/api.types';
 import { useToast } from '../../contexts/ToastContext';
 import PropertySelector from '../../components/shared/PropertySelector';
 import { useProperties } from '../../contexts/PropertiesContext';
 
 const TRANSACTION_TYPES = ['Income', 'Expense'] as const;
-const INCOME_CATEGORIES = ['Rent', 'Security Deposit', 'Late Fee', 'Lease Fee'] as const;
-const EXPENSE_CATEGORIES = [
-  'Maintenance',
-  'Repair',
-  'Utilities',
-  'Insurance',
-  'Property Tax',
-  'Management Fee',
-  'Legal Fee',
-  'Transport',
-  'Other',
-] as const;
 
 interface BankAccount {
   id: string;
@@ -68,6 +66,26 @@ interface BankAccount {
   provider: string;
 }
 
+// A part in the split editor; the amount is entered in pounds
+interface SplitPartDraft {
+  propertyId: string;
+  type: string;
+  category: string;
+  amount: string;
+  description: string;
+}
+
+const emptySplitPart = (): SplitPartDraft => ({
+  propertyId: '',
+  type: '',
+  category: '',
+  amount: '',
+  description: '',
+});
+
+// Split amounts are entered in pounds and sent in pence, like the bank amount
+const toPence = (amount: string) => Math.round((parseFloat(amount) || 0) * 100);
+
 export const PendingTransactions: React.FC = () => {
   const toast = useToast();
   useProperties(); // Initialize properties context
@@ -76,6 +94,7 @@ export const PendingTransactions: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [pendingTransactions, setPendingTransactions] = useState<PendingTransaction[]>([]);
   const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [categories, setCategories] = useState<TransactionCategory[]>([]);
 
   // Filter states
   const [bankAccountFilter, setBankAccountFilter] = useState<string>('all');
@@ -96,6 +115,20 @@ export const PendingTransactions: React.FC = () => {
   const [bulkUpdateType, setBulkUpdateType] = useState<string>('');
   const [bulkUpdateCategory, setBulkUpdateCategory] = useState<string>('');
 
+  // Link to existing transaction
+  const [linkTarget, setLinkTarget] = useState<PendingTransaction | null>(null);
+  const [linkCandidates, setLinkCandidates] = useState<MatchCandidate[]>([]);
+  const [linkLoading, setLinkLoading] = useState(false);
+
+  // Split into several transactions
+  const [splitTarget, setSplitTarget] = useState<PendingTransaction | null>(null);
+  const [splitParts, setSplitParts] = useState<SplitPartDraft[]>([]);
+  const [splitSaving, setSplitSaving] = useState(false);
+
+  // Bank transactions held as possible duplicates
+  const [possibleDuplicates, setPossibleDuplicates] = useState<PossibleDuplicate[]>([]);
+  const [reviewingDuplicateId, setReviewingDuplicateId] = useState<string | null>(null);
+
   useEffect(() => {
     fetchData();
   }, [bankAccountFilter, reviewStatusFilter, searchQuery]);
@@ -111,13 +144,17 @@ export const PendingTransactions: React.FC = () => {
       if (reviewStatusFilter !== 'all') filters.reviewStatus = reviewStatusFilter;
       if (searchQuery) filters.search = searchQuery;
 
-      const [transactions, accounts] = await Promise.all([
+      const [transactions, duplicates, accounts, activeCategories] = await Promise.all([
         pendingTransactionsService.getPendingTransactions(filters),
+        pendingTransactionsService.getPossibleDuplicates(filters.bankAccountId),
         bankService.getBankAccounts(),
+        transactionCategoriesService.getCategories(),
       ]);
 
       setPendingTransactions(transactions);
+      setPossibleDuplicates(duplicates);
       setBankAccounts(accounts);
+      setCategories(activeCategories);
 
       // Clear selection if transactions list changes
       setSelectedIds(new Set());
@@ -201,10 +238,133 @@ export const PendingTransactions: React.FC = () => {
     }
   };
 
-  const getCategoriesForType = (type: string | null): readonly string[] => {
-    if (type === 'Income') return INCOME_CATEGORIES;
-    if (type === 'Expense') return EXPENSE_CATEGORIES;
-    return [];
+  const handleResolveFlag = async (tx: PendingTransaction) => {
+    try {
+      setSavingRows((prev) => ({ ...prev, [tx.id]: true }));
+
+      await pendingTransactionsService.resolveFlag(tx.id);
+      toast.success('Marked as re-reviewed');
+
+      await fetchData();
+    } catch (err) {
+      console.error('Error resolving flag:', err);
+      const errorMessage = err instanceof ApiError ? err.message : 'Failed to resolve flag';
+      toast.error(errorMessage);
+    } finally {
+      setSavingRows((prev) => ({ ...prev, [tx.id]: false }));
+    }
+  };
+
+  const handleOpenLink = async (tx: PendingTransaction) => {
+    setLinkTarget(tx);
+    setLinkCandidates([]);
+
+    try {
+      setLinkLoading(true);
+      setLinkCandidates(await pendingTransactionsService.getMatchCandidates(tx.id));
+    } catch (err) {
+      console.error('Error fetching matching transactions:', err);
+      const errorMessage = err instanceof ApiError ? err.message : 'Failed to find matching transactions';
+      toast.error(errorMessage);
+    } finally {
+      setLinkLoading(false);
+    }
+  };
+
+  const handleCloseLink = () => {
+    setLinkTarget(null);
+  };
+
+  const handleLink = async (candidate: MatchCandidate) => {
+    if (!linkTarget) return;
+
+    try {
+      setLinkLoading(true);
+
+      await pendingTransactionsService.linkToExisting(linkTarget.id, candidate.id);
+      toast.success('Linked to existing transaction');
+
+      handleCloseLink();
+      await fetchData();
+    } catch (err) {
+      console.error('Error linking transaction:', err);
+      const errorMessage = err instanceof ApiError ? err.message : 'Failed to link transaction';
+      toast.error(errorMessage);
+    } finally {
+      setLinkLoading(false);
+    }
+  };
+
+  const handleOpenSplit = (tx: PendingTransaction) => {
+    setSplitTarget(tx);
+    // Start from the row's coding, with the whole amount on the first part
+    setSplitParts([
+      {
+        propertyId: tx.propertyId ?? '',
+        type: tx.type ?? '',
+        category: tx.category ?? '',
+        amount: (Math.abs(tx.amount) / 100).toFixed(2),
+        description: '',
+      },
+      { ...emptySplitPart(), propertyId: tx.propertyId ?? '', type: tx.type ?? '' },
+    ]);
+  };
+
+  const handleCloseSplit = () => {
+    setSplitTarget(null);
+  };
+
+  const handleUpdateSplitPart = (index: number, field: keyof SplitPartDraft, value: string) => {
+    setSplitParts((parts) =>
+      parts.map((part, i) =>
+        i !== index
+          ? part
+          : // Changing the type clears a category that belonged to the old type
+            { ...part, [field]: value, ...(field === 'type' ? { category: '' } : {}) }
+      )
+    );
+  };
+
+  const splitRemaining = splitTarget
+    ? Math.abs(splitTarget.amount) - splitParts.reduce((total, part) => total + toPence(part.amount), 0)
+    : 0;
+
+  const isSplitComplete =
+    splitParts.length >= 2 &&
+    splitRemaining === 0 &&
+    splitParts.every((part) => part.propertyId && part.type && part.category && toPence(part.amount) > 0);
+
+  const handleSplit = async () => {
+    if (!splitTarget) return;
+
+    try {
+      setSplitSaving(true);
+
+      const result = await pendingTransactionsService.splitPendingTransaction(
+        splitTarget.id,
+        splitParts.map((part) => ({
+          propertyId: part.propertyId,
+          type: part.type as 'Income' | 'Expense',
+          category: part.category,
+          amount: toPence(part.amount),
+          ...(part.description.trim() ? { description: part.description.trim() } : {}),
+        }))
+      );
+      toast.success(result.message);
+
+      handleCloseSplit();
+      await fetchData();
+    } catch (err) {
+      console.error('Error splitting transaction:', err);
+      const errorMessage = err instanceof ApiError ? err.message : 'Failed to split transaction';
+      toast.error(errorMessage);
+    } finally {
+      setSplitSaving(false);
+    }
+  };
+
+  const getCategoriesForType = (type: string | null): string[] => {
+    return categories.filter((category) => category.type === type).map((category) => category.name);
   };
 
   const formatAmount = (amount: number, currency: string) => {
@@ -216,6 +376,55 @@ export const PendingTransactions: React.FC = () => {
     return amount < 0 ? `-${formatted}` : formatted;
   };
 
+  // Rows of the side-by-side comparison of a possible duplicate and the transaction it looks like
+  const comparisonRows = (tx: ComparedBankTransaction): Array<[string, string]> => [
+    ['Date', format(new Date(tx.transactionDate), 'dd/MM/yyyy')],
+    ['Amount', formatAmount(tx.amount, tx.currency)],
+    ['Description', tx.description],
+    ['Counterparty', tx.counterpartyName ?? '—'],
+    ['Reference', tx.reference ?? '—'],
+    ['Merchant', tx.merchant ?? '—'],
+    ['Bank ID', tx.externalId],
+    ['Imported', format(new Date(tx.importedAt), 'dd/MM/yyyy HH:mm')],
+  ];
+
+  const duplicateOfStatus = (duplicate: PossibleDuplicate): string => {
+    if (!duplicate.duplicateOf) return 'No longer stored';
+    if (duplicate.duplicateOf.transactionId) return 'In the ledger';
+    if (duplicate.duplicateOf.pendingTransactionId) return 'In the review queue';
+    if (duplicate.duplicateOf.duplicateStatus === 'possible') return 'Also a possible duplicate';
+    return 'Not in the ledger';
+  };
+
+  const handleReviewDuplicate = async (duplicate: PossibleDuplicate, action: 'keep' | 'discard') => {
+    try {
+      setReviewingDuplicateId(duplicate.id);
+
+      const result =
+        action === 'keep'
+          ? await pendingTransactionsService.keepPossibleDuplicate(duplicate.id)
+          : await pendingTransactionsService.discardPossibleDuplicate(duplicate.id);
+      toast.success(result.message);
+
+      // A kept transaction may now be in the pending list
+      await fetchData();
+    } catch (err) {
+      console.error('Error reviewing possible duplicate:', err);
+      const errorMessage = err instanceof ApiError ? err.message : 'Failed to review possible duplicate';
+      toast.error(errorMessage);
+    } finally {
+      setReviewingDuplicateId(null);
+    }
+  };
+
+  // Declined or reversed payments never moved money, so they can only be rejected
+  const reversalReason = (tx: PendingTransaction): string | null => {
+    if (!tx.bankTransaction.reversedAt) return null;
+    return tx.bankTransaction.declineReason
+      ? `Declined by the bank: ${tx.bankTransaction.declineReason}`
+      : 'Reversed by the bank';
+  };
+
   const isRowComplete = (tx: PendingTransaction): boolean => {
     return !!(tx.propertyId && tx.type && tx.category);
   };
@@ -416,12 +625,84 @@ export const PendingTransactions: React.FC = () => {
               >
                 <MenuItem value="pending">Pending Review</MenuItem>
                 <MenuItem value="reviewed">Reviewed</MenuItem>
+                <MenuItem value="flagged">Changed by Bank</MenuItem>
                 <MenuItem value="all">All</MenuItem>
               </Select>
             </FormControl>
           </Box>
         </Paper>
 
+        {/* Possible Duplicates */}
+        {possibleDuplicates.length > 0 && ['pending', 'all'].includes(reviewStatusFilter) && (
+          <Paper sx={{ p: 2, mb: 3 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <DuplicateIcon color="warning" />
+              <Typography variant="h6">Possible Duplicates ({possibleDuplicates.length})</Typography>
+            </Box>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              These bank transactions look like ones already imported. Keep a transaction that is a genuine
+              repeat payment, or discard one the bank sent twice.
+            </Typography>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+              {possibleDuplicates.map((duplicate) => {
+                const heldRows = comparisonRows(duplicate);
+                const originalRows = duplicate.duplicateOf ? comparisonRows(duplicate.duplicateOf) : [];
+
+                return (
+                  <Paper key={duplicate.id} variant="outlined">
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>{duplicate.bankAccount.accountName}</TableCell>
+                          <TableCell>New transaction</TableCell>
+                          <TableCell>
+                            Looks like <Chip label={duplicateOfStatus(duplicate)} size="small" sx={{ ml: 1 }} />
+                          </TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {heldRows.map(([label, value], index) => {
+                          const originalValue = originalRows[index]?.[1] ?? '—';
+
+                          return (
+                            <TableRow key={label}>
+                              <TableCell sx={{ color: 'text.secondary', width: 140 }}>{label}</TableCell>
+                              <TableCell sx={{ fontWeight: value !== originalValue ? 'bold' : 'normal' }}>
+                                {value}
+                              </TableCell>
+                              <TableCell>{originalValue}</TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                    <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, p: 1 }}>
+                      <Button
+                        size="small"
+                        color="error"
+                        startIcon={<DeleteIcon />}
+                        onClick={() => handleReviewDuplicate(duplicate, 'discard')}
+                        disabled={reviewingDuplicateId === duplicate.id}
+                      >
+                        Discard
+                      </Button>
+                      <Button
+                        size="small"
+                        variant="contained"
+                        startIcon={<ApproveIcon />}
+                        onClick={() => handleReviewDuplicate(duplicate, 'keep')}
+                        disabled={reviewingDuplicateId === duplicate.id}
+                      >
+                        Keep
+                      </Button>
+                    </Box>
+                  </Paper>
+                );
+              })}
+            </Box>
+          </Paper>
+        )}
+
         {/* Bulk Actions Toolbar */}
         {selectedIds.size > 0 && (
           <Paper sx={{ mb: 2 }}>
@@ -521,6 +802,34 @@ export const PendingTransactions: React.FC = () => {
                           {tx.bankTransaction.counterpartyName}
                         </Typography>
                       )}
+                      {tx.flagReason && (
+                        <Typography variant="caption" color="warning.main" display="block">
+                          {tx.flagReason}
+                        </Typography>
+                      )}
+                      {!tx.reviewedAt && reversalReason(tx) && (
+                        <Typography variant="caption" color="error.main" display="block">
+                          {reversalReason(tx)}
+                        </Typography>
+                      )}
+                      {tx.bankTransaction.ledgerTransactions.length > 1 && (
+                        <Box sx={{ mt: 0.5 }}>
+                          <Typography variant="caption" color="text.secondary" display="block">
+                            Split into {tx.bankTransaction.ledgerTransactions.length} transactions:
+                          </Typography>
+                          {tx.bankTransaction.ledgerTransactions.map((part) => (
+                            <Typography
+                              key={part.id}
+                              variant="caption"
+                              color="text.secondary"
+                              display="block"
+                            >
+                              {part.propertyName} · {part.category} ·{' '}
+                              {formatAmount(part.amount, tx.currency)}
+                            </Typography>
+                          ))}
+                        </Box>
+                      )}
                     </TableCell>
                     <TableCell align="right">
                       <Typography
@@ -587,19 +896,51 @@ export const PendingTransactions: React.FC = () => {
                       </FormControl>
                     </TableCell>
                     <TableCell align="center">
-                      {tx.reviewedAt ? (
-                        <Chip label="Reviewed" size="small" color="success" />
-                      ) : (
+                      {tx.flaggedAt ? (
                         <Button
-                          variant="contained"
-                          color="primary"
+                          variant="outlined"
+                          color="warning"
                           size="small"
-                          startIcon={<ApproveIcon />}
-                          onClick={() => handleApprove(tx)}
-                          disabled={!isRowComplete(tx) || savingRows[tx.id]}
+                          onClick={() => handleResolveFlag(tx)}
+                          disabled={savingRows[tx.id]}
                         >
-                          Approve
+                          Mark Re-reviewed
                         </Button>
+                      ) : tx.reviewedAt ? (
+                        <Chip label="Reviewed" size="small" color="success" />
+                      ) : tx.bankTransaction.reversedAt ? (
+                        <Chip label="Reversed" size="small" color="error" />
+                      ) : (
+                        <Box sx={{ display: 'flex', gap: 1, justifyContent: 'center' }}>
+                          <Button
+                            variant="contained"
+                            color="primary"
+                            size="small"
+                            startIcon={<ApproveIcon />}
+                            onClick={() => handleApprove(tx)}
+                            disabled={!isRowComplete(tx) || savingRows[tx.id]}
+                          >
+                            Approve
+                          </Button>
+                          <Button
+                            variant="outlined"
+                            size="small"
+                            startIcon={<LinkIcon />}
+                            onClick={() => handleOpenLink(tx)}
+                            disabled={savingRows[tx.id]}
+                          >
+                            Link
+                          </Button>
+                          <Button
+                            variant="outlined"
+                            size="small"
+                            startIcon={<SplitIcon />}
+                            onClick={() => handleOpenSplit(tx)}
+                            disabled={savingRows[tx.id]}
+                          >
+                            Split
+                          </Button>
+                        </Box>
                       )}
                     </TableCell>
                   </TableRow>
@@ -678,6 +1019,196 @@ export const PendingTransactions: React.FC = () => {
           </DialogActions>
         </Dialog>
 
+        {/* Link to Existing Transaction Dialog */}
+        <Dialog open={!!linkTarget} onClose={handleCloseLink} maxWidth="md" fullWidth>
+          <DialogTitle>Link to Existing Transaction</DialogTitle>
+          <DialogContent>
+            <DialogContentText sx={{ mb: 2 }}>
+              If this payment was already entered by hand, link the bank transaction to it instead
+              of approving a duplicate.
+            </DialogContentText>
+
+            {linkLoading && linkCandidates.length === 0 ? (
+              <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+                <CircularProgress size={32} />
+              </Box>
+            ) : linkCandidates.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No manual transactions with the same amount were found near this date
+                {linkTarget?.propertyId ? ' for the selected property' : ''}.
+              </Typography>
+            ) : (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Description</TableCell>
+                    <TableCell>Property</TableCell>
+                    <TableCell>Category</TableCell>
+                    <TableCell align="right">Amount</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {linkCandidates.map((candidate) => (
+                    <TableRow key={candidate.id}>
+                      <TableCell>
+                        {format(new Date(candidate.transactionDate), 'dd/MM/yyyy')}
+                        {candidate.daysApart > 0 && (
+                          <Typography variant="caption" color="text.secondary" display="block">
+                            {candidate.daysApart} day(s) apart
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{candidate.description}</TableCell>
+                      <TableCell>{candidate.propertyName}</TableCell>
+                      <TableCell>{candidate.category}</TableCell>
+                      <TableCell align="right">
+                        {new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP' }).format(
+                          candidate.amount
+                        )}
+                      </TableCell>
+                      <TableCell align="right">
+                        <Button
+                          size="small"
+                          variant="contained"
+                          onClick={() => handleLink(candidate)}
+                          disabled={linkLoading}
+                        >
+                          Link
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={handleCloseLink} disabled={linkLoading}>
+              Cancel
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* Split Transaction Dialog */}
+        <Dialog open={!!splitTarget} onClose={handleCloseSplit} maxWidth="lg" fullWidth>
+          <DialogTitle>Split Transaction</DialogTitle>
+          <DialogContent>
+            <DialogContentText sx={{ mb: 2 }}>
+              Approve {splitTarget?.description} (
+              {splitTarget && formatAmount(splitTarget.amount, splitTarget.currency)}) as several
+              transactions. The parts must add up to the bank amount.
+            </DialogContentText>
+
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+              {splitParts.map((part, index) => (
+                <Box key={index} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                  <Box sx={{ flex: 2 }}>
+                    <PropertySelector
+                      value={part.propertyId}
+                      onChange={(propertyId) => handleUpdateSplitPart(index, 'propertyId', propertyId)}
+                      includeAllOption={false}
+                    />
+                  </Box>
+                  <FormControl size="small" sx={{ flex: 1 }}>
+                    <Select
+                      value={part.type}
+                      onChange={(e: SelectChangeEvent) => handleUpdateSplitPart(index, 'type', e.target.value)}
+                      displayEmpty
+                    >
+                      <MenuItem value="">
+                        <em>Select type</em>
+                      </MenuItem>
+                      {TRANSACTION_TYPES.map((type) => (
+                        <MenuItem key={type} value={type}>
+                          {type}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <FormControl size="small" sx={{ flex: 1.5 }}>
+                    <Select
+                      value={part.category}
+                      onChange={(e: SelectChangeEvent) =>
+                        handleUpdateSplitPart(index, 'category', e.target.value)
+                      }
+                      disabled={!part.type}
+                      displayEmpty
+                    >
+                      <MenuItem value="">
+                        <em>Select category</em>
+                      </MenuItem>
+                      {getCategoriesForType(part.type).map((category) => (
+                        <MenuItem key={category} value={category}>
+                          {category}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                  <TextField
+                    size="small"
+                    type="number"
+                    label="Amount"
+                    value={part.amount}
+                    onChange={(e) => handleUpdateSplitPart(index, 'amount', e.target.value)}
+                    InputProps={{ startAdornment: <InputAdornment position="start">£</InputAdornment> }}
+                    inputProps={{ min: 0, step: 0.01 }}
+                    sx={{ flex: 1 }}
+                  />
+                  <TextField
+                    size="small"
+                    label="Description (optional)"
+                    value={part.description}
+                    onChange={(e) => handleUpdateSplitPart(index, 'description', e.target.value)}
+                    sx={{ flex: 2 }}
+                  />
+                  <IconButton
+                    size="small"
+                    onClick={() => setSplitParts((parts) => parts.filter((_, i) => i !== index))}
+                    disabled={splitParts.length <= 2}
+                  >
+                    <RemoveIcon fontSize="small" />
+                  </IconButton>
+                </Box>
+              ))}
+            </Box>
+
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 2 }}>
+              <Button
+                size="small"
+                startIcon={<AddIcon />}
+                onClick={() => setSplitParts((parts) => [...parts, emptySplitPart()])}
+              >
+                Add Part
+              </Button>
+              <Typography
+                variant="body2"
+                color={splitRemaining === 0 ? 'success.main' : 'error.main'}
+              >
+                {splitRemaining === 0
+                  ? 'Parts add up to the bank amount'
+                  : `${splitRemaining > 0 ? 'Remaining' : 'Over by'}: ${formatAmount(
+                      Math.abs(splitRemaining),
+                      splitTarget?.currency ?? 'GBP'
+                    )}`}
+              </Typography>
+            </Box>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={handleCloseSplit} disabled={splitSaving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSplit}
+              variant="contained"
+              disabled={!isSplitComplete || splitSaving}
+            >
+              {splitSaving ? 'Splitting...' : 'Approve Split'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+
         {/* Bulk Reject Confirmation Dialog */}
         <Dialog open={bulkRejectDialogOpen} onClose={handleCloseBulkReject}>
           <DialogTitle>Reject Transactions</DialogTitle>
@@ -0,0 +1,336 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Container,
+  Typography,
+  Box,
+  Paper,
+  Button,
+  CircularProgress,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Chip,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  FormHelperText,
+  SelectChangeEvent,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Archive as ArchiveIcon,
+  Unarchive as UnarchiveIcon,
+} from '@mui/icons-material';
+import { transactionCategoriesService } from '../../services/api/transactionCategories.service';
+import { ApiError, TransactionCategory } from '../../types/api.types';
+import { useToast } from '../../contexts/ToastContext';
+
+const TRANSACTION_TYPES = ['Income', 'Expense'] as const;
+
+// Categories the server writes itself; they cannot be renamed or archived
+const PROTECTED_CATEGORIES = ['Rent', 'Security Deposit'];
+
+interface CategoryFormData {
+  name: string;
+  type: 'Income' | 'Expense';
+  parentId: string;
+}
+
+const initialFormData: CategoryFormData = {
+  name: '',
+  type: 'Income',
+  parentId: '',
+};
+
+// Top-level categories of a type in display order, each followed by its subcategories
+const orderCategories = (categories: TransactionCategory[], type: 'Income' | 'Expense'): TransactionCategory[] => {
+  const ofType = categories.filter((c) => c.type === type);
+  return ofType
+    .filter((c) => !c.parentId || !ofType.some((parent) => parent.id === c.parentId))
+    .flatMap((parent) => [parent, ...ofType.filter((c) => c.parentId === parent.id)]);
+};
+
+export const TransactionCategories: React.FC = () => {
+  const toast = useToast();
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [categories, setCategories] = useState<TransactionCategory[]>([]);
+
+  // Create/edit dialog state
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<TransactionCategory | null>(null);
+  const [formData, setFormData] = useState<CategoryFormData>(initialFormData);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saveLoading, setSaveLoading] = useState(false);
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const fetchCategories = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const fetchedCategories = await transactionCategoriesService.getCategories({ include_archived: true });
+      setCategories(fetchedCategories);
+    } catch (err) {
+      console.error('Error fetching categories:', err);
+      const errorMessage = err instanceof ApiError ? err.message : 'Failed to load categories';
+      setError(errorMessage);
+      toast.error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenCreate = (type: 'Income' | 'Expense') => {
+    setEditingCategory(null);
+    setFormData({ ...initialFormData, type });
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const handleOpenEdit = (category: TransactionCategory) => {
+    setEditingCategory(category);
+    setFormData({
+      name: category.name,
+      type: category.type,
+      parentId: category.parentId || '',
+    });
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const handleCloseDialog = () => {
+    setDialogOpen(false);
+  };
+
+  const handleSave = async () => {
+    const name = formData.name.trim();
+    if (!name) {
+      setFormError('Category name is required');
+      return;
+    }
+
+    try {
+      setSaveLoading(true);
+
+      if (editingCategory) {
+        await transactionCategoriesService.updateCategory(editingCategory.id, {
+          name,
+          parentId: formData.parentId || null,
+        });
+        toast.success(
+          name !== editingCategory.name
+            ? 'Category renamed. Existing transactions and rules now use the new name'
+            : 'Category updated successfully'
+        );
+      } else {
+        await transactionCategoriesService.createCategory({
+          name,
+          type: formData.type,
+          parentId: formData.parentId || null,
+        });
+        toast.success('Category created successfully');
+      }
+
+      setDialogOpen(false);
+      await fetchCategories();
+    } catch (err) {
+      console.error('Error saving category:', err);
+      setFormError(err instanceof ApiError ? err.message : 'Failed to save category');
+    } finally {
+      setSaveLoading(false);
+    }
+  };
+
+  const handleToggleArchived = async (category: TransactionCategory) => {
+    try {
+      await transactionCategoriesService.updateCategory(category.id, {
+        isArchived: !category.isArchived,
+      });
+      toast.success(category.isArchived ? 'Category restored' : 'Category archived');
+      await fetchCategories();
+    } catch (err) {
+      console.error('Error archiving category:', err);
+      toast.error(err instanceof ApiError ? err.message : 'Failed to update category');
+    }
+  };
+
+  // Categories nest one level deep, so only top-level categories of the same type can be parents
+  const parentOptions = categories.filter(
+    (c) =>
+      c.type === formData.type &&
+      !c.parentId &&
+      !c.isArchived &&
+      c.id !== editingCategory?.id
+  );
+  const editingHasChildren = !!editingCategory && categories.some((c) => c.parentId === editingCategory.id);
+
+  const getParentName = (parentId: string | null) =>
+    categories.find((c) => c.id === parentId)?.name || '';
+
+  if (loading) {
+    return (
+      <Container maxWidth="lg">
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: 400 }}>
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  if (error) {
+    return (
+      <Container maxWidth="lg">
+        <Box sx={{ mb: 4 }}>
+          <Typography variant="h4" component="h1" gutterBottom>
+            Transaction Categories
+          </Typography>
+          <Alert severity="error">{error}</Alert>
+        </Box>
+      </Container>
+    );
+  }
+
+  return (
+    <Container maxWidth="lg">
+      <Box sx={{ mb: 4 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Transaction Categories
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          Categories used for transactions, matching rules and reports. Archived categories stay on
+          existing transactions but can no longer be chosen.
+        </Typography>
+
+        {TRANSACTION_TYPES.map((type) => (
+          <Paper key={type} sx={{ p: 3, mb: 3 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+              <Typography variant="h6">{type} Categories</Typography>
+              <Button variant="contained" startIcon={<AddIcon />} onClick={() => handleOpenCreate(type)}>
+                Add Category
+              </Button>
+            </Box>
+
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Name</TableCell>
+                    <TableCell>Parent</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {orderCategories(categories, type).map((category) => {
+                    const isProtected = PROTECTED_CATEGORIES.includes(category.name);
+
+                    return (
+                      <TableRow key={category.id}>
+                        <TableCell sx={{ pl: category.parentId ? 5 : undefined }}>{category.name}</TableCell>
+                        <TableCell>{getParentName(category.parentId)}</TableCell>
+                        <TableCell>
+                          {category.isArchived ? (
+                            <Chip label="Archived" size="small" />
+                          ) : (
+                            <Chip label="Active" size="small" color="success" variant="outlined" />
+                          )}
+                          {isProtected && <Chip label="System" size="small" variant="outlined" sx={{ ml: 1 }} />}
+                        </TableCell>
+                        <TableCell align="right">
+                          <Tooltip title="Edit category">
+                            <IconButton size="small" onClick={() => handleOpenEdit(category)}>
+                              <EditIcon fontSize="small" />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title={category.isArchived ? 'Restore category' : 'Archive category'}>
+                            <span>
+                              <IconButton
+                                size="small"
+                                onClick={() => handleToggleArchived(category)}
+                                disabled={isProtected}
+                              >
+                                {category.isArchived ? (
+                                  <UnarchiveIcon fontSize="small" />
+                                ) : (
+                                  <ArchiveIcon fontSize="small" />
+                                )}
+                              </IconButton>
+                            </span>
+                          </Tooltip>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+        ))}
+      </Box>
+
+      {/* Create/Edit Category Dialog */}
+      <Dialog open={dialogOpen} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
+        <DialogTitle>{editingCategory ? 'Edit Category' : `Add ${formData.type} Category`}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            {formError && <Alert severity="error">{formError}</Alert>}
+            <TextField
+              label="Name"
+              value={formData.name}
+              onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+              disabled={!!editingCategory && PROTECTED_CATEGORIES.includes(editingCategory.name)}
+              helperText={editingCategory ? 'Renaming updates existing transactions and rules' : undefined}
+              fullWidth
+              required
+            />
+            <FormControl fullWidth disabled={editingHasChildren}>
+              <InputLabel>Parent Category</InputLabel>
+              <Select
+                value={formData.parentId}
+                label="Parent Category"
+                onChange={(e: SelectChangeEvent) => setFormData((prev) => ({ ...prev, parentId: e.target.value }))}
+              >
+                <MenuItem value="">
+                  <em>None</em>
+                </MenuItem>
+                {parentOptions.map((parent) => (
+                  <MenuItem key={parent.id} value={parent.id}>
+                    {parent.name}
+                  </MenuItem>
+                ))}
+              </Select>
+              {editingHasChildren && (
+                <FormHelperText>This category has subcategories so cannot be moved under another</FormHelperText>
+              )}
+            </FormControl>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleCloseDialog} color="inherit" disabled={saveLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} variant="contained" disabled={saveLoading}>
+            {saveLoading ? <CircularProgress size={24} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+};
@@ -21,6 +21,7 @@ const Settings = lazy(() => import('./pages/Settings').then(m => ({ default: m.S
 const Users = lazy(() => import('./pages/Users').then(m => ({ default: m.Users })));
 const BankAccounts = lazy(() => import('./pages/admin/BankAccounts').then(m => ({ default: m.BankAccounts })));
 const BankAccountRules = lazy(() => import('./pages/admin/BankAccountRules').then(m => ({ default: m.BankAccountRules })));
+const TransactionCategories = lazy(() => import('./pages/admin/TransactionCategories').then(m => ({ default: m.TransactionCategories })));
 const PendingTransactions = lazy(() => import('./pages/admin/PendingTransactions').then(m => ({ default: m.PendingTransactions })));
 const NotFound = lazy(() => import('./pages/NotFound').then(m => ({ default: m.NotFound })));
 
@@ -123,6 +124,10 @@ export const router = createBrowserRouter([
         path: 'admin/pending-transactions',
         element: <LazyPage Component={PendingTransactions} />,
       },
+      {
+        path: 'admin/transaction-categories',
+        element: <LazyPage Component={TransactionCategories} />,
+      },
     ],
   },
   {
@@ -1,4 +1,4 @@
-import { matchingRulesService, MatchingRule, CreateMatchingRuleRequest, UpdateMatchingRuleRequest, TestRuleRequest } from '../matchingRules.service';
+import { matchingRulesService, MatchingRule, CreateMatchingRuleRequest, UpdateMatchingRuleRequest, TestRuleRequest, ProposedMatchingRule } from '../matchingRules.service';
 import { api } from '../../api';
 
 jest.mock('../../api');
@@ -25,6 +25,9 @@ describe('matchingRulesService', () => {
           propertyId: null,
           type: null,
           category: null,
+          leaseId: null,
+          paidByUserId: null,
+          splits: [],
           createdAt: '2024-01-01T00:00:00Z',
           updatedAt: '2024-01-01T00:00:00Z',
         },
@@ -56,6 +59,9 @@ describe('matchingRulesService', () => {
         propertyId: null,
         type: null,
         category: null,
+        leaseId: null,
+        paidByUserId: null,
+        splits: [],
         createdAt: '2024-01-01T00:00:00Z',
         updatedAt: '2024-01-01T00:00:00Z',
       };
@@ -135,6 +141,9 @@ describe('matchingRulesService', () => {
           propertyId: null,
           type: null,
           category: null,
+          leaseId: null,
+          paidByUserId: null,
+          splits: [],
           createdAt: '2024-01-01T00:00:00Z',
           updatedAt: '2024-01-01T00:00:00Z',
         },
@@ -230,4 +239,74 @@ describe('matchingRulesService', () => {
       expect(result).toEqual(mockResponse);
     });
   });
+
+  describe('getRuleStats', () => {
+    it('should fetch hit statistics for an account', async () => {
+      const mockStats = [
+        {
+          ruleId: '1',
+          hitCount: 4,
+          lastHitAt: '2024-01-15T00:00:00.000Z',
+          shadowedCount: 0,
+          shadowedBy: [],
+          status: 'active',
+        },
+      ];
+
+      mockedApi.get.mockResolvedValue({
+        data: { success: true, stats: mockStats },
+      } as any);
+
+      const result = await matchingRulesService.getRuleStats('acc-1');
+
+      expect(mockedApi.get).toHaveBeenCalledWith('/bank/accounts/acc-1/rules/stats');
+      expect(result).toEqual(mockStats);
+    });
+  });
+
+  describe('previewRules', () => {
+    const proposedRules: ProposedMatchingRule[] = [
+      {
+        id: '1',
+        name: 'Rent Rule',
+        enabled: true,
+        conditions: JSON.stringify({
+          operator: 'AND',
+          rules: [{ field: 'description', matchType: 'contains', value: 'rent' }],
+        }),
+        category: 'Rent',
+      },
+    ];
+
+    it('should dry run a proposed rule set', async () => {
+      const mockPreview = { evaluated: 3, changes: [] };
+
+      mockedApi.post.mockResolvedValue({
+        data: { success: true, preview: mockPreview },
+      } as any);
+
+      const result = await matchingRulesService.previewRules('acc-1', proposedRules);
+
+      expect(mockedApi.post).toHaveBeenCalledWith('/bank/accounts/acc-1/rules/preview', {
+        rules: proposedRules,
+      });
+      expect(result).toEqual(mockPreview);
+    });
+
+    it('should apply selected changes', async () => {
+      const mockResult = { applied: 1, skipped: [] };
+
+      mockedApi.post.mockResolvedValue({
+        data: { success: true, result: mockResult },
+      } as any);
+
+      const result = await matchingRulesService.applyRuleChanges('acc-1', proposedRules, ['bt-1']);
+
+      expect(mockedApi.post).toHaveBeenCalledWith('/bank/accounts/acc-1/rules/preview/apply', {
+        rules: proposedRules,
+        bankTransactionIds: ['bt-1'],
+      });
+      expect(result).toEqual(mockResult);
+    });
+  });
 });
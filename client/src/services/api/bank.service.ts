@@ -23,13 +23,139 @@ export interface BankAccount {
   syncFromDate: string;
   lastSyncAt: string | null;
   lastSyncStatus: string;
+  syncIntervalMinutes: number;
+  nextScheduledSyncAt: string | null;
+  syncFailureCount: number;
   webhookId: string | null;
   webhookUrl: string | null;
+  csvMapping: CsvColumnMapping | null;
   pendingCount?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+export type StatementDateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD' | 'DD MMM YYYY';
+
+export interface CsvColumnMapping {
+  dateColumn: string;
+  dateFormat: StatementDateFormat;
+  descriptionColumn: string;
+  amountColumn?: string;
+  creditColumn?: string;
+  debitColumn?: string;
+  referenceColumn?: string;
+  counterpartyColumn?: string;
+  skipRows?: number;
+}
+
+export interface StatementImportOptions {
+  format?: StatementFormat;
+  dateFormat?: StatementDateFormat;
+  mapping?: CsvColumnMapping;
+  saveMapping?: boolean;
+}
+
+export interface StatementPreviewTransaction {
+  externalId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  counterpartyName: string | null;
+  reference: string | null;
+  transactionDate: string;
+  isDuplicate: boolean;
+  duplicateMatchType: 'exact' | 'fuzzy' | null;
+}
+
+export interface StatementRowError {
+  row: number;
+  error: string;
+}
+
+export interface StatementPreview {
+  format: StatementFormat;
+  headers: string[] | null;
+  mapping: CsvColumnMapping | null;
+  transactions: StatementPreviewTransaction[];
+  errors: StatementRowError[];
+}
+
+export interface StatementImportResult {
+  syncLogId: string;
+  transactionsFetched: number;
+  processed: number;
+  duplicatesSkipped: number;
+  possibleDuplicates: number;
+  errors: Array<{ transactionId: string; error: string }>;
+  parseErrors: StatementRowError[];
+}
+
+export interface BankReconciliation {
+  id: string;
+  bankAccountId: string;
+  statementDate: string;
+  /** Balances are in pence, like bank transaction amounts */
+  statementBalance: number;
+  openingBalance: number;
+  ledgerBalance: number;
+  difference: number;
+  notes: string | null;
+  createdBy: string;
+  createdAt: string;
+  lockedAt: string | null;
+  lockedBy: string | null;
+}
+
+export interface ReconciliationItem {
+  id: string;
+  externalId: string;
+  transactionDate: string;
+  description: string;
+  amount: number;
+  currency: string;
+  transactionId: string | null;
+  ledgerAmount: number | null;
+  pendingTransactionId: string | null;
+}
+
+export interface ReconciliationReport {
+  periodStart: string | null;
+  periodEnd: string;
+  openingBalance: number;
+  statementBalance: number;
+  ledgerBalance: number;
+  difference: number;
+  matched: ReconciliationItem[];
+  pending: ReconciliationItem[];
+  unmatched: ReconciliationItem[];
+  totals: { matched: number; pending: number; unmatched: number };
+}
+
+export interface CreateReconciliationRequest {
+  statementDate: string;
+  statementBalance: number;
+  openingBalance?: number;
+  notes?: string;
+}
+
+export interface ReconciliationResponse {
+  success: boolean;
+  reconciliation: BankReconciliation;
+  report: ReconciliationReport;
+}
+
+export interface GetReconciliationsResponse {
+  success: boolean;
+  reconciliations: BankReconciliation[];
+}
+
+export interface GetBalanceResponse {
+  success: boolean;
+  balance: { balance: number; currency: string };
+}
+
 export interface GetBankAccountsResponse {
   success: boolean;
   accounts: BankAccount[];
@@ -43,6 +169,7 @@ export interface SyncLog {
   completedAt: string | null;
   transactionsFetched: number;
   transactionsSkipped: number;
+  transactionsHeld: number;
   errorMessage: string | null;
 }
 
@@ -57,6 +184,7 @@ export interface ImportProgressUpdate {
   transactionsFetched: number;
   transactionsProcessed: number;
   duplicatesSkipped: number;
+  possibleDuplicates?: number;
   currentBatch?: number;
   totalBatches?: number;
   message?: string;
@@ -68,6 +196,34 @@ export interface CompleteConnectionResponse {
   bankAccountId: string;
 }
 
+export interface BankAccountResponse {
+  success: boolean;
+  account: BankAccount;
+}
+
+export interface StatementPreviewResponse {
+  success: boolean;
+  preview: StatementPreview;
+}
+
+export interface StatementImportResponse {
+  success: boolean;
+  result: StatementImportResult;
+}
+
+/**
+ * Build the multipart body for a statement upload
+ */
+const statementFormData = (file: File, options: StatementImportOptions): FormData => {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (options.format) formData.append('format', options.format);
+  if (options.dateFormat) formData.append('dateFormat', options.dateFormat);
+  if (options.mapping) formData.append('mapping', JSON.stringify(options.mapping));
+  if (options.saveMapping) formData.append('saveMapping', 'true');
+  return formData;
+};
+
 export interface GetWebhookStatusResponse {
   success: boolean;
   data: WebhookStatusData;
@@ -83,6 +239,126 @@ export const bankService = {
     return response.data.accounts;
   },
 
+  /**
+   * Create a bank account fed by statement file uploads (for banks without an API connection)
+   * @param accountName - Display name, e.g. "Barclays Current"
+   * @param accountType - Account type (default: current)
+   * @returns Created bank account
+   */
+  async createImportAccount(accountName: string, accountType?: string): Promise<BankAccount> {
+    const response = await api.post<BankAccountResponse>('/bank/accounts', {
+      accountName,
+      accountType,
+    });
+    return response.data.account;
+  },
+
+  /**
+   * Parse a statement file without importing it. CSV files with no known
+   * column mapping return their headers only.
+   * @param bankAccountId - Statement import account ID
+   * @param file - CSV, OFX or QIF file
+   * @param options - Format, date format and CSV column mapping
+   * @returns Parsed transactions flagged as duplicates where already imported
+   */
+  async previewStatement(
+    bankAccountId: string,
+    file: File,
+    options: StatementImportOptions = {}
+  ): Promise<StatementPreview> {
+    const response = await api.post<StatementPreviewResponse>(
+      `/bank/accounts/${bankAccountId}/import/preview`,
+      statementFormData(file, options),
+      { headers: { 'Content-Type': 'multipart/form-data' } }
+    );
+    return response.data.preview;
+  },
+
+  /**
+   * Import a statement file through duplicate detection and matching rules
+   * @param bankAccountId - Statement import account ID
+   * @param file - CSV, OFX or QIF file
+   * @param options - Format, date format, CSV column mapping and whether to save the mapping
+   * @returns Import counts and any rows that could not be read
+   */
+  async importStatement(
+    bankAccountId: string,
+    file: File,
+    options: StatementImportOptions = {}
+  ): Promise<StatementImportResult> {
+    const response = await api.post<StatementImportResponse>(
+      `/bank/accounts/${bankAccountId}/import`,
+      statementFormData(file, options),
+      { headers: { 'Content-Type': 'multipart/form-data' } }
+    );
+    return response.data.result;
+  },
+
+  /**
+   * Fetch an account's current balance from its bank
+   * @param bankAccountId - Connected bank account ID
+   * @returns Balance in pence
+   */
+  async getBalance(bankAccountId: string): Promise<{ balance: number; currency: string }> {
+    const response = await api.get<GetBalanceResponse>(`/bank/accounts/${bankAccountId}/balance`);
+    return response.data.balance;
+  },
+
+  /**
+   * Get an account's reconciliation history, newest statement first
+   * @param bankAccountId - Bank account ID
+   * @returns Reconciliations
+   */
+  async getReconciliations(bankAccountId: string): Promise<BankReconciliation[]> {
+    const response = await api.get<GetReconciliationsResponse>(
+      `/bank/accounts/${bankAccountId}/reconciliations`
+    );
+    return response.data.reconciliations;
+  },
+
+  /**
+   * Reconcile an account against a statement closing balance
+   * @param bankAccountId - Bank account ID
+   * @param data - Statement date and closing balance (pence)
+   * @returns The saved reconciliation and its transactions
+   */
+  async createReconciliation(
+    bankAccountId: string,
+    data: CreateReconciliationRequest
+  ): Promise<ReconciliationResponse> {
+    const response = await api.post<ReconciliationResponse>(
+      `/bank/accounts/${bankAccountId}/reconciliations`,
+      data
+    );
+    return response.data;
+  },
+
+  /**
+   * Get a reconciliation with its transactions
+   * @param bankAccountId - Bank account ID
+   * @param reconciliationId - Reconciliation ID
+   * @returns The reconciliation and its transactions
+   */
+  async getReconciliation(bankAccountId: string, reconciliationId: string): Promise<ReconciliationResponse> {
+    const response = await api.get<ReconciliationResponse>(
+      `/bank/accounts/${bankAccountId}/reconciliations/${reconciliationId}`
+    );
+    return response.data;
+  },
+
+  /**
+   * Lock a reconciled period so its transactions can't be edited
+   * @param bankAccountId - Bank account ID
+   * @param reconciliationId - Reconciliation ID
+   * @returns The locked reconciliation
+   */
+  async lockReconciliation(bankAccountId: string, reconciliationId: string): Promise<ReconciliationResponse> {
+    const response = await api.post<ReconciliationResponse>(
+      `/bank/accounts/${bankAccountId}/reconciliations/${reconciliationId}/lock`
+    );
+    return response.data;
+  },
+
   /**
    * Initiate Monzo OAuth flow
    * @param syncFromDays - Number of days to sync transaction history from (default: 90)
@@ -9,13 +9,13 @@ export const documentsService = {
   /**
    * Upload a document file
    * @param file - File to upload
-   * @param entity_type - Entity type (Property, Tenant, Lease, Transaction)
+   * @param entity_type - Entity type (Property, Tenant, Lease, Transaction, Guarantor)
    * @param entity_id - Entity ID to associate document with
    * @returns Uploaded document metadata
    */
   async uploadDocument(
     file: File,
-    entity_type: 'Property' | 'Tenant' | 'Lease' | 'Transaction',
+    entity_type: 'Property' | 'Tenant' | 'Lease' | 'Transaction' | 'Guarantor',
     entity_id: string
   ): Promise<Document> {
     const formData = new FormData();
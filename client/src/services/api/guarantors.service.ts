@@ -0,0 +1,64 @@
+import { api } from '../api';
+import type {
+  Guarantor,
+  CreateGuarantorRequest,
+  UpdateGuarantorRequest,
+  GuarantorFilters,
+  GuarantorsResponse,
+  GuarantorResponse,
+} from '../../types/api.types';
+
+export const guarantorsService = {
+  /**
+   * Get all guarantors with optional filters
+   * @param filters - Optional filters for tenant_id and lease_id
+   * @returns Array of guarantors with their leases and signed deed
+   */
+  async getGuarantors(filters?: GuarantorFilters): Promise<Guarantor[]> {
+    const response = await api.get<GuarantorsResponse>('/guarantors', {
+      params: filters,
+    });
+    return response.data.guarantors;
+  },
+
+  /**
+   * Get a single guarantor by ID
+   * @param id - Guarantor ID
+   * @returns Guarantor details
+   */
+  async getGuarantor(id: string): Promise<Guarantor> {
+    const response = await api.get<GuarantorResponse>(`/guarantors/${id}`);
+    return response.data.guarantor;
+  },
+
+  /**
+   * Create a new guarantor for a tenant
+   * @param data - Guarantor data, including the leases they sign for
+   * @returns Created guarantor
+   */
+  async createGuarantor(data: CreateGuarantorRequest): Promise<Guarantor> {
+    const response = await api.post<GuarantorResponse>('/guarantors', data);
+    return response.data.guarantor;
+  },
+
+  /**
+   * Update an existing guarantor
+   * @param id - Guarantor ID
+   * @param data - Updated guarantor data (leaseIds replaces the linked leases)
+   * @returns Updated guarantor
+   */
+  async updateGuarantor(id: string, data: UpdateGuarantorRequest): Promise<Guarantor> {
+    const response = await api.put<GuarantorResponse>(`/guarantors/${id}`, data);
+    return response.data.guarantor;
+  },
+
+  /**
+   * Delete a guarantor and their documents
+   * @param id - Guarantor ID
+   * @returns Deleted guarantor
+   */
+  async deleteGuarantor(id: string): Promise<Guarantor> {
+    const response = await api.delete<GuarantorResponse>(`/guarantors/${id}`);
+    return response.data.guarantor;
+  },
+};
@@ -2,8 +2,11 @@
 export { authService } from './auth.service';
 export { propertiesService } from './properties.service';
 export { tenantsService } from './tenants.service';
+export { guarantorsService } from './guarantors.service';
 export { leasesService } from './leases.service';
 export { transactionsService } from './transactions.service';
+export { transactionCategoriesService } from './transactionCategories.service';
+export { recurringTransactionsService } from './recurringTransactions.service';
 export { eventsService } from './events.service';
 export { documentsService } from './documents.service';
 export { usersService } from './users.service';
@@ -3,15 +3,27 @@ import type {
   Lease,
   CreateLeaseRequest,
   UpdateLeaseRequest,
+  RenewLeaseRequest,
+  RenewLeaseResponse,
+  LeaseDeposit,
+  LeaseDepositResponse,
+  ReturnDepositRequest,
   LeaseFilters,
   LeasesResponse,
   LeaseResponse,
+  LeaseLedger,
+  LeaseLedgerResponse,
+  RentChange,
+  RentChangeResponse,
+  RentHistory,
+  RentHistoryResponse,
+  CreateRentChangeRequest,
 } from '../../types/api.types';
 
 export const leasesService = {
   /**
    * Get all leases with optional filters
-   * @param filters - Optional filters for propertyId, tenantId, and status
+   * @param filters - Optional filters for propertyId, unitId, tenantId, and status
    * @returns Array of leases
    */
   async getLeases(filters?: LeaseFilters): Promise<Lease[]> {
@@ -28,6 +40,10 @@ export const leasesService = {
       }
     }
 
+    if (filters?.unitId) {
+      params.append('unit_id', filters.unitId);
+    }
+
     if (filters?.tenantId) {
       params.append('tenant_id', filters.tenantId);
     }
@@ -50,6 +66,58 @@ export const leasesService = {
     return response.data.lease;
   },
 
+  /**
+   * Get the rent ledger for a lease: the expected rent schedule with
+   * rent received matched against each due period
+   * @param id - Lease ID
+   * @param asOf - Optional date to calculate arrears as at (defaults to today)
+   * @returns Lease ledger with periods, payments and arrears balance
+   */
+  async getLeaseLedger(id: string, asOf?: string): Promise<LeaseLedger> {
+    const params: Record<string, string> = {};
+    if (asOf) params.as_of = asOf;
+
+    const response = await api.get<LeaseLedgerResponse>(`/leases/${id}/ledger`, { params });
+    return response.data.ledger;
+  },
+
+  /**
+   * Get the rent history for a lease: the starting rent followed by each
+   * scheduled change, with the rent in force highlighted
+   * @param id - Lease ID
+   * @param asOf - Optional date to work out the rent in force (defaults to today)
+   * @returns Rent history
+   */
+  async getRentHistory(id: string, asOf?: string): Promise<RentHistory> {
+    const params: Record<string, string> = {};
+    if (asOf) params.as_of = asOf;
+
+    const response = await api.get<RentHistoryResponse>(`/leases/${id}/rent-changes`, { params });
+    return response.data.rentHistory;
+  },
+
+  /**
+   * Schedule a rent change - the notice date is worked back from the effective date
+   * @param id - Lease ID
+   * @param data - Effective date, new rent and when notice was served
+   * @returns Created rent change
+   */
+  async scheduleRentChange(id: string, data: CreateRentChangeRequest): Promise<RentChange> {
+    const response = await api.post<RentChangeResponse>(`/leases/${id}/rent-changes`, data);
+    return response.data.rentChange;
+  },
+
+  /**
+   * Cancel a rent change that has not yet taken effect
+   * @param id - Lease ID
+   * @param rentChangeId - Rent change ID
+   * @returns Cancelled rent change
+   */
+  async cancelRentChange(id: string, rentChangeId: string): Promise<RentChange> {
+    const response = await api.delete<RentChangeResponse>(`/leases/${id}/rent-changes/${rentChangeId}`);
+    return response.data.rentChange;
+  },
+
   /**
    * Create a new lease
    * @param data - Lease data
@@ -71,6 +139,38 @@ export const leasesService = {
     return response.data.lease;
   },
 
+  /**
+   * Get deposit protection details, compliance and deductions for a lease
+   * @param id - Lease ID
+   * @returns Lease deposit
+   */
+  async getLeaseDeposit(id: string): Promise<LeaseDeposit> {
+    const response = await api.get<LeaseDepositResponse>(`/leases/${id}/deposit`);
+    return response.data.deposit;
+  },
+
+  /**
+   * Return a lease deposit less itemised deductions
+   * @param id - Lease ID
+   * @param data - Return date and deductions retained
+   * @returns Updated lease
+   */
+  async returnDeposit(id: string, data: ReturnDepositRequest): Promise<Lease> {
+    const response = await api.post<LeaseResponse>(`/leases/${id}/deposit/return`, data);
+    return response.data.lease;
+  },
+
+  /**
+   * Renew a lease - creates the successor lease and marks this one 'Expired'
+   * @param id - Lease ID to renew
+   * @param data - New rent and dates for the successor lease
+   * @returns Successor lease
+   */
+  async renewLease(id: string, data: RenewLeaseRequest): Promise<Lease> {
+    const response = await api.post<RenewLeaseResponse>(`/leases/${id}/renew`, data);
+    return response.data.lease;
+  },
+
   /**
    * Delete a lease (soft delete - sets status to 'Terminated')
    * @param id - Lease ID
@@ -1,5 +1,10 @@
 import { api } from '../api';
 
+export interface MatchingRuleSplit {
+  userId: string;
+  percentage: number;
+}
+
 export interface MatchingRule {
   id: string;
   bankAccountId: string | null;
@@ -10,6 +15,10 @@ export interface MatchingRule {
   propertyId: string | null;
   type: 'INCOME' | 'EXPENSE' | null;
   category: string | null;
+  leaseId: string | null;
+  paidByUserId: string | null;
+  // Empty when transactions are split by property ownership
+  splits: MatchingRuleSplit[];
   createdAt: string;
   updatedAt: string;
 }
@@ -21,6 +30,9 @@ export interface CreateMatchingRuleRequest {
   propertyId?: string | null;
   type?: 'INCOME' | 'EXPENSE' | null;
   category?: string | null;
+  leaseId?: string | null;
+  paidByUserId?: string | null;
+  splits?: MatchingRuleSplit[] | null;
 }
 
 export interface UpdateMatchingRuleRequest {
@@ -30,6 +42,16 @@ export interface UpdateMatchingRuleRequest {
   propertyId?: string | null;
   type?: 'INCOME' | 'EXPENSE' | null;
   category?: string | null;
+  leaseId?: string | null;
+  paidByUserId?: string | null;
+  splits?: MatchingRuleSplit[] | null;
+}
+
+/**
+ * A rule in a proposed rule set; saved rules keep their ID
+ */
+export interface ProposedMatchingRule extends CreateMatchingRuleRequest {
+  id?: string;
 }
 
 export interface TestRuleRequest {
@@ -38,6 +60,9 @@ export interface TestRuleRequest {
   counterpartyName?: string;
   merchant?: string;
   reference?: string;
+  category?: string;
+  /** YYYY-MM-DD; today when omitted */
+  transactionDate?: string;
 }
 
 export interface RulesResponse {
@@ -96,6 +121,96 @@ export interface TestRuleResponse {
   };
 }
 
+export interface SuggestedCondition {
+  field: 'counterpartyName' | 'merchant' | 'reference' | 'amount';
+  matchType: 'equals';
+  value: string | number;
+  caseSensitive?: boolean;
+}
+
+export interface RuleSuggestion {
+  /** Identifies the suggested pattern; used to dismiss it */
+  key: string;
+  name: string;
+  /** Rule conditions, not yet JSON encoded */
+  conditions: { operator: 'AND'; rules: SuggestedCondition[] };
+  propertyId: string;
+  propertyName: string;
+  type: 'INCOME' | 'EXPENSE';
+  category: string;
+  /** Manually approved transactions the conditions match */
+  hitCount: number;
+  /** Share of those approvals that went to this property, type and category (0-1) */
+  accuracy: number;
+  examples: string[];
+}
+
+export interface RuleSuggestionsResponse {
+  success: boolean;
+  suggestions: RuleSuggestion[];
+}
+
+export interface RuleOutcome {
+  propertyId: string | null;
+  propertyName: string | null;
+  type: 'INCOME' | 'EXPENSE' | null;
+  category: string | null;
+}
+
+export interface RuleImpactChange {
+  bankTransactionId: string;
+  transactionDate: string;
+  description: string;
+  /** Signed minor units, as sent by the bank */
+  amount: number;
+  /** A ledger transaction, or an item awaiting review */
+  source: 'transaction' | 'pending';
+  transactionId: string | null;
+  pendingTransactionId: string | null;
+  current: RuleOutcome;
+  proposed: RuleOutcome;
+  changedFields: Array<'propertyId' | 'type' | 'category'>;
+  matchedRules: string[];
+  /** In a locked reconciliation period, so it can't be changed */
+  locked: boolean;
+}
+
+export interface RuleImpactPreview {
+  /** Bank transactions the proposed rules were run against */
+  evaluated: number;
+  changes: RuleImpactChange[];
+}
+
+export interface RuleImpactPreviewResponse {
+  success: boolean;
+  preview: RuleImpactPreview;
+}
+
+export interface ApplyRuleImpactResponse {
+  success: boolean;
+  result: {
+    applied: number;
+    skipped: Array<{ bankTransactionId: string; error: string }>;
+  };
+}
+
+export interface RuleHitStats {
+  ruleId: string;
+  /** Bank transactions the rule supplied fields to */
+  hitCount: number;
+  lastHitAt: string | null;
+  /** Bank transactions the rule matched after higher priority rules had set its fields */
+  shadowedCount: number;
+  /** Rules that set those fields first */
+  shadowedBy: string[];
+  status: 'active' | 'shadowed' | 'unused';
+}
+
+export interface RuleStatsResponse {
+  success: boolean;
+  stats: RuleHitStats[];
+}
+
 export const matchingRulesService = {
   /**
    * Get all rules for a bank account
@@ -178,4 +293,65 @@ export const matchingRulesService = {
     const response = await api.post<TestRuleResponse>(`/bank/rules/${ruleId}/test`, data);
     return response.data;
   },
+
+  /**
+   * Get rules suggested from manually approved pending transactions
+   * @param accountId - Bank account ID
+   * @returns Suggestions, most used first
+   */
+  async getSuggestions(accountId: string): Promise<RuleSuggestion[]> {
+    const response = await api.get<RuleSuggestionsResponse>(`/bank/accounts/${accountId}/rule-suggestions`);
+    return response.data.suggestions;
+  },
+
+  /**
+   * Stop offering a rule suggestion
+   * @param accountId - Bank account ID
+   * @param key - Suggestion key
+   */
+  async dismissSuggestion(accountId: string, key: string): Promise<void> {
+    await api.post(`/bank/accounts/${accountId}/rule-suggestions/dismiss`, { key });
+  },
+
+  /**
+   * Get how often each rule has set fields on the account's transactions
+   * @param accountId - Bank account ID
+   * @returns Hit statistics, in priority order
+   */
+  async getRuleStats(accountId: string): Promise<RuleHitStats[]> {
+    const response = await api.get<RuleStatsResponse>(`/bank/accounts/${accountId}/rules/stats`);
+    return response.data.stats;
+  },
+
+  /**
+   * Dry run a proposed rule set against the account's transaction history
+   * @param accountId - Bank account ID
+   * @param rules - The account's rules as they would be saved, in priority order
+   * @returns Transactions and pending items the rules would change
+   */
+  async previewRules(accountId: string, rules: ProposedMatchingRule[]): Promise<RuleImpactPreview> {
+    const response = await api.post<RuleImpactPreviewResponse>(`/bank/accounts/${accountId}/rules/preview`, {
+      rules,
+    });
+    return response.data.preview;
+  },
+
+  /**
+   * Make selected changes from a rule impact preview
+   * @param accountId - Bank account ID
+   * @param rules - The previewed rule set
+   * @param bankTransactionIds - Bank transactions whose changes to make
+   * @returns Number applied, and any skipped with the reason
+   */
+  async applyRuleChanges(
+    accountId: string,
+    rules: ProposedMatchingRule[],
+    bankTransactionIds: string[]
+  ): Promise<ApplyRuleImpactResponse['result']> {
+    const response = await api.post<ApplyRuleImpactResponse>(
+      `/bank/accounts/${accountId}/rules/preview/apply`,
+      { rules, bankTransactionIds }
+    );
+    return response.data.result;
+  },
 };
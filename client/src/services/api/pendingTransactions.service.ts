@@ -1,8 +1,9 @@
 import { api } from '../api';
+import type { Transaction } from '../../types/api.types';
 
 export interface PendingTransactionFilters {
   bankAccountId?: string;
-  reviewStatus?: 'pending' | 'reviewed' | 'all';
+  reviewStatus?: 'pending' | 'reviewed' | 'flagged' | 'all';
   search?: string;
 }
 
@@ -13,6 +14,20 @@ export interface BankAccount {
   provider: string;
 }
 
+/**
+ * A ledger transaction a bank transaction was posted as
+ */
+export interface LedgerTransaction {
+  id: string;
+  propertyId: string;
+  propertyName: string;
+  type: 'Income' | 'Expense';
+  category: string;
+  /** In the bank's minor units for imported transactions */
+  amount: number;
+  description: string;
+}
+
 export interface BankTransactionDetail {
   id: string;
   externalId: string;
@@ -25,6 +40,10 @@ export interface BankTransactionDetail {
   category: string | null;
   transactionDate: string;
   settledDate: string | null;
+  declineReason: string | null;
+  reversedAt: string | null;
+  /** Several when the bank transaction was split */
+  ledgerTransactions: LedgerTransaction[];
 }
 
 export interface PendingTransaction {
@@ -40,6 +59,8 @@ export interface PendingTransaction {
   currency: string;
   reviewedAt: string | null;
   reviewedBy: string | null;
+  flaggedAt: string | null;
+  flagReason: string | null;
   createdAt: string;
   bankAccount: BankAccount;
   bankTransaction: BankTransactionDetail;
@@ -68,9 +89,95 @@ export interface ApprovePendingTransactionResponse {
   message: string;
 }
 
+export interface SplitPart {
+  propertyId: string;
+  leaseId?: string | null;
+  type: 'Income' | 'Expense';
+  category: string;
+  /** Positive, in the bank's minor units; takes the bank transaction's sign */
+  amount: number;
+  description?: string;
+}
+
+export interface SplitPendingTransactionResponse {
+  success: boolean;
+  transactions: Transaction[];
+  message: string;
+}
+
+export interface MatchCandidate {
+  id: string;
+  propertyId: string;
+  propertyName: string;
+  type: 'Income' | 'Expense';
+  category: string;
+  amount: number;
+  transactionDate: string;
+  description: string;
+  daysApart: number;
+}
+
+export interface MatchCandidatesResponse {
+  success: boolean;
+  candidates: MatchCandidate[];
+}
+
+export interface LinkPendingTransactionResponse {
+  success: boolean;
+  transaction: any;
+  message: string;
+}
+
 export interface PendingCountResponse {
   success: boolean;
+  /** Unreviewed pending transactions and possible duplicates */
   count: number;
+  possibleDuplicates: number;
+}
+
+/**
+ * The fields of a bank transaction compared when reviewing a possible duplicate
+ */
+export interface ComparedBankTransaction {
+  id: string;
+  externalId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  counterpartyName: string | null;
+  reference: string | null;
+  merchant: string | null;
+  transactionDate: string;
+  importedAt: string;
+}
+
+/**
+ * A bank transaction held for review because it looked like an earlier one
+ */
+export interface PossibleDuplicate extends ComparedBankTransaction {
+  bankAccount: Pick<BankAccount, 'id' | 'accountName'>;
+  duplicateOf:
+    | (ComparedBankTransaction & {
+        transactionId: string | null;
+        pendingTransactionId: string | null;
+        duplicateStatus: string | null;
+      })
+    | null;
+}
+
+export interface PossibleDuplicatesResponse {
+  success: boolean;
+  possibleDuplicates: PossibleDuplicate[];
+}
+
+export interface ReviewPossibleDuplicateResponse {
+  success: boolean;
+  bankTransaction: ComparedBankTransaction & {
+    transactionId: string | null;
+    pendingTransactionId: string | null;
+    duplicateStatus: string | null;
+  };
+  message: string;
 }
 
 export interface BulkApproveResponse {
@@ -138,14 +245,102 @@ export const pendingTransactionsService = {
   },
 
   /**
-   * Get count of unreviewed pending transactions
-   * @returns Count of pending transactions
+   * Approve a pending transaction as several transactions that add up to the bank amount
+   * @param id - Pending transaction ID
+   * @param parts - At least two parts
+   * @returns Created transactions
+   */
+  async splitPendingTransaction(id: string, parts: SplitPart[]): Promise<SplitPendingTransactionResponse> {
+    const response = await api.post<SplitPendingTransactionResponse>(`/pending-transactions/${id}/split`, {
+      parts,
+    });
+    return response.data;
+  },
+
+  /**
+   * Get manual transactions that may be the same payment as a pending transaction
+   * @param id - Pending transaction ID
+   * @returns Candidate transactions, closest date first
+   */
+  async getMatchCandidates(id: string): Promise<MatchCandidate[]> {
+    const response = await api.get<MatchCandidatesResponse>(`/pending-transactions/${id}/matches`);
+    return response.data.candidates;
+  },
+
+  /**
+   * Link a pending transaction to an existing manual transaction instead of approving it
+   * @param id - Pending transaction ID
+   * @param transactionId - Existing transaction ID
+   * @returns Linked transaction
+   */
+  async linkToExisting(id: string, transactionId: string): Promise<LinkPendingTransactionResponse> {
+    const response = await api.post<LinkPendingTransactionResponse>(
+      `/pending-transactions/${id}/link`,
+      { transactionId }
+    );
+    return response.data;
+  },
+
+  /**
+   * Clear the re-review flag set when the bank changed a reviewed transaction
+   * @param id - Pending transaction ID
+   * @returns Updated pending transaction
+   */
+  async resolveFlag(id: string): Promise<PendingTransaction> {
+    const response = await api.post<PendingTransactionResponse>(
+      `/pending-transactions/${id}/resolve-flag`
+    );
+    return response.data.pendingTransaction;
+  },
+
+  /**
+   * Get count of unreviewed pending transactions and possible duplicates
+   * @returns Count of items awaiting review
    */
   async getPendingCount(): Promise<number> {
     const response = await api.get<PendingCountResponse>('/pending-transactions/count');
     return response.data.count;
   },
 
+  /**
+   * Get bank transactions held for review as possible duplicates
+   * @param bankAccountId - Optional bank account to filter by
+   * @returns Possible duplicates, each with the transaction it looked like
+   */
+  async getPossibleDuplicates(bankAccountId?: string): Promise<PossibleDuplicate[]> {
+    const params: Record<string, string> = {};
+    if (bankAccountId) params.bank_account_id = bankAccountId;
+
+    const response = await api.get<PossibleDuplicatesResponse>('/pending-transactions/possible-duplicates', {
+      params,
+    });
+    return response.data.possibleDuplicates;
+  },
+
+  /**
+   * Keep a possible duplicate and post it through the matching rules
+   * @param id - Bank transaction ID
+   * @returns Kept bank transaction
+   */
+  async keepPossibleDuplicate(id: string): Promise<ReviewPossibleDuplicateResponse> {
+    const response = await api.post<ReviewPossibleDuplicateResponse>(
+      `/pending-transactions/possible-duplicates/${id}/keep`
+    );
+    return response.data;
+  },
+
+  /**
+   * Discard a possible duplicate so it never reaches the ledger
+   * @param id - Bank transaction ID
+   * @returns Discarded bank transaction
+   */
+  async discardPossibleDuplicate(id: string): Promise<ReviewPossibleDuplicateResponse> {
+    const response = await api.post<ReviewPossibleDuplicateResponse>(
+      `/pending-transactions/possible-duplicates/${id}/discard`
+    );
+    return response.data;
+  },
+
   /**
    * Bulk approve pending transactions
    * @param ids - Array of pending transaction IDs
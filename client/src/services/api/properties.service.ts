@@ -6,6 +6,13 @@ import type {
   PropertyFilters,
   PropertiesResponse,
   PropertyResponse,
+  Unit,
+  CreateUnitRequest,
+  UpdateUnitRequest,
+  UnitsResponse,
+  UnitResponse,
+  PropertyOccupancy,
+  PropertyOccupancyResponse,
 } from '../../types/api.types';
 
 export const propertiesService = {
@@ -71,4 +78,61 @@ export const propertiesService = {
     const response = await api.delete<PropertyResponse>(`/properties/${id}`);
     return response.data.property;
   },
+
+  /**
+   * Get occupancy roll-up across a property's units and whole-property lets
+   * @param id - Property ID
+   * @param asOf - Optional date to calculate occupancy at (defaults to today)
+   * @returns Property occupancy
+   */
+  async getOccupancy(id: string, asOf?: string): Promise<PropertyOccupancy> {
+    const response = await api.get<PropertyOccupancyResponse>(`/properties/${id}/occupancy`, {
+      params: asOf ? { as_of: asOf } : undefined,
+    });
+    return response.data.occupancy;
+  },
+
+  /**
+   * Get units (e.g. HMO rooms) within a property
+   * @param propertyId - Property ID
+   * @returns Array of units
+   */
+  async getUnits(propertyId: string): Promise<Unit[]> {
+    const response = await api.get<UnitsResponse>(`/properties/${propertyId}/units`);
+    return response.data.units;
+  },
+
+  /**
+   * Create a unit within a property
+   * @param propertyId - Property ID
+   * @param data - Unit data
+   * @returns Created unit
+   */
+  async createUnit(propertyId: string, data: CreateUnitRequest): Promise<Unit> {
+    const response = await api.post<UnitResponse>(`/properties/${propertyId}/units`, data);
+    return response.data.unit;
+  },
+
+  /**
+   * Update a unit
+   * @param propertyId - Property ID
+   * @param unitId - Unit ID
+   * @param data - Updated unit data
+   * @returns Updated unit
+   */
+  async updateUnit(propertyId: string, unitId: string, data: UpdateUnitRequest): Promise<Unit> {
+    const response = await api.put<UnitResponse>(`/properties/${propertyId}/units/${unitId}`, data);
+    return response.data.unit;
+  },
+
+  /**
+   * Delete a unit
+   * @param propertyId - Property ID
+   * @param unitId - Unit ID
+   * @returns Deleted unit
+   */
+  async deleteUnit(propertyId: string, unitId: string): Promise<Unit> {
+    const response = await api.delete<UnitResponse>(`/properties/${propertyId}/units/${unitId}`);
+    return response.data.unit;
+  },
 };
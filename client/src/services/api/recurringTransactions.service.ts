@@ -0,0 +1,67 @@
+import { api } from '../api';
+import type {
+  RecurringTransaction,
+  CreateRecurringTransactionRequest,
+  UpdateRecurringTransactionRequest,
+  RecurringTransactionFilters,
+  RecurringTransactionsResponse,
+  RecurringTransactionResponse,
+} from '../../types/api.types';
+
+export const recurringTransactionsService = {
+  /**
+   * Get recurring transaction templates, soonest next run first
+   * @param filters - Optional property_id filter
+   * @returns Array of templates with their property and splits
+   */
+  async getRecurringTransactions(filters?: RecurringTransactionFilters): Promise<RecurringTransaction[]> {
+    const response = await api.get<RecurringTransactionsResponse>('/recurring-transactions', {
+      params: filters,
+    });
+    return response.data.recurringTransactions;
+  },
+
+  /**
+   * Create a new recurring transaction template
+   * @param data - Template data; the first run is on the start date unless nextRunDate is given
+   * @returns Created template
+   */
+  async createRecurringTransaction(data: CreateRecurringTransactionRequest): Promise<RecurringTransaction> {
+    const response = await api.post<RecurringTransactionResponse>('/recurring-transactions', data);
+    return response.data.recurringTransaction;
+  },
+
+  /**
+   * Update, pause or resume a template
+   * @param id - Template ID
+   * @param data - Updated template data (resuming skips runs missed while paused)
+   * @returns Updated template
+   */
+  async updateRecurringTransaction(
+    id: string,
+    data: UpdateRecurringTransactionRequest
+  ): Promise<RecurringTransaction> {
+    const response = await api.put<RecurringTransactionResponse>(`/recurring-transactions/${id}`, data);
+    return response.data.recurringTransaction;
+  },
+
+  /**
+   * Skip the next scheduled run without creating a transaction
+   * @param id - Template ID
+   * @returns Template with its next run date moved on
+   */
+  async skipNext(id: string): Promise<RecurringTransaction> {
+    const response = await api.post<RecurringTransactionResponse>(`/recurring-transactions/${id}/skip`);
+    return response.data.recurringTransaction;
+  },
+
+  /**
+   * Delete a template. Transactions it already created are kept.
+   * @param id - Template ID
+   * @returns Deleted template
+   */
+  async deleteRecurringTransaction(id: string): Promise<RecurringTransaction> {
+    const response = await api.delete<RecurringTransactionResponse>(`/recurring-transactions/${id}`);
+    return response.data.recurringTransaction;
+  },
+};
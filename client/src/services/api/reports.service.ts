@@ -11,6 +11,14 @@ import type {
   OwnerPLReportResponse,
   ReportOwner,
   ReportOwnersResponse,
+  ArrearsReport,
+  ArrearsReportResponse,
+  ArrearsAgingReport,
+  ArrearsAgingReportResponse,
+  DepositComplianceReport,
+  DepositComplianceReportResponse,
+  RentRollReport,
+  RentRollReportResponse,
 } from '../../types/api.types';
 
 export const reportsService = {
@@ -71,6 +79,66 @@ export const reportsService = {
     return response.data.report;
   },
 
+  /**
+   * Get arrears report across all live leases
+   * @param propertyId - Optional property to restrict the report to
+   * @param asOf - Optional date to calculate arrears as at (defaults to today)
+   * @returns Arrears per lease with portfolio totals
+   */
+  async getArrearsReport(propertyId?: string, asOf?: string): Promise<ArrearsReport> {
+    const params: Record<string, string> = {};
+    if (propertyId) params.propertyId = propertyId;
+    if (asOf) params.as_of = asOf;
+
+    const response = await api.get<ArrearsReportResponse>('/reports/arrears', { params });
+    return response.data.report;
+  },
+
+  /**
+   * Get aged arrears grouped by property and tenant
+   * @param propertyId - Optional property to restrict the report to
+   * @param asOf - Optional date to age arrears as at (defaults to today)
+   * @returns Unpaid rent in 0-30 / 31-60 / 61-90 / 90+ day buckets
+   */
+  async getArrearsAgingReport(propertyId?: string, asOf?: string): Promise<ArrearsAgingReport> {
+    const params: Record<string, string> = {};
+    if (propertyId) params.propertyId = propertyId;
+    if (asOf) params.as_of = asOf;
+
+    const response = await api.get<ArrearsAgingReportResponse>('/reports/arrears/aging', { params });
+    return response.data.report;
+  },
+
+  /**
+   * Get the rent roll for every active lease, annualised across rent frequencies
+   * @param propertyId - Optional property to restrict the report to
+   * @param asOf - Optional date the leases must be active on (defaults to today)
+   * @returns Contracted rent per lease with annual and monthly-equivalent totals
+   */
+  async getRentRollReport(propertyId?: string, asOf?: string): Promise<RentRollReport> {
+    const params: Record<string, string> = {};
+    if (propertyId) params.propertyId = propertyId;
+    if (asOf) params.as_of = asOf;
+
+    const response = await api.get<RentRollReportResponse>('/reports/rent-roll', { params });
+    return response.data.report;
+  },
+
+  /**
+   * Get deposit protection compliance for every lease holding a deposit
+   * @param propertyId - Optional property to restrict the report to
+   * @param asOf - Optional date to check the 30-day deadline against (defaults to today)
+   * @returns Compliance per lease, breaches first
+   */
+  async getDepositComplianceReport(propertyId?: string, asOf?: string): Promise<DepositComplianceReport> {
+    const params: Record<string, string> = {};
+    if (propertyId) params.propertyId = propertyId;
+    if (asOf) params.as_of = asOf;
+
+    const response = await api.get<DepositComplianceReportResponse>('/reports/deposit-compliance', { params });
+    return response.data.report;
+  },
+
   /**
    * Get list of property owners for the owner selector
    * Admin users get all owners; non-admin users get only themselves
@@ -0,0 +1,44 @@
+import { api } from '../api';
+import type {
+  TransactionCategory,
+  CreateTransactionCategoryRequest,
+  UpdateTransactionCategoryRequest,
+  TransactionCategoryFilters,
+  TransactionCategoriesResponse,
+  TransactionCategoryResponse,
+} from '../../types/api.types';
+
+export const transactionCategoriesService = {
+  /**
+   * Get transaction categories in display order
+   * @param filters - Optional type filter; archived categories are only included on request
+   * @returns Array of categories
+   */
+  async getCategories(filters?: TransactionCategoryFilters): Promise<TransactionCategory[]> {
+    const response = await api.get<TransactionCategoriesResponse>('/transaction-categories', {
+      params: filters,
+    });
+    return response.data.categories;
+  },
+
+  /**
+   * Create a new category (admin only)
+   * @param data - Category name, type and optional parent
+   * @returns Created category
+   */
+  async createCategory(data: CreateTransactionCategoryRequest): Promise<TransactionCategory> {
+    const response = await api.post<TransactionCategoryResponse>('/transaction-categories', data);
+    return response.data.category;
+  },
+
+  /**
+   * Update, rename or archive a category (admin only)
+   * @param id - Category ID
+   * @param data - Updated category data (a rename is applied to existing transactions)
+   * @returns Updated category
+   */
+  async updateCategory(id: string, data: UpdateTransactionCategoryRequest): Promise<TransactionCategory> {
+    const response = await api.put<TransactionCategoryResponse>(`/transaction-categories/${id}`, data);
+    return response.data.category;
+  },
+};
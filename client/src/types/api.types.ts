@@ -58,6 +58,7 @@ export interface Property {
   notes?: string | null;
   createdAt: string;
   updatedAt: string;
+  units?: Unit[];
 }
 
 export interface CreatePropertyRequest {
@@ -102,6 +103,82 @@ export interface PropertyResponse {
   property: Property;
 }
 
+// Unit Types (separately lettable parts of a property, e.g. HMO rooms)
+export type UnitStatus = 'Available' | 'Occupied' | 'Under Maintenance';
+
+export interface Unit {
+  id: string;
+  propertyId: string;
+  name: string;
+  status: UnitStatus;
+  notes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateUnitRequest {
+  name: string;
+  status: UnitStatus;
+  notes?: string | null;
+}
+
+export interface UpdateUnitRequest {
+  name?: string;
+  status?: UnitStatus;
+  notes?: string | null;
+}
+
+export interface UnitsResponse {
+  success: true;
+  units: Unit[];
+}
+
+export interface UnitResponse {
+  success: true;
+  unit: Unit;
+}
+
+export interface OccupancyLease {
+  id: string;
+  unitId: string | null;
+  startDate: string;
+  endDate: string | null;
+  rentAmount: number;
+  rentFrequency: RentFrequency;
+  tenants: Array<{ id: string; name: string }>;
+}
+
+export interface UnitOccupancy {
+  unit: {
+    id: string;
+    name: string;
+    status: UnitStatus;
+  };
+  occupied: boolean;
+  lease: OccupancyLease | null;
+  vacantSince: string | null;
+}
+
+export interface PropertyOccupancy {
+  propertyId: string;
+  asOf: string;
+  wholePropertyLease: OccupancyLease | null;
+  units: UnitOccupancy[];
+  summary: {
+    totalUnits: number;
+    occupiedUnits: number;
+    vacantUnits: number;
+    occupancyRate: number;
+    annualRentRoll: number;
+    monthlyRentRoll: number;
+  };
+}
+
+export interface PropertyOccupancyResponse {
+  success: true;
+  occupancy: PropertyOccupancy;
+}
+
 // Tenants Types
 export interface Tenant {
   id: string;
@@ -115,6 +192,7 @@ export interface Tenant {
   notes?: string | null;
   createdAt: string;
   updatedAt: string;
+  guarantors?: Guarantor[];
 }
 
 export interface CreateTenantRequest {
@@ -160,46 +238,279 @@ export interface TenantResponse {
 }
 
 // Leases Types
+export type RentFrequency = 'Weekly' | 'Fortnightly' | 'Four-weekly' | 'Monthly' | 'Quarterly' | 'Annually';
+
 export interface Lease {
   id: string;
   propertyId: string;
+  unitId?: string | null;
   tenantId: string;
   startDate: string;
   endDate?: string | null;
-  monthlyRent: number;
+  rentAmount: number;
+  rentFrequency: RentFrequency;
+  rentDueDay?: number | null;
   securityDepositAmount: number;
   securityDepositPaidDate?: string | null;
+  depositScheme?: DepositScheme | null;
+  depositCertificateRef?: string | null;
+  depositProtectedDate?: string | null;
+  prescribedInfoServedAt?: string | null;
+  depositReturnedDate?: string | null;
+  depositReturnedAmount?: number | null;
   status: 'Draft' | 'Active' | 'Expired' | 'Terminated';
   createdAt: string;
   updatedAt: string;
   property?: Property;
+  unit?: Unit | null;
+  tenant?: Tenant;
+  tenants?: LeaseTenant[];
+  previousLeaseId?: string | null;
+  previousLease?: LeaseRenewalLink | null;
+  renewal?: LeaseRenewalLink | null;
+  rentChanges?: RentChange[];
+  guarantors?: LeaseGuarantor[];
+}
+
+// Terms of a neighbouring lease in a renewal chain
+export interface LeaseRenewalLink {
+  id: string;
+  startDate: string;
+  endDate?: string | null;
+  rentAmount: number;
+  rentFrequency: RentFrequency;
+  status: 'Draft' | 'Active' | 'Expired' | 'Terminated';
+}
+
+export interface LeaseTenant {
+  id: string;
+  leaseId: string;
+  tenantId: string;
+  isLead: boolean;
+  createdAt: string;
   tenant?: Tenant;
 }
 
 export interface CreateLeaseRequest {
   propertyId: string;
+  unitId?: string | null;
   tenantId: string;
   startDate: string;
   endDate?: string | null;
-  monthlyRent: number;
+  rentAmount: number;
+  rentFrequency?: RentFrequency;
+  rentDueDay?: number | null;
   securityDepositAmount: number;
   securityDepositPaidDate?: string | null;
+  depositScheme?: DepositScheme | null;
+  depositCertificateRef?: string | null;
+  depositProtectedDate?: string | null;
+  prescribedInfoServedAt?: string | null;
   status: 'Draft' | 'Active' | 'Expired' | 'Terminated';
+  jointTenantIds?: string[];
 }
 
 export interface UpdateLeaseRequest {
   propertyId?: string;
+  unitId?: string | null;
   tenantId?: string;
   startDate?: string;
   endDate?: string | null;
-  monthlyRent?: number;
+  rentAmount?: number;
+  rentFrequency?: RentFrequency;
+  rentDueDay?: number | null;
   securityDepositAmount?: number;
   securityDepositPaidDate?: string | null;
+  depositScheme?: DepositScheme | null;
+  depositCertificateRef?: string | null;
+  depositProtectedDate?: string | null;
+  prescribedInfoServedAt?: string | null;
   status?: 'Draft' | 'Active' | 'Expired' | 'Terminated';
+  jointTenantIds?: string[];
+}
+
+export interface RenewLeaseRequest {
+  startDate?: string;
+  endDate?: string | null;
+  rentAmount: number;
+  rentFrequency?: RentFrequency;
+  rentDueDay?: number | null;
+}
+
+// Guarantor Types
+export type GuarantorRelationship = 'Parent' | 'Relative' | 'Employer' | 'Friend' | 'Other';
+
+export interface Guarantor {
+  id: string;
+  tenantId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  address?: string | null;
+  relationship: GuarantorRelationship;
+  liabilityCap?: number | null;
+  deedDocumentId?: string | null;
+  notes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  tenant?: Tenant;
+  deedDocument?: Document | null;
+  leases?: LeaseGuarantor[];
+}
+
+// A lease a guarantor has signed for
+export interface LeaseGuarantor {
+  id?: string;
+  leaseId: string;
+  guarantorId?: string;
+  createdAt?: string;
+  lease?: Lease;
+  guarantor?: Guarantor;
+}
+
+export interface CreateGuarantorRequest {
+  tenantId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  address?: string | null;
+  relationship: GuarantorRelationship;
+  liabilityCap?: number | null;
+  deedDocumentId?: string | null;
+  notes?: string | null;
+  leaseIds: string[];
+}
+
+export interface UpdateGuarantorRequest {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  address?: string | null;
+  relationship?: GuarantorRelationship;
+  liabilityCap?: number | null;
+  deedDocumentId?: string | null;
+  notes?: string | null;
+  leaseIds?: string[];
+}
+
+export interface GuarantorFilters {
+  tenant_id?: string;
+  lease_id?: string;
+}
+
+export interface GuarantorsResponse {
+  success: true;
+  guarantors: Guarantor[];
+}
+
+export interface GuarantorResponse {
+  success: true;
+  guarantor: Guarantor;
+}
+
+// Rent Review Types
+export interface RentChange {
+  id: string;
+  leaseId: string;
+  effectiveDate: string;
+  rentAmount: number;
+  noticeDate: string;
+  noticeServedAt?: string | null;
+  notes?: string | null;
+  createdAt: string;
+}
+
+export type RentChangeStatus = 'Superseded' | 'In Effect' | 'Scheduled';
+
+export interface RentHistoryEntry {
+  rentChangeId: string | null;
+  effectiveDate: string;
+  rentAmount: number;
+  noticeDate: string | null;
+  noticeServedAt: string | null;
+  notes: string | null;
+  status: RentChangeStatus;
+}
+
+export interface RentHistory {
+  leaseId: string;
+  asOf: string;
+  rentFrequency: RentFrequency;
+  currentRent: number;
+  entries: RentHistoryEntry[];
+}
+
+export interface RentHistoryResponse {
+  success: true;
+  rentHistory: RentHistory;
+}
+
+export interface CreateRentChangeRequest {
+  effectiveDate: string;
+  rentAmount: number;
+  noticeServedAt?: string | null;
+  notes?: string | null;
+}
+
+export interface RentChangeResponse {
+  success: true;
+  rentChange: RentChange;
+}
+
+// Deposit Protection Types
+export type DepositScheme = 'DPS' | 'mydeposits' | 'TDS';
+
+export type DepositProtectionStatus = 'Not Required' | 'Not Received' | 'Pending' | 'Compliant' | 'Breach';
+
+export interface DepositCompliance {
+  status: DepositProtectionStatus;
+  deadline: string | null;
+  daysUntilDeadline: number | null;
+  isProtected: boolean;
+  prescribedInfoServed: boolean;
+  breaches: string[];
+  isReturned: boolean;
+}
+
+export interface DepositDeduction {
+  id: string;
+  leaseId: string;
+  description: string;
+  amount: number;
+  transactionId?: string | null;
+  createdAt: string;
+}
+
+export interface LeaseDeposit {
+  leaseId: string;
+  amount: number;
+  paidDate: string | null;
+  scheme: DepositScheme | null;
+  certificateRef: string | null;
+  protectedDate: string | null;
+  prescribedInfoServedAt: string | null;
+  returnedDate: string | null;
+  returnedAmount: number | null;
+  deductions: DepositDeduction[];
+  compliance: DepositCompliance;
+}
+
+export interface LeaseDepositResponse {
+  success: true;
+  deposit: LeaseDeposit;
+}
+
+export interface ReturnDepositRequest {
+  returnDate: string;
+  deductions: Array<{ description: string; amount: number }>;
 }
 
 export interface LeaseFilters {
   propertyId?: string | string[];
+  unitId?: string;
   tenantId?: string;
   status?: 'Draft' | 'Active' | 'Expired' | 'Terminated';
 }
@@ -214,10 +525,55 @@ export interface LeaseResponse {
   lease: Lease;
 }
 
+export interface RenewLeaseResponse {
+  success: true;
+  lease: Lease;
+  previousLease: Lease;
+}
+
+// Rent Ledger Types
+export type RentPeriodStatus = 'Paid' | 'Part Paid' | 'Overdue' | 'Upcoming';
+
+export interface RentPeriod {
+  periodStart: string;
+  periodEnd: string;
+  dueDate: string;
+  amountDue: number;
+  amountPaid: number;
+  balance: number;
+  status: RentPeriodStatus;
+  isProRata: boolean;
+}
+
+export interface RentPayment {
+  transactionId: string;
+  transactionDate: string;
+  amount: number;
+  description: string;
+}
+
+export interface LeaseLedger {
+  leaseId: string;
+  asOf: string;
+  periods: RentPeriod[];
+  payments: RentPayment[];
+  totalDue: number;
+  totalPaid: number;
+  arrears: number;
+  overduePeriods: number;
+  oldestUnpaidDueDate: string | null;
+}
+
+export interface LeaseLedgerResponse {
+  success: true;
+  ledger: LeaseLedger;
+}
+
 // Transactions Types
 export interface Transaction {
   id: string;
   propertyId: string;
+  unitId?: string | null;
   leaseId?: string | null;
   type: 'Income' | 'Expense';
   category: string;
@@ -225,6 +581,7 @@ export interface Transaction {
   transactionDate: string;
   description?: string | null;
   paidByUserId?: string | null;
+  recurringTransactionId?: string | null;
   createdAt: string;
   updatedAt: string;
   property?: Property;
@@ -241,6 +598,7 @@ export interface TransactionSplit {
 
 export interface CreateTransactionRequest {
   propertyId: string;
+  unitId?: string | null;
   leaseId?: string | null;
   type: 'Income' | 'Expense';
   category: string;
@@ -253,6 +611,7 @@ export interface CreateTransactionRequest {
 
 export interface UpdateTransactionRequest {
   propertyId?: string;
+  unitId?: string | null;
   leaseId?: string | null;
   type?: 'Income' | 'Expense';
   category?: string;
@@ -293,10 +652,124 @@ export interface TransactionSummaryResponse {
   summary: TransactionSummary;
 }
 
+// Transaction Category Types
+export interface TransactionCategory {
+  id: string;
+  name: string;
+  type: 'Income' | 'Expense';
+  parentId: string | null;
+  sortOrder: number;
+  isArchived: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateTransactionCategoryRequest {
+  name: string;
+  type: 'Income' | 'Expense';
+  parentId?: string | null;
+}
+
+export interface UpdateTransactionCategoryRequest {
+  name?: string;
+  parentId?: string | null;
+  sortOrder?: number;
+  isArchived?: boolean;
+}
+
+export interface TransactionCategoryFilters {
+  type?: 'Income' | 'Expense';
+  include_archived?: boolean;
+}
+
+export interface TransactionCategoriesResponse {
+  success: true;
+  categories: TransactionCategory[];
+}
+
+export interface TransactionCategoryResponse {
+  success: true;
+  category: TransactionCategory;
+}
+
+// Recurring Transaction Types
+// Template splits are percentages; amounts are worked out when each transaction is created
+export interface RecurringTransactionSplit {
+  id: string;
+  userId: string;
+  percentage: number;
+  user?: { id: string; email: string };
+}
+
+export interface RecurringTransaction {
+  id: string;
+  propertyId: string;
+  type: 'Income' | 'Expense';
+  category: string;
+  amount: number;
+  description: string;
+  paidByUserId: string | null;
+  frequency: RentFrequency;
+  startDate: string;
+  endDate: string | null;
+  nextRunDate: string;
+  lastRunDate: string | null;
+  isPaused: boolean;
+  createdAt: string;
+  updatedAt: string;
+  property?: { id: string; name: string };
+  paidBy?: { id: string; email: string } | null;
+  splits?: RecurringTransactionSplit[];
+}
+
+export interface CreateRecurringTransactionRequest {
+  propertyId: string;
+  type: 'Income' | 'Expense';
+  category: string;
+  amount: number;
+  description: string;
+  paidByUserId?: string | null;
+  frequency: RentFrequency;
+  startDate: string;
+  endDate?: string | null;
+  nextRunDate?: string;
+  splits?: Array<{ userId: string; percentage: number }>;
+}
+
+export interface UpdateRecurringTransactionRequest {
+  type?: 'Income' | 'Expense';
+  category?: string;
+  amount?: number;
+  description?: string;
+  paidByUserId?: string | null;
+  frequency?: RentFrequency;
+  startDate?: string;
+  endDate?: string | null;
+  nextRunDate?: string;
+  isPaused?: boolean;
+  // null clears custom splits so property ownership is used again
+  splits?: Array<{ userId: string; percentage: number }> | null;
+}
+
+export interface RecurringTransactionFilters {
+  property_id?: string;
+}
+
+export interface RecurringTransactionsResponse {
+  success: true;
+  recurringTransactions: RecurringTransaction[];
+}
+
+export interface RecurringTransactionResponse {
+  success: true;
+  recurringTransaction: RecurringTransaction;
+}
+
 // Events Types
 export interface Event {
   id: string;
   propertyId: string;
+  unitId?: string | null;
   eventType: 'Inspection' | 'Maintenance' | 'Repair' | 'Meeting' | 'Rent Due Date' | 'Lease Renewal' | 'Viewing';
   title: string;
   scheduledDate: string;
@@ -309,6 +782,7 @@ export interface Event {
 
 export interface CreateEventRequest {
   propertyId: string;
+  unitId?: string | null;
   eventType: 'Inspection' | 'Maintenance' | 'Repair' | 'Meeting' | 'Rent Due Date' | 'Lease Renewal' | 'Viewing';
   title: string;
   scheduledDate: string;
@@ -319,6 +793,7 @@ export interface CreateEventRequest {
 
 export interface UpdateEventRequest {
   propertyId?: string;
+  unitId?: string | null;
   eventType?: 'Inspection' | 'Maintenance' | 'Repair' | 'Meeting' | 'Rent Due Date' | 'Lease Renewal' | 'Viewing';
   title?: string;
   scheduledDate?: string;
@@ -348,7 +823,7 @@ export interface EventResponse {
 // Documents Types
 export interface Document {
   id: string;
-  entityType: 'Property' | 'Tenant' | 'Lease' | 'Transaction';
+  entityType: 'Property' | 'Tenant' | 'Lease' | 'Transaction' | 'Guarantor';
   entityId: string;
   fileName: string;
   filePath: string;
@@ -456,6 +931,148 @@ export interface OwnerPLReportResponse {
   report: OwnerPLReport;
 }
 
+// Arrears Report Types
+export interface ArrearsReportLease {
+  leaseId: string;
+  leaseStatus: 'Draft' | 'Active' | 'Expired' | 'Terminated';
+  property: {
+    id: string;
+    name: string;
+  };
+  tenant: {
+    id: string;
+    name: string;
+  };
+  rentAmount: number;
+  rentFrequency: RentFrequency;
+  annualRent: number;
+  totalDue: number;
+  totalPaid: number;
+  arrears: number;
+  overduePeriods: number;
+  oldestUnpaidDueDate: string | null;
+}
+
+export interface ArrearsReport {
+  asOf: string;
+  leases: ArrearsReportLease[];
+  summary: {
+    totalArrears: number;
+    leasesInArrears: number;
+  };
+}
+
+export interface ArrearsReportResponse {
+  success: true;
+  report: ArrearsReport;
+}
+
+// Rent Roll Report Types
+export interface RentRollReportLease {
+  leaseId: string;
+  property: {
+    id: string;
+    name: string;
+  };
+  tenant: {
+    id: string;
+    name: string;
+  };
+  rentAmount: number;
+  rentFrequency: RentFrequency;
+  annualRent: number;
+  monthlyEquivalent: number;
+}
+
+export interface RentRollReport {
+  asOf: string;
+  leases: RentRollReportLease[];
+  summary: {
+    activeLeases: number;
+    totalAnnualRent: number;
+    totalMonthlyEquivalent: number;
+  };
+}
+
+export interface RentRollReportResponse {
+  success: true;
+  report: RentRollReport;
+}
+
+// Arrears Aging Report Types
+export interface ArrearsAgingBuckets {
+  days0to30: number;
+  days31to60: number;
+  days61to90: number;
+  days90Plus: number;
+  total: number;
+}
+
+export interface ArrearsAgingTenant {
+  leaseId: string;
+  leaseStatus: 'Draft' | 'Active' | 'Expired' | 'Terminated';
+  tenant: {
+    id: string;
+    name: string;
+  };
+  oldestUnpaidDueDate: string | null;
+  buckets: ArrearsAgingBuckets;
+}
+
+export interface ArrearsAgingProperty {
+  property: {
+    id: string;
+    name: string;
+  };
+  tenants: ArrearsAgingTenant[];
+  buckets: ArrearsAgingBuckets;
+}
+
+export interface ArrearsAgingReport {
+  asOf: string;
+  properties: ArrearsAgingProperty[];
+  totals: ArrearsAgingBuckets;
+}
+
+export interface ArrearsAgingReportResponse {
+  success: true;
+  report: ArrearsAgingReport;
+}
+
+// Deposit Compliance Report Types
+export interface DepositComplianceReportLease {
+  leaseId: string;
+  leaseStatus: 'Draft' | 'Active' | 'Expired' | 'Terminated';
+  property: {
+    id: string;
+    name: string;
+  };
+  tenant: {
+    id: string;
+    name: string;
+  };
+  securityDepositAmount: number;
+  securityDepositPaidDate: string | null;
+  depositScheme: DepositScheme | null;
+  depositCertificateRef: string | null;
+  compliance: DepositCompliance;
+}
+
+export interface DepositComplianceReport {
+  asOf: string;
+  leases: DepositComplianceReportLease[];
+  summary: {
+    totalHeld: number;
+    breaches: number;
+    pending: number;
+  };
+}
+
+export interface DepositComplianceReportResponse {
+  success: true;
+  report: DepositComplianceReport;
+}
+
 export interface ReportOwner {
   id: string;
   email: string;
@@ -17,6 +17,7 @@ export interface TenantCardProps {
   tenant: Tenant;
   currentProperty?: Property;
   onClick?: () => void;
+  onGuarantorsClick?: () => void;
 }
 
 // TransactionRow Types
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "lease_tenants" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "lease_id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "is_lead" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "lease_tenants_lease_id_fkey" FOREIGN KEY ("lease_id") REFERENCES "leases" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "lease_tenants_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lease_tenants_lease_id_tenant_id_key" ON "lease_tenants"("lease_id", "tenant_id");
+
+-- CreateIndex
+CREATE INDEX "lease_tenants_tenant_id_idx" ON "lease_tenants"("tenant_id");
+
+-- Migrate existing single-tenant leases: each lease's tenant becomes its lead tenant
+INSERT INTO "lease_tenants" ("id", "lease_id", "tenant_id", "is_lead", "created_at")
+SELECT
+    lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' ||
+    substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))),
+    "id",
+    "tenant_id",
+    true,
+    CURRENT_TIMESTAMP
+FROM "leases";
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "units" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "property_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "notes" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "units_property_id_fkey" FOREIGN KEY ("property_id") REFERENCES "properties" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "units_property_id_name_key" ON "units"("property_id", "name");
+
+-- AlterTable
+ALTER TABLE "leases" ADD COLUMN "unit_id" TEXT CONSTRAINT "leases_unit_id_fkey" REFERENCES "units" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "unit_id" TEXT CONSTRAINT "transactions_unit_id_fkey" REFERENCES "units" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN "unit_id" TEXT CONSTRAINT "events_unit_id_fkey" REFERENCES "units" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "leases" ADD COLUMN "previous_lease_id" TEXT CONSTRAINT "leases_previous_lease_id_fkey" REFERENCES "leases" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "leases_previous_lease_id_key" ON "leases"("previous_lease_id");
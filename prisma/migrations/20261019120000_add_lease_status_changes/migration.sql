@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "lease_status_changes" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "lease_id" TEXT NOT NULL,
+    "from_status" TEXT NOT NULL,
+    "to_status" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "changed_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "lease_status_changes_lease_id_fkey" FOREIGN KEY ("lease_id") REFERENCES "leases" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "lease_status_changes_lease_id_changed_at_idx" ON "lease_status_changes"("lease_id", "changed_at");
+
+-- CreateIndex
+CREATE INDEX "lease_status_changes_changed_at_idx" ON "lease_status_changes"("changed_at");
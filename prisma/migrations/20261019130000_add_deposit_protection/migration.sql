@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "leases" ADD COLUMN "deposit_scheme" TEXT;
+ALTER TABLE "leases" ADD COLUMN "deposit_certificate_ref" TEXT;
+ALTER TABLE "leases" ADD COLUMN "deposit_protected_date" DATETIME;
+ALTER TABLE "leases" ADD COLUMN "prescribed_info_served_at" DATETIME;
+ALTER TABLE "leases" ADD COLUMN "deposit_returned_date" DATETIME;
+ALTER TABLE "leases" ADD COLUMN "deposit_returned_amount" REAL;
+
+-- CreateTable
+CREATE TABLE "deposit_deductions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "lease_id" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "transaction_id" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "deposit_deductions_lease_id_fkey" FOREIGN KEY ("lease_id") REFERENCES "leases" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "deposit_deductions_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "transactions" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "deposit_deductions_transaction_id_key" ON "deposit_deductions"("transaction_id");
+
+-- CreateIndex
+CREATE INDEX "deposit_deductions_lease_id_idx" ON "deposit_deductions"("lease_id");
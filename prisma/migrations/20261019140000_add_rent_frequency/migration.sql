@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "leases" RENAME COLUMN "monthly_rent" TO "rent_amount";
+ALTER TABLE "leases" ADD COLUMN "rent_frequency" TEXT NOT NULL DEFAULT 'Monthly';
+ALTER TABLE "leases" ADD COLUMN "rent_due_day" INTEGER;
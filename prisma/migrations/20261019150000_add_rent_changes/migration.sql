@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "rent_changes" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "lease_id" TEXT NOT NULL,
+    "effective_date" DATETIME NOT NULL,
+    "rent_amount" REAL NOT NULL,
+    "notice_date" DATETIME NOT NULL,
+    "notice_served_at" DATETIME,
+    "notes" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "rent_changes_lease_id_fkey" FOREIGN KEY ("lease_id") REFERENCES "leases" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rent_changes_lease_id_effective_date_key" ON "rent_changes"("lease_id", "effective_date");
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "guarantors" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "tenant_id" TEXT NOT NULL,
+    "first_name" TEXT NOT NULL,
+    "last_name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "address" TEXT,
+    "relationship" TEXT NOT NULL,
+    "liability_cap" REAL,
+    "deed_document_id" TEXT,
+    "notes" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "guarantors_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "guarantors_deed_document_id_fkey" FOREIGN KEY ("deed_document_id") REFERENCES "documents" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "lease_guarantors" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "lease_id" TEXT NOT NULL,
+    "guarantor_id" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "lease_guarantors_lease_id_fkey" FOREIGN KEY ("lease_id") REFERENCES "leases" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "lease_guarantors_guarantor_id_fkey" FOREIGN KEY ("guarantor_id") REFERENCES "guarantors" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "guarantors_tenant_id_idx" ON "guarantors"("tenant_id");
+
+-- CreateIndex
+CREATE INDEX "lease_guarantors_guarantor_id_idx" ON "lease_guarantors"("guarantor_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lease_guarantors_lease_id_guarantor_id_key" ON "lease_guarantors"("lease_id", "guarantor_id");
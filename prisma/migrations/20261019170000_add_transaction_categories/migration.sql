@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "transaction_categories" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "parent_id" TEXT,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    "is_archived" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "transaction_categories_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "transaction_categories" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transaction_categories_name_key" ON "transaction_categories"("name");
+
+-- CreateIndex
+CREATE INDEX "transaction_categories_parent_id_idx" ON "transaction_categories"("parent_id");
+
+-- Seed the categories that were previously hardcoded
+INSERT INTO "transaction_categories" ("id", "name", "type", "sort_order", "updated_at")
+SELECT
+    lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' ||
+    substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))),
+    "name",
+    "type",
+    "sort_order",
+    CURRENT_TIMESTAMP
+FROM (
+    SELECT 'Rent' AS "name", 'Income' AS "type", 0 AS "sort_order"
+    UNION ALL SELECT 'Security Deposit', 'Income', 1
+    UNION ALL SELECT 'Late Fee', 'Income', 2
+    UNION ALL SELECT 'Lease Fee', 'Income', 3
+    UNION ALL SELECT 'Maintenance', 'Expense', 4
+    UNION ALL SELECT 'Repair', 'Expense', 5
+    UNION ALL SELECT 'Utilities', 'Expense', 6
+    UNION ALL SELECT 'Insurance', 'Expense', 7
+    UNION ALL SELECT 'Property Tax', 'Expense', 8
+    UNION ALL SELECT 'Management Fee', 'Expense', 9
+    UNION ALL SELECT 'Legal Fee', 'Expense', 10
+    UNION ALL SELECT 'Transport', 'Expense', 11
+    UNION ALL SELECT 'Other', 'Expense', 12
+);
+
+-- Keep any other categories already in use, typed by the rows that use them
+INSERT OR IGNORE INTO "transaction_categories" ("id", "name", "type", "sort_order", "updated_at")
+SELECT
+    lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' || substr(lower(hex(randomblob(2))), 2) || '-' ||
+    substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' || lower(hex(randomblob(6))),
+    "name",
+    "type",
+    13,
+    CURRENT_TIMESTAMP
+FROM (
+    SELECT "category" AS "name", MIN("type") AS "type" FROM "transactions" GROUP BY "category"
+    UNION
+    SELECT "category", MIN("type") FROM "pending_transactions" WHERE "category" IS NOT NULL AND "type" IS NOT NULL GROUP BY "category"
+    UNION
+    SELECT "category", CASE MIN("type") WHEN 'INCOME' THEN 'Income' ELSE 'Expense' END
+    FROM "matching_rules" WHERE "category" IS NOT NULL AND "type" IS NOT NULL GROUP BY "category"
+);
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "recurring_transactions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "property_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "description" TEXT NOT NULL,
+    "paid_by_user_id" TEXT,
+    "frequency" TEXT NOT NULL,
+    "start_date" DATETIME NOT NULL,
+    "end_date" DATETIME,
+    "next_run_date" DATETIME NOT NULL,
+    "last_run_date" DATETIME,
+    "is_paused" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "recurring_transactions_property_id_fkey" FOREIGN KEY ("property_id") REFERENCES "properties" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "recurring_transactions_paid_by_user_id_fkey" FOREIGN KEY ("paid_by_user_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "recurring_transaction_splits" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "recurring_transaction_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "percentage" REAL NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "recurring_transaction_splits_recurring_transaction_id_fkey" FOREIGN KEY ("recurring_transaction_id") REFERENCES "recurring_transactions" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "recurring_transaction_splits_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "recurring_transaction_id" TEXT CONSTRAINT "transactions_recurring_transaction_id_fkey" REFERENCES "recurring_transactions" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX "recurring_transactions_next_run_date_idx" ON "recurring_transactions"("next_run_date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recurring_transaction_splits_recurring_transaction_id_user_id_key" ON "recurring_transaction_splits"("recurring_transaction_id", "user_id");
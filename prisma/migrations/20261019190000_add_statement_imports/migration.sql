@@ -0,0 +1,29 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_bank_accounts" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "account_id" TEXT NOT NULL,
+    "account_name" TEXT NOT NULL,
+    "account_type" TEXT NOT NULL,
+    "provider" TEXT NOT NULL DEFAULT 'monzo',
+    "access_token" TEXT,
+    "refresh_token" TEXT,
+    "token_expires_at" DATETIME,
+    "sync_enabled" BOOLEAN NOT NULL DEFAULT true,
+    "sync_from_date" DATETIME NOT NULL,
+    "last_sync_at" DATETIME,
+    "last_sync_status" TEXT NOT NULL DEFAULT 'never_synced',
+    "webhook_id" TEXT,
+    "webhook_url" TEXT,
+    "csv_mapping" TEXT,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL
+);
+INSERT INTO "new_bank_accounts" ("access_token", "account_id", "account_name", "account_type", "created_at", "id", "last_sync_at", "last_sync_status", "provider", "refresh_token", "sync_enabled", "sync_from_date", "token_expires_at", "updated_at", "webhook_id", "webhook_url") SELECT "access_token", "account_id", "account_name", "account_type", "created_at", "id", "last_sync_at", "last_sync_status", "provider", "refresh_token", "sync_enabled", "sync_from_date", "token_expires_at", "updated_at", "webhook_id", "webhook_url" FROM "bank_accounts";
+DROP TABLE "bank_accounts";
+ALTER TABLE "new_bank_accounts" RENAME TO "bank_accounts";
+CREATE UNIQUE INDEX "bank_accounts_account_id_key" ON "bank_accounts"("account_id");
+CREATE UNIQUE INDEX "bank_accounts_webhook_id_key" ON "bank_accounts"("webhook_id");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "bank_accounts" ADD COLUMN "sync_interval_minutes" INTEGER NOT NULL DEFAULT 360;
+ALTER TABLE "bank_accounts" ADD COLUMN "next_scheduled_sync_at" DATETIME;
+ALTER TABLE "bank_accounts" ADD COLUMN "sync_failure_count" INTEGER NOT NULL DEFAULT 0;
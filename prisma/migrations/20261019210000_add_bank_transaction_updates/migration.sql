@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "bank_transactions" ADD COLUMN "decline_reason" TEXT;
+ALTER TABLE "bank_transactions" ADD COLUMN "reversed_at" DATETIME;
+
+-- AlterTable
+ALTER TABLE "pending_transactions" ADD COLUMN "flagged_at" DATETIME;
+ALTER TABLE "pending_transactions" ADD COLUMN "flag_reason" TEXT;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "bank_reconciliations" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "bank_account_id" TEXT NOT NULL,
+    "statement_date" DATETIME NOT NULL,
+    "statement_balance" REAL NOT NULL,
+    "opening_balance" REAL NOT NULL,
+    "ledger_balance" REAL NOT NULL,
+    "difference" REAL NOT NULL,
+    "notes" TEXT,
+    "created_by" TEXT NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "locked_at" DATETIME,
+    "locked_by" TEXT,
+    CONSTRAINT "bank_reconciliations_bank_account_id_fkey" FOREIGN KEY ("bank_account_id") REFERENCES "bank_accounts" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "bank_transactions" ADD COLUMN "reconciliation_id" TEXT CONSTRAINT "bank_transactions_reconciliation_id_fkey" REFERENCES "bank_reconciliations" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX "bank_reconciliations_bank_account_id_statement_date_idx" ON "bank_reconciliations"("bank_account_id", "statement_date");
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "matching_rules" ADD COLUMN "lease_id" TEXT CONSTRAINT "matching_rules_lease_id_fkey" REFERENCES "leases" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "matching_rules" ADD COLUMN "paid_by_user_id" TEXT CONSTRAINT "matching_rules_paid_by_user_id_fkey" REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateTable
+CREATE TABLE "matching_rule_splits" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "matching_rule_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "percentage" REAL NOT NULL,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "matching_rule_splits_matching_rule_id_fkey" FOREIGN KEY ("matching_rule_id") REFERENCES "matching_rules" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "matching_rule_splits_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "matching_rule_splits_matching_rule_id_user_id_key" ON "matching_rule_splits"("matching_rule_id", "user_id");
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "rule_suggestion_dismissals" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "bank_account_id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "dismissed_by" TEXT NOT NULL,
+    "dismissed_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "rule_suggestion_dismissals_bank_account_id_fkey" FOREIGN KEY ("bank_account_id") REFERENCES "bank_accounts" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rule_suggestion_dismissals_bank_account_id_key_key" ON "rule_suggestion_dismissals"("bank_account_id", "key");
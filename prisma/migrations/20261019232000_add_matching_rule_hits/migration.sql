@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "matching_rule_hits" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "rule_id" TEXT NOT NULL,
+    "bank_transaction_id" TEXT NOT NULL,
+    "fields" TEXT NOT NULL,
+    "shadowed" BOOLEAN NOT NULL DEFAULT false,
+    "hit_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "matching_rule_hits_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "matching_rules" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "matching_rule_hits_bank_transaction_id_fkey" FOREIGN KEY ("bank_transaction_id") REFERENCES "bank_transactions" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "matching_rule_hits_bank_transaction_id_idx" ON "matching_rule_hits"("bank_transaction_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "matching_rule_hits_rule_id_bank_transaction_id_key" ON "matching_rule_hits"("rule_id", "bank_transaction_id");
@@ -0,0 +1,48 @@
+-- Restore the bank link columns that 20260127001616_add_multi_owner_models
+-- left out when it rebuilt "transactions"
+ALTER TABLE "transactions" ADD COLUMN "bank_transaction_id" TEXT;
+ALTER TABLE "transactions" ADD COLUMN "is_imported" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "transactions" ADD COLUMN "imported_at" DATETIME;
+
+-- Link rule-created ledger transactions to the bank transaction they came from
+UPDATE "transactions" SET "bank_transaction_id" = (
+    SELECT "id" FROM "bank_transactions" WHERE "bank_transactions"."transaction_id" = "transactions"."id"
+) WHERE "bank_transaction_id" IS NULL;
+
+-- Clear links to bank transactions that no longer exist
+UPDATE "transactions" SET "bank_transaction_id" = NULL
+WHERE "bank_transaction_id" NOT IN (SELECT "id" FROM "bank_transactions");
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_transactions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "property_id" TEXT NOT NULL,
+    "unit_id" TEXT,
+    "lease_id" TEXT,
+    "type" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "transaction_date" DATETIME NOT NULL,
+    "description" TEXT NOT NULL,
+    "paid_by_user_id" TEXT,
+    "bank_transaction_id" TEXT,
+    "recurring_transaction_id" TEXT,
+    "is_imported" BOOLEAN NOT NULL DEFAULT false,
+    "imported_at" DATETIME,
+    "created_at" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" DATETIME NOT NULL,
+    CONSTRAINT "transactions_property_id_fkey" FOREIGN KEY ("property_id") REFERENCES "properties" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "transactions_unit_id_fkey" FOREIGN KEY ("unit_id") REFERENCES "units" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "transactions_lease_id_fkey" FOREIGN KEY ("lease_id") REFERENCES "leases" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "transactions_paid_by_user_id_fkey" FOREIGN KEY ("paid_by_user_id") REFERENCES "users" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "transactions_bank_transaction_id_fkey" FOREIGN KEY ("bank_transaction_id") REFERENCES "bank_transactions" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "transactions_recurring_transaction_id_fkey" FOREIGN KEY ("recurring_transaction_id") REFERENCES "recurring_transactions" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_transactions" ("amount", "bank_transaction_id", "category", "created_at", "description", "id", "imported_at", "is_imported", "lease_id", "paid_by_user_id", "property_id", "recurring_transaction_id", "transaction_date", "type", "unit_id", "updated_at") SELECT "amount", "bank_transaction_id", "category", "created_at", "description", "id", "imported_at", "is_imported", "lease_id", "paid_by_user_id", "property_id", "recurring_transaction_id", "transaction_date", "type", "unit_id", "updated_at" FROM "transactions";
+DROP TABLE "transactions";
+ALTER TABLE "new_transactions" RENAME TO "transactions";
+CREATE INDEX "transactions_bank_transaction_id_idx" ON "transactions"("bank_transaction_id");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "bank_transactions" ADD COLUMN "duplicate_of_id" TEXT CONSTRAINT "bank_transactions_duplicate_of_id_fkey" REFERENCES "bank_transactions" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "bank_transactions" ADD COLUMN "duplicate_status" TEXT;
+
+-- AlterTable
+ALTER TABLE "sync_logs" ADD COLUMN "transactions_held" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "bank_transactions_duplicate_status_idx" ON "bank_transactions"("duplicate_status");
@@ -328,7 +328,7 @@ async function seedLeases(properties: Property[], tenants: Tenant[]) {
         tenantId: tenants[0].id,
         startDate: getRelativeDate(6, 1),
         endDate: getFutureDate(180),
-        monthlyRent: 850,
+        rentAmount: 850,
         securityDepositAmount: 850,
         securityDepositPaidDate: getRelativeDate(6, 15),
         status: 'Active',
@@ -341,7 +341,7 @@ async function seedLeases(properties: Property[], tenants: Tenant[]) {
         tenantId: tenants[1].id,
         startDate: getRelativeDate(9, 1),
         endDate: getFutureDate(90),
-        monthlyRent: 1200,
+        rentAmount: 1200,
         securityDepositAmount: 1200,
         securityDepositPaidDate: getRelativeDate(9, 20),
         status: 'Active',
@@ -354,7 +354,7 @@ async function seedLeases(properties: Property[], tenants: Tenant[]) {
         tenantId: tenants[2].id,
         startDate: getRelativeDate(8, 15),
         endDate: getFutureDate(120),
-        monthlyRent: 750,
+        rentAmount: 750,
         securityDepositAmount: 750,
         securityDepositPaidDate: getRelativeDate(8, 1),
         status: 'Active',
@@ -367,7 +367,7 @@ async function seedLeases(properties: Property[], tenants: Tenant[]) {
         tenantId: tenants[5].id, // Michael Davies - Inactive
         startDate: getRelativeDate(18, 1),
         endDate: getRelativeDate(2, 28),
-        monthlyRent: 950,
+        rentAmount: 950,
         securityDepositAmount: 950,
         securityDepositPaidDate: getRelativeDate(18, 15),
         status: 'Expired',
@@ -380,7 +380,7 @@ async function seedLeases(properties: Property[], tenants: Tenant[]) {
         tenantId: tenants[3].id,
         startDate: getRelativeDate(7, 1),
         endDate: getFutureDate(150),
-        monthlyRent: 650,
+        rentAmount: 650,
         securityDepositAmount: 650,
         securityDepositPaidDate: getRelativeDate(7, 20),
         status: 'Active',
@@ -393,7 +393,7 @@ async function seedLeases(properties: Property[], tenants: Tenant[]) {
         tenantId: tenants[4].id,
         startDate: getRelativeDate(10, 1),
         endDate: getFutureDate(60),
-        monthlyRent: 800,
+        rentAmount: 800,
         securityDepositAmount: 1600, // Extra deposit for pet
         securityDepositPaidDate: getRelativeDate(10, 25),
         status: 'Active',
@@ -405,7 +405,7 @@ async function seedLeases(properties: Property[], tenants: Tenant[]) {
         propertyId: properties[6].id,
         tenantId: tenants[6].id,
         startDate: getRelativeDate(8, 1),
-        monthlyRent: 1050,
+        rentAmount: 1050,
         securityDepositAmount: 1050,
         securityDepositPaidDate: getRelativeDate(8, 20),
         status: 'Active',
@@ -418,13 +418,18 @@ async function seedLeases(properties: Property[], tenants: Tenant[]) {
         tenantId: tenants[8].id,
         startDate: getFutureDate(30),
         endDate: getFutureDate(395),
-        monthlyRent: 975,
+        rentAmount: 975,
         securityDepositAmount: 975,
         status: 'Pending',
       },
     }),
   ]);
 
+  // Every lease's tenant is its lead tenant
+  await prisma.leaseTenant.createMany({
+    data: leases.map((lease) => ({ leaseId: lease.id, tenantId: lease.tenantId, isLead: true })),
+  });
+
   console.log(`✅ Created ${leases.length} leases`);
   return leases;
 }
@@ -11,14 +11,17 @@ import authRouter from './routes/auth.js';
 import propertiesRouter from './routes/properties.js';
 import eventsRouter from './routes/events.js';
 import tenantsRouter from './routes/tenants.js';
+import guarantorsRouter from './routes/guarantors.js';
 import documentsRouter from './routes/documents.js';
 import leasesRouter from './routes/leases.js';
 import transactionsRouter from './routes/transactions.js';
+import transactionCategoriesRouter from './routes/transaction-categories.js';
+import recurringTransactionsRouter from './routes/recurring-transactions.js';
 import usersRouter from './routes/users.js';
 import propertyOwnershipRouter from './routes/propertyOwnership.routes.js';
 import settlementRouter from './routes/settlement.routes.js';
 import reportRouter from './routes/report.routes.js';
-import monzoRouter from './routes/monzo.js';
+import bankConnectionsRouter from './routes/bank-connections.js';
 import bankAccountsRouter from './routes/bank-accounts.js';
 import webhooksRouter from './routes/webhooks.js';
 import webhookStatusRouter from './routes/webhook-status.js';
@@ -130,6 +133,9 @@ export function createApp() {
   // Tenants routes
   app.use('/api/tenants', tenantsRouter);
 
+  // Guarantors routes
+  app.use('/api/guarantors', guarantorsRouter);
+
   // Documents routes
   app.use('/api/documents', documentsRouter);
 
@@ -139,13 +145,19 @@ export function createApp() {
   // Transactions routes
   app.use('/api/transactions', transactionsRouter);
 
+  // Transaction categories routes
+  app.use('/api/transaction-categories', transactionCategoriesRouter);
+
+  // Recurring transactions routes
+  app.use('/api/recurring-transactions', recurringTransactionsRouter);
+
   // Users routes
   app.use('/api/users', usersRouter);
 
   // Bank integration routes
   app.use('/api/bank/webhooks/status', webhookStatusRouter);
   app.use('/api/bank/webhooks', webhooksRouter);
-  app.use('/api/bank/monzo', monzoRouter);
+  app.use('/api/bank', bankConnectionsRouter);
   app.use('/api/bank', matchingRulesRouter);
   app.use('/api/bank/accounts', bankAccountsRouter);
 
@@ -82,3 +82,26 @@ export const handleUploadError = (
   }
   next();
 };
+
+/**
+ * Multer instance for bank statement uploads (CSV, OFX/QFX, QIF)
+ * Checks the file extension, as browsers report inconsistent MIME types for these formats
+ */
+const STATEMENT_EXTENSIONS = ['.csv', '.ofx', '.qfx', '.qif'];
+
+export const statementUpload = multer({
+  storage,
+  fileFilter: (_req, file, cb) => {
+    const extension = file.originalname.slice(file.originalname.lastIndexOf('.')).toLowerCase();
+
+    if (STATEMENT_EXTENSIONS.includes(extension)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Invalid file type. Allowed types: ${STATEMENT_EXTENSIONS.join(', ')}`));
+    }
+  },
+  limits: {
+    fileSize: storageConfig.maxFileSize,
+    files: 1, // Allow only one file per request
+  },
+});
@@ -499,6 +499,63 @@ describe('Bank Accounts Routes', () => {
       const updatedAt = new Date(response.body.account.updatedAt);
       expect(updatedAt.getTime()).toBeGreaterThan(originalUpdatedAt.getTime());
     });
+
+    it('should reschedule the next sync when the sync interval changes', async () => {
+      const lastSyncAt = new Date('2024-03-01T12:00:00Z');
+      const account = await prisma.bankAccount.create({
+        data: { ...validBankAccount, lastSyncAt, syncFailureCount: 3 },
+      });
+
+      const response = await request(app)
+        .patch(`/api/bank/accounts/${account.id}`)
+        .set('Cookie', adminCookies)
+        .send({ syncIntervalMinutes: 60 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.account.syncIntervalMinutes).toBe(60);
+      expect(response.body.account.syncFailureCount).toBe(0);
+      expect(new Date(response.body.account.nextScheduledSyncAt).toISOString()).toBe('2024-03-01T13:00:00.000Z');
+    });
+
+    it('should reject sync intervals outside the allowed range', async () => {
+      const account = await prisma.bankAccount.create({ data: validBankAccount });
+
+      const tooShort = await request(app)
+        .patch(`/api/bank/accounts/${account.id}`)
+        .set('Cookie', adminCookies)
+        .send({ syncIntervalMinutes: 5 });
+
+      expect(tooShort.status).toBe(400);
+      expect(tooShort.body.error).toBe('Sync interval must be at least 15 minutes');
+
+      const tooLong = await request(app)
+        .patch(`/api/bank/accounts/${account.id}`)
+        .set('Cookie', adminCookies)
+        .send({ syncIntervalMinutes: 20000 });
+
+      expect(tooLong.status).toBe(400);
+      expect(tooLong.body.error).toBe('Sync interval must be at most 7 days');
+    });
+
+    it('should clear sync backoff when sync is re-enabled', async () => {
+      const account = await prisma.bankAccount.create({
+        data: {
+          ...validBankAccount,
+          syncEnabled: false,
+          syncFailureCount: 2,
+          nextScheduledSyncAt: new Date(Date.now() + 24 * 3600 * 1000),
+        },
+      });
+
+      const response = await request(app)
+        .patch(`/api/bank/accounts/${account.id}`)
+        .set('Cookie', adminCookies)
+        .send({ syncEnabled: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.account.syncFailureCount).toBe(0);
+      expect(response.body.account.nextScheduledSyncAt).toBeNull();
+    });
   });
 
   describe('DELETE /api/bank/accounts/:id', () => {
@@ -956,6 +1013,7 @@ describe('Bank Accounts Routes', () => {
           status: 'failed',
           transactionsFetched: 75,
           transactionsSkipped: 10,
+          transactionsHeld: 2,
           errorMessage: 'Test error message',
           startedAt,
           completedAt,
@@ -976,6 +1034,7 @@ describe('Bank Accounts Routes', () => {
         completedAt: completedAt.toISOString(),
         transactionsFetched: 75,
         transactionsSkipped: 10,
+        transactionsHeld: 2,
         errorMessage: 'Test error message',
       });
     });
@@ -1201,4 +1260,300 @@ describe('Bank Accounts Routes', () => {
       expect(response.body.result.lastSyncStatus).toBe('success');
     });
   });
+
+  describe('POST /api/bank/accounts/:id/sync for statement import accounts', () => {
+    it('should reject syncing an account fed by statement uploads', async () => {
+      const account = await prisma.bankAccount.create({
+        data: {
+          accountId: 'import_sync_test',
+          accountName: 'Barclays Current',
+          accountType: 'current',
+          provider: 'file_import',
+          syncEnabled: false,
+          syncFromDate: new Date(),
+        },
+      });
+
+      const response = await request(app)
+        .post(`/api/bank/accounts/${account.id}/sync`)
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('This account is updated by importing statement files');
+    });
+  });
+
+  describe('POST /api/bank/accounts', () => {
+    it('should require admin role', async () => {
+      const response = await request(app)
+        .post('/api/bank/accounts')
+        .set('Cookie', landlordCookies)
+        .send({ accountName: 'Barclays Current' });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should create a statement import account without tokens', async () => {
+      const response = await request(app)
+        .post('/api/bank/accounts')
+        .set('Cookie', adminCookies)
+        .send({ accountName: 'Barclays Current' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.account).toMatchObject({
+        accountName: 'Barclays Current',
+        accountType: 'current',
+        provider: 'file_import',
+        syncEnabled: false,
+        csvMapping: null,
+      });
+      expect(response.body.account.accountId).toMatch(/^import_/);
+      expect(response.body.account.accessToken).toBeUndefined();
+    });
+
+    it('should require an account name', async () => {
+      const response = await request(app)
+        .post('/api/bank/accounts')
+        .set('Cookie', adminCookies)
+        .send({ accountName: '' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Account name is required');
+    });
+  });
+
+  describe('Statement imports', () => {
+    const csv = [
+      'Date,Memo,Paid in,Paid out',
+      '01/03/2024,RENT FLAT 1 SMITH,"1,250.00",',
+      '03/03/2024,BRITISH GAS,,45.99',
+      'not a date,BROKEN ROW,1.00,',
+    ].join('\n');
+
+    const mapping = {
+      dateColumn: 'Date',
+      dateFormat: 'DD/MM/YYYY',
+      descriptionColumn: 'Memo',
+      creditColumn: 'Paid in',
+      debitColumn: 'Paid out',
+    };
+
+    const ofx = `OFXHEADER:100
+DATA:OFXSGML
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>GBP<BANKTRANLIST>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240301120000<TRNAMT>950.00<FITID>NW001<NAME>J JONES<MEMO>RENT FLAT 2</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+    let importAccountId: string;
+
+    beforeEach(async () => {
+      const account = await prisma.bankAccount.create({
+        data: {
+          accountId: 'import_statement_test',
+          accountName: 'Barclays Current',
+          accountType: 'current',
+          provider: 'file_import',
+          syncEnabled: false,
+          syncFromDate: new Date(),
+        },
+      });
+      importAccountId = account.id;
+    });
+
+    describe('POST /api/bank/accounts/:id/import/preview', () => {
+      it('should return CSV headers when no mapping is known', async () => {
+        const response = await request(app)
+          .post(`/api/bank/accounts/${importAccountId}/import/preview`)
+          .set('Cookie', adminCookies)
+          .attach('file', Buffer.from(csv), 'statement.csv');
+
+        expect(response.status).toBe(200);
+        expect(response.body.preview).toMatchObject({
+          format: 'csv',
+          headers: ['Date', 'Memo', 'Paid in', 'Paid out'],
+          mapping: null,
+          transactions: [],
+        });
+      });
+
+      it('should parse rows with the given mapping and report bad rows', async () => {
+        const response = await request(app)
+          .post(`/api/bank/accounts/${importAccountId}/import/preview`)
+          .set('Cookie', adminCookies)
+          .field('mapping', JSON.stringify(mapping))
+          .attach('file', Buffer.from(csv), 'statement.csv');
+
+        expect(response.status).toBe(200);
+        expect(response.body.preview.transactions).toHaveLength(2);
+        expect(response.body.preview.transactions[0]).toMatchObject({
+          amount: 125000,
+          description: 'RENT FLAT 1 SMITH',
+          isDuplicate: false,
+        });
+        expect(response.body.preview.transactions[1].amount).toBe(-4599);
+        expect(response.body.preview.errors).toEqual([{ row: 3, error: 'Invalid date "not a date"' }]);
+
+        // Previewing doesn't store anything
+        expect(await prisma.bankTransaction.count({ where: { bankAccountId: importAccountId } })).toBe(0);
+      });
+
+      it('should flag rows already imported as duplicates', async () => {
+        await request(app)
+          .post(`/api/bank/accounts/${importAccountId}/import`)
+          .set('Cookie', adminCookies)
+          .attach('file', Buffer.from(ofx), 'statement.ofx');
+
+        const response = await request(app)
+          .post(`/api/bank/accounts/${importAccountId}/import/preview`)
+          .set('Cookie', adminCookies)
+          .attach('file', Buffer.from(ofx), 'statement.ofx');
+
+        expect(response.status).toBe(200);
+        expect(response.body.preview.transactions[0]).toMatchObject({
+          externalId: 'ofx_NW001',
+          isDuplicate: true,
+          duplicateMatchType: 'exact',
+        });
+      });
+
+      it('should reject files that are not statements', async () => {
+        const response = await request(app)
+          .post(`/api/bank/accounts/${importAccountId}/import/preview`)
+          .set('Cookie', adminCookies)
+          .attach('file', Buffer.from('hello'), 'notes.txt');
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toContain('Invalid file type');
+      });
+
+      it('should reject an invalid mapping', async () => {
+        const response = await request(app)
+          .post(`/api/bank/accounts/${importAccountId}/import/preview`)
+          .set('Cookie', adminCookies)
+          .field('mapping', JSON.stringify({ ...mapping, creditColumn: undefined }))
+          .attach('file', Buffer.from(csv), 'statement.csv');
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Either an amount column or both credit and debit columns are required');
+      });
+
+      it('should reject a mapping naming a missing column', async () => {
+        const response = await request(app)
+          .post(`/api/bank/accounts/${importAccountId}/import/preview`)
+          .set('Cookie', adminCookies)
+          .field('mapping', JSON.stringify({ ...mapping, descriptionColumn: 'Narrative' }))
+          .attach('file', Buffer.from(csv), 'statement.csv');
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Column "Narrative" not found in CSV header');
+      });
+
+      it('should reject Monzo accounts', async () => {
+        const account = await prisma.bankAccount.create({ data: validBankAccount });
+
+        const response = await request(app)
+          .post(`/api/bank/accounts/${account.id}/import/preview`)
+          .set('Cookie', adminCookies)
+          .attach('file', Buffer.from(ofx), 'statement.ofx');
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Statements can only be imported into statement import accounts');
+      });
+    });
+
+    describe('POST /api/bank/accounts/:id/import', () => {
+      it('should require admin role', async () => {
+        const response = await request(app)
+          .post(`/api/bank/accounts/${importAccountId}/import`)
+          .set('Cookie', landlordCookies)
+          .attach('file', Buffer.from(ofx), 'statement.ofx');
+
+        expect(response.status).toBe(403);
+      });
+
+      it('should import transactions as pending and log the import', async () => {
+        const response = await request(app)
+          .post(`/api/bank/accounts/${importAccountId}/import`)
+          .set('Cookie', adminCookies)
+          .field('mapping', JSON.stringify(mapping))
+          .attach('file', Buffer.from(csv), 'statement.csv');
+
+        expect(response.status).toBe(200);
+        expect(response.body.result).toMatchObject({
+          transactionsFetched: 2,
+          processed: 2,
+          duplicatesSkipped: 0,
+          parseErrors: [{ row: 3, error: 'Invalid date "not a date"' }],
+        });
+
+        const bankTransactions = await prisma.bankTransaction.findMany({
+          where: { bankAccountId: importAccountId },
+          orderBy: { transactionDate: 'asc' },
+        });
+        expect(bankTransactions.map((t) => t.amount)).toEqual([125000, -4599]);
+        expect(bankTransactions.every((t) => t.pendingTransactionId)).toBe(true);
+
+        const syncLog = await prisma.syncLog.findUnique({ where: { id: response.body.result.syncLogId } });
+        expect(syncLog).toMatchObject({ syncType: 'import', status: 'success', transactionsFetched: 2 });
+
+        const account = await prisma.bankAccount.findUnique({ where: { id: importAccountId } });
+        expect(account?.lastSyncStatus).toBe('success');
+        expect(account?.csvMapping).toBeNull();
+      });
+
+      it('should skip transactions when the same statement is imported twice', async () => {
+        const upload = () =>
+          request(app)
+            .post(`/api/bank/accounts/${importAccountId}/import`)
+            .set('Cookie', adminCookies)
+            .field('mapping', JSON.stringify(mapping))
+            .attach('file', Buffer.from(csv), 'statement.csv');
+
+        await upload();
+        const response = await upload();
+
+        expect(response.body.result).toMatchObject({ processed: 0, duplicatesSkipped: 2 });
+      });
+
+      it('should save the mapping and use it for later uploads', async () => {
+        await request(app)
+          .post(`/api/bank/accounts/${importAccountId}/import`)
+          .set('Cookie', adminCookies)
+          .field('mapping', JSON.stringify(mapping))
+          .field('saveMapping', 'true')
+          .attach('file', Buffer.from(csv), 'statement.csv');
+
+        const accountResponse = await request(app)
+          .get(`/api/bank/accounts/${importAccountId}`)
+          .set('Cookie', adminCookies);
+        expect(accountResponse.body.account.csvMapping).toEqual({ ...mapping, skipRows: 0 });
+
+        const preview = await request(app)
+          .post(`/api/bank/accounts/${importAccountId}/import/preview`)
+          .set('Cookie', adminCookies)
+          .attach('file', Buffer.from(csv), 'statement.csv');
+        expect(preview.body.preview.mapping).toEqual({ ...mapping, skipRows: 0 });
+        expect(preview.body.preview.transactions).toHaveLength(2);
+      });
+
+      it('should require a mapping to import a CSV file', async () => {
+        const response = await request(app)
+          .post(`/api/bank/accounts/${importAccountId}/import`)
+          .set('Cookie', adminCookies)
+          .attach('file', Buffer.from(csv), 'statement.csv');
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('A column mapping is required to import a CSV file');
+      });
+
+      it('should require a file', async () => {
+        const response = await request(app)
+          .post(`/api/bank/accounts/${importAccountId}/import`)
+          .set('Cookie', adminCookies);
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('No file uploaded');
+      });
+    });
+  });
 });
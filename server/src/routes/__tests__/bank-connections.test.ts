@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import { createApp } from '../../app.js';
+import prisma from '../../db/client.js';
+import authService from '../../services/auth.service.js';
+import { mockBankProvider } from '../../services/bankProviders/mock.provider.js';
+import { Roles } from '../../../../shared/types/user.types.js';
+
+const app = createApp();
+
+/**
+ * Wait for the background import started by complete-connection to finish
+ */
+async function waitForImport(bankAccountId: string) {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const syncLog = await prisma.syncLog.findFirst({
+      where: { bankAccountId, syncType: 'initial' },
+    });
+    if (syncLog && syncLog.status !== 'in_progress') {
+      return syncLog;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  throw new Error('Import did not finish');
+}
+
+describe('Bank Connection Routes (mock provider)', () => {
+  const adminUser = {
+    email: 'admin@example.com',
+    password: 'adminPassword123',
+  };
+  const webhookSecret = 'mock-webhook-secret-123';
+
+  let adminCookie: string;
+
+  beforeAll(async () => {
+    await prisma.syncLog.deleteMany({});
+    await prisma.bankTransaction.deleteMany({});
+    await prisma.bankAccount.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    await authService.createUser(adminUser.email, adminUser.password, Roles.ADMIN);
+
+    const loginResponse = await request(app)
+      .post('/api/auth/login')
+      .send(adminUser);
+
+    adminCookie = loginResponse.headers['set-cookie'][0];
+  });
+
+  afterAll(async () => {
+    delete process.env.MOCK_BANK_WEBHOOK_SECRET;
+    await prisma.syncLog.deleteMany({});
+    await prisma.bankTransaction.deleteMany({});
+    await prisma.bankAccount.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    await prisma.syncLog.deleteMany({});
+    await prisma.bankTransaction.deleteMany({});
+    await prisma.bankAccount.deleteMany({});
+
+    process.env.MOCK_BANK_WEBHOOK_SECRET = webhookSecret;
+    mockBankProvider.reset();
+    mockBankProvider.addAccount({
+      accountId: 'mock_acc_1',
+      accountName: 'Mock Current Account',
+      accountType: 'current',
+    });
+  });
+
+  /**
+   * Run the OAuth flow through the routes and return the pending connection ID
+   */
+  async function authorise(): Promise<string> {
+    const connectResponse = await request(app)
+      .post('/api/bank/mock/connect')
+      .set('Cookie', adminCookie)
+      .send({ syncFromDays: 30 });
+
+    expect(connectResponse.status).toBe(200);
+
+    const callbackResponse = await request(app).get(connectResponse.body.authUrl);
+
+    expect(callbackResponse.status).toBe(302);
+    const location = new URL(callbackResponse.headers.location, 'http://localhost');
+    expect(location.searchParams.get('pending_approval')).toBe('mock');
+
+    return location.searchParams.get('pendingId')!;
+  }
+
+  it('should connect an account, register a webhook and import history', async () => {
+    const recent = new Date();
+    recent.setDate(recent.getDate() - 5);
+    const old = new Date();
+    old.setDate(old.getDate() - 60);
+
+    mockBankProvider.addTransactions('mock_acc_1', [
+      { id: 'mock_tx_1', date: recent.toISOString(), amount: 120000, description: 'Rent payment' },
+      { id: 'mock_tx_old', date: old.toISOString(), amount: -5000, description: 'Before sync window' },
+    ]);
+
+    const pendingId = await authorise();
+
+    const response = await request(app)
+      .post('/api/bank/mock/complete-connection')
+      .set('Cookie', adminCookie)
+      .send({ pendingId });
+
+    expect(response.status).toBe(200);
+    expect(response.body.success).toBe(true);
+
+    const bankAccount = await prisma.bankAccount.findUnique({
+      where: { id: response.body.bankAccountId },
+    });
+    expect(bankAccount?.provider).toBe('mock');
+    expect(bankAccount?.accountId).toBe('mock_acc_1');
+    expect(bankAccount?.webhookUrl).toBe(`http://localhost:3000/api/bank/webhooks/mock/${webhookSecret}`);
+    expect(mockBankProvider.getRegisteredWebhooks()).toHaveLength(1);
+
+    const syncLog = await waitForImport(bankAccount!.id);
+    expect(syncLog.status).toBe('success');
+
+    const transactions = await prisma.bankTransaction.findMany({
+      where: { bankAccountId: bankAccount!.id },
+    });
+    expect(transactions).toHaveLength(1);
+    expect(transactions[0].externalId).toBe('mock_tx_1');
+  });
+
+  it('should sync new transactions and accept webhooks for a connected account', async () => {
+    const pendingId = await authorise();
+
+    const connectResponse = await request(app)
+      .post('/api/bank/mock/complete-connection')
+      .set('Cookie', adminCookie)
+      .send({ pendingId });
+    const bankAccountId = connectResponse.body.bankAccountId;
+    await waitForImport(bankAccountId);
+
+    mockBankProvider.addTransactions('mock_acc_1', [
+      { id: 'mock_tx_sync', date: new Date().toISOString(), amount: 95000, description: 'Synced rent' },
+    ]);
+
+    const syncResponse = await request(app)
+      .post(`/api/bank/accounts/${bankAccountId}/sync`)
+      .set('Cookie', adminCookie);
+
+    expect(syncResponse.status).toBe(200);
+    expect(syncResponse.body.result.transactionsFetched).toBe(1);
+
+    const webhookResponse = await request(app)
+      .post(`/api/bank/webhooks/mock/${webhookSecret}`)
+      .send({
+        eventId: 'mock_event_1',
+        accountId: 'mock_acc_1',
+        transactions: [
+          { id: 'mock_tx_webhook', date: new Date().toISOString(), amount: -2500, description: 'Repairs' },
+        ],
+      });
+
+    expect(webhookResponse.status).toBe(200);
+    expect(webhookResponse.body.message).toBe('Webhook processed successfully');
+
+    const externalIds = (
+      await prisma.bankTransaction.findMany({ where: { bankAccountId }, select: { externalId: true } })
+    ).map((transaction) => transaction.externalId);
+    expect(externalIds.sort()).toEqual(['mock_tx_sync', 'mock_tx_webhook']);
+  });
+
+  it('should reject malformed mock webhook payloads', async () => {
+    const response = await request(app)
+      .post(`/api/bank/webhooks/mock/${webhookSecret}`)
+      .send({ eventId: 'mock_event_2', accountId: 'mock_acc_1' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Invalid webhook payload');
+  });
+
+  it('should not complete a pending connection through a different provider', async () => {
+    const pendingId = await authorise();
+
+    const response = await request(app)
+      .post('/api/bank/monzo/complete-connection')
+      .set('Cookie', adminCookie)
+      .send({ pendingId });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Pending connection not found. Please restart the connection flow.');
+  });
+
+  it('should return 404 for unknown providers', async () => {
+    const connectResponse = await request(app)
+      .post('/api/bank/unknown-bank/connect')
+      .set('Cookie', adminCookie)
+      .send({ syncFromDays: 30 });
+
+    expect(connectResponse.status).toBe(404);
+
+    const webhookResponse = await request(app)
+      .post(`/api/bank/webhooks/unknown-bank/${webhookSecret}`)
+      .send({});
+
+    expect(webhookResponse.status).toBe(404);
+    expect(webhookResponse.body.error).toBe('Unknown bank provider');
+  });
+});
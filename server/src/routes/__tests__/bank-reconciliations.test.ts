@@ -0,0 +1,386 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import { createApp } from '../../app.js';
+import prisma from '../../db/client.js';
+import authService from '../../services/auth.service.js';
+import { encryptToken } from '../../services/encryption.js';
+import { mockBankProvider } from '../../services/bankProviders/mock.provider.js';
+import { Roles } from '../../../../shared/types/user.types.js';
+
+const app = createApp();
+
+describe('Bank Reconciliation Routes', () => {
+  const adminUser = {
+    email: 'admin@example.com',
+    password: 'adminPassword123',
+  };
+
+  let adminCookie: string;
+  let bankAccountId: string;
+  let propertyId: string;
+
+  /**
+   * Create a bank transaction, either in the ledger or awaiting review
+   */
+  const createBankTransaction = async (
+    externalId: string,
+    date: string,
+    amount: number,
+    outcome: 'matched' | 'pending'
+  ) => {
+    const bankTransaction = await prisma.bankTransaction.create({
+      data: {
+        bankAccountId,
+        externalId,
+        amount,
+        description: externalId,
+        transactionDate: new Date(date),
+      },
+    });
+
+    if (outcome === 'matched') {
+      const transaction = await prisma.transaction.create({
+        data: {
+          propertyId,
+          type: amount > 0 ? 'Income' : 'Expense',
+          category: amount > 0 ? 'Rent' : 'Maintenance',
+          amount,
+          transactionDate: bankTransaction.transactionDate,
+          description: externalId,
+          bankTransactionId: bankTransaction.id,
+          isImported: true,
+        },
+      });
+      await prisma.bankTransaction.update({
+        where: { id: bankTransaction.id },
+        data: { transactionId: transaction.id },
+      });
+      return { bankTransaction, transaction };
+    }
+
+    const pending = await prisma.pendingTransaction.create({
+      data: {
+        bankTransactionId: bankTransaction.id,
+        transactionDate: bankTransaction.transactionDate,
+        description: externalId,
+      },
+    });
+    return { bankTransaction, pending };
+  };
+
+  const reconcile = (body: Record<string, unknown>) =>
+    request(app)
+      .post(`/api/bank/accounts/${bankAccountId}/reconciliations`)
+      .set('Cookie', adminCookie)
+      .send(body);
+
+  const lock = (reconciliationId: string) =>
+    request(app)
+      .post(`/api/bank/accounts/${bankAccountId}/reconciliations/${reconciliationId}/lock`)
+      .set('Cookie', adminCookie);
+
+  beforeAll(async () => {
+    await prisma.bankAccount.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    await authService.createUser(adminUser.email, adminUser.password, Roles.ADMIN);
+
+    const loginResponse = await request(app).post('/api/auth/login').send(adminUser);
+    adminCookie = loginResponse.headers['set-cookie'][0];
+  });
+
+  afterAll(async () => {
+    await prisma.bankAccount.deleteMany({});
+    await prisma.transaction.deleteMany({});
+    await prisma.property.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    await prisma.bankAccount.deleteMany({});
+    await prisma.transaction.deleteMany({});
+    await prisma.property.deleteMany({});
+
+    const property = await prisma.property.create({
+      data: {
+        name: 'Reconciled Property',
+        street: '1 Balance Road',
+        city: 'Test City',
+        county: 'Test County',
+        postcode: 'TE1 1ST',
+        propertyType: 'House',
+        status: 'Occupied',
+      },
+    });
+    propertyId = property.id;
+
+    const bankAccount = await prisma.bankAccount.create({
+      data: {
+        accountId: 'mock_acc_reconcile',
+        accountName: 'Reconciled Account',
+        accountType: 'current',
+        provider: 'mock',
+        accessToken: encryptToken('mock_access_test'),
+        syncFromDate: new Date('2024-01-01'),
+      },
+    });
+    bankAccountId = bankAccount.id;
+
+    mockBankProvider.reset();
+  });
+
+  describe('POST /api/bank/accounts/:id/reconciliations', () => {
+    it('should group the period transactions and work out the difference', async () => {
+      await createBankTransaction('rent', '2024-01-05T09:00:00Z', 100000, 'matched');
+      await createBankTransaction('repair', '2024-01-20T09:00:00Z', -15000, 'pending');
+      await createBankTransaction('next_month', '2024-02-01T09:00:00Z', 100000, 'matched');
+
+      const response = await reconcile({
+        statementDate: '2024-01-31',
+        statementBalance: 85000,
+        notes: 'January statement',
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body.reconciliation.ledgerBalance).toBe(100000);
+      expect(response.body.reconciliation.difference).toBe(-15000);
+      expect(response.body.report.matched.map((item: { externalId: string }) => item.externalId)).toEqual(['rent']);
+      expect(response.body.report.pending.map((item: { externalId: string }) => item.externalId)).toEqual(['repair']);
+      expect(response.body.report.totals).toEqual({ matched: 100000, pending: -15000, unmatched: 0 });
+    });
+
+    it('should open the next period at the previous statement balance', async () => {
+      await createBankTransaction('rent', '2024-01-05T09:00:00Z', 100000, 'matched');
+      await createBankTransaction('february', '2024-02-05T09:00:00Z', 100000, 'matched');
+
+      await reconcile({ statementDate: '2024-01-31', statementBalance: 100000 });
+      const response = await reconcile({ statementDate: '2024-02-29', statementBalance: 200000 });
+
+      expect(response.body.report.openingBalance).toBe(100000);
+      expect(response.body.report.matched).toHaveLength(1);
+      expect(response.body.reconciliation.difference).toBe(0);
+    });
+
+    it('should count linked manual transactions in bank units', async () => {
+      const bankTransaction = await prisma.bankTransaction.create({
+        data: {
+          bankAccountId,
+          externalId: 'boiler',
+          amount: -12500,
+          description: 'PLUMBFIX LTD',
+          transactionDate: new Date('2024-01-12T09:00:00Z'),
+        },
+      });
+      const manual = await prisma.transaction.create({
+        data: {
+          propertyId,
+          type: 'Expense',
+          category: 'Maintenance',
+          amount: 125,
+          transactionDate: new Date('2024-01-10'),
+          description: 'Boiler repair',
+          bankTransactionId: bankTransaction.id,
+        },
+      });
+      await prisma.bankTransaction.update({
+        where: { id: bankTransaction.id },
+        data: { transactionId: manual.id },
+      });
+
+      const response = await reconcile({ statementDate: '2024-01-31', statementBalance: -12500 });
+
+      expect(response.body.report.matched[0].ledgerAmount).toBe(-12500);
+      expect(response.body.reconciliation.difference).toBe(0);
+    });
+
+    it('should count every part of a split bank transaction', async () => {
+      const { bankTransaction } = await createBankTransaction('invoice', '2024-01-15T09:00:00Z', -30000, 'matched');
+      await prisma.transaction.updateMany({
+        where: { bankTransactionId: bankTransaction.id },
+        data: { amount: -20000 },
+      });
+      await prisma.transaction.create({
+        data: {
+          propertyId,
+          type: 'Expense',
+          category: 'Repair',
+          amount: -10000,
+          transactionDate: bankTransaction.transactionDate,
+          description: 'invoice',
+          bankTransactionId: bankTransaction.id,
+          isImported: true,
+        },
+      });
+
+      const response = await reconcile({ statementDate: '2024-01-31', statementBalance: -30000 });
+
+      expect(response.body.report.matched).toHaveLength(1);
+      expect(response.body.report.matched[0].ledgerAmount).toBe(-30000);
+      expect(response.body.reconciliation.difference).toBe(0);
+    });
+
+    it('should leave out discarded duplicates and count held ones as pending', async () => {
+      const { bankTransaction } = await createBankTransaction('rent', '2024-01-05T09:00:00Z', 100000, 'matched');
+      const duplicate = (externalId: string, duplicateStatus: string) =>
+        prisma.bankTransaction.create({
+          data: {
+            bankAccountId,
+            externalId,
+            amount: 100000,
+            description: 'rent',
+            transactionDate: bankTransaction.transactionDate,
+            duplicateOfId: bankTransaction.id,
+            duplicateStatus,
+          },
+        });
+      await duplicate('rent_discarded', 'discarded');
+      await duplicate('rent_held', 'possible');
+
+      const response = await reconcile({ statementDate: '2024-01-31', statementBalance: 200000 });
+
+      expect(response.body.report.matched.map((item: { externalId: string }) => item.externalId)).toEqual(['rent']);
+      expect(response.body.report.pending.map((item: { externalId: string }) => item.externalId)).toEqual([
+        'rent_held',
+      ]);
+      expect(response.body.report.unmatched).toEqual([]);
+    });
+
+    it('should validate the statement', async () => {
+      const response = await reconcile({ statementDate: '2024-01-31' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for an unknown bank account', async () => {
+      const response = await request(app)
+        .post('/api/bank/accounts/00000000-0000-0000-0000-000000000000/reconciliations')
+        .set('Cookie', adminCookie)
+        .send({ statementDate: '2024-01-31', statementBalance: 0 });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/bank/accounts/:id/reconciliations/:reconciliationId/lock', () => {
+    it('should refuse to lock a period with pending items', async () => {
+      await createBankTransaction('repair', '2024-01-20T09:00:00Z', -15000, 'pending');
+
+      const created = await reconcile({ statementDate: '2024-01-31', statementBalance: -15000 });
+      const response = await lock(created.body.reconciliation.id);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Review the 1 pending transaction(s) in this period before locking');
+    });
+
+    it('should refuse to lock a reconciliation with a difference', async () => {
+      await createBankTransaction('rent', '2024-01-05T09:00:00Z', 100000, 'matched');
+
+      const created = await reconcile({ statementDate: '2024-01-31', statementBalance: 90000 });
+      const response = await lock(created.body.reconciliation.id);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Reconciliation has a difference and cannot be locked');
+    });
+
+    it('should lock the period so its ledger transactions cannot be edited', async () => {
+      const { transaction } = await createBankTransaction('rent', '2024-01-05T09:00:00Z', 100000, 'matched');
+
+      const created = await reconcile({ statementDate: '2024-01-31', statementBalance: 100000 });
+      const response = await lock(created.body.reconciliation.id);
+
+      expect(response.status).toBe(200);
+      expect(response.body.reconciliation.lockedAt).not.toBeNull();
+
+      const updateResponse = await request(app)
+        .put(`/api/transactions/${transaction!.id}`)
+        .set('Cookie', adminCookie)
+        .send({ description: 'Edited' });
+
+      expect(updateResponse.status).toBe(409);
+      expect(updateResponse.body.error).toBe(
+        'This transaction is in a locked reconciliation period and cannot be changed'
+      );
+
+      const deleteResponse = await request(app)
+        .delete(`/api/transactions/${transaction!.id}`)
+        .set('Cookie', adminCookie);
+
+      expect(deleteResponse.status).toBe(409);
+    });
+
+    it('should not reconcile inside a locked period again', async () => {
+      await createBankTransaction('rent', '2024-01-05T09:00:00Z', 100000, 'matched');
+
+      const created = await reconcile({ statementDate: '2024-01-31', statementBalance: 100000 });
+      await lock(created.body.reconciliation.id);
+
+      const response = await reconcile({ statementDate: '2024-01-15', statementBalance: 100000 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Statement date must be after the last locked reconciliation (2024-01-31)');
+    });
+  });
+
+  describe('GET /api/bank/accounts/:id/reconciliations', () => {
+    it('should list the reconciliation history, newest first', async () => {
+      await reconcile({ statementDate: '2024-01-31', statementBalance: 0 });
+      await reconcile({ statementDate: '2024-02-29', statementBalance: 0 });
+
+      const response = await request(app)
+        .get(`/api/bank/accounts/${bankAccountId}/reconciliations`)
+        .set('Cookie', adminCookie);
+
+      expect(response.status).toBe(200);
+      expect(response.body.reconciliations).toHaveLength(2);
+      expect(response.body.reconciliations[0].statementDate).toBe('2024-02-29T00:00:00.000Z');
+    });
+
+    it('should return a reconciliation with its transactions', async () => {
+      await createBankTransaction('rent', '2024-01-05T09:00:00Z', 100000, 'matched');
+      const created = await reconcile({ statementDate: '2024-01-31', statementBalance: 100000 });
+
+      const response = await request(app)
+        .get(`/api/bank/accounts/${bankAccountId}/reconciliations/${created.body.reconciliation.id}`)
+        .set('Cookie', adminCookie);
+
+      expect(response.status).toBe(200);
+      expect(response.body.report.matched).toHaveLength(1);
+    });
+  });
+
+  describe('GET /api/bank/accounts/:id/balance', () => {
+    it('should fetch the balance from the bank', async () => {
+      mockBankProvider.addTransactions('mock_acc_reconcile', [
+        { id: 'mock_tx_1', date: '2024-01-05T09:00:00Z', amount: 100000, description: 'Rent' },
+        { id: 'mock_tx_2', date: '2024-01-06T09:00:00Z', amount: -2500, description: 'Fees' },
+      ]);
+
+      const response = await request(app)
+        .get(`/api/bank/accounts/${bankAccountId}/balance`)
+        .set('Cookie', adminCookie);
+
+      expect(response.status).toBe(200);
+      expect(response.body.balance).toEqual({ balance: 97500, currency: 'GBP' });
+    });
+
+    it('should reject accounts without a bank connection', async () => {
+      const importAccount = await prisma.bankAccount.create({
+        data: {
+          accountId: 'import_acc',
+          accountName: 'Statements',
+          accountType: 'current',
+          provider: 'file_import',
+          syncFromDate: new Date('2024-01-01'),
+        },
+      });
+
+      const response = await request(app)
+        .get(`/api/bank/accounts/${importAccount.id}/balance`)
+        .set('Cookie', adminCookie);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Bank account is not connected to a bank provider');
+    });
+  });
+});
@@ -0,0 +1,451 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import { createApp } from '../../app.js';
+import prisma from '../../db/client.js';
+import authService from '../../services/auth.service.js';
+import { Roles } from '../../../../shared/types/user.types.js';
+
+const app = createApp();
+
+describe('Guarantors Routes', () => {
+  // Test user credentials
+  const testUser = {
+    email: 'test@example.com',
+    password: 'testPassword123',
+  };
+
+  const viewerUser = {
+    email: 'viewer@example.com',
+    password: 'viewerPassword123',
+  };
+
+  let authCookies: string[];
+  let viewerCookies: string[];
+  let testProperty: any;
+  let testTenant: any;
+  let otherTenant: any;
+  let testLease: any;
+
+  // Valid guarantor data (tenant and lease IDs are filled in per test)
+  const guarantorData = () => ({
+    tenantId: testTenant.id,
+    firstName: 'Margaret',
+    lastName: 'Doe',
+    email: 'margaret.doe@example.com',
+    phone: '07700900789',
+    address: '1 Home Farm, Leeds LS1 1AA',
+    relationship: 'Parent',
+    liabilityCap: 7200,
+    leaseIds: [testLease.id],
+  });
+
+  beforeAll(async () => {
+    // Clean database
+    await prisma.lease.deleteMany({});
+    await prisma.tenant.deleteMany({});
+    await prisma.property.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    // Create test user and login (default LANDLORD role)
+    await authService.createUser(testUser.email, testUser.password);
+
+    const loginResponse = await request(app).post('/api/auth/login').send({
+      email: testUser.email,
+      password: testUser.password,
+    });
+
+    authCookies = [loginResponse.headers['set-cookie']];
+
+    // Create viewer user and login
+    await authService.createUser(viewerUser.email, viewerUser.password, Roles.VIEWER);
+
+    const viewerLoginResponse = await request(app).post('/api/auth/login').send({
+      email: viewerUser.email,
+      password: viewerUser.password,
+    });
+
+    viewerCookies = [viewerLoginResponse.headers['set-cookie']];
+
+    // Create test property and tenants
+    testProperty = await prisma.property.create({
+      data: {
+        name: 'Student House',
+        street: '12 College Road',
+        city: 'Leeds',
+        county: 'West Yorkshire',
+        postcode: 'LS6 1AA',
+        propertyType: 'House',
+        status: 'Occupied',
+      },
+    });
+
+    testTenant = await prisma.tenant.create({
+      data: {
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john.doe@example.com',
+        phone: '07700900123',
+        status: 'Active',
+      },
+    });
+
+    otherTenant = await prisma.tenant.create({
+      data: {
+        firstName: 'Alice',
+        lastName: 'Other',
+        email: 'alice.other@example.com',
+        phone: '07700900124',
+        status: 'Active',
+      },
+    });
+  });
+
+  afterAll(async () => {
+    // Clean up after all tests
+    await prisma.document.deleteMany({});
+    await prisma.lease.deleteMany({});
+    await prisma.tenant.deleteMany({});
+    await prisma.property.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    // Guarantors and lease links go with their tenant's leases, documents are polymorphic
+    await prisma.guarantor.deleteMany({});
+    await prisma.document.deleteMany({});
+    await prisma.lease.deleteMany({});
+
+    testLease = await prisma.lease.create({
+      data: {
+        propertyId: testProperty.id,
+        tenantId: testTenant.id,
+        startDate: new Date('2024-09-01'),
+        endDate: new Date('2025-06-30'),
+        rentAmount: 600,
+        securityDepositAmount: 600,
+        status: 'Active',
+        tenants: { create: [{ tenantId: testTenant.id, isLead: true }] },
+      },
+    });
+  });
+
+  describe('POST /api/guarantors', () => {
+    it('should create a guarantor linked to the lease', async () => {
+      const response = await request(app).post('/api/guarantors').set('Cookie', authCookies).send(guarantorData());
+
+      expect(response.status).toBe(201);
+      expect(response.body.success).toBe(true);
+      expect(response.body.guarantor).toMatchObject({
+        tenantId: testTenant.id,
+        firstName: 'Margaret',
+        relationship: 'Parent',
+        liabilityCap: 7200,
+        deedDocumentId: null,
+      });
+      expect(response.body.guarantor.leases).toHaveLength(1);
+      expect(response.body.guarantor.leases[0].lease.id).toBe(testLease.id);
+      expect(response.body.guarantor.leases[0].lease.property.name).toBe('Student House');
+    });
+
+    it('should allow unlimited liability', async () => {
+      const response = await request(app)
+        .post('/api/guarantors')
+        .set('Cookie', authCookies)
+        .send({ ...guarantorData(), liabilityCap: null });
+
+      expect(response.status).toBe(201);
+      expect(response.body.guarantor.liabilityCap).toBeNull();
+    });
+
+    it('should link a guarantor to a joint tenant on the lease', async () => {
+      await prisma.leaseTenant.create({ data: { leaseId: testLease.id, tenantId: otherTenant.id } });
+
+      const response = await request(app)
+        .post('/api/guarantors')
+        .set('Cookie', authCookies)
+        .send({ ...guarantorData(), tenantId: otherTenant.id });
+
+      expect(response.status).toBe(201);
+    });
+
+    it('should return 400 when no lease is given', async () => {
+      const response = await request(app)
+        .post('/api/guarantors')
+        .set('Cookie', authCookies)
+        .send({ ...guarantorData(), leaseIds: [] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('At least one lease is required');
+    });
+
+    it('should return 400 for an unknown relationship', async () => {
+      const response = await request(app)
+        .post('/api/guarantors')
+        .set('Cookie', authCookies)
+        .send({ ...guarantorData(), relationship: 'Neighbour' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 for a lease the tenant does not hold', async () => {
+      const response = await request(app)
+        .post('/api/guarantors')
+        .set('Cookie', authCookies)
+        .send({ ...guarantorData(), tenantId: otherTenant.id });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Guarantor can only be linked to leases held by the tenant they guarantee');
+    });
+
+    it('should return 404 for a missing tenant or lease', async () => {
+      const missingTenant = await request(app)
+        .post('/api/guarantors')
+        .set('Cookie', authCookies)
+        .send({ ...guarantorData(), tenantId: '00000000-0000-0000-0000-000000000000' });
+
+      expect(missingTenant.status).toBe(404);
+      expect(missingTenant.body.error).toBe('Tenant not found');
+
+      const missingLease = await request(app)
+        .post('/api/guarantors')
+        .set('Cookie', authCookies)
+        .send({ ...guarantorData(), leaseIds: ['00000000-0000-0000-0000-000000000000'] });
+
+      expect(missingLease.status).toBe(404);
+      expect(missingLease.body.error).toBe('Lease not found');
+    });
+
+    it('should accept a deed uploaded against the lease', async () => {
+      const deed = await prisma.document.create({
+        data: {
+          entityType: 'Lease',
+          entityId: testLease.id,
+          fileName: 'deed-of-guarantee.pdf',
+          filePath: 'deed-of-guarantee.pdf',
+          fileType: 'application/pdf',
+          fileSize: 1024,
+        },
+      });
+
+      const response = await request(app)
+        .post('/api/guarantors')
+        .set('Cookie', authCookies)
+        .send({ ...guarantorData(), deedDocumentId: deed.id });
+
+      expect(response.status).toBe(201);
+      expect(response.body.guarantor.deedDocument.fileName).toBe('deed-of-guarantee.pdf');
+    });
+
+    it('should return 400 for a deed belonging to something else', async () => {
+      const deed = await prisma.document.create({
+        data: {
+          entityType: 'Property',
+          entityId: testProperty.id,
+          fileName: 'gas-certificate.pdf',
+          filePath: 'gas-certificate.pdf',
+          fileType: 'application/pdf',
+          fileSize: 1024,
+        },
+      });
+
+      const response = await request(app)
+        .post('/api/guarantors')
+        .set('Cookie', authCookies)
+        .send({ ...guarantorData(), deedDocumentId: deed.id });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Deed must be a document uploaded for this guarantor or one of its leases');
+    });
+
+    it('should return 403 for a viewer', async () => {
+      const response = await request(app).post('/api/guarantors').set('Cookie', viewerCookies).send(guarantorData());
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(app).post('/api/guarantors').send(guarantorData());
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('GET /api/guarantors', () => {
+    it('should filter guarantors by tenant and lease', async () => {
+      const created = await request(app).post('/api/guarantors').set('Cookie', authCookies).send(guarantorData());
+
+      const byTenant = await request(app)
+        .get(`/api/guarantors?tenant_id=${testTenant.id}`)
+        .set('Cookie', viewerCookies);
+
+      expect(byTenant.status).toBe(200);
+      expect(byTenant.body.guarantors.map((g: any) => g.id)).toEqual([created.body.guarantor.id]);
+
+      const byOtherTenant = await request(app)
+        .get(`/api/guarantors?tenant_id=${otherTenant.id}`)
+        .set('Cookie', viewerCookies);
+
+      expect(byOtherTenant.body.guarantors).toEqual([]);
+
+      const byLease = await request(app)
+        .get(`/api/guarantors?lease_id=${testLease.id}`)
+        .set('Cookie', viewerCookies);
+
+      expect(byLease.body.guarantors).toHaveLength(1);
+    });
+
+    it('should return 400 for an invalid filter', async () => {
+      const response = await request(app).get('/api/guarantors?lease_id=not-a-uuid').set('Cookie', authCookies);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid lease ID');
+    });
+  });
+
+  describe('GET /api/guarantors/:id', () => {
+    it('should return the guarantor', async () => {
+      const created = await request(app).post('/api/guarantors').set('Cookie', authCookies).send(guarantorData());
+
+      const response = await request(app)
+        .get(`/api/guarantors/${created.body.guarantor.id}`)
+        .set('Cookie', viewerCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.guarantor.tenant.id).toBe(testTenant.id);
+    });
+
+    it('should return 400 for an invalid ID and 404 for a missing one', async () => {
+      const invalid = await request(app).get('/api/guarantors/not-a-uuid').set('Cookie', authCookies);
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toBe('Invalid guarantor ID format');
+
+      const missing = await request(app)
+        .get('/api/guarantors/00000000-0000-0000-0000-000000000000')
+        .set('Cookie', authCookies);
+      expect(missing.status).toBe(404);
+      expect(missing.body.error).toBe('Guarantor not found');
+    });
+  });
+
+  describe('PUT /api/guarantors/:id', () => {
+    it('should update contact details and the liability cap', async () => {
+      const created = await request(app).post('/api/guarantors').set('Cookie', authCookies).send(guarantorData());
+
+      const response = await request(app)
+        .put(`/api/guarantors/${created.body.guarantor.id}`)
+        .set('Cookie', authCookies)
+        .send({ phone: '07700900999', liabilityCap: 3600 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.guarantor).toMatchObject({ phone: '07700900999', liabilityCap: 3600 });
+      expect(response.body.guarantor.leases).toHaveLength(1);
+    });
+
+    it('should replace the linked leases', async () => {
+      const created = await request(app).post('/api/guarantors').set('Cookie', authCookies).send(guarantorData());
+
+      const renewal = await prisma.lease.create({
+        data: {
+          propertyId: testProperty.id,
+          tenantId: testTenant.id,
+          startDate: new Date('2025-07-01'),
+          rentAmount: 625,
+          securityDepositAmount: 600,
+          status: 'Draft',
+          tenants: { create: [{ tenantId: testTenant.id, isLead: true }] },
+        },
+      });
+
+      const response = await request(app)
+        .put(`/api/guarantors/${created.body.guarantor.id}`)
+        .set('Cookie', authCookies)
+        .send({ leaseIds: [testLease.id, renewal.id] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.guarantor.leases.map((l: any) => l.leaseId).sort()).toEqual(
+        [testLease.id, renewal.id].sort()
+      );
+    });
+
+    it('should attach a deed uploaded against the guarantor', async () => {
+      const created = await request(app).post('/api/guarantors').set('Cookie', authCookies).send(guarantorData());
+
+      const deed = await prisma.document.create({
+        data: {
+          entityType: 'Guarantor',
+          entityId: created.body.guarantor.id,
+          fileName: 'signed-deed.pdf',
+          filePath: 'signed-deed.pdf',
+          fileType: 'application/pdf',
+          fileSize: 2048,
+        },
+      });
+
+      const response = await request(app)
+        .put(`/api/guarantors/${created.body.guarantor.id}`)
+        .set('Cookie', authCookies)
+        .send({ deedDocumentId: deed.id });
+
+      expect(response.status).toBe(200);
+      expect(response.body.guarantor.deedDocumentId).toBe(deed.id);
+    });
+
+    it('should return 404 for a missing guarantor', async () => {
+      const response = await request(app)
+        .put('/api/guarantors/00000000-0000-0000-0000-000000000000')
+        .set('Cookie', authCookies)
+        .send({ phone: '07700900999' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/guarantors/:id', () => {
+    it('should delete the guarantor and its documents', async () => {
+      const created = await request(app).post('/api/guarantors').set('Cookie', authCookies).send(guarantorData());
+      const guarantorId = created.body.guarantor.id;
+
+      await prisma.document.create({
+        data: {
+          entityType: 'Guarantor',
+          entityId: guarantorId,
+          fileName: 'passport.pdf',
+          filePath: 'passport.pdf',
+          fileType: 'application/pdf',
+          fileSize: 512,
+        },
+      });
+
+      const response = await request(app).delete(`/api/guarantors/${guarantorId}`).set('Cookie', authCookies);
+
+      expect(response.status).toBe(200);
+      expect(await prisma.guarantor.count({ where: { id: guarantorId } })).toBe(0);
+      expect(await prisma.leaseGuarantor.count({ where: { guarantorId } })).toBe(0);
+      expect(await prisma.document.count({ where: { entityType: 'Guarantor', entityId: guarantorId } })).toBe(0);
+    });
+
+    it('should return 403 for a viewer', async () => {
+      const created = await request(app).post('/api/guarantors').set('Cookie', authCookies).send(guarantorData());
+
+      const response = await request(app)
+        .delete(`/api/guarantors/${created.body.guarantor.id}`)
+        .set('Cookie', viewerCookies);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('Guarantors on tenants and leases', () => {
+    it('should include guarantors on the tenant and the lease', async () => {
+      const created = await request(app).post('/api/guarantors').set('Cookie', authCookies).send(guarantorData());
+
+      const tenants = await request(app).get('/api/tenants').set('Cookie', authCookies);
+      const tenant = tenants.body.tenants.find((t: any) => t.id === testTenant.id);
+      expect(tenant.guarantors.map((g: any) => g.id)).toEqual([created.body.guarantor.id]);
+
+      const lease = await request(app).get(`/api/leases/${testLease.id}`).set('Cookie', authCookies);
+      expect(lease.body.lease.guarantors[0].guarantor.lastName).toBe('Doe');
+    });
+  });
+});
@@ -42,7 +42,7 @@ describe('Leases Routes', () => {
     tenantId: '', // Will be set in beforeAll
     startDate: new Date('2024-01-01'),
     endDate: new Date('2024-12-31'),
-    monthlyRent: 1200,
+    rentAmount: 1200,
     securityDepositAmount: 1200,
     securityDepositPaidDate: new Date('2023-12-15'),
     status: 'Active',
@@ -171,7 +171,7 @@ describe('Leases Routes', () => {
       expect(response.body.lease).toMatchObject({
         propertyId: validLease.propertyId,
         tenantId: validLease.tenantId,
-        monthlyRent: validLease.monthlyRent,
+        rentAmount: validLease.rentAmount,
       });
     });
 
@@ -186,7 +186,7 @@ describe('Leases Routes', () => {
       expect(response.body.lease).toMatchObject({
         propertyId: validLease.propertyId,
         tenantId: validLease.tenantId,
-        monthlyRent: validLease.monthlyRent,
+        rentAmount: validLease.rentAmount,
       });
     });
 
@@ -201,7 +201,7 @@ describe('Leases Routes', () => {
       expect(response.body.lease).toMatchObject({
         propertyId: validLease.propertyId,
         tenantId: validLease.tenantId,
-        monthlyRent: validLease.monthlyRent,
+        rentAmount: validLease.rentAmount,
         securityDepositAmount: validLease.securityDepositAmount,
         status: validLease.status,
       });
@@ -345,8 +345,8 @@ describe('Leases Routes', () => {
       expect(response.body.error).toContain('Start date must be before or equal to end date');
     });
 
-    it('should reject lease with negative monthlyRent', async () => {
-      const invalidLease = { ...validLease, monthlyRent: -1000 };
+    it('should reject lease with negative rentAmount', async () => {
+      const invalidLease = { ...validLease, rentAmount: -1000 };
 
       const response = await request(app)
         .post('/api/leases')
@@ -366,7 +366,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -397,7 +397,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -429,7 +429,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -461,7 +461,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -509,7 +509,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: null,
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -560,7 +560,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -572,7 +572,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2023-01-01'),
           endDate: new Date('2023-12-31'),
-          monthlyRent: 1100,
+          rentAmount: 1100,
           securityDepositAmount: 1100,
           status: 'Expired',
         },
@@ -614,7 +614,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -626,7 +626,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1500,
+          rentAmount: 1500,
           securityDepositAmount: 1500,
           status: 'Active',
         },
@@ -677,7 +677,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -689,7 +689,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1300,
+          rentAmount: 1300,
           securityDepositAmount: 1300,
           status: 'Active',
         },
@@ -701,7 +701,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1400,
+          rentAmount: 1400,
           securityDepositAmount: 1400,
           status: 'Active',
         },
@@ -746,7 +746,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -759,7 +759,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2023-01-01'),
           endDate: new Date('2023-12-31'),
-          monthlyRent: 1100,
+          rentAmount: 1100,
           securityDepositAmount: 1100,
           status: 'Expired',
         },
@@ -772,7 +772,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1300,
+          rentAmount: 1300,
           securityDepositAmount: 1300,
           status: 'Active',
         },
@@ -809,7 +809,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -821,7 +821,7 @@ describe('Leases Routes', () => {
           tenantId: otherTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -847,7 +847,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -859,7 +859,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2023-01-01'),
           endDate: new Date('2023-12-31'),
-          monthlyRent: 1100,
+          rentAmount: 1100,
           securityDepositAmount: 1100,
           status: 'Expired',
         },
@@ -895,7 +895,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -907,7 +907,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2023-01-01'),
           endDate: new Date('2023-12-31'),
-          monthlyRent: 1100,
+          rentAmount: 1100,
           securityDepositAmount: 1100,
           status: 'Expired',
         },
@@ -919,7 +919,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1500,
+          rentAmount: 1500,
           securityDepositAmount: 1500,
           status: 'Active',
         },
@@ -1033,7 +1033,7 @@ describe('Leases Routes', () => {
           tenantId: tenant1.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1000,
+          rentAmount: 1000,
           securityDepositAmount: 1000,
           status: 'Active',
         },
@@ -1044,7 +1044,7 @@ describe('Leases Routes', () => {
           tenantId: tenant2.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1500,
+          rentAmount: 1500,
           securityDepositAmount: 1500,
           status: 'Active',
         },
@@ -1055,7 +1055,7 @@ describe('Leases Routes', () => {
           tenantId: tenant1.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1112,7 +1112,7 @@ describe('Leases Routes', () => {
           tenantId: tenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1100,
+          rentAmount: 1100,
           securityDepositAmount: 1100,
           status: 'Active',
         },
@@ -1143,7 +1143,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1163,7 +1163,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1204,6 +1204,1187 @@ describe('Leases Routes', () => {
     });
   });
 
+  describe('GET /api/leases/:id/ledger', () => {
+    beforeEach(async () => {
+      await prisma.transaction.deleteMany({});
+    });
+
+    const createRentTransaction = (amount: number, transactionDate: string, leaseId: string | null) =>
+      prisma.transaction.create({
+        data: {
+          propertyId: testProperty.id,
+          leaseId,
+          type: 'Income',
+          category: 'Rent',
+          amount,
+          transactionDate: new Date(transactionDate),
+          description: 'Rent payment',
+        },
+      });
+
+    it('should require authentication', async () => {
+      const lease = await prisma.lease.create({
+        data: {
+          propertyId: testProperty.id,
+          tenantId: testTenant.id,
+          startDate: new Date('2024-01-01'),
+          endDate: new Date('2024-12-31'),
+          rentAmount: 1000,
+          securityDepositAmount: 1000,
+          status: 'Active',
+        },
+      });
+
+      const response = await request(app).get(`/api/leases/${lease.id}/ledger`);
+
+      expect(response.status).toBe(401);
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should match rent received against each due period', async () => {
+      const lease = await prisma.lease.create({
+        data: {
+          propertyId: testProperty.id,
+          tenantId: testTenant.id,
+          startDate: new Date('2024-01-01'),
+          endDate: new Date('2024-12-31'),
+          rentAmount: 1000,
+          securityDepositAmount: 1000,
+          status: 'Active',
+        },
+      });
+
+      await createRentTransaction(1000, '2024-01-01', lease.id);
+      await createRentTransaction(1000, '2024-02-02', lease.id);
+      // Unlinked rent on the same property within the lease term also counts
+      await createRentTransaction(400, '2024-03-05', null);
+
+      const response = await request(app)
+        .get(`/api/leases/${lease.id}/ledger?as_of=2024-04-15`)
+        .set('Cookie', viewerCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+
+      const { ledger } = response.body;
+      expect(ledger.periods).toHaveLength(12);
+      expect(ledger.periods.slice(0, 5).map((p: any) => p.status)).toEqual([
+        'Paid',
+        'Paid',
+        'Part Paid',
+        'Overdue',
+        'Upcoming',
+      ]);
+      expect(ledger.totalDue).toBe(4000);
+      expect(ledger.totalPaid).toBe(2400);
+      expect(ledger.arrears).toBe(1600);
+      expect(ledger.overduePeriods).toBe(2);
+      expect(new Date(ledger.oldestUnpaidDueDate).toISOString()).toBe('2024-03-01T00:00:00.000Z');
+      expect(ledger.payments).toHaveLength(3);
+    });
+
+    it('should count imported rent in pounds alongside manual rent', async () => {
+      const lease = await prisma.lease.create({
+        data: {
+          propertyId: testProperty.id,
+          tenantId: testTenant.id,
+          startDate: new Date('2024-01-01'),
+          endDate: new Date('2024-12-31'),
+          rentAmount: 1000,
+          securityDepositAmount: 1000,
+          status: 'Active',
+        },
+      });
+
+      await createRentTransaction(1000, '2024-01-01', lease.id);
+      // Imported from the bank in pence
+      await prisma.transaction.create({
+        data: {
+          propertyId: testProperty.id,
+          leaseId: lease.id,
+          type: 'Income',
+          category: 'Rent',
+          amount: 75050,
+          transactionDate: new Date('2024-02-01'),
+          description: 'Rent payment',
+          isImported: true,
+          importedAt: new Date('2024-02-01'),
+        },
+      });
+
+      const response = await request(app)
+        .get(`/api/leases/${lease.id}/ledger?as_of=2024-02-15`)
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(200);
+      const { ledger } = response.body;
+      expect(ledger.payments.map((p: any) => p.amount)).toEqual([1000, 750.5]);
+      expect(ledger.totalPaid).toBe(1750.5);
+      expect(ledger.arrears).toBe(249.5);
+      expect(ledger.periods[1].status).toBe('Part Paid');
+    });
+
+    it('should ignore rent linked to other leases', async () => {
+      const lease = await prisma.lease.create({
+        data: {
+          propertyId: testProperty.id,
+          tenantId: testTenant.id,
+          startDate: new Date('2024-01-01'),
+          endDate: new Date('2024-06-30'),
+          rentAmount: 1000,
+          securityDepositAmount: 1000,
+          status: 'Active',
+        },
+      });
+      const otherLease = await prisma.lease.create({
+        data: {
+          propertyId: testProperty.id,
+          tenantId: testTenant.id,
+          startDate: new Date('2024-07-01'),
+          endDate: new Date('2024-12-31'),
+          rentAmount: 1000,
+          securityDepositAmount: 1000,
+          status: 'Draft',
+        },
+      });
+
+      await createRentTransaction(1000, '2024-01-01', otherLease.id);
+
+      const response = await request(app)
+        .get(`/api/leases/${lease.id}/ledger?as_of=2024-01-15`)
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.ledger.totalPaid).toBe(0);
+      expect(response.body.ledger.arrears).toBe(1000);
+    });
+
+    it('should return 404 for non-existent lease', async () => {
+      const response = await request(app)
+        .get('/api/leases/00000000-0000-0000-0000-000000000000/ledger')
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Lease not found');
+    });
+
+    it('should return 400 for invalid as_of date', async () => {
+      const lease = await prisma.lease.create({
+        data: {
+          propertyId: testProperty.id,
+          tenantId: testTenant.id,
+          startDate: new Date('2024-01-01'),
+          rentAmount: 1000,
+          securityDepositAmount: 1000,
+          status: 'Active',
+        },
+      });
+
+      const response = await request(app)
+        .get(`/api/leases/${lease.id}/ledger?as_of=not-a-date`)
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+    });
+  });
+
+  describe('Joint tenancies', () => {
+    let jointTenant: any;
+    let formerTenant: any;
+
+    beforeAll(async () => {
+      jointTenant = await prisma.tenant.create({
+        data: {
+          firstName: 'Mary',
+          lastName: 'Major',
+          email: 'mary.major@example.com',
+          phone: '07700900201',
+          status: 'Active',
+        },
+      });
+
+      formerTenant = await prisma.tenant.create({
+        data: {
+          firstName: 'Fred',
+          lastName: 'Former',
+          email: 'fred.former@example.com',
+          phone: '07700900202',
+          status: 'Former',
+        },
+      });
+    });
+
+    it('should create a lease with the lead tenant linked when no joint tenants are given', async () => {
+      const response = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send(validLease);
+
+      expect(response.status).toBe(201);
+      expect(response.body.lease.tenants).toHaveLength(1);
+      expect(response.body.lease.tenants[0]).toMatchObject({
+        tenantId: testTenant.id,
+        isLead: true,
+      });
+    });
+
+    it('should create a lease with joint tenants, lead tenant first', async () => {
+      const response = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, jointTenantIds: [jointTenant.id] });
+
+      expect(response.status).toBe(201);
+      expect(response.body.lease.tenantId).toBe(testTenant.id);
+      expect(
+        response.body.lease.tenants.map((t: any) => ({ tenantId: t.tenantId, isLead: t.isLead }))
+      ).toEqual([
+        { tenantId: testTenant.id, isLead: true },
+        { tenantId: jointTenant.id, isLead: false },
+      ]);
+    });
+
+    it('should return 400 when the lead tenant is also listed as a joint tenant', async () => {
+      const response = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, jointTenantIds: [testTenant.id] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Lead tenant cannot also be a joint tenant');
+    });
+
+    it('should return 404 when a joint tenant does not exist', async () => {
+      const response = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, jointTenantIds: ['00000000-0000-0000-0000-000000000000'] });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Tenant not found');
+    });
+
+    it('should return 400 when a joint tenant is a former tenant', async () => {
+      const response = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, jointTenantIds: [formerTenant.id] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Tenant is not active');
+    });
+
+    it('should find leases by tenant_id for joint tenants', async () => {
+      await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, jointTenantIds: [jointTenant.id] });
+
+      const response = await request(app)
+        .get(`/api/leases?tenant_id=${jointTenant.id}`)
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.leases).toHaveLength(1);
+      expect(response.body.leases[0].tenants).toHaveLength(2);
+      expect(response.body.leases[0].tenants[1].tenant.firstName).toBe('Mary');
+    });
+
+    it('should replace joint tenants on update', async () => {
+      const createResponse = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, jointTenantIds: [jointTenant.id] });
+
+      const response = await request(app)
+        .put(`/api/leases/${createResponse.body.lease.id}`)
+        .set('Cookie', authCookies)
+        .send({ jointTenantIds: [] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.lease.tenants).toHaveLength(1);
+      expect(response.body.lease.tenants[0].tenantId).toBe(testTenant.id);
+    });
+
+    it('should promote a joint tenant to lead tenant', async () => {
+      const createResponse = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, jointTenantIds: [jointTenant.id] });
+
+      const response = await request(app)
+        .put(`/api/leases/${createResponse.body.lease.id}`)
+        .set('Cookie', authCookies)
+        .send({ tenantId: jointTenant.id });
+
+      expect(response.status).toBe(200);
+      expect(response.body.lease.tenantId).toBe(jointTenant.id);
+      expect(
+        response.body.lease.tenants.map((t: any) => ({ tenantId: t.tenantId, isLead: t.isLead }))
+      ).toEqual([{ tenantId: jointTenant.id, isLead: true }]);
+    });
+  });
+
+  describe('Unit leases', () => {
+    let room1: any;
+    let room2: any;
+
+    beforeAll(async () => {
+      room1 = await prisma.unit.create({
+        data: { propertyId: testProperty.id, name: 'Room 1', status: 'Available' },
+      });
+      room2 = await prisma.unit.create({
+        data: { propertyId: testProperty.id, name: 'Room 2', status: 'Available' },
+      });
+    });
+
+    afterAll(async () => {
+      await prisma.unit.deleteMany({});
+    });
+
+    it('should allow overlapping active leases on different units', async () => {
+      const first = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, unitId: room1.id });
+
+      const second = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, unitId: room2.id });
+
+      expect(first.status).toBe(201);
+      expect(second.status).toBe(201);
+      expect(second.body.lease.unitId).toBe(room2.id);
+    });
+
+    it('should reject overlapping active leases on the same unit', async () => {
+      await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, unitId: room1.id });
+
+      const response = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, unitId: room1.id });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Cannot create lease: overlapping active lease exists for this property');
+    });
+
+    it('should reject a whole-property lease that overlaps a unit lease', async () => {
+      await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, unitId: room1.id });
+
+      const response = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send(validLease);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject a unit from another property', async () => {
+      const otherProperty = await prisma.property.create({
+        data: {
+          name: 'Other Property',
+          street: '1 Other Street',
+          city: 'London',
+          county: 'Greater London',
+          postcode: 'SW1A 2AA',
+          propertyType: 'House',
+          status: 'Available',
+        },
+      });
+      const otherUnit = await prisma.unit.create({
+        data: { propertyId: otherProperty.id, name: 'Room 1', status: 'Available' },
+      });
+
+      const response = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, unitId: otherUnit.id });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Unit does not belong to this property');
+
+      await prisma.property.delete({ where: { id: otherProperty.id } });
+    });
+
+    it('should filter leases by unit_id', async () => {
+      await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, unitId: room1.id });
+      await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, unitId: room2.id });
+
+      const response = await request(app)
+        .get(`/api/leases?unit_id=${room2.id}`)
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.leases).toHaveLength(1);
+      expect(response.body.leases[0].unit.name).toBe('Room 2');
+    });
+
+    it('should count unlinked rent only toward the lease on the same unit', async () => {
+      const leaseData = {
+        propertyId: testProperty.id,
+        tenantId: testTenant.id,
+        startDate: new Date('2024-01-01'),
+        endDate: new Date('2024-12-31'),
+        rentAmount: 500,
+        securityDepositAmount: 500,
+        status: 'Active',
+      };
+      const room1Lease = await prisma.lease.create({ data: { ...leaseData, unitId: room1.id } });
+      const room2Lease = await prisma.lease.create({ data: { ...leaseData, unitId: room2.id } });
+
+      await prisma.transaction.create({
+        data: {
+          propertyId: testProperty.id,
+          unitId: room1.id,
+          type: 'Income',
+          category: 'Rent',
+          amount: 500,
+          transactionDate: new Date('2024-01-01'),
+          description: 'Room 1 rent',
+        },
+      });
+
+      const room1Ledger = await request(app)
+        .get(`/api/leases/${room1Lease.id}/ledger?as_of=2024-01-15`)
+        .set('Cookie', authCookies);
+      const room2Ledger = await request(app)
+        .get(`/api/leases/${room2Lease.id}/ledger?as_of=2024-01-15`)
+        .set('Cookie', authCookies);
+
+      expect(room1Ledger.body.ledger.totalPaid).toBe(500);
+      expect(room2Ledger.body.ledger.totalPaid).toBe(0);
+      expect(room2Ledger.body.ledger.arrears).toBe(500);
+
+      await prisma.transaction.deleteMany({});
+    });
+  });
+
+  describe('Deposit protection and return', () => {
+    // Built lazily - validLease only gets its property and tenant in beforeAll
+    const protectedLease = () => ({
+      ...validLease,
+      depositScheme: 'DPS',
+      depositCertificateRef: 'DPS-0001',
+      depositProtectedDate: new Date('2023-12-20'),
+      prescribedInfoServedAt: new Date('2023-12-22'),
+    });
+
+    it('should store protection details and report compliance', async () => {
+      const created = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send(protectedLease());
+
+      expect(created.status).toBe(201);
+      expect(created.body.lease.depositScheme).toBe('DPS');
+
+      const response = await request(app)
+        .get(`/api/leases/${created.body.lease.id}/deposit`)
+        .set('Cookie', viewerCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.deposit).toMatchObject({
+        amount: 1200,
+        scheme: 'DPS',
+        certificateRef: 'DPS-0001',
+        deductions: [],
+      });
+      expect(response.body.deposit.compliance.status).toBe('Compliant');
+      expect(response.body.deposit.compliance.deadline).toBe('2024-01-14T00:00:00.000Z');
+    });
+
+    it('should return 400 for an unknown deposit scheme', async () => {
+      const response = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, depositScheme: 'Piggy Bank' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return the deposit and post each deduction as Security Deposit income', async () => {
+      const created = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send(protectedLease());
+
+      const response = await request(app)
+        .post(`/api/leases/${created.body.lease.id}/deposit/return`)
+        .set('Cookie', authCookies)
+        .send({
+          returnDate: '2025-01-10',
+          deductions: [
+            { description: 'Carpet cleaning', amount: 150 },
+            { description: 'Broken blind', amount: 45.5 },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.lease.depositReturnedAmount).toBe(1004.5);
+      expect(response.body.lease.depositReturnedDate).toBe('2025-01-10T00:00:00.000Z');
+      expect(response.body.lease.depositDeductions).toHaveLength(2);
+
+      const transactions = await prisma.transaction.findMany({
+        where: { leaseId: created.body.lease.id },
+        orderBy: { amount: 'desc' },
+      });
+      expect(transactions.map((t) => [t.type, t.category, t.amount, t.description])).toEqual([
+        ['Income', 'Security Deposit', 150, 'Deposit deduction: Carpet cleaning'],
+        ['Income', 'Security Deposit', 45.5, 'Deposit deduction: Broken blind'],
+      ]);
+
+      await prisma.transaction.deleteMany({});
+    });
+
+    it('should split each deduction between the property owners', async () => {
+      const owner = await prisma.user.findUniqueOrThrow({ where: { email: testUser.email } });
+      const coOwner = await prisma.user.findUniqueOrThrow({ where: { email: landlordUser.email } });
+      await prisma.propertyOwnership.createMany({
+        data: [
+          { userId: owner.id, propertyId: testProperty.id, ownershipPercentage: 60 },
+          { userId: coOwner.id, propertyId: testProperty.id, ownershipPercentage: 40 },
+        ],
+      });
+
+      const created = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send(protectedLease());
+
+      const response = await request(app)
+        .post(`/api/leases/${created.body.lease.id}/deposit/return`)
+        .set('Cookie', authCookies)
+        .send({ returnDate: '2025-01-10', deductions: [{ description: 'Carpet cleaning', amount: 150 }] });
+
+      expect(response.status).toBe(200);
+
+      const splits = await prisma.transactionSplit.findMany({
+        where: { transaction: { leaseId: created.body.lease.id } },
+        orderBy: { percentage: 'desc' },
+      });
+      expect(splits.map((split) => [split.userId, split.percentage, split.amount])).toEqual([
+        [owner.id, 60, 90],
+        [coOwner.id, 40, 60],
+      ]);
+
+      await prisma.transaction.deleteMany({});
+      await prisma.propertyOwnership.deleteMany({});
+    });
+
+    it('should return 400 when deductions exceed the deposit', async () => {
+      const created = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send(protectedLease());
+
+      const response = await request(app)
+        .post(`/api/leases/${created.body.lease.id}/deposit/return`)
+        .set('Cookie', authCookies)
+        .send({ returnDate: '2025-01-10', deductions: [{ description: 'Redecoration', amount: 1500 }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Deductions cannot exceed the deposit amount');
+    });
+
+    it('should return 400 when the deposit has already been returned', async () => {
+      const created = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send(protectedLease());
+
+      await request(app)
+        .post(`/api/leases/${created.body.lease.id}/deposit/return`)
+        .set('Cookie', authCookies)
+        .send({ returnDate: '2025-01-10' });
+
+      const response = await request(app)
+        .post(`/api/leases/${created.body.lease.id}/deposit/return`)
+        .set('Cookie', authCookies)
+        .send({ returnDate: '2025-01-11' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Deposit has already been returned');
+    });
+
+    it('should return 400 when no deposit was received', async () => {
+      const created = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, securityDepositPaidDate: null });
+
+      const response = await request(app)
+        .post(`/api/leases/${created.body.lease.id}/deposit/return`)
+        .set('Cookie', authCookies)
+        .send({ returnDate: '2025-01-10' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('No deposit has been received for this lease');
+    });
+
+    it('should return 403 for VIEWER role', async () => {
+      const created = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send(protectedLease());
+
+      const response = await request(app)
+        .post(`/api/leases/${created.body.lease.id}/deposit/return`)
+        .set('Cookie', viewerCookies)
+        .send({ returnDate: '2025-01-10' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('Rent frequencies', () => {
+    it('should default to monthly rent on the start date anniversary', async () => {
+      const response = await request(app).post('/api/leases').set('Cookie', authCookies).send(validLease);
+
+      expect(response.status).toBe(201);
+      expect(response.body.lease.rentFrequency).toBe('Monthly');
+      expect(response.body.lease.rentDueDay).toBeNull();
+    });
+
+    it('should create a weekly lease with a due weekday', async () => {
+      const response = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, rentAmount: 300, rentFrequency: 'Weekly', rentDueDay: 5 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.lease).toMatchObject({ rentAmount: 300, rentFrequency: 'Weekly', rentDueDay: 5 });
+    });
+
+    it('should return 400 for an unknown frequency', async () => {
+      const response = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, rentFrequency: 'Daily' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should return 400 for a weekly lease due on a day of the month', async () => {
+      const response = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, rentFrequency: 'Weekly', rentDueDay: 15 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe(
+        'Rent due day for weekly frequencies must be a weekday from 1 (Monday) to 7 (Sunday)'
+      );
+    });
+
+    it('should check the due day against the frequency when only one changes', async () => {
+      const created = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, rentDueDay: 28 });
+
+      const response = await request(app)
+        .put(`/api/leases/${created.body.lease.id}`)
+        .set('Cookie', authCookies)
+        .send({ rentAmount: 280, rentFrequency: 'Weekly' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe(
+        'Rent due day for weekly frequencies must be a weekday from 1 (Monday) to 7 (Sunday)'
+      );
+    });
+
+    it('should build the ledger on the lease frequency with a pro-rata first period', async () => {
+      // 3 January 2024 is a Wednesday; rent is due on Mondays
+      const lease = await prisma.lease.create({
+        data: {
+          propertyId: testProperty.id,
+          tenantId: testTenant.id,
+          startDate: new Date('2024-01-03'),
+          endDate: new Date('2024-03-31'),
+          rentAmount: 140,
+          rentFrequency: 'Weekly',
+          rentDueDay: 1,
+          securityDepositAmount: 600,
+          status: 'Active',
+        },
+      });
+
+      const response = await request(app)
+        .get(`/api/leases/${lease.id}/ledger?as_of=2024-01-20`)
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(200);
+      const { ledger } = response.body;
+      expect(ledger.periods[0]).toMatchObject({ amountDue: 99.73, isProRata: true });
+      expect(ledger.periods[1]).toMatchObject({ amountDue: 140, isProRata: false });
+      expect(ledger.periods[1].dueDate).toBe('2024-01-08T00:00:00.000Z');
+      expect(ledger.totalDue).toBe(379.73);
+    });
+
+    it('should carry the frequency over on renewal', async () => {
+      const created = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, rentAmount: 3600, rentFrequency: 'Quarterly', rentDueDay: 25 });
+
+      const response = await request(app)
+        .post(`/api/leases/${created.body.lease.id}/renew`)
+        .set('Cookie', authCookies)
+        .send({ rentAmount: 3750 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.lease).toMatchObject({ rentAmount: 3750, rentFrequency: 'Quarterly', rentDueDay: 25 });
+      expect(response.body.lease.previousLease.rentFrequency).toBe('Quarterly');
+    });
+  });
+
+  describe('Rent changes', () => {
+    const createLease = async (overrides: Record<string, unknown> = {}) => {
+      const response = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, status: 'Active', ...overrides });
+      return response.body.lease;
+    };
+
+    it('should schedule a rent change with the notice date worked back from it', async () => {
+      const lease = await createLease();
+
+      const response = await request(app)
+        .post(`/api/leases/${lease.id}/rent-changes`)
+        .set('Cookie', authCookies)
+        .send({ effectiveDate: '2024-07-01', rentAmount: 1300, notes: 'Mid-term review' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.rentChange).toMatchObject({
+        leaseId: lease.id,
+        rentAmount: 1300,
+        noticeDate: '2024-06-01T00:00:00.000Z',
+        noticeServedAt: null,
+        notes: 'Mid-term review',
+      });
+    });
+
+    it('should give a quarterly lease a full quarter of notice', async () => {
+      const lease = await createLease({ rentAmount: 3600, rentFrequency: 'Quarterly' });
+
+      const response = await request(app)
+        .post(`/api/leases/${lease.id}/rent-changes`)
+        .set('Cookie', authCookies)
+        .send({ effectiveDate: '2024-10-01', rentAmount: 3800 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.rentChange.noticeDate).toBe('2024-07-01T00:00:00.000Z');
+    });
+
+    it('should charge the new rent in the ledger from its effective date', async () => {
+      const lease = await createLease();
+
+      await request(app)
+        .post(`/api/leases/${lease.id}/rent-changes`)
+        .set('Cookie', authCookies)
+        .send({ effectiveDate: '2024-07-01', rentAmount: 1300 });
+
+      const response = await request(app)
+        .get(`/api/leases/${lease.id}/ledger?as_of=2024-12-31`)
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(200);
+      const amounts = response.body.ledger.periods.map((p: any) => p.amountDue);
+      expect(amounts.slice(0, 6).every((a: number) => a === 1200)).toBe(true);
+      expect(amounts.slice(6).every((a: number) => a === 1300)).toBe(true);
+      expect(response.body.ledger.totalDue).toBe(15000);
+    });
+
+    it('should report the rent history and the rent currently in force', async () => {
+      const lease = await createLease();
+
+      await request(app)
+        .post(`/api/leases/${lease.id}/rent-changes`)
+        .set('Cookie', authCookies)
+        .send({ effectiveDate: '2024-07-01', rentAmount: 1300 });
+
+      const response = await request(app)
+        .get(`/api/leases/${lease.id}/rent-changes?as_of=2024-08-01`)
+        .set('Cookie', viewerCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.rentHistory.currentRent).toBe(1300);
+      expect(response.body.rentHistory.entries.map((e: any) => e.status)).toEqual(['Superseded', 'In Effect']);
+    });
+
+    it('should include rent changes on the lease', async () => {
+      const lease = await createLease();
+
+      await request(app)
+        .post(`/api/leases/${lease.id}/rent-changes`)
+        .set('Cookie', authCookies)
+        .send({ effectiveDate: '2024-07-01', rentAmount: 1300 });
+
+      const response = await request(app).get(`/api/leases/${lease.id}`).set('Cookie', authCookies);
+
+      expect(response.body.lease.rentChanges).toHaveLength(1);
+      expect(response.body.lease.rentChanges[0].rentAmount).toBe(1300);
+    });
+
+    it('should return 400 when the change is outside the lease term', async () => {
+      const lease = await createLease();
+
+      const beforeStart = await request(app)
+        .post(`/api/leases/${lease.id}/rent-changes`)
+        .set('Cookie', authCookies)
+        .send({ effectiveDate: '2024-01-01', rentAmount: 1300 });
+
+      expect(beforeStart.status).toBe(400);
+      expect(beforeStart.body.error).toBe('Rent change must take effect after the lease start date');
+
+      const afterEnd = await request(app)
+        .post(`/api/leases/${lease.id}/rent-changes`)
+        .set('Cookie', authCookies)
+        .send({ effectiveDate: '2025-02-01', rentAmount: 1300 });
+
+      expect(afterEnd.status).toBe(400);
+      expect(afterEnd.body.error).toBe('Rent change must take effect before the lease end date');
+    });
+
+    it('should return 400 for a second change on the same date', async () => {
+      const lease = await createLease();
+
+      await request(app)
+        .post(`/api/leases/${lease.id}/rent-changes`)
+        .set('Cookie', authCookies)
+        .send({ effectiveDate: '2024-07-01', rentAmount: 1300 });
+
+      const response = await request(app)
+        .post(`/api/leases/${lease.id}/rent-changes`)
+        .set('Cookie', authCookies)
+        .send({ effectiveDate: '2024-07-01', rentAmount: 1350 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('A rent change already takes effect on this date');
+    });
+
+    it('should return 400 when notice was served too late', async () => {
+      const lease = await createLease();
+
+      const response = await request(app)
+        .post(`/api/leases/${lease.id}/rent-changes`)
+        .set('Cookie', authCookies)
+        .send({ effectiveDate: '2024-07-01', rentAmount: 1300, noticeServedAt: '2024-06-10' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Notice of this change must be served by 2024-06-01');
+    });
+
+    it('should return 403 for a viewer', async () => {
+      const lease = await createLease();
+
+      const response = await request(app)
+        .post(`/api/leases/${lease.id}/rent-changes`)
+        .set('Cookie', viewerCookies)
+        .send({ effectiveDate: '2024-07-01', rentAmount: 1300 });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should cancel a change that has not yet taken effect', async () => {
+      const lease = await createLease({ startDate: '2099-01-01', endDate: '2099-12-31' });
+
+      const created = await request(app)
+        .post(`/api/leases/${lease.id}/rent-changes`)
+        .set('Cookie', authCookies)
+        .send({ effectiveDate: '2099-07-01', rentAmount: 1300 });
+
+      const response = await request(app)
+        .delete(`/api/leases/${lease.id}/rent-changes/${created.body.rentChange.id}`)
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(200);
+      expect(await prisma.rentChange.count({ where: { leaseId: lease.id } })).toBe(0);
+    });
+
+    it('should not cancel a change already in effect', async () => {
+      const lease = await createLease();
+
+      const created = await request(app)
+        .post(`/api/leases/${lease.id}/rent-changes`)
+        .set('Cookie', authCookies)
+        .send({ effectiveDate: '2024-07-01', rentAmount: 1300 });
+
+      const response = await request(app)
+        .delete(`/api/leases/${lease.id}/rent-changes/${created.body.rentChange.id}`)
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Only rent changes that have not yet taken effect can be cancelled');
+    });
+
+    it('should drop changes scheduled after the lease is renewed', async () => {
+      const lease = await createLease();
+
+      await request(app)
+        .post(`/api/leases/${lease.id}/rent-changes`)
+        .set('Cookie', authCookies)
+        .send({ effectiveDate: '2024-10-01', rentAmount: 1300 });
+
+      const response = await request(app)
+        .post(`/api/leases/${lease.id}/renew`)
+        .set('Cookie', authCookies)
+        .send({ startDate: '2024-09-01', rentAmount: 1250 });
+
+      expect(response.status).toBe(201);
+      expect(await prisma.rentChange.count({ where: { leaseId: lease.id } })).toBe(0);
+    });
+  });
+
+  describe('POST /api/leases/:id/renew', () => {
+    const createLease = async (overrides: Record<string, unknown> = {}) => {
+      const response = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send({ ...validLease, ...overrides });
+      return response.body.lease;
+    };
+
+    it('should create a successor lease starting the day after the current one ends', async () => {
+      const current = await createLease();
+
+      const response = await request(app)
+        .post(`/api/leases/${current.id}/renew`)
+        .set('Cookie', authCookies)
+        .send({ endDate: '2025-12-31', rentAmount: 1300 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.success).toBe(true);
+      expect(response.body.lease).toMatchObject({
+        propertyId: testProperty.id,
+        tenantId: testTenant.id,
+        rentAmount: 1300,
+        securityDepositAmount: 1200,
+        status: 'Active',
+        previousLeaseId: current.id,
+      });
+      expect(response.body.lease.startDate).toBe('2025-01-01T00:00:00.000Z');
+      expect(response.body.lease.endDate).toBe('2025-12-31T00:00:00.000Z');
+      expect(response.body.lease.previousLease.rentAmount).toBe(1200);
+      expect(response.body.previousLease.status).toBe('Expired');
+      expect(response.body.previousLease.endDate).toBe('2024-12-31T00:00:00.000Z');
+    });
+
+    it('should carry joint tenants over to the successor lease', async () => {
+      const jointTenant = await prisma.tenant.create({
+        data: {
+          firstName: 'Rita',
+          lastName: 'Renewer',
+          email: 'rita.renewer@example.com',
+          phone: '07700900301',
+          status: 'Active',
+        },
+      });
+      const current = await createLease({ jointTenantIds: [jointTenant.id] });
+
+      const response = await request(app)
+        .post(`/api/leases/${current.id}/renew`)
+        .set('Cookie', authCookies)
+        .send({ rentAmount: 1250 });
+
+      expect(response.status).toBe(201);
+      expect(
+        response.body.lease.tenants.map((t: any) => ({ tenantId: t.tenantId, isLead: t.isLead }))
+      ).toEqual([
+        { tenantId: testTenant.id, isLead: true },
+        { tenantId: jointTenant.id, isLead: false },
+      ]);
+      expect(response.body.lease.endDate).toBeNull();
+
+      await prisma.lease.deleteMany({});
+      await prisma.tenant.delete({ where: { id: jointTenant.id } });
+    });
+
+    it('should carry guarantors over to the successor lease', async () => {
+      const current = await createLease();
+      const guarantor = await prisma.guarantor.create({
+        data: {
+          tenantId: testTenant.id,
+          firstName: 'Gail',
+          lastName: 'Guarantor',
+          email: 'gail.guarantor@example.com',
+          phone: '07700900302',
+          relationship: 'Parent',
+        },
+      });
+      await prisma.leaseGuarantor.create({ data: { leaseId: current.id, guarantorId: guarantor.id } });
+
+      const response = await request(app)
+        .post(`/api/leases/${current.id}/renew`)
+        .set('Cookie', authCookies)
+        .send({ rentAmount: 1250 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.lease.guarantors.map((g: any) => g.guarantorId)).toEqual([guarantor.id]);
+
+      await prisma.lease.deleteMany({});
+      await prisma.guarantor.delete({ where: { id: guarantor.id } });
+    });
+
+    it('should schedule a successor that starts in the future', async () => {
+      const nextYear = new Date().getUTCFullYear() + 1;
+      const current = await createLease({
+        startDate: `${nextYear - 1}-01-01`,
+        endDate: `${nextYear - 1}-12-31`,
+      });
+
+      const response = await request(app)
+        .post(`/api/leases/${current.id}/renew`)
+        .set('Cookie', authCookies)
+        .send({ rentAmount: 1300 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.lease.status).toBe('Draft');
+      expect(response.body.lease.startDate).toBe(`${nextYear}-01-01T00:00:00.000Z`);
+      expect(response.body.previousLease.status).toBe('Active');
+
+      // The daily run hands over on the successor's start date
+      const runResponse = await request(app)
+        .post('/api/leases/status-transitions/run')
+        .set('Cookie', authCookies)
+        .send({ as_of: `${nextYear}-01-01` });
+
+      expect(runResponse.body.expired.map((t: any) => t.leaseId)).toEqual([current.id]);
+      expect(runResponse.body.activated.map((t: any) => t.leaseId)).toEqual([response.body.lease.id]);
+    });
+
+    it('should bring the end date forward when renewing early', async () => {
+      const current = await createLease();
+
+      const response = await request(app)
+        .post(`/api/leases/${current.id}/renew`)
+        .set('Cookie', authCookies)
+        .send({ startDate: '2024-10-01', rentAmount: 1275 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.previousLease.endDate).toBe('2024-09-30T00:00:00.000Z');
+    });
+
+    it('should link both leases so the chain can be followed either way', async () => {
+      const current = await createLease();
+
+      const renewed = await request(app)
+        .post(`/api/leases/${current.id}/renew`)
+        .set('Cookie', authCookies)
+        .send({ rentAmount: 1300 });
+
+      const response = await request(app).get(`/api/leases/${current.id}`).set('Cookie', authCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.lease.renewal.id).toBe(renewed.body.lease.id);
+      expect(response.body.lease.renewal.rentAmount).toBe(1300);
+      expect(response.body.lease.previousLease).toBeNull();
+    });
+
+    it('should return 400 when the lease has already been renewed', async () => {
+      const current = await createLease();
+
+      await request(app)
+        .post(`/api/leases/${current.id}/renew`)
+        .set('Cookie', authCookies)
+        .send({ rentAmount: 1300 });
+
+      const response = await request(app)
+        .post(`/api/leases/${current.id}/renew`)
+        .set('Cookie', authCookies)
+        .send({ rentAmount: 1400 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Lease has already been renewed');
+    });
+
+    it('should return 400 when renewing a terminated lease', async () => {
+      const current = await createLease({ status: 'Terminated' });
+
+      const response = await request(app)
+        .post(`/api/leases/${current.id}/renew`)
+        .set('Cookie', authCookies)
+        .send({ rentAmount: 1300 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Only active or expired leases can be renewed');
+    });
+
+    it('should require a start date when the current lease has no end date', async () => {
+      const current = await createLease({ endDate: null });
+
+      const response = await request(app)
+        .post(`/api/leases/${current.id}/renew`)
+        .set('Cookie', authCookies)
+        .send({ rentAmount: 1300 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Start date is required for leases without an end date');
+    });
+
+    it('should return 400 when the renewal overlaps another active lease', async () => {
+      const current = await createLease();
+      await createLease({ startDate: '2025-06-01', endDate: '2025-12-31' });
+
+      const response = await request(app)
+        .post(`/api/leases/${current.id}/renew`)
+        .set('Cookie', authCookies)
+        .send({ endDate: '2025-12-31', rentAmount: 1300 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Cannot renew lease: overlapping active lease exists for this property');
+    });
+
+    it('should return 400 when rent amount is missing', async () => {
+      const current = await createLease();
+
+      const response = await request(app)
+        .post(`/api/leases/${current.id}/renew`)
+        .set('Cookie', authCookies)
+        .send({});
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for a non-existent lease', async () => {
+      const response = await request(app)
+        .post('/api/leases/00000000-0000-0000-0000-000000000000/renew')
+        .set('Cookie', authCookies)
+        .send({ rentAmount: 1300 });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Lease not found');
+    });
+
+    it('should return 403 for VIEWER role', async () => {
+      const current = await createLease();
+
+      const response = await request(app)
+        .post(`/api/leases/${current.id}/renew`)
+        .set('Cookie', viewerCookies)
+        .send({ rentAmount: 1300 });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
   describe('PUT /api/leases/:id', () => {
     it('should require authentication', async () => {
       const lease = await prisma.lease.create({
@@ -1212,7 +2393,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1220,7 +2401,7 @@ describe('Leases Routes', () => {
 
       const response = await request(app)
         .put(`/api/leases/${lease.id}`)
-        .send({ monthlyRent: 1300 });
+        .send({ rentAmount: 1300 });
 
       expect(response.status).toBe(401);
       expect(response.body.success).toBe(false);
@@ -1234,7 +2415,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1243,7 +2424,7 @@ describe('Leases Routes', () => {
       const response = await request(app)
         .put(`/api/leases/${lease.id}`)
         .set('Cookie', viewerCookies)
-        .send({ monthlyRent: 1300 });
+        .send({ rentAmount: 1300 });
 
       expect(response.status).toBe(403);
       expect(response.body.success).toBe(false);
@@ -1257,7 +2438,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1266,11 +2447,11 @@ describe('Leases Routes', () => {
       const response = await request(app)
         .put(`/api/leases/${lease.id}`)
         .set('Cookie', landlordCookies)
-        .send({ monthlyRent: 1300 });
+        .send({ rentAmount: 1300 });
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.lease.monthlyRent).toBe(1300);
+      expect(response.body.lease.rentAmount).toBe(1300);
     });
 
     it('should allow ADMIN role to update leases', async () => {
@@ -1280,7 +2461,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1289,11 +2470,11 @@ describe('Leases Routes', () => {
       const response = await request(app)
         .put(`/api/leases/${lease.id}`)
         .set('Cookie', adminCookies)
-        .send({ monthlyRent: 1300 });
+        .send({ rentAmount: 1300 });
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.lease.monthlyRent).toBe(1300);
+      expect(response.body.lease.rentAmount).toBe(1300);
     });
 
     it('should update lease with valid data', async () => {
@@ -1303,14 +2484,14 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
       });
 
       const updateData = {
-        monthlyRent: 1300,
+        rentAmount: 1300,
         status: 'Draft',
       };
 
@@ -1321,7 +2502,7 @@ describe('Leases Routes', () => {
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.lease.monthlyRent).toBe(1300);
+      expect(response.body.lease.rentAmount).toBe(1300);
       expect(response.body.lease.status).toBe('Draft');
       expect(response.body.lease.propertyId).toBe(testProperty.id); // Unchanged
     });
@@ -1332,7 +2513,7 @@ describe('Leases Routes', () => {
       const response = await request(app)
         .put(`/api/leases/${nonExistentId}`)
         .set('Cookie', authCookies)
-        .send({ monthlyRent: 1300 });
+        .send({ rentAmount: 1300 });
 
       expect(response.status).toBe(404);
       expect(response.body.success).toBe(false);
@@ -1343,7 +2524,7 @@ describe('Leases Routes', () => {
       const response = await request(app)
         .put('/api/leases/invalid-id')
         .set('Cookie', authCookies)
-        .send({ monthlyRent: 1300 });
+        .send({ rentAmount: 1300 });
 
       expect(response.status).toBe(400);
       expect(response.body.success).toBe(false);
@@ -1357,7 +2538,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1392,7 +2573,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1417,7 +2598,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1450,7 +2631,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1475,7 +2656,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-06-30'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1487,7 +2668,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2025-01-01'),
           endDate: new Date('2025-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1511,7 +2692,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1534,7 +2715,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1543,15 +2724,64 @@ describe('Leases Routes', () => {
       const response = await request(app)
         .put(`/api/leases/${lease.id}`)
         .set('Cookie', authCookies)
-        .send({ monthlyRent: 1250 });
+        .send({ rentAmount: 1250 });
 
       expect(response.status).toBe(200);
       expect(response.body.success).toBe(true);
-      expect(response.body.lease.monthlyRent).toBe(1250);
+      expect(response.body.lease.rentAmount).toBe(1250);
       expect(response.body.lease.status).toBe('Active'); // Unchanged
     });
   });
 
+  describe('Scheduled status transitions', () => {
+    it('should expire ended leases and list the recorded changes', async () => {
+      const created = await request(app)
+        .post('/api/leases')
+        .set('Cookie', authCookies)
+        .send(validLease);
+
+      const runResponse = await request(app)
+        .post('/api/leases/status-transitions/run')
+        .set('Cookie', authCookies)
+        .send({ as_of: '2025-01-05' });
+
+      expect(runResponse.status).toBe(200);
+      expect(runResponse.body.expired).toHaveLength(1);
+      expect(runResponse.body.expired[0].leaseId).toBe(created.body.lease.id);
+
+      const response = await request(app)
+        .get(`/api/leases/status-changes?lease_id=${created.body.lease.id}`)
+        .set('Cookie', viewerCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.statusChanges).toHaveLength(1);
+      expect(response.body.statusChanges[0]).toMatchObject({
+        leaseId: created.body.lease.id,
+        fromStatus: 'Active',
+        toStatus: 'Expired',
+      });
+      expect(response.body.statusChanges[0].lease.property.id).toBe(testProperty.id);
+    });
+
+    it('should return 400 for an invalid lease_id filter', async () => {
+      const response = await request(app)
+        .get('/api/leases/status-changes?lease_id=not-a-uuid')
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid lease ID');
+    });
+
+    it('should return 403 when a VIEWER runs transitions', async () => {
+      const response = await request(app)
+        .post('/api/leases/status-transitions/run')
+        .set('Cookie', viewerCookies)
+        .send({});
+
+      expect(response.status).toBe(403);
+    });
+  });
+
   describe('DELETE /api/leases/:id', () => {
     it('should require authentication', async () => {
       const lease = await prisma.lease.create({
@@ -1560,7 +2790,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1580,7 +2810,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1602,7 +2832,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1624,7 +2854,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1646,7 +2876,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -1698,7 +2928,7 @@ describe('Leases Routes', () => {
           tenantId: testTenant.id,
           startDate: new Date('2024-01-01'),
           endDate: new Date('2024-12-31'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Terminated',
         },
@@ -1737,10 +2967,10 @@ describe('Leases Routes', () => {
       const updateResponse = await request(app)
         .put(`/api/leases/${leaseId}`)
         .set('Cookie', authCookies)
-        .send({ monthlyRent: 1400 });
+        .send({ rentAmount: 1400 });
 
       expect(updateResponse.status).toBe(200);
-      expect(updateResponse.body.lease.monthlyRent).toBe(1400);
+      expect(updateResponse.body.lease.rentAmount).toBe(1400);
 
       // Delete
       const deleteResponse = await request(app)
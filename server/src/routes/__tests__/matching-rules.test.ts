@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
 import request from 'supertest';
 import { createApp } from '../../app.js';
 import prisma from '../../db/client.js';
@@ -378,6 +378,94 @@ describe('Matching Rules Routes', () => {
       expect(response.body.error).toContain('conditions');
     });
 
+    it('should accept nested condition groups with extended match types', async () => {
+      const conditions = JSON.stringify({
+        operator: 'AND',
+        rules: [
+          { field: 'date', matchType: 'between', value: '2024-01-01', valueTo: '2024-12-31' },
+          {
+            operator: 'OR',
+            rules: [
+              { field: 'description', matchType: 'regex', value: '^rent\\b' },
+              { field: 'dayOfMonth', matchType: 'equals', value: 1 },
+              { field: 'category', matchType: 'equals', value: 'bills' },
+            ],
+          },
+        ],
+      });
+
+      const response = await request(app)
+        .post(`/api/bank/accounts/${testBankAccount.id}/rules`)
+        .set('Cookie', adminCookies)
+        .send({ name: 'Nested Rule', enabled: true, conditions });
+
+      expect(response.status).toBe(201);
+      expect(JSON.parse(response.body.rule.conditions)).toEqual(JSON.parse(conditions));
+    });
+
+    const createWithCondition = (condition: object) =>
+      request(app)
+        .post(`/api/bank/accounts/${testBankAccount.id}/rules`)
+        .set('Cookie', adminCookies)
+        .send({
+          name: 'Invalid Rule',
+          enabled: true,
+          conditions: JSON.stringify({ operator: 'AND', rules: [condition] }),
+        });
+
+    it('should reject an invalid regular expression', async () => {
+      const response = await createWithCondition({ field: 'description', matchType: 'regex', value: '(' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid regular expression: (');
+    });
+
+    it('should reject a weekday outside Monday to Sunday', async () => {
+      const response = await createWithCondition({ field: 'weekday', matchType: 'equals', value: 8 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('weekday must be a whole number from 1 to 7');
+    });
+
+    it('should reject a between condition that ends before it starts', async () => {
+      const response = await createWithCondition({ field: 'amount', matchType: 'between', value: 100, valueTo: 50 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('The end of a between condition cannot be before its start');
+    });
+
+    it('should reject dates not in YYYY-MM-DD format', async () => {
+      const response = await createWithCondition({ field: 'date', matchType: 'greaterThan', value: '01/02/2024' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Dates must be in YYYY-MM-DD format');
+    });
+
+    it('should reject text match types on numeric fields', async () => {
+      const response = await createWithCondition({ field: 'amount', matchType: 'contains', value: 5 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('contains cannot be used with amount');
+    });
+
+    it('should limit how deeply condition groups are nested', async () => {
+      let conditions: object = {
+        operator: 'AND',
+        rules: [{ field: 'description', matchType: 'contains', value: 'x' }],
+      };
+      for (let depth = 1; depth <= 5; depth++) {
+        conditions = { operator: 'OR', rules: [conditions] };
+      }
+
+      const response = await request(app)
+        .post(`/api/bank/accounts/${testBankAccount.id}/rules`)
+        .set('Cookie', adminCookies)
+        .send({ name: 'Deep Rule', enabled: true, conditions: JSON.stringify(conditions) });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Condition groups can be nested at most 5 deep');
+    });
+
     it('should return 404 for non-existent bank account', async () => {
       const nonExistentId = '00000000-0000-0000-0000-000000000000';
       const response = await request(app)
@@ -425,6 +513,341 @@ describe('Matching Rules Routes', () => {
     });
   });
 
+  describe('Lease, payer and split assignments', () => {
+    let ownerA: { id: string };
+    let ownerB: { id: string };
+    let leaseId: string;
+    let otherLeaseId: string;
+
+    const createRule = (body: Record<string, unknown>) =>
+      request(app)
+        .post(`/api/bank/accounts/${testBankAccount.id}/rules`)
+        .set('Cookie', adminCookies)
+        .send({ name: 'Assigning Rule', enabled: true, conditions: validRuleConditions, ...body });
+
+    beforeAll(async () => {
+      ownerA = await authService.createUser('owner-a@example.com', 'password123', Roles.ADMIN);
+      ownerB = await authService.createUser('owner-b@example.com', 'password123', Roles.ADMIN);
+      await prisma.propertyOwnership.createMany({
+        data: [
+          { userId: ownerA.id, propertyId: testProperty.id, ownershipPercentage: 50 },
+          { userId: ownerB.id, propertyId: testProperty.id, ownershipPercentage: 50 },
+        ],
+      });
+
+      const tenant = await prisma.tenant.create({
+        data: {
+          firstName: 'Rule',
+          lastName: 'Tenant',
+          email: 'rule.tenant@example.com',
+          phone: '07700900000',
+          status: 'Active',
+        },
+      });
+      const otherProperty = await prisma.property.create({
+        data: {
+          name: 'Other Property',
+          street: '1 Other St',
+          city: 'London',
+          county: 'Greater London',
+          postcode: 'SW1A 2AA',
+          propertyType: 'Flat',
+          status: 'Occupied',
+        },
+      });
+      const leaseData = {
+        tenantId: tenant.id,
+        startDate: new Date('2024-01-01'),
+        rentAmount: 1000,
+        securityDepositAmount: 1000,
+        status: 'Active',
+      };
+      leaseId = (await prisma.lease.create({ data: { ...leaseData, propertyId: testProperty.id } })).id;
+      otherLeaseId = (await prisma.lease.create({ data: { ...leaseData, propertyId: otherProperty.id } })).id;
+    });
+
+    afterAll(async () => {
+      await prisma.matchingRule.deleteMany({});
+      await prisma.lease.deleteMany({});
+      await prisma.tenant.deleteMany({});
+      await prisma.propertyOwnership.deleteMany({});
+    });
+
+    it('should create a rule with a lease, payer and split preset', async () => {
+      const response = await createRule({
+        propertyId: testProperty.id,
+        type: 'EXPENSE',
+        category: 'Maintenance',
+        leaseId,
+        paidByUserId: ownerA.id,
+        splits: [
+          { userId: ownerA.id, percentage: 75 },
+          { userId: ownerB.id, percentage: 25 },
+        ],
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body.rule.leaseId).toBe(leaseId);
+      expect(response.body.rule.paidByUserId).toBe(ownerA.id);
+      expect(response.body.rule.splits).toHaveLength(2);
+      expect(response.body.rule.splits).toEqual(expect.arrayContaining([{ userId: ownerA.id, percentage: 75 }]));
+    });
+
+    it('should require a property for assignments', async () => {
+      const response = await createRule({ paidByUserId: ownerA.id });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('A rule must set a property to assign a lease, payer or splits');
+    });
+
+    it('should reject a lease from another property', async () => {
+      const response = await createRule({ propertyId: testProperty.id, leaseId: otherLeaseId });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Lease does not belong to the rule property');
+    });
+
+    it('should reject splits that do not sum to 100', async () => {
+      const response = await createRule({
+        propertyId: testProperty.id,
+        splits: [
+          { userId: ownerA.id, percentage: 60 },
+          { userId: ownerB.id, percentage: 30 },
+        ],
+      });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should replace and clear the split preset on update', async () => {
+      const created = await createRule({
+        propertyId: testProperty.id,
+        splits: [{ userId: ownerA.id, percentage: 100 }],
+      });
+
+      const replaced = await request(app)
+        .put(`/api/bank/rules/${created.body.rule.id}`)
+        .set('Cookie', adminCookies)
+        .send({ splits: [{ userId: ownerB.id, percentage: 100 }] });
+
+      expect(replaced.status).toBe(200);
+      expect(replaced.body.rule.splits).toEqual([{ userId: ownerB.id, percentage: 100 }]);
+
+      const cleared = await request(app)
+        .put(`/api/bank/rules/${created.body.rule.id}`)
+        .set('Cookie', adminCookies)
+        .send({ splits: null });
+
+      expect(cleared.status).toBe(200);
+      expect(cleared.body.rule.splits).toEqual([]);
+    });
+  });
+
+  describe('Rule suggestions', () => {
+    afterEach(async () => {
+      await prisma.ruleSuggestionDismissal.deleteMany({});
+    });
+
+    it('should list suggestions for a bank account', async () => {
+      const response = await request(app)
+        .get(`/api/bank/accounts/${testBankAccount.id}/rule-suggestions`)
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+      expect(response.body.suggestions).toEqual([]);
+    });
+
+    it('should return 404 for suggestions on a non-existent bank account', async () => {
+      const response = await request(app)
+        .get('/api/bank/accounts/00000000-0000-0000-0000-000000000000/rule-suggestions')
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Bank account not found');
+    });
+
+    it('should dismiss a suggestion', async () => {
+      const response = await request(app)
+        .post(`/api/bank/accounts/${testBankAccount.id}/rule-suggestions/dismiss`)
+        .set('Cookie', adminCookies)
+        .send({ key: 'counterpartyName:j smith' });
+
+      expect(response.status).toBe(200);
+      expect(
+        await prisma.ruleSuggestionDismissal.count({
+          where: { bankAccountId: testBankAccount.id, key: 'counterpartyName:j smith' },
+        })
+      ).toBe(1);
+    });
+
+    it('should require a suggestion key to dismiss', async () => {
+      const response = await request(app)
+        .post(`/api/bank/accounts/${testBankAccount.id}/rule-suggestions/dismiss`)
+        .set('Cookie', adminCookies)
+        .send({});
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/bank/accounts/:accountId/rules/stats', () => {
+    it('should return hit statistics for the account rules', async () => {
+      await prisma.bankTransaction.deleteMany({});
+
+      const rule = await prisma.matchingRule.create({
+        data: {
+          bankAccountId: testBankAccount.id,
+          priority: 0,
+          name: 'Rent Rule',
+          enabled: true,
+          conditions: validRuleConditions,
+          category: 'Rent',
+        },
+      });
+      const bankTransaction = await prisma.bankTransaction.create({
+        data: {
+          bankAccountId: testBankAccount.id,
+          externalId: 'tx_stats_001',
+          amount: 1000,
+          description: 'Monthly rent payment',
+          transactionDate: new Date('2024-01-15'),
+        },
+      });
+      await prisma.matchingRuleHit.create({
+        data: { ruleId: rule.id, bankTransactionId: bankTransaction.id, fields: 'category' },
+      });
+
+      const response = await request(app)
+        .get(`/api/bank/accounts/${testBankAccount.id}/rules/stats`)
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.stats).toEqual([
+        expect.objectContaining({ ruleId: rule.id, hitCount: 1, shadowedCount: 0, status: 'active' }),
+      ]);
+    });
+
+    it('should return 404 for a non-existent bank account', async () => {
+      const response = await request(app)
+        .get('/api/bank/accounts/00000000-0000-0000-0000-000000000000/rules/stats')
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('Rule impact preview', () => {
+    let bankTransactionId: string;
+    let transactionId: string;
+
+    const proposedRules = () => [
+      {
+        name: 'Rent Rule',
+        conditions: validRuleConditions,
+        type: 'INCOME',
+        category: 'Late Fee',
+      },
+    ];
+
+    beforeEach(async () => {
+      await prisma.transaction.deleteMany({});
+      await prisma.bankTransaction.deleteMany({});
+
+      const bankTransaction = await prisma.bankTransaction.create({
+        data: {
+          bankAccountId: testBankAccount.id,
+          externalId: 'tx_impact_001',
+          amount: 95000,
+          description: 'Monthly rent payment',
+          transactionDate: new Date('2024-01-15'),
+        },
+      });
+      const transaction = await prisma.transaction.create({
+        data: {
+          propertyId: testProperty.id,
+          type: 'Income',
+          category: 'Rent',
+          amount: 95000,
+          transactionDate: bankTransaction.transactionDate,
+          description: bankTransaction.description,
+          bankTransactionId: bankTransaction.id,
+          isImported: true,
+        },
+      });
+      await prisma.bankTransaction.update({
+        where: { id: bankTransaction.id },
+        data: { transactionId: transaction.id },
+      });
+
+      bankTransactionId = bankTransaction.id;
+      transactionId = transaction.id;
+    });
+
+    it('should report the changes a proposed rule set would make without saving them', async () => {
+      const response = await request(app)
+        .post(`/api/bank/accounts/${testBankAccount.id}/rules/preview`)
+        .set('Cookie', adminCookies)
+        .send({ rules: proposedRules() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.preview.evaluated).toBe(1);
+      expect(response.body.preview.changes).toHaveLength(1);
+      expect(response.body.preview.changes[0]).toMatchObject({
+        bankTransactionId,
+        transactionId,
+        changedFields: ['category'],
+        current: { category: 'Rent' },
+        proposed: { category: 'Late Fee' },
+      });
+
+      const transaction = await prisma.transaction.findUnique({ where: { id: transactionId } });
+      expect(transaction?.category).toBe('Rent');
+    });
+
+    it('should apply the selected changes', async () => {
+      const response = await request(app)
+        .post(`/api/bank/accounts/${testBankAccount.id}/rules/preview/apply`)
+        .set('Cookie', adminCookies)
+        .send({ rules: proposedRules(), bankTransactionIds: [bankTransactionId] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.result).toEqual({ applied: 1, skipped: [] });
+
+      const transaction = await prisma.transaction.findUnique({ where: { id: transactionId } });
+      expect(transaction?.category).toBe('Late Fee');
+    });
+
+    it('should require changes to apply', async () => {
+      const response = await request(app)
+        .post(`/api/bank/accounts/${testBankAccount.id}/rules/preview/apply`)
+        .set('Cookie', adminCookies)
+        .send({ rules: proposedRules(), bankTransactionIds: [] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Select at least one change to apply');
+    });
+
+    it('should validate the proposed rules', async () => {
+      const response = await request(app)
+        .post(`/api/bank/accounts/${testBankAccount.id}/rules/preview`)
+        .set('Cookie', adminCookies)
+        .send({ rules: [{ name: 'Broken', conditions: 'not json' }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid conditions format');
+    });
+
+    it('should return 404 for a non-existent bank account', async () => {
+      const response = await request(app)
+        .post('/api/bank/accounts/00000000-0000-0000-0000-000000000000/rules/preview')
+        .set('Cookie', adminCookies)
+        .send({ rules: [] });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
   describe('GET /api/bank/rules/:id', () => {
     it('should require authentication', async () => {
       const rule = await prisma.matchingRule.create({
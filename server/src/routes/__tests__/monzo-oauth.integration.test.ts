@@ -187,7 +187,7 @@ describe('Monzo OAuth Integration Tests', () => {
 
       // Verify tokens are encrypted
       expect(bankAccount?.accessToken).not.toBe(mockAccessToken);
-      const decryptedAccessToken = decryptToken(bankAccount!.accessToken);
+      const decryptedAccessToken = decryptToken(bankAccount!.accessToken!);
       expect(decryptedAccessToken).toBe(mockAccessToken);
 
       // Verify sync log was created
@@ -418,7 +418,7 @@ describe('Monzo OAuth Integration Tests', () => {
       expect(updatedAccount.syncEnabled).toBe(true);
       expect(updatedAccount.webhookId).toBe('new_webhook_456');
 
-      const decryptedAccessToken = decryptToken(updatedAccount.accessToken);
+      const decryptedAccessToken = decryptToken(updatedAccount.accessToken!);
       expect(decryptedAccessToken).toBe(newAccessToken);
 
       // Verify old webhook was deleted
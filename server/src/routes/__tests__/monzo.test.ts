@@ -4,13 +4,13 @@ import prisma from '../../db/client.js';
 import authService from '../../services/auth.service.js';
 import { Roles } from '../../../../shared/types/user.types.js';
 
-// Mock the monzo service before importing app
-const mockGenerateAuthUrl = jest.fn<(syncFromDays: number) => string>();
-const mockValidateState = jest.fn<(state: string) => Date>();
-const mockExchangeCodeForTokens = jest.fn<(code: string) => Promise<{
-  access_token: string;
-  refresh_token?: string;
-  expires_in: number;
+// Mock the bank connection services and Monzo provider before importing app
+const mockGenerateAuthUrl = jest.fn<(providerName: string, syncFromDays: number) => string>();
+const mockValidateState = jest.fn<(state: string) => { provider: string; syncFromDate: Date }>();
+const mockExchangeCode = jest.fn<(code: string) => Promise<{
+  accessToken: string;
+  refreshToken?: string;
+  expiresIn: number;
 }>>();
 const mockGetAccountInfo = jest.fn<(accessToken: string) => Promise<{
   accountId: string;
@@ -30,8 +30,9 @@ const mockRegisterWebhook = jest.fn<(accessToken: string, accountId: string, web
   webhookUrl: string;
 }>>();
 const mockDeleteWebhook = jest.fn<(accessToken: string, webhookId: string) => Promise<void>>();
-const mockStorePendingConnection = jest.fn<(accessToken: string, refreshToken: string | undefined, expiresIn: number, syncFromDate: Date) => string>();
+const mockStorePendingConnection = jest.fn<(provider: string, accessToken: string, refreshToken: string | undefined, expiresIn: number, syncFromDate: Date) => string>();
 const mockGetPendingConnection = jest.fn<(pendingId: string) => {
+  provider: string;
   accessToken: string;
   refreshToken: string | undefined;
   expiresIn: number;
@@ -39,20 +40,40 @@ const mockGetPendingConnection = jest.fn<(pendingId: string) => {
 }>();
 const mockDeletePendingConnection = jest.fn<(pendingId: string) => void>();
 
-jest.unstable_mockModule('../../services/monzo.service.js', () => ({
-  generateAuthUrl: mockGenerateAuthUrl,
-  validateState: mockValidateState,
-  exchangeCodeForTokens: mockExchangeCodeForTokens,
+const mockMonzoProvider = {
+  name: 'monzo',
+  displayName: 'Monzo',
+  exchangeCode: mockExchangeCode,
   getAccountInfo: mockGetAccountInfo,
-  importFullHistory: mockImportFullHistory,
-  syncNewTransactions: mockSyncNewTransactions,
   registerWebhook: mockRegisterWebhook,
   deleteWebhook: mockDeleteWebhook,
+  getWebhookSecret: () => process.env.MONZO_WEBHOOK_SECRET,
+};
+
+jest.unstable_mockModule('../../services/bankConnection.service.js', () => ({
+  generateAuthUrl: mockGenerateAuthUrl,
+  validateState: mockValidateState,
   storePendingConnection: mockStorePendingConnection,
   getPendingConnection: mockGetPendingConnection,
   deletePendingConnection: mockDeletePendingConnection,
 }));
 
+jest.unstable_mockModule('../../services/bankSync.service.js', () => ({
+  importFullHistory: mockImportFullHistory,
+  syncNewTransactions: mockSyncNewTransactions,
+}));
+
+jest.unstable_mockModule('../../services/bankProviders/index.js', () => ({
+  findBankProvider: (name: string) => (name === 'monzo' ? mockMonzoProvider : undefined),
+  getBankProvider: (name: string) => {
+    if (name !== 'monzo') {
+      throw new Error(`Unknown bank provider: ${name}`);
+    }
+    return mockMonzoProvider;
+  },
+  WebhookPayloadError: class WebhookPayloadError extends Error {},
+}));
+
 // Import app after mocking
 const { createApp } = await import('../../app.js');
 const app = createApp();
@@ -164,7 +185,7 @@ describe('Monzo OAuth Routes', () => {
       expect(response.body.authUrl).toBe(mockAuthUrl);
 
       // Verify generateAuthUrl was called with 90 days
-      expect(mockGenerateAuthUrl).toHaveBeenCalledWith(90);
+      expect(mockGenerateAuthUrl).toHaveBeenCalledWith('monzo', 90);
     });
 
     it('should generate auth URL with custom syncFromDays', async () => {
@@ -181,7 +202,7 @@ describe('Monzo OAuth Routes', () => {
       expect(response.body.success).toBe(true);
       expect(response.body.authUrl).toBe(mockAuthUrl);
 
-      expect(mockGenerateAuthUrl).toHaveBeenCalledWith(180);
+      expect(mockGenerateAuthUrl).toHaveBeenCalledWith('monzo', 180);
     });
 
     it('should handle service errors gracefully', async () => {
@@ -232,14 +253,14 @@ describe('Monzo OAuth Routes', () => {
       const mockState = 'valid_state';
       const mockCode = 'auth_code_123';
       const mockSyncFromDate = new Date('2024-01-01');
-      const mockTokenResponse = {
-        access_token: 'access_token_123',
-        refresh_token: 'refresh_token_123',
-        expires_in: 3600,
+      const mockTokens = {
+        accessToken: 'access_token_123',
+        refreshToken: 'refresh_token_123',
+        expiresIn: 3600,
       };
 
-      mockValidateState.mockReturnValue(mockSyncFromDate);
-      mockExchangeCodeForTokens.mockResolvedValue(mockTokenResponse);
+      mockValidateState.mockReturnValue({ provider: 'monzo', syncFromDate: mockSyncFromDate });
+      mockExchangeCode.mockResolvedValue(mockTokens);
       mockStorePendingConnection.mockReturnValue('pending_id_abc');
 
       const response = await request(app)
@@ -250,11 +271,12 @@ describe('Monzo OAuth Routes', () => {
       expect(response.headers.location).toBe('/settings?pending_approval=monzo&pendingId=pending_id_abc');
 
       expect(mockValidateState).toHaveBeenCalledWith(mockState);
-      expect(mockExchangeCodeForTokens).toHaveBeenCalledWith(mockCode);
+      expect(mockExchangeCode).toHaveBeenCalledWith(mockCode);
       expect(mockStorePendingConnection).toHaveBeenCalledWith(
-        mockTokenResponse.access_token,
-        mockTokenResponse.refresh_token,
-        mockTokenResponse.expires_in,
+        'monzo',
+        mockTokens.accessToken,
+        mockTokens.refreshToken,
+        mockTokens.expiresIn,
         mockSyncFromDate
       );
 
@@ -279,8 +301,8 @@ describe('Monzo OAuth Routes', () => {
     it('should handle token exchange errors', async () => {
       const mockSyncFromDate = new Date('2024-01-01');
 
-      mockValidateState.mockReturnValue(mockSyncFromDate);
-      mockExchangeCodeForTokens.mockRejectedValue(new Error('Token exchange failed'));
+      mockValidateState.mockReturnValue({ provider: 'monzo', syncFromDate: mockSyncFromDate });
+      mockExchangeCode.mockRejectedValue(new Error('Token exchange failed'));
 
       const response = await request(app)
         .get('/api/bank/monzo/callback')
@@ -337,6 +359,7 @@ describe('Monzo OAuth Routes', () => {
 
     it('should complete connection and create bank account', async () => {
       const mockPending = {
+        provider: 'monzo',
         accessToken: 'access_token_123',
         refreshToken: 'refresh_token_123',
         expiresIn: 3600,
@@ -379,6 +402,7 @@ describe('Monzo OAuth Routes', () => {
 
     it('should return 403 when SCA not yet approved', async () => {
       const mockPending = {
+        provider: 'monzo',
         accessToken: 'access_token_123',
         refreshToken: 'refresh_token_123',
         expiresIn: 3600,
@@ -405,6 +429,7 @@ describe('Monzo OAuth Routes', () => {
       process.env.MONZO_WEBHOOK_SECRET = 'test-secret';
 
       const mockPending = {
+        provider: 'monzo',
         accessToken: 'access_token_123',
         refreshToken: 'refresh_token_123',
         expiresIn: 3600,
@@ -447,6 +472,7 @@ describe('Monzo OAuth Routes', () => {
       process.env.MONZO_WEBHOOK_SECRET = 'test-secret';
 
       const mockPending = {
+        provider: 'monzo',
         accessToken: 'access_token_123',
         refreshToken: 'refresh_token_123',
         expiresIn: 3600,
@@ -503,6 +529,7 @@ describe('Monzo OAuth Routes', () => {
       });
 
       const mockPending = {
+        provider: 'monzo',
         accessToken: 'new_access_token',
         refreshToken: 'new_refresh_token',
         expiresIn: 3600,
@@ -598,6 +598,48 @@ describe('Pending Transactions Routes', () => {
       expect(updatedBankTx?.transactionId).toBeTruthy();
     });
 
+    it('should refuse to approve a transaction the bank reversed', async () => {
+      const bankTx = await prisma.bankTransaction.create({
+        data: {
+          bankAccountId: testBankAccountId,
+          externalId: 'tx_approve_reversed',
+          description: 'Reversed payment',
+          amount: 1000,
+          currency: 'GBP',
+          transactionDate: new Date('2024-01-15'),
+          reversedAt: new Date(),
+        },
+      });
+
+      const pendingTx = await prisma.pendingTransaction.create({
+        data: {
+          bankTransactionId: bankTx.id,
+          propertyId: testPropertyId,
+          type: 'Income',
+          category: 'Rent',
+          transactionDate: new Date('2024-01-15'),
+          description: 'Reversed payment',
+        },
+      });
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/${pendingTx.id}/approve`)
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('The bank reversed this transaction, so it cannot be approved');
+      expect(await prisma.transaction.count()).toBe(0);
+
+      const bulkResponse = await request(app)
+        .post('/api/pending-transactions/bulk/approve')
+        .set('Cookie', adminCookies)
+        .send({ ids: [pendingTx.id] });
+
+      expect(bulkResponse.status).toBe(400);
+      expect(bulkResponse.body.details).toEqual([`Transaction ${pendingTx.id} was reversed by the bank`]);
+      expect(await prisma.transaction.count()).toBe(0);
+    });
+
     it('should require propertyId before approval', async () => {
       const bankTx = await prisma.bankTransaction.create({
         data: {
@@ -735,6 +777,565 @@ describe('Pending Transactions Routes', () => {
     });
   });
 
+  describe('POST /api/pending-transactions/:id/resolve-flag', () => {
+    const createReviewed = async (flagged: boolean) => {
+      const bankTx = await prisma.bankTransaction.create({
+        data: {
+          bankAccountId: testBankAccountId,
+          externalId: `tx_flag_${flagged ? 'on' : 'off'}`,
+          description: 'Refunded purchase',
+          amount: -2000,
+          currency: 'GBP',
+          transactionDate: new Date('2024-01-15'),
+        },
+      });
+
+      return prisma.pendingTransaction.create({
+        data: {
+          bankTransactionId: bankTx.id,
+          transactionDate: new Date('2024-01-15'),
+          description: 'Refunded purchase',
+          reviewedAt: new Date(),
+          reviewedBy: adminUserId,
+          ...(flagged ? { flaggedAt: new Date(), flagReason: 'Amount changed from -2500 to -2000' } : {}),
+        },
+      });
+    };
+
+    it('should list flagged items under the flagged review status', async () => {
+      const flagged = await createReviewed(true);
+      await createReviewed(false);
+
+      const response = await request(app)
+        .get('/api/pending-transactions?review_status=flagged')
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.pendingTransactions).toHaveLength(1);
+      expect(response.body.pendingTransactions[0].id).toBe(flagged.id);
+      expect(response.body.pendingTransactions[0].flagReason).toBe('Amount changed from -2500 to -2000');
+    });
+
+    it('should clear the flag', async () => {
+      const flagged = await createReviewed(true);
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/${flagged.id}/resolve-flag`)
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+
+      const updated = await prisma.pendingTransaction.findUnique({ where: { id: flagged.id } });
+      expect(updated?.flaggedAt).toBeNull();
+      expect(updated?.flagReason).toBeNull();
+      expect(updated?.reviewedAt).not.toBeNull();
+    });
+
+    it('should return 400 when the item is not flagged', async () => {
+      const reviewed = await createReviewed(false);
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/${reviewed.id}/resolve-flag`)
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Pending transaction is not flagged for re-review');
+    });
+
+    it('should return 404 for unknown pending transactions', async () => {
+      const response = await request(app)
+        .post('/api/pending-transactions/00000000-0000-0000-0000-000000000000/resolve-flag')
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should require admin role', async () => {
+      const flagged = await createReviewed(true);
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/${flagged.id}/resolve-flag`)
+        .set('Cookie', viewerCookies);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('Linking to existing manual transactions', () => {
+    const createPendingRepair = async () => {
+      const bankTx = await prisma.bankTransaction.create({
+        data: {
+          bankAccountId: testBankAccountId,
+          externalId: 'tx_link_repair',
+          description: 'PLUMBFIX LTD',
+          amount: -12500,
+          currency: 'GBP',
+          transactionDate: new Date('2024-03-12'),
+        },
+      });
+
+      return prisma.pendingTransaction.create({
+        data: {
+          bankTransactionId: bankTx.id,
+          transactionDate: new Date('2024-03-12'),
+          description: 'PLUMBFIX LTD',
+        },
+      });
+    };
+
+    const createManual = (data: { amount?: number; transactionDate?: Date }) =>
+      prisma.transaction.create({
+        data: {
+          propertyId: testPropertyId,
+          type: 'Expense',
+          category: 'Maintenance',
+          amount: data.amount ?? 125,
+          transactionDate: data.transactionDate ?? new Date('2024-03-10'),
+          description: 'Boiler repair',
+        },
+      });
+
+    it('should find manual transactions with the same amount near the bank date', async () => {
+      const pending = await createPendingRepair();
+      const match = await createManual({});
+      await createManual({ amount: 126 });
+      await createManual({ transactionDate: new Date('2024-02-01') });
+
+      const response = await request(app)
+        .get(`/api/pending-transactions/${pending.id}/matches`)
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.candidates).toHaveLength(1);
+      expect(response.body.candidates[0]).toMatchObject({
+        id: match.id,
+        propertyName: 'Test Property',
+        amount: 125,
+        daysApart: 2,
+      });
+    });
+
+    it('should not offer manual transactions in the other direction', async () => {
+      const pending = await createPendingRepair();
+      // Money in of the same amount can't be the repair bill going out
+      await prisma.transaction.create({
+        data: {
+          propertyId: testPropertyId,
+          type: 'Income',
+          category: 'Rent',
+          amount: 125,
+          transactionDate: new Date('2024-03-12'),
+          description: 'Part rent',
+        },
+      });
+
+      const response = await request(app)
+        .get(`/api/pending-transactions/${pending.id}/matches`)
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.candidates).toEqual([]);
+    });
+
+    it('should link the bank transaction to the manual transaction', async () => {
+      const pending = await createPendingRepair();
+      const manual = await createManual({});
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/${pending.id}/link`)
+        .set('Cookie', adminCookies)
+        .send({ transactionId: manual.id });
+
+      expect(response.status).toBe(200);
+      expect(response.body.transaction.bankTransactionId).toBe(pending.bankTransactionId);
+
+      const bankTx = await prisma.bankTransaction.findUnique({ where: { id: pending.bankTransactionId } });
+      expect(bankTx?.transactionId).toBe(manual.id);
+
+      const reviewed = await prisma.pendingTransaction.findUnique({ where: { id: pending.id } });
+      expect(reviewed?.reviewedAt).not.toBeNull();
+      expect(reviewed?.reviewedBy).toBe(adminUserId);
+
+      // No second ledger entry
+      expect(await prisma.transaction.count()).toBe(1);
+    });
+
+    it('should not link a transaction that is already linked', async () => {
+      const pending = await createPendingRepair();
+      const otherBankTx = await prisma.bankTransaction.create({
+        data: {
+          bankAccountId: testBankAccountId,
+          externalId: 'tx_link_other',
+          description: 'PLUMBFIX LTD',
+          amount: -12500,
+          transactionDate: new Date('2024-03-11'),
+        },
+      });
+      const manual = await prisma.transaction.create({
+        data: {
+          propertyId: testPropertyId,
+          type: 'Expense',
+          category: 'Maintenance',
+          amount: 125,
+          transactionDate: new Date('2024-03-10'),
+          description: 'Boiler repair',
+          bankTransactionId: otherBankTx.id,
+        },
+      });
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/${pending.id}/link`)
+        .set('Cookie', adminCookies)
+        .send({ transactionId: manual.id });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Transaction is already linked to a bank transaction');
+    });
+
+    it('should validate the transaction ID', async () => {
+      const pending = await createPendingRepair();
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/${pending.id}/link`)
+        .set('Cookie', adminCookies)
+        .send({ transactionId: 'not-a-uuid' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid transaction ID format');
+    });
+
+    it('should return 404 for unknown pending transactions', async () => {
+      const response = await request(app)
+        .get('/api/pending-transactions/00000000-0000-0000-0000-000000000000/matches')
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /api/pending-transactions/:id/split', () => {
+    const createPendingInvoice = async () => {
+      const bankTx = await prisma.bankTransaction.create({
+        data: {
+          bankAccountId: testBankAccountId,
+          externalId: 'tx_split_invoice',
+          description: 'BUILDCO INVOICE 42',
+          amount: -30000,
+          currency: 'GBP',
+          transactionDate: new Date('2024-03-15'),
+        },
+      });
+
+      const pending = await prisma.pendingTransaction.create({
+        data: {
+          bankTransactionId: bankTx.id,
+          transactionDate: new Date('2024-03-15'),
+          description: 'BUILDCO INVOICE 42',
+        },
+      });
+
+      await prisma.bankTransaction.update({
+        where: { id: bankTx.id },
+        data: { pendingTransactionId: pending.id },
+      });
+
+      return pending;
+    };
+
+    const parts = () => [
+      { propertyId: testPropertyId, type: 'Expense', category: 'Repair', amount: 20000, description: 'Roof repair' },
+      { propertyId: testPropertyId, type: 'Expense', category: 'Maintenance', amount: 10000 },
+    ];
+
+    it('should approve the bank transaction as several ledger transactions', async () => {
+      const pending = await createPendingInvoice();
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/${pending.id}/split`)
+        .set('Cookie', adminCookies)
+        .send({ parts: parts() });
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('Transaction split into 2 transactions');
+      expect(response.body.transactions).toHaveLength(2);
+      expect(response.body.transactions[0]).toMatchObject({
+        category: 'Repair',
+        amount: -20000,
+        description: 'Roof repair',
+        bankTransactionId: pending.bankTransactionId,
+        isImported: true,
+      });
+      expect(response.body.transactions[1]).toMatchObject({
+        category: 'Maintenance',
+        amount: -10000,
+        description: 'BUILDCO INVOICE 42',
+        bankTransactionId: pending.bankTransactionId,
+      });
+
+      const bankTx = await prisma.bankTransaction.findUnique({ where: { id: pending.bankTransactionId } });
+      expect(bankTx?.transactionId).toBe(response.body.transactions[0].id);
+
+      const reviewed = await prisma.pendingTransaction.findUnique({ where: { id: pending.id } });
+      expect(reviewed?.reviewedBy).toBe(adminUserId);
+    });
+
+    it('should list the split parts with the reviewed bank transaction', async () => {
+      const pending = await createPendingInvoice();
+      await request(app)
+        .post(`/api/pending-transactions/${pending.id}/split`)
+        .set('Cookie', adminCookies)
+        .send({ parts: parts() });
+
+      const response = await request(app)
+        .get('/api/pending-transactions?review_status=reviewed')
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(200);
+      const ledgerTransactions = response.body.pendingTransactions[0].bankTransaction.ledgerTransactions;
+      expect(ledgerTransactions).toHaveLength(2);
+      expect(ledgerTransactions).toContainEqual(
+        expect.objectContaining({ category: 'Repair', amount: -20000, propertyName: 'Test Property' })
+      );
+    });
+
+    it('should reject parts that do not add up to the bank amount', async () => {
+      const pending = await createPendingInvoice();
+      const [first, second] = parts();
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/${pending.id}/split`)
+        .set('Cookie', adminCookies)
+        .send({ parts: [first, { ...second, amount: 9000 }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Split amounts must add up to the bank transaction amount');
+      expect(await prisma.transaction.count()).toBe(0);
+    });
+
+    it('should reject a part whose category does not match its type', async () => {
+      const pending = await createPendingInvoice();
+      const [first, second] = parts();
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/${pending.id}/split`)
+        .set('Cookie', adminCookies)
+        .send({ parts: [first, { ...second, category: 'Rent' }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Category must match the transaction type');
+    });
+
+    it('should require at least two parts', async () => {
+      const pending = await createPendingInvoice();
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/${pending.id}/split`)
+        .set('Cookie', adminCookies)
+        .send({ parts: [{ ...parts()[0], amount: 30000 }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('A split needs at least two parts');
+    });
+
+    it('should not split a transaction the bank reversed', async () => {
+      const pending = await createPendingInvoice();
+      await prisma.bankTransaction.update({
+        where: { id: pending.bankTransactionId },
+        data: { reversedAt: new Date(), declineReason: 'INSUFFICIENT_FUNDS' },
+      });
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/${pending.id}/split`)
+        .set('Cookie', adminCookies)
+        .send({ parts: parts() });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('The bank reversed this transaction, so it cannot be split');
+      expect(await prisma.transaction.count()).toBe(0);
+    });
+
+    it('should not split a reviewed pending transaction', async () => {
+      const pending = await createPendingInvoice();
+      await prisma.pendingTransaction.update({
+        where: { id: pending.id },
+        data: { reviewedAt: new Date(), reviewedBy: adminUserId },
+      });
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/${pending.id}/split`)
+        .set('Cookie', adminCookies)
+        .send({ parts: parts() });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('This pending transaction has already been reviewed');
+    });
+  });
+
+  describe('Possible duplicates', () => {
+    /**
+     * A twice-monthly rent payment held as a possible duplicate of the first
+     */
+    const createPossibleDuplicate = async () => {
+      const original = await prisma.bankTransaction.create({
+        data: {
+          bankAccountId: testBankAccountId,
+          externalId: 'tx_rent_first',
+          description: 'J SMITH RENT',
+          amount: 47500,
+          currency: 'GBP',
+          transactionDate: new Date('2024-03-01'),
+        },
+      });
+
+      const held = await prisma.bankTransaction.create({
+        data: {
+          bankAccountId: testBankAccountId,
+          externalId: 'tx_rent_second',
+          description: 'J SMITH RENT',
+          amount: 47500,
+          currency: 'GBP',
+          transactionDate: new Date('2024-03-01'),
+          duplicateOfId: original.id,
+          duplicateStatus: 'possible',
+        },
+      });
+
+      return { original, held };
+    };
+
+    it('should list held transactions beside the transaction they look like', async () => {
+      const { original, held } = await createPossibleDuplicate();
+
+      const response = await request(app)
+        .get('/api/pending-transactions/possible-duplicates')
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.possibleDuplicates).toHaveLength(1);
+      expect(response.body.possibleDuplicates[0]).toMatchObject({
+        id: held.id,
+        externalId: 'tx_rent_second',
+        bankAccount: { id: testBankAccountId, accountName: 'Test Current Account' },
+        duplicateOf: { id: original.id, externalId: 'tx_rent_first', description: 'J SMITH RENT', amount: 47500 },
+      });
+    });
+
+    it('should count held transactions as awaiting review', async () => {
+      await createPossibleDuplicate();
+
+      const response = await request(app).get('/api/pending-transactions/count').set('Cookie', adminCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.count).toBe(1);
+      expect(response.body.possibleDuplicates).toBe(1);
+    });
+
+    it('should post a kept transaction through the matching rules', async () => {
+      const { held } = await createPossibleDuplicate();
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/possible-duplicates/${held.id}/keep`)
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('Transaction kept');
+      expect(response.body.bankTransaction).toMatchObject({ duplicateStatus: null, duplicateOfId: null });
+
+      const pending = await prisma.pendingTransaction.findUnique({ where: { bankTransactionId: held.id } });
+      expect(pending).toMatchObject({ description: 'J SMITH RENT', reviewedAt: null });
+      expect(response.body.bankTransaction.pendingTransactionId).toBe(pending?.id);
+    });
+
+    it('should hold a kept transaction again when posting it fails', async () => {
+      const { original, held } = await createPossibleDuplicate();
+      // A pending transaction already claims the bank transaction, so posting cannot create one
+      await prisma.pendingTransaction.create({
+        data: { bankTransactionId: held.id, transactionDate: held.transactionDate, description: held.description },
+      });
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/possible-duplicates/${held.id}/keep`)
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(500);
+
+      const stillHeld = await prisma.bankTransaction.findUnique({ where: { id: held.id } });
+      expect(stillHeld).toMatchObject({ duplicateStatus: 'possible', duplicateOfId: original.id });
+    });
+
+    it('should not keep a held transaction the bank reversed', async () => {
+      const { held } = await createPossibleDuplicate();
+      await prisma.bankTransaction.update({
+        where: { id: held.id },
+        data: { reversedAt: new Date('2024-03-02'), declineReason: 'INSUFFICIENT_FUNDS' },
+      });
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/possible-duplicates/${held.id}/keep`)
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('The bank reversed this transaction, so it cannot be kept');
+      expect(await prisma.pendingTransaction.count()).toBe(0);
+
+      const stillHeld = await prisma.bankTransaction.findUnique({ where: { id: held.id } });
+      expect(stillHeld?.duplicateStatus).toBe('possible');
+    });
+
+    it('should discard a held transaction without posting it', async () => {
+      const { held } = await createPossibleDuplicate();
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/possible-duplicates/${held.id}/discard`)
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('Duplicate discarded');
+
+      const discarded = await prisma.bankTransaction.findUnique({ where: { id: held.id } });
+      expect(discarded).toMatchObject({ duplicateStatus: 'discarded', transactionId: null, pendingTransactionId: null });
+
+      const list = await request(app)
+        .get('/api/pending-transactions/possible-duplicates')
+        .set('Cookie', adminCookies);
+      expect(list.body.possibleDuplicates).toEqual([]);
+    });
+
+    it('should not review a transaction twice', async () => {
+      const { held } = await createPossibleDuplicate();
+      await request(app)
+        .post(`/api/pending-transactions/possible-duplicates/${held.id}/discard`)
+        .set('Cookie', adminCookies);
+
+      const response = await request(app)
+        .post(`/api/pending-transactions/possible-duplicates/${held.id}/keep`)
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Bank transaction is not awaiting duplicate review');
+      expect(await prisma.pendingTransaction.count()).toBe(0);
+    });
+
+    it('should return 404 for an unknown bank transaction', async () => {
+      const response = await request(app)
+        .post('/api/pending-transactions/possible-duplicates/00000000-0000-0000-0000-000000000000/keep')
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Bank transaction not found');
+    });
+
+    it('should reject an invalid ID', async () => {
+      const response = await request(app)
+        .post('/api/pending-transactions/possible-duplicates/not-a-uuid/discard')
+        .set('Cookie', adminCookies);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid bank transaction ID format');
+    });
+  });
+
   describe('GET /api/pending-transactions/count', () => {
     it('should require authentication', async () => {
       const response = await request(app).get('/api/pending-transactions/count');
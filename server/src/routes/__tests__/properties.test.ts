@@ -794,7 +794,7 @@ describe('Properties Routes', () => {
           propertyId: property.id,
           tenantId: tenant.id,
           startDate: new Date('2024-01-01'),
-          monthlyRent: 1000,
+          rentAmount: 1000,
           securityDepositAmount: 1500,
           status: 'Active',
         },
@@ -996,6 +996,241 @@ describe('Properties Routes', () => {
     });
   });
 
+  describe('Units', () => {
+    let property: any;
+    let tenant: any;
+
+    beforeEach(async () => {
+      property = await prisma.property.create({ data: { ...validProperty, propertyType: 'House' } });
+      tenant = await prisma.tenant.create({
+        data: {
+          firstName: 'Room',
+          lastName: 'Tenant',
+          email: 'room.tenant@example.com',
+          phone: '07700900123',
+          status: 'Active',
+        },
+      });
+    });
+
+    afterAll(async () => {
+      await prisma.tenant.deleteMany({});
+    });
+
+    it('should create a unit within a property', async () => {
+      const response = await request(app)
+        .post(`/api/properties/${property.id}/units`)
+        .set('Cookie', authCookies)
+        .send({ name: 'Room 1', status: 'Available' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.unit).toMatchObject({
+        propertyId: property.id,
+        name: 'Room 1',
+        status: 'Available',
+      });
+    });
+
+    it('should block VIEWER role from creating units', async () => {
+      const response = await request(app)
+        .post(`/api/properties/${property.id}/units`)
+        .set('Cookie', viewerCookies)
+        .send({ name: 'Room 1', status: 'Available' });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should reject duplicate unit names within a property', async () => {
+      await prisma.unit.create({ data: { propertyId: property.id, name: 'Room 1', status: 'Available' } });
+
+      const response = await request(app)
+        .post(`/api/properties/${property.id}/units`)
+        .set('Cookie', authCookies)
+        .send({ name: 'Room 1', status: 'Available' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('A unit with this name already exists for this property');
+    });
+
+    it('should return 404 when creating a unit for a non-existent property', async () => {
+      const response = await request(app)
+        .post('/api/properties/00000000-0000-0000-0000-000000000000/units')
+        .set('Cookie', authCookies)
+        .send({ name: 'Room 1', status: 'Available' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Property not found');
+    });
+
+    it('should include units when fetching a property', async () => {
+      await prisma.unit.create({ data: { propertyId: property.id, name: 'Room 2', status: 'Available' } });
+      await prisma.unit.create({ data: { propertyId: property.id, name: 'Room 1', status: 'Available' } });
+
+      const response = await request(app)
+        .get(`/api/properties/${property.id}`)
+        .set('Cookie', viewerCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.property.units.map((u: any) => u.name)).toEqual(['Room 1', 'Room 2']);
+    });
+
+    it('should update a unit', async () => {
+      const unit = await prisma.unit.create({
+        data: { propertyId: property.id, name: 'Room 1', status: 'Available' },
+      });
+
+      const response = await request(app)
+        .put(`/api/properties/${property.id}/units/${unit.id}`)
+        .set('Cookie', authCookies)
+        .send({ status: 'Under Maintenance' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.unit.status).toBe('Under Maintenance');
+    });
+
+    it('should return 404 when the unit belongs to another property', async () => {
+      const otherProperty = await prisma.property.create({ data: validProperty });
+      const unit = await prisma.unit.create({
+        data: { propertyId: otherProperty.id, name: 'Room 1', status: 'Available' },
+      });
+
+      const response = await request(app)
+        .put(`/api/properties/${property.id}/units/${unit.id}`)
+        .set('Cookie', authCookies)
+        .send({ status: 'Occupied' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Unit not found');
+    });
+
+    it('should not delete a unit with an active lease', async () => {
+      const unit = await prisma.unit.create({
+        data: { propertyId: property.id, name: 'Room 1', status: 'Occupied' },
+      });
+      await prisma.lease.create({
+        data: {
+          propertyId: property.id,
+          unitId: unit.id,
+          tenantId: tenant.id,
+          startDate: new Date('2024-01-01'),
+          rentAmount: 500,
+          securityDepositAmount: 500,
+          status: 'Active',
+        },
+      });
+
+      const response = await request(app)
+        .delete(`/api/properties/${property.id}/units/${unit.id}`)
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Cannot delete unit with an active lease');
+    });
+
+    it('should delete a unit without active leases', async () => {
+      const unit = await prisma.unit.create({
+        data: { propertyId: property.id, name: 'Room 1', status: 'Available' },
+      });
+
+      const response = await request(app)
+        .delete(`/api/properties/${property.id}/units/${unit.id}`)
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(200);
+      expect(await prisma.unit.findUnique({ where: { id: unit.id } })).toBeNull();
+    });
+
+    describe('GET /api/properties/:id/occupancy', () => {
+      it('should roll up occupancy across units', async () => {
+        const room1 = await prisma.unit.create({
+          data: { propertyId: property.id, name: 'Room 1', status: 'Occupied' },
+        });
+        const room2 = await prisma.unit.create({
+          data: { propertyId: property.id, name: 'Room 2', status: 'Available' },
+        });
+
+        await prisma.lease.create({
+          data: {
+            propertyId: property.id,
+            unitId: room1.id,
+            tenantId: tenant.id,
+            startDate: new Date('2024-01-01'),
+            rentAmount: 550,
+            securityDepositAmount: 550,
+            status: 'Active',
+          },
+        });
+        await prisma.lease.create({
+          data: {
+            propertyId: property.id,
+            unitId: room2.id,
+            tenantId: tenant.id,
+            startDate: new Date('2023-01-01'),
+            endDate: new Date('2023-12-31'),
+            rentAmount: 500,
+            securityDepositAmount: 500,
+            status: 'Expired',
+          },
+        });
+
+        const response = await request(app)
+          .get(`/api/properties/${property.id}/occupancy?as_of=2024-06-01`)
+          .set('Cookie', viewerCookies);
+
+        expect(response.status).toBe(200);
+        expect(response.body.occupancy.summary).toEqual({
+          totalUnits: 2,
+          occupiedUnits: 1,
+          vacantUnits: 1,
+          occupancyRate: 50,
+          annualRentRoll: 6600,
+          monthlyRentRoll: 550,
+        });
+        expect(response.body.occupancy.wholePropertyLease).toBeNull();
+        expect(response.body.occupancy.units[0]).toMatchObject({
+          occupied: true,
+          lease: { rentAmount: 550, tenants: [{ id: tenant.id, name: 'Room Tenant' }] },
+        });
+        expect(response.body.occupancy.units[1]).toMatchObject({
+          occupied: false,
+          lease: null,
+          vacantSince: '2023-12-31T00:00:00.000Z',
+        });
+      });
+
+      it('should treat all units as occupied under a whole-property lease', async () => {
+        await prisma.unit.create({ data: { propertyId: property.id, name: 'Room 1', status: 'Available' } });
+        await prisma.lease.create({
+          data: {
+            propertyId: property.id,
+            tenantId: tenant.id,
+            startDate: new Date('2024-01-01'),
+            rentAmount: 2000,
+            securityDepositAmount: 2000,
+            status: 'Active',
+          },
+        });
+
+        const response = await request(app)
+          .get(`/api/properties/${property.id}/occupancy?as_of=2024-06-01`)
+          .set('Cookie', authCookies);
+
+        expect(response.status).toBe(200);
+        expect(response.body.occupancy.wholePropertyLease.rentAmount).toBe(2000);
+        expect(response.body.occupancy.units[0]).toMatchObject({ occupied: true, lease: null });
+        expect(response.body.occupancy.summary.occupancyRate).toBe(100);
+      });
+
+      it('should return 404 for non-existent property', async () => {
+        const response = await request(app)
+          .get('/api/properties/00000000-0000-0000-0000-000000000000/occupancy')
+          .set('Cookie', authCookies);
+
+        expect(response.status).toBe(404);
+      });
+    });
+  });
+
   describe('Integration scenarios', () => {
     it('should create, read, update, and archive a property', async () => {
       // Create
@@ -0,0 +1,408 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import { createApp } from '../../app.js';
+import prisma from '../../db/client.js';
+import authService from '../../services/auth.service.js';
+import { Roles } from '../../../../shared/types/user.types.js';
+
+const app = createApp();
+
+describe('Recurring Transactions Routes', () => {
+  // Test user credentials
+  const testUser = {
+    email: 'test@example.com',
+    password: 'testPassword123',
+  };
+
+  const viewerUser = {
+    email: 'viewer@example.com',
+    password: 'viewerPassword123',
+  };
+
+  let authCookies: string[];
+  let viewerCookies: string[];
+  let ownerId: string;
+  let testProperty: any;
+  let otherProperty: any;
+
+  // Valid template data (property ID is filled in per test)
+  const templateData = () => ({
+    propertyId: testProperty.id,
+    type: 'Expense',
+    category: 'Insurance',
+    amount: 45.5,
+    description: 'Buildings insurance premium',
+    frequency: 'Monthly',
+    startDate: '2024-01-15',
+  });
+
+  beforeAll(async () => {
+    // Clean database
+    await prisma.transaction.deleteMany({});
+    await prisma.recurringTransaction.deleteMany({});
+    await prisma.property.deleteMany({});
+    await prisma.user.deleteMany({});
+
+    // Create test user and login (default LANDLORD role)
+    const owner = await authService.createUser(testUser.email, testUser.password);
+    ownerId = owner.id;
+
+    const loginResponse = await request(app).post('/api/auth/login').send({
+      email: testUser.email,
+      password: testUser.password,
+    });
+
+    authCookies = [loginResponse.headers['set-cookie']];
+
+    // Create viewer user and login
+    await authService.createUser(viewerUser.email, viewerUser.password, Roles.VIEWER);
+
+    const viewerLoginResponse = await request(app).post('/api/auth/login').send({
+      email: viewerUser.email,
+      password: viewerUser.password,
+    });
+
+    viewerCookies = [viewerLoginResponse.headers['set-cookie']];
+
+    // Create test properties, the first owned outright by the test user
+    testProperty = await prisma.property.create({
+      data: {
+        name: 'Insured House',
+        street: '3 Policy Road',
+        city: 'Bristol',
+        county: 'Bristol',
+        postcode: 'BS1 1AA',
+        propertyType: 'House',
+        status: 'Occupied',
+      },
+    });
+
+    otherProperty = await prisma.property.create({
+      data: {
+        name: 'Other Flat',
+        street: '4 Policy Road',
+        city: 'Bristol',
+        county: 'Bristol',
+        postcode: 'BS1 1AB',
+        propertyType: 'Flat',
+        status: 'Available',
+      },
+    });
+
+    await prisma.propertyOwnership.create({
+      data: { userId: ownerId, propertyId: testProperty.id, ownershipPercentage: 100 },
+    });
+  });
+
+  afterAll(async () => {
+    // Clean up after all tests
+    await prisma.transaction.deleteMany({});
+    await prisma.recurringTransaction.deleteMany({});
+    await prisma.propertyOwnership.deleteMany({});
+    await prisma.property.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  beforeEach(async () => {
+    await prisma.transaction.deleteMany({});
+    await prisma.recurringTransaction.deleteMany({});
+  });
+
+  describe('POST /api/recurring-transactions', () => {
+    it('should create a template starting on its start date', async () => {
+      const response = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Cookie', authCookies)
+        .send({ ...templateData(), splits: [{ userId: ownerId, percentage: 100 }] });
+
+      expect(response.status).toBe(201);
+      expect(response.body.success).toBe(true);
+      expect(response.body.recurringTransaction).toMatchObject({
+        propertyId: testProperty.id,
+        category: 'Insurance',
+        amount: 45.5,
+        frequency: 'Monthly',
+        isPaused: false,
+        lastRunDate: null,
+      });
+      expect(response.body.recurringTransaction.nextRunDate).toBe('2024-01-15T00:00:00.000Z');
+      expect(response.body.recurringTransaction.property.name).toBe('Insured House');
+      expect(response.body.recurringTransaction.splits).toHaveLength(1);
+      expect(response.body.recurringTransaction.splits[0].user.email).toBe(testUser.email);
+    });
+
+    it('should reject an unknown category', async () => {
+      const response = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Cookie', authCookies)
+        .send({ ...templateData(), category: 'Not A Category' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Unknown category: Not A Category');
+    });
+
+    it('should reject a category of the other type', async () => {
+      const response = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Cookie', authCookies)
+        .send({ ...templateData(), category: 'Rent' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Category must match the transaction type');
+    });
+
+    it('should reject splits for users who do not own the property', async () => {
+      const response = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Cookie', authCookies)
+        .send({
+          ...templateData(),
+          propertyId: otherProperty.id,
+          splits: [{ userId: ownerId, percentage: 100 }],
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe(`User ${ownerId} is not a property owner`);
+    });
+
+    it('should reject splits that do not sum to 100%', async () => {
+      const response = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Cookie', authCookies)
+        .send({ ...templateData(), splits: [{ userId: ownerId, percentage: 90 }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Split percentages must sum to 100%');
+    });
+
+    it('should reject an end date before the start date', async () => {
+      const response = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Cookie', authCookies)
+        .send({ ...templateData(), endDate: '2023-12-31' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Start date must be before or equal to end date');
+    });
+
+    it('should return 404 for a missing property', async () => {
+      const response = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Cookie', authCookies)
+        .send({ ...templateData(), propertyId: '00000000-0000-0000-0000-000000000000' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Property not found');
+    });
+
+    it('should require write permission', async () => {
+      const response = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Cookie', viewerCookies)
+        .send(templateData());
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(app).post('/api/recurring-transactions').send(templateData());
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('GET /api/recurring-transactions', () => {
+    it('should list templates and filter by property', async () => {
+      await request(app).post('/api/recurring-transactions').set('Cookie', authCookies).send(templateData());
+      await request(app)
+        .post('/api/recurring-transactions')
+        .set('Cookie', authCookies)
+        .send({ ...templateData(), propertyId: otherProperty.id, description: 'Service charge' });
+
+      const allResponse = await request(app).get('/api/recurring-transactions').set('Cookie', viewerCookies);
+
+      expect(allResponse.status).toBe(200);
+      expect(allResponse.body.recurringTransactions).toHaveLength(2);
+
+      const filteredResponse = await request(app)
+        .get(`/api/recurring-transactions?property_id=${otherProperty.id}`)
+        .set('Cookie', authCookies);
+
+      expect(filteredResponse.status).toBe(200);
+      expect(filteredResponse.body.recurringTransactions).toHaveLength(1);
+      expect(filteredResponse.body.recurringTransactions[0].description).toBe('Service charge');
+    });
+
+    it('should return 404 for a missing template', async () => {
+      const response = await request(app)
+        .get('/api/recurring-transactions/00000000-0000-0000-0000-000000000000')
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Recurring transaction not found');
+    });
+
+    it('should reject an invalid ID', async () => {
+      const response = await request(app)
+        .get('/api/recurring-transactions/not-a-uuid')
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid recurring transaction ID format');
+    });
+  });
+
+  describe('PUT /api/recurring-transactions/:id', () => {
+    it('should pause and resume a template without back-filling missed runs', async () => {
+      const createResponse = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Cookie', authCookies)
+        .send(templateData());
+      const id = createResponse.body.recurringTransaction.id;
+
+      const pauseResponse = await request(app)
+        .put(`/api/recurring-transactions/${id}`)
+        .set('Cookie', authCookies)
+        .send({ isPaused: true });
+
+      expect(pauseResponse.status).toBe(200);
+      expect(pauseResponse.body.recurringTransaction.isPaused).toBe(true);
+
+      const resumeResponse = await request(app)
+        .put(`/api/recurring-transactions/${id}`)
+        .set('Cookie', authCookies)
+        .send({ isPaused: false });
+
+      expect(resumeResponse.status).toBe(200);
+      expect(resumeResponse.body.recurringTransaction.isPaused).toBe(false);
+      // The 2024 start date is long past, so the next run is today or later
+      const today = new Date();
+      today.setUTCHours(0, 0, 0, 0);
+      expect(new Date(resumeResponse.body.recurringTransaction.nextRunDate).getTime()).toBeGreaterThanOrEqual(
+        today.getTime()
+      );
+      expect(new Date(resumeResponse.body.recurringTransaction.nextRunDate).getUTCDate()).toBe(15);
+    });
+
+    it('should replace and clear splits', async () => {
+      const createResponse = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Cookie', authCookies)
+        .send(templateData());
+      const id = createResponse.body.recurringTransaction.id;
+
+      const splitResponse = await request(app)
+        .put(`/api/recurring-transactions/${id}`)
+        .set('Cookie', authCookies)
+        .send({ splits: [{ userId: ownerId, percentage: 100 }] });
+
+      expect(splitResponse.status).toBe(200);
+      expect(splitResponse.body.recurringTransaction.splits).toHaveLength(1);
+
+      const clearResponse = await request(app)
+        .put(`/api/recurring-transactions/${id}`)
+        .set('Cookie', authCookies)
+        .send({ splits: null });
+
+      expect(clearResponse.status).toBe(200);
+      expect(clearResponse.body.recurringTransaction.splits).toHaveLength(0);
+    });
+
+    it('should check a new end date against the stored start date', async () => {
+      const createResponse = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Cookie', authCookies)
+        .send(templateData());
+
+      const response = await request(app)
+        .put(`/api/recurring-transactions/${createResponse.body.recurringTransaction.id}`)
+        .set('Cookie', authCookies)
+        .send({ endDate: '2024-01-01' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Start date must be before or equal to end date');
+    });
+
+    it('should check the category against a changed type', async () => {
+      const createResponse = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Cookie', authCookies)
+        .send(templateData());
+
+      const response = await request(app)
+        .put(`/api/recurring-transactions/${createResponse.body.recurringTransaction.id}`)
+        .set('Cookie', authCookies)
+        .send({ type: 'Income' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Category must match the transaction type');
+    });
+  });
+
+  describe('POST /api/recurring-transactions/:id/skip', () => {
+    it('should move the next run to the following occurrence', async () => {
+      const createResponse = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Cookie', authCookies)
+        .send({ ...templateData(), frequency: 'Quarterly' });
+
+      const response = await request(app)
+        .post(`/api/recurring-transactions/${createResponse.body.recurringTransaction.id}/skip`)
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.recurringTransaction.nextRunDate).toBe('2024-04-15T00:00:00.000Z');
+    });
+
+    it('should require write permission', async () => {
+      const createResponse = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Cookie', authCookies)
+        .send(templateData());
+
+      const response = await request(app)
+        .post(`/api/recurring-transactions/${createResponse.body.recurringTransaction.id}/skip`)
+        .set('Cookie', viewerCookies);
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('DELETE /api/recurring-transactions/:id', () => {
+    it('should delete a template and keep the transactions it created', async () => {
+      const createResponse = await request(app)
+        .post('/api/recurring-transactions')
+        .set('Cookie', authCookies)
+        .send(templateData());
+      const id = createResponse.body.recurringTransaction.id;
+
+      const transaction = await prisma.transaction.create({
+        data: {
+          propertyId: testProperty.id,
+          type: 'Expense',
+          category: 'Insurance',
+          amount: 45.5,
+          transactionDate: new Date('2024-01-15'),
+          description: 'Buildings insurance premium',
+          recurringTransactionId: id,
+        },
+      });
+
+      const response = await request(app).delete(`/api/recurring-transactions/${id}`).set('Cookie', authCookies);
+
+      expect(response.status).toBe(200);
+      expect(await prisma.recurringTransaction.findUnique({ where: { id } })).toBeNull();
+      const kept = await prisma.transaction.findUnique({ where: { id: transaction.id } });
+      expect(kept?.recurringTransactionId).toBeNull();
+    });
+
+    it('should return 404 for a missing template', async () => {
+      const response = await request(app)
+        .delete('/api/recurring-transactions/00000000-0000-0000-0000-000000000000')
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
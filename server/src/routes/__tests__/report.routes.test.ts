@@ -581,4 +581,429 @@ describe('Report API', () => {
       expect(response.body.report.summary.netProfit).toBe(0);
     });
   });
+
+  describe('GET /api/reports/arrears', () => {
+    let viewerCookies: string[];
+    let tenantId: string;
+
+    beforeAll(async () => {
+      await authService.createUser('arrears-viewer@test.com', 'testPassword123', 'VIEWER');
+
+      const loginResponse = await request(app).post('/api/auth/login').send({
+        email: 'arrears-viewer@test.com',
+        password: 'testPassword123',
+      });
+
+      viewerCookies = [loginResponse.headers['set-cookie']];
+
+      const tenant = await prisma.tenant.create({
+        data: {
+          firstName: 'Jane',
+          lastName: 'Smith',
+          email: 'jane.smith@test.com',
+          phone: '07700900456',
+          status: 'Active',
+        },
+      });
+      tenantId = tenant.id;
+    });
+
+    afterAll(async () => {
+      await prisma.lease.deleteMany({});
+      await prisma.tenant.deleteMany({});
+    });
+
+    beforeEach(async () => {
+      await prisma.lease.deleteMany({});
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(app).get('/api/reports/arrears');
+
+      expect(response.status).toBe(401);
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should report arrears per lease for a viewer', async () => {
+      const lease = await prisma.lease.create({
+        data: {
+          propertyId,
+          tenantId,
+          startDate: new Date('2024-01-01'),
+          endDate: new Date('2024-12-31'),
+          rentAmount: 800,
+          securityDepositAmount: 800,
+          status: 'Active',
+        },
+      });
+
+      await prisma.transaction.create({
+        data: {
+          propertyId,
+          leaseId: lease.id,
+          type: 'Income',
+          category: 'Rent',
+          amount: 800,
+          transactionDate: new Date('2024-01-03'),
+          description: 'January rent',
+        },
+      });
+
+      const response = await request(app)
+        .get('/api/reports/arrears')
+        .query({ as_of: '2024-03-10' })
+        .set('Cookie', viewerCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+
+      const { report } = response.body;
+      expect(report.leases).toHaveLength(1);
+      expect(report.leases[0].leaseId).toBe(lease.id);
+      expect(report.leases[0].tenant.name).toBe('Jane Smith');
+      expect(report.leases[0].rentFrequency).toBe('Monthly');
+      expect(report.leases[0].annualRent).toBe(9600);
+      expect(report.leases[0].arrears).toBe(1600);
+      expect(report.leases[0].overduePeriods).toBe(2);
+      expect(report.summary.totalArrears).toBe(1600);
+      expect(report.summary.leasesInArrears).toBe(1);
+    });
+
+    it('should omit ended leases with no balance outstanding', async () => {
+      await prisma.lease.create({
+        data: {
+          propertyId,
+          tenantId,
+          startDate: new Date('2023-01-01'),
+          endDate: new Date('2023-01-31'),
+          rentAmount: 800,
+          securityDepositAmount: 800,
+          status: 'Expired',
+        },
+      });
+
+      await prisma.transaction.create({
+        data: {
+          propertyId,
+          type: 'Income',
+          category: 'Rent',
+          amount: 800,
+          transactionDate: new Date('2023-01-02'),
+          description: 'January rent',
+        },
+      });
+
+      const response = await request(app)
+        .get('/api/reports/arrears')
+        .query({ as_of: '2024-03-10' })
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.report.leases).toHaveLength(0);
+      expect(response.body.report.summary.totalArrears).toBe(0);
+    });
+
+    it('should return 400 for an invalid property filter', async () => {
+      const response = await request(app)
+        .get('/api/reports/arrears')
+        .query({ propertyId: 'not-a-uuid' })
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+    });
+
+    describe('GET /api/reports/arrears/aging', () => {
+      it('should bucket unpaid rent by days overdue', async () => {
+        const lease = await prisma.lease.create({
+          data: {
+            propertyId,
+            tenantId,
+            startDate: new Date('2024-01-01'),
+            rentAmount: 500,
+            securityDepositAmount: 500,
+            status: 'Active',
+          },
+        });
+
+        // Pays January in full and £200 towards February
+        await prisma.transaction.create({
+          data: {
+            propertyId,
+            leaseId: lease.id,
+            type: 'Income',
+            category: 'Rent',
+            amount: 700,
+            transactionDate: new Date('2024-01-05'),
+            description: 'Rent',
+          },
+        });
+
+        const response = await request(app)
+          .get('/api/reports/arrears/aging')
+          .query({ as_of: '2024-05-15' })
+          .set('Cookie', viewerCookies);
+
+        expect(response.status).toBe(200);
+        expect(response.body.success).toBe(true);
+
+        const { report } = response.body;
+        expect(report.properties).toHaveLength(1);
+        expect(report.properties[0].property.id).toBe(propertyId);
+        expect(report.properties[0].tenants).toHaveLength(1);
+        expect(report.properties[0].tenants[0].tenant.name).toBe('Jane Smith');
+
+        // Feb (104 days) 300, Mar (75 days) 500, Apr (44 days) 500, May (14 days) 500
+        expect(report.properties[0].tenants[0].buckets).toEqual({
+          days0to30: 500,
+          days31to60: 500,
+          days61to90: 500,
+          days90Plus: 300,
+          total: 1800,
+        });
+        expect(report.totals.total).toBe(1800);
+      });
+
+      it('should exclude leases with no arrears', async () => {
+        await prisma.lease.create({
+          data: {
+            propertyId,
+            tenantId,
+            startDate: new Date('2024-05-01'),
+            rentAmount: 500,
+            securityDepositAmount: 500,
+            status: 'Active',
+          },
+        });
+
+        await prisma.transaction.create({
+          data: {
+            propertyId,
+            type: 'Income',
+            category: 'Rent',
+            amount: 500,
+            transactionDate: new Date('2024-05-01'),
+            description: 'Rent',
+          },
+        });
+
+        const response = await request(app)
+          .get('/api/reports/arrears/aging')
+          .query({ as_of: '2024-05-15' })
+          .set('Cookie', authCookies);
+
+        expect(response.status).toBe(200);
+        expect(response.body.report.properties).toHaveLength(0);
+        expect(response.body.report.totals.total).toBe(0);
+      });
+    });
+  });
+
+  describe('GET /api/reports/deposit-compliance', () => {
+    let tenantId: string;
+
+    beforeAll(async () => {
+      const tenant = await prisma.tenant.create({
+        data: {
+          firstName: 'Dee',
+          lastName: 'Posit',
+          email: 'dee.posit@test.com',
+          phone: '07700900457',
+          status: 'Active',
+        },
+      });
+      tenantId = tenant.id;
+    });
+
+    afterAll(async () => {
+      await prisma.lease.deleteMany({});
+      await prisma.tenant.deleteMany({});
+    });
+
+    beforeEach(async () => {
+      await prisma.lease.deleteMany({});
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(app).get('/api/reports/deposit-compliance');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should flag unprotected deposits past the 30-day deadline, breaches first', async () => {
+      const compliant = await prisma.lease.create({
+        data: {
+          propertyId,
+          tenantId,
+          startDate: new Date('2024-01-01'),
+          endDate: new Date('2024-06-30'),
+          rentAmount: 900,
+          securityDepositAmount: 1000,
+          securityDepositPaidDate: new Date('2023-12-20'),
+          depositScheme: 'DPS',
+          depositCertificateRef: 'DPS-123',
+          depositProtectedDate: new Date('2024-01-05'),
+          prescribedInfoServedAt: new Date('2024-01-05'),
+          status: 'Expired',
+        },
+      });
+
+      const unprotected = await prisma.lease.create({
+        data: {
+          propertyId,
+          tenantId,
+          startDate: new Date('2024-07-01'),
+          rentAmount: 900,
+          securityDepositAmount: 1200,
+          securityDepositPaidDate: new Date('2024-06-25'),
+          status: 'Active',
+        },
+      });
+
+      const response = await request(app)
+        .get('/api/reports/deposit-compliance')
+        .query({ as_of: '2024-08-01' })
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(200);
+      const { report } = response.body;
+      expect(report.leases.map((l: any) => l.leaseId)).toEqual([unprotected.id, compliant.id]);
+      expect(report.leases[0].compliance.status).toBe('Breach');
+      expect(report.leases[0].compliance.deadline).toBe('2024-07-25T00:00:00.000Z');
+      expect(report.leases[0].compliance.breaches).toEqual([
+        'Deposit not protected',
+        'Prescribed information not served',
+      ]);
+      expect(report.leases[1].compliance.status).toBe('Compliant');
+      expect(report.summary).toEqual({ totalHeld: 2200, breaches: 1, pending: 0 });
+    });
+
+    it('should return 400 for an invalid property ID', async () => {
+      const response = await request(app)
+        .get('/api/reports/deposit-compliance')
+        .query({ propertyId: 'not-a-uuid' })
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/reports/rent-roll', () => {
+    let tenantId: string;
+
+    beforeAll(async () => {
+      const tenant = await prisma.tenant.create({
+        data: {
+          firstName: 'Roland',
+          lastName: 'Roll',
+          email: 'roland.roll@test.com',
+          phone: '07700900458',
+          status: 'Active',
+        },
+      });
+      tenantId = tenant.id;
+    });
+
+    afterAll(async () => {
+      await prisma.lease.deleteMany({});
+      await prisma.tenant.deleteMany({});
+    });
+
+    beforeEach(async () => {
+      await prisma.lease.deleteMany({});
+    });
+
+    it('should require authentication', async () => {
+      const response = await request(app).get('/api/reports/rent-roll');
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should annualise rent across frequencies for leases active on the date', async () => {
+      const weekly = await prisma.lease.create({
+        data: {
+          propertyId,
+          tenantId,
+          startDate: new Date('2024-01-01'),
+          rentAmount: 150,
+          rentFrequency: 'Weekly',
+          securityDepositAmount: 600,
+          status: 'Active',
+        },
+      });
+
+      const quarterly = await prisma.lease.create({
+        data: {
+          propertyId,
+          tenantId,
+          startDate: new Date('2024-03-25'),
+          endDate: new Date('2025-03-24'),
+          rentAmount: 3000,
+          rentFrequency: 'Quarterly',
+          securityDepositAmount: 1000,
+          status: 'Active',
+        },
+      });
+
+      // Not yet started on the report date
+      await prisma.lease.create({
+        data: {
+          propertyId,
+          tenantId,
+          startDate: new Date('2024-09-01'),
+          rentAmount: 1000,
+          securityDepositAmount: 1000,
+          status: 'Active',
+        },
+      });
+
+      const response = await request(app)
+        .get('/api/reports/rent-roll')
+        .query({ as_of: '2024-06-01' })
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(200);
+      const { report } = response.body;
+      expect(report.leases.map((l: any) => l.leaseId)).toEqual([weekly.id, quarterly.id]);
+      expect(report.leases[0]).toMatchObject({ rentFrequency: 'Weekly', annualRent: 7800, monthlyEquivalent: 650 });
+      expect(report.leases[1]).toMatchObject({ rentFrequency: 'Quarterly', annualRent: 12000, monthlyEquivalent: 1000 });
+      expect(report.summary).toEqual({ activeLeases: 2, totalAnnualRent: 19800, totalMonthlyEquivalent: 1650 });
+    });
+
+    it('should use the rent in force on the report date', async () => {
+      await prisma.lease.create({
+        data: {
+          propertyId,
+          tenantId,
+          startDate: new Date('2024-01-01'),
+          rentAmount: 1000,
+          securityDepositAmount: 1000,
+          status: 'Active',
+          rentChanges: {
+            create: [
+              { effectiveDate: new Date('2024-04-01'), noticeDate: new Date('2024-03-01'), rentAmount: 1100 },
+              { effectiveDate: new Date('2024-10-01'), noticeDate: new Date('2024-09-01'), rentAmount: 1200 },
+            ],
+          },
+        },
+      });
+
+      const response = await request(app)
+        .get('/api/reports/rent-roll')
+        .query({ as_of: '2024-06-01' })
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.report.leases[0]).toMatchObject({ rentAmount: 1100, annualRent: 13200 });
+    });
+
+    it('should return 400 for an invalid date', async () => {
+      const response = await request(app)
+        .get('/api/reports/rent-roll')
+        .query({ as_of: 'not-a-date' })
+        .set('Cookie', authCookies);
+
+      expect(response.status).toBe(400);
+    });
+  });
 });
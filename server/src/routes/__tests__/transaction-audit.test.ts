@@ -265,7 +265,7 @@ describe('Transaction Audit Log', () => {
           propertyId: testProperty.id,
           tenantId: tenant.id,
           startDate: new Date('2024-01-01'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -308,7 +308,7 @@ describe('Transaction Audit Log', () => {
           propertyId: testProperty.id,
           tenantId: tenant.id,
           startDate: new Date('2024-01-01'),
-          monthlyRent: 1200,
+          rentAmount: 1200,
           securityDepositAmount: 1200,
           status: 'Active',
         },
@@ -0,0 +1,452 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from '@jest/globals';
+import request from 'supertest';
+import { createApp } from '../../app.js';
+import prisma from '../../db/client.js';
+import authService from '../../services/auth.service.js';
+import { Roles } from '../../../../shared/types/user.types.js';
+
+const app = createApp();
+
+describe('Transaction Categories Routes', () => {
+  // Test user credentials
+  const adminUser = {
+    email: 'admin@example.com',
+    password: 'adminPassword123',
+  };
+
+  const landlordUser = {
+    email: 'landlord@example.com',
+    password: 'landlordPassword123',
+  };
+
+  let adminCookies: string[];
+  let landlordCookies: string[];
+  let testProperty: any;
+
+  // Categories created by these tests all start with "Test " so the seeded defaults are left alone
+  const createCategory = (data: { name: string; type: 'Income' | 'Expense'; parentId?: string | null }) =>
+    request(app).post('/api/transaction-categories').set('Cookie', adminCookies).send(data);
+
+  beforeAll(async () => {
+    // Clean database
+    await prisma.transaction.deleteMany({});
+    await prisma.matchingRule.deleteMany({});
+    await prisma.property.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.transactionCategory.deleteMany({
+      where: { name: { startsWith: 'Test ' } },
+    });
+
+    // Create admin user and login
+    await authService.createUser(adminUser.email, adminUser.password, Roles.ADMIN);
+
+    const adminLoginResponse = await request(app).post('/api/auth/login').send({
+      email: adminUser.email,
+      password: adminUser.password,
+    });
+
+    adminCookies = [adminLoginResponse.headers['set-cookie']];
+
+    // Create landlord user and login (default LANDLORD role)
+    await authService.createUser(landlordUser.email, landlordUser.password);
+
+    const landlordLoginResponse = await request(app).post('/api/auth/login').send({
+      email: landlordUser.email,
+      password: landlordUser.password,
+    });
+
+    landlordCookies = [landlordLoginResponse.headers['set-cookie']];
+
+    testProperty = await prisma.property.create({
+      data: {
+        name: 'Category Test Property',
+        street: '5 Mill Lane',
+        city: 'York',
+        county: 'North Yorkshire',
+        postcode: 'YO1 7HH',
+        propertyType: 'House',
+        status: 'Available',
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await prisma.transaction.deleteMany({});
+    await prisma.matchingRule.deleteMany({});
+    await prisma.transactionCategory.deleteMany({
+      where: { name: { startsWith: 'Test ' } },
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.property.deleteMany({});
+    await prisma.user.deleteMany({});
+    await prisma.$disconnect();
+  });
+
+  describe('GET /api/transaction-categories', () => {
+    it('should require authentication', async () => {
+      const response = await request(app).get('/api/transaction-categories');
+
+      expect(response.status).toBe(401);
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should list the default categories in display order for any signed-in user', async () => {
+      const response = await request(app)
+        .get('/api/transaction-categories')
+        .set('Cookie', landlordCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.success).toBe(true);
+
+      const names = response.body.categories.map((c: any) => c.name);
+      expect(names.slice(0, 4)).toEqual(['Rent', 'Security Deposit', 'Late Fee', 'Lease Fee']);
+      expect(names).toContain('Transport');
+      expect(names).toContain('Other');
+    });
+
+    it('should filter by type', async () => {
+      const response = await request(app)
+        .get('/api/transaction-categories')
+        .query({ type: 'Expense' })
+        .set('Cookie', landlordCookies);
+
+      expect(response.status).toBe(200);
+      expect(response.body.categories.length).toBeGreaterThan(0);
+      expect(response.body.categories.every((c: any) => c.type === 'Expense')).toBe(true);
+    });
+
+    it('should hide archived categories unless requested', async () => {
+      const created = await createCategory({ name: 'Test Old Fees', type: 'Income' });
+      await prisma.transactionCategory.update({
+        where: { id: created.body.category.id },
+        data: { isArchived: true },
+      });
+
+      const active = await request(app)
+        .get('/api/transaction-categories')
+        .set('Cookie', landlordCookies);
+      const all = await request(app)
+        .get('/api/transaction-categories')
+        .query({ include_archived: 'true' })
+        .set('Cookie', landlordCookies);
+
+      expect(active.body.categories.map((c: any) => c.name)).not.toContain('Test Old Fees');
+      expect(all.body.categories.map((c: any) => c.name)).toContain('Test Old Fees');
+    });
+  });
+
+  describe('POST /api/transaction-categories', () => {
+    it('should require admin role', async () => {
+      const response = await request(app)
+        .post('/api/transaction-categories')
+        .set('Cookie', landlordCookies)
+        .send({ name: 'Test Parking', type: 'Income' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should create a category at the end of the display order', async () => {
+      const response = await createCategory({ name: 'Test Parking', type: 'Income' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.success).toBe(true);
+      expect(response.body.category.name).toBe('Test Parking');
+      expect(response.body.category.type).toBe('Income');
+      expect(response.body.category.isArchived).toBe(false);
+
+      const maxOrder = await prisma.transactionCategory.aggregate({ _max: { sortOrder: true } });
+      expect(response.body.category.sortOrder).toBe(maxOrder._max.sortOrder);
+    });
+
+    it('should reject a duplicate name', async () => {
+      const response = await createCategory({ name: 'Maintenance', type: 'Expense' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('A category with this name already exists');
+    });
+
+    it('should reject an invalid type', async () => {
+      const response = await createCategory({ name: 'Test Parking', type: 'Transfer' as any });
+
+      expect(response.status).toBe(400);
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should create a subcategory under a parent of the same type', async () => {
+      const parent = await createCategory({ name: 'Test Utilities', type: 'Expense' });
+      const response = await createCategory({
+        name: 'Test Utilities - Water',
+        type: 'Expense',
+        parentId: parent.body.category.id,
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body.category.parentId).toBe(parent.body.category.id);
+    });
+
+    it('should reject a parent of a different type', async () => {
+      const parent = await createCategory({ name: 'Test Utilities', type: 'Expense' });
+      const response = await createCategory({
+        name: 'Test Utility Rebate',
+        type: 'Income',
+        parentId: parent.body.category.id,
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Parent category must have the same type');
+    });
+
+    it('should reject nesting more than one level deep', async () => {
+      const parent = await createCategory({ name: 'Test Utilities', type: 'Expense' });
+      const child = await createCategory({
+        name: 'Test Utilities - Energy',
+        type: 'Expense',
+        parentId: parent.body.category.id,
+      });
+      const response = await createCategory({
+        name: 'Test Utilities - Energy - Gas',
+        type: 'Expense',
+        parentId: child.body.category.id,
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Parent category cannot itself be a subcategory');
+    });
+
+    it('should return 404 for a missing parent', async () => {
+      const response = await createCategory({
+        name: 'Test Orphan',
+        type: 'Expense',
+        parentId: '00000000-0000-4000-8000-000000000000',
+      });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Parent category not found');
+    });
+  });
+
+  describe('PUT /api/transaction-categories/:id', () => {
+    it('should return 400 for an invalid ID', async () => {
+      const response = await request(app)
+        .put('/api/transaction-categories/not-a-uuid')
+        .set('Cookie', adminCookies)
+        .send({ name: 'Test Renamed' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid category ID format');
+    });
+
+    it('should return 404 for a missing category', async () => {
+      const response = await request(app)
+        .put('/api/transaction-categories/00000000-0000-4000-8000-000000000000')
+        .set('Cookie', adminCookies)
+        .send({ name: 'Test Renamed' });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Category not found');
+    });
+
+    it('should carry a rename across to transactions and matching rules', async () => {
+      const created = await createCategory({ name: 'Test Gardening', type: 'Expense' });
+
+      const transaction = await prisma.transaction.create({
+        data: {
+          propertyId: testProperty.id,
+          type: 'Expense',
+          category: 'Test Gardening',
+          amount: 80,
+          transactionDate: new Date('2026-05-01'),
+          description: 'Hedge trimming',
+        },
+      });
+
+      const rule = await prisma.matchingRule.create({
+        data: {
+          bankAccountId: null,
+          priority: 100,
+          name: 'Test Gardener',
+          conditions: JSON.stringify({ operator: 'AND', rules: [] }),
+          type: 'EXPENSE',
+          category: 'Test Gardening',
+        },
+      });
+
+      const response = await request(app)
+        .put(`/api/transaction-categories/${created.body.category.id}`)
+        .set('Cookie', adminCookies)
+        .send({ name: 'Test Landscaping' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.category.name).toBe('Test Landscaping');
+
+      const updatedTransaction = await prisma.transaction.findUnique({ where: { id: transaction.id } });
+      const updatedRule = await prisma.matchingRule.findUnique({ where: { id: rule.id } });
+
+      expect(updatedTransaction?.category).toBe('Test Landscaping');
+      expect(updatedRule?.category).toBe('Test Landscaping');
+    });
+
+    it('should reject renaming to an existing name', async () => {
+      const created = await createCategory({ name: 'Test Gardening', type: 'Expense' });
+
+      const response = await request(app)
+        .put(`/api/transaction-categories/${created.body.category.id}`)
+        .set('Cookie', adminCookies)
+        .send({ name: 'Repair' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('A category with this name already exists');
+    });
+
+    it('should not allow system categories to be renamed or archived', async () => {
+      const rent = await prisma.transactionCategory.findUnique({ where: { name: 'Rent' } });
+
+      const rename = await request(app)
+        .put(`/api/transaction-categories/${rent!.id}`)
+        .set('Cookie', adminCookies)
+        .send({ name: 'Test Rent' });
+
+      const archive = await request(app)
+        .put(`/api/transaction-categories/${rent!.id}`)
+        .set('Cookie', adminCookies)
+        .send({ isArchived: true });
+
+      expect(rename.status).toBe(400);
+      expect(rename.body.error).toBe('Rent is a system category and cannot be renamed or archived');
+      expect(archive.status).toBe(400);
+    });
+
+    it('should not move a category with subcategories under another category', async () => {
+      const parent = await createCategory({ name: 'Test Utilities', type: 'Expense' });
+      await createCategory({ name: 'Test Utilities - Water', type: 'Expense', parentId: parent.body.category.id });
+      const other = await createCategory({ name: 'Test Running Costs', type: 'Expense' });
+
+      const response = await request(app)
+        .put(`/api/transaction-categories/${parent.body.category.id}`)
+        .set('Cookie', adminCookies)
+        .send({ parentId: other.body.category.id });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('A category with subcategories cannot be moved under another category');
+    });
+
+    it('should archive a category so it can no longer be used for new transactions', async () => {
+      const created = await createCategory({ name: 'Test Parking', type: 'Income' });
+
+      const existing = await prisma.transaction.create({
+        data: {
+          propertyId: testProperty.id,
+          type: 'Income',
+          category: 'Test Parking',
+          amount: 40,
+          transactionDate: new Date('2026-05-01'),
+          description: 'Parking space',
+        },
+      });
+
+      const archive = await request(app)
+        .put(`/api/transaction-categories/${created.body.category.id}`)
+        .set('Cookie', adminCookies)
+        .send({ isArchived: true });
+
+      expect(archive.status).toBe(200);
+      expect(archive.body.category.isArchived).toBe(true);
+
+      const createResponse = await request(app)
+        .post('/api/transactions')
+        .set('Cookie', landlordCookies)
+        .send({
+          propertyId: testProperty.id,
+          type: 'Income',
+          category: 'Test Parking',
+          amount: 40,
+          transactionDate: '2026-06-01',
+          description: 'Parking space',
+        });
+
+      expect(createResponse.status).toBe(400);
+      expect(createResponse.body.error).toBe('Category is archived: Test Parking');
+
+      // Transactions already filed under the category can still be edited
+      const updateResponse = await request(app)
+        .put(`/api/transactions/${existing.id}`)
+        .set('Cookie', landlordCookies)
+        .send({ category: 'Test Parking', amount: 45 });
+
+      expect(updateResponse.status).toBe(200);
+      expect(updateResponse.body.transaction.amount).toBe(45);
+    });
+  });
+
+  describe('Category validation on transactions', () => {
+    it('should accept a transaction in a newly created category', async () => {
+      await createCategory({ name: 'Test Parking', type: 'Income' });
+
+      const response = await request(app)
+        .post('/api/transactions')
+        .set('Cookie', landlordCookies)
+        .send({
+          propertyId: testProperty.id,
+          type: 'Income',
+          category: 'Test Parking',
+          amount: 40,
+          transactionDate: '2026-06-01',
+          description: 'Parking space',
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.transaction.category).toBe('Test Parking');
+    });
+
+    it('should reject an unknown category', async () => {
+      const response = await request(app)
+        .post('/api/transactions')
+        .set('Cookie', landlordCookies)
+        .send({
+          propertyId: testProperty.id,
+          type: 'Expense',
+          category: 'Test Nonexistent',
+          amount: 40,
+          transactionDate: '2026-06-01',
+          description: 'Mystery cost',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Unknown category: Test Nonexistent');
+    });
+
+    it('should reject a matching rule whose category does not match its type', async () => {
+      const bankAccount = await prisma.bankAccount.create({
+        data: {
+          accountId: 'acc_category_test',
+          accountName: 'Category Test Account',
+          accountType: 'uk_retail',
+          provider: 'monzo',
+          accessToken: 'token',
+          syncFromDate: new Date('2026-01-01'),
+        },
+      });
+
+      const response = await request(app)
+        .post(`/api/bank/accounts/${bankAccount.id}/rules`)
+        .set('Cookie', adminCookies)
+        .send({
+          name: 'Test Rule',
+          conditions: JSON.stringify({
+            operator: 'AND',
+            rules: [{ field: 'description', matchType: 'contains', value: 'rent' }],
+          }),
+          type: 'EXPENSE',
+          category: 'Rent',
+        });
+
+      await prisma.bankAccount.delete({ where: { id: bankAccount.id } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Category must match the transaction type');
+    });
+  });
+});
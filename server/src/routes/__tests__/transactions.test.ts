@@ -100,7 +100,7 @@ describe('Transactions Routes', () => {
         tenantId: testTenant.id,
         startDate: new Date('2024-01-01'),
         endDate: new Date('2024-12-31'),
-        monthlyRent: 1200,
+        rentAmount: 1200,
         securityDepositAmount: 1200,
         status: 'Active',
       },
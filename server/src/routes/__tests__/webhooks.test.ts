@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
 import request from 'supertest';
 import { createApp } from '../../app.js';
 import prisma from '../../db/client.js';
@@ -375,6 +375,34 @@ describe('Webhook Routes', () => {
       expect(syncLogs).toBe(0);
     });
 
+    it('should reject webhook for an account with another provider', async () => {
+      await prisma.bankAccount.update({ where: { id: testBankAccountId }, data: { provider: 'mock' } });
+
+      const webhookPayload = {
+        type: 'transaction.created',
+        data: {
+          account_id: testAccountId,
+          id: 'tx_other_provider',
+          created: '2024-01-15T12:00:00Z',
+          description: 'Other Provider Transaction',
+          amount: -500,
+          currency: 'GBP',
+          notes: '',
+        },
+      };
+
+      const response = await request(app)
+        .post(`/api/bank/webhooks/monzo/${validSecret}`)
+        .send(webhookPayload);
+
+      expect(response.status).toBe(403);
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toBe('Account belongs to another bank provider');
+
+      expect(await prisma.bankTransaction.count()).toBe(0);
+      expect(await prisma.syncLog.count()).toBe(0);
+    });
+
     it('should handle transactions with minimal data', async () => {
       const webhookPayload = {
         type: 'transaction.created',
@@ -541,4 +569,200 @@ describe('Webhook Routes', () => {
       expect(response.body.success).toBe(true);
     });
   });
+
+  describe('transaction.updated events', () => {
+    const validSecret = 'test-webhook-secret-123';
+    let propertyId: string;
+
+    const createdPayload = {
+      type: 'transaction.created',
+      data: {
+        account_id: testAccountId,
+        id: 'tx_update_001',
+        created: '2024-02-01T10:00:00Z',
+        description: 'Hardware Store',
+        amount: -2500,
+        currency: 'GBP',
+        notes: '',
+      },
+    };
+
+    const updatedPayload = (data: Record<string, unknown>) => ({
+      type: 'transaction.updated',
+      data: { ...createdPayload.data, ...data },
+    });
+
+    const sendWebhook = (payload: object) =>
+      request(app).post(`/api/bank/webhooks/monzo/${validSecret}`).send(payload);
+
+    /**
+     * Link the bank transaction to a ledger transaction, as approval does
+     */
+    const linkToLedger = async (amount: number) => {
+      const bankTransaction = await prisma.bankTransaction.findFirstOrThrow({
+        where: { externalId: 'tx_update_001' },
+      });
+      const transaction = await prisma.transaction.create({
+        data: {
+          propertyId,
+          type: 'Expense',
+          category: 'Maintenance',
+          amount,
+          transactionDate: bankTransaction.transactionDate,
+          description: bankTransaction.description,
+          bankTransactionId: bankTransaction.id,
+          isImported: true,
+        },
+      });
+      await prisma.bankTransaction.update({
+        where: { id: bankTransaction.id },
+        data: { transactionId: transaction.id },
+      });
+      await prisma.pendingTransaction.update({
+        where: { bankTransactionId: bankTransaction.id },
+        data: { reviewedAt: new Date(), reviewedBy: 'admin' },
+      });
+      return transaction;
+    };
+
+    beforeEach(async () => {
+      process.env.MONZO_WEBHOOK_SECRET = validSecret;
+
+      const property = await prisma.property.create({
+        data: {
+          name: 'Webhook Property',
+          street: '1 Update Street',
+          city: 'Test City',
+          county: 'Test County',
+          postcode: 'TE1 1ST',
+          propertyType: 'House',
+          status: 'Occupied',
+        },
+      });
+      propertyId = property.id;
+
+      const response = await sendWebhook(createdPayload);
+      expect(response.status).toBe(200);
+    });
+
+    afterEach(async () => {
+      await prisma.transactionAuditLog.deleteMany({});
+      await prisma.bankTransaction.deleteMany({});
+      await prisma.transaction.deleteMany({});
+      await prisma.property.deleteMany({});
+    });
+
+    it('should record settlement and amount changes on the bank transaction', async () => {
+      const response = await sendWebhook(updatedPayload({ settled: '2024-02-02T09:00:00Z', amount: -2600 }));
+
+      expect(response.status).toBe(200);
+      expect(response.body.message).toBe('Webhook processed successfully');
+
+      const bankTransaction = await prisma.bankTransaction.findFirstOrThrow({
+        where: { externalId: 'tx_update_001' },
+      });
+      expect(bankTransaction.amount).toBe(-2600);
+      expect(bankTransaction.settledDate?.toISOString()).toBe('2024-02-02T09:00:00.000Z');
+      expect(bankTransaction.reversedAt).toBeNull();
+      expect(await prisma.bankTransaction.count()).toBe(1);
+    });
+
+    it('should skip repeated deliveries of the same update but process later ones', async () => {
+      const settled = updatedPayload({ settled: '2024-02-02T09:00:00Z' });
+
+      await sendWebhook(settled);
+      const repeat = await sendWebhook(settled);
+      expect(repeat.body.message).toBe('Webhook event already processed');
+
+      const refunded = await sendWebhook(updatedPayload({ settled: '2024-02-02T09:00:00Z', amount: -2000 }));
+      expect(refunded.body.message).toBe('Webhook processed successfully');
+
+      const syncLogs = await prisma.syncLog.findMany({ where: { bankAccountId: testBankAccountId } });
+      expect(syncLogs).toHaveLength(3);
+      expect(syncLogs.filter((log) => log.webhookEventId?.startsWith('tx_update_001:updated:'))).toHaveLength(2);
+    });
+
+    it('should propagate amount changes to the ledger through the audit log', async () => {
+      const transaction = await linkToLedger(-2500);
+
+      await sendWebhook(updatedPayload({ amount: -2600 }));
+
+      const updated = await prisma.transaction.findUniqueOrThrow({ where: { id: transaction.id } });
+      expect(updated.amount).toBe(-2600);
+
+      const auditLogs = await prisma.transactionAuditLog.findMany({ where: { transactionId: transaction.id } });
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0]).toMatchObject({ userId: 'bank', field: 'amount', oldValue: '-2500', newValue: '-2600' });
+
+      const pending = await prisma.pendingTransaction.findFirstOrThrow({
+        where: { bankTransaction: { externalId: 'tx_update_001' } },
+      });
+      expect(pending.flaggedAt).not.toBeNull();
+      expect(pending.flagReason).toBe('Amount changed from -2500 to -2600');
+    });
+
+    it('should zero the ledger amount and flag the review when a transaction is declined', async () => {
+      const transaction = await linkToLedger(-2500);
+
+      await sendWebhook(updatedPayload({ decline_reason: 'INSUFFICIENT_FUNDS' }));
+
+      const bankTransaction = await prisma.bankTransaction.findFirstOrThrow({
+        where: { externalId: 'tx_update_001' },
+      });
+      expect(bankTransaction.declineReason).toBe('INSUFFICIENT_FUNDS');
+      expect(bankTransaction.reversedAt).not.toBeNull();
+
+      const updated = await prisma.transaction.findUniqueOrThrow({ where: { id: transaction.id } });
+      expect(updated.amount).toBe(0);
+
+      const pending = await prisma.pendingTransaction.findFirstOrThrow({
+        where: { bankTransactionId: bankTransaction.id },
+      });
+      expect(pending.flagReason).toBe('Declined by the bank: INSUFFICIENT_FUNDS');
+    });
+
+    it('should leave split parts for the reviewer when the amount changes', async () => {
+      const transaction = await linkToLedger(-1500);
+      const otherPart = await prisma.transaction.create({
+        data: {
+          propertyId,
+          type: 'Expense',
+          category: 'Repair',
+          amount: -1000,
+          transactionDate: transaction.transactionDate,
+          description: transaction.description,
+          bankTransactionId: transaction.bankTransactionId,
+          isImported: true,
+        },
+      });
+
+      await sendWebhook(updatedPayload({ amount: -2600 }));
+
+      expect((await prisma.transaction.findUniqueOrThrow({ where: { id: transaction.id } })).amount).toBe(-1500);
+      expect((await prisma.transaction.findUniqueOrThrow({ where: { id: otherPart.id } })).amount).toBe(-1000);
+
+      const pending = await prisma.pendingTransaction.findFirstOrThrow({
+        where: { bankTransactionId: transaction.bankTransactionId! },
+      });
+      expect(pending.flagReason).toBe('Amount changed from -2500 to -2600');
+    });
+
+    it('should not flag unreviewed items', async () => {
+      await sendWebhook(updatedPayload({ amount: 0 }));
+
+      const bankTransaction = await prisma.bankTransaction.findFirstOrThrow({
+        where: { externalId: 'tx_update_001' },
+        include: { pendingTransaction: true },
+      });
+      expect(bankTransaction.reversedAt).not.toBeNull();
+      expect(bankTransaction.pendingTransaction?.flaggedAt).toBeNull();
+    });
+
+    it('should create transactions it has not seen before', async () => {
+      const response = await sendWebhook(updatedPayload({ id: 'tx_update_unseen', description: 'Garden Centre', amount: -1800 }));
+
+      expect(response.status).toBe(200);
+      expect(await prisma.bankTransaction.count({ where: { externalId: 'tx_update_unseen' } })).toBe(1);
+    });
+  });
 });
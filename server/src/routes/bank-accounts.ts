@@ -1,18 +1,113 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import { requireAuth } from '../middleware/auth.js';
 import { requireAdmin } from '../middleware/permissions.js';
+import type { BankAccount, Prisma } from '@prisma/client';
 import prisma from '../db/client.js';
-import { UpdateBankAccountSchema } from '../../../shared/validation/bankAccount.validation.js';
+import {
+  UpdateBankAccountSchema,
+  CreateImportBankAccountSchema,
+  StatementImportOptionsSchema,
+  CreateBankReconciliationSchema,
+  type StatementImportOptions,
+} from '../../../shared/validation/bankAccount.validation.js';
 import { z } from 'zod';
-import { syncNewTransactions, deleteWebhook } from '../services/monzo.service.js';
+import crypto from 'crypto';
+import { syncNewTransactions } from '../services/bankSync.service.js';
+import { scheduledSyncService } from '../services/scheduledSync.service.js';
+import { findBankProvider } from '../services/bankProviders/index.js';
 import { decryptToken } from '../services/encryption.js';
+import { statementUpload, handleUploadError } from '../middleware/upload.js';
+import { statementImportService } from '../services/statementImport.service.js';
+import { StatementParseError } from '../services/statementParser.js';
+import { bankReconciliationService } from '../services/bankReconciliation.service.js';
 
 const router = Router();
 
+// Provider for accounts fed by statement file uploads rather than a bank API
+const FILE_IMPORT_PROVIDER = 'file_import';
+
 // Helper function to exclude sensitive fields from bank account response
 function sanitizeBankAccount(account: any) {
-  const { accessToken, refreshToken, ...sanitized } = account;
-  return sanitized;
+  const { accessToken, refreshToken, csvMapping, ...sanitized } = account;
+  return {
+    ...sanitized,
+    csvMapping: statementImportService.savedMapping(csvMapping),
+  };
+}
+
+/**
+ * Validate the form fields sent with a statement upload. Multipart fields
+ * arrive as strings, so the mapping is JSON and saveMapping is "true"/"false".
+ */
+function parseImportOptions(
+  body: Record<string, string | undefined>
+): { options: StatementImportOptions } | { error: string } {
+  let mapping: unknown;
+
+  if (body.mapping) {
+    try {
+      mapping = JSON.parse(body.mapping);
+    } catch {
+      return { error: 'Column mapping must be valid JSON' };
+    }
+  }
+
+  const validationResult = StatementImportOptionsSchema.safeParse({
+    format: body.format || undefined,
+    dateFormat: body.dateFormat || undefined,
+    mapping,
+    saveMapping: body.saveMapping === 'true',
+  });
+
+  if (!validationResult.success) {
+    return { error: validationResult.error.issues[0].message };
+  }
+
+  return { options: validationResult.data };
+}
+
+/**
+ * Look up a bank account by ID. Returns an error response body, or the
+ * account when found.
+ */
+async function findBankAccount(
+  id: string
+): Promise<{ status: number; error: string } | { account: BankAccount }> {
+  if (!z.string().uuid().safeParse(id).success) {
+    return { status: 400, error: 'Invalid bank account ID format' };
+  }
+
+  const account = await prisma.bankAccount.findUnique({
+    where: { id },
+  });
+
+  if (!account) {
+    return { status: 404, error: 'Bank account not found' };
+  }
+
+  return { account };
+}
+
+/**
+ * Look up a bank account that takes statement uploads. Returns an error
+ * response body, or the account when found.
+ */
+async function findImportAccount(
+  id: string
+): Promise<{ status: number; error: string } | { account: BankAccount }> {
+  const lookup = await findBankAccount(id);
+
+  if ('error' in lookup) {
+    return lookup;
+  }
+
+  const { account } = lookup;
+
+  if (account.provider !== FILE_IMPORT_PROVIDER) {
+    return { status: 400, error: 'Statements can only be imported into statement import accounts' };
+  }
+
+  return { account };
 }
 
 // GET /api/bank/accounts - List all bank accounts
@@ -55,6 +150,44 @@ router.get('/', requireAuth, requireAdmin, async (_req, res) => {
   }
 });
 
+// POST /api/bank/accounts - Create an account fed by statement file uploads
+// Monzo accounts are created through the OAuth flow instead
+router.post('/', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    // Validate request body
+    const validationResult = CreateImportBankAccountSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const account = await prisma.bankAccount.create({
+      data: {
+        ...validationResult.data,
+        accountId: `import_${crypto.randomUUID()}`,
+        provider: FILE_IMPORT_PROVIDER,
+        accessToken: null,
+        syncEnabled: false,
+        syncFromDate: new Date(),
+      },
+    });
+
+    return res.status(201).json({
+      success: true,
+      account: sanitizeBankAccount(account),
+    });
+  } catch (error) {
+    console.error('Create bank account error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while creating bank account',
+    });
+  }
+});
+
 // GET /api/bank/accounts/:id - Get single bank account
 router.get('/:id', requireAuth, requireAdmin, async (req, res) => {
   try {
@@ -135,11 +268,30 @@ router.patch('/:id', requireAuth, requireAdmin, async (req, res) => {
 
     // Extract id from validated data and use rest for update
     const { id: _, ...updateData } = validationResult.data;
+    const scheduleData: Prisma.BankAccountUpdateInput = {};
+
+    // A new interval applies from the last sync, so a shorter one can make the account due now
+    if (
+      updateData.syncIntervalMinutes !== undefined &&
+      updateData.syncIntervalMinutes !== existingAccount.syncIntervalMinutes
+    ) {
+      scheduleData.nextScheduledSyncAt = scheduledSyncService.nextSyncAt(
+        existingAccount.lastSyncAt ?? new Date(),
+        updateData.syncIntervalMinutes
+      );
+      scheduleData.syncFailureCount = 0;
+    }
+
+    // Re-enabling sync clears any failure backoff and syncs on the next check
+    if (updateData.syncEnabled && !existingAccount.syncEnabled) {
+      scheduleData.nextScheduledSyncAt = null;
+      scheduleData.syncFailureCount = 0;
+    }
 
     // Update bank account
     const account = await prisma.bankAccount.update({
       where: { id },
-      data: updateData,
+      data: { ...updateData, ...scheduleData },
     });
 
     // Remove sensitive tokens from response
@@ -183,14 +335,15 @@ router.delete('/:id', requireAuth, requireAdmin, async (req, res) => {
       });
     }
 
-    // Delete webhook from Monzo if it exists
-    if (existingAccount.webhookId) {
+    // Delete webhook from the bank provider if it exists
+    const provider = findBankProvider(existingAccount.provider);
+    if (provider && existingAccount.webhookId && existingAccount.accessToken) {
       try {
         const accessToken = decryptToken(existingAccount.accessToken);
-        await deleteWebhook(accessToken, existingAccount.webhookId);
+        await provider.deleteWebhook(accessToken, existingAccount.webhookId);
         console.log(`Deleted webhook: ${existingAccount.webhookId}`);
       } catch (error) {
-        console.error('Failed to delete webhook from Monzo:', error);
+        console.error(`Failed to delete webhook from ${provider.displayName}:`, error);
         // Continue with account deletion even if webhook deletion fails
         // The webhook will eventually expire or can be cleaned up manually
       }
@@ -239,6 +392,13 @@ router.post('/:id/sync', requireAuth, requireAdmin, async (req, res) => {
       });
     }
 
+    if (existingAccount.provider === FILE_IMPORT_PROVIDER) {
+      return res.status(400).json({
+        success: false,
+        error: 'This account is updated by importing statement files',
+      });
+    }
+
     // Trigger manual sync
     const syncResult = await syncNewTransactions(id);
 
@@ -284,6 +444,164 @@ router.post('/:id/sync', requireAuth, requireAdmin, async (req, res) => {
   }
 });
 
+// POST /api/bank/accounts/:id/import/preview - Parse a statement file without importing it
+// CSV files with no mapping (sent or saved) return just their headers so one can be chosen
+router.post(
+  '/:id/import/preview',
+  requireAuth,
+  requireAdmin,
+  statementUpload.single('file'),
+  handleUploadError,
+  async (req: Request, res: Response) => {
+    try {
+      const lookup = await findImportAccount(req.params.id);
+
+      if ('error' in lookup) {
+        return res.status(lookup.status).json({
+          success: false,
+          error: lookup.error,
+        });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: 'No file uploaded',
+        });
+      }
+
+      const parsedOptions = parseImportOptions(req.body);
+
+      if ('error' in parsedOptions) {
+        return res.status(400).json({
+          success: false,
+          error: parsedOptions.error,
+        });
+      }
+
+      const file = statementImportService.parseFile(
+        req.file,
+        parsedOptions.options,
+        statementImportService.savedMapping(lookup.account.csvMapping)
+      );
+
+      const transactions = file.statement
+        ? await statementImportService.preview(lookup.account.id, file.statement.transactions)
+        : [];
+
+      return res.json({
+        success: true,
+        preview: {
+          format: file.format,
+          headers: file.headers ?? null,
+          mapping: file.mapping,
+          transactions,
+          errors: file.statement?.errors ?? [],
+        },
+      });
+    } catch (error) {
+      if (error instanceof StatementParseError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      console.error('Preview statement import error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'An error occurred while reading statement file',
+      });
+    }
+  }
+);
+
+// POST /api/bank/accounts/:id/import - Import a statement file
+// Transactions go through the same duplicate check and matching rules as Monzo syncs
+router.post(
+  '/:id/import',
+  requireAuth,
+  requireAdmin,
+  statementUpload.single('file'),
+  handleUploadError,
+  async (req: Request, res: Response) => {
+    try {
+      const lookup = await findImportAccount(req.params.id);
+
+      if ('error' in lookup) {
+        return res.status(lookup.status).json({
+          success: false,
+          error: lookup.error,
+        });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({
+          success: false,
+          error: 'No file uploaded',
+        });
+      }
+
+      const parsedOptions = parseImportOptions(req.body);
+
+      if ('error' in parsedOptions) {
+        return res.status(400).json({
+          success: false,
+          error: parsedOptions.error,
+        });
+      }
+
+      const { options } = parsedOptions;
+      const file = statementImportService.parseFile(
+        req.file,
+        options,
+        statementImportService.savedMapping(lookup.account.csvMapping)
+      );
+
+      if (!file.statement) {
+        return res.status(400).json({
+          success: false,
+          error: 'A column mapping is required to import a CSV file',
+        });
+      }
+
+      const result = await statementImportService.importTransactions(
+        lookup.account.id,
+        file.statement.transactions
+      );
+
+      // Remember the mapping so the next statement from this bank needs no setup
+      if (options.saveMapping && file.mapping) {
+        await prisma.bankAccount.update({
+          where: { id: lookup.account.id },
+          data: { csvMapping: JSON.stringify(file.mapping) },
+        });
+      }
+
+      return res.json({
+        success: true,
+        result: {
+          ...result,
+          parseErrors: file.statement.errors,
+        },
+      });
+    } catch (error) {
+      if (error instanceof StatementParseError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      console.error('Import statement error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'An error occurred while importing statement file',
+      });
+    }
+  }
+);
+
 // GET /api/bank/accounts/:id/active-sync - Get active or most recent sync log for a bank account
 router.get('/:id/active-sync', requireAuth, requireAdmin, async (req, res) => {
   try {
@@ -335,6 +653,7 @@ router.get('/:id/active-sync', requireAuth, requireAdmin, async (req, res) => {
         completedAt: syncLog.completedAt,
         transactionsFetched: syncLog.transactionsFetched,
         transactionsSkipped: syncLog.transactionsSkipped,
+        transactionsHeld: syncLog.transactionsHeld,
         errorMessage: syncLog.errorMessage,
       },
     });
@@ -347,4 +666,191 @@ router.get('/:id/active-sync', requireAuth, requireAdmin, async (req, res) => {
   }
 });
 
+// GET /api/bank/accounts/:id/balance - Fetch the current balance from the bank
+// Used to fill in a reconciliation's closing balance for connected accounts
+router.get('/:id/balance', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const lookup = await findBankAccount(req.params.id);
+
+    if ('error' in lookup) {
+      return res.status(lookup.status).json({
+        success: false,
+        error: lookup.error,
+      });
+    }
+
+    const result = await bankReconciliationService.fetchBalance(lookup.account.id);
+
+    if ('error' in result) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      balance: result,
+    });
+  } catch (error) {
+    console.error('Fetch bank balance error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while fetching the account balance',
+    });
+  }
+});
+
+// GET /api/bank/accounts/:id/reconciliations - Reconciliation history
+router.get('/:id/reconciliations', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const lookup = await findBankAccount(req.params.id);
+
+    if ('error' in lookup) {
+      return res.status(lookup.status).json({
+        success: false,
+        error: lookup.error,
+      });
+    }
+
+    const reconciliations = await bankReconciliationService.list(lookup.account.id);
+
+    return res.json({
+      success: true,
+      reconciliations,
+    });
+  } catch (error) {
+    console.error('Get reconciliations error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while fetching reconciliations',
+    });
+  }
+});
+
+// POST /api/bank/accounts/:id/reconciliations - Reconcile against a statement closing balance
+router.post('/:id/reconciliations', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const lookup = await findBankAccount(req.params.id);
+
+    if ('error' in lookup) {
+      return res.status(lookup.status).json({
+        success: false,
+        error: lookup.error,
+      });
+    }
+
+    const validationResult = CreateBankReconciliationSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const result = await bankReconciliationService.create(
+      lookup.account.id,
+      validationResult.data,
+      req.user!.id
+    );
+
+    if ('error' in result) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Create reconciliation error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while creating reconciliation',
+    });
+  }
+});
+
+// GET /api/bank/accounts/:id/reconciliations/:reconciliationId - Reconciliation with its transactions
+router.get('/:id/reconciliations/:reconciliationId', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id, reconciliationId } = req.params;
+
+    if (!z.string().uuid().safeParse(reconciliationId).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid reconciliation ID format',
+      });
+    }
+
+    const result = await bankReconciliationService.get(reconciliationId);
+
+    if (!result || result.reconciliation.bankAccountId !== id) {
+      return res.status(404).json({
+        success: false,
+        error: 'Reconciliation not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Get reconciliation error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while fetching reconciliation',
+    });
+  }
+});
+
+// POST /api/bank/accounts/:id/reconciliations/:reconciliationId/lock - Lock a reconciled period
+// Bank transactions in a locked period, and the ledger entries made from them, can't be edited
+router.post('/:id/reconciliations/:reconciliationId/lock', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id, reconciliationId } = req.params;
+
+    if (!z.string().uuid().safeParse(reconciliationId).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid reconciliation ID format',
+      });
+    }
+
+    const existing = await prisma.bankReconciliation.findUnique({ where: { id: reconciliationId } });
+
+    if (!existing || existing.bankAccountId !== id) {
+      return res.status(404).json({
+        success: false,
+        error: 'Reconciliation not found',
+      });
+    }
+
+    const result = await bankReconciliationService.lock(reconciliationId, req.user!.id);
+
+    if ('error' in result) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Lock reconciliation error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while locking reconciliation',
+    });
+  }
+});
+
 export default router;
@@ -3,12 +3,22 @@ import { requireAuth } from '../middleware/auth.js';
 import { requireAdmin } from '../middleware/permissions.js';
 import prisma from '../db/client.js';
 import { z } from 'zod';
-import * as monzoService from '../services/monzo.service.js';
+import * as bankConnectionService from '../services/bankConnection.service.js';
+import { importFullHistory } from '../services/bankSync.service.js';
+import { findBankProvider, getBankProvider } from '../services/bankProviders/index.js';
 import { encryptToken } from '../services/encryption.js';
 import { importProgressTracker, ImportProgressUpdate } from '../services/importProgressTracker.js';
 
 const router = Router();
 
+// Only match registered providers, so other /api/bank routes fall through
+router.param('provider', (_req, _res, next, providerName: string) => {
+  if (!findBankProvider(providerName)) {
+    return next('router');
+  }
+  next();
+});
+
 /**
  * Map SyncLog status to ImportProgressUpdate status
  * SyncLog uses: in_progress, success, partial, failed
@@ -35,10 +45,12 @@ const ConnectRequestSchema = z.object({
 });
 
 /**
- * POST /api/bank/monzo/connect
- * Initiate Monzo OAuth flow by generating authorization URL
+ * POST /api/bank/:provider/connect
+ * Initiate a provider's OAuth flow by generating authorization URL
  */
-router.post('/connect', requireAuth, async (req, res) => {
+router.post('/:provider/connect', requireAuth, async (req, res) => {
+  const provider = getBankProvider(req.params.provider);
+
   try {
     // Validate request body
     const validationResult = ConnectRequestSchema.safeParse(req.body);
@@ -53,34 +65,36 @@ router.post('/connect', requireAuth, async (req, res) => {
     const { syncFromDays } = validationResult.data;
 
     // Generate authorization URL
-    const authUrl = monzoService.generateAuthUrl(syncFromDays);
+    const authUrl = bankConnectionService.generateAuthUrl(provider.name, syncFromDays);
 
     return res.json({
       success: true,
       authUrl,
     });
   } catch (error) {
-    console.error('Monzo connect error:', error);
+    console.error(`${provider.displayName} connect error:`, error);
     return res.status(500).json({
       success: false,
-      error: 'Failed to generate Monzo authorization URL',
+      error: `Failed to generate ${provider.displayName} authorization URL`,
     });
   }
 });
 
 /**
- * GET /api/bank/monzo/callback
+ * GET /api/bank/:provider/callback
  * OAuth callback endpoint - exchanges code for tokens and stores them pending SCA approval.
  * Monzo requires the user to approve access in their mobile app (Strong Customer Authentication)
  * before API calls will work, so we store the tokens and redirect to a "pending approval" state.
  */
-router.get('/callback', async (req, res) => {
+router.get('/:provider/callback', async (req, res) => {
+  const provider = getBankProvider(req.params.provider);
+
   try {
     const { code, state, error } = req.query;
 
     // Handle OAuth error response
     if (error) {
-      console.error('Monzo OAuth error:', error);
+      console.error(`${provider.displayName} OAuth error:`, error);
       return res.redirect(`/settings?error=${error}`);
     }
 
@@ -94,32 +108,40 @@ router.get('/callback', async (req, res) => {
     }
 
     // Validate state and get syncFromDate
-    const syncFromDate = monzoService.validateState(state);
+    const stateData = bankConnectionService.validateState(state);
+
+    // State issued for one provider can't complete another's flow
+    if (stateData.provider !== provider.name) {
+      throw new Error('State parameter was issued for a different provider');
+    }
 
     // Exchange code for tokens
-    const tokenResponse = await monzoService.exchangeCodeForTokens(code);
+    const tokens = await provider.exchangeCode(code);
 
     // Store tokens pending SCA approval
-    const pendingId = monzoService.storePendingConnection(
-      tokenResponse.access_token,
-      tokenResponse.refresh_token,
-      tokenResponse.expires_in,
-      syncFromDate
+    const pendingId = bankConnectionService.storePendingConnection(
+      provider.name,
+      tokens.accessToken,
+      tokens.refreshToken,
+      tokens.expiresIn,
+      stateData.syncFromDate
     );
 
-    return res.redirect(`/settings?pending_approval=monzo&pendingId=${pendingId}`);
+    return res.redirect(`/settings?pending_approval=${provider.name}&pendingId=${pendingId}`);
   } catch (error) {
-    console.error('Monzo callback error:', error);
+    console.error(`${provider.displayName} callback error:`, error);
     return res.redirect('/settings?error=oauth_failed');
   }
 });
 
 /**
- * POST /api/bank/monzo/complete-connection
- * Complete the Monzo connection after the user approves SCA in their Monzo app.
+ * POST /api/bank/:provider/complete-connection
+ * Complete the connection after the user approves SCA in their banking app.
  * Retrieves stored tokens, fetches account info, creates BankAccount, registers webhook, starts import.
  */
-router.post('/complete-connection', requireAuth, requireAdmin, async (req, res) => {
+router.post('/:provider/complete-connection', requireAuth, requireAdmin, async (req, res) => {
+  const provider = getBankProvider(req.params.provider);
+
   try {
     const { pendingId } = req.body;
 
@@ -133,7 +155,10 @@ router.post('/complete-connection', requireAuth, requireAdmin, async (req, res)
     // Retrieve the pending connection (non-destructive, allows retries)
     let pending;
     try {
-      pending = monzoService.getPendingConnection(pendingId);
+      pending = bankConnectionService.getPendingConnection(pendingId);
+      if (pending.provider !== provider.name) {
+        throw new Error('Pending connection belongs to a different provider');
+      }
     } catch {
       return res.status(400).json({
         success: false,
@@ -142,10 +167,10 @@ router.post('/complete-connection', requireAuth, requireAdmin, async (req, res)
     }
 
     // Fetch account info (requires SCA approval to have been completed)
-    const accountInfo = await monzoService.getAccountInfo(pending.accessToken);
+    const accountInfo = await provider.getAccountInfo(pending.accessToken);
 
     // SCA approved and account info retrieved - delete the pending connection
-    monzoService.deletePendingConnection(pendingId);
+    bankConnectionService.deletePendingConnection(pendingId);
 
     // Calculate token expiry date
     const tokenExpiresAt = new Date();
@@ -165,7 +190,7 @@ router.post('/complete-connection', requireAuth, requireAdmin, async (req, res)
     // Delete old webhook if re-authenticating
     if (existingAccount?.webhookId) {
       try {
-        await monzoService.deleteWebhook(pending.accessToken, existingAccount.webhookId);
+        await provider.deleteWebhook(pending.accessToken, existingAccount.webhookId);
       } catch (error) {
         console.error('Failed to delete old webhook:', error);
       }
@@ -175,12 +200,12 @@ router.post('/complete-connection', requireAuth, requireAdmin, async (req, res)
     let webhookId: string | null = null;
     let webhookUrl: string | null = null;
 
-    const webhookSecret = process.env.MONZO_WEBHOOK_SECRET;
+    const webhookSecret = provider.getWebhookSecret();
     if (webhookSecret) {
       try {
         const baseUrl = process.env.WEBHOOK_BASE_URL || 'http://localhost:3000';
-        const webhookUrlToRegister = `${baseUrl}/api/bank/webhooks/monzo/${webhookSecret}`;
-        const webhookResult = await monzoService.registerWebhook(
+        const webhookUrlToRegister = `${baseUrl}/api/bank/webhooks/${provider.name}/${webhookSecret}`;
+        const webhookResult = await provider.registerWebhook(
           pending.accessToken,
           accountInfo.accountId,
           webhookUrlToRegister
@@ -199,7 +224,7 @@ router.post('/complete-connection', requireAuth, requireAdmin, async (req, res)
         accountId: accountInfo.accountId,
         accountName: accountInfo.accountName,
         accountType: accountInfo.accountType,
-        provider: 'monzo',
+        provider: provider.name,
         accessToken: encryptedAccessToken,
         refreshToken: encryptedRefreshToken,
         tokenExpiresAt,
@@ -223,7 +248,7 @@ router.post('/complete-connection', requireAuth, requireAdmin, async (req, res)
     });
 
     // Start background import (fire and forget)
-    const importPromise = monzoService.importFullHistory(bankAccount.id);
+    const importPromise = importFullHistory(bankAccount.id);
     importPromise.catch((error) => {
       console.error('Background import failed:', error);
     });
@@ -233,7 +258,7 @@ router.post('/complete-connection', requireAuth, requireAdmin, async (req, res)
       bankAccountId: bankAccount.id,
     });
   } catch (error) {
-    console.error('Monzo complete-connection error:', error);
+    console.error(`${provider.displayName} complete-connection error:`, error);
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     const isSCAError = errorMessage.includes('insufficient_permissions') ||
@@ -242,17 +267,17 @@ router.post('/complete-connection', requireAuth, requireAdmin, async (req, res)
     return res.status(isSCAError ? 403 : 500).json({
       success: false,
       error: isSCAError
-        ? 'Monzo access not yet approved. Please approve in your Monzo app and try again.'
-        : 'Failed to complete Monzo connection',
+        ? `${provider.displayName} access not yet approved. Please approve in your ${provider.displayName} app and try again.`
+        : `Failed to complete ${provider.displayName} connection`,
     });
   }
 });
 
 /**
- * GET /api/bank/monzo/import-progress/:syncLogId
+ * GET /api/bank/:provider/import-progress/:syncLogId
  * Server-Sent Events endpoint for streaming import progress updates
  */
-router.get('/import-progress/:syncLogId', requireAuth, requireAdmin, async (req, res) => {
+router.get('/:provider/import-progress/:syncLogId', requireAuth, requireAdmin, async (req, res) => {
   const { syncLogId } = req.params;
 
   // Validate syncLogId format (UUID)
@@ -290,6 +315,7 @@ router.get('/import-progress/:syncLogId', requireAuth, requireAdmin, async (req,
     transactionsFetched: syncLog.transactionsFetched,
     transactionsProcessed: 0, // We don't track this separately yet
     duplicatesSkipped: syncLog.transactionsSkipped,
+    possibleDuplicates: syncLog.transactionsHeld,
     message: syncLog.status === 'in_progress'
       ? 'Import in progress...'
       : syncLog.status === 'success' || syncLog.status === 'partial'
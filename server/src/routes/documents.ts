@@ -21,6 +21,7 @@ async function validateEntity(entityType: string, entityId: string): Promise<boo
     Tenant: prisma.tenant,
     Lease: prisma.lease,
     Transaction: prisma.transaction,
+    Guarantor: prisma.guarantor,
   };
 
   const model = modelMap[entityType];
@@ -71,7 +72,7 @@ router.post(
       if (!entityTypeValidation.success) {
         return res.status(400).json({
           success: false,
-          error: 'Invalid entityType. Must be Property, Tenant, Lease, or Transaction',
+          error: 'Invalid entityType. Must be Property, Tenant, Lease, Transaction, or Guarantor',
         });
       }
 
@@ -150,7 +151,7 @@ router.get('/', requireAuth, async (req, res) => {
       if (!entityTypeValidation.success) {
         return res.status(400).json({
           success: false,
-          error: 'Invalid entityType. Must be Property, Tenant, Lease, or Transaction',
+          error: 'Invalid entityType. Must be Property, Tenant, Lease, Transaction, or Guarantor',
         });
       }
       where.entityType = entityType;
@@ -8,6 +8,7 @@ import {
   EventQueryParamsSchema,
 } from '../../../shared/validation/event.validation.js';
 import { z } from 'zod';
+import { unitService } from '../services/unit.service.js';
 
 const router = Router();
 
@@ -24,7 +25,7 @@ router.get('/', requireAuth, async (req, res) => {
       });
     }
 
-    const { propertyId, eventType, completed, fromDate, toDate } = validationResult.data;
+    const { propertyId, unitId, eventType, completed, fromDate, toDate } = validationResult.data;
 
     // Build filter object
     const where: any = {};
@@ -33,6 +34,10 @@ router.get('/', requireAuth, async (req, res) => {
       where.propertyId = propertyId;
     }
 
+    if (unitId) {
+      where.unitId = unitId;
+    }
+
     if (eventType) {
       where.eventType = eventType;
     }
@@ -121,6 +126,18 @@ router.post('/', requireAuth, requireWrite, async (req, res) => {
 
     const eventData = validationResult.data;
 
+    // If the event is for a single unit, check it belongs to the property
+    if (eventData.unitId) {
+      const unitError = await unitService.validateUnitForProperty(eventData.unitId, eventData.propertyId);
+
+      if (unitError) {
+        return res.status(unitError.status).json({
+          success: false,
+          error: unitError.error,
+        });
+      }
+    }
+
     // Create event
     const event = await prisma.event.create({
       data: eventData,
@@ -180,6 +197,23 @@ router.put('/:id', requireAuth, requireWrite, async (req, res) => {
     // Extract id from validated data and use rest for update
     const { id: _, ...updateData } = validationResult.data;
 
+    // If property or unit changed, check the unit belongs to the property
+    const unitId = updateData.unitId !== undefined ? updateData.unitId : existingEvent.unitId;
+
+    if (unitId && (updateData.unitId || updateData.propertyId)) {
+      const unitError = await unitService.validateUnitForProperty(
+        unitId,
+        updateData.propertyId || existingEvent.propertyId
+      );
+
+      if (unitError) {
+        return res.status(unitError.status).json({
+          success: false,
+          error: unitError.error,
+        });
+      }
+    }
+
     // Update event
     const event = await prisma.event.update({
       where: { id },
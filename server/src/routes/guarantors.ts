@@ -0,0 +1,381 @@
+import { Router } from 'express';
+import { Prisma } from '@prisma/client';
+import { requireAuth } from '../middleware/auth.js';
+import { requireWrite } from '../middleware/permissions.js';
+import prisma from '../db/client.js';
+import {
+  CreateGuarantorSchema,
+  UpdateGuarantorSchema,
+  GuarantorQueryParamsSchema,
+} from '../../../shared/validation/guarantor.validation.js';
+import { z } from 'zod';
+
+const router = Router();
+
+// Signed deed and every lease the guarantor has signed for, oldest link first
+const guarantorInclude = {
+  tenant: true,
+  deedDocument: true,
+  leases: {
+    include: { lease: { include: { property: true, unit: true } } },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.GuarantorInclude;
+
+/**
+ * Check every lease exists and is held by the guaranteed tenant, as lead or joint tenant.
+ * Returns an error response body, or null when all leases are valid.
+ */
+async function validateGuarantorLeases(
+  tenantId: string,
+  leaseIds: string[]
+): Promise<{ status: number; error: string } | null> {
+  const leases = await prisma.lease.findMany({
+    where: { id: { in: leaseIds } },
+    include: { tenants: true },
+  });
+
+  if (leases.length !== leaseIds.length) {
+    return { status: 404, error: 'Lease not found' };
+  }
+
+  const heldByTenant = (lease: (typeof leases)[number]) =>
+    lease.tenantId === tenantId || lease.tenants.some((t) => t.tenantId === tenantId);
+
+  if (!leases.every(heldByTenant)) {
+    return { status: 400, error: 'Guarantor can only be linked to leases held by the tenant they guarantee' };
+  }
+
+  return null;
+}
+
+/**
+ * Check the signed deed is a document uploaded against this guarantor or one of the
+ * leases it guarantees. Returns an error response body, or null when the deed is valid.
+ */
+async function validateDeedDocument(
+  deedDocumentId: string,
+  guarantorId: string | null,
+  leaseIds: string[]
+): Promise<{ status: number; error: string } | null> {
+  const document = await prisma.document.findUnique({
+    where: { id: deedDocumentId },
+  });
+
+  if (!document) {
+    return { status: 404, error: 'Document not found' };
+  }
+
+  const attached =
+    (document.entityType === 'Guarantor' && document.entityId === guarantorId) ||
+    (document.entityType === 'Lease' && leaseIds.includes(document.entityId));
+
+  if (!attached) {
+    return { status: 400, error: 'Deed must be a document uploaded for this guarantor or one of its leases' };
+  }
+
+  return null;
+}
+
+// GET /api/guarantors - List guarantors with filtering
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    // Validate query parameters
+    const validationResult = GuarantorQueryParamsSchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const { tenant_id, lease_id } = validationResult.data;
+
+    // Build filter object
+    const where: Prisma.GuarantorWhereInput = {};
+
+    if (tenant_id) {
+      where.tenantId = tenant_id;
+    }
+
+    if (lease_id) {
+      where.leases = { some: { leaseId: lease_id } };
+    }
+
+    const guarantors = await prisma.guarantor.findMany({
+      where,
+      include: guarantorInclude,
+      orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
+    });
+
+    return res.json({
+      success: true,
+      guarantors,
+    });
+  } catch (error) {
+    console.error('Get guarantors error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while fetching guarantors',
+    });
+  }
+});
+
+// GET /api/guarantors/:id - Get single guarantor
+router.get('/:id', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid guarantor ID format',
+      });
+    }
+
+    const guarantor = await prisma.guarantor.findUnique({
+      where: { id },
+      include: guarantorInclude,
+    });
+
+    if (!guarantor) {
+      return res.status(404).json({
+        success: false,
+        error: 'Guarantor not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      guarantor,
+    });
+  } catch (error) {
+    console.error('Get guarantor error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while fetching guarantor',
+    });
+  }
+});
+
+// POST /api/guarantors - Create guarantor (requires auth + write permission)
+router.post('/', requireAuth, requireWrite, async (req, res) => {
+  try {
+    // Validate request body
+    const validationResult = CreateGuarantorSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const { leaseIds, ...guarantorData } = validationResult.data;
+    const uniqueLeaseIds = [...new Set(leaseIds)];
+
+    // Check the guaranteed tenant exists
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: guarantorData.tenantId },
+    });
+
+    if (!tenant) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tenant not found',
+      });
+    }
+
+    const leaseError = await validateGuarantorLeases(guarantorData.tenantId, uniqueLeaseIds);
+
+    if (leaseError) {
+      return res.status(leaseError.status).json({
+        success: false,
+        error: leaseError.error,
+      });
+    }
+
+    if (guarantorData.deedDocumentId) {
+      const deedError = await validateDeedDocument(guarantorData.deedDocumentId, null, uniqueLeaseIds);
+
+      if (deedError) {
+        return res.status(deedError.status).json({
+          success: false,
+          error: deedError.error,
+        });
+      }
+    }
+
+    // Create guarantor along with the leases it guarantees
+    const guarantor = await prisma.guarantor.create({
+      data: {
+        ...guarantorData,
+        leases: {
+          create: uniqueLeaseIds.map((leaseId) => ({ leaseId })),
+        },
+      },
+      include: guarantorInclude,
+    });
+
+    return res.status(201).json({
+      success: true,
+      guarantor,
+    });
+  } catch (error) {
+    console.error('Create guarantor error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while creating guarantor',
+    });
+  }
+});
+
+// PUT /api/guarantors/:id - Update guarantor (requires auth + write permission)
+router.put('/:id', requireAuth, requireWrite, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid guarantor ID format',
+      });
+    }
+
+    // Validate request body with id
+    const validationResult = UpdateGuarantorSchema.safeParse({
+      id,
+      ...req.body,
+    });
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    // Check if guarantor exists
+    const existingGuarantor = await prisma.guarantor.findUnique({
+      where: { id },
+      include: { leases: true },
+    });
+
+    if (!existingGuarantor) {
+      return res.status(404).json({
+        success: false,
+        error: 'Guarantor not found',
+      });
+    }
+
+    // Extract id and leases from validated data and use rest for update
+    const { id: _, leaseIds, ...updateData } = validationResult.data;
+    const newLeaseIds = leaseIds ? [...new Set(leaseIds)] : existingGuarantor.leases.map((l) => l.leaseId);
+
+    let leasesUpdate: Prisma.LeaseGuarantorUpdateManyWithoutGuarantorNestedInput | undefined;
+
+    if (leaseIds) {
+      const leaseError = await validateGuarantorLeases(existingGuarantor.tenantId, newLeaseIds);
+
+      if (leaseError) {
+        return res.status(leaseError.status).json({
+          success: false,
+          error: leaseError.error,
+        });
+      }
+
+      leasesUpdate = {
+        deleteMany: {},
+        create: newLeaseIds.map((leaseId) => ({ leaseId })),
+      };
+    }
+
+    if (updateData.deedDocumentId) {
+      const deedError = await validateDeedDocument(updateData.deedDocumentId, id, newLeaseIds);
+
+      if (deedError) {
+        return res.status(deedError.status).json({
+          success: false,
+          error: deedError.error,
+        });
+      }
+    }
+
+    // Update guarantor
+    const guarantor = await prisma.guarantor.update({
+      where: { id },
+      data: {
+        ...updateData,
+        ...(leasesUpdate && { leases: leasesUpdate }),
+      },
+      include: guarantorInclude,
+    });
+
+    return res.json({
+      success: true,
+      guarantor,
+    });
+  } catch (error) {
+    console.error('Update guarantor error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while updating guarantor',
+    });
+  }
+});
+
+// DELETE /api/guarantors/:id - Delete guarantor (requires auth + write permission)
+router.delete('/:id', requireAuth, requireWrite, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid guarantor ID format',
+      });
+    }
+
+    // Check if guarantor exists
+    const existingGuarantor = await prisma.guarantor.findUnique({
+      where: { id },
+    });
+
+    if (!existingGuarantor) {
+      return res.status(404).json({
+        success: false,
+        error: 'Guarantor not found',
+      });
+    }
+
+    // Delete documents manually (polymorphic), then the guarantor
+    // Lease links will cascade automatically via onDelete: Cascade
+    await prisma.document.deleteMany({
+      where: {
+        entityType: 'Guarantor',
+        entityId: id,
+      },
+    });
+
+    const guarantor = await prisma.guarantor.delete({
+      where: { id },
+    });
+
+    return res.json({
+      success: true,
+      guarantor,
+    });
+  } catch (error) {
+    console.error('Delete guarantor error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while deleting guarantor',
+    });
+  }
+});
+
+export default router;
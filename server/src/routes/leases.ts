@@ -3,11 +3,76 @@ import { Prisma } from '@prisma/client';
 import { requireAuth } from '../middleware/auth.js';
 import { requireWrite } from '../middleware/permissions.js';
 import prisma from '../db/client.js';
-import { CreateLeaseSchema, UpdateLeaseSchema, LeaseQueryParamsSchema } from '../../../shared/validation/lease.validation.js';
+import { rentLedgerService } from '../services/rentLedger.service.js';
+import { unitService } from '../services/unit.service.js';
+import { leaseStatusService } from '../services/leaseStatus.service.js';
+import { depositService } from '../services/deposit.service.js';
+import { rentReviewService } from '../services/rentReview.service.js';
+import {
+  CreateLeaseSchema,
+  UpdateLeaseSchema,
+  LeaseQueryParamsSchema,
+  LeaseLedgerQueryParamsSchema,
+  RenewLeaseSchema,
+  LeaseStatusChangeQueryParamsSchema,
+  RunLeaseStatusTransitionsSchema,
+  CreateRentChangeSchema,
+  RentHistoryQueryParamsSchema,
+  isValidRentDueDay,
+  RENT_DUE_DAY_WEEKDAY_MESSAGE,
+  type RentFrequency,
+} from '../../../shared/validation/lease.validation.js';
+import { ReturnDepositSchema, DepositQueryParamsSchema } from '../../../shared/validation/deposit.validation.js';
 import { z } from 'zod';
 
 const router = Router();
 
+// Every tenant on the lease, lead tenant first
+const leaseTenantsInclude = {
+  include: { tenant: true },
+  orderBy: [{ isLead: 'desc' }, { createdAt: 'asc' }],
+} satisfies Prisma.Lease$tenantsArgs;
+
+// Terms of the neighbouring leases in a renewal chain
+const leaseRenewalSelect = {
+  select: { id: true, startDate: true, endDate: true, rentAmount: true, rentFrequency: true, status: true },
+} satisfies Prisma.LeaseDefaultArgs;
+
+// Rent changes on a lease, in the order they take effect
+const rentChangesInclude = {
+  orderBy: { effectiveDate: 'asc' },
+} satisfies Prisma.Lease$rentChangesArgs;
+
+// Guarantors who have signed for the lease
+const leaseGuarantorsInclude = {
+  include: { guarantor: true },
+  orderBy: { createdAt: 'asc' },
+} satisfies Prisma.Lease$guarantorsArgs;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check every tenant on a lease exists and is not 'Former' status.
+ * Returns an error response body, or null when all tenants are valid.
+ */
+async function validateLeaseTenants(
+  tenantIds: string[]
+): Promise<{ status: number; error: string } | null> {
+  const tenants = await prisma.tenant.findMany({
+    where: { id: { in: tenantIds } },
+  });
+
+  if (tenants.length !== tenantIds.length) {
+    return { status: 404, error: 'Tenant not found' };
+  }
+
+  if (tenants.some((tenant) => tenant.status === 'Former')) {
+    return { status: 400, error: 'Tenant is not active' };
+  }
+
+  return null;
+}
+
 // GET /api/leases - List leases with filtering
 router.get('/', requireAuth, async (req, res) => {
   try {
@@ -21,7 +86,7 @@ router.get('/', requireAuth, async (req, res) => {
       });
     }
 
-    const { property_id, tenant_id, status } = validationResult.data;
+    const { property_id, unit_id, tenant_id, status } = validationResult.data;
 
     // Build filter object
     const where: Prisma.LeaseWhereInput = {};
@@ -34,8 +99,13 @@ router.get('/', requireAuth, async (req, res) => {
       }
     }
 
+    if (unit_id) {
+      where.unitId = unit_id;
+    }
+
     if (tenant_id) {
-      where.tenantId = tenant_id;
+      // Match the lead tenant or any joint tenant
+      where.OR = [{ tenantId: tenant_id }, { tenants: { some: { tenantId: tenant_id } } }];
     }
 
     if (status) {
@@ -46,7 +116,13 @@ router.get('/', requireAuth, async (req, res) => {
       where,
       include: {
         property: true,
+        unit: true,
         tenant: true,
+        tenants: leaseTenantsInclude,
+        previousLease: leaseRenewalSelect,
+        renewal: leaseRenewalSelect,
+        rentChanges: rentChangesInclude,
+        guarantors: leaseGuarantorsInclude,
       },
       orderBy: { startDate: 'desc' },
     });
@@ -64,6 +140,81 @@ router.get('/', requireAuth, async (req, res) => {
   }
 });
 
+// GET /api/leases/status-changes - Status transitions applied by the daily scheduler, newest first
+router.get('/status-changes', requireAuth, async (req, res) => {
+  try {
+    const validationResult = LeaseStatusChangeQueryParamsSchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const { lease_id, from_date, limit } = validationResult.data;
+
+    const where: Prisma.LeaseStatusChangeWhereInput = {};
+
+    if (lease_id) {
+      where.leaseId = lease_id;
+    }
+
+    if (from_date) {
+      where.changedAt = { gte: from_date };
+    }
+
+    const statusChanges = await prisma.leaseStatusChange.findMany({
+      where,
+      include: {
+        lease: {
+          include: { property: true, unit: true, tenant: true },
+        },
+      },
+      orderBy: { changedAt: 'desc' },
+      take: limit,
+    });
+
+    return res.json({
+      success: true,
+      statusChanges,
+    });
+  } catch (error) {
+    console.error('Get lease status changes error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while fetching lease status changes',
+    });
+  }
+});
+
+// POST /api/leases/status-transitions/run - Run the scheduled status transitions now (requires auth + write permission)
+router.post('/status-transitions/run', requireAuth, requireWrite, async (req, res) => {
+  try {
+    const validationResult = RunLeaseStatusTransitionsSchema.safeParse(req.body ?? {});
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const result = await leaseStatusService.runTransitions(validationResult.data.as_of);
+
+    return res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Run lease status transitions error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while running lease status transitions',
+    });
+  }
+});
+
 // GET /api/leases/:id - Get single lease
 router.get('/:id', requireAuth, async (req, res) => {
   try {
@@ -81,7 +232,13 @@ router.get('/:id', requireAuth, async (req, res) => {
       where: { id },
       include: {
         property: true,
+        unit: true,
         tenant: true,
+        tenants: leaseTenantsInclude,
+        previousLease: leaseRenewalSelect,
+        renewal: leaseRenewalSelect,
+        rentChanges: rentChangesInclude,
+        guarantors: leaseGuarantorsInclude,
       },
     });
 
@@ -105,6 +262,249 @@ router.get('/:id', requireAuth, async (req, res) => {
   }
 });
 
+// GET /api/leases/:id/ledger - Rent schedule with payments matched against each due period
+router.get('/:id/ledger', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid lease ID format',
+      });
+    }
+
+    const validationResult = LeaseLedgerQueryParamsSchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const lease = await prisma.lease.findUnique({
+      where: { id },
+    });
+
+    if (!lease) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lease not found',
+      });
+    }
+
+    const ledger = await rentLedgerService.getLeaseLedger(id, validationResult.data.as_of ?? new Date());
+
+    return res.json({
+      success: true,
+      ledger,
+    });
+  } catch (error) {
+    console.error('Get lease ledger error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while fetching lease ledger',
+    });
+  }
+});
+
+// GET /api/leases/:id/rent-changes - Rent history, including scheduled changes
+router.get('/:id/rent-changes', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid lease ID format',
+      });
+    }
+
+    const validationResult = RentHistoryQueryParamsSchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const lease = await prisma.lease.findUnique({
+      where: { id },
+      include: { rentChanges: true },
+    });
+
+    if (!lease) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lease not found',
+      });
+    }
+
+    const rentHistory = rentReviewService.buildRentHistory(lease, validationResult.data.as_of ?? new Date());
+
+    return res.json({
+      success: true,
+      rentHistory,
+    });
+  } catch (error) {
+    console.error('Get rent changes error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while fetching rent changes',
+    });
+  }
+});
+
+// POST /api/leases/:id/rent-changes - Schedule a rent change (requires auth + write permission)
+// The notice date is worked back from the effective date using the lease's rent frequency
+router.post('/:id/rent-changes', requireAuth, requireWrite, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid lease ID format',
+      });
+    }
+
+    const validationResult = CreateRentChangeSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const changeData = validationResult.data;
+
+    const lease = await prisma.lease.findUnique({
+      where: { id },
+      include: { rentChanges: true },
+    });
+
+    if (!lease) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lease not found',
+      });
+    }
+
+    if (lease.status !== 'Active' && lease.status !== 'Draft') {
+      return res.status(400).json({
+        success: false,
+        error: 'Rent changes can only be scheduled on draft or active leases',
+      });
+    }
+
+    if (changeData.effectiveDate <= lease.startDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'Rent change must take effect after the lease start date',
+      });
+    }
+
+    if (lease.endDate && changeData.effectiveDate > lease.endDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'Rent change must take effect before the lease end date',
+      });
+    }
+
+    if (lease.rentChanges.some((c) => c.effectiveDate.getTime() === changeData.effectiveDate.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'A rent change already takes effect on this date',
+      });
+    }
+
+    const noticeDate = rentReviewService.getNoticeDate(changeData.effectiveDate, lease.rentFrequency);
+
+    if (changeData.noticeServedAt && changeData.noticeServedAt > noticeDate) {
+      return res.status(400).json({
+        success: false,
+        error: `Notice of this change must be served by ${noticeDate.toISOString().slice(0, 10)}`,
+      });
+    }
+
+    const rentChange = await prisma.rentChange.create({
+      data: {
+        leaseId: id,
+        effectiveDate: changeData.effectiveDate,
+        rentAmount: changeData.rentAmount,
+        noticeDate,
+        noticeServedAt: changeData.noticeServedAt ?? null,
+        notes: changeData.notes ?? null,
+      },
+    });
+
+    return res.status(201).json({
+      success: true,
+      rentChange,
+    });
+  } catch (error) {
+    console.error('Create rent change error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while scheduling rent change',
+    });
+  }
+});
+
+// DELETE /api/leases/:id/rent-changes/:changeId - Cancel a rent change that hasn't taken effect yet
+router.delete('/:id/rent-changes/:changeId', requireAuth, requireWrite, async (req, res) => {
+  try {
+    const { id, changeId } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success || !z.string().uuid().safeParse(changeId).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid lease or rent change ID format',
+      });
+    }
+
+    const existingChange = await prisma.rentChange.findUnique({
+      where: { id: changeId },
+    });
+
+    if (!existingChange || existingChange.leaseId !== id) {
+      return res.status(404).json({
+        success: false,
+        error: 'Rent change not found',
+      });
+    }
+
+    if (existingChange.effectiveDate <= new Date()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Only rent changes that have not yet taken effect can be cancelled',
+      });
+    }
+
+    const rentChange = await prisma.rentChange.delete({
+      where: { id: changeId },
+    });
+
+    return res.json({
+      success: true,
+      rentChange,
+    });
+  } catch (error) {
+    console.error('Delete rent change error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while cancelling rent change',
+    });
+  }
+});
+
 // POST /api/leases - Create lease (requires auth + write permission)
 router.post('/', requireAuth, requireWrite, async (req, res) => {
   try {
@@ -118,7 +518,7 @@ router.post('/', requireAuth, requireWrite, async (req, res) => {
       });
     }
 
-    const leaseData = validationResult.data;
+    const { jointTenantIds = [], ...leaseData } = validationResult.data;
 
     // Check property exists and status is NOT 'For Sale'
     const property = await prisma.property.findUnique({
@@ -139,62 +539,36 @@ router.post('/', requireAuth, requireWrite, async (req, res) => {
       });
     }
 
-    // Check tenant exists and is not 'Former' status
-    const tenant = await prisma.tenant.findUnique({
-      where: { id: leaseData.tenantId },
-    });
+    // If letting a single unit, check it belongs to the property
+    if (leaseData.unitId) {
+      const unitError = await unitService.validateUnitForProperty(leaseData.unitId, leaseData.propertyId);
 
-    if (!tenant) {
-      return res.status(404).json({
-        success: false,
-        error: 'Tenant not found',
-      });
+      if (unitError) {
+        return res.status(unitError.status).json({
+          success: false,
+          error: unitError.error,
+        });
+      }
     }
 
-    if (tenant.status === 'Former') {
-      return res.status(400).json({
+    // Check every tenant exists and is not 'Former' status
+    const tenantError = await validateLeaseTenants([leaseData.tenantId, ...jointTenantIds]);
+
+    if (tenantError) {
+      return res.status(tenantError.status).json({
         success: false,
-        error: 'Tenant is not active',
+        error: tenantError.error,
       });
     }
 
     // Validate no overlapping ACTIVE leases for the same property
     // Only check if the new lease is Active
     if (leaseData.status === 'Active') {
-      const overlapWhere: any = {
+      const overlappingLeases = await leaseStatusService.findOverlappingActiveLeases({
         propertyId: leaseData.propertyId,
-        status: 'Active',
-        OR: [],
-      };
-
-      // Overlap condition: (new.startDate <= existing.endDate OR existing.endDate is null)
-      //                AND (new.endDate >= existing.startDate OR new.endDate is null)
-
-      // If new lease has endDate
-      if (leaseData.endDate) {
-        overlapWhere.OR.push({
-          AND: [
-            {
-              OR: [
-                { endDate: { gte: leaseData.startDate } },
-                { endDate: null },
-              ],
-            },
-            { startDate: { lte: leaseData.endDate } },
-          ],
-        });
-      } else {
-        // New lease has no endDate (ongoing)
-        overlapWhere.OR.push({
-          OR: [
-            { endDate: { gte: leaseData.startDate } },
-            { endDate: null },
-          ],
-        });
-      }
-
-      const overlappingLeases = await prisma.lease.findMany({
-        where: overlapWhere,
+        unitId: leaseData.unitId,
+        startDate: leaseData.startDate,
+        endDate: leaseData.endDate,
       });
 
       if (overlappingLeases.length > 0) {
@@ -205,9 +579,20 @@ router.post('/', requireAuth, requireWrite, async (req, res) => {
       }
     }
 
-    // Create lease
+    // Create lease along with its lead and joint tenants
     const lease = await prisma.lease.create({
-      data: leaseData,
+      data: {
+        ...leaseData,
+        tenants: {
+          create: [
+            { tenantId: leaseData.tenantId, isLead: true },
+            ...jointTenantIds.map((tenantId) => ({ tenantId })),
+          ],
+        },
+      },
+      include: {
+        tenants: leaseTenantsInclude,
+      },
     });
 
     return res.status(201).json({
@@ -252,6 +637,7 @@ router.put('/:id', requireAuth, requireWrite, async (req, res) => {
     // Check if lease exists
     const existingLease = await prisma.lease.findUnique({
       where: { id },
+      include: { tenants: true },
     });
 
     if (!existingLease) {
@@ -261,8 +647,21 @@ router.put('/:id', requireAuth, requireWrite, async (req, res) => {
       });
     }
 
-    // Extract id from validated data and use rest for update
-    const { id: _, ...updateData } = validationResult.data;
+    // Extract id and joint tenants from validated data and use rest for update
+    const { id: _, jointTenantIds, ...updateData } = validationResult.data;
+
+    // The due day must suit the frequency it ends up paired with
+    if (
+      !isValidRentDueDay(
+        updateData.rentFrequency ?? (existingLease.rentFrequency as RentFrequency),
+        updateData.rentDueDay !== undefined ? updateData.rentDueDay : existingLease.rentDueDay
+      )
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: RENT_DUE_DAY_WEEKDAY_MESSAGE,
+      });
+    }
 
     // If property changed, validate it exists and status is NOT 'For Sale'
     if (updateData.propertyId) {
@@ -285,68 +684,79 @@ router.put('/:id', requireAuth, requireWrite, async (req, res) => {
       }
     }
 
-    // If tenant changed, validate they exist and are not 'Former' status
-    if (updateData.tenantId) {
-      const tenant = await prisma.tenant.findUnique({
-        where: { id: updateData.tenantId },
-      });
+    // If property or unit changed, check the unit belongs to the property
+    const unitId = updateData.unitId !== undefined ? updateData.unitId : existingLease.unitId;
 
-      if (!tenant) {
-        return res.status(404).json({
+    if (unitId && (updateData.unitId || updateData.propertyId)) {
+      const unitError = await unitService.validateUnitForProperty(
+        unitId,
+        updateData.propertyId || existingLease.propertyId
+      );
+
+      if (unitError) {
+        return res.status(unitError.status).json({
           success: false,
-          error: 'Tenant not found',
+          error: unitError.error,
         });
       }
+    }
 
-      if (tenant.status === 'Former') {
+    // If tenants changed, validate they exist and are not 'Former' status, then rebuild the tenant list
+    let tenantsUpdate: Prisma.LeaseTenantUpdateManyWithoutLeaseNestedInput | undefined;
+
+    if (updateData.tenantId || jointTenantIds) {
+      const leadTenantId = updateData.tenantId || existingLease.tenantId;
+      const newJointTenantIds = (
+        jointTenantIds ??
+        existingLease.tenants.filter((t) => !t.isLead).map((t) => t.tenantId)
+      ).filter((tenantId) => tenantId !== leadTenantId);
+
+      if (jointTenantIds?.includes(leadTenantId)) {
         return res.status(400).json({
           success: false,
-          error: 'Tenant is not active',
+          error: 'Lead tenant cannot also be a joint tenant',
+        });
+      }
+
+      const tenantError = await validateLeaseTenants([
+        ...(updateData.tenantId ? [updateData.tenantId] : []),
+        ...(jointTenantIds ?? []),
+      ]);
+
+      if (tenantError) {
+        return res.status(tenantError.status).json({
+          success: false,
+          error: tenantError.error,
         });
       }
+
+      tenantsUpdate = {
+        deleteMany: {},
+        create: [
+          { tenantId: leadTenantId, isLead: true },
+          ...newJointTenantIds.map((tenantId) => ({ tenantId })),
+        ],
+      };
     }
 
     // If dates or status changed, validate no overlapping ACTIVE leases
     const newStatus = updateData.status || existingLease.status;
 
     // Only check overlap if the resulting status will be Active
-    if (newStatus === 'Active' && (updateData.startDate || updateData.endDate || updateData.status)) {
+    if (
+      newStatus === 'Active' &&
+      (updateData.startDate || updateData.endDate || updateData.status || updateData.unitId !== undefined)
+    ) {
       const startDate = updateData.startDate || existingLease.startDate;
       const endDate = updateData.endDate !== undefined ? updateData.endDate : existingLease.endDate;
       const propertyId = updateData.propertyId || existingLease.propertyId;
 
-      const overlapWhere: any = {
-        propertyId: propertyId,
-        status: 'Active',
-        id: { not: id }, // Exclude current lease from overlap check
-        OR: [],
-      };
-
-      // Overlap condition
-      if (endDate) {
-        overlapWhere.OR.push({
-          AND: [
-            {
-              OR: [
-                { endDate: { gte: startDate } },
-                { endDate: null },
-              ],
-            },
-            { startDate: { lte: endDate } },
-          ],
-        });
-      } else {
-        // Updated lease has no endDate (ongoing)
-        overlapWhere.OR.push({
-          OR: [
-            { endDate: { gte: startDate } },
-            { endDate: null },
-          ],
-        });
-      }
-
-      const overlappingLeases = await prisma.lease.findMany({
-        where: overlapWhere,
+      const overlappingLeases = await leaseStatusService.findOverlappingActiveLeases({
+        propertyId,
+        unitId,
+        startDate,
+        endDate,
+        excludeLeaseIds: [id], // Exclude current lease from overlap check
       });
 
       if (overlappingLeases.length > 0) {
@@ -360,7 +770,13 @@ router.put('/:id', requireAuth, requireWrite, async (req, res) => {
     // Update lease
     const lease = await prisma.lease.update({
       where: { id },
-      data: updateData,
+      data: {
+        ...updateData,
+        ...(tenantsUpdate ? { tenants: tenantsUpdate } : {}),
+      },
+      include: {
+        tenants: leaseTenantsInclude,
+      },
     });
 
     return res.json({
@@ -376,6 +792,366 @@ router.put('/:id', requireAuth, requireWrite, async (req, res) => {
   }
 });
 
+// GET /api/leases/:id/deposit - Deposit protection details, compliance and any deductions
+router.get('/:id/deposit', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid lease ID format',
+      });
+    }
+
+    const validationResult = DepositQueryParamsSchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const lease = await prisma.lease.findUnique({
+      where: { id },
+      include: {
+        depositDeductions: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!lease) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lease not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      deposit: {
+        leaseId: lease.id,
+        amount: lease.securityDepositAmount,
+        paidDate: lease.securityDepositPaidDate,
+        scheme: lease.depositScheme,
+        certificateRef: lease.depositCertificateRef,
+        protectedDate: lease.depositProtectedDate,
+        prescribedInfoServedAt: lease.prescribedInfoServedAt,
+        returnedDate: lease.depositReturnedDate,
+        returnedAmount: lease.depositReturnedAmount,
+        deductions: lease.depositDeductions,
+        compliance: depositService.getCompliance(lease, validationResult.data.as_of),
+      },
+    });
+  } catch (error) {
+    console.error('Get lease deposit error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while fetching lease deposit',
+    });
+  }
+});
+
+// POST /api/leases/:id/deposit/return - Return the deposit less itemised deductions (requires auth + write permission)
+// Deposits are held for the tenant, so only the deductions retained are posted as Security Deposit income
+router.post('/:id/deposit/return', requireAuth, requireWrite, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid lease ID format',
+      });
+    }
+
+    const validationResult = ReturnDepositSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const { returnDate, deductions } = validationResult.data;
+
+    const existingLease = await prisma.lease.findUnique({
+      where: { id },
+    });
+
+    if (!existingLease) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lease not found',
+      });
+    }
+
+    if (!existingLease.securityDepositPaidDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'No deposit has been received for this lease',
+      });
+    }
+
+    if (existingLease.depositReturnedDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'Deposit has already been returned',
+      });
+    }
+
+    const totalDeductions = Math.round(deductions.reduce((sum, d) => sum + d.amount, 0) * 100) / 100;
+
+    if (totalDeductions > existingLease.securityDepositAmount) {
+      return res.status(400).json({
+        success: false,
+        error: 'Deductions cannot exceed the deposit amount',
+      });
+    }
+
+    const lease = await prisma.$transaction(async (tx) => {
+      // Retained deductions are split between the owners like any other income
+      const ownerships = await tx.propertyOwnership.findMany({
+        where: { propertyId: existingLease.propertyId },
+      });
+
+      for (const deduction of deductions) {
+        const transaction = await tx.transaction.create({
+          data: {
+            propertyId: existingLease.propertyId,
+            unitId: existingLease.unitId,
+            leaseId: existingLease.id,
+            type: 'Income',
+            category: 'Security Deposit',
+            amount: deduction.amount,
+            transactionDate: returnDate,
+            description: `Deposit deduction: ${deduction.description}`,
+            ...(ownerships.length > 0
+              ? {
+                  splits: {
+                    create: ownerships.map((ownership) => ({
+                      userId: ownership.userId,
+                      percentage: ownership.ownershipPercentage,
+                      amount: (deduction.amount * ownership.ownershipPercentage) / 100,
+                    })),
+                  },
+                }
+              : {}),
+          },
+        });
+
+        await tx.depositDeduction.create({
+          data: {
+            leaseId: existingLease.id,
+            description: deduction.description,
+            amount: deduction.amount,
+            transactionId: transaction.id,
+          },
+        });
+      }
+
+      return tx.lease.update({
+        where: { id },
+        data: {
+          depositReturnedDate: returnDate,
+          depositReturnedAmount: Math.round((existingLease.securityDepositAmount - totalDeductions) * 100) / 100,
+        },
+        include: {
+          depositDeductions: {
+            include: { transaction: true },
+            orderBy: { createdAt: 'asc' },
+          },
+        },
+      });
+    });
+
+    return res.json({
+      success: true,
+      lease,
+    });
+  } catch (error) {
+    console.error('Return lease deposit error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while returning lease deposit',
+    });
+  }
+});
+
+// POST /api/leases/:id/renew - Create the successor lease and hand over to it (requires auth + write permission)
+router.post('/:id/renew', requireAuth, requireWrite, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid lease ID format',
+      });
+    }
+
+    const validationResult = RenewLeaseSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const renewData = validationResult.data;
+
+    const existingLease = await prisma.lease.findUnique({
+      where: { id },
+      include: { tenants: true, guarantors: true, renewal: true },
+    });
+
+    if (!existingLease) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lease not found',
+      });
+    }
+
+    if (existingLease.status !== 'Active' && existingLease.status !== 'Expired') {
+      return res.status(400).json({
+        success: false,
+        error: 'Only active or expired leases can be renewed',
+      });
+    }
+
+    if (existingLease.renewal) {
+      return res.status(400).json({
+        success: false,
+        error: 'Lease has already been renewed',
+      });
+    }
+
+    // The successor starts the day after the current lease ends unless told otherwise
+    let startDate = renewData.startDate;
+    if (!startDate) {
+      if (!existingLease.endDate) {
+        return res.status(400).json({
+          success: false,
+          error: 'Start date is required for leases without an end date',
+        });
+      }
+      startDate = new Date(existingLease.endDate.getTime() + DAY_MS);
+    }
+    const endDate = renewData.endDate ?? null;
+
+    // Rent is charged on the same cycle unless the renewal changes it
+    const rentFrequency = renewData.rentFrequency ?? existingLease.rentFrequency;
+    const rentDueDay = renewData.rentDueDay !== undefined ? renewData.rentDueDay : existingLease.rentDueDay;
+
+    if (!isValidRentDueDay(rentFrequency as RentFrequency, rentDueDay)) {
+      return res.status(400).json({
+        success: false,
+        error: RENT_DUE_DAY_WEEKDAY_MESSAGE,
+      });
+    }
+
+    if (startDate <= existingLease.startDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'Renewal must start after the current lease start date',
+      });
+    }
+
+    if (endDate && endDate < startDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'End date must be after or equal to start date',
+      });
+    }
+
+    const overlappingLeases = await leaseStatusService.findOverlappingActiveLeases({
+      propertyId: existingLease.propertyId,
+      unitId: existingLease.unitId,
+      startDate,
+      endDate,
+      excludeLeaseIds: [id],
+    });
+
+    if (overlappingLeases.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Cannot renew lease: overlapping active lease exists for this property',
+      });
+    }
+
+    // Close the current lease off the day before the successor starts
+    const previousEndDate =
+      existingLease.endDate && existingLease.endDate < startDate
+        ? existingLease.endDate
+        : new Date(startDate.getTime() - DAY_MS);
+
+    // A successor starting later waits as a Draft; the daily status run expires
+    // the current lease after its last day and then activates the successor
+    const startsLater = startDate > new Date();
+
+    const [previousLease, lease] = await prisma.$transaction([
+      prisma.lease.update({
+        where: { id },
+        data: {
+          status: startsLater ? existingLease.status : 'Expired',
+          endDate: previousEndDate,
+          // Changes scheduled past the new end date are superseded by the renewal rent
+          rentChanges: { deleteMany: { effectiveDate: { gt: previousEndDate } } },
+        },
+      }),
+      prisma.lease.create({
+        data: {
+          propertyId: existingLease.propertyId,
+          unitId: existingLease.unitId,
+          tenantId: existingLease.tenantId,
+          startDate,
+          endDate,
+          rentAmount: renewData.rentAmount,
+          rentFrequency,
+          rentDueDay,
+          securityDepositAmount: existingLease.securityDepositAmount,
+          securityDepositPaidDate: existingLease.securityDepositPaidDate,
+          // The deposit stays protected across the renewal
+          depositScheme: existingLease.depositScheme,
+          depositCertificateRef: existingLease.depositCertificateRef,
+          depositProtectedDate: existingLease.depositProtectedDate,
+          prescribedInfoServedAt: existingLease.prescribedInfoServedAt,
+          status: startsLater ? 'Draft' : 'Active',
+          previousLeaseId: id,
+          tenants: {
+            create: existingLease.tenants.map(({ tenantId, isLead }) => ({ tenantId, isLead })),
+          },
+          guarantors: {
+            create: existingLease.guarantors.map(({ guarantorId }) => ({ guarantorId })),
+          },
+        },
+        include: {
+          tenants: leaseTenantsInclude,
+          guarantors: leaseGuarantorsInclude,
+          previousLease: leaseRenewalSelect,
+        },
+      }),
+    ]);
+
+    return res.status(201).json({
+      success: true,
+      lease,
+      previousLease,
+    });
+  } catch (error) {
+    console.error('Renew lease error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while renewing lease',
+    });
+  }
+});
+
 // DELETE /api/leases/:id - Soft delete to 'Terminated' status (requires auth + write permission)
 router.delete('/:id', requireAuth, requireWrite, async (req, res) => {
   try {
@@ -7,14 +7,40 @@ import {
   UpdateMatchingRuleSchema,
   ReorderRulesSchema,
   TestRuleSchema,
+  RuleImpactPreviewSchema,
+  ApplyRuleImpactSchema,
+  DismissRuleSuggestionSchema,
 } from '../../../shared/validation/matchingRule.validation.js';
 import { z } from 'zod';
 import { evaluateRules } from '../services/ruleEvaluationEngine.js';
 import { reprocessPendingTransactions } from '../services/ruleReprocessing.js';
+import { transactionCategoryService } from '../services/transactionCategory.service.js';
+import { validateRuleAssignments } from '../services/matchingRules.js';
+import { ruleSuggestionService } from '../services/ruleSuggestions.service.js';
+import { ruleImpactService } from '../services/ruleImpact.service.js';
+import { ruleHitService } from '../services/ruleHits.service.js';
 import type { BankTransaction } from '@prisma/client';
 
 const router = Router();
 
+// Split presets are returned with their rules
+const ruleInclude = {
+  splits: { select: { userId: true, percentage: true } },
+} as const;
+
+/**
+ * Check a rule's category exists and matches the rule's type, when the rule sets one.
+ * Rules use INCOME/EXPENSE where categories use the transaction types.
+ */
+function validateRuleCategory(
+  category: string,
+  type: string | null,
+  options: { allowArchived?: boolean } = {}
+) {
+  const transactionType = type ? (type === 'INCOME' ? 'Income' : 'Expense') : null;
+  return transactionCategoryService.validateCategory(category, transactionType, options);
+}
+
 // GET /api/bank/accounts/:accountId/rules - List all rules for a bank account
 router.get('/accounts/:accountId/rules', requireAuth, requireAdmin, async (req, res) => {
   try {
@@ -45,6 +71,7 @@ router.get('/accounts/:accountId/rules', requireAuth, requireAdmin, async (req,
       where: {
         OR: [{ bankAccountId: accountId }, { bankAccountId: null }],
       },
+      include: ruleInclude,
       orderBy: { priority: 'asc' },
     });
 
@@ -61,6 +88,41 @@ router.get('/accounts/:accountId/rules', requireAuth, requireAdmin, async (req,
   }
 });
 
+// GET /api/bank/accounts/:accountId/rules/stats - Hit counts and shadowed rules
+router.get('/accounts/:accountId/rules/stats', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { accountId } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(accountId).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid bank account ID format',
+      });
+    }
+
+    const result = await ruleHitService.getStats(accountId);
+
+    if ('error' in result) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      stats: result,
+    });
+  } catch (error) {
+    console.error('Get matching rule stats error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while fetching matching rule stats',
+    });
+  }
+});
+
 // POST /api/bank/accounts/:accountId/rules - Create a new rule for a bank account
 router.post('/accounts/:accountId/rules', requireAuth, requireAdmin, async (req, res) => {
   try {
@@ -96,6 +158,32 @@ router.post('/accounts/:accountId/rules', requireAuth, requireAdmin, async (req,
       });
     }
 
+    const { type, category, splits, ...ruleData } = validationResult.data;
+
+    if (category) {
+      const categoryError = await validateRuleCategory(category, type ?? null);
+
+      if (categoryError) {
+        return res.status(categoryError.status).json({
+          success: false,
+          error: categoryError.error,
+        });
+      }
+    }
+
+    const assignmentError = await validateRuleAssignments(ruleData.propertyId, {
+      leaseId: ruleData.leaseId,
+      paidByUserId: ruleData.paidByUserId,
+      splits,
+    });
+
+    if (assignmentError) {
+      return res.status(assignmentError.status).json({
+        success: false,
+        error: assignmentError.error,
+      });
+    }
+
     // Get max priority for this account
     const maxPriorityRule = await prisma.matchingRule.findFirst({
       where: { bankAccountId: accountId },
@@ -109,8 +197,12 @@ router.post('/accounts/:accountId/rules', requireAuth, requireAdmin, async (req,
       data: {
         bankAccountId: accountId,
         priority: newPriority,
-        ...validationResult.data,
+        ...ruleData,
+        type,
+        category,
+        splits: splits ? { create: splits } : undefined,
       },
+      include: ruleInclude,
     });
 
     // Reprocess pending transactions for this account
@@ -134,6 +226,173 @@ router.post('/accounts/:accountId/rules', requireAuth, requireAdmin, async (req,
   }
 });
 
+// POST /api/bank/accounts/:accountId/rules/preview - Dry run a proposed rule set against the account's history
+router.post('/accounts/:accountId/rules/preview', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { accountId } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(accountId).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid bank account ID format',
+      });
+    }
+
+    const validationResult = RuleImpactPreviewSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const result = await ruleImpactService.preview(accountId, validationResult.data.rules);
+
+    if ('error' in result) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      preview: result,
+    });
+  } catch (error) {
+    console.error('Preview matching rules error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while previewing matching rules',
+    });
+  }
+});
+
+// POST /api/bank/accounts/:accountId/rules/preview/apply - Make selected changes from a preview
+router.post('/accounts/:accountId/rules/preview/apply', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { accountId } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(accountId).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid bank account ID format',
+      });
+    }
+
+    const validationResult = ApplyRuleImpactSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const { rules, bankTransactionIds } = validationResult.data;
+    const result = await ruleImpactService.apply(accountId, rules, bankTransactionIds, req.user!.id);
+
+    if ('error' in result) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      result,
+    });
+  } catch (error) {
+    console.error('Apply matching rule changes error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while applying matching rule changes',
+    });
+  }
+});
+
+// GET /api/bank/accounts/:accountId/rule-suggestions - Rules learned from manual approvals
+router.get('/accounts/:accountId/rule-suggestions', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { accountId } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(accountId).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid bank account ID format',
+      });
+    }
+
+    const result = await ruleSuggestionService.suggest(accountId);
+
+    if ('error' in result) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      suggestions: result,
+    });
+  } catch (error) {
+    console.error('Get rule suggestions error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while suggesting matching rules',
+    });
+  }
+});
+
+// POST /api/bank/accounts/:accountId/rule-suggestions/dismiss - Stop offering a suggestion
+router.post('/accounts/:accountId/rule-suggestions/dismiss', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { accountId } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(accountId).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid bank account ID format',
+      });
+    }
+
+    const validationResult = DismissRuleSuggestionSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const result = await ruleSuggestionService.dismiss(accountId, validationResult.data.key, req.user!.id);
+
+    if ('error' in result) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error('Dismiss rule suggestion error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while dismissing rule suggestion',
+    });
+  }
+});
+
 // GET /api/bank/rules/:id - Get a single rule by ID
 router.get('/rules/:id', requireAuth, requireAdmin, async (req, res) => {
   try {
@@ -149,6 +408,7 @@ router.get('/rules/:id', requireAuth, requireAdmin, async (req, res) => {
 
     const rule = await prisma.matchingRule.findUnique({
       where: { id },
+      include: ruleInclude,
     });
 
     if (!rule) {
@@ -187,6 +447,7 @@ router.put('/rules/:id', requireAuth, requireAdmin, async (req, res) => {
     // Check if rule exists
     const existingRule = await prisma.matchingRule.findUnique({
       where: { id },
+      include: ruleInclude,
     });
 
     if (!existingRule) {
@@ -218,12 +479,53 @@ router.put('/rules/:id', requireAuth, requireAdmin, async (req, res) => {
     }
 
     // Extract id from validated data and use rest for update
-    const { id: _, ...updateData } = validationResult.data;
+    const { id: _, splits, ...updateData } = validationResult.data;
+
+    // Re-check the category when it or the type changes; a rule may keep an archived category
+    const category = updateData.category !== undefined ? updateData.category : existingRule.category;
+    const type = updateData.type !== undefined ? updateData.type : existingRule.type;
+
+    if (category && (updateData.category !== undefined || updateData.type !== undefined)) {
+      const categoryError = await validateRuleCategory(category, type, {
+        allowArchived: category === existingRule.category,
+      });
+
+      if (categoryError) {
+        return res.status(categoryError.status).json({
+          success: false,
+          error: categoryError.error,
+        });
+      }
+    }
 
-    // Update the rule
+    // Re-check the lease, payer and splits against the property the rule will have
+    const assignmentError = await validateRuleAssignments(
+      updateData.propertyId !== undefined ? updateData.propertyId : existingRule.propertyId,
+      {
+        leaseId: updateData.leaseId !== undefined ? updateData.leaseId : existingRule.leaseId,
+        paidByUserId:
+          updateData.paidByUserId !== undefined ? updateData.paidByUserId : existingRule.paidByUserId,
+        splits: splits !== undefined ? splits : existingRule.splits.length > 0 ? existingRule.splits : null,
+      }
+    );
+
+    if (assignmentError) {
+      return res.status(assignmentError.status).json({
+        success: false,
+        error: assignmentError.error,
+      });
+    }
+
+    // Update the rule, replacing the split preset when one is given (null clears it)
     const rule = await prisma.matchingRule.update({
       where: { id },
-      data: updateData,
+      data: {
+        ...updateData,
+        ...(splits !== undefined
+          ? { splits: { deleteMany: {}, ...(splits ? { create: splits } : {}) } }
+          : {}),
+      },
+      include: ruleInclude,
     });
 
     // Reprocess pending transactions for this account
@@ -382,6 +684,7 @@ router.post('/rules/:id/test', requireAuth, requireAdmin, async (req, res) => {
     // Check if rule exists
     const rule = await prisma.matchingRule.findUnique({
       where: { id },
+      include: ruleInclude,
     });
 
     if (!rule) {
@@ -412,10 +715,10 @@ router.post('/rules/:id/test', requireAuth, requireAdmin, async (req, res) => {
       merchant: validationResult.data.merchant || null,
       reference: validationResult.data.reference || null,
       currency: 'GBP',
-      transactionDate: new Date(),
+      transactionDate: validationResult.data.transactionDate ?? new Date(),
       settledDate: null,
       importedAt: new Date(),
-      category: null,
+      category: validationResult.data.category || null,
       transactionId: null,
       pendingTransactionId: null,
     };
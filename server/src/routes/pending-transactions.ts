@@ -3,22 +3,33 @@ import { requireAuth } from '../middleware/auth.js';
 import { requireAdmin } from '../middleware/permissions.js';
 import prisma from '../db/client.js';
 import { z } from 'zod';
-import { bulkIdsSchema, bulkUpdateSchema } from '../../../shared/validation/index.js';
+import {
+  bulkIdsSchema,
+  bulkUpdateSchema,
+  linkPendingTransactionSchema,
+  splitPendingTransactionSchema,
+} from '../../../shared/validation/index.js';
+import { transactionCategoryService } from '../services/transactionCategory.service.js';
+import { transactionMatchingService } from '../services/transactionMatching.service.js';
+import { bankTransactionSplitService } from '../services/bankTransactionSplit.service.js';
+import { duplicateReviewService } from '../services/duplicateReview.service.js';
 
 const router = Router();
 
-// GET /api/pending-transactions/count - Get count of unreviewed pending transactions
+// GET /api/pending-transactions/count - Get count of unreviewed pending transactions and possible duplicates
 router.get('/count', requireAuth, requireAdmin, async (_req, res) => {
   try {
-    const count = await prisma.pendingTransaction.count({
+    const pendingCount = await prisma.pendingTransaction.count({
       where: {
         reviewedAt: null,
       },
     });
+    const possibleDuplicates = await duplicateReviewService.count();
 
     return res.json({
       success: true,
-      count,
+      count: pendingCount + possibleDuplicates,
+      possibleDuplicates,
     });
   } catch (error) {
     console.error('Get pending transactions count error:', error);
@@ -29,6 +40,98 @@ router.get('/count', requireAuth, requireAdmin, async (_req, res) => {
   }
 });
 
+// GET /api/pending-transactions/possible-duplicates - Bank transactions held as possible duplicates
+router.get('/possible-duplicates', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { bank_account_id } = req.query;
+
+    const possibleDuplicates = await duplicateReviewService.list(
+      bank_account_id && typeof bank_account_id === 'string' ? bank_account_id : undefined
+    );
+
+    return res.json({
+      success: true,
+      possibleDuplicates,
+    });
+  } catch (error) {
+    console.error('Get possible duplicates error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while fetching possible duplicates',
+    });
+  }
+});
+
+// POST /api/pending-transactions/possible-duplicates/:id/keep - Keep a possible duplicate and post it through the rules
+router.post('/possible-duplicates/:id/keep', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid bank transaction ID format',
+      });
+    }
+
+    const result = await duplicateReviewService.keep(id);
+
+    if ('error' in result) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      bankTransaction: result,
+      message: 'Transaction kept',
+    });
+  } catch (error) {
+    console.error('Keep possible duplicate error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while keeping possible duplicate',
+    });
+  }
+});
+
+// POST /api/pending-transactions/possible-duplicates/:id/discard - Discard a possible duplicate
+router.post('/possible-duplicates/:id/discard', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid bank transaction ID format',
+      });
+    }
+
+    const result = await duplicateReviewService.discard(id);
+
+    if ('error' in result) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      bankTransaction: result,
+      message: 'Duplicate discarded',
+    });
+  } catch (error) {
+    console.error('Discard possible duplicate error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while discarding possible duplicate',
+    });
+  }
+});
+
 // POST /api/pending-transactions/bulk/approve - Bulk approve pending transactions
 router.post('/bulk/approve', requireAuth, requireAdmin, async (req, res) => {
   try {
@@ -68,6 +171,9 @@ router.post('/bulk/approve', requireAuth, requireAdmin, async (req, res) => {
       if (pt.reviewedAt) {
         errors.push(`Transaction ${pt.id} has already been reviewed`);
       }
+      if (pt.bankTransaction.reversedAt) {
+        errors.push(`Transaction ${pt.id} was reversed by the bank`);
+      }
       if (!pt.propertyId) {
         errors.push(`Transaction ${pt.id} is missing propertyId`);
       }
@@ -212,6 +318,18 @@ router.post('/bulk/update', requireAuth, requireAdmin, async (req, res) => {
       }
     }
 
+    // Validate category exists, is active and matches the type if one is being set
+    if (category !== undefined && category !== null) {
+      const categoryError = await transactionCategoryService.validateCategory(category, type ?? null);
+
+      if (categoryError) {
+        return res.status(categoryError.status).json({
+          success: false,
+          error: categoryError.error,
+        });
+      }
+    }
+
     // Build update data
     const updateData: {
       propertyId?: string | null;
@@ -309,6 +427,10 @@ router.get('/', requireAuth, requireAdmin, async (req, res) => {
       where.reviewedAt = null;
     } else if (review_status === 'reviewed') {
       where.reviewedAt = { not: null };
+    } else if (review_status === 'flagged') {
+      // Reviewed items the bank has since changed or reversed
+      where.reviewedAt = { not: null };
+      where.flaggedAt = { not: null };
     } else {
       // Default: show only pending (unreviewed)
       where.reviewedAt = null;
@@ -341,6 +463,18 @@ router.get('/', requireAuth, requireAdmin, async (req, res) => {
                 provider: true,
               },
             },
+            ledgerTransactions: {
+              select: {
+                id: true,
+                propertyId: true,
+                type: true,
+                category: true,
+                amount: true,
+                description: true,
+                property: { select: { name: true } },
+              },
+              orderBy: { createdAt: 'asc' },
+            },
           },
         },
       },
@@ -363,6 +497,8 @@ router.get('/', requireAuth, requireAdmin, async (req, res) => {
       currency: pt.bankTransaction.currency,
       reviewedAt: pt.reviewedAt,
       reviewedBy: pt.reviewedBy,
+      flaggedAt: pt.flaggedAt,
+      flagReason: pt.flagReason,
       createdAt: pt.createdAt,
       bankAccount: pt.bankTransaction.bankAccount,
       bankTransaction: {
@@ -377,6 +513,13 @@ router.get('/', requireAuth, requireAdmin, async (req, res) => {
         category: pt.bankTransaction.category,
         transactionDate: pt.bankTransaction.transactionDate,
         settledDate: pt.bankTransaction.settledDate,
+        declineReason: pt.bankTransaction.declineReason,
+        reversedAt: pt.bankTransaction.reversedAt,
+        // What the bank transaction was posted as; several when it was split
+        ledgerTransactions: pt.bankTransaction.ledgerTransactions.map(({ property, ...transaction }) => ({
+          ...transaction,
+          propertyName: property.name,
+        })),
       },
     }));
 
@@ -449,6 +592,22 @@ router.patch('/:id', requireAuth, requireAdmin, async (req, res) => {
       }
     }
 
+    // Validate category exists, is active and matches the type if one is being set
+    if (category) {
+      const categoryError = await transactionCategoryService.validateCategory(
+        category,
+        type ?? existingPending.type,
+        { allowArchived: category === existingPending.category }
+      );
+
+      if (categoryError) {
+        return res.status(categoryError.status).json({
+          success: false,
+          error: categoryError.error,
+        });
+      }
+    }
+
     // Build update data
     const updateData: any = {};
     if (propertyId !== undefined) updateData.propertyId = propertyId;
@@ -491,6 +650,8 @@ router.patch('/:id', requireAuth, requireAdmin, async (req, res) => {
         currency: updatedPending.bankTransaction.currency,
         reviewedAt: updatedPending.reviewedAt,
         reviewedBy: updatedPending.reviewedBy,
+        flaggedAt: updatedPending.flaggedAt,
+        flagReason: updatedPending.flagReason,
         createdAt: updatedPending.createdAt,
         bankAccount: updatedPending.bankTransaction.bankAccount,
       },
@@ -504,6 +665,170 @@ router.patch('/:id', requireAuth, requireAdmin, async (req, res) => {
   }
 });
 
+// POST /api/pending-transactions/:id/resolve-flag - Clear a re-review flag set by a bank update
+router.post('/:id/resolve-flag', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const pendingTx = await prisma.pendingTransaction.findUnique({
+      where: { id },
+    });
+
+    if (!pendingTx) {
+      return res.status(404).json({
+        success: false,
+        error: 'Pending transaction not found',
+      });
+    }
+
+    if (!pendingTx.flaggedAt) {
+      return res.status(400).json({
+        success: false,
+        error: 'Pending transaction is not flagged for re-review',
+      });
+    }
+
+    const updatedPending = await prisma.pendingTransaction.update({
+      where: { id },
+      data: {
+        flaggedAt: null,
+        flagReason: null,
+      },
+    });
+
+    return res.json({
+      success: true,
+      pendingTransaction: updatedPending,
+    });
+  } catch (error) {
+    console.error('Resolve pending transaction flag error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while resolving pending transaction flag',
+    });
+  }
+});
+
+// GET /api/pending-transactions/:id/matches - Manual transactions this may duplicate
+router.get('/:id/matches', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid pending transaction ID format',
+      });
+    }
+
+    const result = await transactionMatchingService.findCandidatesForPending(id);
+
+    if ('error' in result) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      candidates: result,
+    });
+  } catch (error) {
+    console.error('Get pending transaction matches error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while finding matching transactions',
+    });
+  }
+});
+
+// POST /api/pending-transactions/:id/link - Link to an existing manual transaction instead of creating one
+router.post('/:id/link', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid pending transaction ID format',
+      });
+    }
+
+    const validation = linkPendingTransactionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.issues[0].message,
+      });
+    }
+
+    const result = await transactionMatchingService.linkToExisting(id, validation.data.transactionId, req.user!.id);
+
+    if ('error' in result) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      transaction: result,
+      message: 'Bank transaction linked to existing transaction',
+    });
+  } catch (error) {
+    console.error('Link pending transaction error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while linking pending transaction',
+    });
+  }
+});
+
+// POST /api/pending-transactions/:id/split - Approve as several transactions that add up to the bank amount
+router.post('/:id/split', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid pending transaction ID format',
+      });
+    }
+
+    const validation = splitPendingTransactionSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        success: false,
+        error: validation.error.issues[0].message,
+      });
+    }
+
+    const result = await bankTransactionSplitService.approveSplit(id, validation.data.parts, req.user!.id);
+
+    if ('error' in result) {
+      return res.status(result.status).json({
+        success: false,
+        error: result.error,
+      });
+    }
+
+    return res.json({
+      success: true,
+      transactions: result,
+      message: `Transaction split into ${result.length} transactions`,
+    });
+  } catch (error) {
+    console.error('Split pending transaction error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while splitting pending transaction',
+    });
+  }
+});
+
 // POST /api/pending-transactions/:id/approve - Approve and create transaction
 router.post('/:id/approve', requireAuth, requireAdmin, async (req, res) => {
   try {
@@ -541,6 +866,14 @@ router.post('/:id/approve', requireAuth, requireAdmin, async (req, res) => {
       });
     }
 
+    // Declined or reversed payments never moved money, so they don't reach the ledger
+    if (pendingTx.bankTransaction.reversedAt) {
+      return res.status(400).json({
+        success: false,
+        error: 'The bank reversed this transaction, so it cannot be approved',
+      });
+    }
+
     // Validate required fields are present
     if (!pendingTx.propertyId) {
       return res.status(400).json({
@@ -3,6 +3,12 @@ import { requireAuth } from '../middleware/auth.js';
 import { requireWrite } from '../middleware/permissions.js';
 import prisma from '../db/client.js';
 import { CreatePropertySchema, UpdatePropertySchema, PropertyQueryParamsSchema } from '../../../shared/validation/property.validation.js';
+import {
+  CreateUnitSchema,
+  UpdateUnitSchema,
+  OccupancyQueryParamsSchema,
+} from '../../../shared/validation/unit.validation.js';
+import { unitService } from '../services/unit.service.js';
 import { z } from 'zod';
 
 const router = Router();
@@ -74,6 +80,9 @@ router.get('/:id', requireAuth, async (req, res) => {
 
     const property = await prisma.property.findUnique({
       where: { id },
+      include: {
+        units: { orderBy: { name: 'asc' } },
+      },
     });
 
     if (!property) {
@@ -96,6 +105,286 @@ router.get('/:id', requireAuth, async (req, res) => {
   }
 });
 
+// GET /api/properties/:id/occupancy - Occupancy roll-up across units and whole-property lets
+router.get('/:id/occupancy', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid property ID format',
+      });
+    }
+
+    const validationResult = OccupancyQueryParamsSchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const property = await prisma.property.findUnique({
+      where: { id },
+    });
+
+    if (!property) {
+      return res.status(404).json({
+        success: false,
+        error: 'Property not found',
+      });
+    }
+
+    const occupancy = await unitService.getPropertyOccupancy(id, validationResult.data.as_of ?? new Date());
+
+    return res.json({
+      success: true,
+      occupancy,
+    });
+  } catch (error) {
+    console.error('Get property occupancy error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while fetching property occupancy',
+    });
+  }
+});
+
+// GET /api/properties/:id/units - List units within a property
+router.get('/:id/units', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid property ID format',
+      });
+    }
+
+    const property = await prisma.property.findUnique({
+      where: { id },
+    });
+
+    if (!property) {
+      return res.status(404).json({
+        success: false,
+        error: 'Property not found',
+      });
+    }
+
+    const units = await prisma.unit.findMany({
+      where: { propertyId: id },
+      orderBy: { name: 'asc' },
+    });
+
+    return res.json({
+      success: true,
+      units,
+    });
+  } catch (error) {
+    console.error('Get units error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while fetching units',
+    });
+  }
+});
+
+// POST /api/properties/:id/units - Create unit (requires auth + write permission)
+router.post('/:id/units', requireAuth, requireWrite, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid property ID format',
+      });
+    }
+
+    const validationResult = CreateUnitSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const unitData = validationResult.data;
+
+    const property = await prisma.property.findUnique({
+      where: { id },
+    });
+
+    if (!property) {
+      return res.status(404).json({
+        success: false,
+        error: 'Property not found',
+      });
+    }
+
+    // Unit names are unique within a property
+    const existingUnit = await prisma.unit.findUnique({
+      where: { propertyId_name: { propertyId: id, name: unitData.name } },
+    });
+
+    if (existingUnit) {
+      return res.status(400).json({
+        success: false,
+        error: 'A unit with this name already exists for this property',
+      });
+    }
+
+    const unit = await prisma.unit.create({
+      data: {
+        ...unitData,
+        propertyId: id,
+      },
+    });
+
+    return res.status(201).json({
+      success: true,
+      unit,
+    });
+  } catch (error) {
+    console.error('Create unit error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while creating unit',
+    });
+  }
+});
+
+// PUT /api/properties/:id/units/:unitId - Update unit (requires auth + write permission)
+router.put('/:id/units/:unitId', requireAuth, requireWrite, async (req, res) => {
+  try {
+    const { id, unitId } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success || !z.string().uuid().safeParse(unitId).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid property or unit ID format',
+      });
+    }
+
+    const validationResult = UpdateUnitSchema.safeParse({
+      id: unitId,
+      ...req.body,
+    });
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const existingUnit = await prisma.unit.findUnique({
+      where: { id: unitId },
+    });
+
+    if (!existingUnit || existingUnit.propertyId !== id) {
+      return res.status(404).json({
+        success: false,
+        error: 'Unit not found',
+      });
+    }
+
+    // Extract id from validated data and use rest for update
+    const { id: _, ...updateData } = validationResult.data;
+
+    if (updateData.name && updateData.name !== existingUnit.name) {
+      const duplicateUnit = await prisma.unit.findUnique({
+        where: { propertyId_name: { propertyId: id, name: updateData.name } },
+      });
+
+      if (duplicateUnit) {
+        return res.status(400).json({
+          success: false,
+          error: 'A unit with this name already exists for this property',
+        });
+      }
+    }
+
+    const unit = await prisma.unit.update({
+      where: { id: unitId },
+      data: updateData,
+    });
+
+    return res.json({
+      success: true,
+      unit,
+    });
+  } catch (error) {
+    console.error('Update unit error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while updating unit',
+    });
+  }
+});
+
+// DELETE /api/properties/:id/units/:unitId - Delete unit (requires auth + write permission)
+// Units with an active lease cannot be deleted; past leases, transactions and events are kept against the property
+router.delete('/:id/units/:unitId', requireAuth, requireWrite, async (req, res) => {
+  try {
+    const { id, unitId } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success || !z.string().uuid().safeParse(unitId).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid property or unit ID format',
+      });
+    }
+
+    const existingUnit = await prisma.unit.findUnique({
+      where: { id: unitId },
+    });
+
+    if (!existingUnit || existingUnit.propertyId !== id) {
+      return res.status(404).json({
+        success: false,
+        error: 'Unit not found',
+      });
+    }
+
+    const activeLeaseCount = await prisma.lease.count({
+      where: { unitId, status: 'Active' },
+    });
+
+    if (activeLeaseCount > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Cannot delete unit with an active lease',
+      });
+    }
+
+    const unit = await prisma.unit.delete({
+      where: { id: unitId },
+    });
+
+    return res.json({
+      success: true,
+      unit,
+    });
+  } catch (error) {
+    console.error('Delete unit error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while deleting unit',
+    });
+  }
+});
+
 // POST /api/properties - Create property (requires auth + write permission)
 router.post('/', requireAuth, requireWrite, async (req, res) => {
   try {
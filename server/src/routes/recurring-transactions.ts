@@ -0,0 +1,374 @@
+import { Router } from 'express';
+import { Prisma } from '@prisma/client';
+import { requireAuth } from '../middleware/auth.js';
+import { requireWrite } from '../middleware/permissions.js';
+import prisma from '../db/client.js';
+import {
+  CreateRecurringTransactionSchema,
+  UpdateRecurringTransactionSchema,
+  RecurringTransactionQueryParamsSchema,
+} from '../../../shared/validation/recurringTransaction.validation.js';
+import { z } from 'zod';
+import { transactionCategoryService } from '../services/transactionCategory.service.js';
+import {
+  recurringTransactionService,
+  recurringTransactionInclude,
+} from '../services/recurringTransaction.service.js';
+
+const router = Router();
+
+/**
+ * Check split users and the payer are owners of the property, as they must be
+ * for the transactions the template creates. Returns an error response body,
+ * or null when valid.
+ */
+async function validateTemplateOwners(
+  propertyId: string,
+  splits: Array<{ userId: string }> | null | undefined,
+  paidByUserId: string | null | undefined
+): Promise<{ status: number; error: string } | null> {
+  const ownerships = await prisma.propertyOwnership.findMany({
+    where: { propertyId },
+  });
+  const ownerIdSet = new Set(ownerships.map((o) => o.userId));
+
+  for (const split of splits ?? []) {
+    if (!ownerIdSet.has(split.userId)) {
+      return { status: 400, error: `User ${split.userId} is not a property owner` };
+    }
+  }
+
+  if (paidByUserId && !ownerIdSet.has(paidByUserId)) {
+    return { status: 400, error: 'paidByUserId must be a property owner' };
+  }
+
+  return null;
+}
+
+// GET /api/recurring-transactions - List templates, soonest next run first
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    // Validate query parameters
+    const validationResult = RecurringTransactionQueryParamsSchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const { property_id } = validationResult.data;
+
+    // Build filter object
+    const where: Prisma.RecurringTransactionWhereInput = {};
+
+    if (property_id) {
+      where.propertyId = property_id;
+    }
+
+    const recurringTransactions = await prisma.recurringTransaction.findMany({
+      where,
+      include: recurringTransactionInclude,
+      orderBy: [{ nextRunDate: 'asc' }, { description: 'asc' }],
+    });
+
+    return res.json({
+      success: true,
+      recurringTransactions,
+    });
+  } catch (error) {
+    console.error('Get recurring transactions error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while fetching recurring transactions',
+    });
+  }
+});
+
+// GET /api/recurring-transactions/:id - Get single template
+router.get('/:id', requireAuth, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid recurring transaction ID format',
+      });
+    }
+
+    const recurringTransaction = await prisma.recurringTransaction.findUnique({
+      where: { id },
+      include: recurringTransactionInclude,
+    });
+
+    if (!recurringTransaction) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recurring transaction not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      recurringTransaction,
+    });
+  } catch (error) {
+    console.error('Get recurring transaction error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while fetching recurring transaction',
+    });
+  }
+});
+
+// POST /api/recurring-transactions - Create template (requires auth + write permission)
+router.post('/', requireAuth, requireWrite, async (req, res) => {
+  try {
+    // Validate request body
+    const validationResult = CreateRecurringTransactionSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const templateData = validationResult.data;
+
+    // Check if property exists
+    const property = await prisma.property.findUnique({
+      where: { id: templateData.propertyId },
+    });
+
+    if (!property) {
+      return res.status(404).json({
+        success: false,
+        error: 'Property not found',
+      });
+    }
+
+    const categoryError = await transactionCategoryService.validateCategory(
+      templateData.category,
+      templateData.type
+    );
+
+    if (categoryError) {
+      return res.status(categoryError.status).json({
+        success: false,
+        error: categoryError.error,
+      });
+    }
+
+    const ownerError = await validateTemplateOwners(
+      templateData.propertyId,
+      templateData.splits,
+      templateData.paidByUserId
+    );
+
+    if (ownerError) {
+      return res.status(ownerError.status).json({
+        success: false,
+        error: ownerError.error,
+      });
+    }
+
+    const recurringTransaction = await recurringTransactionService.createTemplate(templateData);
+
+    return res.status(201).json({
+      success: true,
+      recurringTransaction,
+    });
+  } catch (error) {
+    console.error('Create recurring transaction error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while creating recurring transaction',
+    });
+  }
+});
+
+// PUT /api/recurring-transactions/:id - Update, pause or resume template (requires auth + write permission)
+router.put('/:id', requireAuth, requireWrite, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid recurring transaction ID format',
+      });
+    }
+
+    // Validate request body with id
+    const validationResult = UpdateRecurringTransactionSchema.safeParse({
+      id,
+      ...req.body,
+    });
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    // Check if template exists
+    const existingTemplate = await prisma.recurringTransaction.findUnique({
+      where: { id },
+    });
+
+    if (!existingTemplate) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recurring transaction not found',
+      });
+    }
+
+    // Extract id from validated data and use rest for update
+    const { id: _, ...updateData } = validationResult.data;
+
+    // Check dates against the stored values when only one side changes
+    const startDate = updateData.startDate ?? existingTemplate.startDate;
+    const endDate = updateData.endDate === undefined ? existingTemplate.endDate : updateData.endDate;
+
+    if (endDate && startDate > endDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'Start date must be before or equal to end date',
+      });
+    }
+
+    if (updateData.category !== undefined || updateData.type !== undefined) {
+      const category = updateData.category ?? existingTemplate.category;
+      const categoryError = await transactionCategoryService.validateCategory(
+        category,
+        updateData.type ?? existingTemplate.type,
+        { allowArchived: category === existingTemplate.category }
+      );
+
+      if (categoryError) {
+        return res.status(categoryError.status).json({
+          success: false,
+          error: categoryError.error,
+        });
+      }
+    }
+
+    const ownerError = await validateTemplateOwners(
+      existingTemplate.propertyId,
+      updateData.splits,
+      updateData.paidByUserId
+    );
+
+    if (ownerError) {
+      return res.status(ownerError.status).json({
+        success: false,
+        error: ownerError.error,
+      });
+    }
+
+    const recurringTransaction = await recurringTransactionService.updateTemplate(existingTemplate, updateData);
+
+    return res.json({
+      success: true,
+      recurringTransaction,
+    });
+  } catch (error) {
+    console.error('Update recurring transaction error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while updating recurring transaction',
+    });
+  }
+});
+
+// POST /api/recurring-transactions/:id/skip - Skip the next run (requires auth + write permission)
+router.post('/:id/skip', requireAuth, requireWrite, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid recurring transaction ID format',
+      });
+    }
+
+    // Check if template exists
+    const existingTemplate = await prisma.recurringTransaction.findUnique({
+      where: { id },
+    });
+
+    if (!existingTemplate) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recurring transaction not found',
+      });
+    }
+
+    const recurringTransaction = await recurringTransactionService.skipNext(existingTemplate);
+
+    return res.json({
+      success: true,
+      recurringTransaction,
+    });
+  } catch (error) {
+    console.error('Skip recurring transaction error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while skipping recurring transaction',
+    });
+  }
+});
+
+// DELETE /api/recurring-transactions/:id - Delete template (requires auth + write permission)
+// Transactions already created are kept; they lose the link to the template
+router.delete('/:id', requireAuth, requireWrite, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid recurring transaction ID format',
+      });
+    }
+
+    // Check if template exists
+    const existingTemplate = await prisma.recurringTransaction.findUnique({
+      where: { id },
+    });
+
+    if (!existingTemplate) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recurring transaction not found',
+      });
+    }
+
+    // Splits cascade automatically via onDelete: Cascade
+    const recurringTransaction = await prisma.recurringTransaction.delete({
+      where: { id },
+    });
+
+    return res.json({
+      success: true,
+      recurringTransaction,
+    });
+  } catch (error) {
+    console.error('Delete recurring transaction error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while deleting recurring transaction',
+    });
+  }
+});
+
+export default router;
@@ -1,8 +1,10 @@
 import express from 'express';
 import { requireAuth } from '../middleware/auth.js';
 import { reportService } from '../services/report.service.js';
+import { depositService } from '../services/deposit.service.js';
 import prisma from '../db/client.js';
 import { z } from 'zod';
+import { AsOfReportQueryParamsSchema } from '../../../shared/validation/report.validation.js';
 
 const router = express.Router();
 
@@ -74,6 +76,94 @@ router.get('/reports/profit-loss/users/:userId', requireAuth, async (req, res) =
   }
 });
 
+// Get arrears report across all live leases (readable by any authenticated user)
+router.get('/reports/arrears', requireAuth, async (req, res) => {
+  try {
+    const validationResult = AsOfReportQueryParamsSchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const { as_of: asOf, propertyId } = validationResult.data;
+    const report = await reportService.generateArrearsReport(asOf ?? new Date(), propertyId);
+
+    return res.json({ success: true, report });
+  } catch (error) {
+    console.error('Get arrears report error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get aged arrears (0-30 / 31-60 / 61-90 / 90+ days) grouped by property and tenant
+router.get('/reports/arrears/aging', requireAuth, async (req, res) => {
+  try {
+    const validationResult = AsOfReportQueryParamsSchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const { as_of: asOf, propertyId } = validationResult.data;
+    const report = await reportService.generateArrearsAgingReport(asOf ?? new Date(), propertyId);
+
+    return res.json({ success: true, report });
+  } catch (error) {
+    console.error('Get arrears aging report error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get rent roll (contracted rent on active leases, annualised across rent frequencies)
+router.get('/reports/rent-roll', requireAuth, async (req, res) => {
+  try {
+    const validationResult = AsOfReportQueryParamsSchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const { as_of: asOf, propertyId } = validationResult.data;
+    const report = await reportService.generateRentRollReport(asOf ?? new Date(), propertyId);
+
+    return res.json({ success: true, report });
+  } catch (error) {
+    console.error('Get rent roll report error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Get deposit protection compliance (30-day protection and prescribed information deadline) per lease
+router.get('/reports/deposit-compliance', requireAuth, async (req, res) => {
+  try {
+    const validationResult = AsOfReportQueryParamsSchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const { as_of: asOf, propertyId } = validationResult.data;
+    const report = await depositService.generateComplianceReport(asOf ?? new Date(), propertyId);
+
+    return res.json({ success: true, report });
+  } catch (error) {
+    console.error('Get deposit compliance report error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // Get all unique property owners (for owner selector dropdown)
 // Non-admin users only see themselves; admin users see all owners
 router.get('/reports/owners', requireAuth, async (req, res) => {
@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { Prisma } from '@prisma/client';
 import { requireAuth } from '../middleware/auth.js';
 import { requireWrite } from '../middleware/permissions.js';
 import prisma from '../db/client.js';
@@ -7,6 +8,12 @@ import { z } from 'zod';
 
 const router = Router();
 
+// Guarantors for a tenant, with the leases they have signed for
+const tenantGuarantorsInclude = {
+  include: { leases: { select: { leaseId: true } } },
+  orderBy: { createdAt: 'asc' },
+} satisfies Prisma.Tenant$guarantorsArgs;
+
 // GET /api/tenants - List tenants with filtering
 router.get('/', requireAuth, async (req, res) => {
   try {
@@ -39,6 +46,7 @@ router.get('/', requireAuth, async (req, res) => {
 
     const tenants = await prisma.tenant.findMany({
       where,
+      include: { guarantors: tenantGuarantorsInclude },
       orderBy: { createdAt: 'desc' },
     });
 
@@ -70,6 +78,7 @@ router.get('/:id', requireAuth, async (req, res) => {
 
     const tenant = await prisma.tenant.findUnique({
       where: { id },
+      include: { guarantors: tenantGuarantorsInclude },
     });
 
     if (!tenant) {
@@ -231,6 +240,18 @@ router.delete('/:id', requireAuth, requireWrite, async (req, res) => {
         },
       });
 
+      // Guarantors cascade with the tenant, but their documents are polymorphic too
+      const guarantors = await prisma.guarantor.findMany({
+        where: { tenantId: id },
+        select: { id: true },
+      });
+      await prisma.document.deleteMany({
+        where: {
+          entityType: 'Guarantor',
+          entityId: { in: guarantors.map((g) => g.id) },
+        },
+      });
+
       tenant = await prisma.tenant.delete({
         where: { id },
       });
@@ -286,9 +307,9 @@ router.get('/:id/lease-history', requireAuth, async (req, res) => {
       });
     }
 
-    // Build filter for lease date ranges
+    // Build filter for lease date ranges, covering leases where the tenant is lead or a joint tenant
     const where: any = {
-      tenantId: id,
+      OR: [{ tenantId: id }, { tenants: { some: { tenantId: id } } }],
     };
 
     // Apply date filtering: leases that overlap with the date range
@@ -316,6 +337,31 @@ router.get('/:id/lease-history', requireAuth, async (req, res) => {
       where,
       include: {
         property: true,
+        tenants: {
+          include: { tenant: true },
+          orderBy: [{ isLead: 'desc' }, { createdAt: 'asc' }],
+        },
+        // Neighbouring leases in the renewal chain, to show rent changes over time
+        previousLease: {
+          select: {
+            id: true,
+            startDate: true,
+            endDate: true,
+            rentAmount: true,
+            rentFrequency: true,
+            status: true,
+          },
+        },
+        renewal: {
+          select: {
+            id: true,
+            startDate: true,
+            endDate: true,
+            rentAmount: true,
+            rentFrequency: true,
+            status: true,
+          },
+        },
       },
       orderBy: { startDate: 'desc' },
     });
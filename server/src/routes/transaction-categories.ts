@@ -0,0 +1,200 @@
+import { Router } from 'express';
+import { requireAuth } from '../middleware/auth.js';
+import { requireAdmin } from '../middleware/permissions.js';
+import prisma from '../db/client.js';
+import {
+  CreateTransactionCategorySchema,
+  UpdateTransactionCategorySchema,
+  TransactionCategoryQueryParamsSchema,
+} from '../../../shared/validation/transactionCategory.validation.js';
+import { z } from 'zod';
+import {
+  transactionCategoryService,
+  PROTECTED_CATEGORIES,
+} from '../services/transactionCategory.service.js';
+
+const router = Router();
+
+// GET /api/transaction-categories - List categories (archived ones only on request)
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    // Validate query parameters
+    const validationResult = TransactionCategoryQueryParamsSchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const { type, include_archived } = validationResult.data;
+
+    const categories = await transactionCategoryService.listCategories({
+      type,
+      includeArchived: include_archived,
+    });
+
+    return res.json({
+      success: true,
+      categories,
+    });
+  } catch (error) {
+    console.error('Get transaction categories error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while fetching transaction categories',
+    });
+  }
+});
+
+// POST /api/transaction-categories - Create category (requires admin)
+router.post('/', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    // Validate request body
+    const validationResult = CreateTransactionCategorySchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    const categoryData = validationResult.data;
+
+    // Category names are unique, as records refer to categories by name
+    const existingCategory = await prisma.transactionCategory.findUnique({
+      where: { name: categoryData.name },
+    });
+
+    if (existingCategory) {
+      return res.status(400).json({
+        success: false,
+        error: 'A category with this name already exists',
+      });
+    }
+
+    if (categoryData.parentId) {
+      const parentError = await transactionCategoryService.validateParent(
+        categoryData.parentId,
+        categoryData.type
+      );
+
+      if (parentError) {
+        return res.status(parentError.status).json({
+          success: false,
+          error: parentError.error,
+        });
+      }
+    }
+
+    const category = await transactionCategoryService.createCategory(categoryData);
+
+    return res.status(201).json({
+      success: true,
+      category,
+    });
+  } catch (error) {
+    console.error('Create transaction category error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while creating transaction category',
+    });
+  }
+});
+
+// PUT /api/transaction-categories/:id - Update, rename or archive category (requires admin)
+router.put('/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Validate UUID format
+    if (!z.string().uuid().safeParse(id).success) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid category ID format',
+      });
+    }
+
+    // Validate request body with id
+    const validationResult = UpdateTransactionCategorySchema.safeParse({
+      id,
+      ...req.body,
+    });
+
+    if (!validationResult.success) {
+      return res.status(400).json({
+        success: false,
+        error: validationResult.error.issues[0].message,
+      });
+    }
+
+    // Check if category exists
+    const existingCategory = await prisma.transactionCategory.findUnique({
+      where: { id },
+    });
+
+    if (!existingCategory) {
+      return res.status(404).json({
+        success: false,
+        error: 'Category not found',
+      });
+    }
+
+    // Extract id from validated data and use rest for update
+    const { id: _, ...updateData } = validationResult.data;
+
+    const isRename = updateData.name !== undefined && updateData.name !== existingCategory.name;
+
+    if (PROTECTED_CATEGORIES.includes(existingCategory.name) && (isRename || updateData.isArchived)) {
+      return res.status(400).json({
+        success: false,
+        error: `${existingCategory.name} is a system category and cannot be renamed or archived`,
+      });
+    }
+
+    if (isRename) {
+      const duplicate = await prisma.transactionCategory.findUnique({
+        where: { name: updateData.name },
+      });
+
+      if (duplicate) {
+        return res.status(400).json({
+          success: false,
+          error: 'A category with this name already exists',
+        });
+      }
+    }
+
+    if (updateData.parentId) {
+      const parentError = await transactionCategoryService.validateParent(
+        updateData.parentId,
+        existingCategory.type,
+        id
+      );
+
+      if (parentError) {
+        return res.status(parentError.status).json({
+          success: false,
+          error: parentError.error,
+        });
+      }
+    }
+
+    const category = await transactionCategoryService.updateCategory(id, existingCategory.name, updateData);
+
+    return res.json({
+      success: true,
+      category,
+    });
+  } catch (error) {
+    console.error('Update transaction category error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'An error occurred while updating transaction category',
+    });
+  }
+});
+
+export default router;
@@ -10,31 +10,12 @@ import {
 import { z } from 'zod';
 import transactionService from '../services/transaction.service.js';
 import transactionAuditService from '../services/transactionAudit.service.js';
+import { unitService } from '../services/unit.service.js';
+import { transactionCategoryService } from '../services/transactionCategory.service.js';
+import { bankReconciliationService, LOCKED_PERIOD_ERROR } from '../services/bankReconciliation.service.js';
 
 const router = Router();
 
-// Helper function to validate type/category match
-function validateTypeCategoryMatch(type: string, category: string): boolean {
-  const incomeCategories = ['Rent', 'Security Deposit', 'Late Fee', 'Lease Fee'];
-  const expenseCategories = [
-    'Maintenance',
-    'Repair',
-    'Utilities',
-    'Insurance',
-    'Property Tax',
-    'Management Fee',
-    'Legal Fee',
-    'Other',
-  ];
-
-  if (type === 'Income') {
-    return incomeCategories.includes(category);
-  } else if (type === 'Expense') {
-    return expenseCategories.includes(category);
-  }
-  return false;
-}
-
 // GET /api/transactions - List transactions with filtering
 router.get('/', async (req, res) => {
   try {
@@ -48,7 +29,7 @@ router.get('/', async (req, res) => {
       });
     }
 
-    const { property_id, type, category, from_date, to_date } = validationResult.data;
+    const { property_id, unit_id, type, category, from_date, to_date } = validationResult.data;
 
     // Build filter object
     const where: any = {};
@@ -57,11 +38,27 @@ router.get('/', async (req, res) => {
       where.propertyId = property_id;
     }
 
+    if (unit_id) {
+      where.unitId = unit_id;
+    }
+
     if (type) {
       where.type = type;
     }
 
     if (category) {
+      // Archived categories still filter the transactions already filed under them
+      const categoryError = await transactionCategoryService.validateCategory(category, null, {
+        allowArchived: true,
+      });
+
+      if (categoryError) {
+        return res.status(categoryError.status).json({
+          success: false,
+          error: categoryError.error,
+        });
+      }
+
       where.category = category;
     }
 
@@ -79,6 +76,7 @@ router.get('/', async (req, res) => {
       where,
       include: {
         property: true,
+        unit: true,
         lease: true,
         splits: {
           include: {
@@ -140,6 +138,18 @@ router.get('/summary', async (req, res) => {
     }
 
     if (category) {
+      // Archived categories still filter the transactions already filed under them
+      const categoryError = await transactionCategoryService.validateCategory(category, null, {
+        allowArchived: true,
+      });
+
+      if (categoryError) {
+        return res.status(categoryError.status).json({
+          success: false,
+          error: categoryError.error,
+        });
+      }
+
       where.category = category;
     }
 
@@ -484,6 +494,19 @@ router.post('/', requireAuth, requireWrite, async (req, res) => {
 
     const transactionData = validationResult.data;
 
+    // Check the category exists, is active and matches the transaction type
+    const categoryError = await transactionCategoryService.validateCategory(
+      transactionData.category,
+      transactionData.type
+    );
+
+    if (categoryError) {
+      return res.status(categoryError.status).json({
+        success: false,
+        error: categoryError.error,
+      });
+    }
+
     // Check property exists and status is NOT 'For Sale'
     const property = await prisma.property.findUnique({
       where: { id: transactionData.propertyId },
@@ -503,6 +526,21 @@ router.post('/', requireAuth, requireWrite, async (req, res) => {
       });
     }
 
+    // If unitId provided, check it belongs to the property
+    if (transactionData.unitId) {
+      const unitError = await unitService.validateUnitForProperty(
+        transactionData.unitId,
+        transactionData.propertyId
+      );
+
+      if (unitError) {
+        return res.status(unitError.status).json({
+          success: false,
+          error: unitError.error,
+        });
+      }
+    }
+
     // If leaseId provided, check lease exists
     if (transactionData.leaseId) {
       const lease = await prisma.lease.findUnique({
@@ -579,31 +617,29 @@ router.put('/:id', requireAuth, requireWrite, async (req, res) => {
       });
     }
 
+    if (await bankReconciliationService.hasLockedBankTransactions({ ledgerTransactions: { some: { id } } })) {
+      return res.status(409).json({
+        success: false,
+        error: LOCKED_PERIOD_ERROR,
+      });
+    }
+
     const updateData = validationResult.data;
 
-    // Validate type/category match
-    if (updateData.type && updateData.category) {
-      // Both type and category are being updated, validate they match
-      if (!validateTypeCategoryMatch(updateData.type, updateData.category)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Category must match the transaction type',
-        });
-      }
-    } else if (updateData.type && !updateData.category) {
-      // Only type is being updated, validate against existing category
-      if (!validateTypeCategoryMatch(updateData.type, existingTransaction.category)) {
-        return res.status(400).json({
-          success: false,
-          error: 'Category must match the transaction type',
-        });
-      }
-    } else if (updateData.category && !updateData.type) {
-      // Only category is being updated, validate against existing type
-      if (!validateTypeCategoryMatch(existingTransaction.type, updateData.category)) {
-        return res.status(400).json({
+    // Validate type/category match. Switching to a category requires it to be
+    // active, but a transaction may keep the archived category it already has
+    if (updateData.type || updateData.category) {
+      const category = updateData.category ?? existingTransaction.category;
+      const categoryError = await transactionCategoryService.validateCategory(
+        category,
+        updateData.type ?? existingTransaction.type,
+        { allowArchived: category === existingTransaction.category }
+      );
+
+      if (categoryError) {
+        return res.status(categoryError.status).json({
           success: false,
-          error: 'Category must match the transaction type',
+          error: categoryError.error,
         });
       }
     }
@@ -629,6 +665,23 @@ router.put('/:id', requireAuth, requireWrite, async (req, res) => {
       }
     }
 
+    // If property or unit changed, check the unit belongs to the property
+    const unitId = updateData.unitId !== undefined ? updateData.unitId : existingTransaction.unitId;
+
+    if (unitId && (updateData.unitId || updateData.propertyId)) {
+      const unitError = await unitService.validateUnitForProperty(
+        unitId,
+        updateData.propertyId || existingTransaction.propertyId
+      );
+
+      if (unitError) {
+        return res.status(unitError.status).json({
+          success: false,
+          error: unitError.error,
+        });
+      }
+    }
+
     // If leaseId changed (including null), validate lease exists if not null
     if (updateData.leaseId !== undefined && updateData.leaseId !== null) {
       const lease = await prisma.lease.findUnique({
@@ -703,6 +756,13 @@ router.delete('/:id', requireAuth, requireWrite, async (req, res) => {
       });
     }
 
+    if (await bankReconciliationService.hasLockedBankTransactions({ ledgerTransactions: { some: { id } } })) {
+      return res.status(409).json({
+        success: false,
+        error: LOCKED_PERIOD_ERROR,
+      });
+    }
+
     // Hard delete
     await prisma.transaction.delete({
       where: { id },
@@ -1,53 +1,62 @@
 import { Router } from 'express';
 import crypto from 'crypto';
 import prisma from '../db/client.js';
-import { processTransactions } from '../services/transactionProcessor.js';
-import type { MonzoWebhookPayload } from '../services/monzo/types.js';
+import { processBankTransactions, processBankTransactionUpdates } from '../services/transactionProcessor.js';
+import { findBankProvider, WebhookPayloadError, type BankWebhookEvent } from '../services/bankProviders/index.js';
 
 const router = Router();
 
 /**
- * POST /api/bank/webhooks/monzo/:secret
+ * POST /api/bank/webhooks/:provider/:secret
  *
- * Webhook endpoint for Monzo transaction.created events.
- * This is a public endpoint (no authentication) as it receives webhooks from Monzo servers.
+ * Webhook endpoint for bank provider transaction events (e.g. Monzo transaction.created
+ * and transaction.updated).
+ * This is a public endpoint (no authentication) as it receives webhooks from bank servers.
  *
  * Security:
  * - Monzo does not support HMAC signature verification for webhooks
  * - Security is provided via secret URL path parameter validation
- * - The webhook URL registered with Monzo should be:
- *   https://yourdomain.com/api/bank/webhooks/monzo/{MONZO_WEBHOOK_SECRET}
+ * - The webhook URL registered with the provider should be:
+ *   https://yourdomain.com/api/bank/webhooks/{provider}/{secret}
+ *   e.g. https://yourdomain.com/api/bank/webhooks/monzo/{MONZO_WEBHOOK_SECRET}
  *
  * Process:
  * 1. Receive webhook payload
- * 2. Validate secret parameter against MONZO_WEBHOOK_SECRET environment variable
- * 3. Find bank account by account_id from transaction
+ * 2. Validate secret parameter against the provider's webhook secret
+ * 3. Parse the payload with the provider and find the bank account it belongs to
  * 4. Create SyncLog with syncType="webhook"
- * 5. Create BankTransaction record (with duplicate detection via upsert)
+ * 5. Create BankTransaction records (with duplicate detection via upsert), or for
+ *    update events apply settlement, amount changes and reversals to existing ones
  * 6. Update SyncLog with success/failure status
  *
  * Response:
  * - 200: Successfully processed webhook
  * - 400: Malformed payload
- * - 403: Invalid or missing secret
+ * - 403: Invalid or missing secret, or the account belongs to another provider
+ * - 404: Unknown provider
  * - 500: Processing error or webhook not configured
  */
-router.post('/monzo/:secret', async (req, res) => {
+router.post('/:provider/:secret', async (req, res) => {
   let syncLogId: string | undefined;
   let duplicatesSkipped = 0;
+  let possibleDuplicates = 0;
 
   try {
-    // Note: Monzo does not support HMAC signature verification for webhooks.
-    // Security is provided via secret URL path parameter validation.
-    // The webhook URL registered with Monzo should be:
-    // https://yourdomain.com/api/bank/webhooks/monzo/{MONZO_WEBHOOK_SECRET}
+    const provider = findBankProvider(req.params.provider);
+
+    if (!provider) {
+      return res.status(404).json({
+        success: false,
+        error: 'Unknown bank provider',
+      });
+    }
 
     const secret = req.params.secret;
-    const expectedSecret = process.env.MONZO_WEBHOOK_SECRET;
+    const expectedSecret = provider.getWebhookSecret();
 
     // Validate that webhook secret is configured
     if (!expectedSecret) {
-      console.error('MONZO_WEBHOOK_SECRET not configured');
+      console.error(`${provider.displayName} webhook secret not configured`);
       return res.status(500).json({
         success: false,
         error: 'Webhook not configured',
@@ -76,53 +85,53 @@ router.post('/monzo/:secret', async (req, res) => {
     }
 
     // Validate payload structure
-    const payload = req.body as MonzoWebhookPayload;
-
-    if (!payload || payload.type !== 'transaction.created' || !payload.data) {
-      console.error('Invalid webhook payload:', payload);
-      return res.status(400).json({
-        success: false,
-        error: 'Invalid webhook payload',
-      });
-    }
-
-    const transaction = payload.data;
-
-    // Validate required transaction fields
-    if (!transaction.account_id || !transaction.id || transaction.amount === undefined) {
-      console.error('Missing required transaction fields:', transaction);
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required transaction fields',
-      });
+    let event: BankWebhookEvent;
+    try {
+      event = provider.parseWebhook(req.body);
+    } catch (error) {
+      if (error instanceof WebhookPayloadError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      throw error;
     }
 
-    // Find bank account by Monzo account_id
-    // Note: In the Monzo API, this comes from the transaction data
+    // Find bank account by the provider's account ID
     const bankAccount = await prisma.bankAccount.findUnique({
-      where: { accountId: transaction.account_id },
+      where: { accountId: event.accountId },
     });
 
     if (!bankAccount) {
       // This is not necessarily an error - could be a webhook for an account
       // that was disconnected or hasn't been connected yet
-      console.warn(`Webhook received for unknown account: ${transaction.account_id}`);
+      console.warn(`Webhook received for unknown account: ${event.accountId}`);
       return res.status(200).json({
         success: true,
         message: 'Webhook received but account not found',
       });
     }
 
+    // A provider's secret only vouches for its own accounts
+    if (bankAccount.provider !== provider.name) {
+      console.warn(`Webhook from ${provider.name} for ${bankAccount.provider} account: ${event.accountId}`);
+      return res.status(403).json({
+        success: false,
+        error: 'Account belongs to another bank provider',
+      });
+    }
+
     // Check for duplicate webhook event (idempotency)
     // If this webhook event has already been processed, return success immediately
     const existingSyncLog = await prisma.syncLog.findFirst({
       where: {
-        webhookEventId: transaction.id,
+        webhookEventId: event.eventId,
       },
     });
 
     if (existingSyncLog) {
-      console.log(`Webhook event ${transaction.id} already processed, skipping`);
+      console.log(`Webhook event ${event.eventId} already processed, skipping`);
       return res.status(200).json({
         success: true,
         message: 'Webhook event already processed',
@@ -135,14 +144,18 @@ router.post('/monzo/:secret', async (req, res) => {
         bankAccountId: bankAccount.id,
         syncType: 'webhook',
         status: 'in_progress',
-        webhookEventId: transaction.id, // Use transaction ID as event identifier
+        webhookEventId: event.eventId,
       },
     });
     syncLogId = syncLog.id;
 
-    // Process transaction through unified pipeline
-    const processResult = await processTransactions([transaction], bankAccount.id);
+    // Process transactions through unified pipeline
+    const processResult =
+      event.type === 'updated'
+        ? await processBankTransactionUpdates(event.transactions, bankAccount.id)
+        : await processBankTransactions(event.transactions, bankAccount.id);
     duplicatesSkipped = processResult.duplicatesSkipped;
+    possibleDuplicates = processResult.possibleDuplicates;
 
     // Check if processing failed
     if (processResult.errors.length > 0) {
@@ -154,6 +167,7 @@ router.post('/monzo/:secret', async (req, res) => {
           completedAt: new Date(),
           transactionsFetched: processResult.processed + processResult.duplicatesSkipped,
           transactionsSkipped: processResult.duplicatesSkipped,
+          transactionsHeld: processResult.possibleDuplicates,
           errorMessage: processResult.errors[0].error,
         },
       });
@@ -167,7 +181,7 @@ router.post('/monzo/:secret', async (req, res) => {
         },
       });
 
-      console.error(`Webhook processing failed for transaction ${transaction.id}:`, processResult.errors[0].error);
+      console.error(`Webhook processing failed for event ${event.eventId}:`, processResult.errors[0].error);
 
       return res.status(500).json({
         success: false,
@@ -183,6 +197,7 @@ router.post('/monzo/:secret', async (req, res) => {
         completedAt: new Date(),
         transactionsFetched: processResult.processed + processResult.duplicatesSkipped,
         transactionsSkipped: processResult.duplicatesSkipped,
+        transactionsHeld: processResult.possibleDuplicates,
       },
     });
 
@@ -195,7 +210,7 @@ router.post('/monzo/:secret', async (req, res) => {
       },
     });
 
-    console.log(`Webhook processed successfully for transaction ${transaction.id}`);
+    console.log(`Webhook processed successfully for event ${event.eventId}`);
 
     return res.status(200).json({
       success: true,
@@ -213,6 +228,7 @@ router.post('/monzo/:secret', async (req, res) => {
             status: 'failed',
             completedAt: new Date(),
             transactionsSkipped: duplicatesSkipped,
+            transactionsHeld: possibleDuplicates,
             errorMessage: error instanceof Error ? error.message : 'Unknown error',
             errorDetails: error instanceof Error ? error.stack : undefined,
           },
@@ -1,5 +1,8 @@
 import dotenv from 'dotenv';
 import { createApp } from './app.js';
+import { leaseStatusService } from './services/leaseStatus.service.js';
+import { recurringTransactionService } from './services/recurringTransaction.service.js';
+import { scheduledSyncService } from './services/scheduledSync.service.js';
 
 // Load environment variables
 dotenv.config();
@@ -20,6 +23,15 @@ try {
   app.listen(PORT, '0.0.0.0', () => {
     console.log(`[startup] SUCCESS: Server running on http://0.0.0.0:${PORT}`);
     console.log(`[startup] Environment: ${process.env.NODE_ENV || 'development'}`);
+
+    // Move leases to Active/Expired as their dates pass
+    leaseStatusService.start();
+
+    // Create transactions from recurring templates as they fall due
+    recurringTransactionService.start();
+
+    // Sync connected bank accounts in the background, in case webhooks are missed
+    scheduledSyncService.start();
   });
 } catch (error) {
   console.error('[startup] FATAL ERROR during startup:', error);
@@ -1,12 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import prisma from '../../db/client.js';
-import * as monzoService from '../monzo.service.js';
+import * as bankSyncService from '../bankSync.service.js';
 import { encryptToken } from '../encryption.js';
 
 // Mock global fetch
 global.fetch = jest.fn() as jest.MockedFunction<typeof fetch>;
 
-describe('Monzo Service - importFullHistory', () => {
+describe('Bank Sync Service - Monzo', () => {
   beforeEach(() => {
     jest.clearAllMocks();
   });
@@ -68,7 +68,7 @@ describe('Monzo Service - importFullHistory', () => {
           json: async () => ({ transactions: secondPageTransactions }),
         } as Response);
 
-      await monzoService.importFullHistory(bankAccount.id);
+      await bankSyncService.importFullHistory(bankAccount.id);
 
       // Wait for async processing
       await new Promise((resolve) => setTimeout(resolve, 2000));
@@ -130,7 +130,7 @@ describe('Monzo Service - importFullHistory', () => {
         json: async () => ({ transactions: [] }),
       } as Response);
 
-      await monzoService.importFullHistory(bankAccount.id);
+      await bankSyncService.importFullHistory(bankAccount.id);
       await new Promise((resolve) => setTimeout(resolve, 100));
 
       const syncLog = await prisma.syncLog.findFirst({
@@ -193,7 +193,7 @@ describe('Monzo Service - importFullHistory', () => {
         json: async () => ({ transactions }),
       } as Response);
 
-      await monzoService.importFullHistory(bankAccount.id);
+      await bankSyncService.importFullHistory(bankAccount.id);
       await new Promise((resolve) => setTimeout(resolve, 100));
 
       // Should have 2 transactions total (1 existing + 1 new)
@@ -229,7 +229,7 @@ describe('Monzo Service - importFullHistory', () => {
       } as Response);
 
       // importFullHistory now throws on error, so we need to catch it
-      await expect(monzoService.importFullHistory(bankAccount.id)).rejects.toThrow();
+      await expect(bankSyncService.importFullHistory(bankAccount.id)).rejects.toThrow();
       await new Promise((resolve) => setTimeout(resolve, 500));
 
       const syncLog = await prisma.syncLog.findFirst({
@@ -278,7 +278,7 @@ describe('Monzo Service - importFullHistory', () => {
       const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
       const clearTimeoutSpy = jest.spyOn(global, 'clearTimeout');
 
-      await monzoService.importFullHistory(bankAccount.id);
+      await bankSyncService.importFullHistory(bankAccount.id);
 
       // Verify setTimeout was called with 270000ms (4m30s safety buffer)
       expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 270000);
@@ -331,7 +331,7 @@ describe('Monzo Service - importFullHistory', () => {
         json: async () => ({ transactions: [transaction] }),
       } as Response);
 
-      await monzoService.importFullHistory(bankAccount.id);
+      await bankSyncService.importFullHistory(bankAccount.id);
       await new Promise((resolve) => setTimeout(resolve, 200));
 
       const importedTransaction = await prisma.bankTransaction.findFirst({
@@ -383,7 +383,7 @@ describe('Monzo Service - importFullHistory', () => {
         json: async () => ({ transactions: [transaction] }),
       } as Response);
 
-      await monzoService.importFullHistory(bankAccount.id);
+      await bankSyncService.importFullHistory(bankAccount.id);
       await new Promise((resolve) => setTimeout(resolve, 200));
 
       const importedTransaction = await prisma.bankTransaction.findFirst({
@@ -434,7 +434,7 @@ describe('Monzo Service - importFullHistory', () => {
 
       // Should return immediately without awaiting
       const startTime = Date.now();
-      monzoService.importFullHistory(bankAccount.id); // Don't await
+      bankSyncService.importFullHistory(bankAccount.id); // Don't await
       const endTime = Date.now();
 
       // Should complete almost instantly (not waiting for fetch)
@@ -494,7 +494,7 @@ describe('Monzo Service - importFullHistory', () => {
         json: async () => ({ transactions }),
       } as Response);
 
-      const result = await monzoService.syncNewTransactions(bankAccount.id);
+      const result = await bankSyncService.syncNewTransactions(bankAccount.id);
 
       // Verify fetch was called with correct parameters
       expect(global.fetch).toHaveBeenCalledTimes(1);
@@ -550,7 +550,7 @@ describe('Monzo Service - importFullHistory', () => {
         json: async () => ({ transactions: [] }),
       } as Response);
 
-      await monzoService.syncNewTransactions(bankAccount.id);
+      await bankSyncService.syncNewTransactions(bankAccount.id);
 
       const fetchUrl = (global.fetch as jest.MockedFunction<typeof fetch>).mock.calls[0][0] as string;
       expect(fetchUrl).toContain(`since=${encodeURIComponent(syncFromDate.toISOString())}`);
@@ -603,7 +603,7 @@ describe('Monzo Service - importFullHistory', () => {
           json: async () => ({ transactions: secondPage }),
         } as Response);
 
-      const result = await monzoService.syncNewTransactions(bankAccount.id);
+      const result = await bankSyncService.syncNewTransactions(bankAccount.id);
 
       expect(global.fetch).toHaveBeenCalledTimes(2);
       expect(result.transactionsFetched).toBe(150);
@@ -638,7 +638,7 @@ describe('Monzo Service - importFullHistory', () => {
         },
       });
 
-      const result = await monzoService.syncNewTransactions(bankAccount.id);
+      const result = await bankSyncService.syncNewTransactions(bankAccount.id);
 
       expect(result.success).toBe(false);
       expect(result.error).toBe('Sync already in progress');
@@ -667,7 +667,7 @@ describe('Monzo Service - importFullHistory', () => {
         text: async () => 'API Error',
       } as Response);
 
-      const result = await monzoService.syncNewTransactions(bankAccount.id);
+      const result = await bankSyncService.syncNewTransactions(bankAccount.id);
 
       expect(result.success).toBe(false);
       expect(result.error).toContain('Failed to fetch transactions');
@@ -713,7 +713,7 @@ describe('Monzo Service - importFullHistory', () => {
 
       const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
 
-      await monzoService.syncNewTransactions(bankAccount.id);
+      await bankSyncService.syncNewTransactions(bankAccount.id);
 
       // Verify setTimeout was called with 30000ms
       expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 30000);
@@ -774,7 +774,7 @@ describe('Monzo Service - importFullHistory', () => {
         json: async () => ({ transactions }),
       } as Response);
 
-      const result = await monzoService.syncNewTransactions(bankAccount.id);
+      const result = await bankSyncService.syncNewTransactions(bankAccount.id);
 
       expect(result.transactionsFetched).toBe(2);
 
@@ -805,7 +805,7 @@ describe('Monzo Service - importFullHistory', () => {
         text: async () => 'API Error',
       } as Response);
 
-      await monzoService.syncNewTransactions(bankAccount.id);
+      await bankSyncService.syncNewTransactions(bankAccount.id);
 
       // Verify lastSyncAt was not updated on failure
       const updatedBankAccount = await prisma.bankAccount.findUnique({
@@ -815,128 +815,4 @@ describe('Monzo Service - importFullHistory', () => {
       expect(updatedBankAccount?.lastSyncStatus).toBe('failed');
     });
   });
-
-  describe('registerWebhook', () => {
-    it('should successfully register webhook and return webhookId and webhookUrl', async () => {
-      const accessToken = 'test_access_token';
-      const accountId = 'acc_123';
-      const webhookUrl = 'https://example.com/api/bank/webhooks/monzo/secret-123';
-
-      const mockResponse = {
-        webhook: {
-          id: 'webhook_123',
-          account_id: accountId,
-          url: webhookUrl,
-        },
-      };
-
-      (global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce({
-        ok: true,
-        json: async () => mockResponse,
-      } as Response);
-
-      const result = await monzoService.registerWebhook(accessToken, accountId, webhookUrl);
-
-      expect(result.webhookId).toBe('webhook_123');
-      expect(result.webhookUrl).toBe(webhookUrl);
-
-      // Verify fetch was called correctly
-      expect(global.fetch).toHaveBeenCalledTimes(1);
-      const [url, options] = (global.fetch as jest.MockedFunction<typeof fetch>).mock.calls[0];
-      expect(url).toBe('https://api.monzo.com/webhooks');
-      expect(options?.method).toBe('POST');
-      expect(options?.headers).toEqual({
-        Authorization: `Bearer ${accessToken}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
-      });
-
-      // Verify request body
-      const body = options?.body as URLSearchParams;
-      expect(body.get('account_id')).toBe(accountId);
-      expect(body.get('url')).toBe(webhookUrl);
-    });
-
-    it('should throw error when webhook registration fails', async () => {
-      const accessToken = 'test_access_token';
-      const accountId = 'acc_123';
-      const webhookUrl = 'https://example.com/webhooks';
-
-      (global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce({
-        ok: false,
-        text: async () => 'Webhook registration failed',
-      } as Response);
-
-      await expect(
-        monzoService.registerWebhook(accessToken, accountId, webhookUrl)
-      ).rejects.toThrow('Failed to register webhook with Monzo');
-
-      expect(global.fetch).toHaveBeenCalledTimes(1);
-    });
-
-    it('should handle network errors', async () => {
-      const accessToken = 'test_access_token';
-      const accountId = 'acc_123';
-      const webhookUrl = 'https://example.com/webhooks';
-
-      (global.fetch as jest.MockedFunction<typeof fetch>).mockRejectedValueOnce(
-        new Error('Network error')
-      );
-
-      await expect(
-        monzoService.registerWebhook(accessToken, accountId, webhookUrl)
-      ).rejects.toThrow('Network error');
-    });
-  });
-
-  describe('deleteWebhook', () => {
-    it('should successfully delete webhook', async () => {
-      const accessToken = 'test_access_token';
-      const webhookId = 'webhook_123';
-
-      (global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce({
-        ok: true,
-        json: async () => ({}),
-      } as Response);
-
-      await monzoService.deleteWebhook(accessToken, webhookId);
-
-      // Verify fetch was called correctly
-      expect(global.fetch).toHaveBeenCalledTimes(1);
-      const [url, options] = (global.fetch as jest.MockedFunction<typeof fetch>).mock.calls[0];
-      expect(url).toBe(`https://api.monzo.com/webhooks/${webhookId}`);
-      expect(options?.method).toBe('DELETE');
-      expect(options?.headers).toEqual({
-        Authorization: `Bearer ${accessToken}`,
-      });
-    });
-
-    it('should throw error when webhook deletion fails', async () => {
-      const accessToken = 'test_access_token';
-      const webhookId = 'webhook_123';
-
-      (global.fetch as jest.MockedFunction<typeof fetch>).mockResolvedValueOnce({
-        ok: false,
-        text: async () => 'Webhook not found',
-      } as Response);
-
-      await expect(
-        monzoService.deleteWebhook(accessToken, webhookId)
-      ).rejects.toThrow('Failed to delete webhook from Monzo');
-
-      expect(global.fetch).toHaveBeenCalledTimes(1);
-    });
-
-    it('should handle network errors', async () => {
-      const accessToken = 'test_access_token';
-      const webhookId = 'webhook_123';
-
-      (global.fetch as jest.MockedFunction<typeof fetch>).mockRejectedValueOnce(
-        new Error('Network error')
-      );
-
-      await expect(
-        monzoService.deleteWebhook(accessToken, webhookId)
-      ).rejects.toThrow('Network error');
-    });
-  });
 });
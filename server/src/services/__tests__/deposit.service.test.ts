@@ -0,0 +1,79 @@
+import { describe, it, expect } from '@jest/globals';
+import { depositService } from '../deposit.service.js';
+
+describe('DepositService', () => {
+  describe('getCompliance', () => {
+    const lease = {
+      securityDepositAmount: 1000,
+      securityDepositPaidDate: new Date('2024-03-01'),
+      depositProtectedDate: null,
+      prescribedInfoServedAt: null,
+      depositReturnedDate: null,
+    };
+
+    it('should set the deadline 30 days after the deposit was received', () => {
+      const compliance = depositService.getCompliance(lease, new Date('2024-03-21'));
+
+      expect(compliance.status).toBe('Pending');
+      expect(compliance.deadline?.toISOString()).toBe('2024-03-31T00:00:00.000Z');
+      expect(compliance.daysUntilDeadline).toBe(10);
+      expect(compliance.breaches).toEqual([]);
+    });
+
+    it('should still be pending on the deadline day', () => {
+      const compliance = depositService.getCompliance(lease, new Date('2024-03-31T18:00:00Z'));
+
+      expect(compliance.status).toBe('Pending');
+      expect(compliance.daysUntilDeadline).toBe(0);
+    });
+
+    it('should flag a breach once the deadline passes', () => {
+      const compliance = depositService.getCompliance(
+        { ...lease, depositProtectedDate: new Date('2024-03-10') },
+        new Date('2024-04-01')
+      );
+
+      expect(compliance.status).toBe('Breach');
+      expect(compliance.breaches).toEqual(['Prescribed information not served']);
+    });
+
+    it('should flag late protection as a breach even after the event', () => {
+      const compliance = depositService.getCompliance(
+        {
+          ...lease,
+          depositProtectedDate: new Date('2024-04-15'),
+          prescribedInfoServedAt: new Date('2024-03-15'),
+        },
+        new Date('2024-06-01')
+      );
+
+      expect(compliance.status).toBe('Breach');
+      expect(compliance.breaches).toEqual(['Deposit protected late']);
+    });
+
+    it('should be compliant when protected and served in time', () => {
+      const compliance = depositService.getCompliance(
+        {
+          ...lease,
+          depositProtectedDate: new Date('2024-03-05'),
+          prescribedInfoServedAt: new Date('2024-03-31'),
+        },
+        new Date('2024-06-01')
+      );
+
+      expect(compliance.status).toBe('Compliant');
+      expect(compliance.isProtected).toBe(true);
+      expect(compliance.prescribedInfoServed).toBe(true);
+    });
+
+    it('should not start the clock until the deposit is received', () => {
+      const compliance = depositService.getCompliance(
+        { ...lease, securityDepositPaidDate: null },
+        new Date('2024-06-01')
+      );
+
+      expect(compliance.status).toBe('Not Received');
+      expect(compliance.deadline).toBeNull();
+    });
+  });
+});
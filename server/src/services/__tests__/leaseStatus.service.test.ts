@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import prisma from '../../db/client.js';
+import { leaseStatusService } from '../leaseStatus.service.js';
+
+describe('LeaseStatusService', () => {
+  let propertyId: string;
+  let tenantId: string;
+
+  const asOf = new Date('2024-06-15T02:00:00Z');
+
+  const createLease = (data: { startDate: string; endDate?: string | null; status: string }) =>
+    prisma.lease.create({
+      data: {
+        propertyId,
+        tenantId,
+        startDate: new Date(data.startDate),
+        endDate: data.endDate ? new Date(data.endDate) : null,
+        rentAmount: 1000,
+        securityDepositAmount: 1000,
+        status: data.status,
+      },
+    });
+
+  beforeAll(async () => {
+    const property = await prisma.property.create({
+      data: {
+        name: 'Scheduler Property',
+        street: '1 Clock Lane',
+        city: 'Test City',
+        county: 'Test County',
+        postcode: 'TS1 1ST',
+        propertyType: 'House',
+        status: 'Occupied',
+      },
+    });
+    propertyId = property.id;
+
+    const tenant = await prisma.tenant.create({
+      data: {
+        firstName: 'Sam',
+        lastName: 'Scheduler',
+        email: 'sam.scheduler@example.com',
+        phone: '07700900401',
+        status: 'Active',
+      },
+    });
+    tenantId = tenant.id;
+  });
+
+  afterAll(async () => {
+    await prisma.lease.deleteMany({});
+    await prisma.tenant.deleteMany({ where: { id: tenantId } });
+    await prisma.property.deleteMany({ where: { id: propertyId } });
+  });
+
+  beforeEach(async () => {
+    await prisma.lease.deleteMany({});
+  });
+
+  describe('runTransitions', () => {
+    it('should expire active leases whose end date has passed', async () => {
+      const ended = await createLease({ startDate: '2023-06-01', endDate: '2024-06-14', status: 'Active' });
+
+      const result = await leaseStatusService.runTransitions(asOf);
+
+      expect(result.expired).toEqual([
+        { leaseId: ended.id, fromStatus: 'Active', toStatus: 'Expired', reason: 'End date passed' },
+      ]);
+      const lease = await prisma.lease.findUnique({ where: { id: ended.id } });
+      expect(lease?.status).toBe('Expired');
+    });
+
+    it('should keep a lease active on its last day', async () => {
+      const lastDay = await createLease({ startDate: '2023-06-15', endDate: '2024-06-15', status: 'Active' });
+
+      const result = await leaseStatusService.runTransitions(asOf);
+
+      expect(result.expired).toHaveLength(0);
+      const lease = await prisma.lease.findUnique({ where: { id: lastDay.id } });
+      expect(lease?.status).toBe('Active');
+    });
+
+    it('should activate drafts whose start date has arrived', async () => {
+      const due = await createLease({ startDate: '2024-06-15', endDate: '2025-06-14', status: 'Draft' });
+      const future = await createLease({ startDate: '2024-07-01', endDate: null, status: 'Draft' });
+
+      const result = await leaseStatusService.runTransitions(asOf);
+
+      expect(result.activated.map((t) => t.leaseId)).toEqual([due.id]);
+      expect((await prisma.lease.findUnique({ where: { id: due.id } }))?.status).toBe('Active');
+      expect((await prisma.lease.findUnique({ where: { id: future.id } }))?.status).toBe('Draft');
+    });
+
+    it('should activate a successor draft once the lease it replaces has expired', async () => {
+      await createLease({ startDate: '2023-06-01', endDate: '2024-06-14', status: 'Active' });
+      const successor = await createLease({ startDate: '2024-06-01', endDate: '2025-05-31', status: 'Draft' });
+
+      const result = await leaseStatusService.runTransitions(asOf);
+
+      expect(result.expired).toHaveLength(1);
+      expect(result.activated.map((t) => t.leaseId)).toEqual([successor.id]);
+    });
+
+    it('should skip drafts that overlap an active lease', async () => {
+      await createLease({ startDate: '2024-01-01', endDate: '2024-12-31', status: 'Active' });
+      const draft = await createLease({ startDate: '2024-06-01', endDate: null, status: 'Draft' });
+
+      const result = await leaseStatusService.runTransitions(asOf);
+
+      expect(result.activated).toHaveLength(0);
+      expect(result.skipped).toEqual([
+        { leaseId: draft.id, reason: 'Overlapping active lease exists for this property' },
+      ]);
+      expect((await prisma.lease.findUnique({ where: { id: draft.id } }))?.status).toBe('Draft');
+    });
+
+    it('should record every change it makes', async () => {
+      const ended = await createLease({ startDate: '2023-06-01', endDate: '2024-06-14', status: 'Active' });
+
+      await leaseStatusService.runTransitions(asOf);
+      const secondRun = await leaseStatusService.runTransitions(asOf);
+
+      const changes = await prisma.leaseStatusChange.findMany({ where: { leaseId: ended.id } });
+      expect(changes).toHaveLength(1);
+      expect(changes[0]).toMatchObject({ fromStatus: 'Active', toStatus: 'Expired', reason: 'End date passed' });
+      expect(secondRun.expired).toHaveLength(0);
+    });
+
+    it('should leave a lease alone if its status changed after it was picked up', async () => {
+      const ended = await createLease({ startDate: '2023-06-01', endDate: '2024-06-14', status: 'Active' });
+      const findMany = prisma.lease.findMany.bind(prisma.lease);
+      // A user terminates the lease between the scheduler's query and its update
+      const terminateAfterQuery = async (args: Parameters<typeof findMany>[0]) => {
+        const leases = await findMany(args);
+        await prisma.lease.update({ where: { id: ended.id }, data: { status: 'Terminated' } });
+        return leases;
+      };
+      const spy = jest
+        .spyOn(prisma.lease, 'findMany')
+        .mockImplementationOnce(terminateAfterQuery as unknown as typeof prisma.lease.findMany);
+
+      const result = await leaseStatusService.runTransitions(asOf);
+      spy.mockRestore();
+
+      expect(result.expired).toEqual([]);
+      const lease = await prisma.lease.findUnique({ where: { id: ended.id } });
+      expect(lease?.status).toBe('Terminated');
+      expect(await prisma.leaseStatusChange.count({ where: { leaseId: ended.id } })).toBe(0);
+    });
+  });
+});
@@ -22,6 +22,11 @@ function createMockTransaction(overrides: Partial<BankTransaction> = {}): BankTr
     importedAt: new Date('2024-01-16T08:00:00Z'),
     transactionId: null,
     pendingTransactionId: null,
+    declineReason: null,
+    reversedAt: null,
+    reconciliationId: null,
+    duplicateOfId: null,
+    duplicateStatus: null,
     ...overrides,
   };
 }
@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import prisma from '../../db/client.js';
+import authService from '../auth.service.js';
+import { recurringTransactionService } from '../recurringTransaction.service.js';
+import type { RecurringFrequency } from '../../../../shared/validation/recurringTransaction.validation.js';
+
+describe('RecurringTransactionService', () => {
+  let propertyId: string;
+  let ownerAId: string;
+  let ownerBId: string;
+
+  const asOf = new Date('2024-06-15T02:00:00Z');
+
+  const createTemplate = (data: {
+    startDate: string;
+    nextRunDate?: string;
+    endDate?: string | null;
+    frequency?: RecurringFrequency;
+    isPaused?: boolean;
+    splits?: Array<{ userId: string; percentage: number }>;
+  }) =>
+    recurringTransactionService.createTemplate({
+      propertyId,
+      type: 'Expense',
+      category: 'Insurance',
+      amount: 120,
+      description: 'Landlord insurance',
+      frequency: data.frequency ?? 'Monthly',
+      startDate: new Date(data.startDate),
+      endDate: data.endDate ? new Date(data.endDate) : null,
+      nextRunDate: data.nextRunDate ? new Date(data.nextRunDate) : undefined,
+      splits: data.splits,
+    }).then((template) =>
+      data.isPaused
+        ? prisma.recurringTransaction.update({ where: { id: template.id }, data: { isPaused: true } })
+        : template
+    );
+
+  const transactionsFor = (recurringTransactionId: string) =>
+    prisma.transaction.findMany({
+      where: { recurringTransactionId },
+      include: { splits: true },
+      orderBy: { transactionDate: 'asc' },
+    });
+
+  beforeAll(async () => {
+    const property = await prisma.property.create({
+      data: {
+        name: 'Recurring Property',
+        street: '2 Calendar Street',
+        city: 'Test City',
+        county: 'Test County',
+        postcode: 'TS2 2ND',
+        propertyType: 'House',
+        status: 'Occupied',
+      },
+    });
+    propertyId = property.id;
+
+    const ownerA = await authService.createUser('recurring.owner.a@example.com', 'ownerPassword123');
+    const ownerB = await authService.createUser('recurring.owner.b@example.com', 'ownerPassword123');
+    ownerAId = ownerA.id;
+    ownerBId = ownerB.id;
+
+    await prisma.propertyOwnership.createMany({
+      data: [
+        { userId: ownerAId, propertyId, ownershipPercentage: 60 },
+        { userId: ownerBId, propertyId, ownershipPercentage: 40 },
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    await prisma.transaction.deleteMany({ where: { propertyId } });
+    await prisma.recurringTransaction.deleteMany({});
+    await prisma.propertyOwnership.deleteMany({ where: { propertyId } });
+    await prisma.property.deleteMany({ where: { id: propertyId } });
+    await prisma.user.deleteMany({ where: { id: { in: [ownerAId, ownerBId] } } });
+  });
+
+  beforeEach(async () => {
+    await prisma.transaction.deleteMany({ where: { propertyId } });
+    await prisma.recurringTransaction.deleteMany({});
+  });
+
+  describe('runDue', () => {
+    it('should create a transaction for a template due today and advance it', async () => {
+      const template = await createTemplate({ startDate: '2024-05-15', nextRunDate: '2024-06-15' });
+
+      const result = await recurringTransactionService.runDue(asOf);
+
+      expect(result.created).toHaveLength(1);
+      const transactions = await transactionsFor(template.id);
+      expect(transactions).toHaveLength(1);
+      expect(transactions[0]).toMatchObject({
+        propertyId,
+        type: 'Expense',
+        category: 'Insurance',
+        amount: 120,
+        description: 'Landlord insurance',
+      });
+      expect(transactions[0].transactionDate).toEqual(new Date('2024-06-15'));
+
+      const updated = await prisma.recurringTransaction.findUnique({ where: { id: template.id } });
+      expect(updated?.lastRunDate).toEqual(new Date('2024-06-15'));
+      expect(updated?.nextRunDate).toEqual(new Date('2024-07-15'));
+    });
+
+    it('should catch up on every missed run', async () => {
+      const template = await createTemplate({ startDate: '2024-03-01' });
+
+      const result = await recurringTransactionService.runDue(asOf);
+
+      expect(result.created).toHaveLength(4);
+      const transactions = await transactionsFor(template.id);
+      expect(transactions.map((t) => t.transactionDate.toISOString().slice(0, 10))).toEqual([
+        '2024-03-01',
+        '2024-04-01',
+        '2024-05-01',
+        '2024-06-01',
+      ]);
+    });
+
+    it('should not run a template before its next run date', async () => {
+      await createTemplate({ startDate: '2024-06-16' });
+
+      const result = await recurringTransactionService.runDue(asOf);
+
+      expect(result.created).toHaveLength(0);
+    });
+
+    it('should split amounts by the template percentages', async () => {
+      const template = await createTemplate({
+        startDate: '2024-06-15',
+        splits: [
+          { userId: ownerAId, percentage: 25 },
+          { userId: ownerBId, percentage: 75 },
+        ],
+      });
+
+      await recurringTransactionService.runDue(asOf);
+
+      const [transaction] = await transactionsFor(template.id);
+      const amounts = Object.fromEntries(transaction.splits.map((s) => [s.userId, s.amount]));
+      expect(amounts).toEqual({ [ownerAId]: 30, [ownerBId]: 90 });
+    });
+
+    it('should split by property ownership when the template has no splits', async () => {
+      const template = await createTemplate({ startDate: '2024-06-15' });
+
+      await recurringTransactionService.runDue(asOf);
+
+      const [transaction] = await transactionsFor(template.id);
+      const amounts = Object.fromEntries(transaction.splits.map((s) => [s.userId, s.amount]));
+      expect(amounts).toEqual({ [ownerAId]: 72, [ownerBId]: 48 });
+    });
+
+    it('should skip paused templates', async () => {
+      const template = await createTemplate({ startDate: '2024-06-01', isPaused: true });
+
+      const result = await recurringTransactionService.runDue(asOf);
+
+      expect(result.created).toHaveLength(0);
+      expect(await transactionsFor(template.id)).toHaveLength(0);
+    });
+
+    it('should stop after the end date', async () => {
+      const template = await createTemplate({ startDate: '2024-04-01', endDate: '2024-05-20' });
+
+      await recurringTransactionService.runDue(asOf);
+
+      const transactions = await transactionsFor(template.id);
+      expect(transactions).toHaveLength(2);
+      const updated = await prisma.recurringTransaction.findUnique({ where: { id: template.id } });
+      expect(updated?.nextRunDate).toEqual(new Date('2024-06-01'));
+    });
+
+    it('should keep month-end templates on the last day of shorter months', async () => {
+      const template = await createTemplate({ startDate: '2024-01-31' });
+
+      await recurringTransactionService.runDue(asOf);
+
+      const transactions = await transactionsFor(template.id);
+      expect(transactions.map((t) => t.transactionDate.toISOString().slice(0, 10))).toEqual([
+        '2024-01-31',
+        '2024-02-29',
+        '2024-03-31',
+        '2024-04-30',
+        '2024-05-31',
+      ]);
+    });
+
+    it('should record a failed template without advancing it', async () => {
+      const outsider = await authService.createUser('recurring.outsider@example.com', 'outsiderPassword123');
+      const template = await createTemplate({
+        startDate: '2024-06-15',
+        splits: [{ userId: outsider.id, percentage: 100 }],
+      });
+
+      const result = await recurringTransactionService.runDue(asOf);
+
+      expect(result.skipped).toEqual([
+        { recurringTransactionId: template.id, reason: `User ${outsider.id} is not a property owner` },
+      ]);
+      const updated = await prisma.recurringTransaction.findUnique({ where: { id: template.id } });
+      expect(updated?.nextRunDate).toEqual(new Date('2024-06-15'));
+
+      await prisma.user.delete({ where: { id: outsider.id } });
+    });
+  });
+
+  describe('skipNext', () => {
+    it('should move the next run to the following occurrence', async () => {
+      const template = await createTemplate({ startDate: '2024-06-15', frequency: 'Quarterly' });
+
+      const updated = await recurringTransactionService.skipNext(template);
+
+      expect(updated.nextRunDate).toEqual(new Date('2024-09-15'));
+      expect(updated.lastRunDate).toBeNull();
+    });
+  });
+
+  describe('updateTemplate', () => {
+    it('should not back-fill runs missed while paused', async () => {
+      const template = await createTemplate({ startDate: '2024-01-10', nextRunDate: '2024-03-10', isPaused: true });
+
+      const updated = await recurringTransactionService.updateTemplate(template, { isPaused: false }, asOf);
+
+      expect(updated.isPaused).toBe(false);
+      expect(updated.nextRunDate).toEqual(new Date('2024-07-10'));
+    });
+
+    it('should move the next run onto a new schedule', async () => {
+      const template = await createTemplate({ startDate: '2024-01-10' });
+      await prisma.recurringTransaction.update({
+        where: { id: template.id },
+        data: { lastRunDate: new Date('2024-06-10'), nextRunDate: new Date('2024-07-10') },
+      });
+      const existing = await prisma.recurringTransaction.findUniqueOrThrow({ where: { id: template.id } });
+
+      const updated = await recurringTransactionService.updateTemplate(existing, { frequency: 'Weekly' }, asOf);
+
+      expect(updated.nextRunDate).toEqual(new Date('2024-06-12'));
+    });
+  });
+});
@@ -0,0 +1,305 @@
+import { describe, it, expect } from '@jest/globals';
+import { rentLedgerService, annualiseRent, monthlyEquivalentRent } from '../rentLedger.service.js';
+
+describe('RentLedgerService', () => {
+  describe('generateSchedule', () => {
+    it('should generate one period per month for a fixed-term lease', () => {
+      const schedule = rentLedgerService.generateSchedule(
+        {
+          startDate: new Date('2024-01-15'),
+          endDate: new Date('2024-07-14'),
+          rentAmount: 950,
+          rentFrequency: 'Monthly',
+          rentDueDay: null,
+        },
+        new Date('2024-02-01')
+      );
+
+      expect(schedule).toHaveLength(6);
+      expect(schedule[0].dueDate.toISOString()).toBe('2024-01-15T00:00:00.000Z');
+      expect(schedule[0].periodEnd.toISOString()).toBe('2024-02-14T00:00:00.000Z');
+      expect(schedule[5].dueDate.toISOString()).toBe('2024-06-15T00:00:00.000Z');
+      expect(schedule[5].periodEnd.toISOString()).toBe('2024-07-14T00:00:00.000Z');
+      expect(schedule.every((p) => p.amountDue === 950)).toBe(true);
+    });
+
+    it('should clamp due dates to the end of shorter months', () => {
+      const schedule = rentLedgerService.generateSchedule(
+        {
+          startDate: new Date('2024-01-31'),
+          endDate: new Date('2024-04-29'),
+          rentAmount: 1000,
+          rentFrequency: 'Monthly',
+          rentDueDay: null,
+        },
+        new Date('2024-01-31')
+      );
+
+      expect(schedule.map((p) => p.dueDate.toISOString().slice(0, 10))).toEqual([
+        '2024-01-31',
+        '2024-02-29',
+        '2024-03-31',
+      ]);
+    });
+
+    it('should schedule ongoing leases up to the next period after asOf', () => {
+      const schedule = rentLedgerService.generateSchedule(
+        {
+          startDate: new Date('2024-01-01'),
+          endDate: null,
+          rentAmount: 1000,
+          rentFrequency: 'Monthly',
+          rentDueDay: null,
+        },
+        new Date('2024-03-10')
+      );
+
+      expect(schedule.map((p) => p.dueDate.toISOString().slice(0, 10))).toEqual([
+        '2024-01-01',
+        '2024-02-01',
+        '2024-03-01',
+        '2024-04-01',
+      ]);
+    });
+  });
+
+  describe('rent frequencies', () => {
+    it('should step weekly periods seven days apart', () => {
+      const schedule = rentLedgerService.generateSchedule(
+        {
+          startDate: new Date('2024-01-01'),
+          endDate: new Date('2024-01-28'),
+          rentAmount: 200,
+          rentFrequency: 'Weekly',
+          rentDueDay: null,
+        },
+        new Date('2024-01-01')
+      );
+
+      expect(schedule.map((p) => p.dueDate.toISOString().slice(0, 10))).toEqual([
+        '2024-01-01',
+        '2024-01-08',
+        '2024-01-15',
+        '2024-01-22',
+      ]);
+      expect(schedule.every((p) => p.amountDue === 200 && !p.isProRata)).toBe(true);
+    });
+
+    it('should step four-weekly periods 28 days apart', () => {
+      const schedule = rentLedgerService.generateSchedule(
+        {
+          startDate: new Date('2024-01-01'),
+          endDate: null,
+          rentAmount: 800,
+          rentFrequency: 'Four-weekly',
+          rentDueDay: null,
+        },
+        new Date('2024-02-01')
+      );
+
+      expect(schedule.map((p) => p.dueDate.toISOString().slice(0, 10))).toEqual([
+        '2024-01-01',
+        '2024-01-29',
+        '2024-02-26',
+      ]);
+    });
+
+    it('should step quarterly periods three months apart', () => {
+      const schedule = rentLedgerService.generateSchedule(
+        {
+          startDate: new Date('2024-03-25'),
+          endDate: new Date('2025-03-24'),
+          rentAmount: 3000,
+          rentFrequency: 'Quarterly',
+          rentDueDay: null,
+        },
+        new Date('2024-03-25')
+      );
+
+      expect(schedule).toHaveLength(4);
+      expect(schedule[3].dueDate.toISOString().slice(0, 10)).toBe('2024-12-25');
+      expect(schedule[3].periodEnd.toISOString().slice(0, 10)).toBe('2025-03-24');
+    });
+
+    it('should keep a month-end due day from drifting after short months', () => {
+      const schedule = rentLedgerService.generateSchedule(
+        {
+          startDate: new Date('2024-01-31'),
+          endDate: new Date('2024-05-30'),
+          rentAmount: 1000,
+          rentFrequency: 'Monthly',
+          rentDueDay: 31,
+        },
+        new Date('2024-01-31')
+      );
+
+      expect(schedule.map((p) => p.dueDate.toISOString().slice(0, 10))).toEqual([
+        '2024-01-31',
+        '2024-02-29',
+        '2024-03-31',
+        '2024-04-30',
+      ]);
+    });
+  });
+
+  describe('pro-rata periods', () => {
+    it('should charge a partial first period up to the monthly due day', () => {
+      const schedule = rentLedgerService.generateSchedule(
+        {
+          startDate: new Date('2024-01-15'),
+          endDate: new Date('2024-03-31'),
+          rentAmount: 1200,
+          rentFrequency: 'Monthly',
+          rentDueDay: 1,
+        },
+        new Date('2024-01-15')
+      );
+
+      // 17 days at £14,400 a year / 365
+      expect(schedule[0]).toMatchObject({ amountDue: 670.68, isProRata: true });
+      expect(schedule[0].periodEnd.toISOString().slice(0, 10)).toBe('2024-01-31');
+      expect(schedule.slice(1).map((p) => p.dueDate.toISOString().slice(0, 10))).toEqual([
+        '2024-02-01',
+        '2024-03-01',
+      ]);
+      expect(schedule.slice(1).every((p) => p.amountDue === 1200 && !p.isProRata)).toBe(true);
+    });
+
+    it('should charge a partial first period up to the weekly due day', () => {
+      // 3 January 2024 is a Wednesday; rent is due on Mondays
+      const schedule = rentLedgerService.generateSchedule(
+        {
+          startDate: new Date('2024-01-03'),
+          endDate: new Date('2024-01-14'),
+          rentAmount: 140,
+          rentFrequency: 'Weekly',
+          rentDueDay: 1,
+        },
+        new Date('2024-01-03')
+      );
+
+      expect(schedule.map((p) => p.dueDate.toISOString().slice(0, 10))).toEqual(['2024-01-03', '2024-01-08']);
+      // 5 days at £7,280 a year / 365
+      expect(schedule[0]).toMatchObject({ amountDue: 99.73, isProRata: true });
+      expect(schedule[1]).toMatchObject({ amountDue: 140, isProRata: false });
+    });
+
+    it('should pro-rate a last period cut short by the end date', () => {
+      const schedule = rentLedgerService.generateSchedule(
+        {
+          startDate: new Date('2024-01-01'),
+          endDate: new Date('2024-02-10'),
+          rentAmount: 1000,
+          rentFrequency: 'Monthly',
+          rentDueDay: null,
+        },
+        new Date('2024-01-01')
+      );
+
+      expect(schedule).toHaveLength(2);
+      expect(schedule[1].periodEnd.toISOString().slice(0, 10)).toBe('2024-02-10');
+      // 10 days at £12,000 a year / 365
+      expect(schedule[1]).toMatchObject({ amountDue: 328.77, isProRata: true });
+    });
+
+    it('should charge a full last period when the lease ends on a period boundary', () => {
+      const schedule = rentLedgerService.generateSchedule(
+        {
+          startDate: new Date('2024-01-01'),
+          endDate: new Date('2024-01-28'),
+          rentAmount: 250,
+          rentFrequency: 'Weekly',
+          rentDueDay: null,
+        },
+        new Date('2024-01-01')
+      );
+
+      expect(schedule).toHaveLength(4);
+      expect(schedule[3].periodEnd.toISOString().slice(0, 10)).toBe('2024-01-28');
+      expect(schedule.every((p) => p.amountDue === 250 && !p.isProRata)).toBe(true);
+    });
+  });
+
+  describe('rent changes', () => {
+    it('should charge each period the rent in force on its due date', () => {
+      const schedule = rentLedgerService.generateSchedule(
+        {
+          startDate: new Date('2024-01-01'),
+          endDate: new Date('2024-04-30'),
+          rentAmount: 1000,
+          rentFrequency: 'Monthly',
+          rentDueDay: null,
+          rentChanges: [{ effectiveDate: new Date('2024-03-01'), rentAmount: 1100 }],
+        },
+        new Date('2024-01-01')
+      );
+
+      expect(schedule.map((p) => p.amountDue)).toEqual([1000, 1000, 1100, 1100]);
+    });
+
+    it('should pro-rate a short last period at the new rent', () => {
+      const schedule = rentLedgerService.generateSchedule(
+        {
+          startDate: new Date('2024-01-01'),
+          endDate: new Date('2024-03-10'),
+          rentAmount: 1000,
+          rentFrequency: 'Monthly',
+          rentDueDay: null,
+          rentChanges: [{ effectiveDate: new Date('2024-03-01'), rentAmount: 1200 }],
+        },
+        new Date('2024-01-01')
+      );
+
+      // 10 days at £14,400 a year / 365
+      expect(schedule[2]).toMatchObject({ amountDue: 394.52, isProRata: true });
+    });
+  });
+
+  describe('annualiseRent', () => {
+    it('should annualise each frequency by its periods per year', () => {
+      expect(annualiseRent(100, 'Weekly')).toBe(5200);
+      expect(annualiseRent(100, 'Fortnightly')).toBe(2600);
+      expect(annualiseRent(100, 'Four-weekly')).toBe(1300);
+      expect(annualiseRent(100, 'Monthly')).toBe(1200);
+      expect(annualiseRent(100, 'Quarterly')).toBe(400);
+      expect(annualiseRent(100, 'Annually')).toBe(100);
+    });
+
+    it('should express weekly rent as a calendar-month equivalent', () => {
+      expect(monthlyEquivalentRent(300, 'Weekly')).toBe(1300);
+    });
+  });
+
+  describe('allocatePayments', () => {
+    const schedule = rentLedgerService.generateSchedule(
+      {
+        startDate: new Date('2024-01-01'),
+        endDate: new Date('2024-04-30'),
+        rentAmount: 500,
+        rentFrequency: 'Monthly',
+        rentDueDay: null,
+      },
+      new Date('2024-01-01')
+    );
+
+    it('should allocate payments to the oldest periods first', () => {
+      const periods = rentLedgerService.allocatePayments(schedule, 1200, new Date('2024-03-15'));
+
+      expect(periods.map((p) => p.status)).toEqual(['Paid', 'Paid', 'Part Paid', 'Upcoming']);
+      expect(periods[2].amountPaid).toBe(200);
+      expect(periods[2].balance).toBe(300);
+    });
+
+    it('should mark unpaid past periods as overdue', () => {
+      const periods = rentLedgerService.allocatePayments(schedule, 0, new Date('2024-02-15'));
+
+      expect(periods.map((p) => p.status)).toEqual(['Overdue', 'Overdue', 'Upcoming', 'Upcoming']);
+    });
+
+    it('should carry overpayments into future periods', () => {
+      const periods = rentLedgerService.allocatePayments(schedule, 1000, new Date('2024-01-10'));
+
+      expect(periods.map((p) => p.status)).toEqual(['Paid', 'Paid', 'Upcoming', 'Upcoming']);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import { rentReviewService } from '../rentReview.service.js';
+
+describe('RentReviewService', () => {
+  describe('getNoticeDate', () => {
+    it('should require a month of notice for monthly and weekly rent', () => {
+      expect(rentReviewService.getNoticeDate(new Date('2024-06-01'), 'Monthly').toISOString()).toBe(
+        '2024-05-01T00:00:00.000Z'
+      );
+      expect(rentReviewService.getNoticeDate(new Date('2024-06-01'), 'Weekly').toISOString()).toBe(
+        '2024-05-01T00:00:00.000Z'
+      );
+    });
+
+    it('should require a full period for quarterly rent and six months for yearly rent', () => {
+      expect(rentReviewService.getNoticeDate(new Date('2024-06-25'), 'Quarterly').toISOString()).toBe(
+        '2024-03-25T00:00:00.000Z'
+      );
+      expect(rentReviewService.getNoticeDate(new Date('2024-12-01'), 'Annually').toISOString()).toBe(
+        '2024-06-01T00:00:00.000Z'
+      );
+    });
+
+    it('should clamp to the end of shorter months', () => {
+      expect(rentReviewService.getNoticeDate(new Date('2024-03-31'), 'Monthly').toISOString()).toBe(
+        '2024-02-29T00:00:00.000Z'
+      );
+    });
+  });
+
+  describe('buildRentHistory', () => {
+    const lease = {
+      id: 'lease-1',
+      startDate: new Date('2023-01-01'),
+      rentAmount: 1000,
+      rentFrequency: 'Monthly',
+      rentChanges: [
+        {
+          id: 'change-2',
+          effectiveDate: new Date('2025-01-01'),
+          rentAmount: 1100,
+          noticeDate: new Date('2024-12-01'),
+          noticeServedAt: null,
+          notes: null,
+        },
+        {
+          id: 'change-1',
+          effectiveDate: new Date('2024-01-01'),
+          rentAmount: 1050,
+          noticeDate: new Date('2023-12-01'),
+          noticeServedAt: new Date('2023-11-15'),
+          notes: 'Annual review',
+        },
+      ],
+    };
+
+    it('should list the starting rent then each change in date order', () => {
+      const history = rentReviewService.buildRentHistory(lease, new Date('2024-06-01'));
+
+      expect(history.entries.map((e) => [e.rentChangeId, e.rentAmount, e.status])).toEqual([
+        [null, 1000, 'Superseded'],
+        ['change-1', 1050, 'In Effect'],
+        ['change-2', 1100, 'Scheduled'],
+      ]);
+      expect(history.currentRent).toBe(1050);
+    });
+
+    it('should apply a change from its effective date', () => {
+      const history = rentReviewService.buildRentHistory(lease, new Date('2025-01-01'));
+
+      expect(history.currentRent).toBe(1100);
+      expect(history.entries[2].status).toBe('In Effect');
+    });
+  });
+});
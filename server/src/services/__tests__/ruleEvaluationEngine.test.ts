@@ -1,6 +1,6 @@
 import { describe, it, expect } from '@jest/globals';
-import { evaluateRules } from '../ruleEvaluationEngine.js';
-import type { BankTransaction, MatchingRule } from '@prisma/client';
+import { evaluateRules, type MatchingRuleWithSplits } from '../ruleEvaluationEngine.js';
+import type { BankTransaction } from '@prisma/client';
 
 // Helper to create mock bank transaction
 function createMockTransaction(overrides: Partial<BankTransaction> = {}): BankTransaction {
@@ -20,12 +20,17 @@ function createMockTransaction(overrides: Partial<BankTransaction> = {}): BankTr
     importedAt: new Date('2024-01-16T08:00:00Z'),
     transactionId: null,
     pendingTransactionId: null,
+    declineReason: null,
+    reversedAt: null,
+    reconciliationId: null,
+    duplicateOfId: null,
+    duplicateStatus: null,
     ...overrides,
   };
 }
 
 // Helper to create mock matching rule
-function createMockRule(overrides: Partial<MatchingRule> = {}): MatchingRule {
+function createMockRule(overrides: Partial<MatchingRuleWithSplits> = {}): MatchingRuleWithSplits {
   return {
     id: 'rule_test_001',
     bankAccountId: 'acc_test_001',
@@ -39,6 +44,8 @@ function createMockRule(overrides: Partial<MatchingRule> = {}): MatchingRule {
     propertyId: null,
     type: null,
     category: null,
+    leaseId: null,
+    paidByUserId: null,
     createdAt: new Date('2024-01-01T00:00:00Z'),
     updatedAt: new Date('2024-01-01T00:00:00Z'),
     ...overrides,
@@ -1397,4 +1404,268 @@ describe('Rule Evaluation Engine', () => {
       expect(result.category).toBe('precise_amount');
     });
   });
+
+  describe('Lease, payer and split assignments', () => {
+    const matchAll = JSON.stringify({
+      operator: 'AND',
+      rules: [{ field: 'description', matchType: 'contains', value: 'coffee' }],
+    });
+
+    it('should take assignments from a rule that sets the property', () => {
+      const rule = createMockRule({
+        conditions: matchAll,
+        propertyId: 'prop_001',
+        type: 'EXPENSE',
+        category: 'Maintenance',
+        leaseId: 'lease_001',
+        paidByUserId: 'user_001',
+        splits: [
+          { userId: 'user_001', percentage: 70 },
+          { userId: 'user_002', percentage: 30 },
+        ],
+      });
+
+      const result = evaluateRules(createMockTransaction(), [rule]);
+      expect(result.leaseId).toBe('lease_001');
+      expect(result.paidByUserId).toBe('user_001');
+      expect(result.splits).toEqual([
+        { userId: 'user_001', percentage: 70 },
+        { userId: 'user_002', percentage: 30 },
+      ]);
+      expect(result.isFullyMatched).toBe(true);
+    });
+
+    it('should keep evaluating fully matched results for assignments on the same property', () => {
+      const rules = [
+        createMockRule({
+          id: 'rule_001',
+          conditions: matchAll,
+          propertyId: 'prop_001',
+          type: 'EXPENSE',
+          category: 'Maintenance',
+        }),
+        createMockRule({
+          id: 'rule_002',
+          priority: 1,
+          conditions: matchAll,
+          propertyId: 'prop_002',
+          leaseId: 'lease_other',
+        }),
+        createMockRule({
+          id: 'rule_003',
+          priority: 2,
+          conditions: matchAll,
+          propertyId: 'prop_001',
+          paidByUserId: 'user_001',
+        }),
+      ];
+
+      const result = evaluateRules(createMockTransaction(), rules);
+      expect(result.propertyId).toBe('prop_001');
+      expect(result.leaseId).toBeUndefined();
+      expect(result.paidByUserId).toBe('user_001');
+      expect(result.matchedRules).toEqual(['rule_001', 'rule_003']);
+    });
+
+    it('should ignore an empty split preset', () => {
+      const rule = createMockRule({ conditions: matchAll, propertyId: 'prop_001', splits: [] });
+
+      const result = evaluateRules(createMockTransaction(), [rule]);
+      expect(result.splits).toBeUndefined();
+    });
+  });
+
+  describe('Extended conditions', () => {
+    const ruleFor = (conditions: object) =>
+      createMockRule({ conditions: JSON.stringify(conditions), propertyId: 'prop_001' });
+
+    const matches = (transaction: BankTransaction, conditions: object) =>
+      evaluateRules(transaction, [ruleFor(conditions)]).matchedRules.length === 1;
+
+    it('should match a regular expression, case-insensitive by default', () => {
+      const transaction = createMockTransaction({ description: 'RENT REF 12-B FLAT' });
+
+      expect(
+        matches(transaction, {
+          operator: 'AND',
+          rules: [{ field: 'description', matchType: 'regex', value: 'rent ref \\d+-b' }],
+        })
+      ).toBe(true);
+      expect(
+        matches(transaction, {
+          operator: 'AND',
+          rules: [{ field: 'description', matchType: 'regex', value: 'rent ref', caseSensitive: true }],
+        })
+      ).toBe(false);
+    });
+
+    it('should not match an invalid regular expression', () => {
+      expect(
+        matches(createMockTransaction(), {
+          operator: 'AND',
+          rules: [{ field: 'description', matchType: 'regex', value: '(' }],
+        })
+      ).toBe(false);
+    });
+
+    it('should match amounts between two values inclusively', () => {
+      const conditions = {
+        operator: 'AND',
+        rules: [{ field: 'amount', matchType: 'between', value: -100, valueTo: -50 }],
+      };
+
+      expect(matches(createMockTransaction({ amount: -50 }), conditions)).toBe(true);
+      expect(matches(createMockTransaction({ amount: -75 }), conditions)).toBe(true);
+      expect(matches(createMockTransaction({ amount: -49 }), conditions)).toBe(false);
+    });
+
+    it('should compare numeric equals as numbers', () => {
+      expect(
+        matches(createMockTransaction({ amount: -50 }), {
+          operator: 'AND',
+          rules: [{ field: 'amount', matchType: 'equals', value: '-50.00' }],
+        })
+      ).toBe(true);
+    });
+
+    it('should match the bank category', () => {
+      expect(
+        matches(createMockTransaction({ category: 'bills' }), {
+          operator: 'AND',
+          rules: [{ field: 'category', matchType: 'equals', value: 'Bills' }],
+        })
+      ).toBe(true);
+    });
+
+    it('should match the day of month and weekday of the transaction date', () => {
+      // Monday 15 January 2024
+      const transaction = createMockTransaction({ transactionDate: new Date('2024-01-15T10:00:00Z') });
+
+      expect(
+        matches(transaction, {
+          operator: 'AND',
+          rules: [
+            { field: 'dayOfMonth', matchType: 'between', value: 14, valueTo: 16 },
+            { field: 'weekday', matchType: 'equals', value: 1 },
+          ],
+        })
+      ).toBe(true);
+      expect(
+        matches(createMockTransaction({ transactionDate: new Date('2024-01-14T10:00:00Z') }), {
+          operator: 'AND',
+          rules: [{ field: 'weekday', matchType: 'equals', value: 7 }],
+        })
+      ).toBe(true);
+    });
+
+    it('should only match within a date window', () => {
+      const conditions = {
+        operator: 'AND',
+        rules: [
+          { field: 'description', matchType: 'contains', value: 'coffee' },
+          { field: 'date', matchType: 'between', value: '2024-01-01', valueTo: '2024-01-31' },
+        ],
+      };
+
+      expect(matches(createMockTransaction({ transactionDate: new Date('2024-01-31T23:00:00Z') }), conditions)).toBe(
+        true
+      );
+      expect(matches(createMockTransaction({ transactionDate: new Date('2024-02-01T00:00:00Z') }), conditions)).toBe(
+        false
+      );
+      expect(
+        matches(createMockTransaction(), {
+          operator: 'AND',
+          rules: [{ field: 'date', matchType: 'greaterThan', value: '2024-01-15' }],
+        })
+      ).toBe(false);
+    });
+
+    it('should evaluate nested AND/OR groups', () => {
+      const conditions = {
+        operator: 'AND',
+        rules: [
+          { field: 'amount', matchType: 'lessThan', value: 0 },
+          {
+            operator: 'OR',
+            rules: [
+              { field: 'merchant', matchType: 'contains', value: 'starbucks' },
+              {
+                operator: 'AND',
+                rules: [
+                  { field: 'description', matchType: 'contains', value: 'coffee' },
+                  { field: 'reference', matchType: 'equals', value: 'REF999' },
+                ],
+              },
+            ],
+          },
+        ],
+      };
+
+      expect(matches(createMockTransaction(), conditions)).toBe(true);
+      expect(matches(createMockTransaction({ merchant: 'Pret' }), conditions)).toBe(false);
+      expect(matches(createMockTransaction({ merchant: 'Pret', reference: 'REF999' }), conditions)).toBe(true);
+    });
+  });
+
+  describe('Rule attribution', () => {
+    const anyTransaction = JSON.stringify({
+      operator: 'AND',
+      rules: [{ field: 'description', matchType: 'contains', value: 'coffee' }],
+    });
+
+    it('should record which rule supplied each field', () => {
+      const result = evaluateRules(createMockTransaction(), [
+        createMockRule({ id: 'rule_property', priority: 0, conditions: anyTransaction, propertyId: 'prop_001' }),
+        createMockRule({
+          id: 'rule_outcome',
+          priority: 1,
+          conditions: anyTransaction,
+          type: 'EXPENSE',
+          category: 'Maintenance',
+        }),
+      ]);
+
+      expect(result.fieldSources).toEqual({
+        propertyId: 'rule_property',
+        type: 'rule_outcome',
+        category: 'rule_outcome',
+      });
+      expect(result.shadowedRules).toEqual([]);
+    });
+
+    it('should report matching rules whose fields were already set as shadowed', () => {
+      const result = evaluateRules(createMockTransaction(), [
+        createMockRule({
+          id: 'rule_first',
+          priority: 0,
+          conditions: anyTransaction,
+          propertyId: 'prop_001',
+          type: 'EXPENSE',
+          category: 'Maintenance',
+        }),
+        createMockRule({ id: 'rule_shadowed', priority: 1, conditions: anyTransaction, category: 'Repair' }),
+      ]);
+
+      expect(result.matchedRules).toEqual(['rule_first']);
+      expect(result.shadowedRules).toEqual(['rule_shadowed']);
+    });
+
+    it('should not report rules that do not match as shadowed', () => {
+      const result = evaluateRules(createMockTransaction(), [
+        createMockRule({ id: 'rule_first', priority: 0, conditions: anyTransaction, category: 'Maintenance' }),
+        createMockRule({
+          id: 'rule_other',
+          priority: 1,
+          conditions: JSON.stringify({
+            operator: 'AND',
+            rules: [{ field: 'description', matchType: 'contains', value: 'rent' }],
+          }),
+          category: 'Repair',
+        }),
+      ]);
+
+      expect(result.shadowedRules).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from '@jest/globals';
+import prisma from '../../db/client.js';
+import { evaluateRules } from '../ruleEvaluationEngine.js';
+import { ruleHitService, type RuleHitStats } from '../ruleHits.service.js';
+
+describe('RuleHitService', () => {
+  let bankAccountId: string;
+  let propertyId: string;
+  let counter = 0;
+
+  const createRule = (name: string, priority: number, value: string, outcome: Record<string, string>) =>
+    prisma.matchingRule.create({
+      data: {
+        bankAccountId,
+        priority,
+        name,
+        conditions: JSON.stringify({
+          operator: 'AND',
+          rules: [{ field: 'description', matchType: 'contains', value }],
+        }),
+        ...outcome,
+      },
+      include: { splits: true },
+    });
+
+  /**
+   * Evaluate the account's rules against a new bank transaction and record the hits
+   */
+  const evaluate = async (description: string) => {
+    counter++;
+    const bankTransaction = await prisma.bankTransaction.create({
+      data: {
+        bankAccountId,
+        externalId: `tx_${counter}`,
+        amount: 1000,
+        description,
+        transactionDate: new Date('2024-01-15'),
+      },
+    });
+    const rules = await prisma.matchingRule.findMany({ include: { splits: true } });
+    await ruleHitService.record(bankTransaction.id, evaluateRules(bankTransaction, rules));
+    return bankTransaction;
+  };
+
+  const getStats = async () => (await ruleHitService.getStats(bankAccountId)) as RuleHitStats[];
+
+  beforeAll(async () => {
+    await prisma.bankAccount.deleteMany({});
+    await prisma.property.deleteMany({});
+
+    propertyId = (
+      await prisma.property.create({
+        data: {
+          name: 'Hit Property',
+          street: '1 Hit Street',
+          city: 'Test City',
+          county: 'Test County',
+          postcode: 'TE1 1ST',
+          propertyType: 'Flat',
+          status: 'Occupied',
+        },
+      })
+    ).id;
+  });
+
+  beforeEach(async () => {
+    await prisma.bankAccount.deleteMany({});
+    await prisma.matchingRule.deleteMany({});
+
+    const bankAccount = await prisma.bankAccount.create({
+      data: {
+        accountId: 'acc_hits',
+        accountName: 'Hits Account',
+        accountType: 'current',
+        provider: 'mock',
+        syncFromDate: new Date('2024-01-01'),
+      },
+    });
+    bankAccountId = bankAccount.id;
+  });
+
+  afterAll(async () => {
+    await prisma.bankAccount.deleteMany({});
+    await prisma.matchingRule.deleteMany({});
+    await prisma.property.deleteMany({});
+  });
+
+  it('should count the transactions each rule supplied fields to', async () => {
+    const rent = await createRule('Rent', 0, 'rent', { propertyId, type: 'INCOME', category: 'Rent' });
+    const unused = await createRule('Insurance', 1, 'insurance', { type: 'EXPENSE', category: 'Insurance' });
+
+    await evaluate('Rent January');
+    await evaluate('Rent February');
+    await evaluate('Coffee');
+
+    const stats = await getStats();
+
+    expect(stats).toEqual([
+      expect.objectContaining({ ruleId: rent.id, hitCount: 2, shadowedCount: 0, status: 'active' }),
+      expect.objectContaining({ ruleId: unused.id, hitCount: 0, lastHitAt: null, status: 'unused' }),
+    ]);
+    expect(stats[0].lastHitAt).toBeInstanceOf(Date);
+  });
+
+  it('should report rules shadowed by higher priority rules', async () => {
+    const rent = await createRule('Rent', 0, 'rent', { propertyId, type: 'INCOME', category: 'Rent' });
+    const late = await createRule('Late rent', 1, 'late', { category: 'Late Fee' });
+
+    await evaluate('Late rent payment');
+
+    const [, lateStats] = await getStats();
+
+    expect(lateStats).toEqual({
+      ruleId: late.id,
+      hitCount: 0,
+      lastHitAt: null,
+      shadowedCount: 1,
+      shadowedBy: [rent.id],
+      status: 'shadowed',
+    });
+  });
+
+  it('should replace the hits from an earlier evaluation', async () => {
+    const rent = await createRule('Rent', 0, 'rent', { propertyId, type: 'INCOME', category: 'Rent' });
+
+    const bankTransaction = await evaluate('Rent January');
+    await ruleHitService.record(bankTransaction.id, evaluateRules(bankTransaction, []));
+
+    const [rentStats] = await getStats();
+
+    expect(rentStats).toMatchObject({ ruleId: rent.id, hitCount: 0, status: 'unused' });
+  });
+
+  it('should report unknown bank accounts', async () => {
+    const result = await ruleHitService.getStats('00000000-0000-0000-0000-000000000000');
+
+    expect(result).toEqual({ status: 404, error: 'Bank account not found' });
+  });
+});
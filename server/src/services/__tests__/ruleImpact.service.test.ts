@@ -0,0 +1,335 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from '@jest/globals';
+import prisma from '../../db/client.js';
+import { ruleImpactService, type RuleImpactReport, type RuleImpactResult } from '../ruleImpact.service.js';
+import type { ProposedMatchingRule } from '../../../../shared/validation/matchingRule.validation.js';
+
+describe('RuleImpactService', () => {
+  let bankAccountId: string;
+  let flatId: string;
+  let houseId: string;
+  let ownerId: string;
+  let counter = 0;
+
+  const rule = (value: string, outcome: Partial<ProposedMatchingRule>): ProposedMatchingRule => ({
+    name: `${value} rule`,
+    enabled: true,
+    conditions: JSON.stringify({
+      operator: 'AND',
+      rules: [{ field: 'description', matchType: 'contains', value }],
+    }),
+    ...outcome,
+  });
+
+  const createBankTransaction = async (description: string, amount: number) => {
+    counter++;
+    return prisma.bankTransaction.create({
+      data: {
+        bankAccountId,
+        externalId: `tx_${counter}`,
+        amount,
+        description,
+        transactionDate: new Date('2024-01-15'),
+      },
+    });
+  };
+
+  /**
+   * A bank transaction that rules posted to the ledger
+   */
+  const createPosted = async (
+    description: string,
+    amount: number,
+    outcome: { propertyId: string; type: string; category: string },
+    isImported = true
+  ) => {
+    const bankTransaction = await createBankTransaction(description, amount);
+    const transaction = await prisma.transaction.create({
+      data: {
+        ...outcome,
+        amount: isImported ? amount : Math.abs(amount) / 100,
+        transactionDate: bankTransaction.transactionDate,
+        description,
+        bankTransactionId: bankTransaction.id,
+        isImported,
+      },
+    });
+    await prisma.bankTransaction.update({
+      where: { id: bankTransaction.id },
+      data: { transactionId: transaction.id },
+    });
+    return { bankTransaction, transaction };
+  };
+
+  /**
+   * A bank transaction awaiting review
+   */
+  const createPending = async (description: string, amount: number) => {
+    const bankTransaction = await createBankTransaction(description, amount);
+    const pending = await prisma.pendingTransaction.create({
+      data: {
+        bankTransactionId: bankTransaction.id,
+        transactionDate: bankTransaction.transactionDate,
+        description,
+      },
+    });
+    await prisma.bankTransaction.update({
+      where: { id: bankTransaction.id },
+      data: { pendingTransactionId: pending.id },
+    });
+    return { bankTransaction, pending };
+  };
+
+  const preview = async (rules: ProposedMatchingRule[]) =>
+    (await ruleImpactService.preview(bankAccountId, rules)) as RuleImpactReport;
+
+  const apply = async (rules: ProposedMatchingRule[], bankTransactionIds: string[]) =>
+    (await ruleImpactService.apply(bankAccountId, rules, bankTransactionIds, ownerId)) as RuleImpactResult;
+
+  beforeAll(async () => {
+    await prisma.bankAccount.deleteMany({});
+    await prisma.transaction.deleteMany({});
+    await prisma.property.deleteMany({});
+
+    const propertyData = {
+      street: '1 Impact Street',
+      city: 'Test City',
+      county: 'Test County',
+      postcode: 'TE1 1ST',
+      propertyType: 'Flat',
+      status: 'Occupied',
+    };
+    flatId = (await prisma.property.create({ data: { ...propertyData, name: 'Flat' } })).id;
+    houseId = (await prisma.property.create({ data: { ...propertyData, name: 'House' } })).id;
+
+    ownerId = (
+      await prisma.user.create({ data: { email: 'impact@example.com', password: 'hashed', role: 'ADMIN' } })
+    ).id;
+    await prisma.propertyOwnership.create({
+      data: { userId: ownerId, propertyId: houseId, ownershipPercentage: 100 },
+    });
+  });
+
+  beforeEach(async () => {
+    await prisma.bankAccount.deleteMany({});
+    await prisma.matchingRule.deleteMany({});
+    await prisma.transaction.deleteMany({});
+
+    const bankAccount = await prisma.bankAccount.create({
+      data: {
+        accountId: 'acc_impact',
+        accountName: 'Impact Account',
+        accountType: 'current',
+        provider: 'mock',
+        syncFromDate: new Date('2024-01-01'),
+      },
+    });
+    bankAccountId = bankAccount.id;
+  });
+
+  afterAll(async () => {
+    await prisma.bankAccount.deleteMany({});
+    await prisma.transaction.deleteMany({});
+    await prisma.propertyOwnership.deleteMany({ where: { userId: ownerId } });
+    await prisma.property.deleteMany({});
+    await prisma.user.deleteMany({ where: { id: ownerId } });
+  });
+
+  describe('preview', () => {
+    it('should report ledger transactions and pending items the rules would change', async () => {
+      const { bankTransaction: posted } = await createPosted('Rent from J Smith', 95000, {
+        propertyId: flatId,
+        type: 'Income',
+        category: 'Rent',
+      });
+      const { bankTransaction: awaiting, pending } = await createPending('Rent from A Jones', 90000);
+
+      const report = await preview([rule('rent', { propertyId: houseId, type: 'INCOME', category: 'Rent' })]);
+
+      expect(report.evaluated).toBe(2);
+      expect(report.changes).toHaveLength(2);
+
+      const ledgerChange = report.changes.find((change) => change.bankTransactionId === posted.id);
+      expect(ledgerChange).toMatchObject({
+        source: 'transaction',
+        current: { propertyId: flatId, propertyName: 'Flat', type: 'INCOME', category: 'Rent' },
+        proposed: { propertyId: houseId, propertyName: 'House', type: 'INCOME', category: 'Rent' },
+        changedFields: ['propertyId'],
+        locked: false,
+      });
+
+      const pendingChange = report.changes.find((change) => change.bankTransactionId === awaiting.id);
+      expect(pendingChange).toMatchObject({
+        source: 'pending',
+        pendingTransactionId: pending.id,
+        current: { propertyId: null, type: null, category: null },
+        proposed: { propertyId: houseId, type: 'INCOME', category: 'Rent' },
+        changedFields: ['propertyId', 'type', 'category'],
+      });
+    });
+
+    it('should not report transactions the rules leave as they are', async () => {
+      await createPosted('Rent from J Smith', 95000, { propertyId: flatId, type: 'Income', category: 'Rent' });
+      await createPosted('Plumber', -12000, { propertyId: flatId, type: 'Expense', category: 'Maintenance' });
+
+      const report = await preview([rule('rent', { propertyId: flatId, type: 'INCOME', category: 'Rent' })]);
+
+      expect(report.evaluated).toBe(2);
+      expect(report.changes).toEqual([]);
+    });
+
+    it('should follow the proposed priority order', async () => {
+      await createPosted('Rent deposit', 50000, { propertyId: flatId, type: 'Income', category: 'Rent' });
+
+      const report = await preview([
+        rule('deposit', { category: 'Security Deposit' }),
+        rule('rent', { propertyId: flatId, type: 'INCOME', category: 'Rent' }),
+      ]);
+
+      expect(report.changes).toHaveLength(1);
+      expect(report.changes[0].proposed.category).toBe('Security Deposit');
+      expect(report.changes[0].changedFields).toEqual(['category']);
+    });
+
+    it('should leave out manual transactions linked to the bank', async () => {
+      await createPosted('Rent from J Smith', 95000, { propertyId: flatId, type: 'Income', category: 'Rent' }, false);
+
+      const report = await preview([rule('rent', { propertyId: houseId, type: 'INCOME', category: 'Rent' })]);
+
+      expect(report).toEqual({ evaluated: 0, changes: [] });
+    });
+
+    it('should leave out pending items a reviewer approved', async () => {
+      const { bankTransaction } = await createPosted('Rent from J Smith', 95000, {
+        propertyId: flatId,
+        type: 'Income',
+        category: 'Rent',
+      });
+      const pending = await prisma.pendingTransaction.create({
+        data: {
+          bankTransactionId: bankTransaction.id,
+          propertyId: flatId,
+          type: 'Income',
+          category: 'Rent',
+          transactionDate: bankTransaction.transactionDate,
+          description: bankTransaction.description,
+          reviewedAt: new Date(),
+        },
+      });
+      await prisma.bankTransaction.update({
+        where: { id: bankTransaction.id },
+        data: { pendingTransactionId: pending.id },
+      });
+
+      const report = await preview([rule('rent', { propertyId: houseId, type: 'INCOME', category: 'Rent' })]);
+
+      expect(report).toEqual({ evaluated: 0, changes: [] });
+    });
+
+    it('should flag changes in locked reconciliation periods', async () => {
+      const { bankTransaction } = await createPosted('Rent from J Smith', 95000, {
+        propertyId: flatId,
+        type: 'Income',
+        category: 'Rent',
+      });
+      const reconciliation = await prisma.bankReconciliation.create({
+        data: {
+          bankAccountId,
+          statementDate: new Date('2024-01-31'),
+          statementBalance: 95000,
+          openingBalance: 0,
+          ledgerBalance: 95000,
+          difference: 0,
+          lockedAt: new Date(),
+          createdBy: ownerId,
+        },
+      });
+      await prisma.bankTransaction.update({
+        where: { id: bankTransaction.id },
+        data: { reconciliationId: reconciliation.id },
+      });
+
+      const report = await preview([rule('rent', { propertyId: houseId, type: 'INCOME', category: 'Rent' })]);
+
+      expect(report.changes[0].locked).toBe(true);
+    });
+
+    it('should report unknown bank accounts', async () => {
+      const result = await ruleImpactService.preview('00000000-0000-0000-0000-000000000000', []);
+
+      expect(result).toEqual({ status: 404, error: 'Bank account not found' });
+    });
+  });
+
+  describe('apply', () => {
+    it('should apply only the selected changes', async () => {
+      const { bankTransaction: first, transaction: firstTransaction } = await createPosted('Rent flat 1', 95000, {
+        propertyId: flatId,
+        type: 'Income',
+        category: 'Rent',
+      });
+      const { transaction: secondTransaction } = await createPosted('Rent flat 2', 90000, {
+        propertyId: flatId,
+        type: 'Income',
+        category: 'Rent',
+      });
+      const rules = [rule('rent', { category: 'Late Fee' })];
+
+      const result = await apply(rules, [first.id]);
+
+      expect(result).toEqual({ applied: 1, skipped: [] });
+      expect((await prisma.transaction.findUnique({ where: { id: firstTransaction.id } }))?.category).toBe('Late Fee');
+      expect((await prisma.transaction.findUnique({ where: { id: secondTransaction.id } }))?.category).toBe('Rent');
+
+      const auditLogs = await prisma.transactionAuditLog.findMany({ where: { transactionId: firstTransaction.id } });
+      expect(auditLogs).toHaveLength(1);
+      expect(auditLogs[0]).toMatchObject({ userId: ownerId, field: 'category', oldValue: 'Rent', newValue: 'Late Fee' });
+    });
+
+    it('should split a transaction moved to another property between its owners', async () => {
+      const { bankTransaction, transaction } = await createPosted('Rent flat 1', 95000, {
+        propertyId: flatId,
+        type: 'Income',
+        category: 'Rent',
+      });
+
+      await apply([rule('rent', { propertyId: houseId, type: 'INCOME', category: 'Rent' })], [bankTransaction.id]);
+
+      const moved = await prisma.transaction.findUnique({
+        where: { id: transaction.id },
+        include: { splits: true },
+      });
+      expect(moved?.propertyId).toBe(houseId);
+      expect(moved?.splits).toEqual([expect.objectContaining({ userId: ownerId, percentage: 100, amount: 95000 })]);
+    });
+
+    it('should update pending items and leave them for review', async () => {
+      const { bankTransaction, pending } = await createPending('Rent from A Jones', 90000);
+
+      await apply([rule('rent', { propertyId: houseId, type: 'INCOME', category: 'Rent' })], [bankTransaction.id]);
+
+      const updated = await prisma.pendingTransaction.findUnique({ where: { id: pending.id } });
+      expect(updated).toMatchObject({ propertyId: houseId, type: 'Income', category: 'Rent', reviewedAt: null });
+    });
+
+    it('should skip changes that cannot be made', async () => {
+      const { bankTransaction: invalid } = await createPosted('Rent flat 1', 95000, {
+        propertyId: flatId,
+        type: 'Income',
+        category: 'Rent',
+      });
+      const { bankTransaction: unchanged } = await createPosted('Plumber', -12000, {
+        propertyId: flatId,
+        type: 'Expense',
+        category: 'Maintenance',
+      });
+
+      const result = await apply([rule('rent', { category: 'Maintenance' })], [invalid.id, unchanged.id]);
+
+      expect(result.applied).toBe(0);
+      expect(result.skipped).toEqual([
+        { bankTransactionId: invalid.id, error: 'Category must match the transaction type' },
+        { bankTransactionId: unchanged.id, error: 'The proposed rules do not change this transaction' },
+      ]);
+    });
+  });
+});
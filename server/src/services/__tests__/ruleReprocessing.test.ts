@@ -828,6 +828,136 @@ describe('Rule Reprocessing Service', () => {
       expect(stillPending).not.toBeNull();
     });
 
+    it('should leave pending transactions that match a manual transaction for review', async () => {
+      await prisma.matchingRule.create({
+        data: {
+          bankAccountId: testBankAccountId,
+          priority: 0,
+          enabled: true,
+          name: 'Rent Rule',
+          conditions: JSON.stringify({
+            operator: 'AND',
+            rules: [
+              {
+                field: 'description',
+                matchType: 'contains',
+                value: 'rent',
+                caseSensitive: false,
+              },
+            ],
+          }),
+          propertyId: testPropertyId,
+          type: 'INCOME',
+          category: 'Rent',
+        },
+      });
+
+      // The same payment, already entered by hand
+      const manual = await prisma.transaction.create({
+        data: {
+          propertyId: testPropertyId,
+          type: 'Income',
+          category: 'Rent',
+          amount: 10,
+          transactionDate: new Date('2024-01-14'),
+          description: 'January rent',
+        },
+      });
+
+      const bankTx = await prisma.bankTransaction.create({
+        data: {
+          bankAccountId: testBankAccountId,
+          externalId: 'tx_manual_match_001',
+          amount: 1000,
+          currency: 'GBP',
+          description: 'rent payment',
+          transactionDate: new Date('2024-01-15'),
+        },
+      });
+
+      const pendingTx = await prisma.pendingTransaction.create({
+        data: {
+          bankTransactionId: bankTx.id,
+          transactionDate: bankTx.transactionDate,
+          description: bankTx.description,
+        },
+      });
+
+      await prisma.bankTransaction.update({
+        where: { id: bankTx.id },
+        data: { pendingTransactionId: pendingTx.id },
+      });
+
+      const result = await reprocessPendingTransactions(testBankAccountId);
+
+      expect(result.processed).toBe(1);
+      expect(result.approved).toBe(0);
+
+      const transactions = await prisma.transaction.findMany();
+      expect(transactions.map((tx) => tx.id)).toEqual([manual.id]);
+
+      const stillPending = await prisma.pendingTransaction.findUnique({ where: { id: pendingTx.id } });
+      expect(stillPending).toMatchObject({ propertyId: testPropertyId, type: 'Income', category: 'Rent' });
+    });
+
+    it('should leave pending transactions the bank reversed unposted', async () => {
+      await prisma.matchingRule.create({
+        data: {
+          bankAccountId: testBankAccountId,
+          priority: 0,
+          enabled: true,
+          name: 'Rent Rule',
+          conditions: JSON.stringify({
+            operator: 'AND',
+            rules: [
+              {
+                field: 'description',
+                matchType: 'contains',
+                value: 'rent',
+                caseSensitive: false,
+              },
+            ],
+          }),
+          propertyId: testPropertyId,
+          type: 'INCOME',
+          category: 'Rent',
+        },
+      });
+
+      const bankTx = await prisma.bankTransaction.create({
+        data: {
+          bankAccountId: testBankAccountId,
+          externalId: 'tx_reversed_001',
+          amount: 1000,
+          currency: 'GBP',
+          description: 'rent payment',
+          transactionDate: new Date('2024-01-15'),
+          reversedAt: new Date('2024-01-16'),
+        },
+      });
+
+      const pendingTx = await prisma.pendingTransaction.create({
+        data: {
+          bankTransactionId: bankTx.id,
+          transactionDate: bankTx.transactionDate,
+          description: bankTx.description,
+        },
+      });
+
+      await prisma.bankTransaction.update({
+        where: { id: bankTx.id },
+        data: { pendingTransactionId: pendingTx.id },
+      });
+
+      const result = await reprocessPendingTransactions(testBankAccountId);
+      const globalResult = await reprocessPendingTransactions(null);
+
+      expect(result.processed).toBe(0);
+      expect(globalResult.processed).toBe(0);
+      expect(await prisma.transaction.count()).toBe(0);
+      expect(await prisma.pendingTransaction.findUnique({ where: { id: pendingTx.id } })).not.toBeNull();
+    });
+
     it('should update pending transaction with partial matches', async () => {
       // Create rule with only propertyId
       await prisma.matchingRule.create({
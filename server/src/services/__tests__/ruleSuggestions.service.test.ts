@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from '@jest/globals';
+import prisma from '../../db/client.js';
+import { ruleSuggestionService, type RuleSuggestion } from '../ruleSuggestions.service.js';
+
+describe('RuleSuggestionService', () => {
+  let bankAccountId: string;
+  let flatId: string;
+  let houseId: string;
+  let userId: string;
+  let counter = 0;
+
+  /**
+   * Record a bank transaction that a reviewer approved into the ledger
+   */
+  const approve = async (
+    data: { counterpartyName?: string; merchant?: string; reference?: string; amount: number },
+    outcome: { propertyId: string; type: 'Income' | 'Expense'; category: string }
+  ) => {
+    counter++;
+    const bankTransaction = await prisma.bankTransaction.create({
+      data: {
+        bankAccountId,
+        externalId: `tx_${counter}`,
+        amount: data.amount,
+        description: `Payment ${counter}`,
+        counterpartyName: data.counterpartyName,
+        merchant: data.merchant,
+        reference: data.reference,
+        transactionDate: new Date('2024-01-15'),
+      },
+    });
+    const transaction = await prisma.transaction.create({
+      data: {
+        ...outcome,
+        amount: data.amount,
+        transactionDate: bankTransaction.transactionDate,
+        description: bankTransaction.description,
+        bankTransactionId: bankTransaction.id,
+        isImported: true,
+      },
+    });
+    await prisma.bankTransaction.update({
+      where: { id: bankTransaction.id },
+      data: { transactionId: transaction.id },
+    });
+    await prisma.pendingTransaction.create({
+      data: {
+        bankTransactionId: bankTransaction.id,
+        transactionDate: bankTransaction.transactionDate,
+        description: bankTransaction.description,
+        reviewedAt: new Date(),
+        reviewedBy: userId,
+      },
+    });
+  };
+
+  const suggest = async () => (await ruleSuggestionService.suggest(bankAccountId)) as RuleSuggestion[];
+
+  const rent = { propertyId: '', type: 'Income' as const, category: 'Rent' };
+
+  beforeAll(async () => {
+    await prisma.bankAccount.deleteMany({});
+    await prisma.matchingRule.deleteMany({});
+    await prisma.transaction.deleteMany({});
+    await prisma.property.deleteMany({});
+
+    const propertyData = {
+      street: '1 Suggestion Street',
+      city: 'Test City',
+      county: 'Test County',
+      postcode: 'TE1 1ST',
+      propertyType: 'Flat',
+      status: 'Occupied',
+    };
+    flatId = (await prisma.property.create({ data: { ...propertyData, name: 'Flat' } })).id;
+    houseId = (await prisma.property.create({ data: { ...propertyData, name: 'House' } })).id;
+    rent.propertyId = flatId;
+
+    userId = (
+      await prisma.user.create({ data: { email: 'suggestions@example.com', password: 'hashed', role: 'ADMIN' } })
+    ).id;
+  });
+
+  beforeEach(async () => {
+    await prisma.bankAccount.deleteMany({});
+    await prisma.matchingRule.deleteMany({});
+    await prisma.transaction.deleteMany({});
+
+    const bankAccount = await prisma.bankAccount.create({
+      data: {
+        accountId: 'acc_suggestions',
+        accountName: 'Suggestions Account',
+        accountType: 'current',
+        provider: 'mock',
+        syncFromDate: new Date('2024-01-01'),
+      },
+    });
+    bankAccountId = bankAccount.id;
+  });
+
+  afterAll(async () => {
+    await prisma.bankAccount.deleteMany({});
+    await prisma.transaction.deleteMany({});
+    await prisma.property.deleteMany({});
+    await prisma.user.deleteMany({ where: { id: userId } });
+  });
+
+  it('should suggest a rule for a counterparty approved the same way repeatedly', async () => {
+    await approve({ counterpartyName: 'J Smith', amount: 95000 }, rent);
+    await approve({ counterpartyName: 'j smith', amount: 95000 }, rent);
+    await approve({ counterpartyName: 'Other Person', amount: 95000 }, rent);
+
+    const suggestions = await suggest();
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({
+      key: 'counterpartyName:j smith',
+      propertyId: flatId,
+      propertyName: 'Flat',
+      type: 'INCOME',
+      category: 'Rent',
+      hitCount: 2,
+      accuracy: 1,
+      conditions: {
+        operator: 'AND',
+        rules: [
+          { field: 'counterpartyName', matchType: 'equals', value: 'J Smith', caseSensitive: false },
+          { field: 'amount', matchType: 'equals', value: 95000 },
+        ],
+      },
+    });
+  });
+
+  it('should leave out the amount when it varies and report accuracy', async () => {
+    const repairs = { propertyId: houseId, type: 'Expense' as const, category: 'Maintenance' };
+    for (const amount of [-12000, -8000, -15000, -9000]) {
+      await approve({ merchant: 'Plumbfix', amount }, repairs);
+    }
+    await approve({ merchant: 'Plumbfix', amount: -5000 }, { ...repairs, propertyId: flatId });
+
+    const [suggestion] = await suggest();
+
+    expect(suggestion.propertyId).toBe(houseId);
+    expect(suggestion.conditions.rules).toEqual([
+      { field: 'merchant', matchType: 'equals', value: 'Plumbfix', caseSensitive: false },
+    ]);
+    expect(suggestion.hitCount).toBe(5);
+    expect(suggestion.accuracy).toBe(0.8);
+  });
+
+  it('should not suggest patterns that are approved inconsistently', async () => {
+    await approve({ reference: 'MISC', amount: 1000 }, rent);
+    await approve({ reference: 'MISC', amount: 1000 }, { ...rent, propertyId: houseId });
+
+    expect(await suggest()).toEqual([]);
+  });
+
+  it('should offer one rule when a counterparty and merchant cover the same approvals', async () => {
+    await approve({ counterpartyName: 'Council', merchant: 'Council', amount: -20000 }, rent);
+    await approve({ counterpartyName: 'Council', merchant: 'Council', amount: -20000 }, rent);
+
+    const suggestions = await suggest();
+
+    expect(suggestions.map((suggestion) => suggestion.key)).toEqual(['counterpartyName:council']);
+  });
+
+  it('should not suggest what an existing rule already does', async () => {
+    await approve({ counterpartyName: 'J Smith', amount: 95000 }, rent);
+    await approve({ counterpartyName: 'J Smith', amount: 95000 }, rent);
+    await prisma.matchingRule.create({
+      data: {
+        bankAccountId,
+        priority: 0,
+        name: 'Rent',
+        conditions: JSON.stringify({
+          operator: 'AND',
+          rules: [{ field: 'counterpartyName', matchType: 'contains', value: 'smith' }],
+        }),
+        propertyId: flatId,
+        type: 'INCOME',
+        category: 'Rent',
+      },
+    });
+
+    expect(await suggest()).toEqual([]);
+  });
+
+  it('should not suggest dismissed patterns again', async () => {
+    await approve({ counterpartyName: 'J Smith', amount: 95000 }, rent);
+    await approve({ counterpartyName: 'J Smith', amount: 95000 }, rent);
+
+    await ruleSuggestionService.dismiss(bankAccountId, 'counterpartyName:j smith', userId);
+
+    expect(await suggest()).toEqual([]);
+  });
+
+  it('should report unknown bank accounts', async () => {
+    const result = await ruleSuggestionService.suggest('00000000-0000-0000-0000-000000000000');
+
+    expect(result).toEqual({ status: 404, error: 'Bank account not found' });
+  });
+});
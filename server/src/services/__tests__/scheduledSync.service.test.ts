@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterAll } from '@jest/globals';
+import type { Prisma } from '@prisma/client';
+import prisma from '../../db/client.js';
+import { encryptToken } from '../encryption.js';
+import { scheduledSyncService } from '../scheduledSync.service.js';
+import { mockBankProvider } from '../bankProviders/mock.provider.js';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('ScheduledSyncService', () => {
+  const asOf = new Date();
+
+  const createAccount = (data: Partial<Prisma.BankAccountCreateInput> = {}) =>
+    prisma.bankAccount.create({
+      data: {
+        accountId: 'mock_acc_scheduled',
+        accountName: 'Scheduled Account',
+        accountType: 'current',
+        provider: 'mock',
+        accessToken: encryptToken('mock_access_test'),
+        syncFromDate: new Date('2024-01-01'),
+        syncEnabled: true,
+        ...data,
+      },
+    });
+
+  beforeEach(async () => {
+    await prisma.syncLog.deleteMany({});
+    await prisma.bankTransaction.deleteMany({});
+    await prisma.bankAccount.deleteMany({});
+
+    mockBankProvider.reset();
+    mockBankProvider.addTransactions('mock_acc_scheduled', [
+      { id: 'mock_tx_scheduled', date: '2024-02-01T00:00:00Z', amount: 85000, description: 'Rent' },
+    ]);
+  });
+
+  afterAll(async () => {
+    await prisma.syncLog.deleteMany({});
+    await prisma.bankTransaction.deleteMany({});
+    await prisma.bankAccount.deleteMany({});
+  });
+
+  describe('nextSyncAt', () => {
+    const from = new Date('2024-01-01T00:00:00Z');
+
+    it('should add the sync interval', () => {
+      expect(scheduledSyncService.nextSyncAt(from, 60).toISOString()).toBe('2024-01-01T01:00:00.000Z');
+    });
+
+    it('should double the interval for each consecutive failure', () => {
+      expect(scheduledSyncService.nextSyncAt(from, 60, 1).toISOString()).toBe('2024-01-01T02:00:00.000Z');
+      expect(scheduledSyncService.nextSyncAt(from, 60, 3).toISOString()).toBe('2024-01-01T08:00:00.000Z');
+    });
+
+    it('should cap the backoff at a day, or the interval if longer', () => {
+      expect(scheduledSyncService.nextSyncAt(from, 360, 10).toISOString()).toBe('2024-01-02T00:00:00.000Z');
+      expect(scheduledSyncService.nextSyncAt(from, 2880, 2).toISOString()).toBe('2024-01-03T00:00:00.000Z');
+    });
+  });
+
+  describe('runDue', () => {
+    it('should sync due accounts and schedule the next sync', async () => {
+      const account = await createAccount({ syncIntervalMinutes: 120, syncFailureCount: 2 });
+
+      const result = await scheduledSyncService.runDue(asOf);
+
+      expect(result.synced).toEqual([{ bankAccountId: account.id, transactionsFetched: 1 }]);
+      expect(result.failed).toHaveLength(0);
+
+      const syncLog = await prisma.syncLog.findFirst({ where: { bankAccountId: account.id } });
+      expect(syncLog?.syncType).toBe('scheduled');
+      expect(syncLog?.status).toBe('success');
+
+      const updated = await prisma.bankAccount.findUnique({ where: { id: account.id } });
+      expect(updated?.syncFailureCount).toBe(0);
+      expect(updated?.nextScheduledSyncAt?.getTime()).toBe(asOf.getTime() + 120 * MINUTE_MS);
+      expect(await prisma.bankTransaction.count({ where: { bankAccountId: account.id } })).toBe(1);
+    });
+
+    it('should skip accounts that are not due, disabled or imported from statements', async () => {
+      await createAccount({ nextScheduledSyncAt: new Date(asOf.getTime() + MINUTE_MS) });
+      await createAccount({ accountId: 'mock_acc_disabled', syncEnabled: false });
+      await createAccount({ accountId: 'import_acc', provider: 'file_import', accessToken: null });
+
+      const result = await scheduledSyncService.runDue(asOf);
+
+      expect(result.synced).toHaveLength(0);
+      expect(result.failed).toHaveLength(0);
+      expect(await prisma.syncLog.count()).toBe(0);
+    });
+
+    it('should back off after consecutive failures', async () => {
+      const account = await createAccount({ provider: 'unknown_bank', syncIntervalMinutes: 60 });
+
+      const first = await scheduledSyncService.runDue(asOf);
+
+      expect(first.failed).toHaveLength(1);
+      expect(first.failed[0].error).toBe('Unknown bank provider: unknown_bank');
+      expect(first.failed[0].nextSyncAt.getTime()).toBe(asOf.getTime() + 120 * MINUTE_MS);
+
+      const later = new Date(asOf.getTime() + 120 * MINUTE_MS);
+      const second = await scheduledSyncService.runDue(later);
+
+      expect(second.failed[0].nextSyncAt.getTime()).toBe(later.getTime() + 240 * MINUTE_MS);
+
+      const updated = await prisma.bankAccount.findUnique({ where: { id: account.id } });
+      expect(updated?.syncFailureCount).toBe(2);
+      expect(updated?.lastSyncStatus).toBe('failed');
+    });
+
+    it('should leave accounts with a sync in progress for the next check', async () => {
+      const account = await createAccount();
+      await prisma.syncLog.create({
+        data: { bankAccountId: account.id, syncType: 'manual', status: 'in_progress' },
+      });
+
+      const result = await scheduledSyncService.runDue(asOf);
+
+      expect(result.skipped).toEqual([{ bankAccountId: account.id, reason: 'Sync already in progress' }]);
+
+      const updated = await prisma.bankAccount.findUnique({ where: { id: account.id } });
+      expect(updated?.syncFailureCount).toBe(0);
+      expect(updated?.nextScheduledSyncAt).toBeNull();
+    });
+  });
+});
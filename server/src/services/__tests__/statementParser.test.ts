@@ -0,0 +1,165 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  detectStatementFormat,
+  parseCsv,
+  parseCsvRows,
+  parseOfx,
+  parseQif,
+  parseStatementAmount,
+  parseStatementDate,
+  StatementParseError,
+} from '../statementParser.js';
+
+describe('statementParser', () => {
+  describe('parseStatementDate', () => {
+    it('should parse each supported format to UTC midnight', () => {
+      expect(parseStatementDate('05/03/2024', 'DD/MM/YYYY')).toEqual(new Date('2024-03-05'));
+      expect(parseStatementDate('03/05/2024', 'MM/DD/YYYY')).toEqual(new Date('2024-03-05'));
+      expect(parseStatementDate('2024-03-05', 'YYYY-MM-DD')).toEqual(new Date('2024-03-05'));
+      expect(parseStatementDate('5 Mar 2024', 'DD MMM YYYY')).toEqual(new Date('2024-03-05'));
+    });
+
+    it('should accept two-digit years and QIF apostrophe separators', () => {
+      expect(parseStatementDate("05/03'24", 'DD/MM/YYYY')).toEqual(new Date('2024-03-05'));
+    });
+
+    it('should reject impossible or mismatched dates', () => {
+      expect(parseStatementDate('31/02/2024', 'DD/MM/YYYY')).toBeNull();
+      expect(parseStatementDate('2024-03-05', 'DD/MM/YYYY')).toBeNull();
+      expect(parseStatementDate('5 Foo 2024', 'DD MMM YYYY')).toBeNull();
+    });
+  });
+
+  describe('parseStatementAmount', () => {
+    it('should convert amounts to pence', () => {
+      expect(parseStatementAmount('£1,250.00')).toBe(125000);
+      expect(parseStatementAmount('-45.99')).toBe(-4599);
+      expect(parseStatementAmount('(12.50)')).toBe(-1250);
+      expect(parseStatementAmount('0.1')).toBe(10);
+    });
+
+    it('should return null for blank or non-numeric values', () => {
+      expect(parseStatementAmount('')).toBeNull();
+      expect(parseStatementAmount('n/a')).toBeNull();
+    });
+  });
+
+  describe('parseCsvRows', () => {
+    it('should handle quoted fields, escaped quotes and CRLF line endings', () => {
+      const rows = parseCsvRows('\uFEFFa,b\r\n"x, y","say ""hi"""\r\n\r\n');
+
+      expect(rows).toEqual([
+        ['a', 'b'],
+        ['x, y', 'say "hi"'],
+      ]);
+    });
+  });
+
+  describe('parseCsv', () => {
+    const csv = [
+      'Account: 12345678',
+      'Date,Description,Amount,Reference',
+      '01/03/2024,RENT FLAT 1,1250.00,SMITH',
+      '02/03/2024,COUNCIL TAX,-150.00,',
+      '02/03/2024,COUNCIL TAX,-150.00,',
+    ].join('\n');
+
+    const mapping = {
+      dateColumn: 'date',
+      dateFormat: 'DD/MM/YYYY' as const,
+      descriptionColumn: 'Description',
+      amountColumn: 'Amount',
+      referenceColumn: 'Reference',
+      skipRows: 1,
+    };
+
+    it('should map columns case-insensitively after skipped rows', () => {
+      const { transactions, errors } = parseCsv(csv, mapping);
+
+      expect(errors).toEqual([]);
+      expect(transactions).toHaveLength(3);
+      expect(transactions[0]).toMatchObject({
+        amount: 125000,
+        currency: 'GBP',
+        description: 'RENT FLAT 1',
+        reference: 'SMITH',
+        transactionDate: new Date('2024-03-01'),
+      });
+      expect(transactions[1].reference).toBeNull();
+    });
+
+    it('should give identical rows distinct external IDs that are stable across parses', () => {
+      const first = parseCsv(csv, mapping).transactions.map((t) => t.externalId);
+      const second = parseCsv(csv, mapping).transactions.map((t) => t.externalId);
+
+      expect(new Set(first).size).toBe(3);
+      expect(second).toEqual(first);
+    });
+
+    it('should throw when a mapped column is missing', () => {
+      expect(() => parseCsv(csv, { ...mapping, skipRows: 0 })).toThrow(StatementParseError);
+    });
+  });
+
+  describe('parseOfx', () => {
+    it('should parse SGML transactions using the FITID as the external ID', () => {
+      const ofx = `OFXHEADER:100
+<OFX><STMTRS><CURDEF>GBP<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240305000000[0:GMT]<TRNAMT>-45.99<FITID>ABC123<NAME>BRITISH GAS &amp; CO<MEMO>DD</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>bad<TRNAMT>1.00<FITID>ABC124<NAME>X</STMTTRN>
+</BANKTRANLIST></STMTRS></OFX>`;
+
+      const { transactions, errors } = parseOfx(ofx);
+
+      expect(transactions).toEqual([
+        {
+          externalId: 'ofx_ABC123',
+          amount: -4599,
+          currency: 'GBP',
+          description: 'BRITISH GAS & CO',
+          counterpartyName: 'BRITISH GAS & CO',
+          reference: 'DD',
+          merchant: null,
+          category: null,
+          transactionDate: new Date('2024-03-05'),
+          settledDate: new Date('2024-03-05'),
+        },
+      ]);
+      expect(errors).toEqual([{ row: 2, error: 'Invalid date "bad"' }]);
+    });
+
+    it('should reject files that are not OFX', () => {
+      expect(() => parseOfx('Date,Amount')).toThrow('File is not a valid OFX statement');
+    });
+  });
+
+  describe('parseQif', () => {
+    it('should parse records in the given date format', () => {
+      const qif = ['!Type:Bank', 'D03/05/2024', 'T-1,000.00', 'PACME LETTINGS', 'MFees', '^', 'D03/06/2024', 'T20.00', 'MInterest', '^', ''].join('\n');
+
+      const { transactions, errors } = parseQif(qif, 'MM/DD/YYYY');
+
+      expect(errors).toEqual([]);
+      expect(transactions).toHaveLength(2);
+      expect(transactions[0]).toMatchObject({
+        amount: -100000,
+        description: 'ACME LETTINGS',
+        counterpartyName: 'ACME LETTINGS',
+        reference: 'Fees',
+        transactionDate: new Date('2024-03-05'),
+      });
+      expect(transactions[1]).toMatchObject({ description: 'Interest', counterpartyName: null });
+    });
+  });
+
+  describe('detectStatementFormat', () => {
+    it('should use the extension, then the content', () => {
+      expect(detectStatementFormat('jan.CSV', '')).toBe('csv');
+      expect(detectStatementFormat('jan.qfx', '')).toBe('ofx');
+      expect(detectStatementFormat('jan.qif', '')).toBe('qif');
+      expect(detectStatementFormat('download', 'OFXHEADER:100')).toBe('ofx');
+      expect(detectStatementFormat('download', '!Type:Bank')).toBe('qif');
+      expect(detectStatementFormat('download', 'hello')).toBeNull();
+    });
+  });
+});
@@ -293,9 +293,9 @@ describe('Transaction Processor Service', () => {
       expect(count).toBe(1);
     });
 
-    it('should skip fuzzy duplicate transactions', async () => {
+    it('should hold fuzzy duplicate transactions for review', async () => {
       // Create existing transaction
-      await prisma.bankTransaction.create({
+      const existing = await prisma.bankTransaction.create({
         data: {
           bankAccountId: testBankAccountId,
           externalId: 'tx_existing',
@@ -322,13 +322,21 @@ describe('Transaction Processor Service', () => {
 
       const result = await processTransactions(monzoTransactions, testBankAccountId);
 
-      expect(result.processed).toBe(0);
-      expect(result.duplicatesSkipped).toBe(1);
+      expect(result.processed).toBe(1);
+      expect(result.duplicatesSkipped).toBe(0);
+      expect(result.possibleDuplicates).toBe(1);
       expect(result.errors).toHaveLength(0);
 
-      // Verify only the original transaction exists
-      const count = await prisma.bankTransaction.count();
-      expect(count).toBe(1);
+      // Stored alongside the original, but kept out of the ledger and review queue
+      const held = await prisma.bankTransaction.findFirst({
+        where: { externalId: 'tx_new' },
+      });
+      expect(held).toMatchObject({
+        duplicateOfId: existing.id,
+        duplicateStatus: 'possible',
+        transactionId: null,
+        pendingTransactionId: null,
+      });
     });
 
     it('should handle mix of duplicates and new transactions', async () => {
@@ -659,6 +659,227 @@ describe('Transaction Rule Matching and Creation', () => {
       expect(pendingTransaction?.type).toBe('Income');
       expect(pendingTransaction?.category).toBe('Maintenance');
     });
+    it('should create PendingTransaction when the payment may already have been entered by hand', async () => {
+      await prisma.matchingRule.create({
+        data: {
+          bankAccountId: testBankAccountId,
+          priority: 0,
+          enabled: true,
+          name: 'Rent Rule',
+          conditions: JSON.stringify({
+            operator: 'AND',
+            rules: [{ field: 'description', matchType: 'contains', value: 'rent' }],
+          }),
+          propertyId: testPropertyId,
+          type: 'INCOME',
+          category: 'Rent',
+        },
+      });
+
+      const manual = await prisma.transaction.create({
+        data: {
+          propertyId: testPropertyId,
+          type: 'Income',
+          category: 'Rent',
+          amount: 100,
+          transactionDate: new Date('2024-01-14'),
+          description: 'January rent (cash)',
+        },
+      });
+
+      const monzoTransactions: MonzoTransaction[] = [
+        {
+          id: 'tx_001',
+          account_id: testAccountId,
+          created: '2024-01-15T10:30:00Z',
+          description: 'Rent January',
+          amount: 10000,
+          currency: 'GBP',
+          notes: '',
+          settled: '2024-01-15T10:30:00Z',
+        },
+      ];
+
+      await processTransactions(monzoTransactions, testBankAccountId);
+
+      // Left for the reviewer to link rather than double counted
+      const transactions = await prisma.transaction.findMany();
+      expect(transactions.map((tx) => tx.id)).toEqual([manual.id]);
+
+      const pendingTransaction = await prisma.pendingTransaction.findFirst();
+      expect(pendingTransaction?.propertyId).toBe(testPropertyId);
+      expect(pendingTransaction?.type).toBe('Income');
+      expect(pendingTransaction?.category).toBe('Rent');
+    });
+
+    it('should not hold a payment against a manual transaction in the other direction', async () => {
+      await prisma.matchingRule.create({
+        data: {
+          bankAccountId: testBankAccountId,
+          priority: 0,
+          enabled: true,
+          name: 'Rent Rule',
+          conditions: JSON.stringify({
+            operator: 'AND',
+            rules: [{ field: 'description', matchType: 'contains', value: 'rent' }],
+          }),
+          propertyId: testPropertyId,
+          type: 'INCOME',
+          category: 'Rent',
+        },
+      });
+
+      await prisma.transaction.create({
+        data: {
+          propertyId: testPropertyId,
+          type: 'Expense',
+          category: 'Maintenance',
+          amount: 100,
+          transactionDate: new Date('2024-01-14'),
+          description: 'Gutter clearing',
+        },
+      });
+
+      const monzoTransactions: MonzoTransaction[] = [
+        {
+          id: 'tx_001',
+          account_id: testAccountId,
+          created: '2024-01-15T10:30:00Z',
+          description: 'Rent January',
+          amount: 10000,
+          currency: 'GBP',
+          notes: '',
+          settled: '2024-01-15T10:30:00Z',
+        },
+      ];
+
+      await processTransactions(monzoTransactions, testBankAccountId);
+
+      expect(await prisma.pendingTransaction.count()).toBe(0);
+      expect(await prisma.transaction.count({ where: { isImported: true, type: 'Income' } })).toBe(1);
+    });
+  });
+
+  describe('rule assignments', () => {
+    let ownerIds: string[];
+    let leaseId: string;
+
+    const rentRule = (data: Record<string, unknown> = {}) =>
+      prisma.matchingRule.create({
+        data: {
+          bankAccountId: testBankAccountId,
+          priority: 0,
+          enabled: true,
+          name: 'Rent Rule',
+          conditions: JSON.stringify({
+            operator: 'AND',
+            rules: [{ field: 'description', matchType: 'contains', value: 'rent' }],
+          }),
+          propertyId: testPropertyId,
+          type: 'INCOME',
+          category: 'Rent',
+          ...data,
+        },
+      });
+
+    const monzoTransactions: MonzoTransaction[] = [
+      {
+        id: 'tx_001',
+        account_id: testAccountId,
+        created: '2024-01-15T10:30:00Z',
+        description: 'Rent January',
+        amount: 10000,
+        currency: 'GBP',
+        notes: '',
+        settled: '2024-01-15T10:30:00Z',
+      },
+    ];
+
+    beforeAll(async () => {
+      const owners = await Promise.all(
+        ['rule-owner-a@example.com', 'rule-owner-b@example.com'].map((email) =>
+          prisma.user.create({ data: { email, password: 'hashed', role: 'LANDLORD' } })
+        )
+      );
+      ownerIds = owners.map((owner) => owner.id);
+      await prisma.propertyOwnership.createMany({
+        data: [
+          { userId: ownerIds[0], propertyId: testPropertyId, ownershipPercentage: 60 },
+          { userId: ownerIds[1], propertyId: testPropertyId, ownershipPercentage: 40 },
+        ],
+      });
+
+      const tenant = await prisma.tenant.create({
+        data: {
+          firstName: 'Rule',
+          lastName: 'Tenant',
+          email: 'tenant@example.com',
+          phone: '07700900000',
+          status: 'Active',
+        },
+      });
+      const lease = await prisma.lease.create({
+        data: {
+          propertyId: testPropertyId,
+          tenantId: tenant.id,
+          startDate: new Date('2024-01-01'),
+          rentAmount: 100,
+          securityDepositAmount: 100,
+          status: 'Active',
+        },
+      });
+      leaseId = lease.id;
+    });
+
+    afterAll(async () => {
+      await prisma.transaction.deleteMany({});
+      await prisma.user.deleteMany({ where: { id: { in: ownerIds } } });
+    });
+
+    it('should post the lease, payer and split preset from the rule', async () => {
+      await rentRule({
+        leaseId,
+        paidByUserId: ownerIds[0],
+        splits: { create: [{ userId: ownerIds[1], percentage: 100 }] },
+      });
+
+      await processTransactions(monzoTransactions, testBankAccountId);
+
+      const transaction = await prisma.transaction.findFirst({ include: { splits: true } });
+      expect(transaction?.leaseId).toBe(leaseId);
+      expect(transaction?.paidByUserId).toBe(ownerIds[0]);
+      expect(transaction?.splits.map(({ userId, percentage, amount }) => ({ userId, percentage, amount }))).toEqual([
+        { userId: ownerIds[1], percentage: 100, amount: 10000 },
+      ]);
+    });
+
+    it('should split by property ownership when the rule has no preset', async () => {
+      await rentRule();
+
+      await processTransactions(monzoTransactions, testBankAccountId);
+
+      const transaction = await prisma.transaction.findFirst({ include: { splits: true } });
+      expect(transaction?.leaseId).toBeNull();
+      expect(transaction?.splits.map(({ userId, amount }) => ({ userId, amount }))).toEqual(
+        expect.arrayContaining([
+          { userId: ownerIds[0], amount: 6000 },
+          { userId: ownerIds[1], amount: 4000 },
+        ])
+      );
+    });
+
+    it('should leave the transaction for review when the payer is not an owner', async () => {
+      const outsider = await prisma.user.create({
+        data: { email: 'rule-outsider@example.com', password: 'hashed', role: 'LANDLORD' },
+      });
+      ownerIds.push(outsider.id);
+      await rentRule({ paidByUserId: outsider.id });
+
+      await processTransactions(monzoTransactions, testBankAccountId);
+
+      expect(await prisma.transaction.count()).toBe(0);
+      expect(await prisma.pendingTransaction.count()).toBe(1);
+    });
   });
 
   describe('rule priority and accumulation', () => {
@@ -720,6 +941,55 @@ describe('Transaction Rule Matching and Creation', () => {
       expect(transaction?.category).toBe('Maintenance');
     });
 
+    it('should record which rules supplied the fields', async () => {
+      const conditions = JSON.stringify({
+        operator: 'AND',
+        rules: [{ field: 'description', matchType: 'contains', value: 'transaction' }],
+      });
+      const propertyRule = await prisma.matchingRule.create({
+        data: {
+          bankAccountId: testBankAccountId,
+          priority: 0,
+          name: 'Property Rule',
+          conditions,
+          propertyId: testPropertyId,
+          type: 'EXPENSE',
+          category: 'Maintenance',
+        },
+      });
+      const shadowedRule = await prisma.matchingRule.create({
+        data: {
+          bankAccountId: testBankAccountId,
+          priority: 1,
+          name: 'Shadowed Rule',
+          conditions,
+          category: 'Repair',
+        },
+      });
+
+      await processTransactions(
+        [
+          {
+            id: 'tx_001',
+            account_id: testAccountId,
+            created: '2024-01-15T10:30:00Z',
+            description: 'Transaction test',
+            amount: 100,
+            currency: 'GBP',
+            notes: '',
+            settled: '2024-01-15T10:30:00Z',
+          },
+        ],
+        testBankAccountId
+      );
+
+      const hits = await prisma.matchingRuleHit.findMany({ orderBy: { shadowed: 'asc' } });
+      expect(hits).toEqual([
+        expect.objectContaining({ ruleId: propertyRule.id, fields: 'propertyId,type,category', shadowed: false }),
+        expect.objectContaining({ ruleId: shadowedRule.id, fields: '', shadowed: true }),
+      ]);
+    });
+
     it('should respect global rules (null bankAccountId)', async () => {
       // Create a global rule
       await prisma.matchingRule.create({
@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+import { getBankProvider } from './bankProviders/index.js';
+
+/**
+ * OAuth state and pending connection storage shared by all bank providers
+ */
+
+// In-memory state storage (in production, use Redis or database)
+// Maps state -> { provider, syncFromDate, createdAt }
+const stateStore = new Map<string, { provider: string; syncFromDate: Date; createdAt: Date }>();
+
+// Clean up expired states every 10 minutes
+setInterval(() => {
+  const now = Date.now();
+  const expiryMs = 10 * 60 * 1000; // 10 minutes
+
+  for (const [state, data] of stateStore.entries()) {
+    if (now - data.createdAt.getTime() > expiryMs) {
+      stateStore.delete(state);
+    }
+  }
+}, 10 * 60 * 1000);
+
+// Pending connections awaiting approval at the bank.
+// Some providers (e.g. Monzo) require the user to approve access in their app
+// before API calls will work. Tokens are stored here until the user confirms approval.
+export interface PendingConnection {
+  provider: string;
+  accessToken: string;
+  refreshToken: string | undefined;
+  expiresIn: number;
+  syncFromDate: Date;
+}
+
+const pendingConnectionStore = new Map<string, PendingConnection>();
+
+export function storePendingConnection(
+  provider: string,
+  accessToken: string,
+  refreshToken: string | undefined,
+  expiresIn: number,
+  syncFromDate: Date
+): string {
+  const pendingId = crypto.randomBytes(32).toString('hex');
+  pendingConnectionStore.set(pendingId, {
+    provider,
+    accessToken,
+    refreshToken,
+    expiresIn,
+    syncFromDate,
+  });
+  return pendingId;
+}
+
+export function getPendingConnection(pendingId: string): PendingConnection {
+  const pending = pendingConnectionStore.get(pendingId);
+  if (!pending) {
+    throw new Error('Pending connection not found or expired');
+  }
+  return pending;
+}
+
+export function deletePendingConnection(pendingId: string): void {
+  pendingConnectionStore.delete(pendingId);
+}
+
+/**
+ * Generates a provider's OAuth authorization URL
+ * @param providerName - Bank provider to connect to
+ * @param syncFromDays - Number of days to sync transaction history from
+ * @returns Authorization URL to redirect user to
+ */
+export function generateAuthUrl(providerName: string, syncFromDays: number): string {
+  const provider = getBankProvider(providerName);
+
+  // Calculate syncFromDate
+  const syncFromDate = new Date();
+  syncFromDate.setDate(syncFromDate.getDate() - syncFromDays);
+
+  // Generate secure random state for CSRF protection
+  const state = crypto.randomBytes(32).toString('hex');
+
+  // Build the URL first so a misconfigured provider doesn't leave state behind
+  const authUrl = provider.getAuthUrl(state);
+
+  // Store state with syncFromDate for later validation
+  stateStore.set(state, {
+    provider: provider.name,
+    syncFromDate,
+    createdAt: new Date(),
+  });
+
+  return authUrl;
+}
+
+/**
+ * Validates the OAuth state parameter and returns associated data
+ * @param state - State parameter from OAuth callback
+ * @returns Provider and syncFromDate associated with the state
+ * @throws Error if state is invalid or expired
+ */
+export function validateState(state: string): { provider: string; syncFromDate: Date } {
+  const stateData = stateStore.get(state);
+
+  if (!stateData) {
+    throw new Error('Invalid or expired state parameter');
+  }
+
+  // Check if state has expired (10 minutes)
+  const now = Date.now();
+  const expiryMs = 10 * 60 * 1000;
+
+  if (now - stateData.createdAt.getTime() > expiryMs) {
+    stateStore.delete(state);
+    throw new Error('State parameter has expired');
+  }
+
+  // Delete state after successful validation (one-time use)
+  stateStore.delete(state);
+
+  return { provider: stateData.provider, syncFromDate: stateData.syncFromDate };
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockBankProvider } from '../mock.provider.js';
+import { WebhookPayloadError } from '../types.js';
+
+describe('Mock Bank Provider', () => {
+  let provider: MockBankProvider;
+
+  beforeEach(() => {
+    provider = new MockBankProvider();
+  });
+
+  afterEach(() => {
+    delete process.env.MOCK_BANK_FIXTURES;
+  });
+
+  describe('fetchTransactions', () => {
+    it('should page through transactions newest first', async () => {
+      provider.addTransactions(
+        'acc_1',
+        Array.from({ length: 150 }, (_, i) => ({
+          id: `tx_${i}`,
+          date: new Date(Date.UTC(2024, 0, 1, 0, i)).toISOString(),
+          amount: 100 + i,
+          description: `Transaction ${i}`,
+        }))
+      );
+
+      const firstPage = await provider.fetchTransactions('token', 'acc_1', new Date('2024-01-01'));
+
+      expect(firstPage.transactions).toHaveLength(100);
+      expect(firstPage.transactions[0].externalId).toBe('tx_149');
+      expect(firstPage.nextCursor).not.toBeNull();
+
+      const secondPage = await provider.fetchTransactions(
+        'token',
+        'acc_1',
+        new Date('2024-01-01'),
+        firstPage.nextCursor!
+      );
+
+      expect(secondPage.transactions).toHaveLength(50);
+      expect(secondPage.transactions[49].externalId).toBe('tx_0');
+      expect(secondPage.nextCursor).toBeNull();
+    });
+
+    it('should only return transactions on or after the since date', async () => {
+      provider.addTransactions('acc_1', [
+        { id: 'tx_old', date: '2023-12-31T00:00:00Z', amount: -500, description: 'Old' },
+        { id: 'tx_new', date: '2024-01-02T00:00:00Z', amount: 500, description: 'New', reference: 'REF1' },
+      ]);
+
+      const page = await provider.fetchTransactions('token', 'acc_1', new Date('2024-01-01'));
+
+      expect(page.transactions).toHaveLength(1);
+      expect(page.transactions[0]).toMatchObject({
+        externalId: 'tx_new',
+        amount: 500,
+        currency: 'GBP',
+        reference: 'REF1',
+      });
+    });
+
+    it('should reject unknown accounts', async () => {
+      await expect(
+        provider.fetchTransactions('token', 'acc_missing', new Date('2024-01-01'))
+      ).rejects.toThrow('unknown account acc_missing');
+    });
+  });
+
+  describe('fixtures', () => {
+    it('should load accounts and transactions from MOCK_BANK_FIXTURES on first use', async () => {
+      const fixturePath = path.join(os.tmpdir(), `mock-bank-${process.pid}.json`);
+      fs.writeFileSync(
+        fixturePath,
+        JSON.stringify({
+          accounts: [
+            {
+              accountId: 'acc_fixture',
+              accountName: 'Fixture Account',
+              accountType: 'current',
+              transactions: [{ id: 'tx_fixture', date: '2024-02-01T00:00:00Z', amount: 1000, description: 'Rent' }],
+            },
+          ],
+        })
+      );
+      process.env.MOCK_BANK_FIXTURES = fixturePath;
+
+      try {
+        const account = await provider.getAccountInfo('mock_access_code');
+        const page = await provider.fetchTransactions('mock_access_code', account.accountId, new Date('2024-01-01'));
+
+        expect(account.accountId).toBe('acc_fixture');
+        expect(page.transactions.map((transaction) => transaction.externalId)).toEqual(['tx_fixture']);
+      } finally {
+        fs.unlinkSync(fixturePath);
+      }
+    });
+
+    it('should provide a default account when none are configured', async () => {
+      const account = await provider.getAccountInfo('mock_access_code');
+
+      expect(account.accountId).toBe('mock_acc_default');
+    });
+  });
+
+  describe('OAuth', () => {
+    it('should exchange codes for tokens that getAccountInfo accepts', async () => {
+      const tokens = await provider.exchangeCode('mock_code');
+
+      await expect(provider.getAccountInfo(tokens.accessToken)).resolves.toBeDefined();
+      await expect(provider.getAccountInfo('not_a_mock_token')).rejects.toThrow(
+        'Failed to fetch account information'
+      );
+    });
+  });
+
+  describe('parseWebhook', () => {
+    it('should parse a valid payload', () => {
+      const event = provider.parseWebhook({
+        eventId: 'evt_1',
+        accountId: 'acc_1',
+        transactions: [{ id: 'tx_1', date: '2024-01-01T00:00:00Z', amount: -250, description: 'Fees' }],
+      });
+
+      expect(event.eventId).toBe('evt_1');
+      expect(event.accountId).toBe('acc_1');
+      expect(event.transactions[0].externalId).toBe('tx_1');
+    });
+
+    it('should throw WebhookPayloadError for malformed payloads', () => {
+      expect(() => provider.parseWebhook({ eventId: 'evt_1' })).toThrow(WebhookPayloadError);
+      expect(() =>
+        provider.parseWebhook({
+          eventId: 'evt_1',
+          accountId: 'acc_1',
+          transactions: [{ id: 'tx_1', date: 'not a date', amount: 1, description: 'Bad' }],
+        })
+      ).toThrow('Missing required transaction fields');
+    });
+  });
+});
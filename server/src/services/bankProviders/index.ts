@@ -0,0 +1,58 @@
+/**
+ * Bank Provider Registry
+ *
+ * Maps BankAccount.provider values to their implementations.
+ */
+
+import { monzoProvider } from './monzo.provider.js';
+import { mockBankProvider } from './mock.provider.js';
+import type { BankProvider } from './types.js';
+
+export type {
+  BankProvider,
+  BankProviderAccount,
+  BankProviderBalance,
+  BankProviderTokens,
+  BankTransactionPage,
+  BankWebhookEvent,
+  WebhookRegistrationResult,
+} from './types.js';
+export { WebhookPayloadError } from './types.js';
+
+const providers = new Map<string, BankProvider>();
+
+/**
+ * Make a provider available to the sync, OAuth and webhook routes
+ */
+export function registerBankProvider(provider: BankProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Look up a provider by name
+ * @returns The provider, or undefined if none is registered under that name
+ */
+export function findBankProvider(name: string): BankProvider | undefined {
+  return providers.get(name);
+}
+
+/**
+ * Look up a provider by name
+ * @throws Error if no provider is registered under that name
+ */
+export function getBankProvider(name: string): BankProvider {
+  const provider = providers.get(name);
+
+  if (!provider) {
+    throw new Error(`Unknown bank provider: ${name}`);
+  }
+
+  return provider;
+}
+
+registerBankProvider(monzoProvider);
+
+// The offline mock bank is for tests and local development only
+if (process.env.NODE_ENV !== 'production') {
+  registerBankProvider(mockBankProvider);
+}
@@ -0,0 +1,291 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import type { BankTransactionInput } from '../transactionProcessor.js';
+import {
+  WebhookPayloadError,
+  type BankProvider,
+  type BankProviderAccount,
+  type BankProviderBalance,
+  type BankProviderTokens,
+  type BankTransactionPage,
+  type BankWebhookEvent,
+  type WebhookRegistrationResult,
+} from './types.js';
+
+const PAGE_SIZE = 100;
+
+/**
+ * Transaction as written in a fixture file or webhook payload.
+ * Dates are ISO strings; amounts are in pence.
+ */
+export interface MockTransactionFixture {
+  id: string;
+  date: string;
+  amount: number;
+  description: string;
+  currency?: string;
+  counterpartyName?: string;
+  reference?: string;
+  /** Defaults to the transaction date */
+  settledDate?: string | null;
+  /** Set to simulate a declined or reversed transaction */
+  declineReason?: string;
+}
+
+/**
+ * Fixture file layout (see MOCK_BANK_FIXTURES)
+ */
+export interface MockBankFixtures {
+  accounts: Array<BankProviderAccount & { transactions?: MockTransactionFixture[] }>;
+}
+
+/**
+ * Webhook body accepted by the mock provider
+ */
+interface MockWebhookPayload {
+  eventId?: string;
+  accountId?: string;
+  type?: 'created' | 'updated';
+  transactions?: MockTransactionFixture[];
+}
+
+function toTransactionInput(fixture: MockTransactionFixture): BankTransactionInput {
+  const transactionDate = new Date(fixture.date);
+
+  return {
+    externalId: fixture.id,
+    amount: fixture.amount,
+    currency: fixture.currency ?? 'GBP',
+    description: fixture.description,
+    counterpartyName: fixture.counterpartyName ?? null,
+    reference: fixture.reference ?? null,
+    merchant: null,
+    category: null,
+    transactionDate,
+    settledDate:
+      fixture.settledDate === undefined
+        ? transactionDate
+        : fixture.settledDate === null
+          ? null
+          : new Date(fixture.settledDate),
+    declineReason: fixture.declineReason ?? null,
+  };
+}
+
+function isValidFixture(fixture: MockTransactionFixture | undefined): fixture is MockTransactionFixture {
+  return (
+    !!fixture &&
+    typeof fixture.id === 'string' &&
+    typeof fixture.amount === 'number' &&
+    typeof fixture.description === 'string' &&
+    !isNaN(new Date(fixture.date).getTime())
+  );
+}
+
+/**
+ * Offline bank provider for tests and local development
+ *
+ * Accounts and transactions live in memory. They can be seeded in code or
+ * loaded from a JSON fixture file named by MOCK_BANK_FIXTURES. The OAuth flow
+ * completes without leaving the app: the auth URL points straight back at the
+ * callback with a code that always exchanges successfully.
+ */
+export class MockBankProvider implements BankProvider {
+  readonly name = 'mock';
+  readonly displayName = 'Mock Bank';
+
+  private accounts = new Map<string, BankProviderAccount>();
+  private transactions = new Map<string, BankTransactionInput[]>();
+  private webhooks = new Map<string, WebhookRegistrationResult & { accountId: string }>();
+  private fixturesLoaded = false;
+
+  /**
+   * Add an account, replacing any with the same ID
+   */
+  addAccount(account: BankProviderAccount): void {
+    this.accounts.set(account.accountId, account);
+    if (!this.transactions.has(account.accountId)) {
+      this.transactions.set(account.accountId, []);
+    }
+  }
+
+  /**
+   * Add transactions to an account, creating it if needed
+   */
+  addTransactions(accountId: string, transactions: MockTransactionFixture[]): void {
+    if (!this.accounts.has(accountId)) {
+      this.addAccount({ accountId, accountName: 'Mock Account', accountType: 'current' });
+    }
+    this.transactions.get(accountId)!.push(...transactions.map(toTransactionInput));
+  }
+
+  /**
+   * Load accounts and transactions from a JSON fixture file
+   */
+  loadFixtures(filePath: string): void {
+    const fixtures = JSON.parse(fs.readFileSync(filePath, 'utf8')) as MockBankFixtures;
+
+    for (const { transactions, ...account } of fixtures.accounts) {
+      this.addAccount(account);
+      this.addTransactions(account.accountId, transactions ?? []);
+    }
+  }
+
+  /**
+   * Webhooks currently registered, for assertions in tests
+   */
+  getRegisteredWebhooks(): Array<WebhookRegistrationResult & { accountId: string }> {
+    return [...this.webhooks.values()];
+  }
+
+  /**
+   * Forget all accounts, transactions and webhooks
+   */
+  reset(): void {
+    this.accounts.clear();
+    this.transactions.clear();
+    this.webhooks.clear();
+    this.fixturesLoaded = true; // Don't reload the fixture file after a reset
+  }
+
+  /**
+   * Load the MOCK_BANK_FIXTURES file on first use, and make sure there is
+   * always at least one account to connect to
+   */
+  private ensureAccounts(): void {
+    if (!this.fixturesLoaded) {
+      this.fixturesLoaded = true;
+      const fixturePath = process.env.MOCK_BANK_FIXTURES;
+      if (fixturePath) {
+        this.loadFixtures(fixturePath);
+      }
+    }
+
+    if (this.accounts.size === 0) {
+      this.addAccount({ accountId: 'mock_acc_default', accountName: 'Mock Current Account', accountType: 'current' });
+    }
+  }
+
+  getAuthUrl(state: string): string {
+    const params = new URLSearchParams({ code: 'mock_code', state });
+    return `/api/bank/mock/callback?${params.toString()}`;
+  }
+
+  async exchangeCode(code: string): Promise<BankProviderTokens> {
+    return {
+      accessToken: `mock_access_${code}`,
+      refreshToken: `mock_refresh_${code}`,
+      expiresIn: 3600,
+    };
+  }
+
+  async getAccountInfo(accessToken: string): Promise<BankProviderAccount> {
+    if (!accessToken.startsWith('mock_access_')) {
+      throw new Error('Failed to fetch account information');
+    }
+
+    this.ensureAccounts();
+    return [...this.accounts.values()][0];
+  }
+
+  async refreshToken(refreshToken: string): Promise<BankProviderTokens> {
+    return {
+      accessToken: `mock_access_${crypto.randomBytes(8).toString('hex')}`,
+      refreshToken,
+      expiresIn: 3600,
+    };
+  }
+
+  /**
+   * The balance is the sum of the account's transactions
+   */
+  async getBalance(_accessToken: string, accountId: string): Promise<BankProviderBalance> {
+    this.ensureAccounts();
+
+    if (!this.accounts.has(accountId)) {
+      throw new Error('Failed to fetch account balance');
+    }
+
+    const balance = this.transactions
+      .get(accountId)!
+      .filter((transaction) => !transaction.declineReason)
+      .reduce((sum, transaction) => sum + transaction.amount, 0);
+
+    return { balance, currency: 'GBP' };
+  }
+
+  /**
+   * Pages through the account's transactions newest first; the cursor is an offset
+   */
+  async fetchTransactions(
+    _accessToken: string,
+    accountId: string,
+    since: Date,
+    cursor?: string
+  ): Promise<BankTransactionPage> {
+    this.ensureAccounts();
+
+    if (!this.accounts.has(accountId)) {
+      throw new Error(`Failed to fetch transactions: unknown account ${accountId}`);
+    }
+
+    const matching = this.transactions
+      .get(accountId)!
+      .filter((transaction) => transaction.transactionDate >= since)
+      .sort((a, b) => b.transactionDate.getTime() - a.transactionDate.getTime());
+
+    const offset = cursor ? Number(cursor) : 0;
+    const nextOffset = offset + PAGE_SIZE;
+
+    return {
+      transactions: matching.slice(offset, nextOffset),
+      nextCursor: nextOffset < matching.length ? String(nextOffset) : null,
+    };
+  }
+
+  async registerWebhook(
+    _accessToken: string,
+    accountId: string,
+    webhookUrl: string
+  ): Promise<WebhookRegistrationResult> {
+    const webhookId = `mock_webhook_${crypto.randomBytes(8).toString('hex')}`;
+    this.webhooks.set(webhookId, { webhookId, webhookUrl, accountId });
+    return { webhookId, webhookUrl };
+  }
+
+  async deleteWebhook(_accessToken: string, webhookId: string): Promise<void> {
+    this.webhooks.delete(webhookId);
+  }
+
+  getWebhookSecret(): string | undefined {
+    return process.env.MOCK_BANK_WEBHOOK_SECRET;
+  }
+
+  /**
+   * Accepts { eventId, accountId, type?: 'created' | 'updated', transactions: MockTransactionFixture[] }
+   */
+  parseWebhook(payload: unknown): BankWebhookEvent {
+    const webhook = payload as MockWebhookPayload | undefined;
+
+    if (!webhook || !webhook.eventId || !webhook.accountId || !Array.isArray(webhook.transactions)) {
+      throw new WebhookPayloadError('Invalid webhook payload');
+    }
+
+    if (webhook.type !== undefined && webhook.type !== 'created' && webhook.type !== 'updated') {
+      throw new WebhookPayloadError('Invalid webhook payload');
+    }
+
+    if (!webhook.transactions.every(isValidFixture)) {
+      throw new WebhookPayloadError('Missing required transaction fields');
+    }
+
+    return {
+      accountId: webhook.accountId,
+      eventId: webhook.eventId,
+      type: webhook.type ?? 'created',
+      transactions: webhook.transactions.map(toTransactionInput),
+    };
+  }
+}
+
+export const mockBankProvider = new MockBankProvider();
@@ -0,0 +1,197 @@
+import crypto from 'crypto';
+import * as monzoClient from '../monzo/client.js';
+import type { MonzoWebhookPayload } from '../monzo/types.js';
+import { fromMonzoTransaction } from '../transactionProcessor.js';
+import {
+  WebhookPayloadError,
+  type BankProvider,
+  type BankProviderAccount,
+  type BankProviderBalance,
+  type BankProviderTokens,
+  type BankTransactionPage,
+  type BankWebhookEvent,
+  type WebhookRegistrationResult,
+} from './types.js';
+
+/**
+ * Monzo returns at most this many transactions per request
+ */
+const PAGE_SIZE = 100;
+
+/**
+ * Read Monzo OAuth settings from the environment
+ * @throws Error if any are missing
+ */
+function getOAuthConfig(): { clientId: string; clientSecret: string; redirectUri: string } {
+  const clientId = process.env.MONZO_CLIENT_ID;
+  const clientSecret = process.env.MONZO_CLIENT_SECRET;
+  const redirectUri = process.env.MONZO_REDIRECT_URI;
+
+  if (!clientId || !clientSecret || !redirectUri) {
+    throw new Error('Monzo OAuth configuration missing');
+  }
+
+  return { clientId, clientSecret, redirectUri };
+}
+
+/**
+ * Monzo bank provider
+ * See Monzo API documentation: https://docs.monzo.com/
+ */
+export class MonzoBankProvider implements BankProvider {
+  readonly name = 'monzo';
+  readonly displayName = 'Monzo';
+
+  getAuthUrl(state: string): string {
+    const clientId = process.env.MONZO_CLIENT_ID;
+    const redirectUri = process.env.MONZO_REDIRECT_URI;
+
+    // The client secret isn't needed to start the flow
+    if (!clientId || !redirectUri) {
+      throw new Error('Monzo OAuth configuration missing');
+    }
+
+    return monzoClient.generateAuthUrl(clientId, redirectUri, state);
+  }
+
+  async exchangeCode(code: string): Promise<BankProviderTokens> {
+    const { clientId, clientSecret, redirectUri } = getOAuthConfig();
+    const data = await monzoClient.exchangeCodeForTokens(code, clientId, clientSecret, redirectUri);
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresIn: data.expires_in,
+    };
+  }
+
+  async getAccountInfo(accessToken: string): Promise<BankProviderAccount> {
+    const data = await monzoClient.getAccounts(accessToken);
+
+    if (!data.accounts || data.accounts.length === 0) {
+      throw new Error('No accounts found');
+    }
+
+    // Use first account (or primary if multiple)
+    const account = data.accounts[0];
+
+    return {
+      accountId: account.id,
+      accountName: account.description || account.type || 'Monzo Account',
+      accountType: account.type || 'current',
+    };
+  }
+
+  async refreshToken(refreshToken: string): Promise<BankProviderTokens> {
+    const clientId = process.env.MONZO_CLIENT_ID;
+    const clientSecret = process.env.MONZO_CLIENT_SECRET;
+
+    if (!clientId || !clientSecret) {
+      throw new Error('Monzo OAuth configuration missing');
+    }
+
+    const data = await monzoClient.refreshAccessToken(refreshToken, clientId, clientSecret);
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresIn: data.expires_in,
+    };
+  }
+
+  async getBalance(accessToken: string, accountId: string): Promise<BankProviderBalance> {
+    const data = await monzoClient.getBalance(accessToken, accountId);
+
+    return {
+      balance: data.balance,
+      currency: data.currency,
+    };
+  }
+
+  /**
+   * Monzo pages backwards through time: the cursor is the created timestamp
+   * of the oldest transaction on the previous page.
+   */
+  async fetchTransactions(
+    accessToken: string,
+    accountId: string,
+    since: Date,
+    cursor?: string
+  ): Promise<BankTransactionPage> {
+    const data = await monzoClient.getTransactions(accessToken, accountId, since.toISOString(), cursor, PAGE_SIZE);
+    const transactions = data.transactions;
+
+    return {
+      transactions: transactions.map(fromMonzoTransaction),
+      nextCursor: transactions.length < PAGE_SIZE ? null : transactions[transactions.length - 1].created,
+    };
+  }
+
+  async registerWebhook(
+    accessToken: string,
+    accountId: string,
+    webhookUrl: string
+  ): Promise<WebhookRegistrationResult> {
+    const data = await monzoClient.registerWebhook(accessToken, accountId, webhookUrl);
+
+    return {
+      webhookId: data.webhook.id,
+      webhookUrl: data.webhook.url,
+    };
+  }
+
+  async deleteWebhook(accessToken: string, webhookId: string): Promise<void> {
+    await monzoClient.deleteWebhook(accessToken, webhookId);
+  }
+
+  /**
+   * Monzo does not support HMAC signature verification for webhooks, so
+   * security comes from a secret in the registered webhook URL instead.
+   */
+  getWebhookSecret(): string | undefined {
+    return process.env.MONZO_WEBHOOK_SECRET;
+  }
+
+  parseWebhook(payload: unknown): BankWebhookEvent {
+    const webhook = payload as MonzoWebhookPayload | undefined;
+
+    if (
+      !webhook ||
+      (webhook.type !== 'transaction.created' && webhook.type !== 'transaction.updated') ||
+      !webhook.data
+    ) {
+      console.error('Invalid webhook payload:', payload);
+      throw new WebhookPayloadError('Invalid webhook payload');
+    }
+
+    const transaction = webhook.data;
+
+    if (!transaction.account_id || !transaction.id || transaction.amount === undefined) {
+      console.error('Missing required transaction fields:', transaction);
+      throw new WebhookPayloadError('Missing required transaction fields');
+    }
+
+    if (webhook.type === 'transaction.updated') {
+      // A transaction can be updated several times (settlement, then a refund or reversal),
+      // so identify each update by its content: redeliveries match, later updates don't
+      const digest = crypto.createHash('sha256').update(JSON.stringify(transaction)).digest('hex');
+
+      return {
+        accountId: transaction.account_id,
+        eventId: `${transaction.id}:updated:${digest.slice(0, 16)}`,
+        type: 'updated',
+        transactions: [fromMonzoTransaction(transaction)],
+      };
+    }
+
+    return {
+      accountId: transaction.account_id,
+      // Monzo sends one created event per transaction, so the transaction ID identifies the event
+      eventId: transaction.id,
+      type: 'created',
+      transactions: [fromMonzoTransaction(transaction)],
+    };
+  }
+}
+
+export const monzoProvider = new MonzoBankProvider();
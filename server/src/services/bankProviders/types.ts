@@ -0,0 +1,149 @@
+/**
+ * Bank Provider Interface
+ *
+ * Each bank integration implements BankProvider. Sync, OAuth and webhook code
+ * looks providers up by BankAccount.provider, so adding a bank means adding a
+ * provider and registering it in ./index.ts - the routes don't change.
+ */
+
+import type { BankTransactionInput } from '../transactionProcessor.js';
+
+/**
+ * OAuth tokens returned by a provider
+ */
+export interface BankProviderTokens {
+  accessToken: string;
+  /** Not all providers issue refresh tokens */
+  refreshToken?: string;
+  /** Seconds until the access token expires */
+  expiresIn: number;
+}
+
+/**
+ * Account details returned once a connection is authorised
+ */
+export interface BankProviderAccount {
+  /** Provider's account ID (stored in BankAccount.accountId) */
+  accountId: string;
+  accountName: string;
+  accountType: string;
+}
+
+/**
+ * An account's current balance
+ */
+export interface BankProviderBalance {
+  /** Minor currency units, like BankTransaction.amount */
+  balance: number;
+  currency: string;
+}
+
+/**
+ * One page of transactions from a provider
+ */
+export interface BankTransactionPage {
+  transactions: BankTransactionInput[];
+  /** Pass back to fetchTransactions for the next page; null when there are no more */
+  nextCursor: string | null;
+}
+
+/**
+ * Result of registering a webhook with a provider
+ */
+export interface WebhookRegistrationResult {
+  webhookId: string;
+  webhookUrl: string;
+}
+
+/**
+ * A webhook event parsed into provider-neutral transactions
+ */
+export interface BankWebhookEvent {
+  /** Provider's account ID the event belongs to */
+  accountId: string;
+  /** Unique event ID, used to ignore repeated deliveries */
+  eventId: string;
+  /** 'updated' events carry new versions of transactions already sent (settlement, amount changes, reversals) */
+  type: 'created' | 'updated';
+  transactions: BankTransactionInput[];
+}
+
+/**
+ * Error for webhook payloads a provider can't read.
+ * Webhook routes respond with 400 and the error message.
+ */
+export class WebhookPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookPayloadError';
+    Object.setPrototypeOf(this, WebhookPayloadError.prototype);
+  }
+}
+
+/**
+ * A bank integration
+ */
+export interface BankProvider {
+  /** Identifier stored in BankAccount.provider and used in route paths */
+  readonly name: string;
+  /** Name shown to users, e.g. "Monzo" */
+  readonly displayName: string;
+
+  /**
+   * Build the URL to send the user to for authorisation
+   * @param state - CSRF protection state, returned to the callback unchanged
+   */
+  getAuthUrl(state: string): string;
+
+  /**
+   * Exchange an OAuth authorisation code for tokens
+   */
+  exchangeCode(code: string): Promise<BankProviderTokens>;
+
+  /**
+   * Get the account the tokens give access to
+   */
+  getAccountInfo(accessToken: string): Promise<BankProviderAccount>;
+
+  /**
+   * Get new tokens using a refresh token
+   */
+  refreshToken(refreshToken: string): Promise<BankProviderTokens>;
+
+  /**
+   * Get the account's current balance
+   */
+  getBalance(accessToken: string, accountId: string): Promise<BankProviderBalance>;
+
+  /**
+   * Fetch transactions created on or after a date, newest first, a page at a time
+   * @param cursor - nextCursor from the previous page, if any
+   */
+  fetchTransactions(
+    accessToken: string,
+    accountId: string,
+    since: Date,
+    cursor?: string
+  ): Promise<BankTransactionPage>;
+
+  /**
+   * Ask the provider to send new transactions to a webhook URL
+   */
+  registerWebhook(accessToken: string, accountId: string, webhookUrl: string): Promise<WebhookRegistrationResult>;
+
+  /**
+   * Remove a webhook registered with registerWebhook
+   */
+  deleteWebhook(accessToken: string, webhookId: string): Promise<void>;
+
+  /**
+   * Secret expected in the webhook URL path, or undefined if webhooks aren't configured
+   */
+  getWebhookSecret(): string | undefined;
+
+  /**
+   * Read a webhook request body
+   * @throws WebhookPayloadError if the payload is malformed
+   */
+  parseWebhook(payload: unknown): BankWebhookEvent;
+}
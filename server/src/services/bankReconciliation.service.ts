@@ -0,0 +1,326 @@
+import type { BankReconciliation, Prisma } from '@prisma/client';
+import prisma from '../db/client.js';
+import { getBankProvider, type BankProviderBalance } from './bankProviders/index.js';
+import { decryptToken } from './encryption.js';
+import { toBankAmount } from './transactionMatching.service.js';
+import type { CreateBankReconciliation } from '../../../shared/validation/bankAccount.validation.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const LOCKED_PERIOD_ERROR = 'This transaction is in a locked reconciliation period and cannot be changed';
+
+type ReconciliationError = { status: number; error: string };
+
+/**
+ * A bank transaction as shown on a reconciliation
+ */
+export interface ReconciliationItem {
+  id: string;
+  externalId: string;
+  transactionDate: Date;
+  description: string;
+  amount: number;
+  currency: string;
+  transactionId: string | null;
+  /** Amount on the linked ledger transaction (the total of a split's parts), which may have been edited */
+  ledgerAmount: number | null;
+  pendingTransactionId: string | null;
+}
+
+/**
+ * Bank transactions in a reconciliation period, grouped by how far they got into the ledger
+ */
+export interface ReconciliationReport {
+  /** First day of the period, or null for an account's first reconciliation */
+  periodStart: Date | null;
+  /** Day after the statement date (exclusive) */
+  periodEnd: Date;
+  openingBalance: number;
+  statementBalance: number;
+  ledgerBalance: number;
+  difference: number;
+  /** In the ledger */
+  matched: ReconciliationItem[];
+  /** Awaiting review in the pending transactions queue, or as a possible duplicate */
+  pending: ReconciliationItem[];
+  /** Neither in the ledger nor awaiting review (e.g. rejected) */
+  unmatched: ReconciliationItem[];
+  totals: { matched: number; pending: number; unmatched: number };
+}
+
+export interface ReconciliationWithReport {
+  reconciliation: BankReconciliation;
+  report: ReconciliationReport;
+}
+
+// Balances are in minor units but statement imports can carry fractions
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const sum = (items: ReconciliationItem[]) => round(items.reduce((total, item) => total + item.amount, 0));
+
+/**
+ * Midnight UTC at the start of a date's day
+ */
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export class BankReconciliationService {
+  /**
+   * Reconciliations for an account, newest statement first
+   */
+  async list(bankAccountId: string): Promise<BankReconciliation[]> {
+    return prisma.bankReconciliation.findMany({
+      where: { bankAccountId },
+      orderBy: [{ statementDate: 'desc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  /**
+   * Record a reconciliation against a statement closing balance. The period
+   * runs from the day after the previous reconciliation to the statement date.
+   */
+  async create(
+    bankAccountId: string,
+    data: CreateBankReconciliation,
+    userId: string
+  ): Promise<ReconciliationWithReport | ReconciliationError> {
+    const statementDate = startOfDay(data.statementDate);
+
+    const lastLocked = await prisma.bankReconciliation.findFirst({
+      where: { bankAccountId, lockedAt: { not: null } },
+      orderBy: { statementDate: 'desc' },
+    });
+
+    if (lastLocked && statementDate <= lastLocked.statementDate) {
+      return {
+        status: 400,
+        error: `Statement date must be after the last locked reconciliation (${lastLocked.statementDate.toISOString().slice(0, 10)})`,
+      };
+    }
+
+    const report = await this.buildReport(bankAccountId, statementDate, data.statementBalance, data.openingBalance);
+
+    const reconciliation = await prisma.bankReconciliation.create({
+      data: {
+        bankAccountId,
+        statementDate,
+        statementBalance: data.statementBalance,
+        openingBalance: report.openingBalance,
+        ledgerBalance: report.ledgerBalance,
+        difference: report.difference,
+        notes: data.notes ?? null,
+        createdBy: userId,
+      },
+    });
+
+    return { reconciliation, report };
+  }
+
+  /**
+   * A reconciliation with its transactions. Locked reconciliations show the
+   * rows they froze; others are worked out again from the current ledger.
+   */
+  async get(id: string): Promise<ReconciliationWithReport | null> {
+    const reconciliation = await prisma.bankReconciliation.findUnique({ where: { id } });
+
+    if (!reconciliation) {
+      return null;
+    }
+
+    const report = await this.buildReport(
+      reconciliation.bankAccountId,
+      reconciliation.statementDate,
+      reconciliation.statementBalance,
+      reconciliation.openingBalance,
+      reconciliation.lockedAt ? reconciliation.id : undefined
+    );
+
+    return { reconciliation, report };
+  }
+
+  /**
+   * Lock a reconciliation so the bank transactions it covers can't be changed.
+   * Only reconciliations with no difference and nothing awaiting review can be locked.
+   */
+  async lock(id: string, userId: string): Promise<ReconciliationWithReport | ReconciliationError> {
+    const current = await this.get(id);
+
+    if (!current) {
+      return { status: 404, error: 'Reconciliation not found' };
+    }
+
+    const { reconciliation, report } = current;
+
+    if (reconciliation.lockedAt) {
+      return { status: 400, error: 'Reconciliation is already locked' };
+    }
+
+    if (report.pending.length > 0) {
+      return {
+        status: 400,
+        error: `Review the ${report.pending.length} pending transaction(s) in this period before locking`,
+      };
+    }
+
+    if (report.difference !== 0) {
+      return { status: 400, error: 'Reconciliation has a difference and cannot be locked' };
+    }
+
+    const ids = [...report.matched, ...report.unmatched].map((item) => item.id);
+
+    const locked = await prisma.$transaction(async (tx) => {
+      await tx.bankTransaction.updateMany({
+        where: { id: { in: ids } },
+        data: { reconciliationId: id },
+      });
+
+      return tx.bankReconciliation.update({
+        where: { id },
+        data: {
+          ledgerBalance: report.ledgerBalance,
+          difference: report.difference,
+          lockedAt: new Date(),
+          lockedBy: userId,
+        },
+      });
+    });
+
+    return { reconciliation: locked, report };
+  }
+
+  /**
+   * Fetch the current balance from the account's bank, for use as a closing balance
+   */
+  async fetchBalance(bankAccountId: string): Promise<BankProviderBalance | ReconciliationError> {
+    const bankAccount = await prisma.bankAccount.findUnique({ where: { id: bankAccountId } });
+
+    if (!bankAccount) {
+      return { status: 404, error: 'Bank account not found' };
+    }
+
+    if (!bankAccount.accessToken) {
+      return { status: 400, error: 'Bank account is not connected to a bank provider' };
+    }
+
+    const provider = getBankProvider(bankAccount.provider);
+    return provider.getBalance(decryptToken(bankAccount.accessToken), bankAccount.accountId);
+  }
+
+  /**
+   * Whether any of the given bank transactions are frozen by a locked reconciliation
+   */
+  async hasLockedBankTransactions(where: Prisma.BankTransactionWhereInput): Promise<boolean> {
+    const count = await prisma.bankTransaction.count({
+      where: { ...where, reconciliationId: { not: null } },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Group the period's bank transactions and work out the difference
+   * @param lockedReconciliationId - Report the rows frozen by this reconciliation instead of the period's current rows
+   */
+  private async buildReport(
+    bankAccountId: string,
+    statementDate: Date,
+    statementBalance: number,
+    openingBalance?: number,
+    lockedReconciliationId?: string
+  ): Promise<ReconciliationReport> {
+    const periodEnd = new Date(statementDate.getTime() + DAY_MS);
+
+    const previous = await prisma.bankReconciliation.findFirst({
+      where: { bankAccountId, statementDate: { lt: statementDate } },
+      orderBy: [{ statementDate: 'desc' }, { createdAt: 'desc' }],
+    });
+    const periodStart = previous ? new Date(previous.statementDate.getTime() + DAY_MS) : null;
+    const opening = openingBalance ?? previous?.statementBalance ?? 0;
+
+    const bankTransactions = await prisma.bankTransaction.findMany({
+      where: lockedReconciliationId
+        ? { reconciliationId: lockedReconciliationId }
+        : {
+            bankAccountId,
+            reversedAt: null,
+            // Leave out discarded duplicates; `not` alone would also leave out rows with no status
+            OR: [{ duplicateStatus: null }, { duplicateStatus: { not: 'discarded' } }],
+            transactionDate: { ...(periodStart ? { gte: periodStart } : {}), lt: periodEnd },
+          },
+      include: {
+        ledgerTransactions: { select: { id: true, amount: true, isImported: true } },
+        pendingTransaction: { select: { id: true, reviewedAt: true } },
+      },
+      orderBy: { transactionDate: 'asc' },
+    });
+
+    const report: ReconciliationReport = {
+      periodStart,
+      periodEnd,
+      openingBalance: opening,
+      statementBalance,
+      ledgerBalance: 0,
+      difference: 0,
+      matched: [],
+      pending: [],
+      unmatched: [],
+      totals: { matched: 0, pending: 0, unmatched: 0 },
+    };
+
+    let ledgerTotal = 0;
+
+    for (const bankTransaction of bankTransactions) {
+      const ledger = bankTransaction.ledgerTransactions;
+      // Manual transactions linked to the bank are in pounds rather than bank units
+      const ledgerAmount =
+        ledger.length > 0
+          ? round(
+              ledger.reduce(
+                (total, transaction) =>
+                  total +
+                  (transaction.isImported
+                    ? transaction.amount
+                    : toBankAmount(transaction.amount, bankTransaction.amount)),
+                0
+              )
+            )
+          : null;
+
+      const item: ReconciliationItem = {
+        id: bankTransaction.id,
+        externalId: bankTransaction.externalId,
+        transactionDate: bankTransaction.transactionDate,
+        description: bankTransaction.description,
+        amount: bankTransaction.amount,
+        currency: bankTransaction.currency,
+        transactionId: bankTransaction.transactionId ?? ledger[0]?.id ?? null,
+        ledgerAmount,
+        pendingTransactionId: bankTransaction.pendingTransaction?.id ?? null,
+      };
+
+      if (ledgerAmount !== null) {
+        ledgerTotal += ledgerAmount;
+        report.matched.push(item);
+      } else if (
+        (bankTransaction.pendingTransaction && !bankTransaction.pendingTransaction.reviewedAt) ||
+        bankTransaction.duplicateStatus === 'possible'
+      ) {
+        report.pending.push(item);
+      } else {
+        report.unmatched.push(item);
+      }
+    }
+
+    report.ledgerBalance = round(opening + ledgerTotal);
+    report.difference = round(statementBalance - report.ledgerBalance);
+    report.totals = {
+      matched: sum(report.matched),
+      pending: sum(report.pending),
+      unmatched: sum(report.unmatched),
+    };
+
+    return report;
+  }
+}
+
+export const bankReconciliationService = new BankReconciliationService();
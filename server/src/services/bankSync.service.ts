@@ -0,0 +1,428 @@
+import prisma from '../db/client.js';
+import { decryptToken } from './encryption.js';
+import { processBankTransactions, type BankTransactionInput } from './transactionProcessor.js';
+import { getBankProvider } from './bankProviders/index.js';
+import { importProgressTracker } from './importProgressTracker.js';
+import { fetchTransactionsWithRetry, getMonzoErrorMessage } from '../utils/monzoApiWrapper.js';
+
+/**
+ * Bank Sync Service
+ *
+ * Pulls transactions from a bank account's provider (see ./bankProviders) and
+ * feeds them through the transaction processing pipeline.
+ */
+
+/**
+ * Import full transaction history from the account's bank provider
+ * This function runs asynchronously in the background and must complete within 5 minutes
+ * of OAuth completion (Monzo API restriction, applied to all providers).
+ *
+ * @param bankAccountId - Database ID of the bank account to import transactions for
+ * @returns The sync log ID for tracking progress
+ */
+export async function importFullHistory(bankAccountId: string): Promise<string> {
+  let syncLogId: string | undefined;
+  let transactionsFetched = 0;
+  let duplicatesSkipped = 0;
+  let possibleDuplicates = 0;
+  const TIMEOUT_MS = 270000; // 4 minutes 30 seconds (safety buffer for 5-minute window)
+  let timedOut = false;
+
+  try {
+    // Get bank account
+    const bankAccount = await prisma.bankAccount.findUnique({
+      where: { id: bankAccountId },
+    });
+
+    if (!bankAccount) {
+      throw new Error('Bank account not found');
+    }
+
+    if (!bankAccount.accessToken) {
+      throw new Error('Bank account is not connected to a bank provider');
+    }
+
+    const provider = getBankProvider(bankAccount.provider);
+
+    // Create sync log
+    const syncLog = await prisma.syncLog.create({
+      data: {
+        bankAccountId,
+        syncType: 'initial',
+        status: 'in_progress',
+      },
+    });
+    syncLogId = syncLog.id;
+
+    // Emit initial progress
+    importProgressTracker.emitProgress({
+      syncLogId,
+      status: 'fetching',
+      transactionsFetched: 0,
+      transactionsProcessed: 0,
+      duplicatesSkipped: 0,
+      message: 'Starting import...',
+    });
+
+    // Decrypt access token
+    const accessToken = decryptToken(bankAccount.accessToken);
+
+    // Set timeout for graceful shutdown
+    const timeoutHandle = setTimeout(() => {
+      timedOut = true;
+      console.warn(`Import timeout approaching for bank account ${bankAccountId}, stopping gracefully`);
+    }, TIMEOUT_MS);
+
+    // Fetch transactions with pagination
+    const allTransactions: BankTransactionInput[] = [];
+    let cursor: string | undefined;
+    let hasMore = true;
+    let batchNumber = 0;
+
+    while (hasMore && !timedOut) {
+      batchNumber++;
+
+      const page = await provider.fetchTransactions(
+        accessToken,
+        bankAccount.accountId,
+        bankAccount.syncFromDate,
+        cursor
+      );
+      const transactions = page.transactions;
+
+      allTransactions.push(...transactions);
+      transactionsFetched += transactions.length;
+
+      // Emit progress update after fetching batch
+      importProgressTracker.emitProgress({
+        syncLogId,
+        status: 'fetching',
+        transactionsFetched,
+        transactionsProcessed: 0,
+        duplicatesSkipped: 0,
+        currentBatch: batchNumber,
+        message: `Fetched ${transactionsFetched} transactions...`,
+      });
+
+      // Check if we need to paginate
+      if (page.nextCursor) {
+        cursor = page.nextCursor;
+      } else {
+        hasMore = false;
+      }
+    }
+
+    clearTimeout(timeoutHandle);
+
+    // Emit progress update before processing
+    importProgressTracker.emitProgress({
+      syncLogId,
+      status: 'processing',
+      transactionsFetched,
+      transactionsProcessed: 0,
+      duplicatesSkipped: 0,
+      message: 'Processing transactions...',
+    });
+
+    // Process transactions through unified pipeline
+    let processedCount = 0;
+    if (allTransactions.length > 0) {
+      const processResult = await processBankTransactions(allTransactions, bankAccountId);
+      processedCount = processResult.processed;
+      duplicatesSkipped = processResult.duplicatesSkipped;
+      possibleDuplicates = processResult.possibleDuplicates;
+
+      // Log any processing errors
+      if (processResult.errors.length > 0) {
+        console.error(`Import encountered ${processResult.errors.length} errors:`, processResult.errors);
+      }
+    }
+
+    // Determine final status
+    const finalStatus = timedOut ? 'partial' : 'success';
+
+    // Update sync log
+    await prisma.syncLog.update({
+      where: { id: syncLogId },
+      data: {
+        status: finalStatus,
+        completedAt: new Date(),
+        transactionsFetched,
+        transactionsSkipped: duplicatesSkipped,
+        transactionsHeld: possibleDuplicates,
+      },
+    });
+
+    // Update bank account
+    await prisma.bankAccount.update({
+      where: { id: bankAccountId },
+      data: {
+        lastSyncAt: new Date(),
+        lastSyncStatus: finalStatus,
+      },
+    });
+
+    // Emit completion progress
+    importProgressTracker.emitProgress({
+      syncLogId,
+      status: 'completed',
+      transactionsFetched,
+      transactionsProcessed: processedCount,
+      duplicatesSkipped,
+      possibleDuplicates,
+      message: `Import completed: ${processedCount} transactions processed`,
+    });
+
+    console.log(`Import completed for bank account ${bankAccountId}: ${transactionsFetched} transactions fetched (${processedCount} processed, ${duplicatesSkipped} duplicates skipped, ${possibleDuplicates} held as possible duplicates), status: ${finalStatus}`);
+
+    return syncLogId;
+  } catch (error) {
+    console.error(`Import failed for bank account ${bankAccountId}:`, error);
+
+    // Update sync log with error
+    if (syncLogId) {
+      await prisma.syncLog.update({
+        where: { id: syncLogId },
+        data: {
+          status: 'failed',
+          completedAt: new Date(),
+          transactionsFetched,
+          transactionsSkipped: duplicatesSkipped,
+          transactionsHeld: possibleDuplicates,
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          errorDetails: error instanceof Error ? error.stack : undefined,
+        },
+      });
+
+      // Emit error progress
+      importProgressTracker.emitProgress({
+        syncLogId,
+        status: 'failed',
+        transactionsFetched,
+        transactionsProcessed: 0,
+        duplicatesSkipped,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    // Update bank account status
+    await prisma.bankAccount.update({
+      where: { id: bankAccountId },
+      data: {
+        lastSyncAt: transactionsFetched > 0 ? new Date() : undefined,
+        lastSyncStatus: 'failed',
+      },
+    });
+
+    throw error;
+  }
+}
+
+/**
+ * Sync result interface returned by syncNewTransactions
+ */
+export interface SyncResult {
+  success: boolean;
+  transactionsFetched?: number;
+  lastSyncAt?: Date;
+  lastSyncStatus?: string;
+  error?: string;
+}
+
+/**
+ * Sync new transactions from the account's bank provider since last sync
+ * This is a synchronous operation with a 30-second timeout, used by manual sync
+ * triggers and the background scheduler
+ *
+ * @param bankAccountId - Database ID of the bank account to sync transactions for
+ * @param syncType - Recorded on the SyncLog: 'manual' or 'scheduled'
+ * @returns SyncResult with status, counts, and timestamps
+ */
+export async function syncNewTransactions(
+  bankAccountId: string,
+  syncType: 'manual' | 'scheduled' = 'manual'
+): Promise<SyncResult> {
+  let syncLogId: string | undefined;
+  let transactionsFetched = 0;
+  let duplicatesSkipped = 0;
+  let possibleDuplicates = 0;
+  const TIMEOUT_MS = 30000; // 30 seconds per sync
+  const label = syncType === 'scheduled' ? 'Scheduled sync' : 'Manual sync';
+  let timedOut = false;
+
+  try {
+    // Get bank account
+    const bankAccount = await prisma.bankAccount.findUnique({
+      where: { id: bankAccountId },
+    });
+
+    if (!bankAccount) {
+      return {
+        success: false,
+        error: 'Bank account not found',
+      };
+    }
+
+    if (!bankAccount.accessToken) {
+      return {
+        success: false,
+        error: 'Bank account is not connected to a bank provider',
+      };
+    }
+
+    const provider = getBankProvider(bankAccount.provider);
+
+    // Check for concurrent sync
+    const inProgressSync = await prisma.syncLog.findFirst({
+      where: {
+        bankAccountId,
+        status: 'in_progress',
+      },
+    });
+
+    if (inProgressSync) {
+      return {
+        success: false,
+        error: 'Sync already in progress',
+      };
+    }
+
+    // Create sync log
+    const syncLog = await prisma.syncLog.create({
+      data: {
+        bankAccountId,
+        syncType,
+        status: 'in_progress',
+      },
+    });
+    syncLogId = syncLog.id;
+
+    // Decrypt access token (may be refreshed during sync)
+    let accessToken = decryptToken(bankAccount.accessToken);
+
+    // Determine sync start date (lastSyncAt or syncFromDate)
+    const sinceDate = bankAccount.lastSyncAt || bankAccount.syncFromDate;
+
+    // Set timeout for graceful shutdown
+    const timeoutHandle = setTimeout(() => {
+      timedOut = true;
+      console.warn(`${label} timeout approaching for bank account ${bankAccountId}, stopping gracefully`);
+    }, TIMEOUT_MS);
+
+    // Fetch transactions with pagination
+    const allTransactions: BankTransactionInput[] = [];
+    let cursor: string | undefined;
+    let hasMore = true;
+
+    while (hasMore && !timedOut) {
+      // Fetch transactions with automatic retry and token refresh
+      const result = await fetchTransactionsWithRetry(
+        provider,
+        bankAccountId,
+        bankAccount.accountId,
+        accessToken,
+        sinceDate,
+        cursor
+      );
+
+      // Update access token if it was refreshed
+      accessToken = result.accessToken;
+
+      const page = result.page;
+      const transactions = page.transactions;
+      allTransactions.push(...transactions);
+      transactionsFetched += transactions.length;
+
+      // Check if we need to paginate
+      if (page.nextCursor) {
+        cursor = page.nextCursor;
+      } else {
+        hasMore = false;
+      }
+    }
+
+    clearTimeout(timeoutHandle);
+
+    // Process transactions through unified pipeline
+    let processedCount = 0;
+    if (allTransactions.length > 0) {
+      const processResult = await processBankTransactions(allTransactions, bankAccountId);
+      processedCount = processResult.processed;
+      duplicatesSkipped = processResult.duplicatesSkipped;
+      possibleDuplicates = processResult.possibleDuplicates;
+
+      // Log any processing errors
+      if (processResult.errors.length > 0) {
+        console.error(`${label} encountered ${processResult.errors.length} errors:`, processResult.errors);
+      }
+    }
+
+    // Determine final status
+    const finalStatus = timedOut ? 'partial' : 'success';
+    const now = new Date();
+
+    // Update sync log
+    await prisma.syncLog.update({
+      where: { id: syncLogId },
+      data: {
+        status: finalStatus,
+        completedAt: now,
+        transactionsFetched,
+        transactionsSkipped: duplicatesSkipped,
+        transactionsHeld: possibleDuplicates,
+      },
+    });
+
+    // Update bank account (only update lastSyncAt on complete success)
+    await prisma.bankAccount.update({
+      where: { id: bankAccountId },
+      data: {
+        lastSyncAt: finalStatus === 'success' ? now : undefined,
+        lastSyncStatus: finalStatus,
+      },
+    });
+
+    console.log(`${label} completed for bank account ${bankAccountId}: ${transactionsFetched} transactions fetched (${processedCount} processed, ${duplicatesSkipped} duplicates skipped, ${possibleDuplicates} held as possible duplicates), status: ${finalStatus}`);
+
+    return {
+      success: true,
+      transactionsFetched,
+      lastSyncAt: finalStatus === 'success' ? now : bankAccount.lastSyncAt || undefined,
+      lastSyncStatus: finalStatus,
+    };
+  } catch (error) {
+    console.error(`${label} failed for bank account ${bankAccountId}:`, error);
+
+    // Get user-friendly error message
+    const errorMessage = getMonzoErrorMessage(error);
+
+    // Update sync log with error
+    if (syncLogId) {
+      await prisma.syncLog.update({
+        where: { id: syncLogId },
+        data: {
+          status: 'failed',
+          completedAt: new Date(),
+          transactionsFetched,
+          transactionsSkipped: duplicatesSkipped,
+          transactionsHeld: possibleDuplicates,
+          errorMessage,
+          errorDetails: error instanceof Error ? error.stack : undefined,
+        },
+      });
+    }
+
+    // Update bank account status (don't update lastSyncAt on failure)
+    await prisma.bankAccount.update({
+      where: { id: bankAccountId },
+      data: {
+        lastSyncStatus: 'failed',
+      },
+    });
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
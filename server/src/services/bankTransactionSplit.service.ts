@@ -0,0 +1,130 @@
+import type { Transaction } from '@prisma/client';
+import prisma from '../db/client.js';
+import { transactionCategoryService } from './transactionCategory.service.js';
+import type { SplitPendingTransaction } from '../../../shared/validation/pendingTransaction.validation.js';
+
+type SplitError = { status: number; error: string };
+
+// Bank amounts are in minor units but statement imports can carry fractions
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class BankTransactionSplitService {
+  /**
+   * Approve a pending transaction as several ledger transactions, e.g. one
+   * payment covering two properties. The parts must add up to the bank
+   * amount; each takes its sign. All parts link back to the bank transaction,
+   * which points at the first.
+   */
+  async approveSplit(
+    pendingTransactionId: string,
+    parts: SplitPendingTransaction['parts'],
+    userId: string
+  ): Promise<Transaction[] | SplitError> {
+    const pending = await prisma.pendingTransaction.findUnique({
+      where: { id: pendingTransactionId },
+      include: { bankTransaction: true },
+    });
+
+    if (!pending) {
+      return { status: 404, error: 'Pending transaction not found' };
+    }
+
+    if (pending.reviewedAt) {
+      return { status: 400, error: 'This pending transaction has already been reviewed' };
+    }
+
+    if (pending.bankTransaction.reversedAt) {
+      return { status: 400, error: 'The bank reversed this transaction, so it cannot be split' };
+    }
+
+    const bankAmount = pending.bankTransaction.amount;
+    const total = parts.reduce((sum, part) => sum + part.amount, 0);
+
+    if (round(total) !== round(Math.abs(bankAmount))) {
+      return { status: 400, error: 'Split amounts must add up to the bank transaction amount' };
+    }
+
+    for (const part of parts) {
+      const partError = await this.validatePart(part);
+
+      if (partError) {
+        return partError;
+      }
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const transactions: Transaction[] = [];
+
+      for (const part of parts) {
+        transactions.push(
+          await tx.transaction.create({
+            data: {
+              propertyId: part.propertyId,
+              leaseId: part.leaseId ?? null,
+              type: part.type,
+              category: part.category,
+              amount: bankAmount < 0 ? -part.amount : part.amount,
+              transactionDate: pending.transactionDate,
+              description: part.description ?? pending.description,
+              bankTransactionId: pending.bankTransactionId,
+              isImported: true,
+              importedAt: new Date(),
+            },
+          })
+        );
+      }
+
+      await tx.bankTransaction.update({
+        where: { id: pending.bankTransactionId },
+        data: { transactionId: transactions[0].id },
+      });
+
+      await tx.pendingTransaction.update({
+        where: { id: pendingTransactionId },
+        data: { reviewedAt: new Date(), reviewedBy: userId },
+      });
+
+      return transactions;
+    });
+  }
+
+  /**
+   * Check a part's property exists, its category matches its type and its
+   * lease is on its property
+   */
+  private async validatePart(part: SplitPendingTransaction['parts'][number]): Promise<SplitError | null> {
+    const property = await prisma.property.findUnique({
+      where: { id: part.propertyId },
+      select: { id: true },
+    });
+
+    if (!property) {
+      return { status: 404, error: 'Property not found' };
+    }
+
+    const categoryError = await transactionCategoryService.validateCategory(part.category, part.type);
+
+    if (categoryError) {
+      return categoryError;
+    }
+
+    if (part.leaseId) {
+      const lease = await prisma.lease.findUnique({
+        where: { id: part.leaseId },
+        select: { propertyId: true },
+      });
+
+      if (!lease) {
+        return { status: 404, error: 'Lease not found' };
+      }
+
+      if (lease.propertyId !== part.propertyId) {
+        return { status: 400, error: 'Lease does not belong to the property' };
+      }
+    }
+
+    return null;
+  }
+}
+
+export const bankTransactionSplitService = new BankTransactionSplitService();
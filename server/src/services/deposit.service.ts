@@ -0,0 +1,199 @@
+import prisma from '../db/client.js';
+
+/**
+ * Deposits must be protected in an authorised scheme, and the prescribed
+ * information served on the tenant, within 30 days of receipt (Housing Act 2004 s.213).
+ */
+export const DEPOSIT_PROTECTION_DEADLINE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DepositProtectionStatus = 'Not Required' | 'Not Received' | 'Pending' | 'Compliant' | 'Breach';
+
+export interface DepositCompliance {
+  status: DepositProtectionStatus;
+  // Last day to protect the deposit and serve prescribed information
+  deadline: Date | null;
+  // Negative once the deadline has passed
+  daysUntilDeadline: number | null;
+  isProtected: boolean;
+  prescribedInfoServed: boolean;
+  breaches: string[];
+  isReturned: boolean;
+}
+
+export interface DepositComplianceLease {
+  securityDepositAmount: number;
+  securityDepositPaidDate: Date | null;
+  depositProtectedDate: Date | null;
+  prescribedInfoServedAt: Date | null;
+  depositReturnedDate: Date | null;
+}
+
+export interface DepositComplianceReportLease {
+  leaseId: string;
+  leaseStatus: string;
+  property: {
+    id: string;
+    name: string;
+  };
+  tenant: {
+    id: string;
+    name: string;
+  };
+  securityDepositAmount: number;
+  securityDepositPaidDate: Date | null;
+  depositScheme: string | null;
+  depositCertificateRef: string | null;
+  compliance: DepositCompliance;
+}
+
+export interface DepositComplianceReport {
+  asOf: Date;
+  leases: DepositComplianceReportLease[];
+  summary: {
+    totalHeld: number;
+    breaches: number;
+    pending: number;
+  };
+}
+
+const startOfUtcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Breach, then pending, then everything else
+const STATUS_ORDER: Record<DepositProtectionStatus, number> = {
+  Breach: 0,
+  Pending: 1,
+  'Not Received': 2,
+  Compliant: 3,
+  'Not Required': 4,
+};
+
+export class DepositService {
+  /**
+   * Check a lease's deposit against the statutory 30-day protection deadline as at a given date
+   */
+  getCompliance(lease: DepositComplianceLease, asOf: Date = new Date()): DepositCompliance {
+    const isProtected = !!lease.depositProtectedDate;
+    const prescribedInfoServed = !!lease.prescribedInfoServedAt;
+    const isReturned = !!lease.depositReturnedDate;
+
+    if (lease.securityDepositAmount <= 0) {
+      return {
+        status: 'Not Required',
+        deadline: null,
+        daysUntilDeadline: null,
+        isProtected,
+        prescribedInfoServed,
+        breaches: [],
+        isReturned,
+      };
+    }
+
+    if (!lease.securityDepositPaidDate) {
+      return {
+        status: 'Not Received',
+        deadline: null,
+        daysUntilDeadline: null,
+        isProtected,
+        prescribedInfoServed,
+        breaches: [],
+        isReturned,
+      };
+    }
+
+    const deadline = new Date(
+      startOfUtcDay(lease.securityDepositPaidDate).getTime() + DEPOSIT_PROTECTION_DEADLINE_DAYS * DAY_MS
+    );
+    const today = startOfUtcDay(asOf);
+    const pastDeadline = today > deadline;
+
+    const breaches: string[] = [];
+    if (lease.depositProtectedDate ? startOfUtcDay(lease.depositProtectedDate) > deadline : pastDeadline) {
+      breaches.push(lease.depositProtectedDate ? 'Deposit protected late' : 'Deposit not protected');
+    }
+    if (lease.prescribedInfoServedAt ? startOfUtcDay(lease.prescribedInfoServedAt) > deadline : pastDeadline) {
+      breaches.push(
+        lease.prescribedInfoServedAt ? 'Prescribed information served late' : 'Prescribed information not served'
+      );
+    }
+
+    const status: DepositProtectionStatus =
+      breaches.length > 0 ? 'Breach' : isProtected && prescribedInfoServed ? 'Compliant' : 'Pending';
+
+    return {
+      status,
+      deadline,
+      daysUntilDeadline: Math.round((deadline.getTime() - today.getTime()) / DAY_MS),
+      isProtected,
+      prescribedInfoServed,
+      breaches,
+      isReturned,
+    };
+  }
+
+  /**
+   * Deposit protection compliance for every lease holding a deposit, breaches first
+   */
+  async generateComplianceReport(asOf: Date, propertyId?: string): Promise<DepositComplianceReport> {
+    const leases = await prisma.lease.findMany({
+      where: {
+        securityDepositAmount: { gt: 0 },
+        ...(propertyId ? { propertyId } : {}),
+      },
+      include: {
+        property: true,
+        tenant: true,
+        tenants: {
+          include: { tenant: true },
+          orderBy: [{ isLead: 'desc' }, { createdAt: 'asc' }],
+        },
+      },
+      orderBy: { startDate: 'asc' },
+    });
+
+    const entries: DepositComplianceReportLease[] = leases.map((lease) => {
+      const tenants = lease.tenants.length > 0 ? lease.tenants.map((t) => t.tenant) : [lease.tenant];
+      return {
+        leaseId: lease.id,
+        leaseStatus: lease.status,
+        property: {
+          id: lease.property.id,
+          name: lease.property.name,
+        },
+        tenant: {
+          id: lease.tenant.id,
+          name: tenants.map((t) => `${t.firstName} ${t.lastName}`).join(' & '),
+        },
+        securityDepositAmount: lease.securityDepositAmount,
+        securityDepositPaidDate: lease.securityDepositPaidDate,
+        depositScheme: lease.depositScheme,
+        depositCertificateRef: lease.depositCertificateRef,
+        compliance: this.getCompliance(lease, asOf),
+      };
+    });
+
+    entries.sort(
+      (a, b) =>
+        STATUS_ORDER[a.compliance.status] - STATUS_ORDER[b.compliance.status] ||
+        (a.compliance.deadline?.getTime() ?? Infinity) - (b.compliance.deadline?.getTime() ?? Infinity)
+    );
+
+    const held = entries.filter((e) => e.securityDepositPaidDate && !e.compliance.isReturned);
+
+    return {
+      asOf,
+      leases: entries,
+      summary: {
+        totalHeld: roundMoney(held.reduce((sum, e) => sum + e.securityDepositAmount, 0)),
+        breaches: entries.filter((e) => e.compliance.status === 'Breach').length,
+        pending: entries.filter((e) => e.compliance.status === 'Pending').length,
+      },
+    };
+  }
+}
+
+export const depositService = new DepositService();
@@ -3,7 +3,7 @@ import type { BankTransaction } from '@prisma/client';
 
 /**
  * Similarity threshold percentage for fuzzy matching
- * Descriptions with similarity >= this threshold are considered duplicates
+ * Descriptions with similarity >= this threshold are considered possible duplicates
  */
 const FUZZY_MATCH_SIMILARITY_THRESHOLD = 80;
 
@@ -110,6 +110,10 @@ function calculateSimilarity(str1: string, str2: string): number {
  * 1. Exact match: Same bankAccountId + externalId
  * 2. Fuzzy match: Same bankAccountId, amount, date ±1 day, and description similarity >80%
  *
+ * Exact matches are the same transaction sent again. Fuzzy matches may be
+ * genuine repeats (e.g. two equal rent payments in a month), so the
+ * processing pipeline holds them for review rather than skipping them.
+ *
  * @param input Transaction data to check
  * @returns Duplicate check result with match type and matched transaction
  */
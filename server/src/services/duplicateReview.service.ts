@@ -0,0 +1,122 @@
+import type { BankTransaction } from '@prisma/client';
+import prisma from '../db/client.js';
+import { findMatchingRules, postBankTransaction } from './transactionProcessor.js';
+
+type DuplicateReviewError = { status: number; error: string };
+
+// Fields shown side by side so the reviewer can compare the two transactions
+const comparedFields = {
+  id: true,
+  externalId: true,
+  amount: true,
+  currency: true,
+  description: true,
+  counterpartyName: true,
+  reference: true,
+  merchant: true,
+  transactionDate: true,
+  importedAt: true,
+} as const;
+
+export class DuplicateReviewService {
+  /**
+   * Bank transactions held as possible duplicates, each with the earlier
+   * transaction it looked like and how far that got into the ledger
+   */
+  async list(bankAccountId?: string) {
+    return prisma.bankTransaction.findMany({
+      where: {
+        duplicateStatus: 'possible',
+        ...(bankAccountId ? { bankAccountId } : {}),
+      },
+      select: {
+        ...comparedFields,
+        bankAccount: { select: { id: true, accountName: true } },
+        duplicateOf: {
+          select: { ...comparedFields, transactionId: true, pendingTransactionId: true, duplicateStatus: true },
+        },
+      },
+      orderBy: { transactionDate: 'desc' },
+    });
+  }
+
+  /**
+   * Count the possible duplicates awaiting review
+   */
+  async count(): Promise<number> {
+    return prisma.bankTransaction.count({ where: { duplicateStatus: 'possible' } });
+  }
+
+  /**
+   * Keep a possible duplicate as a transaction in its own right and post it
+   * through the matching rules, as if it had never been held. If posting
+   * fails, it goes back to review. One the bank has since reversed can only be
+   * discarded.
+   */
+  async keep(bankTransactionId: string): Promise<BankTransaction | DuplicateReviewError> {
+    const bankTransaction = await prisma.bankTransaction.findUnique({
+      where: { id: bankTransactionId },
+      select: { reversedAt: true },
+    });
+
+    if (bankTransaction?.reversedAt) {
+      return { status: 400, error: 'The bank reversed this transaction, so it cannot be kept' };
+    }
+
+    const held = await this.claim(bankTransactionId, { duplicateStatus: null });
+
+    if ('error' in held) {
+      return held;
+    }
+
+    try {
+      await postBankTransaction(held, await findMatchingRules(held.bankAccountId));
+    } catch (error) {
+      await prisma.bankTransaction.update({
+        where: { id: bankTransactionId },
+        data: { duplicateStatus: 'possible' },
+      });
+      throw error;
+    }
+
+    return prisma.bankTransaction.update({
+      where: { id: bankTransactionId },
+      data: { duplicateOfId: null },
+    });
+  }
+
+  /**
+   * Discard a possible duplicate. It stays stored, so later syncs still skip
+   * it by its provider ID, but it never reaches the ledger or reconciliation.
+   */
+  async discard(bankTransactionId: string): Promise<BankTransaction | DuplicateReviewError> {
+    return this.claim(bankTransactionId, { duplicateStatus: 'discarded' });
+  }
+
+  /**
+   * Move a possible duplicate out of review, unless someone else got there first
+   */
+  private async claim(
+    bankTransactionId: string,
+    data: { duplicateStatus: string | null }
+  ): Promise<BankTransaction | DuplicateReviewError> {
+    const bankTransaction = await prisma.bankTransaction.findUnique({ where: { id: bankTransactionId } });
+
+    if (!bankTransaction) {
+      return { status: 404, error: 'Bank transaction not found' };
+    }
+
+    const { count } = await prisma.bankTransaction.updateMany({
+      where: { id: bankTransactionId, duplicateStatus: 'possible' },
+      data,
+    });
+
+    if (count === 0) {
+      return { status: 400, error: 'Bank transaction is not awaiting duplicate review' };
+    }
+
+    return { ...bankTransaction, ...data };
+  }
+}
+
+export const duplicateReviewService = new DuplicateReviewService();
@@ -9,6 +9,8 @@ export interface ImportProgressUpdate {
   transactionsFetched: number;
   transactionsProcessed: number;
   duplicatesSkipped: number;
+  /** Possible duplicates held for review, once known */
+  possibleDuplicates?: number;
   currentBatch?: number;
   totalBatches?: number;
   message?: string;
@@ -0,0 +1,193 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../db/client.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LeaseStatusTransition {
+  leaseId: string;
+  fromStatus: string;
+  toStatus: string;
+  reason: string;
+}
+
+export interface LeaseStatusRunResult {
+  asOf: Date;
+  expired: LeaseStatusTransition[];
+  activated: LeaseStatusTransition[];
+  // Drafts whose start date arrived but could not go live
+  skipped: Array<{ leaseId: string; reason: string }>;
+}
+
+const startOfUtcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+export class LeaseStatusService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Find Active leases on the property whose dates overlap the given period.
+   * A unit lease only clashes with leases on the same unit or on the whole property.
+   */
+  async findOverlappingActiveLeases(params: {
+    propertyId: string;
+    unitId?: string | null;
+    startDate: Date;
+    endDate?: Date | null;
+    excludeLeaseIds?: string[];
+  }) {
+    const { propertyId, unitId, startDate, endDate, excludeLeaseIds = [] } = params;
+
+    const where: Prisma.LeaseWhereInput = {
+      propertyId,
+      status: 'Active',
+      // Overlap condition: (new.startDate <= existing.endDate OR existing.endDate is null)
+      //                AND (new.endDate >= existing.startDate OR new.endDate is null)
+      OR: [{ endDate: { gte: startDate } }, { endDate: null }],
+    };
+
+    if (endDate) {
+      where.startDate = { lte: endDate };
+    }
+
+    if (excludeLeaseIds.length > 0) {
+      where.id = { notIn: excludeLeaseIds };
+    }
+
+    if (unitId) {
+      where.AND = [{ OR: [{ unitId }, { unitId: null }] }];
+    }
+
+    return prisma.lease.findMany({ where });
+  }
+
+  /**
+   * Apply date-driven status transitions as at the given date:
+   * Active leases whose end date has passed become Expired, and Draft leases
+   * whose start date has arrived become Active. Every change is recorded in
+   * lease_status_changes.
+   *
+   * Expiries run first so a successor draft is not blocked by the lease it replaces.
+   */
+  async runTransitions(asOf: Date = new Date()): Promise<LeaseStatusRunResult> {
+    const today = startOfUtcDay(asOf);
+    const result: LeaseStatusRunResult = { asOf, expired: [], activated: [], skipped: [] };
+
+    // End dates are the last day of the tenancy, so a lease expires the day after
+    const endedLeases = await prisma.lease.findMany({
+      where: { status: 'Active', endDate: { lt: today } },
+      orderBy: { endDate: 'asc' },
+    });
+
+    for (const lease of endedLeases) {
+      const transition = await this.applyTransition(lease.id, 'Active', 'Expired', 'End date passed');
+      if (transition) {
+        result.expired.push(transition);
+      }
+    }
+
+    const dueDrafts = await prisma.lease.findMany({
+      where: {
+        status: 'Draft',
+        startDate: { lt: new Date(today.getTime() + DAY_MS) },
+        OR: [{ endDate: null }, { endDate: { gte: today } }],
+      },
+      orderBy: { startDate: 'asc' },
+    });
+
+    for (const lease of dueDrafts) {
+      const overlapping = await this.findOverlappingActiveLeases({
+        propertyId: lease.propertyId,
+        unitId: lease.unitId,
+        startDate: lease.startDate,
+        endDate: lease.endDate,
+        excludeLeaseIds: [lease.id],
+      });
+
+      if (overlapping.length > 0) {
+        result.skipped.push({ leaseId: lease.id, reason: 'Overlapping active lease exists for this property' });
+        continue;
+      }
+
+      const transition = await this.applyTransition(lease.id, 'Draft', 'Active', 'Start date reached');
+      if (transition) {
+        result.activated.push(transition);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run transitions now, then daily just after midnight UTC.
+   * Running at startup catches up on any days the server was down.
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const run = async () => {
+      try {
+        const result = await this.runTransitions();
+        console.log(
+          `[lease-status] Expired ${result.expired.length}, activated ${result.activated.length}, skipped ${result.skipped.length}`
+        );
+      } catch (error) {
+        console.error('Lease status transition error:', error);
+      }
+    };
+
+    const scheduleNext = () => {
+      const now = new Date();
+      const nextRun = startOfUtcDay(now).getTime() + DAY_MS + 60 * 1000; // 00:01 UTC tomorrow
+      this.timer = setTimeout(async () => {
+        await run();
+        scheduleNext();
+      }, nextRun - now.getTime());
+      // Don't keep the process alive just for the scheduler
+      this.timer.unref();
+    };
+
+    void run();
+    scheduleNext();
+  }
+
+  /**
+   * Stop the daily scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Move a lease from one status to another and record the change. Returns null
+   * without recording anything when the lease has left fromStatus in the meantime,
+   * e.g. a user terminated it while the run was in progress.
+   */
+  private async applyTransition(
+    leaseId: string,
+    fromStatus: string,
+    toStatus: string,
+    reason: string
+  ): Promise<LeaseStatusTransition | null> {
+    return prisma.$transaction(async (tx) => {
+      const { count } = await tx.lease.updateMany({
+        where: { id: leaseId, status: fromStatus },
+        data: { status: toStatus },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      await tx.leaseStatusChange.create({
+        data: { leaseId, fromStatus, toStatus, reason },
+      });
+
+      return { leaseId, fromStatus, toStatus, reason };
+    });
+  }
+}
+
+export const leaseStatusService = new LeaseStatusService();
@@ -144,3 +144,64 @@ export async function createDefaultMatchingRules(): Promise<number> {
 
   return defaultRules.length;
 }
+
+/**
+ * What a rule assigns to the transactions it creates, beyond property, type and category
+ */
+export interface RuleAssignments {
+  leaseId?: string | null;
+  paidByUserId?: string | null;
+  splits?: Array<{ userId: string; percentage: number }> | null;
+}
+
+/**
+ * Check a rule's lease is on its property and its payer and split users own
+ * the property, as they must be for the transactions the rule creates.
+ * Returns an error response body, or null when valid.
+ */
+export async function validateRuleAssignments(
+  propertyId: string | null | undefined,
+  assignments: RuleAssignments
+): Promise<{ status: number; error: string } | null> {
+  const { leaseId, paidByUserId, splits } = assignments;
+
+  if (!leaseId && !paidByUserId && !splits) {
+    return null;
+  }
+
+  if (!propertyId) {
+    return { status: 400, error: 'A rule must set a property to assign a lease, payer or splits' };
+  }
+
+  if (leaseId) {
+    const lease = await prisma.lease.findUnique({
+      where: { id: leaseId },
+      select: { propertyId: true },
+    });
+
+    if (!lease) {
+      return { status: 400, error: 'Lease not found' };
+    }
+
+    if (lease.propertyId !== propertyId) {
+      return { status: 400, error: 'Lease does not belong to the rule property' };
+    }
+  }
+
+  const ownerships = await prisma.propertyOwnership.findMany({
+    where: { propertyId },
+  });
+  const ownerIdSet = new Set(ownerships.map((o) => o.userId));
+
+  for (const split of splits ?? []) {
+    if (!ownerIdSet.has(split.userId)) {
+      return { status: 400, error: `User ${split.userId} is not a property owner` };
+    }
+  }
+
+  if (paidByUserId && !ownerIdSet.has(paidByUserId)) {
+    return { status: 400, error: 'paidByUserId must be a property owner' };
+  }
+
+  return null;
+}
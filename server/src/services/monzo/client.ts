@@ -8,6 +8,7 @@
 import type {
   MonzoTransactionsResponse,
   MonzoAccountsResponse,
+  MonzoBalanceResponse,
   MonzoTokenResponse,
   MonzoWebhookRegistrationResponse,
 } from './types.js';
@@ -123,6 +124,33 @@ export async function getAccounts(accessToken: string): Promise<MonzoAccountsRes
   return data;
 }
 
+/**
+ * Get the current balance of an account
+ * @param accessToken - Monzo access token
+ * @param accountId - Monzo account ID
+ * @returns Balance response
+ * @throws Error if request fails
+ */
+export async function getBalance(accessToken: string, accountId: string): Promise<MonzoBalanceResponse> {
+  const params = new URLSearchParams({ account_id: accountId });
+
+  const response = await fetch(`${MONZO_API_BASE_URL}/balance?${params.toString()}`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error('Monzo get balance error:', errorText);
+    throw new Error('Failed to fetch account balance');
+  }
+
+  const data = (await response.json()) as MonzoBalanceResponse;
+
+  return data;
+}
+
 /**
  * Get transactions for a specific account
  * @param accessToken - Monzo access token
@@ -36,6 +36,8 @@ export interface MonzoTransaction {
   category?: string;
   /** RFC3339 timestamp when transaction was settled */
   settled?: string;
+  /** Why the transaction was declined (e.g., "INSUFFICIENT_FUNDS"); absent for approved transactions */
+  decline_reason?: string;
 }
 
 /**
@@ -68,6 +70,20 @@ export interface MonzoAccountsResponse {
   accounts: MonzoAccount[];
 }
 
+/**
+ * Response from Monzo balance API endpoint
+ */
+export interface MonzoBalanceResponse {
+  /** Available balance in minor units (pence) */
+  balance: number;
+  /** Balance including pots, in minor units */
+  total_balance?: number;
+  /** ISO 4217 currency code */
+  currency: string;
+  /** Amount spent today, in minor units */
+  spend_today?: number;
+}
+
 /**
  * Monzo OAuth token response
  */
@@ -106,12 +122,13 @@ export interface MonzoWebhookRegistrationResponse {
 }
 
 /**
- * Monzo webhook payload for transaction.created events
- * This is what Monzo sends to our webhook endpoint when a transaction is created
+ * Monzo webhook payload for transaction events
+ * Monzo sends transaction.created when a transaction is created, and
+ * transaction.updated when it settles, is declined or is reversed
  */
 export interface MonzoWebhookPayload {
-  /** Event type (always "transaction.created" for transaction webhooks) */
-  type: 'transaction.created';
+  /** Event type */
+  type: 'transaction.created' | 'transaction.updated';
   /** Transaction data */
   data: MonzoTransaction;
 }
@@ -0,0 +1,277 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../db/client.js';
+import transactionService from './transaction.service.js';
+import { periodStartAt } from './rentLedger.service.js';
+import type {
+  CreateRecurringTransaction,
+  UpdateRecurringTransaction,
+} from '../../../shared/validation/recurringTransaction.validation.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const recurringTransactionInclude = {
+  property: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  paidBy: {
+    select: {
+      id: true,
+      email: true,
+    },
+  },
+  splits: {
+    include: {
+      user: {
+        select: {
+          id: true,
+          email: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.RecurringTransactionInclude;
+
+export interface RecurringTransactionRunResult {
+  asOf: Date;
+  created: Array<{ recurringTransactionId: string; transactionId: string; transactionDate: Date }>;
+  // Templates that could not run; they are retried on the next run
+  skipped: Array<{ recurringTransactionId: string; reason: string }>;
+}
+
+// The parts of a template that decide when it runs
+type Schedule = { startDate: Date; frequency: string };
+
+const startOfUtcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+export class RecurringTransactionService {
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * First scheduled date on or after the given date. Occurrences are measured
+   * from the start date, the same way rent periods are, so a template starting
+   * on the 31st runs on the last day of shorter months.
+   */
+  occurrenceOnOrAfter(schedule: Schedule, from: Date): Date {
+    for (let index = 0; ; index++) {
+      const occurrence = periodStartAt(schedule.startDate, schedule.frequency, index);
+      if (occurrence >= from) {
+        return occurrence;
+      }
+    }
+  }
+
+  /**
+   * First scheduled date strictly after the given date
+   */
+  occurrenceAfter(schedule: Schedule, after: Date): Date {
+    return this.occurrenceOnOrAfter(schedule, new Date(startOfUtcDay(after).getTime() + DAY_MS));
+  }
+
+  /**
+   * Create a template. The first run is on the start date unless another date is given.
+   */
+  async createTemplate(data: CreateRecurringTransaction) {
+    const { splits, nextRunDate, ...templateData } = data;
+
+    return prisma.recurringTransaction.create({
+      data: {
+        ...templateData,
+        nextRunDate: nextRunDate ?? templateData.startDate,
+        splits: splits ? { create: splits } : undefined,
+      },
+      include: recurringTransactionInclude,
+    });
+  }
+
+  /**
+   * Update a template, keeping its next run date in step with the schedule:
+   * - changing the start date or frequency moves the next run onto the new schedule
+   * - resuming a paused template moves past runs missed while paused, so they are not back-filled
+   * An explicit nextRunDate always wins. splits: null clears custom splits.
+   */
+  async updateTemplate(
+    existing: Schedule & { id: string; nextRunDate: Date; lastRunDate: Date | null; isPaused: boolean },
+    data: Omit<UpdateRecurringTransaction, 'id'>,
+    asOf: Date = new Date()
+  ) {
+    const { splits, ...templateData } = data;
+    const schedule: Schedule = {
+      startDate: templateData.startDate ?? existing.startDate,
+      frequency: templateData.frequency ?? existing.frequency,
+    };
+
+    let nextRunDate = existing.nextRunDate;
+
+    if (templateData.nextRunDate) {
+      nextRunDate = templateData.nextRunDate;
+    } else {
+      const scheduleChanged =
+        schedule.startDate.getTime() !== existing.startDate.getTime() ||
+        schedule.frequency !== existing.frequency;
+
+      if (scheduleChanged) {
+        nextRunDate = existing.lastRunDate
+          ? this.occurrenceAfter(schedule, existing.lastRunDate)
+          : schedule.startDate;
+      }
+
+      const today = startOfUtcDay(asOf);
+      if (existing.isPaused && templateData.isPaused === false && nextRunDate < today) {
+        nextRunDate = this.occurrenceOnOrAfter(schedule, today);
+      }
+    }
+
+    return prisma.$transaction(async (tx) => {
+      if (splits !== undefined) {
+        await tx.recurringTransactionSplit.deleteMany({
+          where: { recurringTransactionId: existing.id },
+        });
+      }
+
+      return tx.recurringTransaction.update({
+        where: { id: existing.id },
+        data: {
+          ...templateData,
+          nextRunDate,
+          splits: splits ? { create: splits } : undefined,
+        },
+        include: recurringTransactionInclude,
+      });
+    });
+  }
+
+  /**
+   * Skip the next scheduled run without creating a transaction
+   */
+  async skipNext(template: Schedule & { id: string; nextRunDate: Date }) {
+    return prisma.recurringTransaction.update({
+      where: { id: template.id },
+      data: { nextRunDate: this.occurrenceAfter(template, template.nextRunDate) },
+      include: recurringTransactionInclude,
+    });
+  }
+
+  /**
+   * Create the transactions for every active template that is due as at the given
+   * date. A template that missed several runs (e.g. the server was down) catches up
+   * with one transaction per missed date. Templates stop once past their end date.
+   *
+   * Template splits are percentages; each transaction gets split amounts worked out
+   * from the template amount. Templates without splits follow property ownership.
+   */
+  async runDue(asOf: Date = new Date()): Promise<RecurringTransactionRunResult> {
+    const today = startOfUtcDay(asOf);
+    const result: RecurringTransactionRunResult = { asOf, created: [], skipped: [] };
+
+    const dueTemplates = await prisma.recurringTransaction.findMany({
+      where: {
+        isPaused: false,
+        nextRunDate: { lt: new Date(today.getTime() + DAY_MS) },
+      },
+      include: { splits: true },
+      orderBy: { nextRunDate: 'asc' },
+    });
+
+    for (const template of dueTemplates) {
+      let runDate = template.nextRunDate;
+
+      while (runDate <= today && (!template.endDate || runDate <= template.endDate)) {
+        try {
+          const transaction = await transactionService.createTransaction({
+            propertyId: template.propertyId,
+            type: template.type as 'Income' | 'Expense',
+            category: template.category,
+            amount: template.amount,
+            transactionDate: runDate,
+            description: template.description,
+            paidByUserId: template.paidByUserId,
+            splits:
+              template.splits.length > 0
+                ? template.splits.map((split) => ({
+                    userId: split.userId,
+                    percentage: split.percentage,
+                    amount: (template.amount * split.percentage) / 100,
+                  }))
+                : undefined,
+            recurringTransactionId: template.id,
+          });
+
+          const nextRunDate = this.occurrenceAfter(template, runDate);
+
+          await prisma.recurringTransaction.update({
+            where: { id: template.id },
+            data: { lastRunDate: runDate, nextRunDate },
+          });
+
+          result.created.push({
+            recurringTransactionId: template.id,
+            transactionId: transaction.id,
+            transactionDate: runDate,
+          });
+          runDate = nextRunDate;
+        } catch (error) {
+          // Leave the run date where it is so the run is retried once the template is fixed
+          result.skipped.push({
+            recurringTransactionId: template.id,
+            reason: error instanceof Error ? error.message : String(error),
+          });
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run due templates now, then daily just after midnight UTC.
+   * Running at startup catches up on any days the server was down.
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const run = async () => {
+      try {
+        const result = await this.runDue();
+        console.log(
+          `[recurring-transactions] Created ${result.created.length}, skipped ${result.skipped.length}`
+        );
+        for (const skipped of result.skipped) {
+          console.error(`[recurring-transactions] Template ${skipped.recurringTransactionId} failed: ${skipped.reason}`);
+        }
+      } catch (error) {
+        console.error('Recurring transaction run error:', error);
+      }
+    };
+
+    const scheduleNext = () => {
+      const now = new Date();
+      const nextRun = startOfUtcDay(now).getTime() + DAY_MS + 60 * 1000; // 00:01 UTC tomorrow
+      this.timer = setTimeout(async () => {
+        await run();
+        scheduleNext();
+      }, nextRun - now.getTime());
+      // Don't keep the process alive just for the scheduler
+      this.timer.unref();
+    };
+
+    void run();
+    scheduleNext();
+  }
+
+  /**
+   * Stop the daily scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const recurringTransactionService = new RecurringTransactionService();
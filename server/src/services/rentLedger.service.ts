@@ -0,0 +1,338 @@
+import prisma from '../db/client.js';
+import type { RentFrequency } from '../../../shared/validation/lease.validation.js';
+
+export type RentPeriodStatus = 'Paid' | 'Part Paid' | 'Overdue' | 'Upcoming';
+
+export interface RentPeriod {
+  periodStart: Date;
+  periodEnd: Date;
+  dueDate: Date;
+  amountDue: number;
+  amountPaid: number;
+  balance: number;
+  status: RentPeriodStatus;
+  isProRata: boolean;
+}
+
+export interface RentPayment {
+  transactionId: string;
+  transactionDate: Date;
+  amount: number;
+  description: string;
+}
+
+export interface LeaseLedger {
+  leaseId: string;
+  asOf: Date;
+  periods: RentPeriod[];
+  payments: RentPayment[];
+  totalDue: number;
+  totalPaid: number;
+  arrears: number;
+  overduePeriods: number;
+  oldestUnpaidDueDate: Date | null;
+}
+
+/**
+ * Effective-dated rent replacing the lease's starting rent from effectiveDate
+ */
+export interface ScheduledRent {
+  effectiveDate: Date;
+  rentAmount: number;
+}
+
+/**
+ * Minimal lease shape needed to build a rent schedule
+ */
+export interface ScheduleLease {
+  startDate: Date;
+  endDate: Date | null;
+  rentAmount: number;
+  rentFrequency: string;
+  rentDueDay: number | null;
+  rentChanges?: ScheduledRent[];
+}
+
+/**
+ * Number of rent periods in a year for each frequency
+ */
+export const RENT_PERIODS_PER_YEAR: Record<RentFrequency, number> = {
+  Weekly: 52,
+  Fortnightly: 26,
+  'Four-weekly': 13,
+  Monthly: 12,
+  Quarterly: 4,
+  Annually: 1,
+};
+
+// Length of one period: a fixed number of days for weekly cycles, whole months otherwise
+const PERIOD_LENGTH: Record<RentFrequency, { days: number } | { months: number }> = {
+  Weekly: { days: 7 },
+  Fortnightly: { days: 14 },
+  'Four-weekly': { days: 28 },
+  Monthly: { months: 1 },
+  Quarterly: { months: 3 },
+  Annually: { months: 12 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const toFrequency = (frequency: string): RentFrequency =>
+  frequency in RENT_PERIODS_PER_YEAR ? (frequency as RentFrequency) : 'Monthly';
+
+/**
+ * Rent charged over a full year at the given frequency
+ */
+export function annualiseRent(rentAmount: number, rentFrequency: string): number {
+  return roundMoney(rentAmount * RENT_PERIODS_PER_YEAR[toFrequency(rentFrequency)]);
+}
+
+/**
+ * Rent per period in force on a date: the latest rent change effective on or
+ * before it, or the lease's starting rent
+ */
+export function rentInForce(lease: { rentAmount: number; rentChanges?: ScheduledRent[] }, date: Date): number {
+  let inForce: ScheduledRent | null = null;
+  for (const change of lease.rentChanges ?? []) {
+    if (change.effectiveDate <= date && (!inForce || change.effectiveDate > inForce.effectiveDate)) {
+      inForce = change;
+    }
+  }
+  return inForce ? inForce.rentAmount : lease.rentAmount;
+}
+
+/**
+ * Average rent per calendar month, for comparing leases on different frequencies
+ */
+export function monthlyEquivalentRent(rentAmount: number, rentFrequency: string): number {
+  return roundMoney((rentAmount * RENT_PERIODS_PER_YEAR[toFrequency(rentFrequency)]) / 12);
+}
+
+/**
+ * Add whole months to a date in UTC, clamping to the last day of the target month
+ * (e.g. 31 Jan + 1 month = 28/29 Feb). Pass day to land on a different day of the month.
+ */
+function addMonthsUTC(date: Date, months: number, day: number = date.getUTCDate()): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDayOfTargetMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(
+    Date.UTC(
+      year,
+      month,
+      Math.min(day, lastDayOfTargetMonth),
+      date.getUTCHours(),
+      date.getUTCMinutes(),
+      date.getUTCSeconds(),
+      date.getUTCMilliseconds()
+    )
+  );
+}
+
+function addDaysUTC(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * Start of the index-th period of a schedule anchored on a date (index 0 is the anchor).
+ * Always measured from the anchor so month-end clamping doesn't drift; monthly-based
+ * frequencies land on dueDay, clamped for short months.
+ */
+export function periodStartAt(anchor: Date, frequency: string, index: number, dueDay: number = anchor.getUTCDate()): Date {
+  const length = PERIOD_LENGTH[toFrequency(frequency)];
+  return 'days' in length ? addDaysUTC(anchor, index * length.days) : addMonthsUTC(anchor, index * length.months, dueDay);
+}
+
+// Inclusive day count between two dates
+function daysInclusive(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS) + 1;
+}
+
+/**
+ * First date on or after the lease start that rent falls due.
+ * Without a due day this is the start date itself; otherwise the next matching
+ * weekday (ISO, Monday = 1) for weekly cycles, or day of month for the rest.
+ */
+function firstDueDate(lease: ScheduleLease): Date {
+  const { startDate, rentDueDay } = lease;
+
+  if (!rentDueDay) {
+    return startDate;
+  }
+
+  if ('days' in PERIOD_LENGTH[toFrequency(lease.rentFrequency)]) {
+    const isoWeekday = startDate.getUTCDay() || 7;
+    return addDaysUTC(startDate, (rentDueDay - isoWeekday + 7) % 7);
+  }
+
+  // Due day in the start month (clamped for short months), else the following month
+  const startMonth = new Date(
+    Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), 1) + (startDate.getTime() % DAY_MS)
+  );
+  const dueThisMonth = addMonthsUTC(startMonth, 0, rentDueDay);
+  return dueThisMonth >= startDate ? dueThisMonth : addMonthsUTC(startMonth, 1, rentDueDay);
+}
+
+export class RentLedgerService {
+  /**
+   * Generate the expected rent schedule for a lease.
+   * Rent is due in advance at the start of each period, on the lease's due day
+   * or the anniversary of the start date. A start before the first due day, or an
+   * end part-way through a period, is charged pro-rata at the daily rate.
+   * Each period is charged at the rent in force on its due date.
+   * Fixed-term leases get their full schedule; ongoing leases are scheduled
+   * up to and including the next period due after asOf.
+   */
+  generateSchedule(lease: ScheduleLease, asOf: Date): Omit<RentPeriod, 'amountPaid' | 'balance' | 'status'>[] {
+    const periods: Omit<RentPeriod, 'amountPaid' | 'balance' | 'status'>[] = [];
+    const dailyRate = (date: Date) => annualiseRent(rentInForce(lease, date), lease.rentFrequency) / 365;
+    const anchor = firstDueDate(lease);
+    const dueDay = lease.rentDueDay ?? anchor.getUTCDate();
+
+    // Partial first period up to the first due day
+    if (anchor > lease.startDate) {
+      const naturalEnd = addDaysUTC(anchor, -1);
+      const periodEnd = lease.endDate && lease.endDate < naturalEnd ? lease.endDate : naturalEnd;
+
+      periods.push({
+        periodStart: lease.startDate,
+        periodEnd,
+        dueDate: lease.startDate,
+        amountDue: roundMoney(dailyRate(lease.startDate) * daysInclusive(lease.startDate, periodEnd)),
+        isProRata: true,
+      });
+    }
+
+    for (let index = 0; ; index++) {
+      const periodStart = periodStartAt(anchor, lease.rentFrequency, index, dueDay);
+
+      if (lease.endDate && periodStart > lease.endDate) {
+        break;
+      }
+
+      // Ongoing leases: stop once we have one period beyond asOf
+      if (!lease.endDate && periods.length > 0 && periods[periods.length - 1].dueDate > asOf) {
+        break;
+      }
+
+      // A lease ending part-way through a period pays for the days it covers
+      const naturalEnd = addDaysUTC(periodStartAt(anchor, lease.rentFrequency, index + 1, dueDay), -1);
+      const periodEnd = lease.endDate && lease.endDate < naturalEnd ? lease.endDate : naturalEnd;
+      const isProRata = periodEnd.getTime() !== naturalEnd.getTime();
+
+      periods.push({
+        periodStart,
+        periodEnd,
+        dueDate: periodStart,
+        amountDue: isProRata
+          ? roundMoney(dailyRate(periodStart) * daysInclusive(periodStart, periodEnd))
+          : roundMoney(rentInForce(lease, periodStart)),
+        isProRata,
+      });
+    }
+
+    return periods;
+  }
+
+  /**
+   * Allocate rent received against scheduled periods, oldest due date first.
+   * Any overpayment is carried forward into later periods.
+   */
+  allocatePayments(
+    schedule: Omit<RentPeriod, 'amountPaid' | 'balance' | 'status'>[],
+    totalReceived: number,
+    asOf: Date
+  ): RentPeriod[] {
+    let remaining = roundMoney(totalReceived);
+
+    return schedule.map((period) => {
+      const amountPaid = roundMoney(Math.min(Math.max(remaining, 0), period.amountDue));
+      remaining = roundMoney(remaining - amountPaid);
+
+      const balance = roundMoney(period.amountDue - amountPaid);
+
+      let status: RentPeriodStatus;
+      if (balance <= 0) {
+        status = 'Paid';
+      } else if (period.dueDate > asOf) {
+        status = 'Upcoming';
+      } else if (amountPaid > 0) {
+        status = 'Part Paid';
+      } else {
+        status = 'Overdue';
+      }
+
+      return { ...period, amountPaid, balance, status };
+    });
+  }
+
+  /**
+   * Build the rent ledger for a lease as at a given date.
+   *
+   * Rent received is every Income transaction with category 'Rent' that is either
+   * linked to the lease, or unlinked on the same property and unit and dated within
+   * the lease term. A whole-property lease only picks up unlinked rent with no unit.
+   */
+  async getLeaseLedger(leaseId: string, asOf: Date = new Date()): Promise<LeaseLedger> {
+    const lease = await prisma.lease.findUnique({
+      where: { id: leaseId },
+      include: { rentChanges: true },
+    });
+
+    if (!lease) {
+      throw new Error('Lease not found');
+    }
+
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        type: 'Income',
+        category: 'Rent',
+        transactionDate: { lte: asOf },
+        OR: [
+          { leaseId: lease.id },
+          {
+            leaseId: null,
+            propertyId: lease.propertyId,
+            unitId: lease.unitId,
+            transactionDate: {
+              gte: lease.startDate,
+              ...(lease.endDate ? { lte: lease.endDate } : {}),
+            },
+          },
+        ],
+      },
+      orderBy: { transactionDate: 'asc' },
+    });
+
+    // Imported bank transactions hold signed pence; manual entries hold pounds
+    const payments: RentPayment[] = transactions.map((t) => ({
+      transactionId: t.id,
+      transactionDate: t.transactionDate,
+      amount: t.isImported ? roundMoney(t.amount / 100) : t.amount,
+      description: t.description,
+    }));
+
+    const totalPaid = roundMoney(payments.reduce((sum, p) => sum + p.amount, 0));
+    const periods = this.allocatePayments(this.generateSchedule(lease, asOf), totalPaid, asOf);
+
+    const duePeriods = periods.filter((p) => p.dueDate <= asOf);
+    const totalDue = roundMoney(duePeriods.reduce((sum, p) => sum + p.amountDue, 0));
+    const unpaidDuePeriods = duePeriods.filter((p) => p.balance > 0);
+
+    return {
+      leaseId: lease.id,
+      asOf,
+      periods,
+      payments,
+      totalDue,
+      totalPaid,
+      arrears: roundMoney(totalDue - totalPaid),
+      overduePeriods: unpaidDuePeriods.length,
+      oldestUnpaidDueDate: unpaidDuePeriods[0]?.dueDate ?? null,
+    };
+  }
+}
+
+export const rentLedgerService = new RentLedgerService();
@@ -0,0 +1,119 @@
+import { rentInForce, type ScheduledRent } from './rentLedger.service.js';
+import type { RentFrequency } from '../../../shared/validation/lease.validation.js';
+
+/**
+ * Minimum notice of a rent change on a periodic tenancy (Housing Act 1988 s.13):
+ * one month where rent is due monthly or more often, a full period for quarterly
+ * rent and six months for yearly rent.
+ */
+export const RENT_CHANGE_NOTICE_MONTHS: Record<RentFrequency, number> = {
+  Weekly: 1,
+  Fortnightly: 1,
+  'Four-weekly': 1,
+  Monthly: 1,
+  Quarterly: 3,
+  Annually: 6,
+};
+
+export type RentChangeStatus = 'Superseded' | 'In Effect' | 'Scheduled';
+
+export interface RentHistoryEntry {
+  // Null for the starting rent, which lives on the lease itself
+  rentChangeId: string | null;
+  effectiveDate: Date;
+  rentAmount: number;
+  noticeDate: Date | null;
+  noticeServedAt: Date | null;
+  notes: string | null;
+  status: RentChangeStatus;
+}
+
+export interface RentHistory {
+  leaseId: string;
+  asOf: Date;
+  rentFrequency: string;
+  currentRent: number;
+  entries: RentHistoryEntry[];
+}
+
+export interface RentHistoryLease {
+  id: string;
+  startDate: Date;
+  rentAmount: number;
+  rentFrequency: string;
+  rentChanges: Array<
+    ScheduledRent & {
+      id: string;
+      noticeDate: Date;
+      noticeServedAt: Date | null;
+      notes: string | null;
+    }
+  >;
+}
+
+/**
+ * Subtract whole months in UTC, clamping to the last day of the target month
+ */
+function subtractMonthsUTC(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() - months;
+  const lastDayOfTargetMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDayOfTargetMonth)));
+}
+
+export class RentReviewService {
+  /**
+   * Latest date notice can be served for a rent change to take effect on effectiveDate
+   */
+  getNoticeDate(effectiveDate: Date, rentFrequency: string): Date {
+    const months = RENT_CHANGE_NOTICE_MONTHS[rentFrequency as RentFrequency] ?? RENT_CHANGE_NOTICE_MONTHS.Monthly;
+    return subtractMonthsUTC(effectiveDate, months);
+  }
+
+  /**
+   * Every rent a lease has been let at, oldest first, starting with the rent on the lease itself
+   */
+  buildRentHistory(lease: RentHistoryLease, asOf: Date): RentHistory {
+    const changes = [...lease.rentChanges].sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+
+    const entries: Omit<RentHistoryEntry, 'status'>[] = [
+      {
+        rentChangeId: null,
+        effectiveDate: lease.startDate,
+        rentAmount: lease.rentAmount,
+        noticeDate: null,
+        noticeServedAt: null,
+        notes: null,
+      },
+      ...changes.map((change) => ({
+        rentChangeId: change.id,
+        effectiveDate: change.effectiveDate,
+        rentAmount: change.rentAmount,
+        noticeDate: change.noticeDate,
+        noticeServedAt: change.noticeServedAt,
+        notes: change.notes,
+      })),
+    ];
+
+    return {
+      leaseId: lease.id,
+      asOf,
+      rentFrequency: lease.rentFrequency,
+      currentRent: rentInForce(lease, asOf),
+      entries: entries.map((entry, index) => {
+        const next = entries[index + 1];
+        let status: RentChangeStatus;
+        if (entry.effectiveDate > asOf && index > 0) {
+          status = 'Scheduled';
+        } else if (next && next.effectiveDate <= asOf) {
+          status = 'Superseded';
+        } else {
+          status = 'In Effect';
+        }
+        return { ...entry, status };
+      }),
+    };
+  }
+}
+
+export const rentReviewService = new RentReviewService();
@@ -1,5 +1,12 @@
 import prisma from '../db/client.js';
 import { balanceService } from './balance.service.js';
+import {
+  rentLedgerService,
+  LeaseLedger,
+  annualiseRent,
+  monthlyEquivalentRent,
+  rentInForce,
+} from './rentLedger.service.js';
 
 interface OwnerPLReport {
   property: {
@@ -30,6 +37,127 @@ interface OwnerPLReport {
   balances: Array<{ userId: string; email: string; amount: number }>;
 }
 
+interface ArrearsReportLease {
+  leaseId: string;
+  leaseStatus: string;
+  property: {
+    id: string;
+    name: string;
+  };
+  tenant: {
+    id: string;
+    name: string;
+  };
+  rentAmount: number;
+  rentFrequency: string;
+  annualRent: number;
+  totalDue: number;
+  totalPaid: number;
+  arrears: number;
+  overduePeriods: number;
+  oldestUnpaidDueDate: Date | null;
+}
+
+interface ArrearsReport {
+  asOf: Date;
+  leases: ArrearsReportLease[];
+  summary: {
+    totalArrears: number;
+    leasesInArrears: number;
+  };
+}
+
+interface RentRollLease {
+  leaseId: string;
+  property: {
+    id: string;
+    name: string;
+  };
+  tenant: {
+    id: string;
+    name: string;
+  };
+  rentAmount: number;
+  rentFrequency: string;
+  annualRent: number;
+  monthlyEquivalent: number;
+}
+
+interface RentRollReport {
+  asOf: Date;
+  leases: RentRollLease[];
+  summary: {
+    activeLeases: number;
+    totalAnnualRent: number;
+    totalMonthlyEquivalent: number;
+  };
+}
+
+interface ArrearsAgingBuckets {
+  days0to30: number;
+  days31to60: number;
+  days61to90: number;
+  days90Plus: number;
+  total: number;
+}
+
+interface ArrearsAgingTenant {
+  leaseId: string;
+  leaseStatus: string;
+  tenant: {
+    id: string;
+    name: string;
+  };
+  oldestUnpaidDueDate: Date | null;
+  buckets: ArrearsAgingBuckets;
+}
+
+interface ArrearsAgingProperty {
+  property: {
+    id: string;
+    name: string;
+  };
+  tenants: ArrearsAgingTenant[];
+  buckets: ArrearsAgingBuckets;
+}
+
+interface ArrearsAgingReport {
+  asOf: Date;
+  properties: ArrearsAgingProperty[];
+  totals: ArrearsAgingBuckets;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const emptyAgingBuckets = (): ArrearsAgingBuckets => ({
+  days0to30: 0,
+  days31to60: 0,
+  days61to90: 0,
+  days90Plus: 0,
+  total: 0,
+});
+
+function addToAgingBuckets(target: ArrearsAgingBuckets, source: ArrearsAgingBuckets) {
+  target.days0to30 = roundMoney(target.days0to30 + source.days0to30);
+  target.days31to60 = roundMoney(target.days31to60 + source.days31to60);
+  target.days61to90 = roundMoney(target.days61to90 + source.days61to90);
+  target.days90Plus = roundMoney(target.days90Plus + source.days90Plus);
+  target.total = roundMoney(target.total + source.total);
+}
+
+type TenantName = { firstName: string; lastName: string };
+
+/**
+ * Display name for everyone on a lease, lead tenant first (e.g. "Jane Smith & John Doe").
+ * Falls back to the lead tenant for leases without tenant links.
+ */
+function formatLeaseTenantNames(lease: { tenant: TenantName; tenants: Array<{ tenant: TenantName }> }): string {
+  const tenants = lease.tenants.length > 0 ? lease.tenants.map((t) => t.tenant) : [lease.tenant];
+  return tenants.map((t) => `${t.firstName} ${t.lastName}`).join(' & ');
+}
+
 export class ReportService {
   async generateOwnerPLReport(
     propertyId: string,
@@ -197,6 +325,216 @@ export class ReportService {
       },
     };
   }
+
+  /**
+   * Generate an arrears report across all live leases.
+   * Includes every Active lease, plus ended leases that still have a balance outstanding.
+   */
+  async generateArrearsReport(asOf: Date, propertyId?: string): Promise<ArrearsReport> {
+    const entries: ArrearsReportLease[] = [];
+
+    for (const { lease, ledger } of await this.getLiveLeaseLedgers(asOf, propertyId)) {
+      if (lease.status !== 'Active' && ledger.arrears <= 0) {
+        continue;
+      }
+
+      entries.push({
+        leaseId: lease.id,
+        leaseStatus: lease.status,
+        property: {
+          id: lease.property.id,
+          name: lease.property.name,
+        },
+        tenant: {
+          id: lease.tenant.id,
+          name: formatLeaseTenantNames(lease),
+        },
+        rentAmount: rentInForce(lease, asOf),
+        rentFrequency: lease.rentFrequency,
+        annualRent: annualiseRent(rentInForce(lease, asOf), lease.rentFrequency),
+        totalDue: ledger.totalDue,
+        totalPaid: ledger.totalPaid,
+        arrears: ledger.arrears,
+        overduePeriods: ledger.overduePeriods,
+        oldestUnpaidDueDate: ledger.oldestUnpaidDueDate,
+      });
+    }
+
+    // Largest debts first
+    entries.sort((a, b) => b.arrears - a.arrears);
+
+    const inArrears = entries.filter((e) => e.arrears > 0);
+
+    return {
+      asOf,
+      leases: entries,
+      summary: {
+        totalArrears: roundMoney(inArrears.reduce((sum, e) => sum + e.arrears, 0)),
+        leasesInArrears: inArrears.length,
+      },
+    };
+  }
+
+  /**
+   * Generate an aged-debt report: unpaid rent grouped by property and tenant,
+   * bucketed by days overdue (0-30, 31-60, 61-90, 90+) as at the given date
+   */
+  async generateArrearsAgingReport(asOf: Date, propertyId?: string): Promise<ArrearsAgingReport> {
+    const propertiesById = new Map<string, ArrearsAgingProperty>();
+    const totals = emptyAgingBuckets();
+
+    for (const { lease, ledger } of await this.getLiveLeaseLedgers(asOf, propertyId)) {
+      if (ledger.arrears <= 0) {
+        continue;
+      }
+
+      const buckets = emptyAgingBuckets();
+
+      for (const period of ledger.periods) {
+        if (period.balance <= 0 || period.dueDate > asOf) {
+          continue;
+        }
+
+        const daysOverdue = Math.floor((asOf.getTime() - period.dueDate.getTime()) / DAY_MS);
+
+        if (daysOverdue <= 30) {
+          buckets.days0to30 = roundMoney(buckets.days0to30 + period.balance);
+        } else if (daysOverdue <= 60) {
+          buckets.days31to60 = roundMoney(buckets.days31to60 + period.balance);
+        } else if (daysOverdue <= 90) {
+          buckets.days61to90 = roundMoney(buckets.days61to90 + period.balance);
+        } else {
+          buckets.days90Plus = roundMoney(buckets.days90Plus + period.balance);
+        }
+        buckets.total = roundMoney(buckets.total + period.balance);
+      }
+
+      let propertyEntry = propertiesById.get(lease.property.id);
+      if (!propertyEntry) {
+        propertyEntry = {
+          property: {
+            id: lease.property.id,
+            name: lease.property.name,
+          },
+          tenants: [],
+          buckets: emptyAgingBuckets(),
+        };
+        propertiesById.set(lease.property.id, propertyEntry);
+      }
+
+      propertyEntry.tenants.push({
+        leaseId: lease.id,
+        leaseStatus: lease.status,
+        tenant: {
+          id: lease.tenant.id,
+          name: formatLeaseTenantNames(lease),
+        },
+        oldestUnpaidDueDate: ledger.oldestUnpaidDueDate,
+        buckets,
+      });
+      addToAgingBuckets(propertyEntry.buckets, buckets);
+      addToAgingBuckets(totals, buckets);
+    }
+
+    const properties = Array.from(propertiesById.values()).sort((a, b) =>
+      a.property.name.localeCompare(b.property.name)
+    );
+    for (const propertyEntry of properties) {
+      propertyEntry.tenants.sort((a, b) => b.buckets.total - a.buckets.total);
+    }
+
+    return {
+      asOf,
+      properties,
+      totals,
+    };
+  }
+
+  /**
+   * Generate the rent roll: rent in force at asOf on every lease active then,
+   * annualised so weekly, monthly and quarterly lets can be totalled together.
+   */
+  async generateRentRollReport(asOf: Date, propertyId?: string): Promise<RentRollReport> {
+    const leases = await prisma.lease.findMany({
+      where: {
+        status: 'Active',
+        startDate: { lte: asOf },
+        OR: [{ endDate: null }, { endDate: { gte: asOf } }],
+        ...(propertyId ? { propertyId } : {}),
+      },
+      include: {
+        property: true,
+        tenant: true,
+        tenants: {
+          include: { tenant: true },
+          orderBy: [{ isLead: 'desc' }, { createdAt: 'asc' }],
+        },
+        rentChanges: true,
+      },
+      orderBy: { startDate: 'asc' },
+    });
+
+    const entries: RentRollLease[] = leases.map((lease) => {
+      const rentAmount = rentInForce(lease, asOf);
+      return {
+        leaseId: lease.id,
+        property: {
+          id: lease.property.id,
+          name: lease.property.name,
+        },
+        tenant: {
+          id: lease.tenant.id,
+          name: formatLeaseTenantNames(lease),
+        },
+        rentAmount,
+        rentFrequency: lease.rentFrequency,
+        annualRent: annualiseRent(rentAmount, lease.rentFrequency),
+        monthlyEquivalent: monthlyEquivalentRent(rentAmount, lease.rentFrequency),
+      };
+    });
+
+    const totalAnnualRent = roundMoney(entries.reduce((sum, e) => sum + e.annualRent, 0));
+
+    return {
+      asOf,
+      leases: entries,
+      summary: {
+        activeLeases: entries.length,
+        totalAnnualRent,
+        totalMonthlyEquivalent: roundMoney(totalAnnualRent / 12),
+      },
+    };
+  }
+
+  /**
+   * Load every non-draft lease that had started by asOf, with its rent ledger
+   */
+  private async getLiveLeaseLedgers(asOf: Date, propertyId?: string) {
+    const leases = await prisma.lease.findMany({
+      where: {
+        status: { in: ['Active', 'Expired', 'Terminated'] },
+        startDate: { lte: asOf },
+        ...(propertyId ? { propertyId } : {}),
+      },
+      include: {
+        property: true,
+        tenant: true,
+        tenants: {
+          include: { tenant: true },
+          orderBy: [{ isLead: 'desc' }, { createdAt: 'asc' }],
+        },
+        rentChanges: true,
+      },
+      orderBy: { startDate: 'asc' },
+    });
+
+    const results: Array<{ lease: (typeof leases)[number]; ledger: LeaseLedger }> = [];
+    for (const lease of leases) {
+      results.push({ lease, ledger: await rentLedgerService.getLeaseLedger(lease.id, asOf) });
+    }
+
+    return results;
+  }
 }
 
 export const reportService = new ReportService();
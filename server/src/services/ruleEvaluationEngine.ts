@@ -1,4 +1,20 @@
-import type { BankTransaction, MatchingRule } from '@prisma/client';
+import type { BankTransaction, MatchingRule, MatchingRuleSplit } from '@prisma/client';
+import type {
+  RuleCondition,
+  RuleConditionGroup,
+} from '../../../shared/validation/matchingRule.validation.js';
+
+/**
+ * A matching rule with its split preset, when loaded
+ */
+export type MatchingRuleWithSplits = MatchingRule & {
+  splits?: Array<Pick<MatchingRuleSplit, 'userId' | 'percentage'>>;
+};
+
+/**
+ * Fields a rule can supply to an evaluation result
+ */
+export type RuleResultField = 'propertyId' | 'type' | 'category' | 'leaseId' | 'paidByUserId' | 'splits';
 
 /**
  * Result of rule evaluation operation
@@ -10,25 +26,20 @@ export interface RuleEvaluationResult {
   type?: 'INCOME' | 'EXPENSE';
   /** Transaction category if matched by rules */
   category?: string;
+  /** Lease, payer and split preset, from rules that set the matched property */
+  leaseId?: string;
+  paidByUserId?: string;
+  splits?: Array<{ userId: string; percentage: number }>;
   /** Array of rule IDs that matched */
   matchedRules: string[];
+  /** ID of the rule that supplied each field */
+  fieldSources: Partial<Record<RuleResultField, string>>;
+  /** Rules whose conditions matched but whose fields higher priority rules had already set */
+  shadowedRules: string[];
   /** True if all three fields (propertyId, type, category) are set */
   isFullyMatched: boolean;
 }
 
-/**
- * Rule condition structure stored in the conditions JSON field
- */
-interface RuleConditions {
-  operator: 'AND' | 'OR';
-  rules: Array<{
-    field: 'description' | 'counterpartyName' | 'reference' | 'merchant' | 'amount';
-    matchType: 'contains' | 'equals' | 'startsWith' | 'endsWith' | 'greaterThan' | 'lessThan';
-    value: string | number;
-    caseSensitive?: boolean;
-  }>;
-}
-
 /**
  * Evaluate matching rules against a bank transaction
  *
@@ -36,9 +47,16 @@ interface RuleConditions {
  * field values (propertyId, type, category) until all three are set. Once a
  * field is set, it cannot be overridden by later rules.
  *
- * Rules can use AND/OR operators with various match types:
- * - String fields: contains, equals, startsWith, endsWith (case-insensitive by default)
- * - Numeric fields (amount): greaterThan, lessThan
+ * Lease, payer and split preset accumulate the same way, but only from rules
+ * that set the same property as the result, since they belong to a property.
+ *
+ * The result records which rule supplied each field, and which matching rules
+ * were shadowed: they had nothing left to set by the time they were reached.
+ *
+ * Rules can use AND/OR operators, nested in groups, with various match types:
+ * - String fields: contains, equals, startsWith, endsWith, regex (case-insensitive by default)
+ * - Numeric fields (amount, dayOfMonth, weekday): equals, greaterThan, lessThan, between
+ * - Date (YYYY-MM-DD): equals, greaterThan (after), lessThan (before), between
  *
  * @param transaction - Bank transaction to evaluate
  * @param rules - Array of matching rules to apply
@@ -46,10 +64,12 @@ interface RuleConditions {
  */
 export function evaluateRules(
   transaction: BankTransaction,
-  rules: MatchingRule[]
+  rules: MatchingRuleWithSplits[]
 ): RuleEvaluationResult {
   const result: RuleEvaluationResult = {
     matchedRules: [],
+    fieldSources: {},
+    shadowedRules: [],
     isFullyMatched: false,
   };
 
@@ -62,24 +82,20 @@ export function evaluateRules(
       continue;
     }
 
-    // Check if all three fields are already set
-    if (result.propertyId && result.type && result.category) {
-      result.isFullyMatched = true;
-      break;
-    }
-
     // Check if rule provides any new fields
     const providesNewField =
       (!result.propertyId && rule.propertyId) ||
       (!result.type && rule.type) ||
-      (!result.category && rule.category);
+      (!result.category && rule.category) ||
+      providesNewAssignment(result, rule);
 
-    if (!providesNewField) {
+    // Rules with nothing left to set are still evaluated, to find shadowed rules
+    if (!providesNewField && !rule.propertyId && !rule.type && !rule.category) {
       continue;
     }
 
     // Parse and evaluate conditions
-    let conditions: RuleConditions;
+    let conditions: RuleConditionGroup;
     try {
       conditions = JSON.parse(rule.conditions);
     } catch {
@@ -90,20 +106,48 @@ export function evaluateRules(
     // Evaluate the rule
     const matches = evaluateConditions(transaction, conditions);
 
-    if (matches) {
-      // Apply fields that haven't been set yet
-      if (!result.propertyId && rule.propertyId) {
-        result.propertyId = rule.propertyId;
+    if (!matches) {
+      continue;
+    }
+
+    if (!providesNewField) {
+      result.shadowedRules.push(rule.id);
+      continue;
+    }
+
+    // Apply fields that haven't been set yet
+    const supply = (field: RuleResultField) => {
+      result.fieldSources[field] = rule.id;
+    };
+
+    if (!result.propertyId && rule.propertyId) {
+      result.propertyId = rule.propertyId;
+      supply('propertyId');
+    }
+    if (!result.type && rule.type) {
+      result.type = rule.type as 'INCOME' | 'EXPENSE';
+      supply('type');
+    }
+    if (!result.category && rule.category) {
+      result.category = rule.category;
+      supply('category');
+    }
+    if (rule.propertyId && rule.propertyId === result.propertyId) {
+      if (!result.leaseId && rule.leaseId) {
+        result.leaseId = rule.leaseId;
+        supply('leaseId');
       }
-      if (!result.type && rule.type) {
-        result.type = rule.type as 'INCOME' | 'EXPENSE';
+      if (!result.paidByUserId && rule.paidByUserId) {
+        result.paidByUserId = rule.paidByUserId;
+        supply('paidByUserId');
       }
-      if (!result.category && rule.category) {
-        result.category = rule.category;
+      if (!result.splits && rule.splits && rule.splits.length > 0) {
+        result.splits = rule.splits.map(({ userId, percentage }) => ({ userId, percentage }));
+        supply('splits');
       }
-
-      result.matchedRules.push(rule.id);
     }
+
+    result.matchedRules.push(rule.id);
   }
 
   // Check if fully matched
@@ -113,11 +157,27 @@ export function evaluateRules(
 }
 
 /**
- * Evaluate rule conditions against a transaction
+ * Whether a rule could add a lease, payer or split preset to the result.
+ * Only rules for the result's property (or any, while none is set) can.
+ */
+function providesNewAssignment(result: RuleEvaluationResult, rule: MatchingRuleWithSplits): boolean {
+  if (!rule.propertyId || (result.propertyId && result.propertyId !== rule.propertyId)) {
+    return false;
+  }
+
+  return (
+    (!result.leaseId && !!rule.leaseId) ||
+    (!result.paidByUserId && !!rule.paidByUserId) ||
+    (!result.splits && !!rule.splits && rule.splits.length > 0)
+  );
+}
+
+/**
+ * Evaluate a group of rule conditions against a transaction
  */
 function evaluateConditions(
   transaction: BankTransaction,
-  conditions: RuleConditions
+  conditions: RuleConditionGroup
 ): boolean {
   // Handle missing operator (default to AND)
   const operator = conditions.operator || 'AND';
@@ -127,11 +187,14 @@ function evaluateConditions(
     return operator === 'AND';
   }
 
+  const evaluate = (rule: RuleCondition | RuleConditionGroup) =>
+    'operator' in rule ? evaluateConditions(transaction, rule) : evaluateSingleRule(transaction, rule);
+
   if (operator === 'AND') {
-    return conditions.rules.every((rule) => evaluateSingleRule(transaction, rule));
+    return conditions.rules.every(evaluate);
   } else {
     // OR
-    return conditions.rules.some((rule) => evaluateSingleRule(transaction, rule));
+    return conditions.rules.some(evaluate);
   }
 }
 
@@ -140,7 +203,7 @@ function evaluateConditions(
  */
 function evaluateSingleRule(
   transaction: BankTransaction,
-  rule: RuleConditions['rules'][0]
+  rule: RuleCondition
 ): boolean {
   const fieldValue = getFieldValue(transaction, rule.field);
 
@@ -149,14 +212,30 @@ function evaluateSingleRule(
     return false;
   }
 
-  const { matchType, value, caseSensitive = false } = rule;
+  const { matchType, value, valueTo, caseSensitive = false } = rule;
+
+  // Dates compare as YYYY-MM-DD strings
+  if (rule.field === 'date') {
+    return evaluateRangeMatch(String(fieldValue), String(value), String(valueTo ?? ''), matchType);
+  }
+
+  // Numeric match types
+  if (
+    matchType === 'greaterThan' ||
+    matchType === 'lessThan' ||
+    matchType === 'between' ||
+    (matchType === 'equals' && typeof fieldValue === 'number')
+  ) {
+    return evaluateRangeMatch(Number(fieldValue), Number(value), Number(valueTo), matchType);
+  }
 
   // String match types
   if (
     matchType === 'contains' ||
     matchType === 'equals' ||
     matchType === 'startsWith' ||
-    matchType === 'endsWith'
+    matchType === 'endsWith' ||
+    matchType === 'regex'
   ) {
     return evaluateStringMatch(
       String(fieldValue),
@@ -166,11 +245,6 @@ function evaluateSingleRule(
     );
   }
 
-  // Numeric match types
-  if (matchType === 'greaterThan' || matchType === 'lessThan') {
-    return evaluateNumericMatch(Number(fieldValue), Number(value), matchType);
-  }
-
   return false;
 }
 
@@ -179,7 +253,7 @@ function evaluateSingleRule(
  */
 function getFieldValue(
   transaction: BankTransaction,
-  field: RuleConditions['rules'][0]['field']
+  field: RuleCondition['field']
 ): string | number | null {
   switch (field) {
     case 'description':
@@ -190,8 +264,17 @@ function getFieldValue(
       return transaction.reference;
     case 'merchant':
       return transaction.merchant;
+    case 'category':
+      return transaction.category;
     case 'amount':
       return transaction.amount;
+    case 'dayOfMonth':
+      return transaction.transactionDate.getUTCDate();
+    case 'weekday':
+      // 1 = Monday ... 7 = Sunday
+      return transaction.transactionDate.getUTCDay() || 7;
+    case 'date':
+      return transaction.transactionDate.toISOString().slice(0, 10);
     default:
       return null;
   }
@@ -203,9 +286,18 @@ function getFieldValue(
 function evaluateStringMatch(
   fieldValue: string,
   ruleValue: string,
-  matchType: 'contains' | 'equals' | 'startsWith' | 'endsWith',
+  matchType: 'contains' | 'equals' | 'startsWith' | 'endsWith' | 'regex',
   caseSensitive: boolean
 ): boolean {
+  if (matchType === 'regex') {
+    try {
+      return new RegExp(ruleValue, caseSensitive ? '' : 'i').test(fieldValue);
+    } catch {
+      // Patterns are validated on save, but never fail a sync over one
+      return false;
+    }
+  }
+
   let field = fieldValue;
   let value = ruleValue;
 
@@ -229,18 +321,23 @@ function evaluateStringMatch(
 }
 
 /**
- * Evaluate numeric match
+ * Evaluate numeric or date match; between is inclusive of both ends
  */
-function evaluateNumericMatch(
-  fieldValue: number,
-  ruleValue: number,
-  matchType: 'greaterThan' | 'lessThan'
+function evaluateRangeMatch<T extends number | string>(
+  fieldValue: T,
+  ruleValue: T,
+  ruleValueTo: T,
+  matchType: RuleCondition['matchType']
 ): boolean {
   switch (matchType) {
+    case 'equals':
+      return fieldValue === ruleValue;
     case 'greaterThan':
       return fieldValue > ruleValue;
     case 'lessThan':
       return fieldValue < ruleValue;
+    case 'between':
+      return fieldValue >= ruleValue && fieldValue <= ruleValueTo;
     default:
       return false;
   }
@@ -0,0 +1,129 @@
+import prisma from '../db/client.js';
+import type { RuleEvaluationResult, RuleResultField } from './ruleEvaluationEngine.js';
+
+type RuleHitError = { status: number; error: string };
+
+/**
+ * How a rule has been used on a bank account's transactions
+ */
+export interface RuleHitStats {
+  ruleId: string;
+  /** Bank transactions the rule supplied fields to */
+  hitCount: number;
+  lastHitAt: Date | null;
+  /** Bank transactions the rule matched after higher priority rules had set its fields */
+  shadowedCount: number;
+  /** Rules that set those fields first */
+  shadowedBy: string[];
+  /**
+   * active: supplied fields at least once
+   * shadowed: only ever matched after higher priority rules
+   * unused: never matched
+   */
+  status: 'active' | 'shadowed' | 'unused';
+}
+
+// Fields a rule's outcome overlaps with another's on
+const OUTCOME_FIELDS = ['propertyId', 'type', 'category'] as const;
+
+export class RuleHitService {
+  /**
+   * Record the rules behind a bank transaction's latest rule evaluation,
+   * replacing those from any earlier evaluation
+   */
+  async record(bankTransactionId: string, result: RuleEvaluationResult): Promise<void> {
+    const fieldsByRule = new Map<string, RuleResultField[]>();
+
+    for (const [field, ruleId] of Object.entries(result.fieldSources) as Array<[RuleResultField, string]>) {
+      fieldsByRule.set(ruleId, [...(fieldsByRule.get(ruleId) ?? []), field]);
+    }
+
+    await prisma.$transaction([
+      prisma.matchingRuleHit.deleteMany({ where: { bankTransactionId } }),
+      prisma.matchingRuleHit.createMany({
+        data: [
+          ...[...fieldsByRule].map(([ruleId, fields]) => ({ ruleId, bankTransactionId, fields: fields.join(',') })),
+          ...result.shadowedRules.map((ruleId) => ({ ruleId, bankTransactionId, fields: '', shadowed: true })),
+        ],
+      }),
+    ]);
+  }
+
+  /**
+   * Hit statistics for the rules that apply to a bank account (its own and
+   * the global rules), in priority order, counting only its transactions
+   */
+  async getStats(bankAccountId: string): Promise<RuleHitStats[] | RuleHitError> {
+    const bankAccount = await prisma.bankAccount.findUnique({ where: { id: bankAccountId } });
+
+    if (!bankAccount) {
+      return { status: 404, error: 'Bank account not found' };
+    }
+
+    const accountHits = { bankTransaction: { bankAccountId } };
+
+    const [rules, counts, shadowedHits] = await Promise.all([
+      prisma.matchingRule.findMany({
+        where: { OR: [{ bankAccountId }, { bankAccountId: null }] },
+        select: { id: true, propertyId: true, type: true, category: true },
+        orderBy: { priority: 'asc' },
+      }),
+      prisma.matchingRuleHit.groupBy({
+        by: ['ruleId', 'shadowed'],
+        where: accountHits,
+        _count: { _all: true },
+        _max: { hitAt: true },
+      }),
+      prisma.matchingRuleHit.findMany({
+        where: { ...accountHits, shadowed: true },
+        select: { ruleId: true, bankTransactionId: true },
+      }),
+    ]);
+
+    // The rules that supplied fields on the transactions where others were shadowed
+    const suppliers = await prisma.matchingRuleHit.findMany({
+      where: {
+        shadowed: false,
+        bankTransactionId: { in: [...new Set(shadowedHits.map((hit) => hit.bankTransactionId))] },
+      },
+      select: { ruleId: true, bankTransactionId: true, fields: true },
+    });
+
+    const suppliersByTransaction = new Map<string, typeof suppliers>();
+    for (const supplier of suppliers) {
+      suppliersByTransaction.set(supplier.bankTransactionId, [
+        ...(suppliersByTransaction.get(supplier.bankTransactionId) ?? []),
+        supplier,
+      ]);
+    }
+
+    return rules.map((rule) => {
+      const used = counts.find((count) => count.ruleId === rule.id && !count.shadowed);
+      const shadowed = counts.find((count) => count.ruleId === rule.id && count.shadowed);
+      const ruleFields = OUTCOME_FIELDS.filter((field) => rule[field]);
+      const shadowedBy = new Set<string>();
+
+      for (const hit of shadowedHits.filter((shadowedHit) => shadowedHit.ruleId === rule.id)) {
+        for (const supplier of suppliersByTransaction.get(hit.bankTransactionId) ?? []) {
+          if (ruleFields.some((field) => supplier.fields.split(',').includes(field))) {
+            shadowedBy.add(supplier.ruleId);
+          }
+        }
+      }
+
+      const hitCount = used?._count._all ?? 0;
+      const shadowedCount = shadowed?._count._all ?? 0;
+
+      return {
+        ruleId: rule.id,
+        hitCount,
+        lastHitAt: used?._max.hitAt ?? null,
+        shadowedCount,
+        shadowedBy: [...shadowedBy],
+        status: hitCount > 0 ? 'active' : shadowedCount > 0 ? 'shadowed' : 'unused',
+      };
+    });
+  }
+}
+
+export const ruleHitService = new RuleHitService();
@@ -0,0 +1,384 @@
+import type { Prisma } from '@prisma/client';
+import prisma from '../db/client.js';
+import { evaluateRules, type MatchingRuleWithSplits, type RuleEvaluationResult } from './ruleEvaluationEngine.js';
+import { transactionCategoryService } from './transactionCategory.service.js';
+import { validateRuleAssignments, type RuleAssignments } from './matchingRules.js';
+import { isLeaseOnProperty } from './transactionProcessor.js';
+import { createAuditLogs } from './transactionAudit.service.js';
+import { LOCKED_PERIOD_ERROR } from './bankReconciliation.service.js';
+import type { ProposedMatchingRule } from '../../../shared/validation/matchingRule.validation.js';
+
+type RuleImpactError = { status: number; error: string };
+
+type RuleType = 'INCOME' | 'EXPENSE';
+
+const OUTCOME_FIELDS = ['propertyId', 'type', 'category'] as const;
+
+/**
+ * Where a bank transaction is posted
+ */
+export interface RuleOutcome {
+  propertyId: string | null;
+  propertyName: string | null;
+  type: RuleType | null;
+  category: string | null;
+}
+
+/**
+ * A bank transaction the proposed rules would post differently
+ */
+export interface RuleImpactChange {
+  bankTransactionId: string;
+  transactionDate: Date;
+  description: string;
+  amount: number;
+  /** A ledger transaction, or an item awaiting review */
+  source: 'transaction' | 'pending';
+  transactionId: string | null;
+  pendingTransactionId: string | null;
+  current: RuleOutcome;
+  proposed: RuleOutcome;
+  changedFields: Array<(typeof OUTCOME_FIELDS)[number]>;
+  /** IDs of the proposed rules that matched */
+  matchedRules: string[];
+  /** In a locked reconciliation period, so it can't be changed */
+  locked: boolean;
+}
+
+export interface RuleImpactReport {
+  /** Bank transactions the proposed rules were run against */
+  evaluated: number;
+  changes: RuleImpactChange[];
+}
+
+export interface RuleImpactResult {
+  applied: number;
+  skipped: Array<{ bankTransactionId: string; error: string }>;
+}
+
+interface EvaluatedChange {
+  change: RuleImpactChange;
+  evaluation: RuleEvaluationResult;
+}
+
+// Ledger and pending transactions use Income/Expense where rules use INCOME/EXPENSE
+const toRuleType = (type: string | null): RuleType | null =>
+  type === 'Income' ? 'INCOME' : type === 'Expense' ? 'EXPENSE' : null;
+
+const toTransactionType = (type: RuleType) => (type === 'INCOME' ? 'Income' : 'Expense');
+
+export class RuleImpactService {
+  /**
+   * Dry run a proposed rule set for a bank account against its transaction
+   * history, reporting the ledger transactions and pending items whose
+   * property, type or category would change. Nothing is saved.
+   */
+  async preview(
+    bankAccountId: string,
+    proposedRules: ProposedMatchingRule[]
+  ): Promise<RuleImpactReport | RuleImpactError> {
+    const evaluated = await this.evaluate(bankAccountId, proposedRules);
+
+    if ('error' in evaluated) {
+      return evaluated;
+    }
+
+    return {
+      evaluated: evaluated.evaluated,
+      changes: evaluated.changes.map(({ change }) => change),
+    };
+  }
+
+  /**
+   * Make the selected changes from a preview. The rules are evaluated again,
+   * so a change is only made if the proposed rules still call for it.
+   * Changes that can't be made are skipped with the reason.
+   */
+  async apply(
+    bankAccountId: string,
+    proposedRules: ProposedMatchingRule[],
+    bankTransactionIds: string[],
+    userId: string
+  ): Promise<RuleImpactResult | RuleImpactError> {
+    const evaluated = await this.evaluate(bankAccountId, proposedRules);
+
+    if ('error' in evaluated) {
+      return evaluated;
+    }
+
+    const selected = new Set(bankTransactionIds);
+    const result: RuleImpactResult = { applied: 0, skipped: [] };
+
+    for (const { change, evaluation } of evaluated.changes) {
+      if (!selected.delete(change.bankTransactionId)) {
+        continue;
+      }
+
+      const error = change.locked
+        ? LOCKED_PERIOD_ERROR
+        : change.source === 'transaction'
+          ? await this.applyToTransaction(change, evaluation, userId)
+          : await this.applyToPending(change, evaluation);
+
+      if (error) {
+        result.skipped.push({ bankTransactionId: change.bankTransactionId, error });
+      } else {
+        result.applied++;
+      }
+    }
+
+    for (const bankTransactionId of selected) {
+      result.skipped.push({ bankTransactionId, error: 'The proposed rules do not change this transaction' });
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the proposed rules, with the global rules, over the account's rule-created
+   * ledger transactions and pending items. Anything a person decided is left out:
+   * pending items a reviewer approved, linked or split, and manual transactions
+   * linked to the bank.
+   */
+  private async evaluate(
+    bankAccountId: string,
+    proposedRules: ProposedMatchingRule[]
+  ): Promise<{ evaluated: number; changes: EvaluatedChange[] } | RuleImpactError> {
+    const bankAccount = await prisma.bankAccount.findUnique({ where: { id: bankAccountId } });
+
+    if (!bankAccount) {
+      return { status: 404, error: 'Bank account not found' };
+    }
+
+    const [rules, bankTransactions] = await Promise.all([
+      this.buildRuleSet(bankAccountId, proposedRules),
+      prisma.bankTransaction.findMany({
+        where: {
+          bankAccountId,
+          reversedAt: null,
+          OR: [
+            { transaction: { is: { isImported: true } }, pendingTransaction: { is: null } },
+            { pendingTransaction: { is: { reviewedAt: null } } },
+          ],
+        },
+        include: {
+          transaction: { select: { id: true, propertyId: true, type: true, category: true, isImported: true } },
+          pendingTransaction: { select: { id: true, propertyId: true, type: true, category: true } },
+          _count: { select: { ledgerTransactions: true } },
+        },
+        orderBy: { transactionDate: 'desc' },
+      }),
+    ]);
+
+    const changes: EvaluatedChange[] = [];
+
+    for (const { transaction, pendingTransaction, _count, ...bankTransaction } of bankTransactions) {
+      if (_count.ledgerTransactions > 1) {
+        continue;
+      }
+
+      const evaluation = evaluateRules(bankTransaction, rules);
+      const ledger = transaction?.isImported ? transaction : null;
+      const posted = ledger ?? pendingTransaction;
+
+      if (!posted) {
+        continue;
+      }
+
+      const current = {
+        propertyId: posted.propertyId,
+        type: toRuleType(posted.type),
+        category: posted.category,
+      };
+
+      // Rules that set nothing leave a ledger transaction as it is, where a
+      // pending item takes exactly what the rules set, as on reprocessing
+      const proposed = ledger
+        ? {
+            propertyId: evaluation.propertyId ?? current.propertyId,
+            type: evaluation.type ?? current.type,
+            category: evaluation.category ?? current.category,
+          }
+        : {
+            propertyId: evaluation.propertyId ?? null,
+            type: evaluation.type ?? null,
+            category: evaluation.category ?? null,
+          };
+
+      const changedFields = OUTCOME_FIELDS.filter((field) => current[field] !== proposed[field]);
+
+      if (changedFields.length === 0) {
+        continue;
+      }
+
+      changes.push({
+        change: {
+          bankTransactionId: bankTransaction.id,
+          transactionDate: bankTransaction.transactionDate,
+          description: bankTransaction.description,
+          amount: bankTransaction.amount,
+          source: ledger ? 'transaction' : 'pending',
+          transactionId: ledger?.id ?? null,
+          pendingTransactionId: ledger ? null : posted.id,
+          current: { ...current, propertyName: null },
+          proposed: { ...proposed, propertyName: null },
+          changedFields,
+          matchedRules: evaluation.matchedRules,
+          locked: bankTransaction.reconciliationId !== null,
+        },
+        evaluation,
+      });
+    }
+
+    await this.addPropertyNames(changes.map(({ change }) => change));
+
+    return { evaluated: bankTransactions.length, changes };
+  }
+
+  /**
+   * The proposed account rules, prioritised in the order given, followed by the global rules
+   */
+  private async buildRuleSet(
+    bankAccountId: string,
+    proposedRules: ProposedMatchingRule[]
+  ): Promise<MatchingRuleWithSplits[]> {
+    const globalRules = await prisma.matchingRule.findMany({
+      where: { bankAccountId: null },
+      include: { splits: true },
+    });
+    const now = new Date();
+
+    const accountRules = proposedRules.map((rule, index) => ({
+      id: rule.id ?? `proposed-${index}`,
+      bankAccountId,
+      priority: index,
+      enabled: rule.enabled,
+      name: rule.name,
+      conditions: rule.conditions,
+      propertyId: rule.propertyId ?? null,
+      type: rule.type ?? null,
+      category: rule.category ?? null,
+      leaseId: rule.leaseId ?? null,
+      paidByUserId: rule.paidByUserId ?? null,
+      splits: rule.splits ?? undefined,
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+    return [...accountRules, ...globalRules];
+  }
+
+  private async addPropertyNames(changes: RuleImpactChange[]): Promise<void> {
+    const outcomes = changes.flatMap((change) => [change.current, change.proposed]);
+    const propertyIds = [...new Set(outcomes.flatMap((outcome) => outcome.propertyId ?? []))];
+
+    const properties = await prisma.property.findMany({
+      where: { id: { in: propertyIds } },
+      select: { id: true, name: true },
+    });
+    const names = new Map(properties.map((property) => [property.id, property.name]));
+
+    for (const outcome of outcomes) {
+      outcome.propertyName = outcome.propertyId ? (names.get(outcome.propertyId) ?? null) : null;
+    }
+  }
+
+  /**
+   * Move a ledger transaction to its proposed property, type and category.
+   * A transaction moved to another property takes the rules' lease, payer and
+   * splits for it, or its owners' shares. Returns an error message, or null.
+   */
+  private async applyToTransaction(
+    change: RuleImpactChange,
+    evaluation: RuleEvaluationResult,
+    userId: string
+  ): Promise<string | null> {
+    const { propertyId, type, category } = change.proposed;
+
+    if (!propertyId || !type || !category) {
+      return 'The proposed rules do not set a property, type and category';
+    }
+
+    if (!change.proposed.propertyName) {
+      return 'Property not found';
+    }
+
+    const categoryError = await transactionCategoryService.validateCategory(category, toTransactionType(type));
+
+    if (categoryError) {
+      return categoryError.error;
+    }
+
+    const existing = await prisma.transaction.findUniqueOrThrow({
+      where: { id: change.transactionId! },
+      include: { splits: true },
+    });
+
+    const update: Prisma.TransactionUncheckedUpdateInput = { propertyId, type: toTransactionType(type), category };
+    let splits: Array<{ userId: string; percentage: number }> | null = null;
+
+    if (propertyId !== existing.propertyId) {
+      // Only carry over what the rules set for this property
+      const assignments: RuleAssignments = evaluation.propertyId === propertyId ? evaluation : {};
+      const assignmentError = await validateRuleAssignments(propertyId, assignments);
+
+      if (assignmentError) {
+        return assignmentError.error;
+      }
+
+      update.unitId = null;
+      update.leaseId = assignments.leaseId ?? null;
+      update.paidByUserId = assignments.paidByUserId ?? null;
+      splits =
+        assignments.splits ??
+        (await prisma.propertyOwnership.findMany({ where: { propertyId } })).map((ownership) => ({
+          userId: ownership.userId,
+          percentage: ownership.ownershipPercentage,
+        }));
+    }
+
+    await prisma.$transaction(async (tx) => {
+      if (splits) {
+        await tx.transactionSplit.deleteMany({ where: { transactionId: existing.id } });
+        update.splits = {
+          create: splits.map((share) => ({
+            userId: share.userId,
+            percentage: share.percentage,
+            amount: (existing.amount * share.percentage) / 100,
+          })),
+        };
+      }
+
+      await tx.transaction.update({ where: { id: existing.id }, data: update });
+      await createAuditLogs(existing.id, userId, existing, update, tx);
+    });
+
+    return null;
+  }
+
+  /**
+   * Give a pending item the proposed property, type and category, leaving it
+   * for review. Returns an error message, or null.
+   */
+  private async applyToPending(change: RuleImpactChange, evaluation: RuleEvaluationResult): Promise<string | null> {
+    const { propertyId, type, category } = change.proposed;
+
+    if (propertyId && !change.proposed.propertyName) {
+      return 'Property not found';
+    }
+
+    await prisma.pendingTransaction.update({
+      where: { id: change.pendingTransactionId! },
+      data: {
+        propertyId,
+        leaseId: (await isLeaseOnProperty(evaluation)) ? evaluation.leaseId : null,
+        type: type ? toTransactionType(type) : null,
+        category,
+      },
+    });
+
+    return null;
+  }
+}
+
+export const ruleImpactService = new RuleImpactService();
@@ -1,6 +1,10 @@
 import prisma from '../db/client.js';
 import { evaluateRules } from './ruleEvaluationEngine.js';
-import { validateTypeCategoryCombo } from '../utils/transactionValidation.js';
+import { transactionCategoryService } from './transactionCategory.service.js';
+import { validateRuleAssignments } from './matchingRules.js';
+import { createRuleTransaction, isLeaseOnProperty } from './transactionProcessor.js';
+import { ruleHitService } from './ruleHits.service.js';
+import { transactionMatchingService } from './transactionMatching.service.js';
 
 /**
  * Result of reprocessing pending transactions
@@ -17,13 +21,16 @@ export interface ReprocessingResult {
 /**
  * Reprocess pending transactions after rule changes
  *
- * This function re-evaluates all pending transactions against current matching rules.
- * If a pending transaction becomes fully matched and valid, it's auto-approved by:
- * 1. Creating a Transaction record
+ * This function re-evaluates all pending transactions against current matching rules,
+ * recording which rules supplied their fields.
+ * If a pending transaction becomes fully matched and valid, and no manual
+ * transaction looks like the same payment, it's auto-approved by:
+ * 1. Creating a Transaction record, with the rules' lease, payer and splits
  * 2. Updating the BankTransaction (set transactionId, clear pendingTransactionId)
  * 3. Deleting the PendingTransaction
  *
  * Scope:
+ * - Only unreviewed items; anything the bank reversed is left for the reviewer
  * - If bankAccountId is provided: reprocess only pending transactions for that account
  * - If bankAccountId is null: reprocess all pending transactions (global rule changed)
  *
@@ -52,8 +59,10 @@ export async function reprocessPendingTransactions(
         bankTransaction: true,
       },
       where: {
+        reviewedAt: null,
         bankTransaction: {
           bankAccountId: bankAccountId,
+          reversedAt: null,
         },
       },
     });
@@ -63,6 +72,10 @@ export async function reprocessPendingTransactions(
       include: {
         bankTransaction: true,
       },
+      where: {
+        reviewedAt: null,
+        bankTransaction: { reversedAt: null },
+      },
     });
   }
 
@@ -80,6 +93,7 @@ export async function reprocessPendingTransactions(
             { bankAccountId: null }, // Global rules
           ],
         },
+        include: { splits: true },
         orderBy: [
           // Account-specific rules should be evaluated before global rules
           { bankAccountId: 'desc' }, // Non-null (account-specific) comes before null (global)
@@ -89,6 +103,7 @@ export async function reprocessPendingTransactions(
 
       // Re-evaluate rules against the bank transaction
       const ruleResult = evaluateRules(pending.bankTransaction, matchingRules);
+      await ruleHitService.record(pending.bankTransactionId, ruleResult);
 
       result.processed++;
 
@@ -111,13 +126,35 @@ export async function reprocessPendingTransactions(
         });
 
         // Validate type/category combination
-        const isValidCombination = validateTypeCategoryCombo(transactionType, ruleResult.category);
+        const categoryError = await transactionCategoryService.validateCategory(ruleResult.category, transactionType);
+        const isValidCombination = !categoryError;
+
+        // Validate lease, payer and splits against the property
+        const assignmentError = await validateRuleAssignments(ruleResult.propertyId, ruleResult);
 
-        isValid = !!propertyExists && isValidCombination;
+        isValid = !!propertyExists && isValidCombination && !assignmentError;
+      }
+
+      // Leave possible duplicates of manual transactions for the reviewer to link
+      let hasManualMatch = false;
+
+      if (isValid) {
+        const candidates = await transactionMatchingService.findCandidates(
+          pending.bankTransaction,
+          ruleResult.propertyId
+        );
+        hasManualMatch = candidates.length > 0;
       }
 
       // If fully matched and valid, auto-approve
-      if (isFullyMatched && isValid && ruleResult.propertyId && transactionType && ruleResult.category) {
+      if (
+        isFullyMatched &&
+        isValid &&
+        !hasManualMatch &&
+        ruleResult.propertyId &&
+        transactionType &&
+        ruleResult.category
+      ) {
         // Capture values before transaction to satisfy TypeScript type narrowing
         const propertyId = ruleResult.propertyId;
         const category = ruleResult.category;
@@ -126,18 +163,12 @@ export async function reprocessPendingTransactions(
         // Wrap in transaction to ensure atomicity of the three operations
         await prisma.$transaction(async (tx) => {
           // Create Transaction
-          const transaction = await tx.transaction.create({
-            data: {
-              propertyId,
-              type,
-              category,
-              amount: pending.bankTransaction.amount, // Preserve sign as-is
-              transactionDate: pending.bankTransaction.transactionDate,
-              description: pending.bankTransaction.description,
-              isImported: true,
-              importedAt: new Date(),
-            },
-          });
+          const transaction = await createRuleTransaction(
+            tx,
+            pending.bankTransaction,
+            { ...ruleResult, propertyId, category },
+            type
+          );
 
           // Update BankTransaction to link to Transaction and clear pending
           await tx.bankTransaction.update({
@@ -161,6 +192,7 @@ export async function reprocessPendingTransactions(
           where: { id: pending.id },
           data: {
             propertyId: ruleResult.propertyId ?? null,
+            leaseId: (await isLeaseOnProperty(ruleResult)) ? ruleResult.leaseId : null,
             type: transactionType,
             category: ruleResult.category ?? null,
           },
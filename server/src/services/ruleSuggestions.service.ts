@@ -0,0 +1,308 @@
+import type { BankTransaction, MatchingRule, RuleSuggestionDismissal } from '@prisma/client';
+import prisma from '../db/client.js';
+import { evaluateRules } from './ruleEvaluationEngine.js';
+import type {
+  RuleCondition,
+  RuleConditionGroup,
+} from '../../../shared/validation/matchingRule.validation.js';
+
+// A pattern must have been approved this many times before it is suggested
+const MIN_OCCURRENCES = 2;
+
+// Share of matching approvals that must agree with the suggestion
+const MIN_ACCURACY = 0.8;
+
+// Fields that identify who a payment is to or from, most specific first
+const PATTERN_FIELDS = ['counterpartyName', 'merchant', 'reference'] as const;
+
+const MAX_EXAMPLES = 3;
+
+type SuggestionError = { status: number; error: string };
+
+/**
+ * A matching rule proposed from transactions that were approved by hand
+ */
+export interface RuleSuggestion {
+  /** Identifies the pattern, so a dismissed suggestion stays dismissed */
+  key: string;
+  name: string;
+  conditions: RuleConditionGroup;
+  propertyId: string;
+  propertyName: string;
+  type: 'INCOME' | 'EXPENSE';
+  category: string;
+  /** Approved transactions the conditions match */
+  hitCount: number;
+  /** Share of those approvals that went to this property, type and category */
+  accuracy: number;
+  /** Descriptions of a few of the approved transactions */
+  examples: string[];
+}
+
+/**
+ * A bank transaction and where the reviewer put it
+ */
+interface Approval {
+  bankTransaction: BankTransaction;
+  propertyId: string;
+  propertyName: string;
+  type: 'INCOME' | 'EXPENSE';
+  category: string;
+}
+
+const outcomeOf = (approval: Pick<Approval, 'propertyId' | 'type' | 'category'>) =>
+  `${approval.propertyId}|${approval.type}|${approval.category}`;
+
+// Grouped the way a case-insensitive equals condition compares them
+const normalise = (value: string | null) => value?.toLowerCase() ?? '';
+
+/**
+ * The most common item by key, with the first seen winning ties
+ */
+function mostCommon<T>(items: T[], keyOf: (item: T) => string): T {
+  const counts = new Map<string, number>();
+  let best = items[0];
+  let bestCount = 0;
+
+  for (const item of items) {
+    const count = (counts.get(keyOf(item)) ?? 0) + 1;
+    counts.set(keyOf(item), count);
+    if (count > bestCount) {
+      best = item;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+export class RuleSuggestionService {
+  /**
+   * Suggest rules for a bank account from its manually approved pending
+   * transactions. Each counterparty, merchant or reference approved the same
+   * way several times becomes a suggestion, scored by running it through the
+   * rule engine against every approval. Patterns the account's rules already
+   * handle, or that were dismissed, are left out.
+   */
+  async suggest(bankAccountId: string): Promise<RuleSuggestion[] | SuggestionError> {
+    const bankAccount = await prisma.bankAccount.findUnique({ where: { id: bankAccountId } });
+
+    if (!bankAccount) {
+      return { status: 404, error: 'Bank account not found' };
+    }
+
+    const [approvals, rules, dismissals] = await Promise.all([
+      this.loadApprovals(bankAccountId),
+      prisma.matchingRule.findMany({
+        where: { enabled: true, OR: [{ bankAccountId }, { bankAccountId: null }] },
+        include: { splits: true },
+        orderBy: { priority: 'asc' },
+      }),
+      prisma.ruleSuggestionDismissal.findMany({ where: { bankAccountId }, select: { key: true } }),
+    ]);
+
+    const dismissed = new Set(dismissals.map((dismissal) => dismissal.key));
+    const seen = new Set<string>();
+    const suggestions: RuleSuggestion[] = [];
+
+    for (const field of PATTERN_FIELDS) {
+      const groups = new Map<string, Approval[]>();
+
+      for (const approval of approvals) {
+        const value = normalise(approval.bankTransaction[field]);
+        if (value) {
+          groups.set(value, [...(groups.get(value) ?? []), approval]);
+        }
+      }
+
+      for (const [value, group] of groups) {
+        const key = `${field}:${value}`;
+
+        if (group.length < MIN_OCCURRENCES || dismissed.has(key)) {
+          continue;
+        }
+
+        const scored = this.score(key, field, group, approvals);
+
+        if (!scored || scored.suggestion.hitCount < MIN_OCCURRENCES || scored.suggestion.accuracy < MIN_ACCURACY) {
+          continue;
+        }
+
+        // The same approvals can share a counterparty and a merchant; offer one rule for them
+        const { suggestion, hits } = scored;
+        const coverage = `${outcomeOf(suggestion)}:${hits.map((hit) => hit.bankTransaction.id).sort().join(',')}`;
+
+        if (seen.has(coverage) || this.isHandledByRules(suggestion, hits, rules)) {
+          continue;
+        }
+
+        seen.add(coverage);
+        suggestions.push(suggestion);
+      }
+    }
+
+    return suggestions.sort((a, b) => b.hitCount - a.hitCount || b.accuracy - a.accuracy);
+  }
+
+  /**
+   * Stop offering a suggestion for a bank account
+   */
+  async dismiss(
+    bankAccountId: string,
+    key: string,
+    userId: string
+  ): Promise<RuleSuggestionDismissal | SuggestionError> {
+    const bankAccount = await prisma.bankAccount.findUnique({ where: { id: bankAccountId } });
+
+    if (!bankAccount) {
+      return { status: 404, error: 'Bank account not found' };
+    }
+
+    return prisma.ruleSuggestionDismissal.upsert({
+      where: { bankAccountId_key: { bankAccountId, key } },
+      create: { bankAccountId, key, dismissedBy: userId },
+      update: {},
+    });
+  }
+
+  /**
+   * Reviewed pending transactions that ended up in the ledger. Rejected ones
+   * are deleted and rule-approved ones never stay pending, so these are the
+   * reviewer's decisions. Splits can't be learned as one rule's outcome.
+   */
+  private async loadApprovals(bankAccountId: string): Promise<Approval[]> {
+    const reviewed = await prisma.pendingTransaction.findMany({
+      where: {
+        reviewedAt: { not: null },
+        bankTransaction: { bankAccountId, transactionId: { not: null } },
+      },
+      include: {
+        bankTransaction: {
+          include: {
+            transaction: {
+              select: { propertyId: true, type: true, category: true, property: { select: { name: true } } },
+            },
+            _count: { select: { ledgerTransactions: true } },
+          },
+        },
+      },
+      orderBy: { reviewedAt: 'asc' },
+    });
+
+    return reviewed.flatMap(({ bankTransaction }) => {
+      const { transaction, _count, ...bankFields } = bankTransaction;
+
+      if (!transaction || _count.ledgerTransactions > 1) {
+        return [];
+      }
+
+      return [
+        {
+          bankTransaction: bankFields,
+          propertyId: transaction.propertyId,
+          propertyName: transaction.property.name,
+          type: transaction.type === 'Income' ? ('INCOME' as const) : ('EXPENSE' as const),
+          category: transaction.category,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Build the suggestion for a group of approvals sharing a field value, and
+   * score it against all approvals
+   */
+  private score(
+    key: string,
+    field: (typeof PATTERN_FIELDS)[number],
+    group: Approval[],
+    approvals: Approval[]
+  ): { suggestion: RuleSuggestion; hits: Approval[] } | null {
+    const target = mostCommon(group, outcomeOf);
+    const value = mostCommon(group, (approval) => approval.bankTransaction[field] ?? '').bankTransaction[field];
+
+    if (!value) {
+      return null;
+    }
+
+    const rules: RuleCondition[] = [{ field, matchType: 'equals', value, caseSensitive: false }];
+
+    // A fixed amount, such as rent, tells this payment apart from others to the same payee
+    const amounts = new Set(group.map((approval) => approval.bankTransaction.amount));
+    if (amounts.size === 1) {
+      rules.push({ field: 'amount', matchType: 'equals', value: group[0].bankTransaction.amount });
+    }
+
+    const suggestion: RuleSuggestion = {
+      key,
+      name: `${value.trim()} - ${target.category}`,
+      conditions: { operator: 'AND', rules },
+      propertyId: target.propertyId,
+      propertyName: target.propertyName,
+      type: target.type,
+      category: target.category,
+      hitCount: 0,
+      accuracy: 0,
+      examples: [],
+    };
+
+    const hits = approvals.filter((approval) => this.matches(suggestion, approval.bankTransaction));
+    const correct = hits.filter((approval) => outcomeOf(approval) === outcomeOf(suggestion));
+
+    suggestion.hitCount = hits.length;
+    suggestion.accuracy = hits.length > 0 ? correct.length / hits.length : 0;
+    suggestion.examples = [...new Set(correct.map((approval) => approval.bankTransaction.description))].slice(
+      0,
+      MAX_EXAMPLES
+    );
+
+    return { suggestion, hits };
+  }
+
+  /**
+   * Whether the suggested rule matches a bank transaction, using the rule engine
+   */
+  private matches(suggestion: RuleSuggestion, bankTransaction: BankTransaction): boolean {
+    const now = new Date();
+    const rule: MatchingRule = {
+      id: suggestion.key,
+      bankAccountId: bankTransaction.bankAccountId,
+      priority: 0,
+      enabled: true,
+      name: suggestion.name,
+      conditions: JSON.stringify(suggestion.conditions),
+      propertyId: suggestion.propertyId,
+      type: suggestion.type,
+      category: suggestion.category,
+      leaseId: null,
+      paidByUserId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return evaluateRules(bankTransaction, [rule]).matchedRules.length > 0;
+  }
+
+  /**
+   * Whether the existing rules would already post every correct hit the way
+   * the suggestion would
+   */
+  private isHandledByRules(
+    suggestion: RuleSuggestion,
+    hits: Approval[],
+    rules: Parameters<typeof evaluateRules>[1]
+  ): boolean {
+    const correct = hits.filter((approval) => outcomeOf(approval) === outcomeOf(suggestion));
+
+    return correct.every((approval) => {
+      const result = evaluateRules(approval.bankTransaction, rules);
+      return (
+        result.propertyId === suggestion.propertyId &&
+        result.type === suggestion.type &&
+        result.category === suggestion.category
+      );
+    });
+  }
+}
+
+export const ruleSuggestionService = new RuleSuggestionService();
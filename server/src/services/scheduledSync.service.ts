@@ -0,0 +1,144 @@
+import prisma from '../db/client.js';
+import { syncNewTransactions } from './bankSync.service.js';
+
+const MINUTE_MS = 60 * 1000;
+
+// How often the scheduler looks for accounts that are due
+const CHECK_INTERVAL_MS = 5 * MINUTE_MS;
+
+// Failed accounts back off exponentially, but are retried at least daily
+const MAX_BACKOFF_MINUTES = 24 * 60;
+
+export interface ScheduledSyncRunResult {
+  asOf: Date;
+  synced: Array<{ bankAccountId: string; transactionsFetched: number }>;
+  failed: Array<{ bankAccountId: string; error: string; nextSyncAt: Date }>;
+  // Accounts with a manual sync already running; they are retried on the next check
+  skipped: Array<{ bankAccountId: string; reason: string }>;
+}
+
+export class ScheduledSyncService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * When to sync next. After a failure the interval doubles for each consecutive
+   * failure, capped at a day (or the account's own interval, if longer).
+   */
+  nextSyncAt(from: Date, syncIntervalMinutes: number, failureCount: number = 0): Date {
+    let minutes = syncIntervalMinutes;
+
+    if (failureCount > 0) {
+      const cap = Math.max(syncIntervalMinutes, MAX_BACKOFF_MINUTES);
+      minutes = Math.min(syncIntervalMinutes * 2 ** failureCount, cap);
+    }
+
+    return new Date(from.getTime() + minutes * MINUTE_MS);
+  }
+
+  /**
+   * Sync every sync-enabled account that is due. Statement import accounts have
+   * no access token and are never synced.
+   */
+  async runDue(asOf: Date = new Date()): Promise<ScheduledSyncRunResult> {
+    const result: ScheduledSyncRunResult = { asOf, synced: [], failed: [], skipped: [] };
+
+    const accounts = await prisma.bankAccount.findMany({
+      where: {
+        syncEnabled: true,
+        accessToken: { not: null },
+        OR: [{ nextScheduledSyncAt: null }, { nextScheduledSyncAt: { lte: asOf } }],
+      },
+      orderBy: { nextScheduledSyncAt: 'asc' },
+    });
+
+    for (const account of accounts) {
+      const syncResult = await syncNewTransactions(account.id, 'scheduled');
+
+      if (syncResult.success) {
+        await prisma.bankAccount.update({
+          where: { id: account.id },
+          data: {
+            syncFailureCount: 0,
+            nextScheduledSyncAt: this.nextSyncAt(asOf, account.syncIntervalMinutes),
+          },
+        });
+        result.synced.push({
+          bankAccountId: account.id,
+          transactionsFetched: syncResult.transactionsFetched ?? 0,
+        });
+        continue;
+      }
+
+      const error = syncResult.error ?? 'Unknown error';
+
+      if (error === 'Sync already in progress') {
+        result.skipped.push({ bankAccountId: account.id, reason: error });
+        continue;
+      }
+
+      const failureCount = account.syncFailureCount + 1;
+      const nextSyncAt = this.nextSyncAt(asOf, account.syncIntervalMinutes, failureCount);
+
+      await prisma.bankAccount.update({
+        where: { id: account.id },
+        data: {
+          syncFailureCount: failureCount,
+          nextScheduledSyncAt: nextSyncAt,
+        },
+      });
+      result.failed.push({ bankAccountId: account.id, error, nextSyncAt });
+    }
+
+    return result;
+  }
+
+  /**
+   * Sync due accounts now, then check again every few minutes
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const run = async () => {
+      // A slow sync can outlast the check interval; don't start a second run
+      if (this.running) return;
+      this.running = true;
+
+      try {
+        const result = await this.runDue();
+        if (result.synced.length > 0 || result.failed.length > 0) {
+          console.log(
+            `[scheduled-sync] Synced ${result.synced.length}, failed ${result.failed.length}, skipped ${result.skipped.length}`
+          );
+        }
+        for (const failed of result.failed) {
+          console.error(
+            `[scheduled-sync] Bank account ${failed.bankAccountId} failed: ${failed.error} (next attempt ${failed.nextSyncAt.toISOString()})`
+          );
+        }
+      } catch (error) {
+        console.error('Scheduled sync run error:', error);
+      } finally {
+        this.running = false;
+      }
+    };
+
+    this.timer = setInterval(() => void run(), CHECK_INTERVAL_MS);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+
+    void run();
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const scheduledSyncService = new ScheduledSyncService();
@@ -0,0 +1,185 @@
+import prisma from '../db/client.js';
+import { checkForDuplicate } from './duplicateDetection.js';
+import { processBankTransactions, type BankTransactionInput } from './transactionProcessor.js';
+import {
+  detectStatementFormat,
+  parseCsv,
+  parseOfx,
+  parseQif,
+  readCsvHeaders,
+  StatementParseError,
+  type ParsedStatement,
+} from './statementParser.js';
+import {
+  CsvColumnMappingSchema,
+  type CsvColumnMapping,
+  type StatementFormat,
+  type StatementImportOptions,
+} from '../../../shared/validation/bankAccount.validation.js';
+
+/**
+ * A parsed statement file. CSV files without a column mapping are not parsed;
+ * only their headers are returned so a mapping can be chosen.
+ */
+export interface StatementFile {
+  format: StatementFormat;
+  /** CSV header row (CSV only) */
+  headers?: string[];
+  /** Column mapping used to parse a CSV file */
+  mapping: CsvColumnMapping | null;
+  statement: ParsedStatement | null;
+}
+
+export interface StatementImportResult {
+  syncLogId: string;
+  transactionsFetched: number;
+  processed: number;
+  duplicatesSkipped: number;
+  possibleDuplicates: number;
+  errors: Array<{ transactionId: string; error: string }>;
+}
+
+export class StatementImportService {
+  /**
+   * Read a saved CSV column mapping, ignoring one that no longer validates
+   */
+  savedMapping(csvMapping: string | null): CsvColumnMapping | null {
+    if (!csvMapping) return null;
+
+    try {
+      const result = CsvColumnMappingSchema.safeParse(JSON.parse(csvMapping));
+      return result.success ? result.data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Parse an uploaded statement. CSV files use the mapping from the options,
+   * falling back to the one saved on the account.
+   *
+   * @throws StatementParseError if the format is unknown or the file can't be parsed
+   */
+  parseFile(
+    file: { buffer: Buffer; originalname: string },
+    options: StatementImportOptions,
+    savedMapping: CsvColumnMapping | null
+  ): StatementFile {
+    const content = file.buffer.toString('utf8');
+    const format = options.format ?? detectStatementFormat(file.originalname, content);
+
+    if (!format) {
+      throw new StatementParseError('Unrecognised statement format. Upload a CSV, OFX or QIF file');
+    }
+
+    if (format === 'ofx') {
+      return { format, mapping: null, statement: parseOfx(content) };
+    }
+
+    if (format === 'qif') {
+      return { format, mapping: null, statement: parseQif(content, options.dateFormat) };
+    }
+
+    const mapping = options.mapping ?? savedMapping;
+    const headers = readCsvHeaders(content, mapping?.skipRows ?? 0);
+
+    if (!mapping) {
+      return { format, headers, mapping: null, statement: null };
+    }
+
+    return { format, headers, mapping, statement: parseCsv(content, mapping) };
+  }
+
+  /**
+   * Flag which parsed transactions the import would skip as duplicates, and
+   * which it would hold for review as possible duplicates
+   */
+  async preview(bankAccountId: string, transactions: BankTransactionInput[]) {
+    return Promise.all(
+      transactions.map(async (transaction) => {
+        const duplicateCheck = await checkForDuplicate({
+          bankAccountId,
+          externalId: transaction.externalId,
+          amount: transaction.amount,
+          description: transaction.description,
+          transactionDate: transaction.transactionDate,
+        });
+
+        return {
+          ...transaction,
+          isDuplicate: duplicateCheck.matchType === 'exact',
+          duplicateMatchType: duplicateCheck.matchType,
+        };
+      })
+    );
+  }
+
+  /**
+   * Import parsed transactions through the standard processing pipeline,
+   * recording the upload in the sync log like a Monzo sync.
+   */
+  async importTransactions(
+    bankAccountId: string,
+    transactions: BankTransactionInput[]
+  ): Promise<StatementImportResult> {
+    const syncLog = await prisma.syncLog.create({
+      data: {
+        bankAccountId,
+        syncType: 'import',
+        status: 'in_progress',
+      },
+    });
+
+    try {
+      const processResult = await processBankTransactions(transactions, bankAccountId);
+
+      if (processResult.errors.length > 0) {
+        console.error(`Statement import encountered ${processResult.errors.length} errors:`, processResult.errors);
+      }
+
+      await prisma.syncLog.update({
+        where: { id: syncLog.id },
+        data: {
+          status: 'success',
+          completedAt: new Date(),
+          transactionsFetched: transactions.length,
+          transactionsSkipped: processResult.duplicatesSkipped,
+          transactionsHeld: processResult.possibleDuplicates,
+        },
+      });
+
+      await prisma.bankAccount.update({
+        where: { id: bankAccountId },
+        data: {
+          lastSyncAt: new Date(),
+          lastSyncStatus: 'success',
+        },
+      });
+
+      return {
+        syncLogId: syncLog.id,
+        transactionsFetched: transactions.length,
+        ...processResult,
+      };
+    } catch (error) {
+      await prisma.syncLog.update({
+        where: { id: syncLog.id },
+        data: {
+          status: 'failed',
+          completedAt: new Date(),
+          errorMessage: error instanceof Error ? error.message : 'Unknown error',
+          errorDetails: error instanceof Error ? error.stack : undefined,
+        },
+      });
+
+      await prisma.bankAccount.update({
+        where: { id: bankAccountId },
+        data: { lastSyncStatus: 'failed' },
+      });
+
+      throw error;
+    }
+  }
+}
+
+export const statementImportService = new StatementImportService();
@@ -0,0 +1,447 @@
+import crypto from 'crypto';
+import type { BankTransactionInput } from './transactionProcessor.js';
+import type {
+  CsvColumnMapping,
+  StatementDateFormat,
+  StatementFormat,
+} from '../../../shared/validation/bankAccount.validation.js';
+
+/**
+ * Result of parsing a statement file
+ */
+export interface ParsedStatement {
+  /** Transactions ready for the processing pipeline (amounts in pence) */
+  transactions: BankTransactionInput[];
+  /** Rows that could not be parsed; 1-based row numbers within the statement */
+  errors: Array<{
+    row: number;
+    error: string;
+  }>;
+}
+
+/**
+ * Error for statement files that cannot be parsed at all
+ * (as opposed to individual bad rows, which are reported in ParsedStatement.errors)
+ */
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementParseError';
+    Object.setPrototypeOf(this, StatementParseError.prototype);
+  }
+}
+
+const DEFAULT_CURRENCY = 'GBP';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Build a UTC midnight date, rejecting impossible dates such as 31/02
+ */
+function utcDate(year: number, month: number, day: number): Date | null {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+
+  if (
+    date.getUTCFullYear() !== fullYear ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Parse a statement date in the given format. Separators are flexible
+ * (/, -, . or ') and two-digit years are taken as 20xx.
+ *
+ * @returns UTC midnight on the statement date, or null if the value doesn't match the format
+ */
+export function parseStatementDate(value: string, format: StatementDateFormat): Date | null {
+  const trimmed = value.trim();
+
+  if (format === 'YYYY-MM-DD') {
+    const match = trimmed.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    return match ? utcDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+  }
+
+  if (format === 'DD MMM YYYY') {
+    const match = trimmed.match(/^(\d{1,2})[\s-]+([A-Za-z]{3})[A-Za-z]*[\s-]+(\d{2}|\d{4})$/);
+    if (!match) return null;
+    const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    return month > 0 ? utcDate(Number(match[3]), month, Number(match[1])) : null;
+  }
+
+  const match = trimmed.match(/^(\d{1,2})[-/.'](\d{1,2})[-/.'](\d{2}|\d{4})$/);
+  if (!match) return null;
+
+  return format === 'DD/MM/YYYY'
+    ? utcDate(Number(match[3]), Number(match[2]), Number(match[1]))
+    : utcDate(Number(match[3]), Number(match[1]), Number(match[2]));
+}
+
+/**
+ * Parse a statement amount into pence. Accepts currency symbols, thousands
+ * separators and accounting-style negatives, e.g. "£1,250.00" or "(45.99)".
+ *
+ * @returns Amount in pence, or null if the value is empty or not a number
+ */
+export function parseStatementAmount(value: string): number | null {
+  let cleaned = value.trim().replace(/[£$€,\s]/g, '');
+  let negative = false;
+
+  if (/^\(.*\)$/.test(cleaned)) {
+    negative = true;
+    cleaned = cleaned.slice(1, -1);
+  }
+
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(cleaned)) {
+    return null;
+  }
+
+  const pence = Math.round(parseFloat(cleaned) * 100);
+  return negative ? -pence : pence;
+}
+
+/**
+ * Split CSV content into rows of fields (RFC 4180: quoted fields may contain
+ * commas, newlines and doubled quotes). Blank lines are dropped.
+ */
+export function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Read the header row of a CSV statement, after any leading rows to skip
+ */
+export function readCsvHeaders(content: string, skipRows = 0): string[] {
+  const header = parseCsvRows(content)[skipRows];
+  return header ? header.map((column) => column.trim()) : [];
+}
+
+/**
+ * Give each transaction an ID that is stable across re-imports of the same
+ * statement, so exact duplicate detection catches files uploaded twice.
+ * Identical rows within one file are told apart by their occurrence count.
+ */
+function assignExternalIds(
+  transactions: Array<Omit<BankTransactionInput, 'externalId'> & { externalId?: string }>
+): BankTransactionInput[] {
+  const occurrences = new Map<string, number>();
+
+  return transactions.map((transaction) => {
+    if (transaction.externalId) {
+      return transaction as BankTransactionInput;
+    }
+
+    const key = [
+      transaction.transactionDate.toISOString().slice(0, 10),
+      transaction.amount,
+      transaction.description,
+    ].join('|');
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+
+    const hash = crypto.createHash('sha256').update(`${key}|${occurrence}`).digest('hex').slice(0, 32);
+    return { ...transaction, externalId: `import_${hash}` };
+  });
+}
+
+/**
+ * Parse a CSV statement using a column mapping
+ *
+ * @throws StatementParseError if the header row is missing or lacks a mapped column
+ */
+export function parseCsv(content: string, mapping: CsvColumnMapping): ParsedStatement {
+  const rows = parseCsvRows(content).slice(mapping.skipRows ?? 0);
+  const [header, ...dataRows] = rows;
+
+  if (!header) {
+    throw new StatementParseError('CSV file has no header row');
+  }
+
+  const columns = header.map((column) => column.trim().toLowerCase());
+  const columnIndex = (name: string | undefined): number | undefined => {
+    if (!name) return undefined;
+    const index = columns.indexOf(name.trim().toLowerCase());
+    if (index === -1) {
+      throw new StatementParseError(`Column "${name}" not found in CSV header`);
+    }
+    return index;
+  };
+
+  const dateIndex = columnIndex(mapping.dateColumn)!;
+  const descriptionIndex = columnIndex(mapping.descriptionColumn)!;
+  const amountIndex = columnIndex(mapping.amountColumn);
+  const creditIndex = columnIndex(mapping.creditColumn);
+  const debitIndex = columnIndex(mapping.debitColumn);
+  const referenceIndex = columnIndex(mapping.referenceColumn);
+  const counterpartyIndex = columnIndex(mapping.counterpartyColumn);
+
+  const cell = (row: string[], index: number | undefined) =>
+    index === undefined ? '' : (row[index] ?? '').trim();
+
+  const result: ParsedStatement = { transactions: [], errors: [] };
+  const parsed: Array<Omit<BankTransactionInput, 'externalId'>> = [];
+
+  dataRows.forEach((row, i) => {
+    const rowNumber = i + 1;
+
+    const transactionDate = parseStatementDate(cell(row, dateIndex), mapping.dateFormat);
+    if (!transactionDate) {
+      result.errors.push({ row: rowNumber, error: `Invalid date "${cell(row, dateIndex)}"` });
+      return;
+    }
+
+    let amount: number | null;
+    if (amountIndex !== undefined) {
+      amount = parseStatementAmount(cell(row, amountIndex));
+    } else {
+      // Money in and money out columns; either may be blank
+      const credit = parseStatementAmount(cell(row, creditIndex));
+      const debit = parseStatementAmount(cell(row, debitIndex));
+      amount = credit === null && debit === null ? null : Math.abs(credit ?? 0) - Math.abs(debit ?? 0);
+    }
+
+    if (amount === null) {
+      result.errors.push({ row: rowNumber, error: 'Missing or invalid amount' });
+      return;
+    }
+
+    const description = cell(row, descriptionIndex);
+    if (!description) {
+      result.errors.push({ row: rowNumber, error: 'Missing description' });
+      return;
+    }
+
+    parsed.push({
+      amount,
+      currency: DEFAULT_CURRENCY,
+      description,
+      counterpartyName: cell(row, counterpartyIndex) || null,
+      reference: cell(row, referenceIndex) || null,
+      merchant: null,
+      category: null,
+      transactionDate,
+      settledDate: transactionDate,
+    });
+  });
+
+  result.transactions = assignExternalIds(parsed);
+  return result;
+}
+
+/**
+ * Read a single OFX element value. Works for both SGML (OFX 1.x, no closing
+ * tags on values) and XML (OFX 2.x) files.
+ */
+function ofxValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  if (!match) return null;
+
+  const value = match[1]
+    .trim()
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+  return value || null;
+}
+
+/**
+ * Parse an OFX (or QFX) statement. Transactions keep the bank's FITID so
+ * re-imports are detected as exact duplicates.
+ *
+ * @throws StatementParseError if the file contains no OFX transaction list
+ */
+export function parseOfx(content: string): ParsedStatement {
+  if (!/<OFX>/i.test(content)) {
+    throw new StatementParseError('File is not a valid OFX statement');
+  }
+
+  const currency = ofxValue(content, 'CURDEF') ?? DEFAULT_CURRENCY;
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) ?? [];
+
+  const result: ParsedStatement = { transactions: [], errors: [] };
+  const parsed: Array<Omit<BankTransactionInput, 'externalId'> & { externalId?: string }> = [];
+
+  blocks.forEach((block, i) => {
+    const rowNumber = i + 1;
+
+    // Dates are YYYYMMDD with an optional time and timezone, which we drop
+    const dateValue = ofxValue(block, 'DTPOSTED') ?? '';
+    const dateMatch = dateValue.match(/^(\d{4})(\d{2})(\d{2})/);
+    const transactionDate = dateMatch
+      ? utcDate(Number(dateMatch[1]), Number(dateMatch[2]), Number(dateMatch[3]))
+      : null;
+
+    if (!transactionDate) {
+      result.errors.push({ row: rowNumber, error: `Invalid date "${dateValue}"` });
+      return;
+    }
+
+    const amount = parseStatementAmount(ofxValue(block, 'TRNAMT') ?? '');
+    if (amount === null) {
+      result.errors.push({ row: rowNumber, error: 'Missing or invalid amount' });
+      return;
+    }
+
+    const name = ofxValue(block, 'NAME') ?? ofxValue(block, 'PAYEE');
+    const memo = ofxValue(block, 'MEMO');
+    const description = name ?? memo;
+
+    if (!description) {
+      result.errors.push({ row: rowNumber, error: 'Missing description' });
+      return;
+    }
+
+    const fitId = ofxValue(block, 'FITID');
+
+    parsed.push({
+      externalId: fitId ? `ofx_${fitId}` : undefined,
+      amount,
+      currency,
+      description,
+      counterpartyName: name,
+      reference: name ? memo : null,
+      merchant: null,
+      category: null,
+      transactionDate,
+      settledDate: transactionDate,
+    });
+  });
+
+  result.transactions = assignExternalIds(parsed);
+  return result;
+}
+
+/**
+ * Parse a QIF statement. QIF has no standard date format, so the caller
+ * says which one the bank uses (UK banks export DD/MM/YYYY).
+ */
+export function parseQif(content: string, dateFormat: StatementDateFormat = 'DD/MM/YYYY'): ParsedStatement {
+  const result: ParsedStatement = { transactions: [], errors: [] };
+  const parsed: Array<Omit<BankTransactionInput, 'externalId'>> = [];
+
+  // Records are terminated by a line containing only "^"
+  const records = content
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n\^\s*(?:\r?\n|$)/)
+    .map((record) => record.split(/\r?\n/).filter((line) => line.trim() !== '' && !line.startsWith('!')))
+    .filter((lines) => lines.length > 0);
+
+  records.forEach((lines, i) => {
+    const rowNumber = i + 1;
+    const fields = new Map<string, string>();
+
+    for (const line of lines) {
+      // First value wins; split lines (S/E/$) repeat codes we don't use
+      if (!fields.has(line[0])) {
+        fields.set(line[0], line.slice(1).trim());
+      }
+    }
+
+    const dateValue = fields.get('D') ?? '';
+    const transactionDate = parseStatementDate(dateValue, dateFormat);
+    if (!transactionDate) {
+      result.errors.push({ row: rowNumber, error: `Invalid date "${dateValue}"` });
+      return;
+    }
+
+    const amount = parseStatementAmount(fields.get('T') ?? fields.get('U') ?? '');
+    if (amount === null) {
+      result.errors.push({ row: rowNumber, error: 'Missing or invalid amount' });
+      return;
+    }
+
+    const payee = fields.get('P') || null;
+    const memo = fields.get('M') || null;
+    const description = payee ?? memo;
+
+    if (!description) {
+      result.errors.push({ row: rowNumber, error: 'Missing description' });
+      return;
+    }
+
+    parsed.push({
+      amount,
+      currency: DEFAULT_CURRENCY,
+      description,
+      counterpartyName: payee,
+      reference: payee ? memo : null,
+      merchant: null,
+      category: null,
+      transactionDate,
+      settledDate: transactionDate,
+    });
+  });
+
+  result.transactions = assignExternalIds(parsed);
+  return result;
+}
+
+/**
+ * Work out a statement's format from its file name, falling back to its content
+ *
+ * @returns The format, or null if it can't be recognised
+ */
+export function detectStatementFormat(fileName: string, content: string): StatementFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+
+  if (extension === 'csv') return 'csv';
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+
+  const start = content.replace(/^\uFEFF/, '').trimStart();
+  if (/^OFXHEADER|^<\?xml[\s\S]*<OFX>|^<OFX>/i.test(start)) return 'ofx';
+  if (/^!Type:/i.test(start)) return 'qif';
+
+  return null;
+}
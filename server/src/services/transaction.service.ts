@@ -6,8 +6,9 @@ export class TransactionService {
    * Create a transaction with optional splits.
    * If splits are not provided, they will be auto-generated from property ownership.
    * Properties without owners will create transactions without splits (backward compatible).
+   * recurringTransactionId links transactions created from a recurring template.
    */
-  async createTransaction(data: TransactionWithSplits) {
+  async createTransaction(data: TransactionWithSplits & { recurringTransactionId?: string | null }) {
     const { paidByUserId, splits: providedSplits, ...transactionData } = data;
 
     // Check if property has owners
@@ -1,3 +1,4 @@
+import type { Prisma } from '@prisma/client';
 import prisma from '../db/client.js';
 
 /**
@@ -5,6 +6,7 @@ import prisma from '../db/client.js';
  */
 const AUDITED_FIELDS = [
   'propertyId',
+  'unitId',
   'leaseId',
   'type',
   'category',
@@ -13,6 +15,11 @@ const AUDITED_FIELDS = [
   'description',
 ] as const;
 
+/**
+ * User ID recorded for changes made by bank updates rather than a person
+ */
+export const BANK_AUDIT_USER_ID = 'bank';
+
 /**
  * Converts a value to a string for storage in audit log
  */
@@ -33,12 +40,14 @@ function valueToString(value: any): string | null {
  * @param userId - The ID of the user making the update
  * @param oldTransaction - The transaction data before the update
  * @param newData - The new data being applied to the transaction
+ * @param db - Prisma client, or the client of an enclosing database transaction
  */
 export async function createAuditLogs(
   transactionId: string,
   userId: string,
   oldTransaction: any,
-  newData: any
+  newData: any,
+  db: Prisma.TransactionClient = prisma
 ): Promise<void> {
   const auditEntries: Array<{
     transactionId: string;
@@ -76,7 +85,7 @@ export async function createAuditLogs(
 
   // Create all audit log entries in a single operation
   if (auditEntries.length > 0) {
-    await prisma.transactionAuditLog.createMany({
+    await db.transactionAuditLog.createMany({
       data: auditEntries,
     });
   }
@@ -0,0 +1,165 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../db/client.js';
+import type {
+  CreateTransactionCategory,
+  UpdateTransactionCategory,
+} from '../../../shared/validation/transactionCategory.validation.js';
+
+/**
+ * Categories the server writes itself (rent ledger payments, deposit deductions).
+ * They cannot be renamed or archived.
+ */
+export const PROTECTED_CATEGORIES = ['Rent', 'Security Deposit'];
+
+export interface CategoryFilters {
+  type?: string;
+  includeArchived?: boolean;
+}
+
+type CategoryError = { status: number; error: string } | null;
+
+export class TransactionCategoryService {
+  /**
+   * List categories in display order, hiding archived ones unless asked for.
+   */
+  async listCategories(filters: CategoryFilters = {}) {
+    const where: Prisma.TransactionCategoryWhereInput = {};
+
+    if (filters.type) {
+      where.type = filters.type;
+    }
+
+    if (!filters.includeArchived) {
+      where.isArchived = false;
+    }
+
+    return prisma.transactionCategory.findMany({
+      where,
+      orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  /**
+   * Check a category exists and, when a type is given, that it belongs to that type.
+   * Archived categories are rejected unless allowArchived is set, so records that
+   * already use one can keep it. Returns an error response body, or null when valid.
+   */
+  async validateCategory(
+    name: string,
+    type: string | null,
+    options: { allowArchived?: boolean } = {}
+  ): Promise<CategoryError> {
+    const category = await prisma.transactionCategory.findUnique({
+      where: { name },
+    });
+
+    if (!category) {
+      return { status: 400, error: `Unknown category: ${name}` };
+    }
+
+    if (type && category.type !== type) {
+      return { status: 400, error: 'Category must match the transaction type' };
+    }
+
+    if (category.isArchived && !options.allowArchived) {
+      return { status: 400, error: `Category is archived: ${name}` };
+    }
+
+    return null;
+  }
+
+  /**
+   * Check a parent category can hold the given category. Categories nest one level
+   * deep and a child always has its parent's type. Returns an error response body,
+   * or null when valid.
+   */
+  async validateParent(parentId: string, type: string, categoryId: string | null = null): Promise<CategoryError> {
+    if (parentId === categoryId) {
+      return { status: 400, error: 'A category cannot be its own parent' };
+    }
+
+    const parent = await prisma.transactionCategory.findUnique({
+      where: { id: parentId },
+    });
+
+    if (!parent) {
+      return { status: 404, error: 'Parent category not found' };
+    }
+
+    if (parent.parentId) {
+      return { status: 400, error: 'Parent category cannot itself be a subcategory' };
+    }
+
+    if (parent.type !== type) {
+      return { status: 400, error: 'Parent category must have the same type' };
+    }
+
+    if (categoryId) {
+      const childCount = await prisma.transactionCategory.count({
+        where: { parentId: categoryId },
+      });
+
+      if (childCount > 0) {
+        return { status: 400, error: 'A category with subcategories cannot be moved under another category' };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Create a category at the end of the display order.
+   */
+  async createCategory(data: CreateTransactionCategory) {
+    const last = await prisma.transactionCategory.findFirst({
+      orderBy: { sortOrder: 'desc' },
+    });
+
+    return prisma.transactionCategory.create({
+      data: {
+        ...data,
+        sortOrder: last ? last.sortOrder + 1 : 0,
+      },
+    });
+  }
+
+  /**
+   * Update a category. Transactions, pending transactions, matching rules and
+   * recurring templates store the category by name, so a rename is carried
+   * across to them in the same database transaction.
+   */
+  async updateCategory(id: string, currentName: string, data: Omit<UpdateTransactionCategory, 'id'>) {
+    return prisma.$transaction(async (tx) => {
+      const category = await tx.transactionCategory.update({
+        where: { id },
+        data,
+      });
+
+      if (data.name && data.name !== currentName) {
+        await tx.transaction.updateMany({
+          where: { category: currentName },
+          data: { category: data.name },
+        });
+
+        await tx.pendingTransaction.updateMany({
+          where: { category: currentName },
+          data: { category: data.name },
+        });
+
+        await tx.matchingRule.updateMany({
+          where: { category: currentName },
+          data: { category: data.name },
+        });
+
+        await tx.recurringTransaction.updateMany({
+          where: { category: currentName },
+          data: { category: data.name },
+        });
+      }
+
+      return category;
+    });
+  }
+}
+
+export const transactionCategoryService = new TransactionCategoryService();
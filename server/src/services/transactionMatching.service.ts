@@ -0,0 +1,158 @@
+import type { Transaction } from '@prisma/client';
+import prisma from '../db/client.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far either side of the bank date a hand-keyed transaction can be dated
+const MATCH_WINDOW_DAYS = 5;
+
+type MatchingError = { status: number; error: string };
+
+/**
+ * The parts of a bank transaction needed to look for manual matches
+ */
+export interface BankTransactionMatchInput {
+  amount: number;
+  transactionDate: Date;
+}
+
+export interface MatchCandidate {
+  id: string;
+  propertyId: string;
+  propertyName: string;
+  type: string;
+  category: string;
+  amount: number;
+  transactionDate: Date;
+  description: string;
+  /** Days between the manual and bank dates */
+  daysApart: number;
+}
+
+/**
+ * Manual transactions are entered as positive pounds; bank amounts are signed
+ * minor units. Express a manual amount the way its bank transaction would.
+ */
+export function toBankAmount(manualAmount: number, bankAmount: number): number {
+  return Math.sign(bankAmount) * Math.round(manualAmount * 100);
+}
+
+export class TransactionMatchingService {
+  /**
+   * Manual transactions that may be the same payment as a bank transaction:
+   * not imported, not already linked, same amount in the same direction (money
+   * in is Income, money out Expense), and dated within a few days. Closest
+   * dates first.
+   */
+  async findCandidates(
+    bankTransaction: BankTransactionMatchInput,
+    propertyId?: string | null
+  ): Promise<MatchCandidate[]> {
+    const windowMs = MATCH_WINDOW_DAYS * DAY_MS;
+    const bankTime = bankTransaction.transactionDate.getTime();
+
+    const transactions = await prisma.transaction.findMany({
+      where: {
+        isImported: false,
+        bankTransactionId: null,
+        type: bankTransaction.amount >= 0 ? 'Income' : 'Expense',
+        amount: Math.abs(bankTransaction.amount) / 100,
+        transactionDate: {
+          gte: new Date(bankTime - windowMs),
+          lte: new Date(bankTime + windowMs),
+        },
+        ...(propertyId ? { propertyId } : {}),
+      },
+      include: { property: { select: { name: true } } },
+    });
+
+    return transactions
+      .map((transaction) => ({
+        id: transaction.id,
+        propertyId: transaction.propertyId,
+        propertyName: transaction.property.name,
+        type: transaction.type,
+        category: transaction.category,
+        amount: transaction.amount,
+        transactionDate: transaction.transactionDate,
+        description: transaction.description,
+        daysApart: Math.round(Math.abs(transaction.transactionDate.getTime() - bankTime) / DAY_MS),
+      }))
+      .sort((a, b) => a.daysApart - b.daysApart);
+  }
+
+  /**
+   * Candidates for the bank transaction behind a pending transaction, limited
+   * to its property once one has been chosen
+   */
+  async findCandidatesForPending(pendingTransactionId: string): Promise<MatchCandidate[] | MatchingError> {
+    const pending = await prisma.pendingTransaction.findUnique({
+      where: { id: pendingTransactionId },
+      include: { bankTransaction: true },
+    });
+
+    if (!pending) {
+      return { status: 404, error: 'Pending transaction not found' };
+    }
+
+    return this.findCandidates(pending.bankTransaction, pending.propertyId);
+  }
+
+  /**
+   * Resolve a pending transaction by linking its bank transaction to an
+   * existing manual transaction, instead of creating a second one
+   */
+  async linkToExisting(
+    pendingTransactionId: string,
+    transactionId: string,
+    userId: string
+  ): Promise<Transaction | MatchingError> {
+    const pending = await prisma.pendingTransaction.findUnique({
+      where: { id: pendingTransactionId },
+      include: { bankTransaction: { select: { reversedAt: true } } },
+    });
+
+    if (!pending) {
+      return { status: 404, error: 'Pending transaction not found' };
+    }
+
+    if (pending.reviewedAt) {
+      return { status: 400, error: 'This pending transaction has already been reviewed' };
+    }
+
+    if (pending.bankTransaction.reversedAt) {
+      return { status: 400, error: 'The bank reversed this transaction, so it cannot be linked' };
+    }
+
+    const transaction = await prisma.transaction.findUnique({ where: { id: transactionId } });
+
+    if (!transaction) {
+      return { status: 404, error: 'Transaction not found' };
+    }
+
+    if (transaction.isImported || transaction.bankTransactionId) {
+      return { status: 400, error: 'Transaction is already linked to a bank transaction' };
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const linked = await tx.transaction.update({
+        where: { id: transactionId },
+        data: { bankTransactionId: pending.bankTransactionId },
+      });
+
+      await tx.bankTransaction.update({
+        where: { id: pending.bankTransactionId },
+        data: { transactionId },
+      });
+
+      await tx.pendingTransaction.update({
+        where: { id: pendingTransactionId },
+        data: { reviewedAt: new Date(), reviewedBy: userId },
+      });
+
+      return linked;
+    });
+  }
+}
+
+export const transactionMatchingService = new TransactionMatchingService();
@@ -1,9 +1,14 @@
 import prisma from '../db/client.js';
 import { checkForDuplicate } from './duplicateDetection.js';
-import { validateTypeCategoryCombo } from '../utils/transactionValidation.js';
-import { evaluateRules, type RuleEvaluationResult } from './ruleEvaluationEngine.js';
+import { transactionCategoryService } from './transactionCategory.service.js';
+import { evaluateRules, type MatchingRuleWithSplits, type RuleEvaluationResult } from './ruleEvaluationEngine.js';
+import transactionService from './transaction.service.js';
+import { createAuditLogs, BANK_AUDIT_USER_ID } from './transactionAudit.service.js';
+import { transactionMatchingService } from './transactionMatching.service.js';
+import { validateRuleAssignments } from './matchingRules.js';
+import { ruleHitService } from './ruleHits.service.js';
 import type { MonzoTransaction } from './monzo/types.js';
-import type { BankTransaction } from '@prisma/client';
+import type { BankTransaction, PendingTransaction, Prisma, Transaction, TransactionSplit } from '@prisma/client';
 
 /**
  * Result of transaction processing operation
@@ -13,6 +18,8 @@ export interface ProcessTransactionsResult {
   processed: number;
   /** Number of duplicate transactions that were skipped */
   duplicatesSkipped: number;
+  /** Number of possible duplicates held for review (included in processed) */
+  possibleDuplicates: number;
   /** Array of errors that occurred during processing */
   errors: Array<{
     transactionId: string;
@@ -20,99 +27,160 @@ export interface ProcessTransactionsResult {
   }>;
 }
 
+/**
+ * Result of processing updates to previously received transactions
+ */
+export interface ProcessTransactionUpdatesResult extends ProcessTransactionsResult {
+  /** Number of existing transactions that changed (included in processed) */
+  updated: number;
+}
+
+/**
+ * Provider-neutral bank transaction, as fed into the processing pipeline.
+ * Amounts are in minor currency units (e.g., pence for GBP), matching Monzo.
+ */
+export interface BankTransactionInput {
+  /** Provider transaction ID, unique within the bank account */
+  externalId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  counterpartyName: string | null;
+  reference: string | null;
+  merchant: string | null;
+  category: string | null;
+  transactionDate: Date;
+  settledDate: Date | null;
+  /** Set when the bank declined or reversed the transaction */
+  declineReason?: string | null;
+}
+
+/**
+ * Convert a Monzo API transaction to the provider-neutral input shape
+ */
+export function fromMonzoTransaction(monzoTx: MonzoTransaction): BankTransactionInput {
+  return {
+    externalId: monzoTx.id,
+    amount: monzoTx.amount,
+    currency: monzoTx.currency,
+    description: monzoTx.description,
+    counterpartyName: monzoTx.counterparty?.name ?? null,
+    reference: monzoTx.notes || null,
+    merchant: monzoTx.merchant?.name ?? null,
+    category: monzoTx.category ?? null,
+    transactionDate: new Date(monzoTx.created),
+    settledDate: monzoTx.settled ? new Date(monzoTx.settled) : null,
+    declineReason: monzoTx.decline_reason ?? null,
+  };
+}
+
 /**
  * Process Monzo transactions and store them in the database
  *
- * This is a unified transaction processing pipeline that handles both:
- * - Single transactions from webhook payloads
- * - Multiple transactions from manual sync API responses
+ * Handles both single transactions from webhook payloads and multiple
+ * transactions from manual sync API responses.
+ *
+ * @param monzoTransactions - Array of Monzo transaction objects from API
+ * @param bankAccountId - ID of the bank account these transactions belong to
+ * @returns Processing result with counts and any errors encountered
+ */
+export async function processTransactions(
+  monzoTransactions: MonzoTransaction[],
+  bankAccountId: string
+): Promise<ProcessTransactionsResult> {
+  return processBankTransactions(monzoTransactions.map(fromMonzoTransaction), bankAccountId);
+}
+
+/**
+ * Process bank transactions from any source and store them in the database
+ *
+ * This is the unified transaction processing pipeline shared by Monzo
+ * (webhooks and syncs) and statement file imports.
  *
  * Processing steps for each transaction:
  * 1. Check for duplicates using checkForDuplicate
- * 3. If not duplicate: create BankTransaction record with all fields
- * 4. Evaluate matching rules to determine propertyId, type, and category
+ * 2. If an exact duplicate (same externalId): skip and count it
+ * 3. Otherwise: create BankTransaction record with all fields
+ *    (declined transactions are stored as reversed and go no further;
+ *    fuzzy duplicates are held for review and go no further until kept)
+ * 4. Evaluate matching rules to determine propertyId, type, and category,
+ *    recording which rules supplied them
  * 5. If fully matched and valid: create Transaction record
  * 6. If partially matched or unmatched: create PendingTransaction record
- * 7. If duplicate: skip and count it
  *
  * Error handling: Continue processing remaining transactions if one fails.
  * Each transaction is processed independently (partial success allowed).
  *
- * @param monzoTransactions - Array of Monzo transaction objects from API
+ * @param transactions - Transactions to process
  * @param bankAccountId - ID of the bank account these transactions belong to
  * @returns Processing result with counts and any errors encountered
  */
-export async function processTransactions(
-  monzoTransactions: MonzoTransaction[],
+export async function processBankTransactions(
+  transactions: BankTransactionInput[],
   bankAccountId: string
 ): Promise<ProcessTransactionsResult> {
   const result: ProcessTransactionsResult = {
     processed: 0,
     duplicatesSkipped: 0,
+    possibleDuplicates: 0,
     errors: [],
   };
 
   // Fetch matching rules (account-specific + global) once for efficiency
-  const matchingRules = await prisma.matchingRule.findMany({
-    where: {
-      OR: [
-        { bankAccountId: bankAccountId },
-        { bankAccountId: null }, // Global rules
-      ],
-    },
-    orderBy: [
-      // Account-specific rules should be evaluated before global rules
-      { bankAccountId: 'desc' }, // Non-null (account-specific) comes before null (global)
-      { priority: 'asc' },
-    ],
-  });
+  const matchingRules = await findMatchingRules(bankAccountId);
 
   // Process each transaction independently
-  for (const monzoTx of monzoTransactions) {
+  for (const input of transactions) {
     try {
       // Step 1: Check for duplicates
       const duplicateCheck = await checkForDuplicate({
         bankAccountId,
-        externalId: monzoTx.id,
-        amount: monzoTx.amount,
-        description: monzoTx.description,
-        transactionDate: new Date(monzoTx.created),
+        externalId: input.externalId,
+        amount: input.amount,
+        description: input.description,
+        transactionDate: input.transactionDate,
       });
 
-      // Step 2: Skip if duplicate
-      if (duplicateCheck.isDuplicate) {
+      // Step 2: Skip if the bank has sent this transaction before
+      if (duplicateCheck.matchType === 'exact') {
         result.duplicatesSkipped++;
         continue;
       }
 
+      // A lookalike may be a genuine repeat (e.g. two equal rent payments), so hold it for review
+      const possibleDuplicateOf = duplicateCheck.matchType === 'fuzzy' ? duplicateCheck.matchedTransaction : null;
+
       // Step 3: Create BankTransaction record
       const bankTransaction = await prisma.bankTransaction.create({
         data: {
           bankAccountId,
-          externalId: monzoTx.id,
-          amount: monzoTx.amount,
-          currency: monzoTx.currency,
-          description: monzoTx.description,
-          counterpartyName: monzoTx.counterparty?.name ?? null,
-          reference: monzoTx.notes || null,
-          merchant: monzoTx.merchant?.name ?? null,
-          category: monzoTx.category ?? null,
-          transactionDate: new Date(monzoTx.created),
-          settledDate: monzoTx.settled ? new Date(monzoTx.settled) : null,
+          ...input,
+          reversedAt: input.declineReason ? new Date() : null,
+          duplicateOfId: possibleDuplicateOf?.id ?? null,
+          duplicateStatus: possibleDuplicateOf ? 'possible' : null,
         },
       });
 
-      // Step 4: Evaluate matching rules
-      const ruleResult = evaluateRules(bankTransaction, matchingRules);
+      // Declined transactions never moved money, so they don't reach the ledger
+      if (bankTransaction.reversedAt) {
+        result.processed++;
+        continue;
+      }
+
+      if (possibleDuplicateOf) {
+        result.possibleDuplicates++;
+        result.processed++;
+        continue;
+      }
 
-      // Step 5: Create Transaction or PendingTransaction based on rule evaluation
-      await createTransactionOrPending(bankTransaction, ruleResult);
+      // Steps 4-6: Evaluate matching rules and post to the ledger or review queue
+      await postBankTransaction(bankTransaction, matchingRules);
 
       result.processed++;
     } catch (error) {
       // Record error but continue processing remaining transactions
       result.errors.push({
-        transactionId: monzoTx.id,
+        transactionId: input.externalId,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
     }
@@ -121,16 +189,61 @@ export async function processTransactions(
   return result;
 }
 
+/**
+ * Fetch the rules that apply to a bank account in evaluation order:
+ * account-specific rules before global rules, then by priority
+ *
+ * @param bankAccountId - ID of the bank account
+ */
+export async function findMatchingRules(bankAccountId: string): Promise<MatchingRuleWithSplits[]> {
+  return prisma.matchingRule.findMany({
+    where: {
+      OR: [
+        { bankAccountId: bankAccountId },
+        { bankAccountId: null }, // Global rules
+      ],
+    },
+    include: { splits: true },
+    orderBy: [
+      // Account-specific rules should be evaluated before global rules
+      { bankAccountId: 'desc' }, // Non-null (account-specific) comes before null (global)
+      { priority: 'asc' },
+    ],
+  });
+}
+
+/**
+ * Evaluate matching rules against a stored bank transaction, record which
+ * rules supplied its fields, and create its Transaction or PendingTransaction
+ *
+ * @param bankTransaction - The stored bank transaction
+ * @param matchingRules - The account's rules, from findMatchingRules
+ */
+export async function postBankTransaction(
+  bankTransaction: BankTransaction,
+  matchingRules: MatchingRuleWithSplits[]
+): Promise<void> {
+  // Step 4: Evaluate matching rules
+  const ruleResult = evaluateRules(bankTransaction, matchingRules);
+  await ruleHitService.record(bankTransaction.id, ruleResult);
+
+  // Step 5: Create Transaction or PendingTransaction based on rule evaluation
+  await createTransactionOrPending(bankTransaction, ruleResult);
+}
+
 /**
  * Create Transaction or PendingTransaction based on rule evaluation result
  *
  * Business logic:
  * - If fully matched (all 3 fields) AND valid: create Transaction
  * - Otherwise: create PendingTransaction
+ * - A fully matched transaction that may already have been keyed in by hand
+ *   also goes to PendingTransaction, so the reviewer can link it instead
  *
  * Validation:
  * - Property must exist
- * - Type/category combination must be valid
+ * - Category must exist, be active and match the type
+ * - Lease must be on the property, and the payer and split users must own it
  *
  * @param bankTransaction - The bank transaction to process
  * @param ruleResult - Result from rule evaluation engine
@@ -158,25 +271,31 @@ async function createTransactionOrPending(
     });
 
     // Validate type/category combination
-    const isValidCombination = validateTypeCategoryCombo(transactionType, ruleResult.category);
+    const categoryError = await transactionCategoryService.validateCategory(ruleResult.category, transactionType);
+    const isValidCombination = !categoryError;
 
-    isValid = !!propertyExists && isValidCombination;
+    // Validate lease, payer and splits against the property
+    const assignmentError = await validateRuleAssignments(ruleResult.propertyId, ruleResult);
+
+    isValid = !!propertyExists && isValidCombination && !assignmentError;
   }
 
-  if (isFullyMatched && isValid && ruleResult.propertyId && transactionType && ruleResult.category) {
+  // Leave possible duplicates of manual transactions for the reviewer to link
+  let hasManualMatch = false;
+
+  if (isValid) {
+    const candidates = await transactionMatchingService.findCandidates(bankTransaction, ruleResult.propertyId);
+    hasManualMatch = candidates.length > 0;
+  }
+
+  if (isFullyMatched && isValid && !hasManualMatch && ruleResult.propertyId && transactionType && ruleResult.category) {
     // Create Transaction
-    const transaction = await prisma.transaction.create({
-      data: {
-        propertyId: ruleResult.propertyId,
-        type: transactionType,
-        category: ruleResult.category,
-        amount: bankTransaction.amount, // Preserve sign as-is
-        transactionDate: bankTransaction.transactionDate,
-        description: bankTransaction.description,
-        isImported: true,
-        importedAt: new Date(),
-      },
-    });
+    const transaction = await createRuleTransaction(
+      prisma,
+      bankTransaction,
+      { ...ruleResult, propertyId: ruleResult.propertyId, category: ruleResult.category },
+      transactionType
+    );
 
     // Link BankTransaction to Transaction
     await prisma.bankTransaction.update({
@@ -189,6 +308,7 @@ async function createTransactionOrPending(
       data: {
         bankTransactionId: bankTransaction.id,
         propertyId: ruleResult.propertyId ?? null,
+        leaseId: (await isLeaseOnProperty(ruleResult)) ? ruleResult.leaseId : null,
         type: transactionType,
         category: ruleResult.category ?? null,
         transactionDate: bankTransaction.transactionDate,
@@ -203,3 +323,249 @@ async function createTransactionOrPending(
     });
   }
 }
+
+/**
+ * Create the ledger Transaction for a fully matched bank transaction, with the
+ * rules' lease and payer. Splits follow the rules' preset, or property
+ * ownership when there is none, so owner balances include the transaction.
+ *
+ * @param db - Prisma client, or the client of an enclosing database transaction
+ * @param bankTransaction - The bank transaction being posted
+ * @param match - Rule evaluation result with the required fields resolved
+ * @param type - Transaction type in database format (Income/Expense)
+ */
+export async function createRuleTransaction(
+  db: Prisma.TransactionClient,
+  bankTransaction: BankTransaction,
+  match: RuleEvaluationResult & { propertyId: string; category: string },
+  type: string
+): Promise<Transaction> {
+  const amount = bankTransaction.amount; // Preserve sign as-is
+
+  const shares =
+    match.splits ??
+    (
+      await db.propertyOwnership.findMany({
+        where: { propertyId: match.propertyId },
+      })
+    ).map((ownership) => ({ userId: ownership.userId, percentage: ownership.ownershipPercentage }));
+
+  return db.transaction.create({
+    data: {
+      propertyId: match.propertyId,
+      leaseId: match.leaseId ?? null,
+      type,
+      category: match.category,
+      amount,
+      transactionDate: bankTransaction.transactionDate,
+      description: bankTransaction.description,
+      paidByUserId: match.paidByUserId ?? null,
+      bankTransactionId: bankTransaction.id,
+      isImported: true,
+      importedAt: new Date(),
+      ...(shares.length > 0
+        ? {
+            splits: {
+              create: shares.map((share) => ({
+                userId: share.userId,
+                percentage: share.percentage,
+                amount: (amount * share.percentage) / 100,
+              })),
+            },
+          }
+        : {}),
+    },
+  });
+}
+
+/**
+ * Whether a rule result's lease can be carried onto a pending transaction
+ */
+export async function isLeaseOnProperty(ruleResult: RuleEvaluationResult): Promise<boolean> {
+  if (!ruleResult.leaseId || !ruleResult.propertyId) {
+    return false;
+  }
+
+  const lease = await prisma.lease.findUnique({
+    where: { id: ruleResult.leaseId },
+    select: { propertyId: true },
+  });
+  return lease?.propertyId === ruleResult.propertyId;
+}
+
+/**
+ * Process new versions of transactions the bank has already sent
+ *
+ * Banks update transactions after creating them: settlement sets settledDate
+ * and can change the amount (e.g. currency conversion), and a reversal or
+ * decline cancels the transaction. For each update:
+ * 1. If the transaction was never received, process it as new
+ * 2. If nothing changed, skip it as a duplicate
+ * 3. Update the BankTransaction record
+ * 4. Update the linked Transaction's amount (zero once reversed), recording the
+ *    change in its audit log, unless a locked reconciliation covers it, it
+ *    was keyed in by hand and linked to the bank transaction, or the bank
+ *    transaction was split into several
+ * 5. Flag an already-reviewed PendingTransaction for re-review when the amount
+ *    changed or the transaction was reversed
+ *
+ * @param transactions - Updated transactions
+ * @param bankAccountId - ID of the bank account these transactions belong to
+ * @returns Processing result with counts and any errors encountered
+ */
+export async function processBankTransactionUpdates(
+  transactions: BankTransactionInput[],
+  bankAccountId: string
+): Promise<ProcessTransactionUpdatesResult> {
+  const result: ProcessTransactionUpdatesResult = {
+    processed: 0,
+    duplicatesSkipped: 0,
+    possibleDuplicates: 0,
+    updated: 0,
+    errors: [],
+  };
+  const unseen: BankTransactionInput[] = [];
+
+  for (const input of transactions) {
+    try {
+      const existing = await prisma.bankTransaction.findUnique({
+        where: {
+          bankAccountId_externalId: { bankAccountId, externalId: input.externalId },
+        },
+        include: {
+          transaction: { include: { splits: true } },
+          ledgerTransactions: { select: { id: true } },
+          pendingTransaction: true,
+        },
+      });
+
+      if (!existing) {
+        unseen.push(input);
+        continue;
+      }
+
+      if (await applyBankTransactionUpdate(existing, input)) {
+        result.processed++;
+        result.updated++;
+      } else {
+        result.duplicatesSkipped++;
+      }
+    } catch (error) {
+      result.errors.push({
+        transactionId: input.externalId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  if (unseen.length > 0) {
+    const created = await processBankTransactions(unseen, bankAccountId);
+    result.processed += created.processed;
+    result.duplicatesSkipped += created.duplicatesSkipped;
+    result.possibleDuplicates += created.possibleDuplicates;
+    result.errors.push(...created.errors);
+  }
+
+  return result;
+}
+
+/**
+ * Apply one update to a stored bank transaction and whatever it produced
+ *
+ * @returns false if the update changed nothing
+ */
+async function applyBankTransactionUpdate(
+  existing: BankTransaction & {
+    transaction: (Transaction & { splits: TransactionSplit[] }) | null;
+    ledgerTransactions: Array<{ id: string }>;
+    pendingTransaction: PendingTransaction | null;
+  },
+  input: BankTransactionInput
+): Promise<boolean> {
+  const declineReason = input.declineReason ?? null;
+  // Monzo reverses some transactions by zeroing the amount rather than declining them
+  const isReversed = !!declineReason || (input.amount === 0 && existing.amount !== 0);
+  const newlyReversed = isReversed && !existing.reversedAt;
+  const amountChanged = input.amount !== existing.amount;
+
+  const changed =
+    newlyReversed ||
+    amountChanged ||
+    input.settledDate?.getTime() !== existing.settledDate?.getTime() ||
+    input.description !== existing.description ||
+    declineReason !== existing.declineReason;
+
+  if (!changed) {
+    return false;
+  }
+
+  // Step 3: Update the BankTransaction record
+  await prisma.bankTransaction.update({
+    where: { id: existing.id },
+    data: {
+      amount: input.amount,
+      description: input.description,
+      counterpartyName: input.counterpartyName,
+      reference: input.reference,
+      merchant: input.merchant,
+      category: input.category,
+      settledDate: input.settledDate,
+      declineReason,
+      ...(newlyReversed ? { reversedAt: new Date() } : {}),
+    },
+  });
+
+  // Step 4: Propagate the amount to the ledger
+  const ledgerAmount = isReversed || existing.reversedAt ? 0 : input.amount;
+  const ledgerTransaction = existing.transaction;
+
+  // Transactions in a locked reconciliation period keep their reconciled amount,
+  // and manual transactions and split parts keep what the reviewer entered
+  // (the review flag below covers them)
+  if (
+    ledgerTransaction?.isImported &&
+    existing.ledgerTransactions.length <= 1 &&
+    !existing.reconciliationId &&
+    ledgerTransaction.amount !== ledgerAmount
+  ) {
+    const update = {
+      amount: ledgerAmount,
+      // Keep each owner's share in proportion to the new amount
+      ...(ledgerTransaction.splits.length > 0
+        ? {
+            splits: ledgerTransaction.splits.map((split) => ({
+              userId: split.userId,
+              percentage: split.percentage,
+              amount: (ledgerAmount * split.percentage) / 100,
+            })),
+          }
+        : {}),
+    };
+
+    await createAuditLogs(ledgerTransaction.id, BANK_AUDIT_USER_ID, ledgerTransaction, update);
+    await transactionService.updateTransaction(ledgerTransaction.id, update);
+  }
+
+  // Step 5: Keep the review queue in step with the bank
+  const pending = existing.pendingTransaction;
+
+  if (pending?.reviewedAt && (newlyReversed || amountChanged)) {
+    const flagReason = newlyReversed
+      ? declineReason
+        ? `Declined by the bank: ${declineReason}`
+        : 'Reversed by the bank'
+      : `Amount changed from ${existing.amount} to ${input.amount}`;
+
+    await prisma.pendingTransaction.update({
+      where: { id: pending.id },
+      data: { flaggedAt: new Date(), flagReason },
+    });
+  } else if (pending && !pending.reviewedAt && input.description !== pending.description) {
+    await prisma.pendingTransaction.update({
+      where: { id: pending.id },
+      data: { description: input.description },
+    });
+  }
+
+  return true;
+}
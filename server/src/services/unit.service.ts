@@ -0,0 +1,179 @@
+import prisma from '../db/client.js';
+import { annualiseRent, rentInForce } from './rentLedger.service.js';
+
+export interface OccupancyLease {
+  id: string;
+  unitId: string | null;
+  startDate: Date;
+  endDate: Date | null;
+  rentAmount: number;
+  rentFrequency: string;
+  tenants: Array<{ id: string; name: string }>;
+}
+
+export interface UnitOccupancy {
+  unit: {
+    id: string;
+    name: string;
+    status: string;
+  };
+  occupied: boolean;
+  // Lease on this unit; null when vacant or let as part of a whole-property lease
+  lease: OccupancyLease | null;
+  // End date of the unit's most recent lease, when vacant
+  vacantSince: Date | null;
+}
+
+export interface PropertyOccupancy {
+  propertyId: string;
+  asOf: Date;
+  wholePropertyLease: OccupancyLease | null;
+  units: UnitOccupancy[];
+  summary: {
+    totalUnits: number;
+    occupiedUnits: number;
+    vacantUnits: number;
+    occupancyRate: number;
+    // Rent across all frequencies, annualised and as an average calendar month
+    annualRentRoll: number;
+    monthlyRentRoll: number;
+  };
+}
+
+const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class UnitService {
+  /**
+   * Check a unit exists and belongs to the given property.
+   * Returns an error response body, or null when the unit is valid.
+   */
+  async validateUnitForProperty(
+    unitId: string,
+    propertyId: string
+  ): Promise<{ status: number; error: string } | null> {
+    const unit = await prisma.unit.findUnique({
+      where: { id: unitId },
+    });
+
+    if (!unit) {
+      return { status: 404, error: 'Unit not found' };
+    }
+
+    if (unit.propertyId !== propertyId) {
+      return { status: 400, error: 'Unit does not belong to this property' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Occupancy roll-up for a property as at a given date.
+   *
+   * A unit is occupied when it has an Active lease covering asOf, or when the
+   * whole property is let on a lease without a unit.
+   */
+  async getPropertyOccupancy(propertyId: string, asOf: Date = new Date()): Promise<PropertyOccupancy> {
+    const property = await prisma.property.findUnique({
+      where: { id: propertyId },
+      include: {
+        units: { orderBy: { name: 'asc' } },
+      },
+    });
+
+    if (!property) {
+      throw new Error('Property not found');
+    }
+
+    const currentLeases = await prisma.lease.findMany({
+      where: {
+        propertyId,
+        status: 'Active',
+        startDate: { lte: asOf },
+        OR: [{ endDate: null }, { endDate: { gte: asOf } }],
+      },
+      include: {
+        tenant: true,
+        tenants: {
+          include: { tenant: true },
+          orderBy: [{ isLead: 'desc' }, { createdAt: 'asc' }],
+        },
+        rentChanges: true,
+      },
+      orderBy: { startDate: 'asc' },
+    });
+
+    const toOccupancyLease = (lease: (typeof currentLeases)[number]): OccupancyLease => {
+      const tenants = lease.tenants.length > 0 ? lease.tenants.map((t) => t.tenant) : [lease.tenant];
+      return {
+        id: lease.id,
+        unitId: lease.unitId,
+        startDate: lease.startDate,
+        endDate: lease.endDate,
+        rentAmount: rentInForce(lease, asOf),
+        rentFrequency: lease.rentFrequency,
+        tenants: tenants.map((t) => ({ id: t.id, name: `${t.firstName} ${t.lastName}` })),
+      };
+    };
+
+    const wholePropertyLease = currentLeases.find((l) => l.unitId === null);
+
+    // Most recent past lease per unit, to report how long vacant units have been empty
+    const pastLeases = await prisma.lease.findMany({
+      where: {
+        unitId: { in: property.units.map((u) => u.id) },
+        status: { in: ['Active', 'Expired', 'Terminated'] },
+        endDate: { lt: asOf },
+      },
+      orderBy: { endDate: 'desc' },
+    });
+
+    const units: UnitOccupancy[] = property.units.map((unit) => {
+      const unitLease = currentLeases.find((l) => l.unitId === unit.id);
+      const occupied = !!unitLease || !!wholePropertyLease;
+      const lastLease = pastLeases.find((l) => l.unitId === unit.id);
+
+      return {
+        unit: {
+          id: unit.id,
+          name: unit.name,
+          status: unit.status,
+        },
+        occupied,
+        lease: unitLease ? toOccupancyLease(unitLease) : null,
+        vacantSince: occupied ? null : (lastLease?.endDate ?? null),
+      };
+    });
+
+    const occupiedUnits = units.filter((u) => u.occupied).length;
+    const totalUnits = units.length;
+
+    // Properties without units are a single lettable space
+    const occupancyRate =
+      totalUnits > 0
+        ? Math.round((occupiedUnits / totalUnits) * 10000) / 100
+        : currentLeases.length > 0
+          ? 100
+          : 0;
+
+    const annualRentRoll = roundMoney(
+      currentLeases.reduce((sum, l) => sum + annualiseRent(rentInForce(l, asOf), l.rentFrequency), 0)
+    );
+
+    return {
+      propertyId,
+      asOf,
+      wholePropertyLease: wholePropertyLease ? toOccupancyLease(wholePropertyLease) : null,
+      units,
+      summary: {
+        totalUnits,
+        occupiedUnits,
+        vacantUnits: totalUnits - occupiedUnits,
+        occupancyRate,
+        annualRentRoll,
+        monthlyRentRoll: roundMoney(annualRentRoll / 12),
+      },
+    };
+  }
+}
+
+export const unitService = new UnitService();
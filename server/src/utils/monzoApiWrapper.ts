@@ -1,5 +1,5 @@
 /**
- * Monzo API wrapper with retry logic and automatic token refresh
+ * Bank provider API wrapper with retry logic and automatic token refresh
  *
  * This wrapper handles:
  * - Exponential backoff retry on network errors
@@ -10,42 +10,35 @@
 
 import { retryWithBackoff } from './retry.js';
 import { refreshBankAccountToken } from './tokenRefresh.js';
-import { getTransactions as monzoGetTransactions } from '../services/monzo/client.js';
-import type { MonzoTransactionsResponse } from '../services/monzo/types.js';
+import type { BankProvider, BankTransactionPage } from '../services/bankProviders/index.js';
 
 /**
- * Fetch transactions from Monzo API with retry logic and token refresh
+ * Fetch a page of transactions from a bank provider with retry logic and token refresh
  *
+ * @param provider - The bank account's provider
  * @param bankAccountId - Database ID of the bank account
- * @param accountId - Monzo account ID
+ * @param accountId - Provider account ID
  * @param accessToken - Current access token (will be refreshed if expired)
- * @param since - RFC3339 timestamp to fetch transactions from
- * @param before - RFC3339 timestamp to fetch transactions before (optional, for pagination)
- * @param limit - Maximum number of transactions to return
- * @returns Transactions response and potentially refreshed access token
+ * @param since - Fetch transactions created on or after this date
+ * @param cursor - nextCursor from the previous page (optional, for pagination)
+ * @returns Transaction page and potentially refreshed access token
  */
 export async function fetchTransactionsWithRetry(
+  provider: BankProvider,
   bankAccountId: string,
   accountId: string,
   accessToken: string,
-  since: string,
-  before?: string,
-  limit: number = 100
-): Promise<{ response: MonzoTransactionsResponse; accessToken: string }> {
+  since: Date,
+  cursor?: string
+): Promise<{ page: BankTransactionPage; accessToken: string }> {
   let currentAccessToken = accessToken;
   let tokenRefreshed = false;
 
-  const fetchFn = async (): Promise<{ response: MonzoTransactionsResponse; accessToken: string }> => {
+  const fetchFn = async (): Promise<{ page: BankTransactionPage; accessToken: string }> => {
     try {
-      const response = await monzoGetTransactions(
-        currentAccessToken,
-        accountId,
-        since,
-        before,
-        limit
-      );
+      const page = await provider.fetchTransactions(currentAccessToken, accountId, since, cursor);
 
-      return { response, accessToken: currentAccessToken };
+      return { page, accessToken: currentAccessToken };
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } catch (error: any) {
       // Check if it's a 401 error (token expired)
@@ -57,15 +50,9 @@ export async function fetchTransactionsWithRetry(
         tokenRefreshed = true;
 
         // Retry with new token
-        const response = await monzoGetTransactions(
-          currentAccessToken,
-          accountId,
-          since,
-          before,
-          limit
-        );
-
-        return { response, accessToken: currentAccessToken };
+        const page = await provider.fetchTransactions(currentAccessToken, accountId, since, cursor);
+
+        return { page, accessToken: currentAccessToken };
       }
 
       // Re-throw other errors for retry logic to handle
@@ -79,7 +66,7 @@ export async function fetchTransactionsWithRetry(
     maxDelay: 30000, // 30 seconds
     onRetry: (error: Error, attempt: number, delay: number) => {
       console.log(
-        `Retrying Monzo API call (attempt ${attempt}/3) after ${delay}ms due to error: ${error.message}`
+        `Retrying ${provider.displayName} API call (attempt ${attempt}/3) after ${delay}ms due to error: ${error.message}`
       );
     },
   });
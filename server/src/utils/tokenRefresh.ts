@@ -1,10 +1,10 @@
 /**
- * Token refresh utility for Monzo OAuth tokens
+ * Token refresh utility for bank provider OAuth tokens
  *
  * Handles automatic token refresh when access tokens expire (401 errors)
  */
 
-import { refreshAccessToken } from '../services/monzo/client.js';
+import { getBankProvider } from '../services/bankProviders/index.js';
 import { encryptToken } from '../services/encryption.js';
 import prisma from '../db/client.js';
 
@@ -29,37 +29,29 @@ export async function refreshBankAccountToken(bankAccountId: string): Promise<st
     throw new Error('No refresh token available. Please reconnect your bank account.');
   }
 
-  // Get OAuth credentials from environment
-  const clientId = process.env.MONZO_CLIENT_ID;
-  const clientSecret = process.env.MONZO_CLIENT_SECRET;
-
-  if (!clientId || !clientSecret) {
-    throw new Error('Monzo OAuth configuration missing');
-  }
-
   // Decrypt refresh token
   const { decryptToken } = await import('../services/encryption.js');
   const refreshToken = decryptToken(bankAccount.refreshToken);
 
   console.log(`Refreshing access token for bank account ${bankAccountId}`);
 
-  // Call Monzo API to refresh token
-  const tokenResponse = await refreshAccessToken(refreshToken, clientId, clientSecret);
+  // Ask the account's provider for new tokens
+  const tokenResponse = await getBankProvider(bankAccount.provider).refreshToken(refreshToken);
 
   // Calculate new expiry time
-  const expiresAt = new Date(Date.now() + tokenResponse.expires_in * 1000);
+  const expiresAt = new Date(Date.now() + tokenResponse.expiresIn * 1000);
 
   // Encrypt new access token
-  const encryptedAccessToken = encryptToken(tokenResponse.access_token);
+  const encryptedAccessToken = encryptToken(tokenResponse.accessToken);
 
   // Update database with new token
-  // Note: Monzo may return a new refresh token, so update that too if present
+  // Note: providers may return a new refresh token, so update that too if present
   await prisma.bankAccount.update({
     where: { id: bankAccountId },
     data: {
       accessToken: encryptedAccessToken,
-      refreshToken: tokenResponse.refresh_token
-        ? encryptToken(tokenResponse.refresh_token)
+      refreshToken: tokenResponse.refreshToken
+        ? encryptToken(tokenResponse.refreshToken)
         : bankAccount.refreshToken, // Keep existing if not provided
       tokenExpiresAt: expiresAt,
     },
@@ -67,7 +59,7 @@ export async function refreshBankAccountToken(bankAccountId: string): Promise<st
 
   console.log(`Successfully refreshed access token for bank account ${bankAccountId}`);
 
-  return tokenResponse.access_token;
+  return tokenResponse.accessToken;
 }
 
 /**
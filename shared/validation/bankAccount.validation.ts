@@ -8,12 +8,65 @@ export const SyncStatusSchema = z.enum([
   'error',
 ]);
 
+// Statement file formats accepted for file imports
+export const StatementFormatSchema = z.enum(['csv', 'ofx', 'qif']);
+
+// Date formats found in bank CSV and QIF exports
+export const StatementDateFormatSchema = z.enum([
+  'DD/MM/YYYY',
+  'MM/DD/YYYY',
+  'YYYY-MM-DD',
+  'DD MMM YYYY',
+]);
+
+// CSV Column Mapping Schema
+// Column names refer to the CSV header row. Statements either have a signed
+// amount column, or separate money-in (credit) and money-out (debit) columns.
+export const CsvColumnMappingSchema = z
+  .object({
+    dateColumn: z.string().min(1, 'Date column is required'),
+    dateFormat: StatementDateFormatSchema,
+    descriptionColumn: z.string().min(1, 'Description column is required'),
+    amountColumn: z.string().min(1).optional(),
+    creditColumn: z.string().min(1).optional(),
+    debitColumn: z.string().min(1).optional(),
+    referenceColumn: z.string().min(1).optional(),
+    counterpartyColumn: z.string().min(1).optional(),
+    // Lines before the header row (e.g. account details some banks put at the top)
+    skipRows: z.number().int().min(0).default(0),
+  })
+  .refine((data) => !!data.amountColumn || (!!data.creditColumn && !!data.debitColumn), {
+    message: 'Either an amount column or both credit and debit columns are required',
+    path: ['amountColumn'],
+  });
+
+// Create BankAccount Schema for statement file imports
+// Monzo accounts are created through the OAuth flow instead
+export const CreateImportBankAccountSchema = z.object({
+  accountName: z.string().min(1, 'Account name is required'),
+  accountType: z.string().min(1, 'Account type is required').default('current'),
+});
+
+// Statement Import Options Schema (multipart form fields sent with the file)
+export const StatementImportOptionsSchema = z.object({
+  format: StatementFormatSchema.optional(),
+  dateFormat: StatementDateFormatSchema.optional(),
+  mapping: CsvColumnMappingSchema.optional(),
+  saveMapping: z.boolean().default(false),
+});
+
 // Update BankAccount Schema (only updatable fields)
 export const UpdateBankAccountSchema = z.object({
   id: z.string().uuid(),
   accountName: z.string().min(1, 'Account name is required').optional(),
   syncEnabled: z.boolean().optional(),
   syncFromDate: z.coerce.date().optional(),
+  syncIntervalMinutes: z
+    .number()
+    .int('Sync interval must be a whole number of minutes')
+    .min(15, 'Sync interval must be at least 15 minutes')
+    .max(10080, 'Sync interval must be at most 7 days')
+    .optional(),
 });
 
 // Full BankAccount Schema (with all fields, excluding sensitive tokens)
@@ -29,13 +82,39 @@ export const BankAccountResponseSchema = z.object({
   syncFromDate: z.date(),
   lastSyncAt: z.date().nullable(),
   lastSyncStatus: SyncStatusSchema,
+  syncIntervalMinutes: z.number().int(),
+  nextScheduledSyncAt: z.date().nullable(),
+  syncFailureCount: z.number().int(),
   webhookId: z.string().nullable(),
   webhookUrl: z.string().nullable(),
+  csvMapping: CsvColumnMappingSchema.nullable(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
+// Create BankReconciliation Schema
+// Balances are in minor units (pence), like bank transaction amounts. The
+// opening balance defaults to the previous reconciliation's statement balance,
+// or zero for an account's first reconciliation.
+export const CreateBankReconciliationSchema = z
+  .object({
+    statementDate: z.coerce.date(),
+    statementBalance: z.number(),
+    openingBalance: z.number().optional(),
+    notes: z.string().max(1000, 'Notes must be 1000 characters or fewer').optional(),
+  })
+  .refine((data) => data.statementDate <= new Date(), {
+    message: 'Statement date cannot be in the future',
+    path: ['statementDate'],
+  });
+
 // Inferred TypeScript types
 export type SyncStatus = z.infer<typeof SyncStatusSchema>;
+export type StatementFormat = z.infer<typeof StatementFormatSchema>;
+export type StatementDateFormat = z.infer<typeof StatementDateFormatSchema>;
+export type CsvColumnMapping = z.infer<typeof CsvColumnMappingSchema>;
+export type CreateImportBankAccount = z.infer<typeof CreateImportBankAccountSchema>;
+export type StatementImportOptions = z.infer<typeof StatementImportOptionsSchema>;
 export type UpdateBankAccount = z.infer<typeof UpdateBankAccountSchema>;
 export type BankAccountResponse = z.infer<typeof BankAccountResponseSchema>;
+export type CreateBankReconciliation = z.infer<typeof CreateBankReconciliationSchema>;
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+// Government-authorised tenancy deposit protection schemes
+export const DepositSchemeSchema = z.enum(['DPS', 'mydeposits', 'TDS']);
+
+// A single itemised deduction from a returned deposit
+export const DepositDeductionSchema = z.object({
+  description: z.string().min(1, 'Deduction description is required'),
+  amount: z.number().positive('Deduction amount must be positive'),
+});
+
+// Return Deposit Schema - deductions are retained, the balance goes back to the tenant
+export const ReturnDepositSchema = z.object({
+  returnDate: z.coerce.date(),
+  deductions: z.array(DepositDeductionSchema).default([]),
+});
+
+// Query Params Schema for the deposit compliance check
+export const DepositQueryParamsSchema = z.object({
+  as_of: z.coerce.date().optional(),
+});
+
+// Inferred TypeScript types
+export type DepositScheme = z.infer<typeof DepositSchemeSchema>;
+export type DepositDeduction = z.infer<typeof DepositDeductionSchema>;
+export type ReturnDeposit = z.infer<typeof ReturnDepositSchema>;
+export type DepositQueryParams = z.infer<typeof DepositQueryParamsSchema>;
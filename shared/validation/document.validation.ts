@@ -7,7 +7,7 @@ export const AllowedMimeTypesSchema = z.enum(['image/jpeg', 'image/png', 'applic
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
 // Entity types for document association
-export const EntityTypeSchema = z.enum(['Property', 'Tenant', 'Lease', 'Transaction']);
+export const EntityTypeSchema = z.enum(['Property', 'Tenant', 'Lease', 'Transaction', 'Guarantor']);
 
 // Base Document Schema (common fields)
 const baseDocumentSchema = {
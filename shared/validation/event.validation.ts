@@ -14,6 +14,7 @@ export const EventTypeSchema = z.enum([
 // Base Event Schema (common fields)
 const baseEventSchema = {
   propertyId: z.string().uuid('Invalid property ID'),
+  unitId: z.string().uuid('Invalid unit ID').optional().nullable(),
   eventType: EventTypeSchema,
   title: z.string().min(1, 'Title is required'),
   description: z.string().optional().nullable(),
@@ -25,6 +26,7 @@ const baseEventSchema = {
 // Create Event Schema (without id, timestamps)
 export const CreateEventSchema = z.object({
   propertyId: baseEventSchema.propertyId,
+  unitId: baseEventSchema.unitId,
   eventType: baseEventSchema.eventType,
   title: baseEventSchema.title,
   description: baseEventSchema.description,
@@ -37,6 +39,7 @@ export const CreateEventSchema = z.object({
 export const UpdateEventSchema = z.object({
   id: z.string().uuid(),
   propertyId: z.string().uuid('Invalid property ID').optional(),
+  unitId: z.string().uuid('Invalid unit ID').optional().nullable(),
   eventType: EventTypeSchema.optional(),
   title: z.string().min(1, 'Title is required').optional(),
   description: z.string().optional().nullable(),
@@ -56,6 +59,7 @@ export const EventSchema = z.object({
 // Event Query Parameters Schema (for filtering)
 export const EventQueryParamsSchema = z.object({
   propertyId: z.string().uuid('Invalid property ID').optional(),
+  unitId: z.string().uuid('Invalid unit ID').optional(),
   eventType: EventTypeSchema.optional(),
   completed: z
     .string()
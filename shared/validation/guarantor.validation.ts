@@ -0,0 +1,65 @@
+import { z } from 'zod';
+
+// UK Phone validation - lenient to accept various formats
+// Accepts: +44 formats, 0 formats, with/without spaces
+const ukPhoneRegex = /^(\+44\s?|0)?(\d\s?){9,10}$/;
+
+// Guarantor Relationship Enum (to the tenant they guarantee)
+export const GuarantorRelationshipSchema = z.enum(['Parent', 'Relative', 'Employer', 'Friend', 'Other']);
+
+// Base Guarantor Schema (common fields)
+const baseGuarantorSchema = {
+  tenantId: z.string().uuid('Invalid tenant ID'),
+  firstName: z.string().min(1, 'First name is required'),
+  lastName: z.string().min(1, 'Last name is required'),
+  email: z.string().email('Invalid email format'),
+  phone: z.string().regex(ukPhoneRegex, 'Invalid UK phone number format'),
+  address: z.string().optional().nullable(),
+  relationship: GuarantorRelationshipSchema,
+  // Null = unlimited liability
+  liabilityCap: z.number().positive('Liability cap must be positive').optional().nullable(),
+  deedDocumentId: z.string().uuid('Invalid document ID').optional().nullable(),
+  notes: z.string().optional().nullable(),
+};
+
+// Create Guarantor Schema (without id, timestamps) - must guarantee at least one lease
+export const CreateGuarantorSchema = z.object({
+  ...baseGuarantorSchema,
+  leaseIds: z.array(z.string().uuid('Invalid lease ID')).min(1, 'At least one lease is required'),
+});
+
+// Update Guarantor Schema (all fields optional except id)
+export const UpdateGuarantorSchema = z.object({
+  id: z.string().uuid(),
+  firstName: z.string().min(1, 'First name is required').optional(),
+  lastName: z.string().min(1, 'Last name is required').optional(),
+  email: z.string().email('Invalid email format').optional(),
+  phone: z.string().regex(ukPhoneRegex, 'Invalid UK phone number format').optional(),
+  address: z.string().optional().nullable(),
+  relationship: GuarantorRelationshipSchema.optional(),
+  liabilityCap: z.number().positive('Liability cap must be positive').optional().nullable(),
+  deedDocumentId: z.string().uuid('Invalid document ID').optional().nullable(),
+  notes: z.string().optional().nullable(),
+  leaseIds: z.array(z.string().uuid('Invalid lease ID')).min(1, 'At least one lease is required').optional(),
+});
+
+// Full Guarantor Schema (with all fields including timestamps)
+export const GuarantorSchema = z.object({
+  id: z.string().uuid(),
+  ...baseGuarantorSchema,
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+// Query Parameters Schema (for filtering)
+export const GuarantorQueryParamsSchema = z.object({
+  tenant_id: z.string().uuid('Invalid tenant ID').optional(),
+  lease_id: z.string().uuid('Invalid lease ID').optional(),
+});
+
+// Inferred TypeScript types
+export type GuarantorRelationship = z.infer<typeof GuarantorRelationshipSchema>;
+export type CreateGuarantor = z.infer<typeof CreateGuarantorSchema>;
+export type UpdateGuarantor = z.infer<typeof UpdateGuarantorSchema>;
+export type Guarantor = z.infer<typeof GuarantorSchema>;
+export type GuarantorQueryParams = z.infer<typeof GuarantorQueryParamsSchema>;
@@ -12,6 +12,18 @@ export {
   type Property,
 } from './property.validation.js';
 
+// Unit Validation
+export {
+  UnitStatusSchema,
+  CreateUnitSchema,
+  UpdateUnitSchema,
+  UnitSchema,
+  type UnitStatus,
+  type CreateUnit,
+  type UpdateUnit,
+  type Unit,
+} from './unit.validation.js';
+
 // Tenant Validation
 export {
   TenantStatusSchema,
@@ -24,6 +36,20 @@ export {
   type Tenant,
 } from './tenant.validation.js';
 
+// Guarantor Validation
+export {
+  GuarantorRelationshipSchema,
+  CreateGuarantorSchema,
+  UpdateGuarantorSchema,
+  GuarantorSchema,
+  GuarantorQueryParamsSchema,
+  type GuarantorRelationship,
+  type CreateGuarantor,
+  type UpdateGuarantor,
+  type Guarantor,
+  type GuarantorQueryParams,
+} from './guarantor.validation.js';
+
 // Lease Validation
 export {
   LeaseStatusSchema,
@@ -36,11 +62,27 @@ export {
   type Lease,
 } from './lease.validation.js';
 
+// Deposit Validation
+export {
+  DepositSchemeSchema,
+  DepositDeductionSchema,
+  ReturnDepositSchema,
+  DepositQueryParamsSchema,
+  type DepositScheme,
+  type DepositDeduction,
+  type ReturnDeposit,
+  type DepositQueryParams,
+} from './deposit.validation.js';
+
+// Report Validation
+export {
+  AsOfReportQueryParamsSchema,
+  type AsOfReportQueryParams,
+} from './report.validation.js';
+
 // Transaction Validation
 export {
   TransactionTypeSchema,
-  IncomeCategorySchema,
-  ExpenseCategorySchema,
   TransactionCategorySchema,
   CreateTransactionSchema,
   UpdateTransactionSchema,
@@ -48,8 +90,6 @@ export {
   TransactionWithSplitsSchema,
   UpdateTransactionWithSplitsSchema,
   type TransactionType,
-  type IncomeCategory,
-  type ExpenseCategory,
   type TransactionCategory,
   type CreateTransaction,
   type UpdateTransaction,
@@ -58,6 +98,35 @@ export {
   type UpdateTransactionWithSplits,
 } from './transaction.validation.js';
 
+// Transaction Category Validation
+export {
+  CreateTransactionCategorySchema,
+  UpdateTransactionCategorySchema,
+  TransactionCategoryRecordSchema,
+  TransactionCategoryQueryParamsSchema,
+  type CreateTransactionCategory,
+  type UpdateTransactionCategory,
+  type TransactionCategoryRecord,
+  type TransactionCategoryQueryParams,
+} from './transactionCategory.validation.js';
+
+// RecurringTransaction Validation
+export {
+  RecurringFrequencySchema,
+  RecurringTransactionSplitSchema,
+  RecurringTransactionSplitsArraySchema,
+  CreateRecurringTransactionSchema,
+  UpdateRecurringTransactionSchema,
+  RecurringTransactionSchema,
+  RecurringTransactionQueryParamsSchema,
+  type RecurringFrequency,
+  type RecurringTransactionSplit,
+  type CreateRecurringTransaction,
+  type UpdateRecurringTransaction,
+  type RecurringTransaction,
+  type RecurringTransactionQueryParams,
+} from './recurringTransaction.validation.js';
+
 // Event Validation
 export {
   EventTypeSchema,
@@ -141,33 +210,71 @@ export type {
 // BankAccount Validation
 export {
   SyncStatusSchema,
+  StatementFormatSchema,
+  StatementDateFormatSchema,
+  CsvColumnMappingSchema,
+  CreateImportBankAccountSchema,
+  StatementImportOptionsSchema,
   UpdateBankAccountSchema,
   BankAccountResponseSchema,
+  CreateBankReconciliationSchema,
   type SyncStatus,
+  type StatementFormat,
+  type StatementDateFormat,
+  type CsvColumnMapping,
+  type CreateImportBankAccount,
+  type StatementImportOptions,
   type UpdateBankAccount,
   type BankAccountResponse,
+  type CreateBankReconciliation,
 } from './bankAccount.validation.js';
 
 // MatchingRule Validation
 export {
   TransactionTypeSchema as MatchingRuleTransactionTypeSchema,
+  RULE_TEXT_FIELDS,
+  RULE_NUMERIC_FIELDS,
+  RULE_DATE_FIELDS,
+  RULE_TEXT_MATCH_TYPES,
+  RULE_NUMERIC_MATCH_TYPES,
+  MAX_CONDITION_DEPTH,
+  RuleConditionsSchema,
+  conditionDepth,
+  MatchingRuleSplitSchema,
+  MatchingRuleSplitsArraySchema,
   CreateMatchingRuleSchema,
   UpdateMatchingRuleSchema,
   MatchingRuleSchema,
   ReorderRulesSchema,
   TestRuleSchema,
+  ProposedMatchingRuleSchema,
+  RuleImpactPreviewSchema,
+  ApplyRuleImpactSchema,
+  DismissRuleSuggestionSchema,
   type TransactionType as MatchingRuleTransactionType,
+  type RuleCondition,
+  type RuleConditionGroup,
+  type RuleConditions,
+  type MatchingRuleSplit,
   type CreateMatchingRule,
   type UpdateMatchingRule,
   type MatchingRule,
   type ReorderRules,
   type TestRule,
+  type ProposedMatchingRule,
+  type RuleImpactPreview,
+  type ApplyRuleImpact,
+  type DismissRuleSuggestion,
 } from './matchingRule.validation.js';
 
 // PendingTransaction Validation
 export {
   bulkIdsSchema,
   bulkUpdateSchema,
+  linkPendingTransactionSchema,
+  splitPendingTransactionSchema,
   type BulkIds,
   type BulkUpdate,
+  type LinkPendingTransaction,
+  type SplitPendingTransaction,
 } from './pendingTransaction.validation.js';
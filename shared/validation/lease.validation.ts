@@ -1,23 +1,70 @@
 import { z } from 'zod';
+import { DepositSchemeSchema } from './deposit.validation.js';
 
 // Lease Status Enum
 export const LeaseStatusSchema = z.enum(['Draft', 'Active', 'Expired', 'Terminated']);
 
+// Rent Frequency Enum
+export const RentFrequencySchema = z.enum([
+  'Weekly',
+  'Fortnightly',
+  'Four-weekly',
+  'Monthly',
+  'Quarterly',
+  'Annually',
+]);
+
+// Frequencies whose due day is a weekday (ISO, Monday = 1) rather than a day of the month
+export const WEEKDAY_RENT_FREQUENCIES: readonly RentFrequency[] = ['Weekly', 'Fortnightly', 'Four-weekly'];
+
+/**
+ * Check a rent due day against its frequency: 1-7 for weekly cycles, 1-31 otherwise.
+ * A null due day means rent falls due on the anniversary of the start date.
+ */
+export const isValidRentDueDay = (frequency: RentFrequency, dueDay: number | null | undefined): boolean =>
+  dueDay === null || dueDay === undefined || dueDay <= (WEEKDAY_RENT_FREQUENCIES.includes(frequency) ? 7 : 31);
+
+const rentDueDaySchema = z
+  .number()
+  .int('Rent due day must be a whole number')
+  .min(1, 'Rent due day must be between 1 and 31')
+  .max(31, 'Rent due day must be between 1 and 31');
+
+export const RENT_DUE_DAY_WEEKDAY_MESSAGE =
+  'Rent due day for weekly frequencies must be a weekday from 1 (Monday) to 7 (Sunday)';
+
 // Base Lease Schema (common fields)
 const baseLeaseSchema = {
   propertyId: z.string().uuid('Invalid property ID'),
+  unitId: z.string().uuid('Invalid unit ID').optional().nullable(),
   tenantId: z.string().uuid('Invalid tenant ID'),
   startDate: z.coerce.date(),
   endDate: z.coerce.date().optional().nullable(),
-  monthlyRent: z.number().positive('Monthly rent must be positive'),
+  rentAmount: z.number().positive('Rent amount must be positive'),
+  rentFrequency: RentFrequencySchema.default('Monthly'),
+  rentDueDay: rentDueDaySchema.optional().nullable(),
   securityDepositAmount: z.number().positive('Security deposit must be positive'),
   securityDepositPaidDate: z.coerce.date().optional().nullable(),
+  depositScheme: DepositSchemeSchema.optional().nullable(),
+  depositCertificateRef: z.string().optional().nullable(),
+  depositProtectedDate: z.coerce.date().optional().nullable(),
+  prescribedInfoServedAt: z.coerce.date().optional().nullable(),
   status: LeaseStatusSchema,
 };
 
+// Additional tenants on a joint tenancy (the lead tenant is tenantId)
+const jointTenantIdsSchema = z
+  .array(z.string().uuid('Invalid tenant ID'))
+  .refine((ids) => new Set(ids).size === ids.length, {
+    message: 'Joint tenants must be unique',
+  });
+
 // Create Lease Schema (without id, timestamps) with date validation
 export const CreateLeaseSchema = z
-  .object(baseLeaseSchema)
+  .object({
+    ...baseLeaseSchema,
+    jointTenantIds: jointTenantIdsSchema.optional(),
+  })
   .refine(
     (data) => {
       // If endDate exists, ensure startDate <= endDate
@@ -30,20 +77,63 @@ export const CreateLeaseSchema = z
       message: 'Start date must be before or equal to end date',
       path: ['endDate'],
     }
-  );
+  )
+  .refine((data) => !data.jointTenantIds?.includes(data.tenantId), {
+    message: 'Lead tenant cannot also be a joint tenant',
+    path: ['jointTenantIds'],
+  })
+  .refine((data) => isValidRentDueDay(data.rentFrequency, data.rentDueDay), {
+    message: RENT_DUE_DAY_WEEKDAY_MESSAGE,
+    path: ['rentDueDay'],
+  });
 
 // Update Lease Schema (all fields optional except id) with date validation
 export const UpdateLeaseSchema = z
   .object({
     id: z.string().uuid(),
     propertyId: z.string().uuid('Invalid property ID').optional(),
+    unitId: z.string().uuid('Invalid unit ID').optional().nullable(),
     tenantId: z.string().uuid('Invalid tenant ID').optional(),
     startDate: z.coerce.date().optional(),
     endDate: z.coerce.date().optional().nullable(),
-    monthlyRent: z.number().positive('Monthly rent must be positive').optional(),
+    rentAmount: z.number().positive('Rent amount must be positive').optional(),
+    rentFrequency: RentFrequencySchema.optional(),
+    rentDueDay: rentDueDaySchema.optional().nullable(),
     securityDepositAmount: z.number().positive('Security deposit must be positive').optional(),
     securityDepositPaidDate: z.coerce.date().optional().nullable(),
+    depositScheme: DepositSchemeSchema.optional().nullable(),
+    depositCertificateRef: z.string().optional().nullable(),
+    depositProtectedDate: z.coerce.date().optional().nullable(),
+    prescribedInfoServedAt: z.coerce.date().optional().nullable(),
     status: LeaseStatusSchema.optional(),
+    jointTenantIds: jointTenantIdsSchema.optional(),
+  })
+  .refine(
+    (data) => {
+      // If both dates exist, ensure startDate <= endDate
+      if (data.startDate && data.endDate) {
+        return data.startDate <= data.endDate;
+      }
+      return true;
+    },
+    {
+      message: 'Start date must be before or equal to end date',
+      path: ['endDate'],
+    }
+  )
+  .refine((data) => !data.tenantId || !data.jointTenantIds?.includes(data.tenantId), {
+    message: 'Lead tenant cannot also be a joint tenant',
+    path: ['jointTenantIds'],
+  });
+
+// Renew Lease Schema - successor terms; anything not given is carried over from the current lease
+export const RenewLeaseSchema = z
+  .object({
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional().nullable(),
+    rentAmount: z.number().positive('Rent amount must be positive'),
+    rentFrequency: RentFrequencySchema.optional(),
+    rentDueDay: rentDueDaySchema.optional().nullable(),
   })
   .refine(
     (data) => {
@@ -59,6 +149,14 @@ export const UpdateLeaseSchema = z
     }
   );
 
+// Rent Change Schema - a new rent per period from effectiveDate, on the lease's existing frequency
+export const CreateRentChangeSchema = z.object({
+  effectiveDate: z.coerce.date(),
+  rentAmount: z.number().positive('Rent amount must be positive'),
+  noticeServedAt: z.coerce.date().optional().nullable(),
+  notes: z.string().optional().nullable(),
+});
+
 // Full Lease Schema (with all fields including timestamps)
 export const LeaseSchema = z
   .object({
@@ -87,13 +185,43 @@ export const LeaseQueryParamsSchema = z.object({
     z.string().uuid('Invalid property ID'),
     z.array(z.string().uuid('Invalid property ID'))
   ]).optional(),
+  unit_id: z.string().uuid('Invalid unit ID').optional(),
   tenant_id: z.string().uuid('Invalid tenant ID').optional(),
   status: LeaseStatusSchema.optional(),
 });
 
+// Query Params Schema for the rent ledger
+export const LeaseLedgerQueryParamsSchema = z.object({
+  as_of: z.coerce.date().optional(),
+});
+
+// Query Params Schema for a lease's rent history
+export const RentHistoryQueryParamsSchema = z.object({
+  as_of: z.coerce.date().optional(),
+});
+
+// Query Params Schema for the scheduler's status change log
+export const LeaseStatusChangeQueryParamsSchema = z.object({
+  lease_id: z.string().uuid('Invalid lease ID').optional(),
+  from_date: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// Body Schema for running status transitions on demand
+export const RunLeaseStatusTransitionsSchema = z.object({
+  as_of: z.coerce.date().optional(),
+});
+
 // Inferred TypeScript types
 export type LeaseStatus = z.infer<typeof LeaseStatusSchema>;
+export type RentFrequency = z.infer<typeof RentFrequencySchema>;
 export type CreateLease = z.infer<typeof CreateLeaseSchema>;
 export type UpdateLease = z.infer<typeof UpdateLeaseSchema>;
+export type RenewLease = z.infer<typeof RenewLeaseSchema>;
+export type CreateRentChange = z.infer<typeof CreateRentChangeSchema>;
 export type Lease = z.infer<typeof LeaseSchema>;
 export type LeaseQueryParams = z.infer<typeof LeaseQueryParamsSchema>;
+export type LeaseLedgerQueryParams = z.infer<typeof LeaseLedgerQueryParamsSchema>;
+export type RentHistoryQueryParams = z.infer<typeof RentHistoryQueryParamsSchema>;
+export type LeaseStatusChangeQueryParams = z.infer<typeof LeaseStatusChangeQueryParamsSchema>;
+export type RunLeaseStatusTransitions = z.infer<typeof RunLeaseStatusTransitionsSchema>;
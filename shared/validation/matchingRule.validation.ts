@@ -1,40 +1,182 @@
 import { z } from 'zod';
 
+// Condition fields by how they are compared. Day of month and weekday (1 =
+// Monday ... 7 = Sunday) come from the transaction date; date compares it as
+// YYYY-MM-DD, so a date condition gives a rule a validity window.
+export const RULE_TEXT_FIELDS = ['description', 'counterpartyName', 'reference', 'merchant', 'category'] as const;
+export const RULE_NUMERIC_FIELDS = ['amount', 'dayOfMonth', 'weekday'] as const;
+export const RULE_DATE_FIELDS = ['date'] as const;
+
+export const RULE_TEXT_MATCH_TYPES = ['contains', 'equals', 'startsWith', 'endsWith', 'regex'] as const;
+export const RULE_NUMERIC_MATCH_TYPES = ['equals', 'greaterThan', 'lessThan', 'between'] as const;
+
+// Groups can hold groups, but not without limit
+export const MAX_CONDITION_DEPTH = 5;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidDate = (value: unknown) =>
+  typeof value === 'string' && ISO_DATE.test(value) && !Number.isNaN(new Date(value).getTime());
+
+const isNumeric = (value: unknown) => value !== undefined && value !== '' && !Number.isNaN(Number(value));
+
+const DAY_FIELD_RANGES: Partial<Record<string, [number, number]>> = {
+  dayOfMonth: [1, 31],
+  weekday: [1, 7],
+};
+
 // Rule condition schema matching the rule evaluation engine
-const RuleConditionSchema = z.object({
-  field: z.enum(['description', 'counterpartyName', 'reference', 'merchant', 'amount']),
-  matchType: z.enum(['contains', 'equals', 'startsWith', 'endsWith', 'greaterThan', 'lessThan']),
-  value: z.union([z.string(), z.number()]),
-  caseSensitive: z.boolean().optional(),
-});
+const RuleConditionSchema = z
+  .object({
+    field: z.enum([...RULE_TEXT_FIELDS, ...RULE_NUMERIC_FIELDS, ...RULE_DATE_FIELDS]),
+    matchType: z.enum(['contains', 'equals', 'startsWith', 'endsWith', 'regex', 'greaterThan', 'lessThan', 'between']),
+    value: z.union([z.string(), z.number()]),
+    // Upper bound for between, inclusive
+    valueTo: z.union([z.string(), z.number()]).optional(),
+    caseSensitive: z.boolean().optional(),
+  })
+  .superRefine((condition, ctx) => {
+    const { field, matchType, value, valueTo } = condition;
+    const isText = (RULE_TEXT_FIELDS as readonly string[]).includes(field);
+    const allowed: readonly string[] = isText ? RULE_TEXT_MATCH_TYPES : RULE_NUMERIC_MATCH_TYPES;
+
+    if (!allowed.includes(matchType)) {
+      ctx.addIssue({ code: 'custom', message: `${matchType} cannot be used with ${field}` });
+      return;
+    }
+
+    if (matchType === 'regex') {
+      try {
+        new RegExp(String(value));
+      } catch {
+        ctx.addIssue({ code: 'custom', message: `Invalid regular expression: ${value}` });
+      }
+      return;
+    }
+
+    if (isText) {
+      return;
+    }
+
+    const bounds = matchType === 'between' ? [value, valueTo] : [value];
+
+    if (field === 'date') {
+      if (!bounds.every(isValidDate)) {
+        ctx.addIssue({ code: 'custom', message: 'Dates must be in YYYY-MM-DD format' });
+        return;
+      }
+    } else {
+      if (!bounds.every(isNumeric)) {
+        ctx.addIssue({ code: 'custom', message: `${field} conditions need a number` });
+        return;
+      }
+
+      const range = DAY_FIELD_RANGES[field];
+      if (
+        range &&
+        bounds.some((bound) => !Number.isInteger(Number(bound)) || Number(bound) < range[0] || Number(bound) > range[1])
+      ) {
+        ctx.addIssue({ code: 'custom', message: `${field} must be a whole number from ${range[0]} to ${range[1]}` });
+        return;
+      }
+    }
+
+    if (
+      matchType === 'between' &&
+      (field === 'date' ? String(value) > String(valueTo) : Number(value) > Number(valueTo))
+    ) {
+      ctx.addIssue({ code: 'custom', message: 'The end of a between condition cannot be before its start' });
+    }
+  });
+
+export type RuleCondition = z.infer<typeof RuleConditionSchema>;
+
+/**
+ * An AND/OR group of conditions and nested groups
+ */
+export interface RuleConditionGroup {
+  operator: 'AND' | 'OR';
+  rules: Array<RuleCondition | RuleConditionGroup>;
+}
+
+const RuleConditionGroupSchema: z.ZodType<RuleConditionGroup> = z.lazy(() =>
+  z.object({
+    operator: z.enum(['AND', 'OR']),
+    rules: z.array(z.union([RuleConditionSchema, RuleConditionGroupSchema])),
+  })
+);
 
-const RuleConditionsSchema = z.object({
-  operator: z.enum(['AND', 'OR']),
-  rules: z.array(RuleConditionSchema),
+/**
+ * How deeply groups are nested; a group of plain conditions has depth 1
+ */
+export function conditionDepth(group: RuleConditionGroup): number {
+  return (
+    1 +
+    Math.max(
+      0,
+      ...group.rules.map((rule) => ('operator' in rule ? conditionDepth(rule) : 0))
+    )
+  );
+}
+
+export const RuleConditionsSchema = RuleConditionGroupSchema.refine(
+  (group) => conditionDepth(group) <= MAX_CONDITION_DEPTH,
+  { message: `Condition groups can be nested at most ${MAX_CONDITION_DEPTH} deep` }
+);
+
+// Conditions are stored as JSON; report the first specific problem where there is one
+const ConditionsJsonSchema = z.string().superRefine((val, ctx) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(val);
+  } catch {
+    ctx.addIssue({ code: 'custom', message: 'Invalid conditions format' });
+    return;
+  }
+
+  const result = RuleConditionsSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues.find((i) => i.code === 'custom');
+    ctx.addIssue({ code: 'custom', message: issue?.message ?? 'Invalid conditions format' });
+  }
 });
 
 // Transaction type enum
 export const TransactionTypeSchema = z.enum(['INCOME', 'EXPENSE']);
 
+// Split share for transactions a rule creates - amounts are worked out from
+// each bank transaction's amount
+export const MatchingRuleSplitSchema = z.object({
+  userId: z.string().uuid('Invalid user ID'),
+  percentage: z
+    .number()
+    .min(0.01, 'Split must be at least 0.01%')
+    .max(100, 'Split cannot exceed 100%'),
+});
+
+export const MatchingRuleSplitsArraySchema = z
+  .array(MatchingRuleSplitSchema)
+  .min(1, 'At least one split required')
+  .refine(
+    (splits) => {
+      const sum = splits.reduce((acc, s) => acc + s.percentage, 0);
+      return Math.abs(sum - 100) < 0.01;
+    },
+    { message: 'Split percentages must sum to 100%' }
+  );
+
 // Base MatchingRule Schema (common fields)
 const baseMatchingRuleSchema = {
   name: z.string().min(1, 'Rule name is required'),
   enabled: z.boolean().default(true),
-  conditions: z.string().refine(
-    (val) => {
-      try {
-        const parsed = JSON.parse(val);
-        RuleConditionsSchema.parse(parsed);
-        return true;
-      } catch {
-        return false;
-      }
-    },
-    { message: 'Invalid conditions format' }
-  ),
+  conditions: ConditionsJsonSchema,
   propertyId: z.string().uuid().optional().nullable(),
   type: TransactionTypeSchema.optional().nullable(),
   category: z.string().optional().nullable(),
+  leaseId: z.string().uuid('Invalid lease ID').optional().nullable(),
+  paidByUserId: z.string().uuid('Invalid user ID').optional().nullable(),
+  // Omitted or null: split by property ownership
+  splits: MatchingRuleSplitsArraySchema.optional().nullable(),
 };
 
 // Create MatchingRule Schema (without id, timestamps, priority, bankAccountId)
@@ -45,21 +187,14 @@ export const UpdateMatchingRuleSchema = z.object({
   id: z.string().uuid(),
   name: z.string().min(1, 'Rule name is required').optional(),
   enabled: z.boolean().optional(),
-  conditions: z.string().refine(
-    (val) => {
-      try {
-        const parsed = JSON.parse(val);
-        RuleConditionsSchema.parse(parsed);
-        return true;
-      } catch {
-        return false;
-      }
-    },
-    { message: 'Invalid conditions format' }
-  ).optional(),
+  conditions: ConditionsJsonSchema.optional(),
   propertyId: z.string().uuid().optional().nullable(),
   type: TransactionTypeSchema.optional().nullable(),
   category: z.string().optional().nullable(),
+  leaseId: z.string().uuid('Invalid lease ID').optional().nullable(),
+  paidByUserId: z.string().uuid('Invalid user ID').optional().nullable(),
+  // null clears the split preset so property ownership is used again
+  splits: MatchingRuleSplitsArraySchema.optional().nullable(),
 });
 
 // Full MatchingRule Schema (with all fields including timestamps)
@@ -84,12 +219,42 @@ export const TestRuleSchema = z.object({
   counterpartyName: z.string().optional(),
   merchant: z.string().optional(),
   reference: z.string().optional(),
+  category: z.string().optional(),
+  transactionDate: z.coerce.date().optional(),
+});
+
+// A rule in a proposed rule set. Saved rules keep their ID; the set's order is
+// its priority order.
+export const ProposedMatchingRuleSchema = z.object({
+  id: z.string().uuid().optional(),
+  ...baseMatchingRuleSchema,
+});
+
+// Rule impact preview schema - the account's whole proposed rule set
+export const RuleImpactPreviewSchema = z.object({
+  rules: z.array(ProposedMatchingRuleSchema),
+});
+
+// Apply rule impact schema - the previewed changes to make
+export const ApplyRuleImpactSchema = RuleImpactPreviewSchema.extend({
+  bankTransactionIds: z.array(z.string().uuid()).min(1, 'Select at least one change to apply'),
+});
+
+// Dismiss rule suggestion schema
+export const DismissRuleSuggestionSchema = z.object({
+  key: z.string().min(1, 'Suggestion key is required'),
 });
 
 // Inferred TypeScript types
 export type TransactionType = z.infer<typeof TransactionTypeSchema>;
+export type RuleConditions = z.infer<typeof RuleConditionsSchema>;
+export type MatchingRuleSplit = z.infer<typeof MatchingRuleSplitSchema>;
 export type CreateMatchingRule = z.infer<typeof CreateMatchingRuleSchema>;
 export type UpdateMatchingRule = z.infer<typeof UpdateMatchingRuleSchema>;
 export type MatchingRule = z.infer<typeof MatchingRuleSchema>;
 export type ReorderRules = z.infer<typeof ReorderRulesSchema>;
 export type TestRule = z.infer<typeof TestRuleSchema>;
+export type ProposedMatchingRule = z.infer<typeof ProposedMatchingRuleSchema>;
+export type RuleImpactPreview = z.infer<typeof RuleImpactPreviewSchema>;
+export type ApplyRuleImpact = z.infer<typeof ApplyRuleImpactSchema>;
+export type DismissRuleSuggestion = z.infer<typeof DismissRuleSuggestionSchema>;
@@ -21,6 +21,30 @@ export const bulkUpdateSchema = z.object({
     }),
 });
 
+// Link Schema - resolve a pending transaction with an existing manual transaction
+export const linkPendingTransactionSchema = z.object({
+  transactionId: z.string().uuid('Invalid transaction ID format'),
+});
+
+// Split Schema - approve a pending transaction as several ledger transactions.
+// Amounts are positive, in the bank's minor units, and take the bank transaction's sign.
+export const splitPendingTransactionSchema = z.object({
+  parts: z
+    .array(
+      z.object({
+        propertyId: z.string().uuid('Invalid property ID format'),
+        leaseId: z.string().uuid('Invalid lease ID format').optional().nullable(),
+        type: TransactionTypeSchema,
+        category: TransactionCategorySchema,
+        amount: z.number().positive('Each part must have an amount greater than zero'),
+        description: z.string().trim().min(1, 'Description cannot be empty').optional(),
+      })
+    )
+    .min(2, 'A split needs at least two parts'),
+});
+
 // Inferred TypeScript types
 export type BulkIds = z.infer<typeof bulkIdsSchema>;
 export type BulkUpdate = z.infer<typeof bulkUpdateSchema>;
+export type LinkPendingTransaction = z.infer<typeof linkPendingTransactionSchema>;
+export type SplitPendingTransaction = z.infer<typeof splitPendingTransactionSchema>;
@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { TransactionTypeSchema, TransactionCategorySchema } from './transaction.validation.js';
+import { RentFrequencySchema } from './lease.validation.js';
+
+// Recurring transactions use the same schedule frequencies as rent
+export const RecurringFrequencySchema = RentFrequencySchema;
+
+// Split share for a recurring template - amounts are worked out from the
+// template amount each time a transaction is created
+export const RecurringTransactionSplitSchema = z.object({
+  userId: z.string().uuid('Invalid user ID'),
+  percentage: z
+    .number()
+    .min(0.01, 'Split must be at least 0.01%')
+    .max(100, 'Split cannot exceed 100%'),
+});
+
+export const RecurringTransactionSplitsArraySchema = z
+  .array(RecurringTransactionSplitSchema)
+  .min(1, 'At least one split required')
+  .refine(
+    (splits) => {
+      const sum = splits.reduce((acc, s) => acc + s.percentage, 0);
+      return Math.abs(sum - 100) < 0.01;
+    },
+    { message: 'Split percentages must sum to 100%' }
+  );
+
+// Base Recurring Transaction Schema (common fields)
+const baseRecurringTransactionSchema = {
+  propertyId: z.string().uuid('Invalid property ID'),
+  type: TransactionTypeSchema,
+  category: TransactionCategorySchema,
+  amount: z.number().positive('Amount must be positive'),
+  description: z.string().min(1, 'Description is required'),
+  paidByUserId: z.string().uuid('Invalid user ID').nullable().optional(),
+  frequency: RecurringFrequencySchema,
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().optional().nullable(),
+};
+
+// Create Recurring Transaction Schema (without id, timestamps) with date validation.
+// nextRunDate defaults to the start date; splits default to property ownership.
+export const CreateRecurringTransactionSchema = z
+  .object({
+    ...baseRecurringTransactionSchema,
+    nextRunDate: z.coerce.date().optional(),
+    splits: RecurringTransactionSplitsArraySchema.optional(),
+  })
+  .refine(
+    (data) => {
+      // If endDate exists, ensure startDate <= endDate
+      if (data.endDate) {
+        return data.startDate <= data.endDate;
+      }
+      return true;
+    },
+    {
+      message: 'Start date must be before or equal to end date',
+      path: ['endDate'],
+    }
+  );
+
+// Update Recurring Transaction Schema (all fields optional except id) with date validation
+export const UpdateRecurringTransactionSchema = z
+  .object({
+    id: z.string().uuid(),
+    type: TransactionTypeSchema.optional(),
+    category: TransactionCategorySchema.optional(),
+    amount: z.number().positive('Amount must be positive').optional(),
+    description: z.string().min(1, 'Description is required').optional(),
+    paidByUserId: z.string().uuid('Invalid user ID').nullable().optional(),
+    frequency: RecurringFrequencySchema.optional(),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional().nullable(),
+    nextRunDate: z.coerce.date().optional(),
+    isPaused: z.boolean().optional(),
+    // null clears custom splits so property ownership is used again
+    splits: RecurringTransactionSplitsArraySchema.nullable().optional(),
+  })
+  .refine(
+    (data) => {
+      // If both dates exist, ensure startDate <= endDate
+      if (data.startDate && data.endDate) {
+        return data.startDate <= data.endDate;
+      }
+      return true;
+    },
+    {
+      message: 'Start date must be before or equal to end date',
+      path: ['endDate'],
+    }
+  );
+
+// Full Recurring Transaction Schema (with all fields including timestamps)
+export const RecurringTransactionSchema = z.object({
+  id: z.string().uuid(),
+  ...baseRecurringTransactionSchema,
+  nextRunDate: z.date(),
+  lastRunDate: z.date().nullable(),
+  isPaused: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+// Query Parameters Schema (for filtering)
+export const RecurringTransactionQueryParamsSchema = z.object({
+  property_id: z.string().uuid('Invalid property ID').optional(),
+});
+
+// Inferred TypeScript types
+export type RecurringFrequency = z.infer<typeof RecurringFrequencySchema>;
+export type RecurringTransactionSplit = z.infer<typeof RecurringTransactionSplitSchema>;
+export type CreateRecurringTransaction = z.infer<typeof CreateRecurringTransactionSchema>;
+export type UpdateRecurringTransaction = z.infer<typeof UpdateRecurringTransactionSchema>;
+export type RecurringTransaction = z.infer<typeof RecurringTransactionSchema>;
+export type RecurringTransactionQueryParams = z.infer<typeof RecurringTransactionQueryParamsSchema>;
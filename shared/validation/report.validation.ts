@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+// Query Params Schema for the reports taken as at a date: arrears, arrears aging,
+// rent roll and deposit compliance. as_of matches the lease ledger and rent history.
+export const AsOfReportQueryParamsSchema = z.object({
+  as_of: z.coerce.date().optional(),
+  propertyId: z.string().uuid().optional(),
+});
+
+// Inferred TypeScript types
+export type AsOfReportQueryParams = z.infer<typeof AsOfReportQueryParamsSchema>;
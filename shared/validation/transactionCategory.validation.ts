@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { TransactionTypeSchema } from './transaction.validation.js';
+
+// Create Transaction Category Schema (without id, timestamps)
+export const CreateTransactionCategorySchema = z.object({
+  name: z.string().trim().min(1, 'Category name is required').max(50, 'Category name must be 50 characters or less'),
+  type: TransactionTypeSchema,
+  parentId: z.string().uuid('Invalid parent category ID').optional().nullable(),
+});
+
+// Update Transaction Category Schema (all fields optional except id)
+// Type is fixed at creation so existing transactions keep a matching category
+export const UpdateTransactionCategorySchema = z.object({
+  id: z.string().uuid(),
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Category name is required')
+    .max(50, 'Category name must be 50 characters or less')
+    .optional(),
+  parentId: z.string().uuid('Invalid parent category ID').optional().nullable(),
+  sortOrder: z.number().int().min(0, 'Sort order must be zero or more').optional(),
+  isArchived: z.boolean().optional(),
+});
+
+// Full Transaction Category Schema (with all fields including timestamps)
+export const TransactionCategoryRecordSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  type: TransactionTypeSchema,
+  parentId: z.string().uuid().nullable(),
+  sortOrder: z.number().int(),
+  isArchived: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+// Query Parameters Schema (for filtering)
+export const TransactionCategoryQueryParamsSchema = z.object({
+  type: TransactionTypeSchema.optional(),
+  include_archived: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .optional(),
+});
+
+// Inferred TypeScript types
+export type CreateTransactionCategory = z.infer<typeof CreateTransactionCategorySchema>;
+export type UpdateTransactionCategory = z.infer<typeof UpdateTransactionCategorySchema>;
+export type TransactionCategoryRecord = z.infer<typeof TransactionCategoryRecordSchema>;
+export type TransactionCategoryQueryParams = z.infer<typeof TransactionCategoryQueryParamsSchema>;
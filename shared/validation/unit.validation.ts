@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+// Unit Status Enum
+export const UnitStatusSchema = z.enum(['Available', 'Occupied', 'Under Maintenance']);
+
+// Base Unit Schema (common fields)
+const baseUnitSchema = {
+  name: z.string().min(1, 'Unit name is required'),
+  status: UnitStatusSchema,
+  notes: z.string().optional().nullable(),
+};
+
+// Create Unit Schema (property comes from the route)
+export const CreateUnitSchema = z.object(baseUnitSchema);
+
+// Update Unit Schema (all fields optional except id)
+export const UpdateUnitSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1, 'Unit name is required').optional(),
+  status: UnitStatusSchema.optional(),
+  notes: z.string().optional().nullable(),
+});
+
+// Full Unit Schema (with all fields including timestamps)
+export const UnitSchema = z.object({
+  id: z.string().uuid(),
+  propertyId: z.string().uuid(),
+  ...baseUnitSchema,
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+// Query Params Schema for the occupancy roll-up
+export const OccupancyQueryParamsSchema = z.object({
+  as_of: z.coerce.date().optional(),
+});
+
+// Inferred TypeScript types
+export type UnitStatus = z.infer<typeof UnitStatusSchema>;
+export type CreateUnit = z.infer<typeof CreateUnitSchema>;
+export type UpdateUnit = z.infer<typeof UpdateUnitSchema>;
+export type Unit = z.infer<typeof UnitSchema>;
+export type OccupancyQueryParams = z.infer<typeof OccupancyQueryParamsSchema>;
@@ -61,7 +61,7 @@ const validLease = {
   tenantId: '123e4567-e89b-12d3-a456-426614174001',
   startDate: new Date('2024-01-01'),
   endDate: new Date('2024-12-31'),
-  monthlyRent: 1200,
+  rentAmount: 1200,
   securityDepositAmount: 1200,
   status: 'Active',
 };
@@ -86,7 +86,7 @@ try {
   console.log('✓ Invalid lease date range correctly rejected');
 }
 
-// Test valid transaction with category validation
+// Test valid transaction
 const validIncomeTransaction = {
   propertyId: '123e4567-e89b-12d3-a456-426614174000',
   type: 'Income',
@@ -103,17 +103,17 @@ try {
   console.error('✗ Valid income transaction failed:', error);
 }
 
-// Test invalid transaction (income type with expense category)
+// Test invalid transaction (missing category - type matching is checked against the database)
 const invalidTransaction = {
   ...validIncomeTransaction,
-  category: 'Maintenance',
+  category: '',
 };
 
 try {
   CreateTransactionSchema.parse(invalidTransaction);
-  console.error('✗ Invalid transaction category should have failed');
+  console.error('✗ Missing transaction category should have failed');
 } catch (error) {
-  console.log('✓ Invalid transaction category correctly rejected');
+  console.log('✓ Missing transaction category correctly rejected');
 }
 
 // Test valid event